@@ -0,0 +1,134 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { SongData } from "@infinitune/shared/protocol";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const downloads: string[] = [];
+const signals: (AbortSignal | undefined)[] = [];
+
+// Each "download" writes 100 bytes, so the cap is easy to reason about.
+vi.mock("../lib/api", () => ({
+	downloadToFile: vi.fn(
+		async (url: string, outputPath: string, signal?: AbortSignal) => {
+			downloads.push(url);
+			signals.push(signal);
+			if (url.includes("broken")) throw new Error("HTTP 500");
+			// Fails the first time only
+			if (url.includes("flaky") && downloads.length === 1) {
+				throw new Error("Failed to reach server");
+			}
+			fs.writeFileSync(outputPath, Buffer.alloc(100));
+			return 100;
+		},
+	),
+}));
+
+import { AudioCache } from "./audio-cache";
+
+function song(id: string, orderIndex: number): SongData {
+	return {
+		id,
+		status: "ready",
+		orderIndex,
+		createdAt: orderIndex,
+		audioUrl: `/audio/${id}.mp3`,
+	};
+}
+
+describe("AudioCache", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "infi-cache-"));
+		downloads.length = 0;
+		signals.length = 0;
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("downloads once and serves the cached file", async () => {
+		const cache = new AudioCache(dir, 1_000);
+		const [first, second] = await Promise.all([
+			cache.prefetch("a", "http://server/audio/a.mp3"),
+			cache.prefetch("a", "http://server/audio/a.mp3"),
+		]);
+
+		expect(first).toBe(path.join(dir, "a.mp3"));
+		expect(second).toBe(first);
+		expect(downloads).toHaveLength(1);
+		expect(cache.lookup("a")).toBe(first);
+		expect(new AudioCache(dir, 1_000).has("a")).toBe(true);
+	});
+
+	it("evicts the least recently played unpinned songs past the cap", async () => {
+		const cache = new AudioCache(dir, 300);
+		await cache.prefetch("pinned", "http://server/audio/pinned.mp3", {
+			playlistId: "pl-1",
+		});
+		cache.pin("pl-1");
+		await cache.prefetch("old", "http://server/audio/old.mp3");
+		await cache.prefetch("new", "http://server/audio/new.mp3");
+		await cache.prefetch("newest", "http://server/audio/newest.mp3");
+
+		expect(cache.has("pinned")).toBe(true);
+		expect(cache.has("old")).toBe(false);
+		expect(cache.has("new")).toBe(true);
+		expect(cache.has("newest")).toBe(true);
+		expect(fs.existsSync(path.join(dir, "old.mp3"))).toBe(false);
+		expect(cache.status().totalBytes).toBe(300);
+	});
+
+	it("keeps pinned songs through a full prune and queues them offline", async () => {
+		const cache = new AudioCache(dir, 10_000);
+		cache.pin("pl-1", "Night Drive");
+		await cache.prefetch("b", "http://server/audio/b.mp3", {
+			playlistId: "pl-1",
+			song: song("b", 2),
+		});
+		await cache.prefetch("a", "http://server/audio/a.mp3", {
+			playlistId: "pl-1",
+			song: song("a", 1),
+		});
+		await cache.prefetch("loose", "http://server/audio/loose.mp3");
+
+		expect(cache.prune(true)).toEqual({ removed: 1, freedBytes: 100 });
+		expect(cache.offlineQueue("pl-1").map((entry) => entry.id)).toEqual([
+			"a",
+			"b",
+		]);
+		expect(cache.status().pinned).toEqual([
+			expect.objectContaining({
+				playlistId: "pl-1",
+				name: "Night Drive",
+				songCount: 2,
+				bytes: 200,
+			}),
+		]);
+	});
+
+	it("reports failed downloads without caching anything", async () => {
+		const cache = new AudioCache(dir, 1_000);
+		expect(
+			await cache.prefetch("x", "http://server/audio/broken.mp3"),
+		).toBeNull();
+		expect(cache.has("x")).toBe(false);
+		expect(cache.status().lastError).toBe("HTTP 500");
+	});
+
+	it("bounds downloads with a timeout and retries failures later", async () => {
+		vi.useFakeTimers({ toFake: ["setTimeout"] });
+		const cache = new AudioCache(dir, 1_000);
+		const url = "http://server/audio/flaky.mp3";
+
+		expect(await cache.prefetch("f", url)).toBeNull();
+		expect(signals[0]).toBeInstanceOf(AbortSignal);
+
+		await vi.advanceTimersByTimeAsync(30_000);
+		expect(await cache.prefetch("f", url)).toBe(path.join(dir, "f.mp3"));
+		expect(downloads).toEqual([url, url]);
+	});
+});
@@ -0,0 +1,409 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { SongData } from "@infinitune/shared/protocol";
+import { downloadToFile } from "../lib/api";
+
+const INDEX_VERSION = 1;
+const MAX_CONCURRENT_DOWNLOADS = 2;
+// Long enough for a full song on a slow link; a stalled transfer must not
+// hold one of the download slots forever.
+const DOWNLOAD_TIMEOUT_MS = 5 * 60_000;
+const MAX_DOWNLOAD_ATTEMPTS = 3;
+const DOWNLOAD_RETRY_DELAY_MS = 30_000;
+
+export const DEFAULT_AUDIO_CACHE_MAX_MB = 2048;
+
+export type CachedSongEntry = {
+	songId: string;
+	fileName: string;
+	bytes: number;
+	lastAccessAt: number;
+	playlistId: string | null;
+	// Kept so a pinned playlist can be queued without the server.
+	song: SongData | null;
+};
+
+export type PinnedPlaylist = {
+	playlistId: string;
+	name: string | null;
+	pinnedAt: number;
+};
+
+type CacheIndex = {
+	version: number;
+	entries: CachedSongEntry[];
+	pinned: PinnedPlaylist[];
+};
+
+export type PrefetchOptions = {
+	playlistId?: string | null;
+	song?: SongData | null;
+	// Jump ahead of queued pinned-playlist downloads (next-song preloads).
+	urgent?: boolean;
+};
+
+export type AudioCacheStatus = {
+	dir: string;
+	maxBytes: number;
+	totalBytes: number;
+	songCount: number;
+	pinned: Array<PinnedPlaylist & { songCount: number; bytes: number }>;
+	downloading: number;
+	queued: number;
+	lastError: string | null;
+};
+
+export type PruneResult = {
+	removed: number;
+	freedBytes: number;
+};
+
+type DownloadJob = {
+	songId: string;
+	url: string;
+	options: PrefetchOptions;
+	attempts: number;
+	resolve: (filePath: string | null) => void;
+};
+
+function fileExtension(url: string): string {
+	try {
+		const ext = path.extname(new URL(url).pathname);
+		return /^\.[A-Za-z0-9]{1,5}$/.test(ext) ? ext : ".audio";
+	} catch {
+		return ".audio";
+	}
+}
+
+function emptyIndex(): CacheIndex {
+	return { version: INDEX_VERSION, entries: [], pinned: [] };
+}
+
+/**
+ * Size-capped, least-recently-played audio cache on disk. Songs from pinned
+ * playlists are never evicted, so they stay playable offline.
+ */
+export class AudioCache {
+	private readonly dir: string;
+	private readonly indexPath: string;
+	private maxBytes: number;
+	private index: CacheIndex;
+	private inflight = new Map<string, Promise<string | null>>();
+	private pending: DownloadJob[] = [];
+	private active = 0;
+	private lastError: string | null = null;
+
+	constructor(dir: string, maxBytes: number) {
+		this.dir = dir;
+		this.indexPath = path.join(dir, "index.json");
+		this.maxBytes = Math.max(0, maxBytes);
+		this.index = this.readIndex();
+	}
+
+	setMaxBytes(maxBytes: number): void {
+		this.maxBytes = Math.max(0, maxBytes);
+		this.evict();
+	}
+
+	/** Path of a cached song file, marking it as recently used. */
+	lookup(songId: string): string | null {
+		const entry = this.index.entries.find((item) => item.songId === songId);
+		if (!entry) return null;
+		const filePath = path.join(this.dir, entry.fileName);
+		if (!fs.existsSync(filePath)) {
+			this.removeEntries([entry]);
+			return null;
+		}
+		entry.lastAccessAt = Date.now();
+		this.writeIndex();
+		return filePath;
+	}
+
+	has(songId: string): boolean {
+		return this.index.entries.some((entry) => entry.songId === songId);
+	}
+
+	/**
+	 * Download a song into the cache unless it is already there. Resolves to
+	 * the cached path, or null when the download fails.
+	 */
+	prefetch(
+		songId: string,
+		url: string,
+		options: PrefetchOptions = {},
+	): Promise<string | null> {
+		const existing = this.index.entries.find(
+			(entry) => entry.songId === songId,
+		);
+		if (existing && fs.existsSync(path.join(this.dir, existing.fileName))) {
+			const adopt =
+				(options.playlistId && existing.playlistId !== options.playlistId) ||
+				(options.song && !existing.song);
+			if (adopt) {
+				existing.playlistId = options.playlistId ?? existing.playlistId;
+				existing.song = options.song ?? existing.song;
+				this.writeIndex();
+			}
+			return Promise.resolve(path.join(this.dir, existing.fileName));
+		}
+
+		const running = this.inflight.get(songId);
+		if (running) {
+			if (options.urgent) this.promote(songId);
+			return running;
+		}
+
+		return this.enqueue(songId, url, options, 0);
+	}
+
+	isPinned(playlistId: string): boolean {
+		return this.index.pinned.some((entry) => entry.playlistId === playlistId);
+	}
+
+	pin(playlistId: string, name?: string | null): void {
+		const existing = this.index.pinned.find(
+			(entry) => entry.playlistId === playlistId,
+		);
+		if (existing) {
+			if (name) existing.name = name;
+		} else {
+			this.index.pinned.push({
+				playlistId,
+				name: name ?? null,
+				pinnedAt: Date.now(),
+			});
+		}
+		this.writeIndex();
+	}
+
+	/** Unpinning keeps the files; they just become evictable again. */
+	unpin(playlistId: string): boolean {
+		const before = this.index.pinned.length;
+		this.index.pinned = this.index.pinned.filter(
+			(entry) => entry.playlistId !== playlistId,
+		);
+		if (this.index.pinned.length === before) return false;
+		this.writeIndex();
+		this.evict();
+		return true;
+	}
+
+	pinnedPlaylists(): PinnedPlaylist[] {
+		return [...this.index.pinned];
+	}
+
+	/** Cached songs of a playlist in play order, for listening offline. */
+	offlineQueue(playlistId: string): SongData[] {
+		return this.index.entries
+			.filter((entry) => entry.playlistId === playlistId && entry.song)
+			.map((entry) => entry.song as SongData)
+			.sort((a, b) => a.orderIndex - b.orderIndex);
+	}
+
+	/**
+	 * Evict down to the size cap, or every unpinned song with `all`. Also
+	 * drops index entries whose files disappeared and stray partial files.
+	 */
+	prune(all = false): PruneResult {
+		const missing = this.index.entries.filter(
+			(entry) => !fs.existsSync(path.join(this.dir, entry.fileName)),
+		);
+		this.removeEntries(missing);
+		this.removeStrayFiles();
+		if (!all) return this.evict();
+
+		const evictable = this.index.entries.filter(
+			(entry) => !this.isPinnedEntry(entry),
+		);
+		const freedBytes = evictable.reduce((sum, entry) => sum + entry.bytes, 0);
+		this.removeEntries(evictable);
+		return { removed: evictable.length, freedBytes };
+	}
+
+	status(): AudioCacheStatus {
+		return {
+			dir: this.dir,
+			maxBytes: this.maxBytes,
+			totalBytes: this.totalBytes(),
+			songCount: this.index.entries.length,
+			pinned: this.index.pinned.map((pin) => {
+				const songs = this.index.entries.filter(
+					(entry) => entry.playlistId === pin.playlistId,
+				);
+				return {
+					...pin,
+					songCount: songs.length,
+					bytes: songs.reduce((sum, entry) => sum + entry.bytes, 0),
+				};
+			}),
+			downloading: this.active,
+			queued: this.pending.length,
+			lastError: this.lastError,
+		};
+	}
+
+	private promote(songId: string): void {
+		const index = this.pending.findIndex((job) => job.songId === songId);
+		if (index <= 0) return;
+		const [job] = this.pending.splice(index, 1);
+		if (job) this.pending.unshift(job);
+	}
+
+	private enqueue(
+		songId: string,
+		url: string,
+		options: PrefetchOptions,
+		attempts: number,
+	): Promise<string | null> {
+		const promise = new Promise<string | null>((resolve) => {
+			const job: DownloadJob = { songId, url, options, attempts, resolve };
+			if (options.urgent) {
+				this.pending.unshift(job);
+			} else {
+				this.pending.push(job);
+			}
+		});
+		this.inflight.set(songId, promise);
+		this.pump();
+		return promise;
+	}
+
+	/** Queue a failed download again after a back-off, up to a few attempts. */
+	private scheduleRetry(job: DownloadJob): void {
+		const attempts = job.attempts + 1;
+		if (attempts >= MAX_DOWNLOAD_ATTEMPTS) return;
+		const timer = setTimeout(() => {
+			if (this.has(job.songId) || this.inflight.has(job.songId)) return;
+			void this.enqueue(
+				job.songId,
+				job.url,
+				{ ...job.options, urgent: false },
+				attempts,
+			);
+		}, DOWNLOAD_RETRY_DELAY_MS * attempts);
+		timer.unref();
+	}
+
+	private pump(): void {
+		while (this.active < MAX_CONCURRENT_DOWNLOADS && this.pending.length > 0) {
+			const job = this.pending.shift();
+			if (!job) break;
+			this.active += 1;
+			void this.download(job).finally(() => {
+				this.active -= 1;
+				this.inflight.delete(job.songId);
+				this.pump();
+			});
+		}
+	}
+
+	private async download(job: DownloadJob): Promise<void> {
+		const fileName = `${job.songId}${fileExtension(job.url)}`;
+		const filePath = path.join(this.dir, fileName);
+		try {
+			fs.mkdirSync(this.dir, { recursive: true });
+			const bytes = await downloadToFile(
+				job.url,
+				filePath,
+				AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+			);
+			this.index.entries = this.index.entries.filter(
+				(entry) => entry.songId !== job.songId,
+			);
+			this.index.entries.push({
+				songId: job.songId,
+				fileName,
+				bytes,
+				lastAccessAt: Date.now(),
+				playlistId: job.options.playlistId ?? null,
+				song: job.options.song ?? null,
+			});
+			this.writeIndex();
+			this.evict(job.songId);
+			this.lastError = null;
+			job.resolve(this.has(job.songId) ? filePath : null);
+		} catch (error) {
+			this.lastError = error instanceof Error ? error.message : String(error);
+			job.resolve(null);
+			this.scheduleRetry(job);
+		}
+	}
+
+	private isPinnedEntry(entry: CachedSongEntry): boolean {
+		return entry.playlistId !== null && this.isPinned(entry.playlistId);
+	}
+
+	private totalBytes(): number {
+		return this.index.entries.reduce((sum, entry) => sum + entry.bytes, 0);
+	}
+
+	/** Drop least-recently-used unpinned songs until under the cap. */
+	private evict(keepSongId?: string): PruneResult {
+		let total = this.totalBytes();
+		if (total <= this.maxBytes) return { removed: 0, freedBytes: 0 };
+
+		const candidates = this.index.entries
+			.filter(
+				(entry) => entry.songId !== keepSongId && !this.isPinnedEntry(entry),
+			)
+			.sort((a, b) => a.lastAccessAt - b.lastAccessAt);
+		const victims: CachedSongEntry[] = [];
+		for (const entry of candidates) {
+			if (total <= this.maxBytes) break;
+			victims.push(entry);
+			total -= entry.bytes;
+		}
+		const freedBytes = victims.reduce((sum, entry) => sum + entry.bytes, 0);
+		this.removeEntries(victims);
+		return { removed: victims.length, freedBytes };
+	}
+
+	private removeEntries(entries: CachedSongEntry[]): void {
+		if (entries.length === 0) return;
+		const ids = new Set(entries.map((entry) => entry.songId));
+		for (const entry of entries) {
+			// Unlinking a file ffplay still has open is fine; it keeps reading.
+			fs.rmSync(path.join(this.dir, entry.fileName), { force: true });
+		}
+		this.index.entries = this.index.entries.filter(
+			(entry) => !ids.has(entry.songId),
+		);
+		this.writeIndex();
+	}
+
+	private removeStrayFiles(): void {
+		if (!fs.existsSync(this.dir)) return;
+		const known = new Set(this.index.entries.map((entry) => entry.fileName));
+		const downloading = new Set(this.inflight.keys());
+		for (const name of fs.readdirSync(this.dir)) {
+			if (name === "index.json" || known.has(name)) continue;
+			const songId = name.replace(/\.[^.]+(\.part)?$/, "");
+			if (downloading.has(songId)) continue;
+			fs.rmSync(path.join(this.dir, name), { force: true });
+		}
+	}
+
+	private readIndex(): CacheIndex {
+		if (!fs.existsSync(this.indexPath)) return emptyIndex();
+		try {
+			const raw = JSON.parse(
+				fs.readFileSync(this.indexPath, "utf8"),
+			) as Partial<CacheIndex>;
+			if (raw.version !== INDEX_VERSION) return emptyIndex();
+			return {
+				version: INDEX_VERSION,
+				entries: Array.isArray(raw.entries) ? raw.entries : [],
+				pinned: Array.isArray(raw.pinned) ? raw.pinned : [],
+			};
+		} catch {
+			return emptyIndex();
+		}
+	}
+
+	private writeIndex(): void {
+		fs.mkdirSync(this.dir, { recursive: true });
+		const tmpPath = `${this.indexPath}.tmp`;
+		fs.writeFileSync(tmpPath, `${JSON.stringify(this.index)}\n`, "utf8");
+		fs.renameSync(tmpPath, this.indexPath);
+	}
+}
@@ -1,4 +1,5 @@
 import { type ChildProcess, spawn, spawnSync } from "node:child_process";
+import type { AudioCache, PrefetchOptions } from "./audio-cache";
 
 export type PlaybackSnapshot = {
 	songId: string | null;
@@ -8,8 +9,12 @@ export type PlaybackSnapshot = {
 	volume: number;
 	isMuted: boolean;
 	preloadedSongId: string | null;
+	// Whether the loaded song plays from the on-disk cache instead of HTTP.
+	fromCache: boolean;
 };
 
+const FADE_STEPS = 10;
+
 function clamp01(value: number): number {
 	if (value < 0) return 0;
 	if (value > 1) return 1;
@@ -21,10 +26,13 @@ export class FfplayEngine {
 	private scheduledStart: ReturnType<typeof setTimeout> | null = null;
 	private songId: string | null = null;
 	private url: string | null = null;
+	private fromCache = false;
 	private startOffsetSec = 0;
 	private startedAtMs = 0;
 	private pausedAtSec: number | null = null;
 	private volume = 0.8;
+	// Loudness normalization for the loaded song, baked into its filter chain.
+	private gainDb: number | null = null;
 	private muted = false;
 	private restartOnResume = false;
 	private expectedExits = new WeakSet<ChildProcess>();
@@ -33,32 +41,63 @@ export class FfplayEngine {
 	private pulseSinkInputId: string | null = null;
 	private liveVolumeRetryTimer: ReturnType<typeof setTimeout> | null = null;
 	private liveVolumeRetryAttempts = 0;
+	// Previous song's ffplay, kept alive while a crossfade runs.
+	private outgoing: ChildProcess | null = null;
+	private outgoingFadeTimer: ReturnType<typeof setInterval> | null = null;
 	private onEnded: () => void;
+	private cache: AudioCache | null;
 
-	constructor(onEnded: () => void) {
+	constructor(onEnded: () => void, cache?: AudioCache) {
 		this.onEnded = onEnded;
+		this.cache = cache ?? null;
 	}
 
+	/**
+	 * Load and start a song, optionally at a synchronized server time. With
+	 * `crossfadeMs`, the song that is playing keeps going and fades out while
+	 * the new one fades in from `startAt`. `gainDb` is the song's loudness
+	 * gain; like the web players, only attenuation is applied.
+	 */
 	loadSong(
 		songId: string,
 		url: string,
 		startAt: number | undefined,
 		serverTimeOffsetMs: number,
+		crossfadeMs?: number,
+		gainDb?: number,
 	): void {
+		this.stopOutgoing();
+		const canCrossfade =
+			typeof crossfadeMs === "number" && crossfadeMs > 0 && this.isPlaying();
+		if (canCrossfade && this.process) {
+			// Detach the playing process so the new song doesn't kill it.
+			this.outgoing = this.process;
+			this.expectedExits.add(this.process);
+			this.process = null;
+		}
+
+		const cachedPath = this.cache?.lookup(songId) ?? null;
 		this.songId = songId;
-		this.url = url;
+		this.url = cachedPath ?? url;
+		this.fromCache = cachedPath !== null;
+		if (!cachedPath) {
+			// Stream this time, but have the file for seeks and replays.
+			void this.cache?.prefetch(songId, url, { urgent: true });
+		}
+		this.gainDb = typeof gainDb === "number" && gainDb < 0 ? gainDb : null;
 		this.startOffsetSec = 0;
 		this.pausedAtSec = null;
 		this.restartOnResume = false;
 
 		const localStartAt =
 			typeof startAt === "number" ? startAt - serverTimeOffsetMs : undefined;
-		this.startAtOffset(0, localStartAt);
+		this.startAtOffset(0, localStartAt, canCrossfade ? crossfadeMs : undefined);
 	}
 
-	preload(songId: string, url: string): void {
+	/** Download an upcoming song into the cache so it plays from disk. */
+	preload(songId: string, url: string, options?: PrefetchOptions): void {
 		this.preloadSongId = songId;
-		void url;
+		void this.cache?.prefetch(songId, url, { urgent: true, ...options });
 	}
 
 	play(): void {
@@ -86,6 +125,7 @@ export class FfplayEngine {
 	}
 
 	pause(): void {
+		this.stopOutgoing();
 		if (!this.process || this.pausedAtSec !== null) return;
 		this.pausedAtSec = this.currentTime();
 		this.process.kill("SIGSTOP");
@@ -102,6 +142,7 @@ export class FfplayEngine {
 	seek(seconds: number): void {
 		const target = Math.max(0, seconds);
 		if (!this.songId || !this.url) return;
+		this.stopOutgoing();
 
 		if (this.pausedAtSec !== null) {
 			this.stopProcess(false);
@@ -155,11 +196,13 @@ export class FfplayEngine {
 	}
 
 	stop(resetSong = false): void {
+		this.stopOutgoing();
 		this.stopProcess(resetSong);
 		this.restartOnResume = false;
 		if (resetSong) {
 			this.songId = null;
 			this.url = null;
+			this.fromCache = false;
 			this.startOffsetSec = 0;
 			this.pausedAtSec = null;
 		}
@@ -196,6 +239,7 @@ export class FfplayEngine {
 			volume: this.volume,
 			isMuted: this.muted,
 			preloadedSongId: this.preloadSongId,
+			fromCache: this.fromCache,
 		};
 	}
 
@@ -204,7 +248,11 @@ export class FfplayEngine {
 		return Math.round(clamp01(this.volume) * 100);
 	}
 
-	private startAtOffset(offsetSec: number, localStartAt?: number): void {
+	private startAtOffset(
+		offsetSec: number,
+		localStartAt?: number,
+		crossfadeMs?: number,
+	): void {
 		if (!this.url) return;
 
 		if (this.scheduledStart) {
@@ -219,7 +267,7 @@ export class FfplayEngine {
 				this.stopProcess(false);
 				this.scheduledStart = setTimeout(() => {
 					this.scheduledStart = null;
-					this.spawnAtOffset(effectiveOffset);
+					this.spawnAtOffset(effectiveOffset, crossfadeMs);
 				}, delayMs);
 				return;
 			}
@@ -228,18 +276,32 @@ export class FfplayEngine {
 			}
 		}
 
-		this.spawnAtOffset(effectiveOffset);
+		this.spawnAtOffset(effectiveOffset, crossfadeMs);
 	}
 
-	private spawnAtOffset(offsetSec: number): void {
+	private spawnAtOffset(offsetSec: number, crossfadeMs?: number): void {
 		if (!this.url) return;
 
 		this.stopProcess(false);
+		if (crossfadeMs) this.fadeOutOutgoing(crossfadeMs);
+		if (!this.fromCache && this.songId) {
+			const cachedPath = this.cache?.lookup(this.songId) ?? null;
+			if (cachedPath) {
+				this.url = cachedPath;
+				this.fromCache = true;
+			}
+		}
 		this.startOffsetSec = Math.max(0, offsetSec);
 		this.startedAtMs = Date.now();
 		this.pausedAtSec = null;
 		this.restartOnResume = false;
 
+		const filters = [
+			...(this.gainDb !== null ? [`volume=${this.gainDb.toFixed(2)}dB`] : []),
+			...(crossfadeMs
+				? [`afade=t=in:d=${(crossfadeMs / 1000).toFixed(3)}`]
+				: []),
+		];
 		const args = [
 			"-nodisp",
 			"-autoexit",
@@ -249,6 +311,7 @@ export class FfplayEngine {
 			this.startOffsetSec.toFixed(3),
 			"-volume",
 			String(this.effectiveVolumePercent()),
+			...(filters.length > 0 ? ["-af", filters.join(",")] : []),
 			"-i",
 			this.url,
 		];
@@ -336,6 +399,51 @@ export class FfplayEngine {
 		}
 	}
 
+	/**
+	 * Step the outgoing process down to silence through PulseAudio, then stop
+	 * it. Without `pactl` the old song simply plays out under the new one.
+	 */
+	private fadeOutOutgoing(durationMs: number): void {
+		const outgoing = this.outgoing;
+		const pid = outgoing?.pid;
+		if (!outgoing || !pid) return;
+		const sinkInputId = this.findPulseSinkInputIdByPid(pid);
+		const startPercent = this.effectiveVolumePercent();
+		let step = 0;
+		this.outgoingFadeTimer = setInterval(
+			() => {
+				step += 1;
+				if (step >= FADE_STEPS) {
+					this.stopOutgoing();
+					return;
+				}
+				if (!sinkInputId) return;
+				const percent = Math.round(startPercent * (1 - step / FADE_STEPS));
+				spawnSync("pactl", [
+					"set-sink-input-volume",
+					sinkInputId,
+					`${String(percent)}%`,
+				]);
+			},
+			Math.max(1, durationMs / FADE_STEPS),
+		);
+	}
+
+	private stopOutgoing(): void {
+		if (this.outgoingFadeTimer) {
+			clearInterval(this.outgoingFadeTimer);
+			this.outgoingFadeTimer = null;
+		}
+		const outgoing = this.outgoing;
+		this.outgoing = null;
+		if (!outgoing) return;
+		try {
+			outgoing.kill("SIGTERM");
+		} catch {
+			// Ignore kill failures.
+		}
+	}
+
 	private tryApplyLiveVolume(): boolean {
 		const processHandle = this.process;
 		if (!processHandle || this.pausedAtSec !== null) {
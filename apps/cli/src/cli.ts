@@ -1,25 +1,55 @@
 #!/usr/bin/env node
 import { spawn, spawnSync } from "node:child_process";
+import { randomInt } from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 import { stdin as input, stdout as output } from "node:process";
 import { createInterface } from "node:readline/promises";
 import { setTimeout as sleep } from "node:timers/promises";
+import { cronFromTime } from "@infinitune/shared/cron";
+import { normalizeLlmProvider } from "@infinitune/shared/text-llm-profile";
+import type { Playlist } from "@infinitune/shared/types";
+import { AudioCache, type AudioCacheStatus } from "./audio/audio-cache";
 import type { InfiConfig, PlaybackMode } from "./config";
 import { loadConfig, patchConfig } from "./config";
 import { runDaemonRuntime } from "./daemon/runtime";
 import {
+	createHouseSchedule,
+	createPlaylist,
+	deleteHouseSchedule,
+	downloadPlaylistExport,
+	getPlaylist,
+	getPlaylistByKey,
 	getPlaylistSession,
+	getSetting,
+	importPlaylistArchive,
+	listHouseSchedules,
 	listPlaylists,
 	normalizeServerUrl,
+	requestSong,
+	runHouseSchedule,
+	searchSongs,
 	sendHouseCommand,
+	togglePlaylistStar,
+	updateHouseSchedule,
+	updatePlaylistPrompt,
+	updatePlaylistStatus,
 } from "./lib/api";
-import { getFlagNumber, getFlagString, hasFlag, parseArgs } from "./lib/flags";
+import {
+	getFlagList,
+	getFlagNumber,
+	getFlagString,
+	hasFlag,
+	parseArgs,
+} from "./lib/flags";
 import { pickFromFzf } from "./lib/fzf";
 import {
 	cleanupStaleRuntimeFiles,
+	type IpcEvent,
 	isDaemonResponsive,
+	parseDaemonEventNames,
 	sendDaemonRequest,
+	subscribeDaemonEvents,
 } from "./lib/ipc";
 import {
 	CLI_ENTRY_PATH,
@@ -38,10 +68,12 @@ import {
 } from "./lib/room-playback";
 import {
 	pickExistingRoom,
+	pickPlaylistInteractive,
 	pickSongFromQueue,
 	resolvePlaylist,
 	resolveRoom,
 } from "./lib/room-resolution";
+import { runTui } from "./tui/tui";
 
 function printHelp(): void {
 	console.log(`
@@ -76,13 +108,28 @@ Playback Commands:
   infi thumb up|down
   infi volume up|down [--step <0..1>]
   infi mute
+  infi transition [cut|crossfade|beat] [--seconds <0..12>]
   infi song pick
+  infi song search [text] [--genre <a,b>] [--mood <a,b>] [--energy <a,b>] [--era <a,b>]
+                   [--language <a,b>] [--rating liked|disliked|unrated] [--playlist <id>]
+                   [--limit <n>] [--json]
+  infi steer "<text>" [--playlist <id> | --playlist-key <key>]
+  infi request "<song idea>" [--playlist <id> | --playlist-key <key>]
   infi status
+  infi tui
+  infi watch [--json] [--events <a,b>]
   infi doctor room
 
 House Commands:
   infi house play|pause|stop|skip|mute [--playlist <playlist-id>] [--device-token <token>]
   infi house volume <0..1> [--playlist <playlist-id>] [--device-token <token>]
+  infi house schedule list [--json]
+  infi house schedule add --playlist <id> --at <HH:MM> [--until <HH:MM>]
+                          [--days daily|weekdays|weekends|mon,wed,...]
+                          [--cron <expr>] [--stop-cron <expr>] [--device <device-id>]
+                          [--fade <minutes|90s>] [--volume <0..1>] [--name <name>]
+  infi house schedule enable|disable|remove <schedule-id>
+  infi house schedule run <schedule-id> [start|stop]
 
 Room Commands:
   infi room join --room <playlist-id>
@@ -90,7 +137,18 @@ Room Commands:
   infi room leave
 
 Playlist Commands:
+  infi playlist list [--all] [--json]
+  infi playlist create "<prompt>" [--name <name>] [--provider <provider>] [--model <model>] [--play]
+  infi playlist switch [<id> | --playlist-key <key>]
+  infi playlist star|close [<id> | --playlist-key <key>]
   infi playlist leave
+  infi playlist export [--playlist <id> | --playlist-key <key>] [--out <file|dir>]
+  infi playlist import <archive.zip> [--server <url>]
+
+Offline Cache Commands:
+  infi cache [status] [--json]
+  infi cache prune [--all]
+  infi cache pin|unpin [--playlist <id> | --playlist-key <key>]
 
 Config Commands:
   infi config
@@ -100,6 +158,7 @@ Config Commands:
              [--default-room <id>] [--default-playlist-key <key>]
              [--device-token <token>] [--clear-token]
              [--daemon-host <host>] [--daemon-port <1..65535>]
+             [--cache-size <MB>] [--output-latency <ms>]
              [--clear-room] [--clear-playlist]
   infi setup [--server <url>]
   infi clear
@@ -333,6 +392,8 @@ function printConfig(config: InfiConfig): void {
 	console.log(
 		`  daemonHttpUrl: ${formatDaemonHttpUrl(config.daemonHttpHost, config.daemonHttpPort)}`,
 	);
+	console.log(`  audioCacheMaxMb: ${config.audioCacheMaxMb}`);
+	console.log(`  outputLatencyMs: ${config.outputLatencyMs}`);
 }
 
 function parsePlaybackMode(
@@ -469,6 +530,8 @@ async function cmdDaemon(args: string[]): Promise<void> {
 				deviceToken,
 				daemonHttpHost,
 				daemonHttpPort,
+				audioCacheMaxMb: config.audioCacheMaxMb,
+				outputLatencyMs: config.outputLatencyMs,
 			});
 			return;
 		}
@@ -770,6 +833,76 @@ async function cmdPlay(args: string[]): Promise<void> {
 	console.log(`Playing in room ${resolved.room.id} (${resolved.room.name}).`);
 }
 
+async function cmdTui(args: string[]): Promise<void> {
+	const parsed = parseArgs(args);
+	const config = loadConfig();
+	const serverUrl = resolveServerUrl(parsed);
+	await ensureDaemonRunning(serverUrl, config.deviceName, config);
+	await runTui({ volumeStep: config.volumeStep });
+}
+
+function formatEventSong(
+	song: { title?: string; artistName?: string; id: string } | null,
+) {
+	if (!song) return "-";
+	const title = song.title?.trim() || song.id;
+	return song.artistName ? `${title} — ${song.artistName}` : title;
+}
+
+function formatWatchEvent(event: IpcEvent): string {
+	const time = new Date(event.at).toLocaleTimeString();
+	switch (event.event) {
+		case "state":
+			return `${time}  state       queue ${event.data.queue.length}`;
+		case "songChanged":
+			return `${time}  song        ${formatEventSong(event.data.song)}`;
+		case "playback":
+			return `${time}  playback    ${event.data.isPlaying ? "playing" : "paused"} at ${formatRuntimeClock(event.data.currentTime)}`;
+		case "volume":
+			return `${time}  volume      ${event.data.isMuted ? "muted" : toDisplayPercent(event.data.volume)}`;
+		case "connectionLost":
+			return `${time}  connection  lost${event.data.reason ? ` (${event.data.reason})` : ""}`;
+		case "connectionRestored":
+			return `${time}  connection  restored`;
+		case "queueUpdated":
+			return `${time}  queue       ${event.data.queue.length} songs`;
+	}
+}
+
+async function cmdWatch(args: string[]): Promise<void> {
+	const parsed = parseArgs(args);
+	const json = hasFlag(parsed, "json");
+	const events = parseDaemonEventNames(getFlagString(parsed, "events"));
+	if (!(await isDaemonResponsive())) {
+		throw new Error(
+			"Daemon is not running. Start it with `infi daemon start`.",
+		);
+	}
+
+	const print = (event: IpcEvent) => {
+		console.log(json ? JSON.stringify(event) : formatWatchEvent(event));
+	};
+	await new Promise<void>((resolve, reject) => {
+		subscribeDaemonEvents(
+			print,
+			() => reject(new Error("Daemon closed the event stream.")),
+			{ events },
+		)
+			.then((subscription) => {
+				if (!events || events.includes("state")) {
+					print({ event: "state", at: Date.now(), data: subscription.initial });
+				}
+				const stop = () => {
+					subscription.close();
+					resolve();
+				};
+				process.once("SIGINT", stop);
+				process.once("SIGTERM", stop);
+			})
+			.catch(reject);
+	});
+}
+
 async function cmdStop(): Promise<void> {
 	const response = await sendDaemonRequest("pause");
 	requireOk(response);
@@ -803,6 +936,37 @@ async function cmdMute(): Promise<void> {
 	console.log("Toggled mute.");
 }
 
+function formatTransition(value: unknown): string {
+	const transition = value as { mode?: string; seconds?: number } | undefined;
+	if (!transition?.mode || transition.mode === "cut") return "cut";
+	return `${transition.mode} ${String(transition.seconds ?? 0)}s`;
+}
+
+async function cmdTransition(args: string[]): Promise<void> {
+	const parsed = parseArgs(args);
+	const mode = parsed.positionals[0];
+	if (!mode) {
+		const status = requireOk(await sendDaemonRequest("status")) as {
+			transition?: unknown;
+		};
+		console.log(`Transition: ${formatTransition(status.transition)}`);
+		return;
+	}
+	if (mode !== "cut" && mode !== "crossfade" && mode !== "beat") {
+		throw new Error(
+			"Usage: infi transition [cut|crossfade|beat] [--seconds <0..12>]",
+		);
+	}
+	const seconds = mode === "cut" ? 0 : getFlagNumber(parsed, 4, "seconds");
+	if (seconds < 0 || seconds > 12) {
+		throw new Error("seconds must be between 0 and 12");
+	}
+	const data = requireOk(
+		await sendDaemonRequest("setTransition", { mode, seconds }),
+	) as { transition?: unknown };
+	console.log(`Transition: ${formatTransition(data.transition)}`);
+}
+
 function printHouseSubcommandHelp(): void {
 	console.log("House commands:");
 	console.log(
@@ -811,6 +975,161 @@ function printHouseSubcommandHelp(): void {
 	console.log(
 		"  infi house volume <0..1> [--playlist <playlist-id>] [--device-token <token>]",
 	);
+	console.log("  infi house schedule list [--json]");
+	console.log(
+		"  infi house schedule add --playlist <id> --at <HH:MM> [--until <HH:MM>] [--days weekdays] [--device <device-id>] [--fade <minutes|90s>] [--volume <0..1>]",
+	);
+	console.log(
+		"  infi house schedule add --playlist <id> --cron '<expr>' [--stop-cron '<expr>']",
+	);
+	console.log("  infi house schedule enable|disable|remove <schedule-id>");
+	console.log("  infi house schedule run <schedule-id> [start|stop]");
+}
+
+/** `--fade 5` and `--fade 5m` are minutes; `--fade 90s` is seconds. */
+function parseFadeSeconds(raw: string | undefined): number | undefined {
+	if (raw === undefined) return undefined;
+	const match = raw.trim().match(/^(\d+(?:\.\d+)?)\s*(s|m)?$/i);
+	if (!match) {
+		throw new Error("--fade must look like 5, 5m or 90s");
+	}
+	const value = Number(match[1]);
+	return Math.round(match[2]?.toLowerCase() === "s" ? value : value * 60);
+}
+
+function formatScheduleTime(timestamp: number | null): string {
+	return timestamp ? new Date(timestamp).toLocaleString() : "-";
+}
+
+async function cmdHouseSchedule(
+	parsed: ReturnType<typeof parseArgs>,
+	serverUrl: string,
+	deviceToken: string,
+): Promise<void> {
+	const sub = parsed.positionals[1] ?? "list";
+	const scheduleId = parsed.positionals[2];
+	const headers = { deviceToken };
+
+	switch (sub) {
+		case "list":
+		case "ls": {
+			const { schedules } = await listHouseSchedules(serverUrl, headers);
+			if (hasFlag(parsed, "json")) {
+				console.log(JSON.stringify(schedules, null, 2));
+				return;
+			}
+			if (schedules.length === 0) {
+				console.log("No house schedules.");
+				return;
+			}
+			for (const schedule of schedules) {
+				const state = schedule.enabled ? "on " : "off";
+				const target = schedule.deviceName ?? "room devices";
+				console.log(
+					`${schedule.id}  ${state}  ${schedule.name} — ${schedule.playlistName ?? schedule.playlistId} → ${target}`,
+				);
+				console.log(
+					`    start "${schedule.startCron}" (next ${formatScheduleTime(schedule.nextStartAt)})${
+						schedule.stopCron
+							? `  stop "${schedule.stopCron}" (next ${formatScheduleTime(schedule.nextStopAt)})`
+							: ""
+					}`,
+				);
+				if (schedule.lastError) {
+					console.log(`    last error: ${schedule.lastError}`);
+				}
+			}
+			return;
+		}
+		case "add": {
+			const playlistId = getFlagString(parsed, "playlist");
+			if (!playlistId) {
+				throw new Error(
+					"Usage: infi house schedule add --playlist <id> --at <HH:MM> [--until <HH:MM>]",
+				);
+			}
+			const days = getFlagString(parsed, "days") ?? "daily";
+			const at = getFlagString(parsed, "at");
+			const until = getFlagString(parsed, "until");
+			const startCron =
+				getFlagString(parsed, "cron") ?? (at ? cronFromTime(at, days) : null);
+			if (!startCron) {
+				throw new Error(
+					"Provide --at <HH:MM> (with optional --days) or --cron '<expr>'",
+				);
+			}
+			const stopCron =
+				getFlagString(parsed, "stop-cron") ??
+				(until ? cronFromTime(until, days) : null);
+			if (until && !stopCron) {
+				throw new Error(`Invalid --until time or --days: ${until} ${days}`);
+			}
+			const rawVolume = getFlagString(parsed, "volume");
+			const volume = rawVolume === undefined ? undefined : Number(rawVolume);
+			if (
+				volume !== undefined &&
+				(!Number.isFinite(volume) || volume < 0 || volume > 1)
+			) {
+				throw new Error("volume must be a number between 0 and 1");
+			}
+
+			const schedule = await createHouseSchedule(
+				serverUrl,
+				{
+					name: getFlagString(parsed, "name"),
+					playlistId,
+					deviceId: getFlagString(parsed, "device") ?? null,
+					startCron,
+					stopCron,
+					volume,
+					fadeInSec: parseFadeSeconds(getFlagString(parsed, "fade")),
+				},
+				headers,
+			);
+			console.log(
+				`Created schedule ${schedule.id} (${schedule.name}). Next start: ${formatScheduleTime(schedule.nextStartAt)}.`,
+			);
+			return;
+		}
+		case "enable":
+		case "disable": {
+			if (!scheduleId) {
+				throw new Error(`Usage: infi house schedule ${sub} <schedule-id>`);
+			}
+			const schedule = await updateHouseSchedule(
+				serverUrl,
+				scheduleId,
+				{ enabled: sub === "enable" },
+				headers,
+			);
+			console.log(
+				`Schedule ${schedule.name} ${schedule.enabled ? "enabled" : "disabled"}.`,
+			);
+			return;
+		}
+		case "remove":
+		case "rm": {
+			if (!scheduleId) {
+				throw new Error("Usage: infi house schedule remove <schedule-id>");
+			}
+			await deleteHouseSchedule(serverUrl, scheduleId, headers);
+			console.log(`Removed schedule ${scheduleId}.`);
+			return;
+		}
+		case "run": {
+			const action = parsed.positionals[3] ?? "start";
+			if (!scheduleId || (action !== "start" && action !== "stop")) {
+				throw new Error(
+					"Usage: infi house schedule run <schedule-id> [start|stop]",
+				);
+			}
+			await runHouseSchedule(serverUrl, scheduleId, action, headers);
+			console.log(`Schedule ${scheduleId}: ${action} executed.`);
+			return;
+		}
+		default:
+			throw new Error(`Unknown house schedule subcommand: ${sub}`);
+	}
 }
 
 async function cmdHouse(args: string[]): Promise<void> {
@@ -832,6 +1151,11 @@ async function cmdHouse(args: string[]): Promise<void> {
 		);
 	}
 
+	if (sub === "schedule") {
+		await cmdHouseSchedule(parsed, serverUrl, deviceToken);
+		return;
+	}
+
 	let action: "play" | "pause" | "stop" | "skip" | "toggleMute" | "setVolume";
 	let payload: Record<string, unknown> | undefined;
 
@@ -1004,10 +1328,297 @@ async function cmdRoom(args: string[]): Promise<void> {
 	}
 }
 
+function toExportFileName(name: string): string {
+	const safe = name
+		.replace(/[<>:"/\\|?*\p{Cc}]/gu, "_")
+		.replace(/\s+/g, " ")
+		.trim();
+	return `${safe || "playlist"}.zip`;
+}
+
+function requirePlaylistDeviceToken(
+	parsed: ReturnType<typeof parseArgs>,
+	config: InfiConfig,
+): string {
+	const deviceToken =
+		getFlagString(parsed, "device-token", "token") ?? config.deviceToken;
+	if (!deviceToken) {
+		throw new Error(
+			"Playlist commands require a device token. Set one with `infi config --device-token <token>`.",
+		);
+	}
+	return deviceToken;
+}
+
+/** The playlist the daemon is currently playing, in either mode. */
+async function getActivePlaylistId(): Promise<string | null> {
+	if (!(await isDaemonResponsive())) return null;
+	const status = asRecord(requireOk(await sendDaemonRequest("status")));
+	const candidates =
+		status.mode === "local"
+			? [status.localPlaylistId]
+			: [status.assignedPlaylistId, status.roomId];
+	for (const candidate of candidates) {
+		if (typeof candidate === "string" && candidate.length > 0) {
+			return candidate;
+		}
+	}
+	return null;
+}
+
+/**
+ * Resolve the playlist a command acts on: an explicit id or key first, then
+ * whatever the daemon is playing.
+ */
+async function resolveTargetPlaylist(
+	parsed: ReturnType<typeof parseArgs>,
+	serverUrl: string,
+	deviceToken: string,
+	explicitId?: string,
+): Promise<Playlist> {
+	const headers = { deviceToken };
+	const playlistKey = getFlagString(parsed, "playlist-key");
+	if (playlistKey) {
+		const playlist = await getPlaylistByKey(serverUrl, playlistKey, headers);
+		if (!playlist) {
+			throw new Error(`Playlist key "${playlistKey}" not found.`);
+		}
+		return playlist;
+	}
+	const playlistId =
+		explicitId ??
+		getFlagString(parsed, "playlist") ??
+		(await getActivePlaylistId());
+	if (!playlistId) {
+		throw new Error(
+			"No playlist is playing. Pass --playlist <id> or --playlist-key <key>.",
+		);
+	}
+	return getPlaylist(serverUrl, playlistId, headers);
+}
+
+function formatPlaylistLabel(playlist: Playlist): string {
+	return playlist.name.trim() || playlist.playlistKey || playlist.id;
+}
+
+async function cmdSteer(args: string[]): Promise<void> {
+	const parsed = parseArgs(args);
+	const prompt = parsed.positionals.join(" ").trim();
+	if (!prompt) {
+		throw new Error('Usage: infi steer "<text>" [--playlist <id>]');
+	}
+	const config = loadConfig();
+	const serverUrl = resolveServerUrl(parsed);
+	const deviceToken = requirePlaylistDeviceToken(parsed, config);
+	const playlist = await resolveTargetPlaylist(parsed, serverUrl, deviceToken);
+	const result = await updatePlaylistPrompt(serverUrl, playlist.id, prompt, {
+		deviceToken,
+	});
+	const epoch = result.promptEpoch ?? (playlist.promptEpoch ?? 0) + 1;
+	console.log(`Steered ${formatPlaylistLabel(playlist)}: "${prompt}"`);
+	console.log(
+		`Epoch: ${epoch} (songs queued from now on follow the new direction)`,
+	);
+}
+
+async function cmdRequest(args: string[]): Promise<void> {
+	const parsed = parseArgs(args);
+	const prompt = parsed.positionals.join(" ").trim();
+	if (!prompt) {
+		throw new Error('Usage: infi request "<song idea>" [--playlist <id>]');
+	}
+	const config = loadConfig();
+	const serverUrl = resolveServerUrl(parsed);
+	const deviceToken = requirePlaylistDeviceToken(parsed, config);
+	const playlist = await resolveTargetPlaylist(parsed, serverUrl, deviceToken);
+	const song = await requestSong(serverUrl, playlist.id, prompt, {
+		deviceToken,
+	});
+	console.log(`Requested for ${formatPlaylistLabel(playlist)}: "${prompt}"`);
+	console.log(`Queued Song: ${song.id} (${song.status})`);
+	console.log(`Epoch: ${song.promptEpoch ?? playlist.promptEpoch ?? 0}`);
+	console.log("It plays next once generated; follow along with `infi watch`.");
+}
+
+function generatePlaylistKey(): string {
+	const chars = "0123456789abcdefghijklmnopqrstuvwxyz";
+	let key = "";
+	for (let i = 0; i < 8; i++) {
+		key += chars[randomInt(chars.length)];
+	}
+	return key;
+}
+
+async function switchToPlaylist(
+	playlist: Playlist,
+	serverUrl: string,
+	config: InfiConfig,
+): Promise<void> {
+	const deviceName = config.deviceName;
+	await ensureDaemonRunning(serverUrl, deviceName, config);
+	const status = asRecord(requireOk(await sendDaemonRequest("status")));
+	const label = formatPlaylistLabel(playlist);
+	if (status.mode === "local") {
+		requireOk(
+			await sendDaemonRequest("startLocal", {
+				serverUrl,
+				playlistId: playlist.id,
+				playlistKey: playlist.playlistKey ?? undefined,
+				playlistName: playlist.name,
+				deviceName,
+			}),
+		);
+		requireOk(await sendDaemonRequest("play"));
+		patchConfig({ defaultPlaylistKey: playlist.playlistKey ?? null });
+		console.log(`Switched to ${label}, playing locally.`);
+		return;
+	}
+	await playInRoomSession(sendDaemonRequest, {
+		serverUrl,
+		roomId: playlist.id,
+		playlistKey: playlist.playlistKey ?? undefined,
+		roomName: playlist.name,
+		expectedPlaylistKey: playlist.playlistKey ?? undefined,
+		deviceName,
+		connected: false,
+	});
+	patchConfig({
+		defaultRoomId: playlist.id,
+		defaultPlaylistKey: playlist.playlistKey ?? null,
+	});
+	console.log(`Switched to ${label}, playing in room ${playlist.id}.`);
+}
+
 async function cmdPlaylist(args: string[]): Promise<void> {
 	const parsed = parseArgs(args);
 	const sub = parsed.positionals[0] ?? "leave";
 	switch (sub) {
+		case "list":
+		case "ls": {
+			const config = loadConfig();
+			const serverUrl = resolveServerUrl(parsed);
+			const deviceToken = requirePlaylistDeviceToken(parsed, config);
+			const playlists = (await listPlaylists(serverUrl, { deviceToken }))
+				.filter(
+					(playlist) => hasFlag(parsed, "all") || playlist.status !== "closed",
+				)
+				.sort((a, b) => b.createdAt - a.createdAt);
+			if (hasFlag(parsed, "json")) {
+				console.log(JSON.stringify(playlists, null, 2));
+				return;
+			}
+			if (playlists.length === 0) {
+				console.log("No playlists.");
+				return;
+			}
+			const activeId = await getActivePlaylistId();
+			for (const playlist of playlists) {
+				const marker = playlist.id === activeId ? "▶" : " ";
+				const star = playlist.isStarred ? "★" : " ";
+				console.log(
+					`${marker}${star} ${playlist.id}  ${(playlist.playlistKey ?? "-").padEnd(8)}  ${playlist.status.padEnd(7)}  epoch ${playlist.promptEpoch ?? 0}  ${formatPlaylistLabel(playlist)}`,
+				);
+			}
+			return;
+		}
+		case "create": {
+			const prompt = parsed.positionals.slice(1).join(" ").trim();
+			if (!prompt) {
+				throw new Error(
+					'Usage: infi playlist create "<prompt>" [--name <name>] [--play]',
+				);
+			}
+			const config = loadConfig();
+			const serverUrl = resolveServerUrl(parsed);
+			const deviceToken = requirePlaylistDeviceToken(parsed, config);
+			// Fall back to the text model the server is configured with.
+			const llmProvider = normalizeLlmProvider(
+				getFlagString(parsed, "provider") ??
+					(await getSetting(serverUrl, "textProvider")),
+			);
+			const llmModel =
+				getFlagString(parsed, "model") ??
+				(await getSetting(serverUrl, "textModel")) ??
+				"";
+			const playlist = await createPlaylist(
+				serverUrl,
+				{
+					name: getFlagString(parsed, "name") ?? prompt.slice(0, 60),
+					prompt,
+					llmProvider,
+					llmModel,
+					playlistKey: generatePlaylistKey(),
+				},
+				{ deviceToken },
+			);
+			console.log(
+				`Created playlist ${playlist.id} (${formatPlaylistLabel(playlist)}).`,
+			);
+			console.log(`Key: ${playlist.playlistKey ?? "-"}`);
+			console.log(`Epoch: ${playlist.promptEpoch ?? 0}`);
+			if (hasFlag(parsed, "play")) {
+				await switchToPlaylist(playlist, serverUrl, config);
+			}
+			return;
+		}
+		case "switch": {
+			const config = loadConfig();
+			const serverUrl = resolveServerUrl(parsed);
+			const deviceToken = requirePlaylistDeviceToken(parsed, config);
+			const explicitId = parsed.positionals[1];
+			const playlist =
+				explicitId ||
+				getFlagString(parsed, "playlist") ||
+				getFlagString(parsed, "playlist-key")
+					? await resolveTargetPlaylist(
+							parsed,
+							serverUrl,
+							deviceToken,
+							explicitId,
+						)
+					: await pickPlaylistInteractive(serverUrl, { deviceToken });
+			if (playlist.status === "closed") {
+				throw new Error(`Playlist ${formatPlaylistLabel(playlist)} is closed.`);
+			}
+			await switchToPlaylist(playlist, serverUrl, config);
+			return;
+		}
+		case "star": {
+			const config = loadConfig();
+			const serverUrl = resolveServerUrl(parsed);
+			const deviceToken = requirePlaylistDeviceToken(parsed, config);
+			const playlist = await resolveTargetPlaylist(
+				parsed,
+				serverUrl,
+				deviceToken,
+				parsed.positionals[1],
+			);
+			const { isStarred } = await togglePlaylistStar(serverUrl, playlist.id, {
+				deviceToken,
+			});
+			console.log(
+				`${isStarred ? "Starred" : "Unstarred"} ${formatPlaylistLabel(playlist)}.`,
+			);
+			return;
+		}
+		case "close": {
+			const config = loadConfig();
+			const serverUrl = resolveServerUrl(parsed);
+			const deviceToken = requirePlaylistDeviceToken(parsed, config);
+			const playlist = await resolveTargetPlaylist(
+				parsed,
+				serverUrl,
+				deviceToken,
+				parsed.positionals[1],
+			);
+			await updatePlaylistStatus(serverUrl, playlist.id, "closing", {
+				deviceToken,
+			});
+			console.log(
+				`Closing ${formatPlaylistLabel(playlist)}; it stops once the songs already queued have played.`,
+			);
+			return;
+		}
 		case "leave": {
 			if (!(await isDaemonResponsive())) {
 				console.log("Daemon is not running. No local playlist to leave.");
@@ -1056,14 +1667,230 @@ async function cmdPlaylist(args: string[]): Promise<void> {
 			);
 			return;
 		}
+		case "export": {
+			const config = loadConfig();
+			const serverUrl = resolveServerUrl(parsed);
+			const deviceToken = requirePlaylistDeviceToken(parsed, config);
+			const playlistId = getFlagString(parsed, "playlist");
+			const playlist = playlistId
+				? (await listPlaylists(serverUrl, { deviceToken })).find(
+						(entry) => entry.id === playlistId,
+					)
+				: await resolvePlaylist(
+						serverUrl,
+						{
+							explicitPlaylistKey: getFlagString(parsed, "playlist-key"),
+							defaultPlaylistKey: config.defaultPlaylistKey,
+							interactivePlaylist: true,
+						},
+						{ deviceToken },
+					);
+			if (!playlist) {
+				throw new Error(`Playlist "${playlistId}" not found.`);
+			}
+			const fileName = toExportFileName(playlist.name || playlist.id);
+			const outFlag = getFlagString(parsed, "out", "output");
+			const outputPath = path.resolve(
+				outFlag && fs.existsSync(outFlag) && fs.statSync(outFlag).isDirectory()
+					? path.join(outFlag, fileName)
+					: (outFlag ?? fileName),
+			);
+			console.log(`Exporting ${playlist.name || playlist.id}...`);
+			const bytes = await downloadPlaylistExport(
+				serverUrl,
+				playlist.id,
+				outputPath,
+				{ deviceToken },
+			);
+			console.log(
+				`Wrote ${outputPath} (${(bytes / (1024 * 1024)).toFixed(1)} MB).`,
+			);
+			return;
+		}
+		case "import": {
+			const archivePath = parsed.positionals[1];
+			if (!archivePath) {
+				throw new Error("Usage: infi playlist import <archive.zip>");
+			}
+			if (!fs.existsSync(archivePath)) {
+				throw new Error(`File not found: ${archivePath}`);
+			}
+			const serverUrl = resolveServerUrl(parsed);
+			const deviceToken = requirePlaylistDeviceToken(parsed, loadConfig());
+			const result = await importPlaylistArchive(serverUrl, archivePath, {
+				deviceToken,
+			});
+			console.log(
+				`Imported playlist ${result.playlistId} (${result.importedSongs} songs).`,
+			);
+			for (const failure of result.failures) {
+				console.log(
+					`  Failed: ${failure.title ?? failure.sourceId} — ${failure.error}`,
+				);
+			}
+			return;
+		}
 		default:
 			throw new Error(`Unknown playlist subcommand: ${sub}`);
 	}
 }
 
+function formatMegabytes(bytes: number): string {
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function openLocalAudioCache(): AudioCache {
+	return new AudioCache(
+		getRuntimePaths().audioCacheDir,
+		loadConfig().audioCacheMaxMb * 1024 * 1024,
+	);
+}
+
+function printCacheStatus(status: AudioCacheStatus): void {
+	console.log(`Cache: ${status.dir}`);
+	console.log(
+		`Size: ${formatMegabytes(status.totalBytes)} of ${formatMegabytes(status.maxBytes)} (${status.songCount} songs)`,
+	);
+	if (status.downloading > 0 || status.queued > 0) {
+		console.log(
+			`Downloading: ${status.downloading} active, ${status.queued} queued`,
+		);
+	}
+	if (status.pinned.length === 0) {
+		console.log("Pinned: -");
+	}
+	for (const pinned of status.pinned) {
+		console.log(
+			`Pinned: ${pinned.name ?? pinned.playlistId} — ${pinned.songCount} songs, ${formatMegabytes(pinned.bytes)}`,
+		);
+	}
+	if (status.lastError) {
+		console.log(`Last Error: ${status.lastError}`);
+	}
+}
+
+async function cmdCache(args: string[]): Promise<void> {
+	const parsed = parseArgs(args);
+	const sub = parsed.positionals[0] ?? "status";
+	const daemonRunning = await isDaemonResponsive();
+
+	switch (sub) {
+		case "status": {
+			// Read the index directly when there is no daemon to ask.
+			const status = daemonRunning
+				? (requireOk(
+						await sendDaemonRequest("cacheStatus"),
+					) as AudioCacheStatus)
+				: openLocalAudioCache().status();
+			if (hasFlag(parsed, "json")) {
+				console.log(JSON.stringify(status, null, 2));
+				return;
+			}
+			printCacheStatus(status);
+			return;
+		}
+		case "prune": {
+			const all = hasFlag(parsed, "all");
+			const result = daemonRunning
+				? (requireOk(await sendDaemonRequest("cachePrune", { all })) as {
+						removed: number;
+						freedBytes: number;
+					})
+				: openLocalAudioCache().prune(all);
+			console.log(
+				`Removed ${result.removed} cached song(s), freed ${formatMegabytes(result.freedBytes)}.`,
+			);
+			return;
+		}
+		case "pin":
+		case "unpin": {
+			const config = loadConfig();
+			const serverUrl = resolveServerUrl(parsed);
+			const playlistId = getFlagString(parsed, "playlist");
+			const playlist = playlistId
+				? ((await listPlaylists(serverUrl).catch(() => [])).find(
+						(entry) => entry.id === playlistId,
+					) ?? { id: playlistId, name: playlistId })
+				: await resolvePlaylist(serverUrl, {
+						explicitPlaylistKey: getFlagString(parsed, "playlist-key"),
+						defaultPlaylistKey: config.defaultPlaylistKey,
+						interactivePlaylist: true,
+					});
+			const label = playlist.name || playlist.id;
+			if (sub === "unpin") {
+				const unpinned = daemonRunning
+					? (
+							requireOk(
+								await sendDaemonRequest("cacheUnpin", {
+									playlistId: playlist.id,
+								}),
+							) as { unpinned: boolean }
+						).unpinned
+					: openLocalAudioCache().unpin(playlist.id);
+				console.log(
+					unpinned
+						? `Unpinned ${label}; its songs can be evicted again.`
+						: `${label} was not pinned.`,
+				);
+				return;
+			}
+			// The daemon does the downloading, so make sure it is up.
+			await ensureDaemonRunning(serverUrl, config.deviceName, config);
+			requireOk(
+				await sendDaemonRequest("cachePin", {
+					playlistId: playlist.id,
+					playlistName: playlist.name,
+				}),
+			);
+			console.log(
+				`Pinned ${label} for offline listening. The daemon is downloading its songs; check progress with \`infi cache\`.`,
+			);
+			return;
+		}
+		default:
+			throw new Error(`Unknown cache subcommand: ${sub}`);
+	}
+}
+
+async function cmdSongSearch(parsed: ReturnType<typeof parseArgs>) {
+	const serverUrl = resolveServerUrl(parsed);
+	const q = parsed.positionals.slice(1).join(" ").trim();
+	const result = await searchSongs(serverUrl, {
+		q: q || undefined,
+		genres: getFlagList(parsed, "genre"),
+		moods: getFlagList(parsed, "mood"),
+		energies: getFlagList(parsed, "energy"),
+		eras: getFlagList(parsed, "era"),
+		languages: getFlagList(parsed, "language"),
+		ratings: getFlagList(parsed, "rating"),
+		playlists: getFlagList(parsed, "playlist"),
+		limit: getFlagNumber(parsed, 20, "limit"),
+	});
+
+	if (hasFlag(parsed, "json")) {
+		console.log(JSON.stringify(result, null, 2));
+		return;
+	}
+	if (result.items.length === 0) {
+		console.log("No songs matched.");
+		return;
+	}
+	for (const song of result.items) {
+		const title = song.title ?? "(untitled)";
+		const artist = song.artistName ?? "Unknown artist";
+		const genre = song.genre ? ` [${song.genre}]` : "";
+		console.log(`${song.id}  ${title} — ${artist}${genre}`);
+	}
+	console.log(`Showing ${result.items.length} of ${result.total} songs.`);
+}
+
 async function cmdSong(args: string[]): Promise<void> {
 	const parsed = parseArgs(args);
 	const sub = parsed.positionals[0] ?? "pick";
+	if (sub === "search") {
+		await cmdSongSearch(parsed);
+		return;
+	}
 	if (sub !== "pick") {
 		throw new Error(`Unknown song subcommand: ${sub}`);
 	}
@@ -1189,6 +2016,9 @@ async function cmdStatus(args: string[]): Promise<void> {
 				typeof engine.volume === "number" ? engine.volume : undefined,
 			)}`,
 		);
+		if (engine.songId) {
+			console.log(`Audio Source: ${engine.fromCache ? "cache" : "stream"}`);
+		}
 	}
 	const songStatus = printSongRuntimeStatus(daemonData);
 	if (
@@ -1506,6 +2336,8 @@ async function cmdConfig(args: string[], setupMode = false): Promise<void> {
 	const playbackModeRaw = getFlagString(parsed, "mode");
 	const daemonHttpHostRaw = getFlagString(parsed, "daemon-host", "http-host");
 	const daemonHttpPortRaw = getFlagString(parsed, "daemon-port", "http-port");
+	const cacheSizeRaw = getFlagString(parsed, "cache-size");
+	const outputLatencyRaw = getFlagString(parsed, "output-latency");
 	const defaultRoomId = getFlagString(parsed, "default-room", "room");
 	const defaultPlaylistKey = getFlagString(
 		parsed,
@@ -1527,6 +2359,8 @@ async function cmdConfig(args: string[], setupMode = false): Promise<void> {
 		typeof playbackModeRaw === "string" ||
 		typeof daemonHttpHostRaw === "string" ||
 		typeof daemonHttpPortRaw === "string" ||
+		typeof cacheSizeRaw === "string" ||
+		typeof outputLatencyRaw === "string" ||
 		localFlag ||
 		roomModeFlag ||
 		typeof defaultRoomId === "string" ||
@@ -1587,6 +2421,20 @@ async function cmdConfig(args: string[], setupMode = false): Promise<void> {
 	if (typeof daemonHttpPortRaw === "string") {
 		patch.daemonHttpPort = normalizeDaemonPortSetting(daemonHttpPortRaw);
 	}
+	if (typeof cacheSizeRaw === "string") {
+		const value = Number(cacheSizeRaw);
+		if (!Number.isFinite(value) || value < 0) {
+			throw new Error("cache-size must be a number of megabytes (0 or more)");
+		}
+		patch.audioCacheMaxMb = Math.round(value);
+	}
+	if (typeof outputLatencyRaw === "string") {
+		const value = Number(outputLatencyRaw);
+		if (!Number.isFinite(value) || value < 0 || value > 5000) {
+			throw new Error("output-latency must be between 0 and 5000 ms");
+		}
+		patch.outputLatencyMs = Math.round(value);
+	}
 	if (localFlag) {
 		patch.playbackMode = "local";
 	}
@@ -1633,6 +2481,12 @@ async function cmdConfig(args: string[], setupMode = false): Promise<void> {
 		if (typeof patch.daemonHttpPort === "number") {
 			daemonPatch.daemonHttpPort = patch.daemonHttpPort;
 		}
+		if (typeof patch.audioCacheMaxMb === "number") {
+			daemonPatch.audioCacheMaxMb = patch.audioCacheMaxMb;
+		}
+		if (typeof patch.outputLatencyMs === "number") {
+			daemonPatch.outputLatencyMs = patch.outputLatencyMs;
+		}
 		if (Object.keys(daemonPatch).length > 0) {
 			try {
 				const response = await sendDaemonRequest("configure", daemonPatch);
@@ -1868,6 +2722,9 @@ async function main(): Promise<void> {
 		case "mute":
 			await cmdMute();
 			return;
+		case "transition":
+			await cmdTransition(rest);
+			return;
 		case "house":
 			await cmdHouse(rest);
 			return;
@@ -1880,6 +2737,15 @@ async function main(): Promise<void> {
 		case "song":
 			await cmdSong(rest);
 			return;
+		case "steer":
+			await cmdSteer(rest);
+			return;
+		case "request":
+			await cmdRequest(rest);
+			return;
+		case "cache":
+			await cmdCache(rest);
+			return;
 		case "config":
 			await cmdConfig(rest);
 			return;
@@ -1892,6 +2758,12 @@ async function main(): Promise<void> {
 		case "status":
 			await cmdStatus(rest);
 			return;
+		case "tui":
+			await cmdTui(rest);
+			return;
+		case "watch":
+			await cmdWatch(rest);
+			return;
 		case "doctor":
 			await cmdDoctor(rest);
 			return;
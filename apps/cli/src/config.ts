@@ -1,9 +1,11 @@
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
+import { DEFAULT_AUDIO_CACHE_MAX_MB } from "./audio/audio-cache";
 import { getConfigRoot } from "./lib/paths";
 
-const CONFIG_VERSION = 4;
+const CONFIG_VERSION = 5;
+const MAX_OUTPUT_LATENCY_MS = 5000;
 
 export type PlaybackMode = "room" | "local";
 
@@ -18,6 +20,9 @@ export interface InfiConfig {
 	volumeStep: number;
 	daemonHttpHost: string;
 	daemonHttpPort: number;
+	audioCacheMaxMb: number;
+	/** How far this machine's speakers lag behind ffplay, in ms. */
+	outputLatencyMs: number;
 }
 
 const DEFAULT_SERVER_URL =
@@ -41,6 +46,8 @@ function defaultConfig(): InfiConfig {
 		volumeStep: 0.05,
 		daemonHttpHost: "127.0.0.1",
 		daemonHttpPort: 17653,
+		audioCacheMaxMb: DEFAULT_AUDIO_CACHE_MAX_MB,
+		outputLatencyMs: 0,
 	};
 }
 
@@ -83,6 +90,19 @@ function sanitize(raw: Partial<InfiConfig> | null | undefined): InfiConfig {
 			? raw.daemonHttpPort
 			: defaults.daemonHttpPort;
 
+	const audioCacheMaxMb =
+		typeof raw.audioCacheMaxMb === "number" &&
+		Number.isFinite(raw.audioCacheMaxMb) &&
+		raw.audioCacheMaxMb >= 0
+			? Math.round(raw.audioCacheMaxMb)
+			: defaults.audioCacheMaxMb;
+
+	const outputLatencyMs =
+		typeof raw.outputLatencyMs === "number" &&
+		Number.isFinite(raw.outputLatencyMs)
+			? clampOutputLatency(raw.outputLatencyMs)
+			: defaults.outputLatencyMs;
+
 	return {
 		version: CONFIG_VERSION,
 		serverUrl,
@@ -101,9 +121,15 @@ function sanitize(raw: Partial<InfiConfig> | null | undefined): InfiConfig {
 		volumeStep,
 		daemonHttpHost,
 		daemonHttpPort,
+		audioCacheMaxMb,
+		outputLatencyMs,
 	};
 }
 
+export function clampOutputLatency(ms: number): number {
+	return Math.round(Math.min(MAX_OUTPUT_LATENCY_MS, Math.max(0, ms)));
+}
+
 export function getConfigPath(): string {
 	return path.join(getConfigRoot(), "config.json");
 }
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { diffDaemonEvents, type EventSnapshot } from "./events";
+
+const BASE: EventSnapshot = {
+	mode: "room",
+	songId: "s1",
+	isPlaying: true,
+	volume: 0.8,
+	isMuted: false,
+	connectionState: "connected",
+	queueSignature: "s1:ready,s2:generating_audio",
+};
+
+describe("diffDaemonEvents", () => {
+	it("reports nothing when only time passed", () => {
+		expect(diffDaemonEvents(BASE, { ...BASE })).toEqual([]);
+	});
+
+	it("reports a new song as a song and playback change", () => {
+		expect(diffDaemonEvents(BASE, { ...BASE, songId: "s2" })).toEqual([
+			"songChanged",
+			"playback",
+		]);
+	});
+
+	it("reports pauses and seeks as playback changes", () => {
+		expect(diffDaemonEvents(BASE, { ...BASE, isPlaying: false })).toEqual([
+			"playback",
+		]);
+		expect(diffDaemonEvents(BASE, BASE, true)).toEqual(["playback"]);
+	});
+
+	it("reports volume, mute and queue changes", () => {
+		expect(
+			diffDaemonEvents(BASE, {
+				...BASE,
+				isMuted: true,
+				queueSignature: "s1:ready,s2:ready",
+			}),
+		).toEqual(["volume", "queueUpdated"]);
+	});
+
+	it("reports losing and regaining the room connection", () => {
+		const lost = { ...BASE, connectionState: "reconnecting" };
+		expect(diffDaemonEvents(BASE, lost)).toEqual(["connectionLost"]);
+		expect(
+			diffDaemonEvents(lost, { ...lost, connectionState: "connecting" }),
+		).toEqual([]);
+		expect(diffDaemonEvents(lost, BASE)).toEqual(["connectionRestored"]);
+	});
+
+	it("ignores the room connection while playing locally", () => {
+		expect(
+			diffDaemonEvents(BASE, {
+				...BASE,
+				mode: "local",
+				connectionState: "disconnected",
+			}),
+		).toEqual([]);
+	});
+});
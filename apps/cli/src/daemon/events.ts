@@ -0,0 +1,50 @@
+import type { SongData } from "@infinitune/shared/protocol";
+import type { DaemonEventName } from "../lib/ipc";
+
+/** The parts of daemon state that fine-grained events report on. */
+export type EventSnapshot = {
+	mode: "room" | "local";
+	songId: string | null;
+	isPlaying: boolean;
+	volume: number;
+	isMuted: boolean;
+	connectionState: string;
+	queueSignature: string;
+};
+
+export function queueSignature(queue: SongData[]): string {
+	return queue.map((song) => `${song.id}:${song.status}`).join(",");
+}
+
+/**
+ * Which events describe the move from `prev` to `next`. Playback position
+ * only counts when the caller knows a seek happened; otherwise it moves
+ * every tick and subscribers extrapolate it themselves.
+ */
+export function diffDaemonEvents(
+	prev: EventSnapshot,
+	next: EventSnapshot,
+	seeked = false,
+): Exclude<DaemonEventName, "state">[] {
+	const events: Exclude<DaemonEventName, "state">[] = [];
+	if (prev.songId !== next.songId) events.push("songChanged");
+	if (
+		prev.songId !== next.songId ||
+		prev.isPlaying !== next.isPlaying ||
+		seeked
+	) {
+		events.push("playback");
+	}
+	if (prev.volume !== next.volume || prev.isMuted !== next.isMuted) {
+		events.push("volume");
+	}
+	// Local mode has no server connection to lose.
+	if (prev.mode === "room" && next.mode === "room") {
+		const wasConnected = prev.connectionState === "connected";
+		const isConnected = next.connectionState === "connected";
+		if (wasConnected && !isConnected) events.push("connectionLost");
+		if (!wasConnected && isConnected) events.push("connectionRestored");
+	}
+	if (prev.queueSignature !== next.queueSignature) events.push("queueUpdated");
+	return events;
+}
@@ -7,34 +7,60 @@ import {
 	type ServerResponse,
 } from "node:http";
 import { createConnection, type Server as NetServer } from "node:net";
+import {
+	POSITION_REPORT_INTERVAL_MS,
+	resolveSeekTarget,
+} from "@infinitune/shared/drift";
+import {
+	computePlaylistGain,
+	LOUDNESS_NORMALIZATION_SETTING,
+	normalizeLoudnessMode,
+	resolveGainDb,
+} from "@infinitune/shared/loudness";
 import {
 	type ClientMessage,
 	type CommandAction,
+	type Device,
 	type DeviceMode,
 	type PlaybackState,
 	ROOM_PROTOCOL_VERSION,
 	ServerMessageSchema,
 	type SongData,
+	type TransitionSettings,
+	TransitionSettingsSchema,
 } from "@infinitune/shared/protocol";
+import { DEFAULT_TRANSITION } from "@infinitune/shared/transition";
 import type { Song } from "@infinitune/shared/types";
 import WebSocket from "ws";
+import { AudioCache, DEFAULT_AUDIO_CACHE_MAX_MB } from "../audio/audio-cache";
 import { FfplayEngine } from "../audio/ffplay-engine";
+import { clampOutputLatency } from "../config";
 import {
+	getSetting,
 	heartbeatPlaylist,
 	listSongsByPlaylist,
 	rateSong,
+	recordSkip,
 	registerDevice,
 	resolveMediaUrl,
 	toRoomWsUrl,
 	updatePlaylistPosition,
+	updatePlaylistPrompt,
 	updateSongStatus,
 } from "../lib/api";
 import {
 	createIpcServer,
 	type DaemonAction,
+	type DaemonEvent,
+	type DaemonEventMap,
+	type DaemonEventName,
+	type IpcEvent,
 	type IpcHandler,
+	type IpcSubscribeHandler,
+	parseDaemonEventNames,
 } from "../lib/ipc";
 import { getRuntimePaths } from "../lib/paths";
+import { diffDaemonEvents, type EventSnapshot, queueSignature } from "./events";
 
 const INITIAL_PLAYBACK: PlaybackState = {
 	currentSongId: null,
@@ -49,6 +75,20 @@ const LOCAL_QUEUE_REFRESH_MS = 4_000;
 const LOCAL_HEARTBEAT_MS = 30_000;
 const LOCAL_START_SONGS_FROM_END = 10;
 const DEVICE_REGISTRATION_REFRESH_MS = 10_000;
+const LOCAL_PRELOAD_AHEAD = 2;
+const PINNED_SYNC_MS = 5 * 60_000;
+const BYTES_PER_MB = 1024 * 1024;
+const STATE_EVENT_COALESCE_MS = 50;
+const SSE_KEEPALIVE_MS = 25_000;
+// First room protocol version that takes position reports.
+const DRIFT_PROTOCOL_VERSION = 3;
+// Actions that only read state; everything else may change what subscribers see.
+const READ_ONLY_ACTIONS = new Set<DaemonAction>([
+	"status",
+	"queue",
+	"subscribe",
+	"cacheStatus",
+]);
 
 type PlaybackMode = "room" | "local";
 type ConnectionState =
@@ -69,6 +109,17 @@ function asNumber(value: unknown): number | undefined {
 	return value;
 }
 
+function asEventFilter(value: unknown): DaemonEventName[] | null {
+	if (
+		value === undefined ||
+		typeof value === "string" ||
+		(Array.isArray(value) && value.every((item) => typeof item === "string"))
+	) {
+		return parseDaemonEventNames(value);
+	}
+	throw new Error("events must be a list of event names");
+}
+
 function asInteger(value: unknown): number | undefined {
 	const num = asNumber(value);
 	if (num === undefined || !Number.isInteger(num)) return undefined;
@@ -96,7 +147,7 @@ function formatHttpOrigin(host: string, port: number): string {
 	return `http://${normalizedHost}:${String(port)}`;
 }
 
-function toSongData(song: Song): SongData {
+function toSongData(song: Song, gainDb?: number): SongData {
 	return {
 		id: song.id,
 		title: song.title ?? undefined,
@@ -119,6 +170,7 @@ function toSongData(song: Song): SongData {
 		bpm: song.bpm ?? undefined,
 		keyScale: song.keyScale ?? undefined,
 		lyrics: song.lyrics ?? undefined,
+		gainDb,
 	};
 }
 
@@ -147,11 +199,14 @@ export type DaemonRuntimeOptions = {
 	deviceToken?: string;
 	daemonHttpHost?: string;
 	daemonHttpPort?: number;
+	audioCacheMaxMb?: number;
+	outputLatencyMs?: number;
 };
 
 export class DaemonRuntime {
 	private readonly runtimePaths = getRuntimePaths();
 	private readonly deviceId = `infi-${randomUUID().slice(0, 8)}`;
+	private readonly audioCache: AudioCache;
 	private readonly ffplay: FfplayEngine;
 	private readonly ipcServer: NetServer;
 	private httpServer: HttpServer | null = null;
@@ -161,6 +216,8 @@ export class DaemonRuntime {
 	private localRefreshTimer: ReturnType<typeof setInterval> | null = null;
 	private localHeartbeatTimer: ReturnType<typeof setInterval> | null = null;
 	private deviceRegistrationTimer: ReturnType<typeof setInterval> | null = null;
+	private pinnedSyncTimer: ReturnType<typeof setInterval> | null = null;
+	private positionReportTimer: ReturnType<typeof setInterval> | null = null;
 	private shouldRun = true;
 	private connectionWaiters = new Set<{
 		resolve: () => void;
@@ -177,8 +234,19 @@ export class DaemonRuntime {
 	private assignedPlaylistId: string | null = null;
 	private daemonHttpHost: string;
 	private daemonHttpPort: number;
+	private outputLatencyMs: number;
 	private mode: PlaybackMode = "room";
 	private roomDeviceMode: DeviceMode = "default";
+	private roomDevices: Device[] = [];
+	// Each subscriber's push function and the events it asked for (null: all).
+	private readonly subscribers = new Map<
+		(event: IpcEvent) => void,
+		Set<DaemonEventName> | null
+	>();
+	private stateEventTimer: ReturnType<typeof setTimeout> | null = null;
+	private lastStateSignature: string | null = null;
+	private lastEventSnapshot: EventSnapshot | null = null;
+	private pendingSeek = false;
 	private connectionState: ConnectionState = "disconnected";
 	private reconnectAttempts = 0;
 	private lastDisconnectReason: string | null = null;
@@ -193,6 +261,7 @@ export class DaemonRuntime {
 	private serverTimeOffset = 0;
 	private playback: PlaybackState = { ...INITIAL_PLAYBACK };
 	private currentSong: SongData | null = null;
+	private transition: TransitionSettings = { ...DEFAULT_TRANSITION };
 	private queue: SongData[] = [];
 	private lastError: string | null = null;
 
@@ -209,14 +278,19 @@ export class DaemonRuntime {
 		this.daemonHttpPort = isValidTcpPort(options.daemonHttpPort ?? -1)
 			? (options.daemonHttpPort as number)
 			: 17653;
+		this.outputLatencyMs = clampOutputLatency(options.outputLatencyMs ?? 0);
+		this.audioCache = new AudioCache(
+			this.runtimePaths.audioCacheDir,
+			(options.audioCacheMaxMb ?? DEFAULT_AUDIO_CACHE_MAX_MB) * BYTES_PER_MB,
+		);
 		this.ffplay = new FfplayEngine(() => {
 			if (this.mode === "local") {
 				void this.handleLocalSongEnded();
 				return;
 			}
 			this.send({ type: "songEnded" });
-		});
-		this.ipcServer = createIpcServer(this.handleIpc);
+		}, this.audioCache);
+		this.ipcServer = createIpcServer(this.handleIpc, this.handleSubscribe);
 	}
 
 	async start(): Promise<void> {
@@ -235,6 +309,9 @@ export class DaemonRuntime {
 		this.syncTimer = setInterval(() => {
 			this.sendSyncPulse();
 		}, 1000);
+		this.positionReportTimer = setInterval(() => {
+			this.sendPositionReport();
+		}, POSITION_REPORT_INTERVAL_MS);
 
 		process.on("SIGINT", () => {
 			void this.shutdown(0);
@@ -248,17 +325,84 @@ export class DaemonRuntime {
 		}
 		this.restartDeviceRegistrationTimer();
 
+		void this.syncPinnedPlaylists();
+		this.pinnedSyncTimer = setInterval(() => {
+			void this.syncPinnedPlaylists();
+		}, PINNED_SYNC_MS);
+
 		if (this.serverUrl && this.roomId) {
 			this.connect();
 		}
 	}
 
 	private readonly handleIpc: IpcHandler = async (action, payload) => {
+		const result = await this.dispatchIpc(action, payload);
+		if (!READ_ONLY_ACTIONS.has(action)) {
+			this.notifyStateChanged(action === "seek");
+		}
+		return result;
+	};
+
+	private readonly handleSubscribe: IpcSubscribeHandler = (push, payload) =>
+		this.addSubscriber(push, asEventFilter(payload?.events));
+
+	private async dispatchIpc(
+		action: DaemonAction,
+		payload: Record<string, unknown> | undefined,
+	): Promise<unknown> {
 		switch (action) {
 			case "status":
 				return this.getStatus();
+			case "subscribe":
+				// Validate the filter here so a bad one fails the request.
+				asEventFilter(payload?.events);
+				return this.getStateSnapshot();
 			case "queue":
 				return this.queue;
+			case "steer": {
+				const prompt = asString(payload?.prompt);
+				if (!prompt) {
+					throw new Error("steer requires a prompt");
+				}
+				const playlistId =
+					this.mode === "local"
+						? this.localPlaylistId
+						: (this.assignedPlaylistId ?? this.roomId);
+				if (!this.serverUrl || !playlistId) {
+					throw new Error("No active playlist to steer.");
+				}
+				const result = await updatePlaylistPrompt(
+					this.serverUrl,
+					playlistId,
+					prompt.trim(),
+					{ deviceToken: this.deviceToken ?? undefined },
+				);
+				return {
+					playlistId,
+					prompt: prompt.trim(),
+					promptEpoch: result.promptEpoch ?? null,
+				};
+			}
+			case "cacheStatus":
+				return this.audioCache.status();
+			case "cachePrune":
+				return this.audioCache.prune(payload?.all === true);
+			case "cachePin": {
+				const playlistId = asString(payload?.playlistId);
+				if (!playlistId) {
+					throw new Error("cachePin requires playlistId");
+				}
+				this.audioCache.pin(playlistId, asString(payload?.playlistName));
+				void this.syncPinnedPlaylist(playlistId);
+				return this.audioCache.status();
+			}
+			case "cacheUnpin": {
+				const playlistId = asString(payload?.playlistId);
+				if (!playlistId) {
+					throw new Error("cacheUnpin requires playlistId");
+				}
+				return { unpinned: this.audioCache.unpin(playlistId) };
+			}
 			case "shutdown":
 				setTimeout(() => {
 					void this.shutdown(0);
@@ -336,6 +480,8 @@ export class DaemonRuntime {
 					nextModeRaw === "local" || nextModeRaw === "room"
 						? nextModeRaw
 						: undefined;
+				const nextAudioCacheMaxMb = asNumber(payload?.audioCacheMaxMb);
+				const nextOutputLatencyMs = asNumber(payload?.outputLatencyMs);
 				if (
 					daemonHttpPortRaw !== undefined &&
 					nextDaemonHttpPort === undefined
@@ -400,6 +546,18 @@ export class DaemonRuntime {
 				if (typeof nextDaemonHttpPort === "number") {
 					this.daemonHttpPort = nextDaemonHttpPort;
 				}
+				if (typeof nextAudioCacheMaxMb === "number") {
+					this.audioCache.setMaxBytes(nextAudioCacheMaxMb * BYTES_PER_MB);
+				}
+				if (typeof nextOutputLatencyMs === "number") {
+					this.outputLatencyMs = clampOutputLatency(nextOutputLatencyMs);
+					if (this.connected && this.roomReportsDrift()) {
+						this.send({
+							type: "setOutputLatency",
+							latencyMs: this.outputLatencyMs,
+						});
+					}
+				}
 
 				if (nextMode === "room" && this.mode !== "room") {
 					this.stopLocalMode();
@@ -481,6 +639,7 @@ export class DaemonRuntime {
 				return { ok: true };
 			case "skip":
 				if (this.mode === "local") {
+					void this.reportLocalSkip();
 					void this.handleLocalSongEnded();
 				} else {
 					this.sendCommand("skip");
@@ -599,8 +758,19 @@ export class DaemonRuntime {
 				}
 				return { ok: true };
 			}
+			case "setTransition": {
+				const parsed = TransitionSettingsSchema.safeParse(payload);
+				if (!parsed.success) {
+					throw new Error(
+						"setTransition requires payload.mode and payload.seconds (0-12)",
+					);
+				}
+				this.sendCommand("setTransition", parsed.data);
+				this.transition = parsed.data;
+				return { ok: true, transition: parsed.data };
+			}
 		}
-	};
+	}
 
 	private restartDeviceRegistrationTimer(): void {
 		if (this.deviceRegistrationTimer) {
@@ -709,6 +879,10 @@ export class DaemonRuntime {
 				playlistKey: this.playlistKey ?? undefined,
 				roomName: this.roomName ?? undefined,
 				protocolVersion: ROOM_PROTOCOL_VERSION,
+				deviceToken: this.deviceToken ?? undefined,
+				outputLatencyMs: this.outputLatencyMs,
+				// ffplay has no live rate control, so drift is only fixed by seeking.
+				canNudgeRate: false,
 			};
 			this.send(join);
 			this.send({ type: "ping", clientTime: Date.now() });
@@ -725,6 +899,7 @@ export class DaemonRuntime {
 		ws.on("message", (data) => {
 			if (this.ws !== ws) return;
 			this.handleServerMessage(data.toString());
+			this.notifyStateChanged();
 		});
 
 		ws.on("error", (error) => {
@@ -760,6 +935,7 @@ export class DaemonRuntime {
 					new Error(this.lastDisconnectReason ?? "Room socket closed"),
 				);
 			}
+			this.notifyStateChanged();
 			if (!this.shouldRun || !this.roomId || !this.serverUrl) {
 				this.connectionState = "disconnected";
 				return;
@@ -793,6 +969,7 @@ export class DaemonRuntime {
 		}
 		this.connected = false;
 		this.roomDeviceMode = "default";
+		this.roomDevices = [];
 		this.joinAcknowledged = false;
 		this.roomStateReceived = false;
 		this.roomProtocolVersion = null;
@@ -826,6 +1003,8 @@ export class DaemonRuntime {
 				this.roomStateReceived = true;
 				this.playback = message.playback;
 				this.currentSong = message.currentSong;
+				if (message.transition) this.transition = message.transition;
+				this.roomDevices = message.devices;
 				this.roomDeviceMode =
 					message.devices.find((device) => device.id === this.deviceId)?.mode ??
 					"default";
@@ -862,18 +1041,44 @@ export class DaemonRuntime {
 					break;
 				}
 				const songUrl = resolveMediaUrl(this.serverUrl, message.audioUrl);
+				// Only crossfade out of the song this device is actually playing.
+				const crossfadeMs =
+					message.transition?.fromSongId === snapshot.songId
+						? message.transition?.durationMs
+						: undefined;
 				this.ffplay.loadSong(
 					message.songId,
 					songUrl,
-					message.startAt,
+					// Start early by the output latency so the speaker is on time.
+					typeof message.startAt === "number"
+						? message.startAt - this.outputLatencyMs
+						: undefined,
 					this.serverTimeOffset,
+					crossfadeMs,
+					message.gainDb,
+				);
+				break;
+			}
+			case "correction": {
+				// The room never nudges a device that can't change rate.
+				if (message.correction.kind !== "seek") break;
+				if (this.ffplay.getSnapshot().songId !== message.songId) break;
+				this.ffplay.seek(
+					resolveSeekTarget(
+						message.correction,
+						Date.now() + this.serverTimeOffset,
+						this.outputLatencyMs,
+					),
 				);
 				break;
 			}
 			case "preload": {
 				if (!this.serverUrl) return;
 				const songUrl = resolveMediaUrl(this.serverUrl, message.audioUrl);
-				this.ffplay.preload(message.songId, songUrl);
+				this.ffplay.preload(message.songId, songUrl, {
+					playlistId: this.roomId,
+					song: this.queue.find((song) => song.id === message.songId) ?? null,
+				});
 				break;
 			}
 			case "error":
@@ -914,7 +1119,7 @@ export class DaemonRuntime {
 				break;
 			case "seek": {
 				const time = asNumber(payload?.time) ?? 0;
-				this.ffplay.seek(time);
+				this.ffplay.seek(time + this.outputLatencyMs / 1000);
 				break;
 			}
 			case "setVolume": {
@@ -952,6 +1157,8 @@ export class DaemonRuntime {
 	}
 
 	private sendSyncPulse(): void {
+		// Catches changes no handler announced, e.g. ffplay exiting on its own.
+		this.publishState();
 		if (this.mode === "local") {
 			this.syncLocalPlaybackSnapshot();
 			return;
@@ -968,6 +1175,25 @@ export class DaemonRuntime {
 		});
 	}
 
+	/** Tell a v3 room where playback actually is so it can correct drift. */
+	private sendPositionReport(): void {
+		if (this.mode !== "room" || !this.connected || !this.roomReportsDrift()) {
+			return;
+		}
+		const snapshot = this.ffplay.getSnapshot();
+		if (!snapshot.songId || !snapshot.isPlaying) return;
+		this.send({
+			type: "position",
+			songId: snapshot.songId,
+			position: snapshot.currentTime,
+			serverTime: Date.now() + this.serverTimeOffset,
+		});
+	}
+
+	private roomReportsDrift(): boolean {
+		return (this.roomProtocolVersion ?? 0) >= DRIFT_PROTOCOL_VERSION;
+	}
+
 	private getStatus(): Record<string, unknown> {
 		return {
 			pid: process.pid,
@@ -980,6 +1206,7 @@ export class DaemonRuntime {
 			roomId: this.roomId,
 			roomName: this.roomName,
 			roomDeviceMode: this.roomDeviceMode,
+			devices: this.roomDevices,
 			deviceTokenConfigured: Boolean(this.deviceToken),
 			assignedPlaylistId: this.assignedPlaylistId,
 			joinAcknowledged: this.joinAcknowledged,
@@ -991,15 +1218,172 @@ export class DaemonRuntime {
 			playlistKey: this.playlistKey,
 			playback: this.playback,
 			currentSong: this.currentSong,
+			transition: this.transition,
 			queueLength: this.queue.length,
 			daemonHttpHost: this.daemonHttpHost,
 			daemonHttpPort: this.daemonHttpPort,
 			daemonHttpUrl: formatHttpOrigin(this.daemonHttpHost, this.daemonHttpPort),
+			outputLatencyMs: this.outputLatencyMs,
 			engine: this.ffplay.getSnapshot(),
+			audioCache: this.audioCache.status(),
 			lastError: this.lastError,
 		};
 	}
 
+	private getStateSnapshot(): DaemonEventMap["state"] {
+		return { status: this.getStatus(), queue: this.queue };
+	}
+
+	private getEventSnapshot(): EventSnapshot {
+		return {
+			mode: this.mode,
+			songId: this.currentSong?.id ?? this.playback.currentSongId,
+			isPlaying: this.playback.isPlaying,
+			volume: this.playback.volume,
+			isMuted: this.playback.isMuted,
+			connectionState: this.connectionState,
+			queueSignature: queueSignature(this.queue),
+		};
+	}
+
+	private addSubscriber(
+		push: (event: IpcEvent) => void,
+		events: DaemonEventName[] | null,
+	): () => void {
+		if (this.subscribers.size === 0) {
+			// Nothing was tracked while nobody listened; start from now.
+			this.lastEventSnapshot = this.getEventSnapshot();
+			this.lastStateSignature = null;
+		}
+		this.subscribers.set(push, events ? new Set(events) : null);
+		return () => {
+			this.subscribers.delete(push);
+		};
+	}
+
+	/** Coalesce bursts of changes into one round of events for subscribers. */
+	private notifyStateChanged(seeked = false): void {
+		if (this.subscribers.size === 0) return;
+		if (seeked) this.pendingSeek = true;
+		if (this.stateEventTimer) return;
+		this.stateEventTimer = setTimeout(() => {
+			this.stateEventTimer = null;
+			this.publishState();
+		}, STATE_EVENT_COALESCE_MS);
+	}
+
+	/**
+	 * Push the fine-grained events for whatever changed, then a `state`
+	 * snapshot unless nothing but the playback clock moved; subscribers
+	 * advance the clock themselves.
+	 */
+	private publishState(): void {
+		if (this.subscribers.size === 0) return;
+		const at = Date.now();
+		const next = this.getEventSnapshot();
+		const changes = diffDaemonEvents(
+			this.lastEventSnapshot ?? next,
+			next,
+			this.pendingSeek,
+		);
+		this.lastEventSnapshot = next;
+		this.pendingSeek = false;
+		for (const name of changes) {
+			this.emitEvent(this.buildEvent(name), at);
+		}
+
+		const snapshot = this.getStateSnapshot();
+		const status = snapshot.status as {
+			playback: PlaybackState;
+			engine: Record<string, unknown>;
+		};
+		const signature = JSON.stringify({
+			...snapshot,
+			status: {
+				...status,
+				playback: { ...status.playback, currentTime: 0 },
+				engine: { ...status.engine, currentTime: 0 },
+			},
+		});
+		if (changes.length === 0 && signature === this.lastStateSignature) return;
+		this.lastStateSignature = signature;
+		this.emitEvent({ event: "state", data: snapshot }, at);
+	}
+
+	private buildEvent(name: Exclude<DaemonEventName, "state">): DaemonEvent {
+		switch (name) {
+			case "songChanged":
+				return { event: name, data: { song: this.currentSong } };
+			case "playback":
+				return {
+					event: name,
+					data: {
+						songId: this.currentSong?.id ?? this.playback.currentSongId,
+						isPlaying: this.playback.isPlaying,
+						currentTime: this.playback.currentTime,
+						duration: this.playback.duration,
+					},
+				};
+			case "volume":
+				return {
+					event: name,
+					data: {
+						volume: this.playback.volume,
+						isMuted: this.playback.isMuted,
+					},
+				};
+			case "connectionLost":
+				return {
+					event: name,
+					data: {
+						connectionState: this.connectionState,
+						reason: this.lastDisconnectReason,
+					},
+				};
+			case "connectionRestored":
+				return {
+					event: name,
+					data: { connectionState: this.connectionState },
+				};
+			case "queueUpdated":
+				return { event: name, data: { queue: this.queue } };
+		}
+	}
+
+	private emitEvent(event: DaemonEvent, at: number): void {
+		const payload: IpcEvent = { ...event, at };
+		for (const [push, filter] of this.subscribers) {
+			if (!filter || filter.has(event.event)) push(payload);
+		}
+	}
+
+	/** Server-sent events mirror of the IPC `subscribe` stream. */
+	private openEventStream(
+		req: IncomingMessage,
+		res: ServerResponse,
+		events: DaemonEventName[] | null,
+	): void {
+		res.writeHead(200, {
+			"Content-Type": "text/event-stream; charset=utf-8",
+			"Cache-Control": "no-store",
+			Connection: "keep-alive",
+		});
+		const write = (event: IpcEvent) => {
+			res.write(`event: ${event.event}\ndata: ${JSON.stringify(event)}\n\n`);
+		};
+		if (!events || events.includes("state")) {
+			write({ event: "state", at: Date.now(), data: this.getStateSnapshot() });
+		}
+		const unsubscribe = this.addSubscriber(write, events);
+		const keepAlive = setInterval(() => {
+			res.write(": keepalive\n\n");
+		}, SSE_KEEPALIVE_MS);
+		req.once("close", () => {
+			clearInterval(keepAlive);
+			unsubscribe();
+		});
+	}
+
 	private async startHttpServer(): Promise<void> {
 		const host = this.daemonHttpHost;
 		const port = this.daemonHttpPort;
@@ -1122,6 +1506,8 @@ export class DaemonRuntime {
 		this.httpServer = null;
 		await new Promise<void>((resolve) => {
 			server.close(() => resolve());
+			// Event streams never end on their own.
+			server.closeAllConnections();
 		});
 	}
 
@@ -1141,9 +1527,9 @@ export class DaemonRuntime {
 		res: ServerResponse,
 	): void => {
 		const method = req.method ?? "GET";
-		let pathname = "/";
+		let url: URL;
 		try {
-			pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+			url = new URL(req.url ?? "/", "http://localhost");
 		} catch {
 			this.writeJson(res, 400, { error: "Invalid request URL" });
 			return;
@@ -1154,7 +1540,7 @@ export class DaemonRuntime {
 			return;
 		}
 
-		switch (pathname) {
+		switch (url.pathname) {
 			case "/":
 			case "/health":
 				this.writeJson(res, 200, {
@@ -1172,6 +1558,21 @@ export class DaemonRuntime {
 			case "/waybar":
 				this.writeJson(res, 200, this.getWaybarPayload());
 				return;
+			case "/events": {
+				let events: DaemonEventName[] | null;
+				try {
+					events = parseDaemonEventNames(
+						url.searchParams.get("events") ?? undefined,
+					);
+				} catch (error) {
+					this.writeJson(res, 400, {
+						error: error instanceof Error ? error.message : String(error),
+					});
+					return;
+				}
+				this.openEventStream(req, res, events);
+				return;
+			}
 			default:
 				this.writeJson(res, 404, { error: "Not found" });
 				return;
@@ -1363,15 +1764,10 @@ export class DaemonRuntime {
 			return;
 		}
 
+		const playlistId = this.localPlaylistId;
 		try {
-			const songs = await listSongsByPlaylist(
-				this.serverUrl,
-				this.localPlaylistId,
-			);
-			const playable = songs
-				.filter((song) => song.status === "ready" && Boolean(song.audioUrl))
-				.sort((a, b) => a.orderIndex - b.orderIndex)
-				.map(toSongData);
+			const songs = await this.fetchPlaylistSongs(this.serverUrl, playlistId);
+			const playable = songs.filter((song) => song.status === "ready");
 
 			this.queue = playable;
 			this.connected = true;
@@ -1379,17 +1775,99 @@ export class DaemonRuntime {
 			this.reconnectAttempts = 0;
 			this.lastError = null;
 			this.reconcileLocalQueue(playable);
+			this.preloadLocalAhead();
+			this.notifyStateChanged();
+			if (this.audioCache.isPinned(playlistId)) {
+				this.cachePlaylistSongs(playlistId, songs);
+			}
 		} catch (error) {
 			this.connected = false;
 			this.connectionState = "reconnecting";
 			this.reconnectAttempts += 1;
 			this.lastError = error instanceof Error ? error.message : String(error);
+			// Keep a pinned playlist playing from disk until the server is back.
+			const offline = this.audioCache.offlineQueue(playlistId);
+			if (offline.length > 0) {
+				if (this.queue.length === 0) {
+					this.queue = offline;
+					this.reconcileLocalQueue(offline);
+				}
+				return;
+			}
 			if (throwOnError) {
 				throw error;
 			}
 		}
 	}
 
+	/** Every song of a playlist that has audio, in order, with its gain. */
+	private async fetchPlaylistSongs(
+		serverUrl: string,
+		playlistId: string,
+	): Promise<SongData[]> {
+		const [songs, normalization] = await Promise.all([
+			listSongsByPlaylist(serverUrl, playlistId),
+			getSetting(serverUrl, LOUDNESS_NORMALIZATION_SETTING),
+		]);
+		const mode = normalizeLoudnessMode(normalization);
+		const playlistGainDb =
+			mode === "playlist" ? computePlaylistGain(songs) : null;
+		return songs
+			.filter((song) => Boolean(song.audioUrl))
+			.sort((a, b) => a.orderIndex - b.orderIndex)
+			.map((song) =>
+				toSongData(
+					song,
+					resolveGainDb(mode, song, playlistGainDb) ?? undefined,
+				),
+			);
+	}
+
+	private cachePlaylistSongs(playlistId: string, songs: SongData[]): void {
+		if (!this.serverUrl) return;
+		for (const song of songs) {
+			if (!song.audioUrl) continue;
+			if (song.status !== "ready" && song.status !== "played") continue;
+			void this.audioCache.prefetch(
+				song.id,
+				resolveMediaUrl(this.serverUrl, song.audioUrl),
+				{ playlistId, song },
+			);
+		}
+	}
+
+	private async syncPinnedPlaylist(playlistId: string): Promise<void> {
+		if (!this.serverUrl) return;
+		try {
+			const songs = await this.fetchPlaylistSongs(this.serverUrl, playlistId);
+			this.cachePlaylistSongs(playlistId, songs);
+		} catch {
+			// Offline or unreachable; the next sync picks the playlist up again.
+		}
+	}
+
+	private async syncPinnedPlaylists(): Promise<void> {
+		for (const pinned of this.audioCache.pinnedPlaylists()) {
+			await this.syncPinnedPlaylist(pinned.playlistId);
+		}
+	}
+
+	/** Download the next few local-mode songs so transitions play from disk. */
+	private preloadLocalAhead(): void {
+		if (!this.serverUrl || !this.currentSong) return;
+		const currentOrder = this.currentSong.orderIndex;
+		const upcoming = this.queue
+			.filter((song) => song.orderIndex > currentOrder && song.audioUrl)
+			.slice(0, LOCAL_PRELOAD_AHEAD);
+		for (const song of upcoming) {
+			this.ffplay.preload(
+				song.id,
+				resolveMediaUrl(this.serverUrl, song.audioUrl as string),
+				{ playlistId: this.localPlaylistId, song },
+			);
+		}
+	}
+
 	private reconcileLocalQueue(queue: SongData[]): void {
 		const hasCurrent =
 			this.currentSong !== null &&
@@ -1452,13 +1930,15 @@ export class DaemonRuntime {
 		this.playback.isPlaying = true;
 
 		const url = resolveMediaUrl(this.serverUrl, song.audioUrl);
-		this.ffplay.loadSong(song.id, url, undefined, 0);
+		this.ffplay.loadSong(song.id, url, undefined, 0, undefined, song.gainDb);
 		this.playback.volume = this.ffplay.getVolume();
 		this.playback.isMuted = this.ffplay.isMuted();
 
 		if (this.localPlaylistId) {
 			void this.reportLocalPlaylistPosition(song.orderIndex);
 		}
+		this.preloadLocalAhead();
+		this.notifyStateChanged();
 	}
 
 	private selectLocalSong(songId: string): void {
@@ -1510,6 +1990,29 @@ export class DaemonRuntime {
 		]);
 	}
 
+	/** Room mode skips are recorded by the room; local mode reports its own. */
+	private async reportLocalSkip(): Promise<void> {
+		if (this.mode !== "local" || !this.serverUrl || !this.currentSong) return;
+		const song = this.currentSong;
+		const snapshot = this.ffplay.getSnapshot();
+		const durationSec = song.audioDuration ?? this.playback.duration;
+		try {
+			await recordSkip(
+				this.serverUrl,
+				song.id,
+				{
+					positionSec: Math.max(0, snapshot.currentTime),
+					...(durationSec > 0 ? { durationSec } : {}),
+					deviceId: this.deviceId,
+					deviceName: this.deviceName,
+				},
+				{ deviceToken: this.deviceToken ?? undefined },
+			);
+		} catch {
+			// Skips are feedback only; never block advancing to the next song.
+		}
+	}
+
 	private async reportLocalPlaylistPosition(orderIndex: number): Promise<void> {
 		if (!this.serverUrl || !this.localPlaylistId) return;
 		try {
@@ -1618,6 +2121,19 @@ export class DaemonRuntime {
 			clearInterval(this.deviceRegistrationTimer);
 			this.deviceRegistrationTimer = null;
 		}
+		if (this.pinnedSyncTimer) {
+			clearInterval(this.pinnedSyncTimer);
+			this.pinnedSyncTimer = null;
+		}
+		if (this.positionReportTimer) {
+			clearInterval(this.positionReportTimer);
+			this.positionReportTimer = null;
+		}
+		if (this.stateEventTimer) {
+			clearTimeout(this.stateEventTimer);
+			this.stateEventTimer = null;
+		}
+		this.subscribers.clear();
 		this.stopLocalMode();
 		this.disconnect(true);
 		this.ffplay.destroy();
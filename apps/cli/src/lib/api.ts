@@ -1,15 +1,35 @@
+import fs from "node:fs";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
 import {
 	type CommandAction,
+	type CreateHouseScheduleRequest,
 	type DeviceRegisterResponse,
 	DeviceRegisterResponseSchema,
 	type HouseCommandResponse,
 	HouseCommandResponseSchema,
+	type HouseSchedule,
+	HouseScheduleSchema,
+	type HouseSchedulesResponse,
+	HouseSchedulesResponseSchema,
 	type HouseSessionsResponse,
 	HouseSessionsResponseSchema,
 	type PlaylistSessionInfo,
 	PlaylistSessionInfoSchema,
+	type UpdateHouseScheduleRequest,
 } from "@infinitune/shared/protocol";
-import type { Playlist, Song, SongStatus } from "@infinitune/shared/types";
+import {
+	type Playlist,
+	type PlaylistImportResult,
+	type PlaylistStatus,
+	SONG_SEARCH_FACET_PARAMS,
+	SONG_SEARCH_FACETS,
+	type Song,
+	type SongSearchFacet,
+	type SongSearchResponse,
+	type SongStatus,
+} from "@infinitune/shared/types";
 import z from "zod";
 
 export function normalizeServerUrl(serverUrl: string): string {
@@ -59,10 +79,51 @@ const SongSchema = z
 	})
 	.passthrough();
 
+const FacetCountSchema = z.object({
+	value: z.string(),
+	count: z.number(),
+});
+
+const SongSearchResponseSchema = z.object({
+	items: z.array(SongSchema),
+	nextCursor: z.string().nullable(),
+	total: z.number(),
+	facets: z.record(z.string(), z.array(FacetCountSchema)),
+});
+
+const PlaylistImportResultSchema = z.object({
+	playlistId: z.string(),
+	importedSongs: z.number(),
+	failures: z.array(
+		z.object({
+			sourceId: z.string(),
+			title: z.string().nullable(),
+			error: z.string(),
+		}),
+	),
+});
+
 const OkResponseSchema = z.object({
 	ok: z.boolean(),
 });
 
+const SteerResponseSchema = OkResponseSchema.extend({
+	promptEpoch: z.number().optional(),
+});
+
+const StarResponseSchema = z.object({
+	isStarred: z.boolean(),
+});
+
+const SongSkipSchema = z
+	.object({
+		id: z.string(),
+		songId: z.string(),
+		positionSec: z.number(),
+		early: z.boolean(),
+	})
+	.passthrough();
+
 async function requestJson<T>(
 	serverUrl: string,
 	pathname: string,
@@ -109,34 +170,64 @@ async function requestJson<T>(
 	return parsed.data;
 }
 
-export function listPlaylists(serverUrl: string): Promise<Playlist[]> {
-	return requestJson(serverUrl, "/api/playlists", z.array(PlaylistSchema)).then(
-		(value) => value as unknown as Playlist[],
-	);
+export function listPlaylists(
+	serverUrl: string,
+	headers?: AuthHeaders,
+): Promise<Playlist[]> {
+	return requestJson(serverUrl, "/api/playlists", z.array(PlaylistSchema), {
+		headers: resolveAuthHeaders(headers),
+	}).then((value) => value as unknown as Playlist[]);
+}
+
+export function getPlaylist(
+	serverUrl: string,
+	playlistId: string,
+	headers?: AuthHeaders,
+): Promise<Playlist> {
+	const encoded = encodeURIComponent(playlistId);
+	return requestJson(serverUrl, `/api/playlists/${encoded}`, PlaylistSchema, {
+		headers: resolveAuthHeaders(headers),
+	}).then((value) => value as unknown as Playlist);
 }
 
 export function getCurrentPlaylist(
 	serverUrl: string,
+	headers?: AuthHeaders,
 ): Promise<Playlist | null> {
 	return requestJson(
 		serverUrl,
 		"/api/playlists/current",
 		PlaylistSchema.nullable(),
+		{ headers: resolveAuthHeaders(headers) },
 	).then((value) => value as Playlist | null);
 }
 
 export function getPlaylistByKey(
 	serverUrl: string,
 	playlistKey: string,
+	headers?: AuthHeaders,
 ): Promise<Playlist | null> {
 	const encoded = encodeURIComponent(playlistKey);
 	return requestJson(
 		serverUrl,
 		`/api/playlists/by-key/${encoded}`,
 		PlaylistSchema.nullable(),
+		{ headers: resolveAuthHeaders(headers) },
 	).then((value) => value as Playlist | null);
 }
 
+export function getSetting(
+	serverUrl: string,
+	key: string,
+): Promise<string | null> {
+	const encoded = encodeURIComponent(key);
+	return requestJson(
+		serverUrl,
+		`/api/settings/${encoded}`,
+		z.string().nullable(),
+	);
+}
+
 export function listSongsByPlaylist(
 	serverUrl: string,
 	playlistId: string,
@@ -149,6 +240,104 @@ export function listSongsByPlaylist(
 	).then((value) => value as unknown as Song[]);
 }
 
+export type SongSearchParams = {
+	q?: string;
+	cursor?: string;
+	limit?: number;
+} & Partial<Record<SongSearchFacet, string[]>>;
+
+export function searchSongs(
+	serverUrl: string,
+	params: SongSearchParams,
+): Promise<SongSearchResponse> {
+	const query = new URLSearchParams();
+	if (params.q) query.set("q", params.q);
+	for (const facet of SONG_SEARCH_FACETS) {
+		for (const value of params[facet] ?? []) {
+			query.append(SONG_SEARCH_FACET_PARAMS[facet], value);
+		}
+	}
+	if (params.cursor) query.set("cursor", params.cursor);
+	if (params.limit) query.set("limit", String(params.limit));
+	return requestJson(
+		serverUrl,
+		`/api/songs/search?${query.toString()}`,
+		SongSearchResponseSchema,
+	).then((value) => value as unknown as SongSearchResponse);
+}
+
+/** Stream a URL to `outputPath` via a `.part` file; returns the byte size. */
+export async function downloadToFile(
+	url: string,
+	outputPath: string,
+	signal?: AbortSignal,
+	headers?: AuthHeaders,
+): Promise<number> {
+	let response: Response;
+	try {
+		response = await fetch(url, {
+			signal,
+			headers: resolveAuthHeaders(headers),
+		});
+	} catch (error) {
+		throw new Error(
+			`Failed to reach ${url}: ${
+				error instanceof Error ? error.message : String(error)
+			}`,
+		);
+	}
+	if (!response.ok || !response.body) {
+		const body = await response.text();
+		throw new Error(
+			`HTTP ${response.status} ${new URL(url).pathname}: ${body}`,
+		);
+	}
+	const tmpPath = `${outputPath}.part`;
+	try {
+		await pipeline(
+			Readable.fromWeb(response.body as WebReadableStream<Uint8Array>),
+			fs.createWriteStream(tmpPath),
+		);
+		fs.renameSync(tmpPath, outputPath);
+	} catch (error) {
+		fs.rmSync(tmpPath, { force: true });
+		throw error;
+	}
+	return fs.statSync(outputPath).size;
+}
+
+/** Download a playlist export ZIP to `outputPath`; returns bytes written. */
+export function downloadPlaylistExport(
+	serverUrl: string,
+	playlistId: string,
+	outputPath: string,
+	headers?: AuthHeaders,
+): Promise<number> {
+	const base = normalizeServerUrl(serverUrl);
+	const pathname = `/api/playlists/${encodeURIComponent(playlistId)}/export`;
+	return downloadToFile(`${base}${pathname}`, outputPath, undefined, headers);
+}
+
+export function importPlaylistArchive(
+	serverUrl: string,
+	archivePath: string,
+	headers?: AuthHeaders,
+): Promise<PlaylistImportResult> {
+	return requestJson(
+		serverUrl,
+		"/api/playlists/import",
+		PlaylistImportResultSchema,
+		{
+			method: "POST",
+			headers: {
+				...resolveAuthHeaders(headers),
+				"Content-Type": "application/zip",
+			},
+			body: fs.readFileSync(archivePath),
+		},
+	);
+}
+
 export function heartbeatPlaylist(
 	serverUrl: string,
 	playlistId: string,
@@ -219,7 +408,26 @@ export function rateSong(
 	);
 }
 
-type AuthHeaders = {
+export function recordSkip(
+	serverUrl: string,
+	songId: string,
+	skip: {
+		positionSec: number;
+		durationSec?: number;
+		deviceId?: string;
+		deviceName?: string;
+	},
+	headers?: AuthHeaders,
+): Promise<z.infer<typeof SongSkipSchema>> {
+	const encoded = encodeURIComponent(songId);
+	return requestJson(serverUrl, `/api/songs/${encoded}/skip`, SongSkipSchema, {
+		method: "POST",
+		headers: resolveAuthHeaders(headers),
+		body: JSON.stringify({ ...skip, source: "daemon" }),
+	});
+}
+
+export type AuthHeaders = {
 	idToken?: string;
 	deviceToken?: string;
 };
@@ -235,6 +443,103 @@ function resolveAuthHeaders(headers?: AuthHeaders): Record<string, string> {
 	return resolved;
 }
 
+/** Steer a playlist; resolves with the prompt epoch the steer started. */
+export function updatePlaylistPrompt(
+	serverUrl: string,
+	playlistId: string,
+	prompt: string,
+	headers?: AuthHeaders,
+): Promise<{ ok: boolean; promptEpoch?: number }> {
+	const encoded = encodeURIComponent(playlistId);
+	return requestJson(
+		serverUrl,
+		`/api/playlists/${encoded}/prompt`,
+		SteerResponseSchema,
+		{
+			method: "PATCH",
+			headers: resolveAuthHeaders(headers),
+			body: JSON.stringify({ prompt }),
+		},
+	);
+}
+
+/** Queue a one-off song request; it plays next once generated. */
+export function requestSong(
+	serverUrl: string,
+	playlistId: string,
+	prompt: string,
+	headers?: AuthHeaders,
+): Promise<Song> {
+	const encoded = encodeURIComponent(playlistId);
+	return requestJson(
+		serverUrl,
+		`/api/playlists/${encoded}/requests`,
+		SongSchema,
+		{
+			method: "POST",
+			headers: resolveAuthHeaders(headers),
+			body: JSON.stringify({ prompt }),
+		},
+	).then((value) => value as unknown as Song);
+}
+
+export type CreatePlaylistInput = {
+	name: string;
+	prompt: string;
+	llmProvider: string;
+	llmModel: string;
+	playlistKey: string;
+};
+
+export function createPlaylist(
+	serverUrl: string,
+	input: CreatePlaylistInput,
+	headers?: AuthHeaders,
+): Promise<Playlist> {
+	return requestJson(serverUrl, "/api/playlists", PlaylistSchema, {
+		method: "POST",
+		headers: resolveAuthHeaders(headers),
+		body: JSON.stringify(input),
+	}).then((value) => value as unknown as Playlist);
+}
+
+export function togglePlaylistStar(
+	serverUrl: string,
+	playlistId: string,
+	headers?: AuthHeaders,
+): Promise<{ isStarred: boolean }> {
+	const encoded = encodeURIComponent(playlistId);
+	return requestJson(
+		serverUrl,
+		`/api/playlists/${encoded}/star`,
+		StarResponseSchema,
+		{
+			method: "PATCH",
+			headers: resolveAuthHeaders(headers),
+			body: JSON.stringify({}),
+		},
+	);
+}
+
+export function updatePlaylistStatus(
+	serverUrl: string,
+	playlistId: string,
+	status: PlaylistStatus,
+	headers?: AuthHeaders,
+): Promise<{ ok: boolean }> {
+	const encoded = encodeURIComponent(playlistId);
+	return requestJson(
+		serverUrl,
+		`/api/playlists/${encoded}/status`,
+		OkResponseSchema,
+		{
+			method: "PATCH",
+			headers: resolveAuthHeaders(headers),
+			body: JSON.stringify({ status }),
+		},
+	);
+}
+
 export function getPlaylistSession(
 	serverUrl: string,
 	playlistId: string,
@@ -328,3 +633,87 @@ export function getHouseSessions(
 		},
 	);
 }
+
+export function listHouseSchedules(
+	serverUrl: string,
+	headers?: AuthHeaders,
+): Promise<HouseSchedulesResponse> {
+	return requestJson(
+		serverUrl,
+		"/api/v1/house/schedules",
+		HouseSchedulesResponseSchema,
+		{
+			method: "GET",
+			headers: resolveAuthHeaders(headers),
+		},
+	);
+}
+
+export function createHouseSchedule(
+	serverUrl: string,
+	payload: CreateHouseScheduleRequest,
+	headers?: AuthHeaders,
+): Promise<HouseSchedule> {
+	return requestJson(
+		serverUrl,
+		"/api/v1/house/schedules",
+		HouseScheduleSchema,
+		{
+			method: "POST",
+			headers: resolveAuthHeaders(headers),
+			body: JSON.stringify(payload),
+		},
+	);
+}
+
+export function updateHouseSchedule(
+	serverUrl: string,
+	scheduleId: string,
+	payload: UpdateHouseScheduleRequest,
+	headers?: AuthHeaders,
+): Promise<HouseSchedule> {
+	return requestJson(
+		serverUrl,
+		`/api/v1/house/schedules/${encodeURIComponent(scheduleId)}`,
+		HouseScheduleSchema,
+		{
+			method: "PATCH",
+			headers: resolveAuthHeaders(headers),
+			body: JSON.stringify(payload),
+		},
+	);
+}
+
+export async function deleteHouseSchedule(
+	serverUrl: string,
+	scheduleId: string,
+	headers?: AuthHeaders,
+): Promise<void> {
+	await requestJson(
+		serverUrl,
+		`/api/v1/house/schedules/${encodeURIComponent(scheduleId)}`,
+		OkResponseSchema,
+		{
+			method: "DELETE",
+			headers: resolveAuthHeaders(headers),
+		},
+	);
+}
+
+export async function runHouseSchedule(
+	serverUrl: string,
+	scheduleId: string,
+	action: "start" | "stop",
+	headers?: AuthHeaders,
+): Promise<void> {
+	await requestJson(
+		serverUrl,
+		`/api/v1/house/schedules/${encodeURIComponent(scheduleId)}/run`,
+		OkResponseSchema,
+		{
+			method: "POST",
+			headers: resolveAuthHeaders(headers),
+			body: JSON.stringify({ action }),
+		},
+	);
+}
@@ -48,6 +48,15 @@ export function getFlagString(
 	return undefined;
 }
 
+export function getFlagList(parsed: ParsedArgs, ...keys: string[]): string[] {
+	const raw = getFlagString(parsed, ...keys);
+	if (!raw) return [];
+	return raw
+		.split(",")
+		.map((value) => value.trim())
+		.filter((value) => value.length > 0);
+}
+
 export function getFlagNumber(
 	parsed: ParsedArgs,
 	fallback: number,
@@ -1,6 +1,7 @@
 import { randomUUID } from "node:crypto";
 import fs from "node:fs";
 import net from "node:net";
+import type { SongData } from "@infinitune/shared/protocol";
 import { getRuntimePaths } from "./paths";
 
 export type DaemonAction =
@@ -22,7 +23,14 @@ export type DaemonAction =
 	| "rate"
 	| "selectSong"
 	| "seek"
-	| "queue";
+	| "setTransition"
+	| "queue"
+	| "cacheStatus"
+	| "cachePrune"
+	| "cachePin"
+	| "cacheUnpin"
+	| "steer"
+	| "subscribe";
 
 export type IpcRequest = {
 	id: string;
@@ -37,12 +45,77 @@ export type IpcResponse = {
 	error?: string;
 };
 
+/** Payload of each event the daemon pushes to subscribers. */
+export type DaemonEventMap = {
+	/** Full `status` + `queue` snapshot whenever anything visible changed. */
+	state: { status: Record<string, unknown>; queue: SongData[] };
+	songChanged: { song: SongData | null };
+	playback: {
+		songId: string | null;
+		isPlaying: boolean;
+		currentTime: number;
+		duration: number;
+	};
+	volume: { volume: number; isMuted: boolean };
+	connectionLost: { connectionState: string; reason: string | null };
+	connectionRestored: { connectionState: string };
+	queueUpdated: { queue: SongData[] };
+};
+
+export type DaemonEventName = keyof DaemonEventMap;
+
+export const DAEMON_EVENT_NAMES: DaemonEventName[] = [
+	"state",
+	"songChanged",
+	"playback",
+	"volume",
+	"connectionLost",
+	"connectionRestored",
+	"queueUpdated",
+];
+
+export type DaemonEvent = {
+	[K in DaemonEventName]: { event: K; data: DaemonEventMap[K] };
+}[DaemonEventName];
+
+/** Pushed to subscribed sockets after the `subscribe` response. */
+export type IpcEvent = DaemonEvent & { at: number };
+
+/** Parse a comma-separated event filter; null means every event. */
+export function parseDaemonEventNames(
+	value: string | string[] | undefined,
+): DaemonEventName[] | null {
+	if (value === undefined) return null;
+	const names = (Array.isArray(value) ? value : value.split(","))
+		.map((name) => name.trim())
+		.filter(Boolean);
+	if (names.length === 0) return null;
+	const unknown = names.filter(
+		(name) => !DAEMON_EVENT_NAMES.includes(name as DaemonEventName),
+	);
+	if (unknown.length > 0) {
+		throw new Error(
+			`Unknown event(s): ${unknown.join(", ")}. Expected: ${DAEMON_EVENT_NAMES.join(", ")}`,
+		);
+	}
+	return names as DaemonEventName[];
+}
+
 export type IpcHandler = (
 	action: DaemonAction,
 	payload: Record<string, unknown> | undefined,
 ) => Promise<unknown> | unknown;
 
-export function createIpcServer(handler: IpcHandler): net.Server {
+/** Registers a subscriber's push function; returns its unsubscribe. */
+export type IpcSubscribeHandler = (
+	push: (event: IpcEvent) => void,
+	payload: Record<string, unknown> | undefined,
+) => () => void;
+
+export function createIpcServer(
+	handler: IpcHandler,
+	onSubscribe?: IpcSubscribeHandler,
+): net.Server {
 	const server = net.createServer((socket) => {
 		let buffer = "";
 		socket.setEncoding("utf8");
@@ -82,6 +155,15 @@ export function createIpcServer(handler: IpcHandler): net.Server {
 					const data = await handler(request.action, request.payload);
 					const response: IpcResponse = { id: request.id, ok: true, data };
 					socket.write(`${JSON.stringify(response)}\n`);
+					if (request.action === "subscribe" && onSubscribe) {
+						// The socket stays open; events follow the response line.
+						const unsubscribe = onSubscribe((event) => {
+							if (!socket.destroyed) {
+								socket.write(`${JSON.stringify(event)}\n`);
+							}
+						}, request.payload);
+						socket.once("close", unsubscribe);
+					}
 				} catch (error) {
 					const response: IpcResponse = {
 						id: request.id,
@@ -173,6 +255,104 @@ export async function sendDaemonRequest(
 	});
 }
 
+export type DaemonSubscription = {
+	initial: DaemonEventMap["state"];
+	close: () => void;
+};
+
+/**
+ * Open a long-lived `subscribe` connection. Resolves with the daemon's
+ * initial snapshot; `onEvent` then receives every pushed event (or only
+ * `events`, when given) until the daemon goes away (`onClose`) or
+ * `close()` is called.
+ */
+export function subscribeDaemonEvents(
+	onEvent: (event: IpcEvent) => void,
+	onClose: () => void,
+	options: { events?: DaemonEventName[] | null; timeoutMs?: number } = {},
+): Promise<DaemonSubscription> {
+	const timeoutMs = options.timeoutMs ?? 4000;
+	const { socketPath } = getRuntimePaths();
+
+	return new Promise<DaemonSubscription>((resolve, reject) => {
+		const socket = net.createConnection(socketPath);
+		let subscribed = false;
+		let closedByClient = false;
+		let buffer = "";
+
+		const timer = setTimeout(() => {
+			if (subscribed) return;
+			socket.destroy();
+			reject(
+				new Error(`Timed out waiting for daemon response (${timeoutMs}ms)`),
+			);
+		}, timeoutMs);
+
+		socket.setEncoding("utf8");
+
+		socket.on("connect", () => {
+			const request: IpcRequest = {
+				id: randomUUID(),
+				action: "subscribe",
+				payload: options.events ? { events: options.events } : undefined,
+			};
+			socket.write(`${JSON.stringify(request)}\n`);
+		});
+
+		socket.on("data", (chunk) => {
+			buffer += chunk;
+			let newlineIndex = buffer.indexOf("\n");
+			while (newlineIndex !== -1) {
+				const line = buffer.slice(0, newlineIndex).trim();
+				buffer = buffer.slice(newlineIndex + 1);
+				newlineIndex = buffer.indexOf("\n");
+				if (!line) continue;
+
+				let message: unknown;
+				try {
+					message = JSON.parse(line);
+				} catch {
+					continue;
+				}
+				if (!subscribed) {
+					subscribed = true;
+					clearTimeout(timer);
+					const response = message as IpcResponse;
+					if (!response.ok) {
+						socket.destroy();
+						reject(new Error(response.error ?? "Daemon request failed"));
+						return;
+					}
+					resolve({
+						initial: response.data as DaemonEventMap["state"],
+						close: () => {
+							closedByClient = true;
+							socket.destroy();
+						},
+					});
+					continue;
+				}
+				onEvent(message as IpcEvent);
+			}
+		});
+
+		socket.on("error", (error) => {
+			if (subscribed) return;
+			clearTimeout(timer);
+			reject(error);
+		});
+
+		socket.on("close", () => {
+			if (!subscribed) {
+				clearTimeout(timer);
+				reject(new Error("Daemon connection closed before responding"));
+				return;
+			}
+			if (!closedByClient) onClose();
+		});
+	});
+}
+
 export async function isDaemonResponsive(): Promise<boolean> {
 	try {
 		const response = await sendDaemonRequest("status");
@@ -32,6 +32,14 @@ export function getStateRoot(): string {
 	return path.join(os.homedir(), ".local", "state", "infinitune");
 }
 
+export function getCacheRoot(): string {
+	const xdg = process.env.XDG_CACHE_HOME;
+	if (xdg && xdg.trim().length > 0) {
+		return path.join(xdg, "infinitune");
+	}
+	return path.join(os.homedir(), ".cache", "infinitune");
+}
+
 export function getRuntimeRoot(): string {
 	const xdg = process.env.XDG_RUNTIME_DIR;
 	if (xdg && xdg.trim().length > 0) {
@@ -48,6 +56,8 @@ export type RuntimePaths = {
 	socketPath: string;
 	pidPath: string;
 	logPath: string;
+	// Downloaded audio outlives the daemon, so it sits under the XDG cache dir.
+	audioCacheDir: string;
 };
 
 export function getRuntimePaths(): RuntimePaths {
@@ -61,6 +71,7 @@ export function getRuntimePaths(): RuntimePaths {
 		socketPath,
 		pidPath: path.join(runtimeRoot, "daemon.pid"),
 		logPath: path.join(runtimeRoot, "daemon.log"),
+		audioCacheDir: path.join(getCacheRoot(), "audio"),
 	};
 }
 
@@ -1,5 +1,5 @@
 import type { Playlist } from "@infinitune/shared/types";
-import { getCurrentPlaylist, listPlaylists } from "./api";
+import { type AuthHeaders, getCurrentPlaylist, listPlaylists } from "./api";
 import { pickFromFzf } from "./fzf";
 
 export type ResolvePlaylistOptions = {
@@ -43,8 +43,9 @@ function toPlaylistRoom(playlist: Playlist): PlaylistRoom {
 
 export async function pickPlaylistInteractive(
 	serverUrl: string,
+	headers?: AuthHeaders,
 ): Promise<Playlist> {
-	const playlists = await listPlaylists(serverUrl);
+	const playlists = await listPlaylists(serverUrl, headers);
 	if (playlists.length === 0) {
 		throw new Error("No playlists found on server.");
 	}
@@ -76,8 +77,9 @@ export async function pickPlaylistInteractive(
 export async function resolvePlaylist(
 	serverUrl: string,
 	options: ResolvePlaylistOptions,
+	headers?: AuthHeaders,
 ): Promise<Playlist> {
-	const playlists = await listPlaylists(serverUrl);
+	const playlists = await listPlaylists(serverUrl, headers);
 	if (playlists.length === 0) {
 		throw new Error("No playlists found on server.");
 	}
@@ -104,7 +106,7 @@ export async function resolvePlaylist(
 	}
 
 	if (options.interactivePlaylist === false) {
-		const current = await getCurrentPlaylist(serverUrl);
+		const current = await getCurrentPlaylist(serverUrl, headers);
 		if (!current) {
 			throw new Error(
 				"No current playlist found and interactive mode is disabled.",
@@ -113,7 +115,7 @@ export async function resolvePlaylist(
 		return current;
 	}
 
-	return pickPlaylistInteractive(serverUrl);
+	return pickPlaylistInteractive(serverUrl, headers);
 }
 
 async function pickRoomInteractive(
@@ -0,0 +1,86 @@
+import type { SongData } from "@infinitune/shared/protocol";
+import { describe, expect, it } from "vitest";
+import { renderTuiScreen, type TuiView } from "./tui";
+
+function song(
+	id: string,
+	orderIndex: number,
+	status: string,
+	title?: string,
+): SongData {
+	return { id, orderIndex, status, title, createdAt: orderIndex };
+}
+
+function view(overrides: Partial<TuiView> = {}): TuiView {
+	const current = { ...song("s2", 2, "ready", "Neon"), audioDuration: 200 };
+	return {
+		snapshot: {
+			status: {
+				mode: "room",
+				roomName: "Night Drive",
+				connectionState: "connected",
+				deviceId: "dev-1",
+				devices: [
+					{ id: "dev-1", name: "Desk", role: "player", mode: "default" },
+					{ id: "dev-2", name: "Phone", role: "controller", mode: "default" },
+				],
+				currentSong: current,
+				playback: {
+					currentSongId: "s2",
+					isPlaying: true,
+					currentTime: 60,
+					duration: 200,
+					volume: 0.5,
+					isMuted: false,
+				},
+			},
+			queue: [
+				song("s1", 1, "played", "Old"),
+				current,
+				song("s4", 4, "generating_audio", "Later"),
+				song("s3", 3, "ready", "Next"),
+			],
+		},
+		connected: true,
+		elapsedSeconds: 5,
+		steerInput: null,
+		message: null,
+		...overrides,
+	};
+}
+
+describe("renderTuiScreen", () => {
+	it("shows now playing, upcoming songs with status and devices", () => {
+		const lines = renderTuiScreen(view(), 100, 30);
+
+		expect(lines).toHaveLength(30);
+		expect(lines[0]).toContain("Night Drive");
+		expect(lines[0]).toContain("connected");
+		expect(lines[2]).toContain("Neon");
+		// Position is advanced locally between snapshots.
+		expect(lines[3]).toContain("1:05 / 3:20");
+		const upNext = lines.findIndex((line) => line.startsWith("UP NEXT"));
+		expect(lines[upNext]).toBe("UP NEXT (2)");
+		expect(lines[upNext + 1]).toMatch(/ready\s+Next/);
+		expect(lines[upNext + 2]).toMatch(/rendering\s+Later/);
+		expect(lines.join("\n")).not.toContain("Old");
+		expect(lines).toContain("   * Desk  player");
+	});
+
+	it("fits the frame to small terminals", () => {
+		const lines = renderTuiScreen(view(), 40, 14);
+		expect(lines).toHaveLength(14);
+		expect(lines.every((line) => line.length <= 40)).toBe(true);
+		expect(lines.join("\n")).toContain("… 2 more");
+	});
+
+	it("swaps the key help for the steer prompt while typing", () => {
+		const lines = renderTuiScreen(
+			view({ steerInput: "more brass", connected: false }),
+			100,
+			24,
+		);
+		expect(lines[0]).toContain("daemon unreachable");
+		expect(lines.at(-2)).toBe("steer> more brass█");
+	});
+});
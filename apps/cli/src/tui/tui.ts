@@ -0,0 +1,385 @@
+import readline from "node:readline";
+import { formatTime, isGenerating } from "@infinitune/shared/format-time";
+import type {
+	Device,
+	PlaybackState,
+	SongData,
+} from "@infinitune/shared/protocol";
+import type { SongStatus } from "@infinitune/shared/types";
+import {
+	type DaemonEventMap,
+	type DaemonSubscription,
+	type IpcEvent,
+	sendDaemonRequest,
+	subscribeDaemonEvents,
+} from "../lib/ipc";
+
+const RECONNECT_DELAY_MS = 2000;
+const REDRAW_MS = 500;
+const SEEK_STEP_SECONDS = 10;
+
+const ESC = "\x1b[";
+const ENTER_ALT_SCREEN = "\x1b[?1049h";
+const LEAVE_ALT_SCREEN = "\x1b[?1049l";
+const HIDE_CURSOR = "\x1b[?25l";
+const SHOW_CURSOR = "\x1b[?25h";
+
+const STATUS_LABELS: Record<SongStatus, string> = {
+	pending: "queued",
+	generating_metadata: "writing",
+	metadata_ready: "written",
+	submitting_to_ace: "submitting",
+	generating_audio: "rendering",
+	saving: "saving",
+	ready: "ready",
+	played: "played",
+	error: "failed",
+	retry_pending: "retrying",
+};
+
+export type TuiSnapshot = DaemonEventMap["state"];
+
+export type TuiView = {
+	snapshot: TuiSnapshot | null;
+	connected: boolean;
+	/** Seconds of playback to add since the snapshot arrived. */
+	elapsedSeconds: number;
+	steerInput: string | null;
+	message: string | null;
+};
+
+export type TuiOptions = {
+	volumeStep: number;
+};
+
+function asString(value: unknown): string | null {
+	return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+function songLabel(song: SongData | null | undefined): string {
+	if (!song) return "-";
+	const title = song.title?.trim() || song.id.slice(0, 8);
+	return song.artistName ? `${title} — ${song.artistName}` : title;
+}
+
+function truncate(text: string, width: number): string {
+	if (width <= 0) return "";
+	return text.length > width ? `${text.slice(0, width - 1)}…` : text;
+}
+
+function progressBar(position: number, duration: number, width: number) {
+	const ratio = duration > 0 ? Math.min(1, position / duration) : 0;
+	const filled = Math.round(ratio * width);
+	return `${"█".repeat(filled)}${"░".repeat(Math.max(0, width - filled))}`;
+}
+
+function statusLabel(status: string): string {
+	return STATUS_LABELS[status as SongStatus] ?? status;
+}
+
+/** Upcoming songs after the current one, including those still generating. */
+function upcomingSongs(queue: SongData[], current: SongData | null) {
+	const currentOrder = current?.orderIndex ?? Number.NEGATIVE_INFINITY;
+	return queue
+		.filter(
+			(song) =>
+				song.id !== current?.id &&
+				song.status !== "played" &&
+				(song.orderIndex > currentOrder ||
+					song.isInterrupt ||
+					isGenerating(song.status as SongStatus)),
+		)
+		.sort((a, b) => {
+			if (a.isInterrupt !== b.isInterrupt) return a.isInterrupt ? -1 : 1;
+			return a.orderIndex - b.orderIndex;
+		});
+}
+
+/** Lay out one frame of the TUI; pure so it can be tested without a TTY. */
+export function renderTuiScreen(
+	view: TuiView,
+	width: number,
+	height: number,
+): string[] {
+	const lines: string[] = [];
+	const status = view.snapshot?.status ?? {};
+	const mode = asString(status.mode) ?? "room";
+	const place =
+		mode === "local"
+			? (asString(status.localPlaylistName) ??
+				asString(status.localPlaylistId) ??
+				"-")
+			: (asString(status.roomName) ?? asString(status.roomId) ?? "-");
+	const connection = !view.connected
+		? "daemon unreachable"
+		: mode === "local"
+			? "local playback"
+			: (asString(status.connectionState) ?? "disconnected");
+
+	lines.push(`INFINITUNE  ·  ${mode}  ·  ${place}  ·  ${connection}`);
+	lines.push("─".repeat(width));
+
+	const playback = status.playback as PlaybackState | undefined;
+	const current = (status.currentSong as SongData | null | undefined) ?? null;
+	const duration = playback?.duration || current?.audioDuration || 0;
+	const position = playback
+		? Math.min(
+				duration || Number.POSITIVE_INFINITY,
+				playback.currentTime + (playback.isPlaying ? view.elapsedSeconds : 0),
+			)
+		: 0;
+
+	lines.push(
+		`${playback?.isPlaying ? "▶" : "⏸"}  ${songLabel(current)}${current?.userRating ? `  [${current.userRating === "up" ? "+1" : "-1"}]` : ""}`,
+	);
+	const clock = `${formatTime(position)} / ${formatTime(duration)}`;
+	lines.push(
+		`   ${progressBar(position, duration, Math.max(10, width - clock.length - 6))}  ${clock}`,
+	);
+	const volume = playback
+		? playback.isMuted
+			? "muted"
+			: `${Math.round(playback.volume * 100)}%`
+		: "-";
+	const genre = [current?.genre, current?.mood].filter(Boolean).join(" · ");
+	lines.push(`   volume ${volume}${genre ? `  ·  ${genre}` : ""}`);
+	lines.push("");
+
+	const devices = (status.devices as Device[] | undefined) ?? [];
+	const deviceLines =
+		mode === "room"
+			? [
+					`DEVICES (${devices.length})`,
+					...devices.map(
+						(device) =>
+							`   ${device.id === status.deviceId ? "*" : " "} ${device.name}  ${device.role}${device.mode === "individual" ? " · individual" : ""}`,
+					),
+					"",
+				]
+			: [];
+
+	const footer: string[] = [""];
+	if (view.steerInput !== null) {
+		footer.push(`steer> ${view.steerInput}█`);
+		footer.push("enter send · esc cancel");
+	} else {
+		footer.push(
+			"space play/pause · n skip · ←/→ seek · +/- volume · u/d thumbs · s steer · q quit",
+		);
+		footer.push(view.message ?? asString(status.lastError) ?? "");
+	}
+
+	const upcoming = upcomingSongs(view.snapshot?.queue ?? [], current);
+	const queueRoom = Math.max(
+		1,
+		height - lines.length - deviceLines.length - footer.length - 1,
+	);
+	lines.push(`UP NEXT (${upcoming.length})`);
+	const shown = upcoming.slice(0, queueRoom);
+	for (const song of shown) {
+		const label = statusLabel(song.status).padEnd(10);
+		lines.push(`   ${label} ${song.isInterrupt ? "! " : ""}${songLabel(song)}`);
+	}
+	if (shown.length === 0) lines.push("   nothing queued yet");
+	if (upcoming.length > shown.length) {
+		lines[lines.length - 1] = `   … ${upcoming.length - shown.length + 1} more`;
+	}
+	lines.push("");
+	lines.push(...deviceLines);
+
+	while (lines.length + footer.length < height) lines.push("");
+	lines.push(...footer);
+	return lines.slice(0, height).map((line) => truncate(line, width));
+}
+
+/**
+ * Full-screen player for the running daemon. State arrives over the IPC
+ * event stream; key presses become ordinary daemon actions.
+ */
+export function runTui(options: TuiOptions): Promise<void> {
+	const stdin = process.stdin;
+	const stdout = process.stdout;
+	if (!stdin.isTTY || !stdout.isTTY) {
+		return Promise.reject(new Error("infi tui needs an interactive terminal"));
+	}
+
+	let snapshot: TuiSnapshot | null = null;
+	let receivedAt = Date.now();
+	let subscription: DaemonSubscription | null = null;
+	let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	let steerInput: string | null = null;
+	let message: string | null = null;
+	let closing = false;
+
+	const draw = () => {
+		if (closing) return;
+		const frame = renderTuiScreen(
+			{
+				snapshot,
+				connected: subscription !== null,
+				elapsedSeconds: (Date.now() - receivedAt) / 1000,
+				steerInput,
+				message,
+			},
+			stdout.columns || 80,
+			stdout.rows || 24,
+		);
+		stdout.write(`${ESC}H${frame.join(`${ESC}K\n`)}${ESC}K${ESC}J`);
+	};
+
+	const applySnapshot = (data: unknown) => {
+		if (!data || typeof data !== "object") return;
+		snapshot = data as TuiSnapshot;
+		receivedAt = Date.now();
+		draw();
+	};
+
+	const connect = async () => {
+		reconnectTimer = null;
+		try {
+			const next = await subscribeDaemonEvents(
+				(event: IpcEvent) => {
+					if (event.event === "state") applySnapshot(event.data);
+				},
+				() => {
+					subscription = null;
+					scheduleReconnect();
+					draw();
+				},
+				{ events: ["state"] },
+			);
+			if (closing) {
+				next.close();
+				return;
+			}
+			subscription = next;
+			applySnapshot(next.initial);
+		} catch {
+			scheduleReconnect();
+			draw();
+		}
+	};
+
+	const scheduleReconnect = () => {
+		if (closing || reconnectTimer) return;
+		reconnectTimer = setTimeout(() => {
+			void connect();
+		}, RECONNECT_DELAY_MS);
+	};
+
+	const send = async (
+		action: Parameters<typeof sendDaemonRequest>[0],
+		payload?: Record<string, unknown>,
+		success?: string,
+	) => {
+		try {
+			const response = await sendDaemonRequest(action, payload);
+			message = response.ok
+				? (success ?? null)
+				: (response.error ?? "Daemon request failed");
+		} catch (error) {
+			message = error instanceof Error ? error.message : String(error);
+		}
+		draw();
+	};
+
+	const currentPosition = () => {
+		const playback = snapshot?.status.playback as PlaybackState | undefined;
+		if (!playback) return 0;
+		const elapsed = playback.isPlaying ? (Date.now() - receivedAt) / 1000 : 0;
+		return playback.currentTime + elapsed;
+	};
+
+	return new Promise<void>((resolve) => {
+		const redrawTimer = setInterval(draw, REDRAW_MS);
+
+		const quit = () => {
+			if (closing) return;
+			closing = true;
+			clearInterval(redrawTimer);
+			if (reconnectTimer) clearTimeout(reconnectTimer);
+			subscription?.close();
+			stdin.off("keypress", onKeypress);
+			stdout.off("resize", draw);
+			stdin.setRawMode(false);
+			stdin.pause();
+			stdout.write(`${SHOW_CURSOR}${LEAVE_ALT_SCREEN}`);
+			resolve();
+		};
+
+		const onSteerKey = (str: string | undefined, key: readline.Key) => {
+			if (key.name === "escape") {
+				steerInput = null;
+			} else if (key.name === "return") {
+				const prompt = steerInput?.trim() ?? "";
+				steerInput = null;
+				if (prompt) {
+					message = "Steering…";
+					void send("steer", { prompt }, `Steered: ${prompt}`);
+				}
+			} else if (key.name === "backspace") {
+				steerInput = (steerInput ?? "").slice(0, -1);
+			} else if (str && !key.ctrl && !key.meta && str >= " ") {
+				steerInput = `${steerInput ?? ""}${str}`;
+			}
+			draw();
+		};
+
+		function onKeypress(str: string | undefined, key: readline.Key) {
+			if (key.ctrl && key.name === "c") {
+				quit();
+				return;
+			}
+			if (steerInput !== null) {
+				onSteerKey(str, key);
+				return;
+			}
+			switch (key.name ?? str) {
+				case "q":
+				case "escape":
+					quit();
+					return;
+				case "space":
+					void send("toggle");
+					return;
+				case "n":
+					void send("skip", undefined, "Skipped.");
+					return;
+				case "left":
+				case "right": {
+					const delta =
+						key.name === "left" ? -SEEK_STEP_SECONDS : SEEK_STEP_SECONDS;
+					void send("seek", { time: Math.max(0, currentPosition() + delta) });
+					return;
+				}
+				case "u":
+				case "d":
+					void send(
+						"rate",
+						{ rating: key.name === "u" ? "up" : "down" },
+						`Thumbs ${key.name === "u" ? "up" : "down"} sent.`,
+					);
+					return;
+				case "s":
+					steerInput = "";
+					message = null;
+					draw();
+					return;
+			}
+			if (str === "+" || str === "=" || str === "-") {
+				const delta =
+					str === "-" ? -Math.abs(options.volumeStep) : options.volumeStep;
+				void send("volumeDelta", { delta });
+			}
+		}
+
+		readline.emitKeypressEvents(stdin);
+		stdin.setRawMode(true);
+		stdin.resume();
+		stdin.on("keypress", onKeypress);
+		stdout.on("resize", draw);
+		stdout.write(`${ENTER_ALT_SCREEN}${HIDE_CURSOR}`);
+		draw();
+		void connect();
+	});
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from "vitest";
+import { AceEndpointPool } from "../worker/ace-endpoint-pool";
+
+const endpoints = [
+	{ url: "http://ace-a", name: "a", concurrency: 2 },
+	{ url: "http://ace-b", name: "b", concurrency: 1 },
+];
+
+describe("AceEndpointPool", () => {
+	it("picks the least-loaded endpoint with a free slot", () => {
+		const pool = new AceEndpointPool(endpoints);
+
+		expect(pool.pick()).toBe("http://ace-a");
+		pool.acquire("http://ace-a");
+		// a is at 1/2, b is idle
+		expect(pool.pick()).toBe("http://ace-b");
+		pool.acquire("http://ace-b");
+		expect(pool.pick()).toBe("http://ace-a");
+		pool.acquire("http://ace-a");
+		expect(pool.pick()).toBeNull();
+
+		pool.release("http://ace-b", "completed");
+		expect(pool.pick()).toBe("http://ace-b");
+		expect(pool.getStatus()[1]).toMatchObject({ active: 0, completed: 1 });
+	});
+
+	it("routes to endpoints that advertise the requested model", async () => {
+		const pool = new AceEndpointPool(endpoints, async (url) => ({
+			loadedModel: null,
+			models: url === "http://ace-b" ? ["acestep-v15-xl-turbo"] : ["other"],
+		}));
+		await pool.probeAll();
+
+		expect(pool.pick("acestep-v15-xl-turbo")).toBe("http://ace-b");
+		pool.acquire("http://ace-b");
+		// The only endpoint with the model is full; wait rather than misroute
+		expect(pool.pick("acestep-v15-xl-turbo")).toBeNull();
+		// Nobody lists this one, so any endpoint may load it
+		expect(pool.pick("unlisted-model")).toBe("http://ace-a");
+	});
+
+	it("backs off failing endpoints until the delay passes", () => {
+		const pool = new AceEndpointPool(endpoints);
+		const now = 1_000_000;
+
+		pool.recordFailure("http://ace-a", "HTTP 500", now);
+		expect(pool.pick(undefined, now)).toBe("http://ace-b");
+		expect(pool.pick(undefined, now + 10_000)).toBe("http://ace-a");
+
+		pool.recordFailure("http://ace-a", "HTTP 500", now);
+		expect(pool.getStatus()[0].backoffUntil).toBe(now + 20_000);
+
+		pool.recordSuccess("http://ace-a");
+		expect(pool.getStatus()[0]).toMatchObject({
+			consecutiveFailures: 0,
+			backoffUntil: null,
+			lastError: null,
+		});
+	});
+
+	it("takes unhealthy endpoints out of rotation until a probe succeeds", async () => {
+		let down = true;
+		const probe = vi.fn(async (url: string) => {
+			if (down && url === "http://ace-a") throw new Error("ECONNREFUSED");
+			return { loadedModel: null, models: null };
+		});
+		const pool = new AceEndpointPool(endpoints, probe);
+
+		await pool.probeAll();
+		expect(pool.getStatus()[0]).toMatchObject({
+			healthy: false,
+			lastError: "ECONNREFUSED",
+		});
+		expect(pool.pick(undefined, Number.MAX_SAFE_INTEGER)).toBe("http://ace-b");
+
+		down = false;
+		await pool.probeAll();
+		expect(pool.getStatus()[0]).toMatchObject({ healthy: true });
+		expect(pool.pick()).toBe("http://ace-a");
+	});
+
+	it("keeps removed endpoints until their in-flight tasks finish", () => {
+		const pool = new AceEndpointPool(endpoints);
+		pool.acquire("http://ace-b");
+
+		pool.configure([endpoints[0]]);
+		expect(pool.getStatus().map((e) => e.url)).toEqual([
+			"http://ace-a",
+			"http://ace-b",
+		]);
+		pool.acquire("http://ace-a");
+		pool.acquire("http://ace-a");
+		expect(pool.pick()).toBeNull();
+
+		pool.release("http://ace-b", "completed");
+		expect(pool.getStatus().map((e) => e.url)).toEqual(["http://ace-a"]);
+	});
+});
@@ -85,4 +85,18 @@ describe("submitToAce", () => {
 		expect(payload.dcw_enabled).toBe(false);
 		expect(payload.dcw_mode).toBeUndefined();
 	});
+
+	it("pins the seed only when one is given", async () => {
+		await submitToAce({ ...baseSubmitOptions(), seed: 1234 });
+		await submitToAce(baseSubmitOptions());
+
+		const fetchMock = vi.mocked(fetch);
+		const pinned = JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+		const random = JSON.parse(fetchMock.mock.calls[1][1]?.body as string);
+
+		expect(pinned.seed).toBe(1234);
+		expect(pinned.use_random_seed).toBe(false);
+		expect(random.seed).toBeUndefined();
+		expect(random.use_random_seed).toBeUndefined();
+	});
 });
@@ -10,15 +10,30 @@ vi.mock("../services/user-service", () => ({
 	upsertFromShoo: vi.fn(),
 }));
 
+vi.mock("../services/api-key-service", () => ({
+	isApiKeyToken: (token: string) => token.startsWith("infi_key_"),
+	authenticate: vi.fn(),
+}));
+
+vi.mock("../services/account-service", () => ({
+	authenticateSession: vi.fn(),
+}));
+
 import { getRequestActor, requireUserActor } from "../auth/actor";
 import * as shoo from "../auth/shoo";
+import * as accountService from "../services/account-service";
+import * as apiKeyService from "../services/api-key-service";
 import * as userService from "../services/user-service";
 
-function createContext(authorization?: string): Context {
+function createContext(authorization?: string, cookie?: string): Context {
 	return {
 		req: {
 			header: vi.fn((name: string) =>
-				name === "authorization" ? authorization : undefined,
+				name === "authorization"
+					? authorization
+					: name === "cookie"
+						? cookie
+						: undefined,
 			),
 		},
 	} as unknown as Context;
@@ -72,4 +87,43 @@ describe("auth actor", () => {
 		expect(actor).toEqual({ kind: "anonymous" });
 		expect(vi.mocked(shoo.verifyShooIdToken)).not.toHaveBeenCalled();
 	});
+
+	it("resolves API keys to their owner with the key's scopes", async () => {
+		vi.mocked(apiKeyService.authenticate).mockResolvedValue({
+			user: { id: "usr_db_2", email: null, displayName: "Script" },
+			key: { scopes: ["read", "control"] },
+		} as never);
+
+		const actor = await requireUserActor(createContext("Bearer infi_key_abc"));
+
+		expect(actor).toEqual({
+			kind: "user",
+			userId: "usr_db_2",
+			name: "Script",
+			email: undefined,
+			picture: undefined,
+			scopes: ["read", "control"],
+		});
+		expect(vi.mocked(shoo.verifyShooIdToken)).not.toHaveBeenCalled();
+	});
+
+	it("uses the local session cookie only when local sign-in is enabled", async () => {
+		vi.mocked(accountService.authenticateSession).mockResolvedValue({
+			id: "usr_local",
+			email: null,
+			displayName: "local",
+		} as never);
+		const context = () =>
+			createContext(undefined, "other=1; infinitune_session=infi_ses_abc");
+
+		vi.stubEnv("AUTH_PROVIDERS", "shoo");
+		expect(await requireUserActor(context())).toBe(null);
+
+		vi.stubEnv("AUTH_PROVIDERS", "shoo,local");
+		expect((await requireUserActor(context()))?.userId).toBe("usr_local");
+		expect(vi.mocked(accountService.authenticateSession)).toHaveBeenCalledWith(
+			"infi_ses_abc",
+		);
+		vi.unstubAllEnvs();
+	});
 });
@@ -304,10 +304,16 @@ describe("agent ensemble", () => {
 		});
 	});
 
-	it("normalizes old text providers to openai-codex", () => {
-		expect(normalizeLlmProvider("ollama")).toBe("openai-codex");
+	it("normalizes old text providers", () => {
+		expect(normalizeLlmProvider("ollama")).toBe("openai-compatible");
 		expect(normalizeLlmProvider("openrouter")).toBe("openai-codex");
 		expect(resolveTextLlmProfile({ provider: "ollama", model: "" })).toEqual({
+			provider: "openai-compatible",
+			model: "",
+		});
+		expect(
+			resolveTextLlmProfile({ provider: "openrouter", model: "" }),
+		).toEqual({
 			provider: "openai-codex",
 			model: "gpt-5.2",
 		});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+	computeEnergyCurve,
+	computeWaveformPeaks,
+	describeAnalysisMismatch,
+	estimateBpm,
+	estimateKey,
+} from "../external/audio-analysis";
+
+const SAMPLE_RATE = 11025;
+
+function clickTrack(bpm: number, seconds: number): Float32Array {
+	const samples = new Float32Array(SAMPLE_RATE * seconds);
+	const interval = Math.round((SAMPLE_RATE * 60) / bpm);
+	for (let start = 0; start < samples.length; start += interval) {
+		// Short decaying noise burst, like a kick
+		for (let i = 0; i < 200 && start + i < samples.length; i++) {
+			samples[start + i] = Math.sin(i * 0.7) * Math.exp(-i / 40);
+		}
+	}
+	return samples;
+}
+
+function chord(frequencies: number[], seconds: number): Float32Array {
+	const samples = new Float32Array(SAMPLE_RATE * seconds);
+	for (let i = 0; i < samples.length; i++) {
+		let value = 0;
+		for (const [index, hz] of frequencies.entries()) {
+			// Root a little louder than the other chord tones
+			value +=
+				(index === 0 ? 0.5 : 0.3) *
+				Math.sin((2 * Math.PI * hz * i) / SAMPLE_RATE);
+		}
+		samples[i] = value / frequencies.length;
+	}
+	return samples;
+}
+
+describe("computeWaveformPeaks", () => {
+	it("downsamples to peak amplitude scaled to the loudest slice", () => {
+		const samples = new Float32Array([0.1, -0.2, 0.05, 0.4, -0.1, 0.2]);
+		expect(computeWaveformPeaks(samples, 3)).toEqual([0.5, 1, 0.5]);
+		expect(computeWaveformPeaks(new Float32Array(0))).toEqual([]);
+	});
+});
+
+describe("computeEnergyCurve", () => {
+	it("tracks loudness over time", () => {
+		const samples = new Float32Array(400);
+		samples.fill(0.1, 0, 200);
+		samples.fill(0.5, 200);
+		expect(computeEnergyCurve(samples, 2)).toEqual([0.2, 1]);
+	});
+});
+
+describe("estimateBpm", () => {
+	it("finds the tempo of a steady beat", () => {
+		expect(estimateBpm(clickTrack(120, 20), SAMPLE_RATE)).toBeCloseTo(120, 0);
+		expect(estimateBpm(clickTrack(92, 20), SAMPLE_RATE)).toBeCloseTo(92, 0);
+	});
+
+	it("returns null for clips too short to measure", () => {
+		expect(estimateBpm(new Float32Array(100), SAMPLE_RATE)).toBeNull();
+	});
+});
+
+describe("estimateKey", () => {
+	it("recognizes major and minor triads", () => {
+		// A3, C#4, E4
+		expect(estimateKey(chord([220, 277.18, 329.63], 4), SAMPLE_RATE)).toBe(
+			"A major",
+		);
+		// D4, F4, A4
+		expect(estimateKey(chord([293.66, 349.23, 440], 4), SAMPLE_RATE)).toBe(
+			"D minor",
+		);
+	});
+});
+
+describe("describeAnalysisMismatch", () => {
+	it("accepts half/double time and relative keys", () => {
+		expect(
+			describeAnalysisMismatch(
+				{ bpm: 140, keyScale: "C major" },
+				{ measuredBpm: 70.5, measuredKey: "A minor" },
+			),
+		).toBeNull();
+		expect(
+			describeAnalysisMismatch(
+				{ bpm: 90, keyScale: "Bb major" },
+				{ measuredBpm: 91, measuredKey: "A# major" },
+			),
+		).toBeNull();
+	});
+
+	it("describes tempo and key drift", () => {
+		expect(
+			describeAnalysisMismatch(
+				{ bpm: 128, keyScale: "F# minor" },
+				{ measuredBpm: 100, measuredKey: "C major" },
+			),
+		).toBe(
+			"measured 100 BPM vs requested 128; measured C major vs requested F# minor",
+		);
+	});
+
+	it("skips checks when either side is missing", () => {
+		expect(
+			describeAnalysisMismatch(
+				{ bpm: null, keyScale: "whatever" },
+				{ measuredBpm: 100, measuredKey: "C major" },
+			),
+		).toBeNull();
+	});
+});
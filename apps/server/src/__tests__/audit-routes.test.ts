@@ -0,0 +1,95 @@
+import type { AuditEntryPage } from "@infinitune/shared/audit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+vi.mock("../auth/actor", () => ({
+	requireUserActor: vi.fn().mockResolvedValue(null),
+}));
+
+import { requireUserActor } from "../auth/actor";
+import { auditEvents, playlists, users } from "../db/schema";
+import auditRoutes from "../routes/audit";
+
+async function createUser(subject: string) {
+	const [user] = await getTestDb()
+		.insert(users)
+		.values({ shooSubject: subject })
+		.returning();
+	return user;
+}
+
+async function createPlaylist(ownerUserId: string) {
+	const [playlist] = await getTestDb()
+		.insert(playlists)
+		.values({
+			name: "Night Drive",
+			prompt: "synthwave",
+			llmProvider: "ollama",
+			llmModel: "llama3",
+			ownerUserId,
+		})
+		.returning();
+	return playlist;
+}
+
+async function insertEntry(createdAt: number, playlistId: string | null) {
+	await getTestDb().insert(auditEvents).values({
+		createdAt,
+		actorKind: "user",
+		method: "PATCH",
+		route: "/api/playlists/:id/prompt",
+		action: "playlist.prompt_changed",
+		playlistId,
+	});
+}
+
+beforeEach(() => {
+	setupTestDb();
+	// Outside production, servers without an admin token treat everyone as admin
+	vi.stubEnv("NODE_ENV", "production");
+});
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+	teardownTestDb();
+});
+
+describe("GET /api/audit", () => {
+	it("requires a signed-in user", async () => {
+		const res = await auditRoutes.request("/");
+		expect(res.status).toBe(401);
+	});
+
+	it("shows users only the playlists they manage", async () => {
+		const owner = await createUser("owner");
+		const other = await createUser("other");
+		const own = await createPlaylist(owner.id);
+		const foreign = await createPlaylist(other.id);
+		await insertEntry(1_000, own.id);
+		await insertEntry(2_000, foreign.id);
+		await insertEntry(3_000, null);
+		vi.mocked(requireUserActor).mockResolvedValueOnce({
+			kind: "user",
+			userId: owner.id,
+		});
+
+		const res = await auditRoutes.request("/");
+		expect(res.status).toBe(200);
+		const body = (await res.json()) as AuditEntryPage;
+		expect(body.entries.map((e) => e.playlistId)).toEqual([own.id]);
+	});
+});
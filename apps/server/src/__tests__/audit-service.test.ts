@@ -0,0 +1,150 @@
+import { AUDIT_RETENTION_SETTING } from "@infinitune/shared/audit";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+import { auditEvents, settings } from "../db/schema";
+import * as auditService from "../services/audit-service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function insertEntry(
+	createdAt: number,
+	overrides?: Partial<typeof auditEvents.$inferInsert>,
+) {
+	await getTestDb()
+		.insert(auditEvents)
+		.values({
+			createdAt,
+			actorKind: "user",
+			actorUserId: "user-1",
+			method: "POST",
+			route: "/api/v1/commands",
+			action: "playlist.command",
+			...overrides,
+		});
+}
+
+beforeEach(() => setupTestDb());
+afterEach(() => teardownTestDb());
+
+describe("audit log", () => {
+	it("round-trips before/after values as JSON", async () => {
+		await auditService.record({
+			actorKind: "device",
+			deviceId: "dev-1",
+			deviceName: "Kitchen",
+			method: "PATCH",
+			route: "/api/playlists/pl-1/prompt",
+			action: "playlist.prompt_changed",
+			playlistId: "pl-1",
+			before: { prompt: "lofi" },
+			after: { prompt: "synthwave" },
+		});
+
+		const { entries } = await auditService.list();
+		expect(entries).toHaveLength(1);
+		expect(entries[0]).toMatchObject({
+			actorKind: "device",
+			actorUserId: null,
+			deviceName: "Kitchen",
+			action: "playlist.prompt_changed",
+			before: { prompt: "lofi" },
+			after: { prompt: "synthwave" },
+		});
+	});
+
+	it("filters by action, playlist, actor and device", async () => {
+		await insertEntry(1_000, { playlistId: "pl-1" });
+		await insertEntry(2_000, {
+			action: "settings.changed",
+			actorUserId: "user-2",
+		});
+		await insertEntry(3_000, { playlistId: "pl-2", deviceId: "dev-1" });
+
+		const byAction = await auditService.list({ action: "settings.changed" });
+		expect(byAction.entries.map((e) => e.createdAt)).toEqual([2_000]);
+
+		const byPlaylist = await auditService.list({ playlistId: "pl-1" });
+		expect(byPlaylist.entries.map((e) => e.createdAt)).toEqual([1_000]);
+
+		const byActor = await auditService.list({ actorUserId: "user-1" });
+		expect(byActor.entries.map((e) => e.createdAt)).toEqual([3_000, 1_000]);
+
+		const byDevice = await auditService.list({ deviceId: "dev-1" });
+		expect(byDevice.entries.map((e) => e.createdAt)).toEqual([3_000]);
+
+		const since = await auditService.list({ since: 2_000 });
+		expect(since.entries.map((e) => e.createdAt)).toEqual([3_000, 2_000]);
+	});
+
+	it("pages newest first with a cursor", async () => {
+		for (const createdAt of [1_000, 2_000, 3_000]) {
+			await insertEntry(createdAt);
+		}
+
+		const first = await auditService.list({ limit: 2 });
+		expect(first.entries.map((e) => e.createdAt)).toEqual([3_000, 2_000]);
+		expect(first.nextCursor).not.toBeNull();
+
+		const second = await auditService.list({
+			limit: 2,
+			cursor: first.nextCursor ?? undefined,
+		});
+		expect(second.entries.map((e) => e.createdAt)).toEqual([1_000]);
+		expect(second.nextCursor).toBeNull();
+	});
+
+	it("keeps entries that share a millisecond across pages", async () => {
+		for (const id of ["a", "b", "c"]) {
+			await insertEntry(1_000, { id });
+		}
+
+		const first = await auditService.list({ limit: 2 });
+		const second = await auditService.list({
+			limit: 2,
+			cursor: first.nextCursor ?? undefined,
+		});
+		expect(
+			[...first.entries, ...second.entries].map((entry) => entry.id),
+		).toEqual(["c", "b", "a"]);
+	});
+
+	it("rejects malformed cursors", async () => {
+		await expect(
+			auditService.list({ cursor: "not-a-cursor" }),
+		).rejects.toBeInstanceOf(auditService.InvalidAuditCursorError);
+	});
+
+	it("prunes entries past the configured retention", async () => {
+		const now = 100 * DAY_MS;
+		await insertEntry(now - 10 * DAY_MS);
+		await insertEntry(now - 2 * DAY_MS);
+		await getTestDb()
+			.insert(settings)
+			.values({ key: AUDIT_RETENTION_SETTING, value: "7" });
+
+		expect(await auditService.pruneExpired(now)).toBe(1);
+		const { entries } = await auditService.list();
+		expect(entries.map((e) => e.createdAt)).toEqual([now - 2 * DAY_MS]);
+	});
+
+	it("keeps everything when retention is 0", async () => {
+		await insertEntry(1_000);
+		expect(await auditService.prune(0, 1_000 * DAY_MS)).toBe(0);
+		expect((await auditService.list()).entries).toHaveLength(1);
+	});
+});
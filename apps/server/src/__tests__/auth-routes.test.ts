@@ -0,0 +1,183 @@
+import type { ApiKey, CreatedApiKey } from "@infinitune/shared/auth";
+import { Hono } from "hono";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+import { requireUserActor } from "../auth/actor";
+import { apiKeyScopeGuard, requiredApiKeyScope } from "../auth/scopes";
+import authRoutes from "../routes/auth";
+
+function createApp() {
+	const app = new Hono();
+	app.use("/api/*", apiKeyScopeGuard);
+	app.route("/api/auth", authRoutes);
+	app.get("/api/whoami", async (c) => {
+		const actor = await requireUserActor(c);
+		return c.json({ userId: actor?.userId ?? null, name: actor?.name });
+	});
+	app.post("/api/v1/commands", (c) => c.json({ ok: true }));
+	return app;
+}
+
+function jsonRequest(
+	method: string,
+	body?: unknown,
+	headers: Record<string, string> = {},
+): RequestInit {
+	return {
+		method,
+		headers: { "content-type": "application/json", ...headers },
+		body: body === undefined ? undefined : JSON.stringify(body),
+	};
+}
+
+function sessionCookie(res: Response): string {
+	const header = res.headers.get("set-cookie") ?? "";
+	const match = header.match(/infinitune_session=([^;]*)/);
+	if (!match?.[1]) throw new Error("no session cookie set");
+	return `infinitune_session=${match[1]}`;
+}
+
+beforeEach(() => {
+	setupTestDb();
+	vi.stubEnv("AUTH_PROVIDERS", "shoo,local");
+});
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+	teardownTestDb();
+});
+
+describe("local accounts", () => {
+	it("signs the first account up and then closes sign-up", async () => {
+		const app = createApp();
+		const registered = await app.request(
+			"/api/auth/register",
+			jsonRequest("POST", { username: "Ada", password: "correct horse" }),
+		);
+		expect(registered.status).toBe(201);
+		const cookie = sessionCookie(registered);
+
+		const whoami = await app.request("/api/whoami", { headers: { cookie } });
+		expect(await whoami.json()).toMatchObject({ name: "ada" });
+		const providers = await app.request("/api/auth/providers");
+		expect(await providers.json()).toEqual({
+			providers: ["shoo", "local"],
+			signupOpen: false,
+		});
+
+		const second = await app.request(
+			"/api/auth/register",
+			jsonRequest("POST", { username: "grace", password: "another one" }),
+		);
+		expect(second.status).toBe(403);
+	});
+
+	it("checks passwords and ends sessions on logout", async () => {
+		const app = createApp();
+		await app.request(
+			"/api/auth/register",
+			jsonRequest("POST", { username: "ada", password: "correct horse" }),
+		);
+
+		const wrong = await app.request(
+			"/api/auth/login",
+			jsonRequest("POST", { username: "ada", password: "wrong horse" }),
+		);
+		expect(wrong.status).toBe(401);
+
+		const login = await app.request(
+			"/api/auth/login",
+			jsonRequest("POST", { username: "ADA", password: "correct horse" }),
+		);
+		expect(login.status).toBe(200);
+		const cookie = sessionCookie(login);
+
+		await app.request(
+			"/api/auth/logout",
+			jsonRequest("POST", undefined, { cookie }),
+		);
+		const whoami = await app.request("/api/whoami", { headers: { cookie } });
+		expect(await whoami.json()).toEqual({ userId: null });
+	});
+
+	it("refuses local sign-in when the provider is off", async () => {
+		vi.stubEnv("AUTH_PROVIDERS", "shoo");
+		const res = await createApp().request(
+			"/api/auth/register",
+			jsonRequest("POST", { username: "ada", password: "correct horse" }),
+		);
+		expect(res.status).toBe(404);
+	});
+});
+
+describe("API keys", () => {
+	it("authenticates with a key and enforces its scopes", async () => {
+		const app = createApp();
+		const registered = await app.request(
+			"/api/auth/register",
+			jsonRequest("POST", { username: "ada", password: "correct horse" }),
+		);
+		const cookie = sessionCookie(registered);
+
+		const created = await app.request(
+			"/api/auth/api-keys",
+			jsonRequest("POST", { name: "scripts", scopes: ["read"] }, { cookie }),
+		);
+		expect(created.status).toBe(201);
+		const key = (await created.json()) as CreatedApiKey;
+		expect(key.token).toMatch(/^infi_key_/);
+		const bearer = { authorization: `Bearer ${key.token}` };
+
+		const whoami = await app.request("/api/whoami", { headers: bearer });
+		expect(await whoami.json()).toMatchObject({ name: "ada" });
+
+		const command = await app.request(
+			"/api/v1/commands",
+			jsonRequest("POST", {}, bearer),
+		);
+		expect(command.status).toBe(403);
+		expect(await command.json()).toEqual({
+			error: 'API key lacks the "control" scope',
+		});
+
+		// A read key can't list or mint keys
+		const listed = await app.request("/api/auth/api-keys", { headers: bearer });
+		expect(listed.status).toBe(403);
+
+		const keys = (await (
+			await app.request("/api/auth/api-keys", { headers: { cookie } })
+		).json()) as ApiKey[];
+		expect(keys.map((entry) => entry.id)).toEqual([key.id]);
+		expect(keys[0]).not.toHaveProperty("token");
+
+		await app.request(
+			`/api/auth/api-keys/${key.id}`,
+			jsonRequest("DELETE", undefined, { cookie }),
+		);
+		const revoked = await app.request("/api/whoami", { headers: bearer });
+		expect(revoked.status).toBe(401);
+	});
+
+	it("maps requests to the scope they need", () => {
+		expect(requiredApiKeyScope("GET", "/api/playlists")).toBe("read");
+		expect(requiredApiKeyScope("POST", "/api/v1/commands")).toBe("control");
+		expect(requiredApiKeyScope("POST", "/api/playlists")).toBe("generate");
+		expect(requiredApiKeyScope("PATCH", "/api/settings")).toBe("admin");
+		expect(requiredApiKeyScope("GET", "/api/auth/api-keys")).toBe("admin");
+	});
+});
@@ -0,0 +1,201 @@
+import {
+	commandPermission,
+	roleAllows,
+} from "@infinitune/shared/playlist-roles";
+import { eq } from "drizzle-orm";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+import {
+	filterAccessiblePlaylists,
+	resolvePlaylistRole,
+} from "../auth/playlist-access";
+import { playlistInvites, playlists, users } from "../db/schema";
+import * as collaboratorService from "../services/collaborator-service";
+
+async function createUser(shooSubject: string) {
+	const [row] = await getTestDb()
+		.insert(users)
+		.values({ shooSubject, displayName: shooSubject })
+		.returning();
+	return row;
+}
+
+async function createPlaylist(ownerUserId: string | null) {
+	const [row] = await getTestDb()
+		.insert(playlists)
+		.values({
+			name: "Shared",
+			prompt: "city pop",
+			llmProvider: "anthropic",
+			llmModel: "claude",
+			ownerUserId,
+		})
+		.returning();
+	return row;
+}
+
+beforeEach(() => setupTestDb());
+afterEach(() => teardownTestDb());
+
+describe("playlist roles", () => {
+	it("orders permissions by role", () => {
+		expect(roleAllows("listener", "play")).toBe(true);
+		expect(roleAllows("listener", "steer")).toBe(false);
+		expect(roleAllows("editor", "steer")).toBe(true);
+		expect(roleAllows("editor", "manage")).toBe(false);
+		expect(roleAllows(null, "play")).toBe(false);
+		expect(commandPermission("pause")).toBe("play");
+		expect(commandPermission("rate")).toBe("steer");
+	});
+});
+
+describe("collaborator service", () => {
+	it("grants the invite's role and lists the playlist as shared", async () => {
+		const owner = await createUser("owner");
+		const guest = await createUser("guest");
+		const playlist = await createPlaylist(owner.id);
+		const other = await createPlaylist(owner.id);
+
+		expect(await resolvePlaylistRole(playlist, { userId: guest.id })).toBe(
+			null,
+		);
+
+		const invite = await collaboratorService.createInvite(
+			playlist.id,
+			owner.id,
+			{ role: "editor" },
+		);
+		expect(invite.token).toMatch(/^infi_inv_/);
+		const stored = await collaboratorService.getUsableInvite(invite.token);
+		expect(stored?.id).toBe(invite.id);
+		if (!stored) throw new Error("invite missing");
+
+		expect(
+			await collaboratorService.acceptInvite(stored, playlist, guest.id),
+		).toEqual({ role: "editor" });
+		expect(await resolvePlaylistRole(playlist, { userId: guest.id })).toBe(
+			"editor",
+		);
+		// A device acts with its owner's roles
+		expect(
+			await resolvePlaylistRole(playlist, { deviceOwnerUserId: guest.id }),
+		).toBe("editor");
+		expect(
+			(
+				await filterAccessiblePlaylists({ userId: guest.id }, [playlist, other])
+			).map((entry) => entry.id),
+		).toEqual([playlist.id]);
+
+		const collaborators = await collaboratorService.listCollaborators(playlist);
+		expect(collaborators.map(({ userId, role }) => ({ userId, role }))).toEqual(
+			[
+				{ userId: owner.id, role: "owner" },
+				{ userId: guest.id, role: "editor" },
+			],
+		);
+		expect((await collaboratorService.listInvites(playlist.id))[0]?.uses).toBe(
+			1,
+		);
+	});
+
+	it("never downgrades a collaborator who accepts a weaker invite", async () => {
+		const owner = await createUser("owner");
+		const guest = await createUser("guest");
+		const playlist = await createPlaylist(owner.id);
+		const editorInvite = await collaboratorService.createInvite(
+			playlist.id,
+			owner.id,
+			{ role: "editor" },
+		);
+		const listenerInvite = await collaboratorService.createInvite(
+			playlist.id,
+			owner.id,
+			{ role: "listener" },
+		);
+
+		for (const token of [editorInvite.token, listenerInvite.token]) {
+			const invite = await collaboratorService.getUsableInvite(token);
+			if (!invite) throw new Error("invite missing");
+			await collaboratorService.acceptInvite(invite, playlist, guest.id);
+		}
+
+		expect(
+			await collaboratorService.getCollaboratorRole(playlist.id, [guest.id]),
+		).toBe("editor");
+		expect(
+			await collaboratorService.setCollaboratorRole(
+				playlist.id,
+				guest.id,
+				"listener",
+			),
+		).toMatchObject({ role: "listener" });
+		expect(
+			await collaboratorService.removeCollaborator(playlist.id, guest.id),
+		).toBe(true);
+		expect(await resolvePlaylistRole(playlist, { userId: guest.id })).toBe(
+			null,
+		);
+	});
+
+	it("stops honouring revoked, expired and used-up invites", async () => {
+		const owner = await createUser("owner");
+		const guest = await createUser("guest");
+		const playlist = await createPlaylist(owner.id);
+		const revoked = await collaboratorService.createInvite(
+			playlist.id,
+			owner.id,
+			{ role: "listener" },
+		);
+		const single = await collaboratorService.createInvite(
+			playlist.id,
+			owner.id,
+			{ role: "listener", maxUses: 1 },
+		);
+		const expired = await collaboratorService.createInvite(
+			playlist.id,
+			owner.id,
+			{ role: "listener" },
+		);
+		await getTestDb()
+			.update(playlistInvites)
+			.set({ expiresAt: Date.now() - 1000 })
+			.where(eq(playlistInvites.id, expired.id));
+
+		expect(
+			await collaboratorService.revokeInvite(playlist.id, revoked.id),
+		).toBe(true);
+		const usable = await collaboratorService.getUsableInvite(single.token);
+		if (!usable) throw new Error("invite missing");
+		await collaboratorService.acceptInvite(usable, playlist, guest.id);
+
+		for (const token of [
+			revoked.token,
+			single.token,
+			expired.token,
+			"infi_inv_bogus",
+		]) {
+			expect(await collaboratorService.getUsableInvite(token)).toBe(null);
+		}
+		expect(await collaboratorService.listInvites(playlist.id)).toEqual([]);
+	});
+
+	it("treats playlists without an owner as open to everyone", async () => {
+		const playlist = await createPlaylist(null);
+		expect(await resolvePlaylistRole(playlist, {})).toBe("owner");
+	});
+});
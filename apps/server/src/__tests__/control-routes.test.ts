@@ -10,6 +10,10 @@ vi.mock("../auth/actor", () => ({
 	requireUserActor: vi.fn(),
 }));
 
+vi.mock("../auth/audit", () => ({
+	recordAudit: vi.fn(),
+}));
+
 vi.mock("../services/device-service", () => ({
 	authenticateDeviceToken: vi.fn(),
 	getDeviceById: vi.fn(),
@@ -20,14 +24,20 @@ vi.mock("../services/playlist-service", () => ({
 	getById: vi.fn(),
 }));
 
+vi.mock("../services/collaborator-service", () => ({
+	getCollaboratorRole: vi.fn(),
+}));
+
 vi.mock("../room/room-event-handler", () => ({
 	syncRoom: vi.fn().mockResolvedValue(undefined),
 }));
 
 import * as authActor from "../auth/actor";
+import { recordAudit } from "../auth/audit";
 import { syncRoom } from "../room/room-event-handler";
 import { RoomManager } from "../room/room-manager";
 import { createControlRoutes } from "../routes/control";
+import * as collaboratorService from "../services/collaborator-service";
 import type { DeviceWithCapabilities } from "../services/device-service";
 import * as deviceService from "../services/device-service";
 import * as playlistService from "../services/playlist-service";
@@ -89,6 +99,7 @@ describe("control routes", () => {
 			undefined,
 		);
 		vi.mocked(playlistService.getById).mockResolvedValue(null);
+		vi.mocked(collaboratorService.getCollaboratorRole).mockResolvedValue(null);
 	});
 
 	it("returns 401 for house command when neither user nor device auth is present", async () => {
@@ -261,6 +272,52 @@ describe("control routes", () => {
 		expect(payload.sessions[0]?.roomId).toBe("pl-1");
 	});
 
+	it("lets listeners control playback but not skip on shared playlists", async () => {
+		vi.mocked(authActor.requireUserActor).mockResolvedValue({
+			kind: "user",
+			userId: "user-1",
+		});
+		vi.mocked(playlistService.getById).mockResolvedValue(
+			makePlaylist("pl-2", "user-2"),
+		);
+		vi.mocked(collaboratorService.getCollaboratorRole).mockResolvedValue(
+			"listener",
+		);
+
+		const roomManager = new RoomManager();
+		const room = roomManager.createRoom("pl-2", "Playlist Two", "pl-2");
+		room.playlistId = "pl-2";
+		const handle = vi.spyOn(room, "handleCommand");
+		const app = createApp(roomManager);
+
+		const sessions = await app.request(
+			"http://localhost/api/v1/house/sessions",
+		);
+		const snapshot = HouseSessionsResponseSchema.parse(await sessions.json());
+		expect(snapshot.sessions[0]?.viewerRole).toBe("listener");
+
+		const pause = await postHouseCommand(app, {
+			action: "pause",
+			playlistIds: ["pl-2"],
+		});
+		expect(HouseCommandResponseSchema.parse(await pause.json())).toMatchObject({
+			affectedPlaylistIds: ["pl-2"],
+		});
+
+		const skip = await postHouseCommand(app, {
+			action: "skip",
+			playlistIds: ["pl-2"],
+		});
+		expect(HouseCommandResponseSchema.parse(await skip.json())).toMatchObject({
+			affectedPlaylistIds: [],
+			skippedPlaylistIds: ["pl-2"],
+		});
+		expect(handle).toHaveBeenCalledTimes(1);
+		expect(
+			vi.mocked(collaboratorService.getCollaboratorRole),
+		).toHaveBeenCalledWith("pl-2", ["user-1"]);
+	});
+
 	it("does not materialize/sync playlist session before authorization", async () => {
 		vi.mocked(authActor.requireUserActor).mockResolvedValue(null);
 		vi.mocked(deviceService.authenticateDeviceToken).mockResolvedValue(null);
@@ -364,5 +421,14 @@ describe("control routes", () => {
 			vi.mocked(deviceService.unassignDeviceFromPlaylist),
 		).toHaveBeenCalledWith("pl-1", "dev-2");
 		expect(vi.mocked(syncRoom)).toHaveBeenCalledTimes(1);
+		expect(vi.mocked(recordAudit)).toHaveBeenCalledWith(
+			expect.anything(),
+			{ actor: { kind: "user", userId: "user-1" } },
+			expect.objectContaining({
+				action: "device.unassigned",
+				playlistId: "pl-1",
+				targetId: "dev-2",
+			}),
+		);
 	});
 });
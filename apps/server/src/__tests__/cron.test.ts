@@ -0,0 +1,92 @@
+import {
+	cronFromTime,
+	isValidCron,
+	matchesCron,
+	nextCronTime,
+	parseCron,
+} from "@infinitune/shared/cron";
+import { describe, expect, it } from "vitest";
+
+function parse(expression: string) {
+	const parsed = parseCron(expression);
+	if (!parsed) throw new Error(`Invalid cron: ${expression}`);
+	return parsed;
+}
+
+describe("parseCron", () => {
+	it("accepts lists, ranges, steps and names", () => {
+		const parsed = parse("*/15 7-9 * jan,dec mon-fri");
+		expect([...parsed.minutes]).toEqual([0, 15, 30, 45]);
+		expect([...parsed.hours]).toEqual([7, 8, 9]);
+		expect([...parsed.months]).toEqual([1, 12]);
+		expect([...parsed.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+	});
+
+	it("treats 7 as Sunday", () => {
+		expect([...parse("0 0 * * 7").daysOfWeek]).toEqual([0]);
+	});
+
+	it("rejects malformed expressions", () => {
+		for (const expression of [
+			"",
+			"* * * *",
+			"60 * * * *",
+			"* 24 * * *",
+			"5-1 * * * *",
+			"*/0 * * * *",
+			"0 7 * * funday",
+		]) {
+			expect(isValidCron(expression)).toBe(false);
+		}
+	});
+});
+
+describe("nextCronTime", () => {
+	it("skips to the next matching weekday", () => {
+		// Friday 2026-01-09 08:00 → Monday 07:00
+		const next = nextCronTime(parse("0 7 * * 1-5"), new Date(2026, 0, 9, 8, 0));
+		expect(next).toEqual(new Date(2026, 0, 12, 7, 0));
+	});
+
+	it("is strictly after the reference time", () => {
+		const after = new Date(2026, 0, 12, 7, 0);
+		expect(nextCronTime(parse("0 7 * * *"), after)).toEqual(
+			new Date(2026, 0, 13, 7, 0),
+		);
+	});
+
+	it("ORs day-of-month and day-of-week when both are set", () => {
+		const cron = parse("0 12 1 * 0");
+		// 2026-02-01 is a Sunday, 2026-02-08 a Sunday, 2026-03-01 a Sunday too
+		expect(nextCronTime(cron, new Date(2026, 1, 2))).toEqual(
+			new Date(2026, 1, 8, 12, 0),
+		);
+		expect(matchesCron(cron, new Date(2026, 3, 1, 12, 0))).toBe(true);
+	});
+
+	it("doesn't OR in a day-of-month step that starts with *", () => {
+		const cron = parse("0 7 */2 * 1-5");
+		// Saturday the 17th is an odd day, but not a weekday
+		expect(matchesCron(cron, new Date(2026, 0, 17, 7, 0))).toBe(false);
+		// Monday the 12th is a weekday, but not an odd day
+		expect(matchesCron(cron, new Date(2026, 0, 12, 7, 0))).toBe(true);
+	});
+
+	it("returns null for dates that never occur", () => {
+		expect(nextCronTime(parse("0 0 31 2 *"), new Date(2026, 0, 1))).toBeNull();
+	});
+});
+
+describe("cronFromTime", () => {
+	it("builds expressions from a time and day preset", () => {
+		expect(cronFromTime("07:00", "weekdays")).toBe("0 7 * * 1-5");
+		expect(cronFromTime("21:30")).toBe("30 21 * * *");
+		expect(cronFromTime("9:05", "sat,sun")).toBe("5 9 * * sat,sun");
+	});
+
+	it("rejects bad times and day specs", () => {
+		expect(cronFromTime("25:00")).toBeNull();
+		expect(cronFromTime("7am")).toBeNull();
+		expect(cronFromTime("07:00", "someday")).toBeNull();
+	});
+});
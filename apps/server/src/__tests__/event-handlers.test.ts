@@ -23,6 +23,14 @@ vi.mock("../services/playlist-service", () => ({
 	getByKey: vi.fn(),
 }));
 
+vi.mock("../services/usage-service", () => ({
+	getSongAllowance: vi.fn().mockResolvedValue({
+		allowance: Number.POSITIVE_INFINITY,
+		exceeded: [],
+	}),
+	runWithUsageScope: (_scope: unknown, fn: () => unknown) => fn(),
+}));
+
 vi.mock("../services/settings-service", () => ({
 	getAll: vi.fn().mockResolvedValue({
 		textProvider: "ollama",
@@ -64,6 +72,7 @@ vi.mock("./queues", () => ({
 
 import * as playlistService from "../services/playlist-service";
 import * as songService from "../services/song-service";
+import * as usageService from "../services/usage-service";
 import { _test } from "../worker/index";
 
 const {
@@ -144,6 +153,11 @@ function mockPlaylist(overrides: Record<string, unknown> = {}) {
 		aceAutoDuration: null,
 		description: null,
 		descriptionUpdatedAt: null,
+		importedFromId: null,
+		qualityRetryBudget: null,
+		budgetSongsPerHour: null,
+		budgetTokensPerDay: null,
+		budgetGpuMinutesPerDay: null,
 		...overrides,
 	};
 }
@@ -190,6 +204,43 @@ describe("worker event handlers", () => {
 			});
 		});
 
+		it("caps new songs at the remaining generation budget", async () => {
+			vi.mocked(playlistService.getById).mockResolvedValue(
+				mockPlaylist({ budgetSongsPerHour: 10 }),
+			);
+			vi.mocked(songService.getWorkQueue).mockResolvedValue(
+				mockWorkQueue({ bufferDeficit: 3, maxOrderIndex: 2 }),
+			);
+			vi.mocked(usageService.getSongAllowance).mockResolvedValueOnce({
+				allowance: 1,
+				exceeded: [],
+			});
+
+			await checkBufferDeficit("pl-1");
+
+			expect(songService.createPending).toHaveBeenCalledTimes(1);
+			expect(songService.createPending).toHaveBeenCalledWith("pl-1", 3, {
+				promptEpoch: 0,
+			});
+		});
+
+		it("stops refilling once a budget is spent", async () => {
+			vi.mocked(playlistService.getById).mockResolvedValue(
+				mockPlaylist({ budgetTokensPerDay: 50_000 }),
+			);
+			vi.mocked(songService.getWorkQueue).mockResolvedValue(
+				mockWorkQueue({ bufferDeficit: 2 }),
+			);
+			vi.mocked(usageService.getSongAllowance).mockResolvedValueOnce({
+				allowance: 0,
+				exceeded: ["tokensPerDay"],
+			});
+
+			await checkBufferDeficit("pl-1");
+
+			expect(songService.createPending).not.toHaveBeenCalled();
+		});
+
 		it("does nothing when buffer is full", async () => {
 			vi.mocked(playlistService.getById).mockResolvedValue(mockPlaylist());
 			vi.mocked(songService.getWorkQueue).mockResolvedValue(
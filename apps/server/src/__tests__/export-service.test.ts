@@ -0,0 +1,214 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { crc32 } from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PlaylistWire, SongWire } from "../wire";
+
+const listByPlaylist = vi.fn<(playlistId: string) => Promise<SongWire[]>>();
+
+vi.mock("../services/song-service", () => ({
+	listByPlaylist: (playlistId: string) => listByPlaylist(playlistId),
+}));
+
+vi.mock("../covers", () => ({
+	resolveCoverFile: () => null,
+}));
+
+// ffmpeg isn't available in tests — renumbering is a plain copy.
+vi.mock("../external/tag-mp3", () => ({
+	retagTrackNumber: async (source: string, output: string) => {
+		fs.copyFileSync(source, output);
+	},
+}));
+
+import {
+	buildLrc,
+	buildM3u8,
+	exportArchiveName,
+	listExportTracks,
+	writePlaylistZip,
+} from "../services/export-service";
+
+let storageDir: string;
+
+function makeSong(overrides: Partial<SongWire>): SongWire {
+	return {
+		id: "song",
+		status: "ready",
+		orderIndex: 1,
+		title: "Title",
+		artistName: "Artist",
+		lyrics: null,
+		audioDuration: 120,
+		storagePath: null,
+		cover: null,
+		...overrides,
+	} as SongWire;
+}
+
+function writeSongDir(name: string, withCover = false): string {
+	const dir = path.join(storageDir, name);
+	fs.mkdirSync(dir, { recursive: true });
+	fs.writeFileSync(path.join(dir, "audio.mp3"), `mp3:${name}`);
+	if (withCover) fs.writeFileSync(path.join(dir, "cover.png"), `png:${name}`);
+	return dir;
+}
+
+function readZipEntries(zip: Buffer): Map<string, Buffer> {
+	const eocd = zip.length - 22;
+	expect(zip.readUInt32LE(eocd)).toBe(0x06054b50);
+	const count = zip.readUInt16LE(eocd + 10);
+	let cursor = zip.readUInt32LE(eocd + 16);
+	const entries = new Map<string, Buffer>();
+	for (let i = 0; i < count; i++) {
+		expect(zip.readUInt32LE(cursor)).toBe(0x02014b50);
+		const crc = zip.readUInt32LE(cursor + 16);
+		const size = zip.readUInt32LE(cursor + 20);
+		const nameLength = zip.readUInt16LE(cursor + 28);
+		const offset = zip.readUInt32LE(cursor + 42);
+		const name = zip.toString("utf8", cursor + 46, cursor + 46 + nameLength);
+		const localNameLength = zip.readUInt16LE(offset + 26);
+		const dataStart = offset + 30 + localNameLength;
+		const data = zip.subarray(dataStart, dataStart + size);
+		expect(crc32(data)).toBe(crc);
+		entries.set(name, data);
+		cursor += 46 + nameLength;
+	}
+	return entries;
+}
+
+beforeEach(() => {
+	storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "export-test-"));
+	listByPlaylist.mockReset();
+});
+
+afterEach(() => {
+	fs.rmSync(storageDir, { recursive: true, force: true });
+});
+
+describe("listExportTracks", () => {
+	it("numbers finished songs with audio on disk in playlist order", async () => {
+		listByPlaylist.mockResolvedValue([
+			makeSong({
+				id: "a",
+				title: "First",
+				orderIndex: 1,
+				storagePath: writeSongDir("a"),
+			}),
+			makeSong({ id: "b", status: "generating_audio", orderIndex: 2 }),
+			makeSong({ id: "c", orderIndex: 3, storagePath: "/missing" }),
+			makeSong({
+				id: "d",
+				title: "AC/DC?",
+				status: "played",
+				orderIndex: 4,
+				storagePath: writeSongDir("d", true),
+			}),
+		]);
+
+		const tracks = await listExportTracks("pl");
+
+		expect(tracks.map((t) => [t.trackNumber, t.baseName])).toEqual([
+			[1, "01 - Artist - First"],
+			[2, "02 - Artist - AC_DC_"],
+		]);
+		expect(tracks[1].coverFile).toBe(path.join(storageDir, "d", "cover.png"));
+	});
+});
+
+describe("buildM3u8", () => {
+	it("lists tracks with EXTINF durations", async () => {
+		listByPlaylist.mockResolvedValue([
+			makeSong({
+				id: "a",
+				audioDuration: 61.6,
+				storagePath: writeSongDir("a"),
+			}),
+		]);
+		const tracks = await listExportTracks("pl");
+
+		expect(buildM3u8("Night Drive", tracks)).toBe(
+			"#EXTM3U\n#PLAYLIST:Night Drive\n#EXTINF:62,Artist - Title\n01 - Artist - Title.mp3\n",
+		);
+	});
+});
+
+describe("buildLrc", () => {
+	it("spreads lyric lines over the duration and drops section markers", async () => {
+		listByPlaylist.mockResolvedValue([
+			makeSong({
+				id: "a",
+				audioDuration: 90,
+				lyrics: "[Verse]\nline one\n\nline two\n[Chorus]\nline three",
+				storagePath: writeSongDir("a"),
+			}),
+		]);
+		const [track] = await listExportTracks("pl");
+
+		expect(buildLrc(track, "Album")).toBe(
+			[
+				"[ti:Title]",
+				"[ar:Artist]",
+				"[al:Album]",
+				"[length:01:30]",
+				"[00:00.00]line one",
+				"[00:30.00]line two",
+				"[01:00.00]line three",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("returns null for instrumentals", async () => {
+		listByPlaylist.mockResolvedValue([
+			makeSong({
+				id: "a",
+				lyrics: "[Instrumental]",
+				storagePath: writeSongDir("a"),
+			}),
+		]);
+		const [track] = await listExportTracks("pl");
+		expect(buildLrc(track, "Album")).toBeNull();
+	});
+});
+
+describe("writePlaylistZip", () => {
+	it("writes audio, lyrics, covers and the m3u8 into a valid zip", async () => {
+		listByPlaylist.mockResolvedValue([
+			makeSong({
+				id: "a",
+				lyrics: "hello",
+				storagePath: writeSongDir("a", true),
+			}),
+		]);
+		const tracks = await listExportTracks("pl");
+		const chunks: Uint8Array[] = [];
+
+		await writePlaylistZip(
+			{ id: "pl", name: "Mix", prompt: "mix" } as PlaylistWire,
+			tracks,
+			async (chunk) => chunks.push(chunk),
+		);
+
+		const entries = readZipEntries(Buffer.concat(chunks));
+		expect([...entries.keys()]).toEqual([
+			"01 - Artist - Title.mp3",
+			"01 - Artist - Title.lrc",
+			"01 - Artist - Title.png",
+			"cover.png",
+			"Mix.m3u8",
+			"infinitune.json",
+		]);
+		expect(entries.get("01 - Artist - Title.mp3")?.toString()).toBe("mp3:a");
+	});
+});
+
+describe("exportArchiveName", () => {
+	it("sanitizes the playlist name", () => {
+		expect(exportArchiveName("Lo-fi: beats/study")).toBe(
+			"Lo-fi_ beats_study.zip",
+		);
+		expect(exportArchiveName("  ")).toBe("playlist.zip");
+	});
+});
@@ -0,0 +1,144 @@
+import { eq } from "drizzle-orm";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getTestDb, setupTestDb, teardownTestDb } from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+}));
+
+vi.mock("../events/event-bus", () => ({
+	emit: vi.fn(),
+	on: vi.fn(),
+	removeAllListeners: vi.fn(),
+}));
+
+vi.mock("../room/room-event-handler", () => ({
+	syncRoom: vi.fn().mockResolvedValue(undefined),
+}));
+
+import {
+	devices,
+	houseScheduleRuns,
+	houseSchedules,
+	playlistDeviceAssignments,
+	playlists,
+} from "../db/schema";
+import { findDueSlot, tickHouseSchedules } from "../room/house-scheduler";
+import { RoomManager } from "../room/room-manager";
+import * as scheduleService from "../services/schedule-service";
+
+const MORNING = new Date(2026, 0, 12, 7, 0).getTime(); // a Monday
+const CREATED = MORNING - 24 * 60 * 60 * 1000;
+
+async function seed(status = "active") {
+	const db = getTestDb();
+	const [playlist] = await db
+		.insert(playlists)
+		.values({
+			name: "Morning Jazz",
+			prompt: "smoky jazz",
+			llmProvider: "ollama",
+			llmModel: "llama3",
+			status,
+		})
+		.returning();
+	const [device] = await db
+		.insert(devices)
+		.values({ name: "Kitchen", tokenHash: "hash-kitchen" })
+		.returning();
+	const schedule = await scheduleService.create(null, {
+		name: "Weekday mornings",
+		playlistId: playlist.id,
+		deviceId: device.id,
+		startCron: "0 7 * * 1-5",
+		stopCron: "0 9 * * 1-5",
+		volume: 0.6,
+	});
+	await db
+		.update(houseSchedules)
+		.set({ createdAt: CREATED })
+		.where(eq(houseSchedules.id, schedule.id));
+	return { playlist, device, schedule };
+}
+
+describe("findDueSlot", () => {
+	it("returns the latest slot inside the catch-up window", () => {
+		expect(findDueSlot("* * * * *", MORNING + 30_000, 0)).toBe(MORNING);
+		expect(findDueSlot("0 7 * * *", MORNING + 4 * 60_000, 0)).toBe(MORNING);
+	});
+
+	it("ignores slots that are too old or predate the schedule", () => {
+		expect(findDueSlot("0 7 * * *", MORNING + 10 * 60_000, 0)).toBeNull();
+		expect(findDueSlot("0 7 * * *", MORNING + 60_000, MORNING + 1)).toBeNull();
+		expect(findDueSlot(null, MORNING, 0)).toBeNull();
+	});
+});
+
+describe("tickHouseSchedules", () => {
+	beforeEach(() => {
+		setupTestDb();
+	});
+
+	afterEach(() => {
+		teardownTestDb();
+	});
+
+	it("starts the playlist on the scheduled device once per slot", async () => {
+		const { playlist, device, schedule } = await seed();
+		const roomManager = new RoomManager();
+
+		await tickHouseSchedules(roomManager, MORNING + 20_000);
+		await tickHouseSchedules(roomManager, MORNING + 40_000);
+
+		const [room] = roomManager.getRoomsByPlaylistId(playlist.id);
+		expect(room.playback.isPlaying).toBe(true);
+		expect(room.playback.volume).toBe(0.6);
+
+		const assignments = await getTestDb()
+			.select()
+			.from(playlistDeviceAssignments)
+			.where(eq(playlistDeviceAssignments.deviceId, device.id));
+		expect(assignments).toHaveLength(1);
+		expect(assignments[0].isActive).toBe(true);
+
+		const runs = await getTestDb().select().from(houseScheduleRuns);
+		expect(runs).toEqual([
+			expect.objectContaining({ action: "start", scheduledFor: MORNING }),
+		]);
+		const updated = await scheduleService.getById(schedule.id);
+		expect(updated?.lastStartedAt).not.toBeNull();
+		expect(updated?.lastError).toBeNull();
+	});
+
+	it("stops playback and releases the device at the stop slot", async () => {
+		const { playlist, device } = await seed();
+		const roomManager = new RoomManager();
+		const stopAt = MORNING + 2 * 60 * 60 * 1000;
+
+		await tickHouseSchedules(roomManager, MORNING);
+		await tickHouseSchedules(roomManager, stopAt);
+
+		const [room] = roomManager.getRoomsByPlaylistId(playlist.id);
+		expect(room.playback.isPlaying).toBe(false);
+		const [assignment] = await getTestDb()
+			.select()
+			.from(playlistDeviceAssignments)
+			.where(eq(playlistDeviceAssignments.deviceId, device.id));
+		expect(assignment.isActive).toBe(false);
+	});
+
+	it("records an error instead of reopening a closed playlist", async () => {
+		const { playlist, schedule } = await seed("closed");
+		const roomManager = new RoomManager();
+
+		await tickHouseSchedules(roomManager, MORNING);
+
+		expect(roomManager.getRoomsByPlaylistId(playlist.id)).toHaveLength(0);
+		const updated = await scheduleService.getById(schedule.id);
+		expect(updated?.lastError).toBe("Playlist is closed");
+		const [run] = await getTestDb().select().from(houseScheduleRuns);
+		expect(run.ok).toBe(false);
+	});
+});
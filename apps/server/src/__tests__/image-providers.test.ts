@@ -0,0 +1,113 @@
+import {
+	normalizeImageProvider,
+	parseImageProvider,
+} from "@infinitune/shared/image-providers";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("../external/service-urls", () => ({
+	getServiceUrls: vi.fn(async () => ({
+		aceStepUrl: "http://ace.test",
+		ollamaUrl: "http://ollama.test",
+		comfyuiUrl: "http://comfy.test",
+		a1111Url: "http://a1111.test/",
+	})),
+}));
+
+import { generateCover } from "../external/cover";
+import {
+	getImageProvider,
+	listImageProviders,
+} from "../external/image-providers";
+
+const song = {
+	title: "Night Drive",
+	artistName: "Neon Static",
+	genre: "synthwave",
+	mood: "dreamy",
+	energy: "high",
+};
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe("image provider registry", () => {
+	it("maps legacy ids and rejects unknown ones", () => {
+		expect(normalizeImageProvider("ollama")).toBe("comfyui");
+		expect(normalizeImageProvider("openrouter")).toBe("inference-sh");
+		expect(normalizeImageProvider("Forge")).toBe("a1111");
+		expect(normalizeImageProvider("")).toBe("comfyui");
+		expect(parseImageProvider("midjourney")).toBeNull();
+		expect(() => getImageProvider("midjourney")).toThrow(
+			/Unsupported image provider/,
+		);
+	});
+
+	it("describes every provider with its concurrency and capabilities", () => {
+		const providers = Object.fromEntries(
+			listImageProviders().map((provider) => [provider.id, provider]),
+		);
+		expect(Object.keys(providers)).toEqual([
+			"comfyui",
+			"inference-sh",
+			"codex-imagegen",
+			"a1111",
+			"placeholder",
+		]);
+		expect(providers["inference-sh"].concurrency).toBe(3);
+		expect(providers.a1111.capabilities.modelSelection).toBe(true);
+		expect(providers.placeholder.capabilities).toMatchObject({
+			requiresNetwork: false,
+			deterministic: true,
+		});
+	});
+
+	it("renders the same placeholder record for the same song", async () => {
+		const first = await generateCover({
+			coverPrompt: "neon skyline",
+			provider: "placeholder",
+			song,
+		});
+		const second = await generateCover({
+			coverPrompt: "a different prompt",
+			provider: "placeholder",
+			song,
+		});
+		const other = await generateCover({
+			coverPrompt: "neon skyline",
+			provider: "placeholder",
+			song: { ...song, title: "Day Drive", genre: "country" },
+		});
+
+		expect(first?.format).toBe("png");
+		expect(first?.imageBase64).toBe(second?.imageBase64);
+		expect(first?.imageBase64).not.toBe(other?.imageBase64);
+
+		const png = Buffer.from(first?.imageBase64 ?? "", "base64");
+		expect(png.subarray(1, 4).toString("ascii")).toBe("PNG");
+		expect(png.readUInt32BE(16)).toBe(512);
+		expect(png.readUInt32BE(20)).toBe(512);
+	});
+
+	it("sends A1111 txt2img with a per-request checkpoint override", async () => {
+		const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) =>
+			Response.json({ images: ["data:image/png;base64,aGVsbG8="] }),
+		);
+		vi.stubGlobal("fetch", fetchMock);
+
+		const result = await generateCover({
+			coverPrompt: "neon skyline",
+			provider: "a1111",
+			model: "sdxl_base.safetensors",
+		});
+
+		expect(result).toEqual({ imageBase64: "aGVsbG8=", format: "png" });
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe("http://a1111.test/sdapi/v1/txt2img");
+		const body = JSON.parse(String(init?.body));
+		expect(body.prompt).toContain("neon skyline");
+		expect(body.override_settings).toEqual({
+			sd_model_checkpoint: "sdxl_base.safetensors",
+		});
+	});
+});
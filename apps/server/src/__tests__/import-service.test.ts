@@ -0,0 +1,279 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { crc32, deflateRawSync } from "node:zlib";
+import type { PlaylistArchiveManifest } from "@infinitune/shared/validation/playlist-archive";
+import { eq } from "drizzle-orm";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+const emittedEvents: Array<{ event: string; data: unknown }> = [];
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+vi.mock("../events/event-bus", () => ({
+	emit: (event: string, data: unknown) => {
+		emittedEvents.push({ event, data });
+	},
+	on: vi.fn(),
+	removeAllListeners: vi.fn(),
+}));
+
+vi.mock("../covers", () => ({
+	saveCover: async () => ({
+		cover: { pngUrl: "/covers/imported.png", webpUrl: null, jxlUrl: null },
+		filePaths: { pngPath: null, webpPath: null, jxlPath: null },
+	}),
+}));
+
+import { playlists, songs } from "../db/schema";
+import {
+	DuplicatePlaylistImportError,
+	importPlaylistArchive,
+	PlaylistArchiveError,
+} from "../services/import-service";
+import { ZipWriter } from "../utils/zip";
+
+let storageDir: string;
+
+function makeManifest(
+	overrides?: Partial<PlaylistArchiveManifest>,
+): PlaylistArchiveManifest {
+	return {
+		format: "infinitune-playlist",
+		version: 1,
+		exportedAt: 1,
+		source: { playlistId: "source-playlist" },
+		playlist: {
+			name: "Night Drive",
+			prompt: "synthwave at 2am",
+			llmProvider: "ollama",
+			llmModel: "llama3",
+			mode: "endless",
+			targetBpm: 96,
+			steerHistory: [{ epoch: 1, direction: "more bass", at: 5 }],
+			managerBrief: "keep it moody",
+		},
+		songs: [
+			{
+				sourceId: "song-1",
+				orderIndex: 1,
+				status: "played",
+				title: "Neon",
+				artistName: "Grid Runner",
+				genre: "Synthwave",
+				subGenre: "Darksynth",
+				bpm: 96,
+				keyScale: "A minor",
+				tags: ["night"],
+				userRating: "up",
+				files: { audio: "01 - Grid Runner - Neon.mp3", cover: "01.png" },
+			},
+			{
+				sourceId: "song-2",
+				orderIndex: 2,
+				status: "ready",
+				title: "Ghost",
+				artistName: "Grid Runner",
+				genre: "Synthwave",
+				files: { audio: "02 - Grid Runner - Ghost.mp3" },
+			},
+		],
+		...overrides,
+	};
+}
+
+async function buildArchive(
+	manifest: unknown,
+	files: Record<string, string> = {
+		"01 - Grid Runner - Neon.mp3": "mp3-1",
+		"01.png": "png-1",
+		"02 - Grid Runner - Ghost.mp3": "mp3-2",
+	},
+): Promise<Buffer> {
+	const chunks: Uint8Array[] = [];
+	const zip = new ZipWriter(async (chunk) => chunks.push(chunk));
+	for (const [name, content] of Object.entries(files)) {
+		await zip.addFile(name, Buffer.from(content));
+	}
+	await zip.addFile("infinitune.json", Buffer.from(JSON.stringify(manifest)));
+	await zip.finish();
+	return Buffer.concat(chunks);
+}
+
+/** A one-entry ZIP whose entry is deflated and declares `declaredSize`. */
+function deflatedArchive(
+	name: string,
+	content: Buffer,
+	declaredSize: number,
+	compressed = deflateRawSync(content),
+): Buffer {
+	const nameBuf = Buffer.from(name);
+	const local = Buffer.alloc(30);
+	local.writeUInt32LE(0x04034b50, 0);
+	local.writeUInt16LE(8, 8);
+	local.writeUInt32LE(crc32(content), 14);
+	local.writeUInt32LE(compressed.length, 18);
+	local.writeUInt32LE(declaredSize, 22);
+	local.writeUInt16LE(nameBuf.length, 26);
+	const central = Buffer.alloc(46);
+	central.writeUInt32LE(0x02014b50, 0);
+	central.writeUInt16LE(8, 10);
+	central.writeUInt32LE(crc32(content), 16);
+	central.writeUInt32LE(compressed.length, 20);
+	central.writeUInt32LE(declaredSize, 24);
+	central.writeUInt16LE(nameBuf.length, 28);
+	const centralStart = local.length + nameBuf.length + compressed.length;
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(0x06054b50, 0);
+	end.writeUInt16LE(1, 8);
+	end.writeUInt16LE(1, 10);
+	end.writeUInt32LE(central.length + nameBuf.length, 12);
+	end.writeUInt32LE(centralStart, 16);
+	return Buffer.concat([local, nameBuf, compressed, central, nameBuf, end]);
+}
+
+describe("import-service", () => {
+	beforeEach(() => {
+		setupTestDb();
+		emittedEvents.length = 0;
+		storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "import-test-"));
+		vi.stubEnv("MUSIC_STORAGE_PATH", storageDir);
+	});
+
+	afterEach(() => {
+		teardownTestDb();
+		vi.unstubAllEnvs();
+		fs.rmSync(storageDir, { recursive: true, force: true });
+	});
+
+	it("recreates the playlist and songs with new IDs", async () => {
+		const result = await importPlaylistArchive(
+			await buildArchive(makeManifest()),
+		);
+
+		expect(result.importedSongs).toBe(2);
+		expect(result.failures).toEqual([]);
+		expect(result.playlistId).not.toBe("source-playlist");
+
+		const db = getTestDb();
+		const [playlist] = await db
+			.select()
+			.from(playlists)
+			.where(eq(playlists.id, result.playlistId));
+		expect(playlist.importedFromId).toBe("source-playlist");
+		expect(playlist.targetBpm).toBe(96);
+		expect(JSON.parse(playlist.steerHistory ?? "[]")).toEqual([
+			{ epoch: 1, direction: "more bass", at: 5 },
+		]);
+
+		const rows = await db
+			.select()
+			.from(songs)
+			.where(eq(songs.playlistId, result.playlistId));
+		const neon = rows.find((row) => row.title === "Neon");
+		expect(neon?.id).not.toBe("song-1");
+		expect(neon?.status).toBe("played");
+		expect(neon?.userRating).toBe("up");
+		expect(neon?.coverUrl).toBe("/covers/imported.png");
+		expect(neon?.audioUrl).toBe(`/api/songs/${neon?.id}/audio`);
+		expect(
+			fs.readFileSync(path.join(neon?.storagePath ?? "", "audio.mp3"), "utf8"),
+		).toBe("mp3-1");
+
+		expect(emittedEvents.map((e) => e.event)).toEqual([
+			"playlist.created",
+			"song.created",
+			"song.created",
+		]);
+	});
+
+	it("imports as a temporary playlist when given an expiry", async () => {
+		const result = await importPlaylistArchive(
+			await buildArchive(makeManifest()),
+			{ expiresAt: 9_000 },
+		);
+
+		const [playlist] = await getTestDb()
+			.select()
+			.from(playlists)
+			.where(eq(playlists.id, result.playlistId));
+		expect(playlist).toMatchObject({
+			ownerUserId: null,
+			isTemporary: true,
+			expiresAt: 9_000,
+		});
+	});
+
+	it("rejects importing the same source playlist twice", async () => {
+		const archive = await buildArchive(makeManifest());
+		await importPlaylistArchive(archive);
+
+		await expect(importPlaylistArchive(archive)).rejects.toThrow(
+			DuplicatePlaylistImportError,
+		);
+	});
+
+	it("reports songs that could not be restored", async () => {
+		const result = await importPlaylistArchive(
+			await buildArchive(makeManifest(), {
+				"01 - Grid Runner - Neon.mp3": "mp3-1",
+			}),
+		);
+
+		expect(result.importedSongs).toBe(1);
+		const [playlist] = await getTestDb()
+			.select()
+			.from(playlists)
+			.where(eq(playlists.id, result.playlistId));
+		expect(playlist).toMatchObject({ status: "closed", songsGenerated: 1 });
+		expect(result.failures).toEqual([
+			{
+				sourceId: "song-2",
+				title: "Ghost",
+				error: "Missing audio file 02 - Grid Runner - Ghost.mp3",
+			},
+		]);
+	});
+
+	it("rejects archives with an invalid manifest", async () => {
+		await expect(
+			importPlaylistArchive(await buildArchive({ format: "something-else" })),
+		).rejects.toThrow(PlaylistArchiveError);
+		await expect(
+			importPlaylistArchive(Buffer.from("not a zip")),
+		).rejects.toThrow(PlaylistArchiveError);
+	});
+
+	it("rejects corrupt deflate data and entries that inflate past their size", async () => {
+		const manifest = Buffer.from(JSON.stringify(makeManifest()));
+		await expect(
+			importPlaylistArchive(
+				deflatedArchive(
+					"infinitune.json",
+					manifest,
+					manifest.length,
+					Buffer.from("not deflate data"),
+				),
+			),
+		).rejects.toThrow(PlaylistArchiveError);
+
+		// 8 MB of zeros claiming to be 1 KB
+		const bomb = Buffer.alloc(8 * 1024 * 1024);
+		await expect(
+			importPlaylistArchive(deflatedArchive("infinitune.json", bomb, 1024)),
+		).rejects.toThrow(PlaylistArchiveError);
+	});
+});
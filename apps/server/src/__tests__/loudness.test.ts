@@ -0,0 +1,101 @@
+import {
+	computePlaylistGain,
+	computeReplayGain,
+	gainToVolumeScale,
+	normalizeLoudnessMode,
+	resolveGainDb,
+} from "@infinitune/shared/loudness";
+import { describe, expect, it } from "vitest";
+import { parseLoudnormStats } from "../external/audio-processing";
+
+describe("computeReplayGain", () => {
+	it("levels the track to the target loudness", () => {
+		expect(computeReplayGain(-10, -6)).toBe(-6);
+		expect(computeReplayGain(-20, -10)).toBe(4);
+	});
+
+	it("never lets the gain push the true peak past the ceiling", () => {
+		expect(computeReplayGain(-22, -3)).toBe(2);
+	});
+});
+
+describe("computePlaylistGain", () => {
+	it("uses the energy-averaged loudness and the loudest peak", () => {
+		// -10 and -20 LUFS average to about -12.6 LUFS in energy terms
+		expect(
+			computePlaylistGain([
+				{ loudnessLufs: -10, truePeakDbtp: -4 },
+				{ loudnessLufs: -20, truePeakDbtp: -12 },
+			]),
+		).toBe(-3.4);
+	});
+
+	it("ignores unmeasured songs", () => {
+		expect(computePlaylistGain([{ loudnessLufs: null }])).toBeNull();
+		expect(
+			computePlaylistGain([{}, { loudnessLufs: -16, truePeakDbtp: -5 }]),
+		).toBe(0);
+	});
+});
+
+describe("resolveGainDb", () => {
+	const song = { replayGainDb: -5 };
+
+	it("picks the track or playlist gain for the mode", () => {
+		expect(resolveGainDb("off", song, -3)).toBeNull();
+		expect(resolveGainDb("track", song, -3)).toBe(-5);
+		expect(resolveGainDb("playlist", song, -3)).toBe(-3);
+		expect(resolveGainDb("playlist", song, null)).toBe(-5);
+	});
+
+	it("leaves unmeasured songs alone", () => {
+		expect(resolveGainDb("playlist", {}, -3)).toBeNull();
+	});
+
+	it("defaults unknown settings to track mode", () => {
+		expect(normalizeLoudnessMode(undefined)).toBe("track");
+		expect(normalizeLoudnessMode("PLAYLIST")).toBe("playlist");
+		expect(normalizeLoudnessMode("album")).toBe("track");
+	});
+});
+
+describe("gainToVolumeScale", () => {
+	it("attenuates but never boosts", () => {
+		expect(gainToVolumeScale(-6)).toBeCloseTo(0.501, 3);
+		expect(gainToVolumeScale(3)).toBe(1);
+		expect(gainToVolumeScale(null)).toBe(1);
+	});
+});
+
+describe("parseLoudnormStats", () => {
+	it("reads the JSON block from ffmpeg's stderr", () => {
+		const stderr = [
+			"Input #0, mp3, from 'audio.mp3':",
+			"  Duration: 00:03:00.00, start: 0.000000, bitrate: 320 kb/s",
+			"[Parsed_loudnorm_0 @ 0x55d5c8] ",
+			"{",
+			'\t"input_i" : "-9.87",',
+			'\t"input_tp" : "-0.42",',
+			'\t"input_lra" : "5.10",',
+			'\t"input_thresh" : "-20.01",',
+			'\t"output_i" : "-16.02",',
+			'\t"output_tp" : "-6.55",',
+			'\t"output_lra" : "5.00",',
+			'\t"output_thresh" : "-26.12",',
+			'\t"normalization_type" : "linear",',
+			'\t"target_offset" : "0.02"',
+			"}",
+		].join("\n");
+
+		const stats = parseLoudnormStats(stderr);
+		expect(stats?.input_i).toBe("-9.87");
+		expect(stats?.normalization_type).toBe("linear");
+	});
+
+	it("returns null for silent or unparseable output", () => {
+		expect(parseLoudnormStats("no json here")).toBeNull();
+		expect(
+			parseLoudnormStats('{ "input_i" : "-inf", "input_tp" : "-inf" }'),
+		).toBeNull();
+	});
+});
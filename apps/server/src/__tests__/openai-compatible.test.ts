@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import z from "zod";
+import {
+	type OpenAiCompatibleConfig,
+	openAiCompatibleCompleteObject,
+	openAiCompatibleCompleteText,
+	resolveDefaultOpenAiCompatibleModel,
+} from "../external/openai-compatible";
+
+const config: OpenAiCompatibleConfig = {
+	baseUrl: "http://llm.test/v1",
+	apiKey: "sk-local",
+	models: ["qwen3:14b"],
+};
+
+const SongSchema = z.object({ title: z.string(), bpm: z.number() });
+
+const fetchMock = vi.fn();
+
+function requestBody(call: number) {
+	return JSON.parse(fetchMock.mock.calls[call][1].body as string);
+}
+
+function reply(message: Record<string, unknown>) {
+	fetchMock.mockResolvedValueOnce(
+		Response.json({ choices: [{ message }] }, { status: 200 }),
+	);
+}
+
+const request = {
+	config,
+	model: "qwen3:14b",
+	system: "You write songs.",
+	prompt: "Something upbeat",
+};
+
+describe("OpenAI-compatible client", () => {
+	beforeEach(() => {
+		fetchMock.mockReset();
+		vi.stubGlobal("fetch", fetchMock);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it("sends chat completions with the API key", async () => {
+		reply({ content: "  hello  " });
+
+		await expect(openAiCompatibleCompleteText(request)).resolves.toBe("hello");
+
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe("http://llm.test/v1/chat/completions");
+		expect(init.headers.Authorization).toBe("Bearer sk-local");
+		expect(requestBody(0)).toMatchObject({
+			model: "qwen3:14b",
+			messages: [
+				{ role: "system", content: "You write songs." },
+				{ role: "user", content: "Something upbeat" },
+			],
+		});
+	});
+
+	it("requests a JSON schema response format", async () => {
+		reply({ content: '```json\n{"title":"Glow","bpm":124}\n```' });
+
+		await expect(
+			openAiCompatibleCompleteObject({
+				...request,
+				schema: SongSchema,
+				schemaName: "song metadata",
+			}),
+		).resolves.toEqual({ title: "Glow", bpm: 124 });
+
+		expect(requestBody(0).response_format).toMatchObject({
+			type: "json_schema",
+			json_schema: { name: "song_metadata" },
+		});
+	});
+
+	it("falls back to a forced tool call when json_schema is rejected", async () => {
+		fetchMock.mockResolvedValueOnce(
+			new Response("response_format not supported", { status: 400 }),
+		);
+		reply({
+			content: null,
+			tool_calls: [
+				{
+					function: {
+						name: "song",
+						arguments: '{"title":"Tide","bpm":90}',
+					},
+				},
+			],
+		});
+
+		await expect(
+			openAiCompatibleCompleteObject({
+				...request,
+				schema: SongSchema,
+				schemaName: "song",
+			}),
+		).resolves.toEqual({ title: "Tide", bpm: 90 });
+
+		expect(requestBody(1)).toMatchObject({
+			tool_choice: { type: "function", function: { name: "song" } },
+		});
+		expect(requestBody(1).response_format).toBeUndefined();
+	});
+
+	it("does not retry server errors", async () => {
+		fetchMock.mockResolvedValueOnce(
+			new Response("overloaded", { status: 503 }),
+		);
+
+		await expect(
+			openAiCompatibleCompleteObject({ ...request, schema: SongSchema }),
+		).rejects.toThrow("HTTP 503");
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it("defaults to the first served model when none is configured", async () => {
+		await expect(resolveDefaultOpenAiCompatibleModel(config)).resolves.toBe(
+			"qwen3:14b",
+		);
+		expect(fetchMock).not.toHaveBeenCalled();
+
+		fetchMock.mockResolvedValueOnce(
+			Response.json({ data: [{ id: "llama3.1:8b" }] }, { status: 200 }),
+		);
+		const unconfigured = { ...config, models: [] };
+		await expect(
+			resolveDefaultOpenAiCompatibleModel(unconfigured),
+		).resolves.toBe("llama3.1:8b");
+		expect(fetchMock.mock.calls[0][0]).toBe("http://llm.test/v1/models");
+
+		fetchMock.mockRejectedValueOnce(new Error("connection refused"));
+		await expect(
+			resolveDefaultOpenAiCompatibleModel(unconfigured),
+		).rejects.toThrow(/No model configured/);
+	});
+});
@@ -0,0 +1,198 @@
+import { eq } from "drizzle-orm";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+vi.mock("../events/event-bus", () => ({
+	emit: vi.fn(),
+	on: vi.fn(),
+	removeAllListeners: vi.fn(),
+}));
+
+vi.mock("../auth/actor", () => ({
+	getRequestActor: vi.fn().mockResolvedValue({ kind: "anonymous" }),
+	requireUserActor: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock("../auth/audit", () => ({
+	recordAudit: vi.fn(),
+}));
+
+vi.mock("../services/device-service", () => ({
+	authenticateDeviceToken: vi.fn(),
+}));
+
+import { recordAudit } from "../auth/audit";
+import { playlists, users } from "../db/schema";
+import playlistRoutes from "../routes/playlists";
+import * as deviceService from "../services/device-service";
+
+const DEVICE_TOKEN = "device-token";
+let ownerId: string;
+
+async function createOwner() {
+	const [user] = await getTestDb()
+		.insert(users)
+		.values({ shooSubject: "owner" })
+		.returning();
+	return user;
+}
+
+async function createPlaylist(ownerUserId: string | null, status = "active") {
+	const [playlist] = await getTestDb()
+		.insert(playlists)
+		.values({
+			name: "Night Drive",
+			prompt: "synthwave",
+			llmProvider: "ollama",
+			llmModel: "llama3",
+			mode: "endless",
+			status,
+			songsGenerated: 0,
+			promptEpoch: 2,
+			currentOrderIndex: 4,
+			ownerUserId,
+		})
+		.returning();
+	return playlist;
+}
+
+function request(
+	path: string,
+	method: string,
+	body?: Record<string, unknown>,
+	withToken = true,
+) {
+	return playlistRoutes.request(`http://localhost${path}`, {
+		method,
+		headers: {
+			"content-type": "application/json",
+			...(withToken ? { "x-device-token": DEVICE_TOKEN } : {}),
+		},
+		body: body ? JSON.stringify(body) : undefined,
+	});
+}
+
+beforeEach(async () => {
+	setupTestDb();
+	const owner = await createOwner();
+	ownerId = owner.id;
+	vi.mocked(deviceService.authenticateDeviceToken).mockImplementation(
+		async (token) =>
+			token === DEVICE_TOKEN
+				? ({ id: "dev-1", name: "Desk", ownerUserId: owner.id } as never)
+				: null,
+	);
+});
+
+afterEach(() => {
+	teardownTestDb();
+	vi.clearAllMocks();
+});
+
+describe("playlist routes with a device token", () => {
+	it("steers the owner's playlist and returns the new epoch", async () => {
+		const playlist = await createPlaylist(ownerId);
+
+		const denied = await request(
+			`/${playlist.id}/prompt`,
+			"PATCH",
+			{ prompt: "more brass" },
+			false,
+		);
+		expect(denied.status).toBe(404);
+
+		const response = await request(`/${playlist.id}/prompt`, "PATCH", {
+			prompt: "more brass",
+		});
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ ok: true, promptEpoch: 3 });
+		expect(vi.mocked(recordAudit).mock.calls[0][1]).toMatchObject({
+			device: { id: "dev-1" },
+		});
+	});
+
+	it("queues a request as an interrupt after the current song", async () => {
+		const playlist = await createPlaylist(null);
+
+		const response = await request(`/${playlist.id}/requests`, "POST", {
+			prompt: "  a sea shanty about rain  ",
+		});
+		expect(response.status).toBe(201);
+		expect(await response.json()).toMatchObject({
+			playlistId: playlist.id,
+			status: "pending",
+			isInterrupt: true,
+			interruptPrompt: "a sea shanty about rain",
+			orderIndex: 4.5,
+			promptEpoch: 2,
+		});
+	});
+
+	it("refuses requests on closed playlists", async () => {
+		const playlist = await createPlaylist(null, "closed");
+		const response = await request(`/${playlist.id}/requests`, "POST", {
+			prompt: "anything",
+		});
+		expect(response.status).toBe(409);
+	});
+
+	it("closes the owner's playlist but can't manage it", async () => {
+		const playlist = await createPlaylist(ownerId);
+
+		const closed = await request(`/${playlist.id}/status`, "PATCH", {
+			status: "closed",
+		});
+		expect(closed.status).toBe(200);
+		const reopened = await request(`/${playlist.id}/status`, "PATCH", {
+			status: "active",
+		});
+		expect(reopened.status).toBe(403);
+		const budget = await request(`/${playlist.id}/params`, "PATCH", {
+			budgetSongsPerHour: 100,
+		});
+		expect(budget.status).toBe(403);
+		const deleted = await request(`/${playlist.id}`, "DELETE");
+		expect(deleted.status).toBe(403);
+		const invites = await request(`/${playlist.id}/invites`, "GET");
+		expect(invites.status).toBe(403);
+	});
+
+	it("creates playlists owned by the device's owner", async () => {
+		const response = await request("/", "POST", {
+			name: "From the terminal",
+			prompt: "dub techno",
+			llmProvider: "ollama",
+			llmModel: "llama3",
+		});
+		expect(response.status).toBe(200);
+		const created = (await response.json()) as { id: string };
+		const [row] = await getTestDb()
+			.select()
+			.from(playlists)
+			.where(eq(playlists.id, created.id));
+		expect(row).toMatchObject({ ownerUserId: ownerId, isTemporary: false });
+
+		const listed = (await (await request("/", "GET")).json()) as Array<{
+			id: string;
+		}>;
+		expect(listed.map((playlist) => playlist.id)).toContain(created.id);
+		const anonymous = (await (
+			await request("/", "GET", undefined, false)
+		).json()) as Array<{ id: string }>;
+		expect(anonymous.map((playlist) => playlist.id)).not.toContain(created.id);
+	});
+});
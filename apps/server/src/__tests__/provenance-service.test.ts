@@ -0,0 +1,197 @@
+import type { AceRenderInputs } from "@infinitune/shared/provenance";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+vi.mock("../events/event-bus", () => ({
+	emit: vi.fn(),
+	on: vi.fn(),
+	removeAllListeners: vi.fn(),
+}));
+
+import { playlists, songs } from "../db/schema";
+import * as provenanceService from "../services/provenance-service";
+import * as songService from "../services/song-service";
+
+const ACE_INPUTS: AceRenderInputs = {
+	lyrics: "[Verse]\nneon lights",
+	caption: "dark synthwave, pulsing bass",
+	vocalStyle: "breathy female",
+	bpm: 96,
+	keyScale: "A minor",
+	timeSignature: "4/4",
+	audioDuration: 180,
+	aceModel: "acestep-v15-turbo",
+	inferenceSteps: 8,
+};
+
+async function createFinishedSong() {
+	const db = getTestDb();
+	const [playlist] = await db
+		.insert(playlists)
+		.values({
+			name: "Test Playlist",
+			prompt: "test prompt",
+			llmProvider: "ollama",
+			llmModel: "llama3",
+			mode: "endless",
+			status: "active",
+			songsGenerated: 0,
+			promptEpoch: 0,
+		})
+		.returning();
+	const [song] = await db
+		.insert(songs)
+		.values({
+			playlistId: playlist.id,
+			orderIndex: 1,
+			status: "played",
+			title: "Neon",
+			artistName: "Grid Runner",
+			lyrics: ACE_INPUTS.lyrics,
+			caption: ACE_INPUTS.caption,
+			bpm: 96,
+			keyScale: "A minor",
+			timeSignature: "4/4",
+			audioDuration: 180,
+			coverUrl: "/covers/neon.png",
+		})
+		.returning();
+	return song;
+}
+
+async function recordFullRun(songId: string) {
+	await provenanceService.recordMetadata(songId, {
+		prompt: "late night drives",
+		promptEpoch: 2,
+		steerDirection: "more brass",
+		promptContract: {
+			distance: "general",
+			profile: "balanced",
+			mode: "full",
+			temperature: 0.7,
+		},
+		llmProvider: "ollama",
+		llmModel: "llama3",
+		processingMs: 1_200,
+	});
+	await provenanceService.recordCover(songId, {
+		coverPrompt: "neon skyline",
+		provider: "comfyui",
+		processingMs: 900,
+	});
+	await provenanceService.recordAudioSubmission(songId, ACE_INPUTS, 4242);
+	await provenanceService.recordCompletion(songId, 30_000);
+}
+
+beforeEach(() => setupTestDb());
+afterEach(() => teardownTestDb());
+
+describe("song provenance", () => {
+	it("merges each stage into one record", async () => {
+		const song = await createFinishedSong();
+		await recordFullRun(song.id);
+
+		const record = await provenanceService.getBySongId(song.id);
+		expect(record).toMatchObject({
+			sourceSongId: null,
+			prompt: "late night drives",
+			promptEpoch: 2,
+			steerDirection: "more brass",
+			promptContract: { distance: "general", temperature: 0.7 },
+			coverPrompt: "neon skyline",
+			coverProvider: "comfyui",
+			aceInputs: ACE_INPUTS,
+			aceSeed: 4242,
+			timings: { metadataMs: 1_200, coverMs: 900, audioMs: 30_000 },
+		});
+		expect(record?.timings.completedAt).toEqual(expect.any(Number));
+	});
+
+	it("drops stale render inputs when metadata is regenerated", async () => {
+		const song = await createFinishedSong();
+		await recordFullRun(song.id);
+		await provenanceService.recordMetadata(song.id, {
+			prompt: "late night drives",
+			promptEpoch: 3,
+			steerDirection: null,
+			promptContract: {
+				distance: "general",
+				profile: "balanced",
+				mode: "full",
+				temperature: 0.7,
+			},
+			llmProvider: "ollama",
+			llmModel: "llama3",
+			processingMs: 800,
+		});
+
+		const record = await provenanceService.getBySongId(song.id);
+		expect(record).toMatchObject({
+			promptEpoch: 3,
+			aceInputs: null,
+			aceSeed: null,
+			coverPrompt: "neon skyline",
+		});
+		expect(await provenanceService.canRegenerate(song.id)).toBe(false);
+	});
+
+	it("picks the last steer entry for an epoch", () => {
+		const history = [
+			{ epoch: 1, direction: "slower" },
+			{ epoch: 2, direction: "more brass" },
+			{ epoch: 2, direction: "less brass" },
+		];
+		expect(provenanceService.steerDirectionAt(history, 2)).toBe("less brass");
+		expect(provenanceService.steerDirectionAt(history, 0)).toBeNull();
+		expect(provenanceService.steerDirectionAt(undefined, 1)).toBeNull();
+	});
+
+	it("pins render inputs only for regenerated songs", async () => {
+		const song = await createFinishedSong();
+		await recordFullRun(song.id);
+		expect(await provenanceService.getPinnedAceRender(song.id)).toBeNull();
+
+		const child = await songService.createVariation(song.id, {
+			mode: "regenerate",
+		});
+		expect(child).toMatchObject({
+			status: "metadata_ready",
+			parentSongId: song.id,
+			variationMode: "regenerate",
+			lyrics: ACE_INPUTS.lyrics,
+			caption: ACE_INPUTS.caption,
+		});
+
+		const childId = child?.id ?? "";
+		expect(await provenanceService.getPinnedAceRender(childId)).toEqual({
+			inputs: ACE_INPUTS,
+			seed: 4242,
+		});
+		expect(await provenanceService.getBySongId(childId)).toMatchObject({
+			sourceSongId: song.id,
+			prompt: "late night drives",
+			timings: {},
+		});
+	});
+
+	it("refuses to regenerate songs without recorded inputs", async () => {
+		const song = await createFinishedSong();
+		await expect(
+			songService.createVariation(song.id, { mode: "regenerate" }),
+		).rejects.toBeInstanceOf(songService.SongVariationError);
+	});
+});
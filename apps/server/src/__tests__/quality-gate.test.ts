@@ -0,0 +1,121 @@
+import {
+	evaluateQuality,
+	formatQualityFailure,
+	isQualityFailure,
+	QUALITY_GATE_DEFAULTS,
+	QUALITY_GATE_SETTINGS,
+	resolveQualityGateConfig,
+} from "@infinitune/shared/quality-gate";
+import { describe, expect, it } from "vitest";
+import {
+	computeClippingRatio,
+	computeSilenceRatio,
+} from "../external/audio-analysis";
+
+const SAMPLE_RATE = 11025;
+
+function tone(seconds: number, amplitude: number): Float32Array {
+	const samples = new Float32Array(Math.round(SAMPLE_RATE * seconds));
+	for (let i = 0; i < samples.length; i++) {
+		samples[i] = amplitude * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE);
+	}
+	return samples;
+}
+
+describe("computeSilenceRatio", () => {
+	it("counts the share of windows below the silence floor", () => {
+		const samples = new Float32Array(SAMPLE_RATE * 4);
+		samples.set(tone(1, 0.5));
+		expect(computeSilenceRatio(samples, SAMPLE_RATE)).toBeCloseTo(0.75, 1);
+	});
+
+	it("treats quiet but audible material as sound", () => {
+		expect(computeSilenceRatio(tone(2, 0.05), SAMPLE_RATE)).toBe(0);
+	});
+});
+
+describe("computeClippingRatio", () => {
+	it("counts samples at full scale", () => {
+		const samples = tone(1, 2).map((value) => Math.max(-1, Math.min(1, value)));
+		expect(computeClippingRatio(samples)).toBeGreaterThan(0.5);
+		expect(computeClippingRatio(tone(1, 0.8))).toBe(0);
+	});
+});
+
+describe("evaluateQuality", () => {
+	const healthy = {
+		silenceRatio: 0.05,
+		clippingRatio: 0,
+		durationSec: 175,
+		requestedDurationSec: 180,
+		loudnessLufs: -14,
+	};
+
+	it("passes a healthy render", () => {
+		expect(evaluateQuality(healthy, QUALITY_GATE_DEFAULTS)).toEqual([]);
+	});
+
+	it("flags every failed check", () => {
+		const findings = evaluateQuality(
+			{
+				silenceRatio: 0.9,
+				clippingRatio: 0.02,
+				durationSec: 30,
+				requestedDurationSec: 180,
+				loudnessLufs: -48,
+			},
+			QUALITY_GATE_DEFAULTS,
+		);
+		expect(findings.map((finding) => finding.issue)).toEqual([
+			"silence",
+			"clipping",
+			"truncated",
+			"quiet",
+		]);
+		expect(formatQualityFailure(findings)).toBe(
+			"Quality check failed: 90% silent (max 40%); 2% clipped (max 0.50%); 30s of 180s requested; -48.0 LUFS (floor -35 LUFS)",
+		);
+	});
+
+	it("skips checks that weren't measured", () => {
+		expect(
+			evaluateQuality(
+				{ silenceRatio: 0.1, durationSec: 10, requestedDurationSec: null },
+				QUALITY_GATE_DEFAULTS,
+			),
+		).toEqual([]);
+	});
+});
+
+describe("resolveQualityGateConfig", () => {
+	it("falls back to defaults for missing or invalid settings", () => {
+		expect(resolveQualityGateConfig({})).toEqual(QUALITY_GATE_DEFAULTS);
+		expect(
+			resolveQualityGateConfig({
+				[QUALITY_GATE_SETTINGS.maxSilenceRatio]: "lots",
+				[QUALITY_GATE_SETTINGS.retryBudget]: "",
+			}),
+		).toEqual(QUALITY_GATE_DEFAULTS);
+	});
+
+	it("parses and clamps stored values", () => {
+		const config = resolveQualityGateConfig({
+			[QUALITY_GATE_SETTINGS.enabled]: "false",
+			[QUALITY_GATE_SETTINGS.maxSilenceRatio]: "1.5",
+			[QUALITY_GATE_SETTINGS.minLoudnessLufs]: "-30",
+			[QUALITY_GATE_SETTINGS.retryBudget]: "3.4",
+		});
+		expect(config.enabled).toBe(false);
+		expect(config.maxSilenceRatio).toBe(1);
+		expect(config.minLoudnessLufs).toBe(-30);
+		expect(config.retryBudget).toBe(3);
+	});
+});
+
+describe("isQualityFailure", () => {
+	it("recognises quality rejections by their prefix", () => {
+		expect(isQualityFailure("Quality check failed: 90% silent")).toBe(true);
+		expect(isQualityFailure("NFS save failed")).toBe(false);
+		expect(isQualityFailure(null)).toBe(false);
+	});
+});
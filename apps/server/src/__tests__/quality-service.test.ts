@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+import { playlists, qualityChecks, songs } from "../db/schema";
+import * as qualityService from "../services/quality-service";
+
+const metrics = {
+	silenceRatio: 0.8,
+	clippingRatio: 0,
+	durationSec: 180,
+	requestedDurationSec: 180,
+	loudnessLufs: -14,
+};
+
+async function createSong() {
+	const [playlist] = await getTestDb()
+		.insert(playlists)
+		.values({
+			name: "Night Drive",
+			prompt: "synthwave",
+			llmProvider: "ollama",
+			llmModel: "llama3",
+		})
+		.returning();
+	const [song] = await getTestDb()
+		.insert(songs)
+		.values({ playlistId: playlist.id, orderIndex: 1 })
+		.returning();
+	return song;
+}
+
+function reject(songId: string, playlistId: string) {
+	return qualityService.recordCheck({
+		songId,
+		playlistId,
+		findings: [{ issue: "silence", detail: "80% silent (max 40%)" }],
+		metrics,
+		reason: "Quality check failed: 80% silent (max 40%)",
+	});
+}
+
+beforeEach(() => setupTestDb());
+afterEach(() => teardownTestDb());
+
+describe("countRetriesUsed", () => {
+	it("counts only rejections that were retried", async () => {
+		const song = await createSong();
+		const retried = await reject(song.id, song.playlistId);
+		await reject(song.id, song.playlistId);
+		await qualityService.markRetried(retried);
+
+		expect(await qualityService.countRetriesUsed(song.playlistId)).toBe(1);
+	});
+
+	it("forgets retries once they leave the window", async () => {
+		const song = await createSong();
+		await qualityService.markRetried(await reject(song.id, song.playlistId));
+		await getTestDb()
+			.update(qualityChecks)
+			.set({
+				createdAt: Date.now() - qualityService.QUALITY_RETRY_WINDOW_MS - 1000,
+			});
+
+		expect(await qualityService.countRetriesUsed(song.playlistId)).toBe(0);
+		const stats = await qualityService.getPlaylistStats(song.playlistId);
+		expect(stats?.retriesUsed).toBe(0);
+		expect(stats?.rejected).toBe(1);
+	});
+});
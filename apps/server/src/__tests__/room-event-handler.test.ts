@@ -7,6 +7,10 @@ vi.mock("../services/playlist-service", () => ({
 	updatePosition: vi.fn(),
 }));
 
+vi.mock("../services/settings-service", () => ({
+	get: vi.fn(),
+}));
+
 vi.mock("../services/song-service", () => ({
 	listByPlaylist: vi.fn(),
 	getWorkQueue: vi.fn(),
@@ -16,6 +20,7 @@ vi.mock("../services/song-service", () => ({
 import { Room } from "../room/room";
 import { syncRoom } from "../room/room-event-handler";
 import * as playlistService from "../services/playlist-service";
+import * as settingsService from "../services/settings-service";
 import * as songService from "../services/song-service";
 
 function makeSong(orderIndex: number) {
@@ -57,6 +62,7 @@ describe("syncRoom", () => {
 			maxOrderIndex: 109,
 		} as never);
 		vi.mocked(songService.createPending).mockResolvedValue({} as never);
+		vi.mocked(settingsService.get).mockResolvedValue(null);
 	});
 
 	it("seeds idle rooms from 10 songs back and queues +5 songs", async () => {
@@ -97,4 +103,36 @@ describe("syncRoom", () => {
 		expect(playlistService.updatePosition).not.toHaveBeenCalled();
 		expect(songService.createPending).not.toHaveBeenCalled();
 	});
+
+	it("attaches each song's loudness gain for the configured mode", async () => {
+		const room = new Room("room-1", "Test Room", "playlist-key");
+		vi.mocked(songService.listByPlaylist).mockResolvedValue([
+			{
+				...makeSong(1),
+				loudnessLufs: -10,
+				truePeakDbtp: -2,
+				replayGainDb: -6,
+			},
+			{
+				...makeSong(2),
+				loudnessLufs: -20,
+				truePeakDbtp: -8,
+				replayGainDb: 4,
+			},
+			makeSong(3),
+		] as never);
+
+		await syncRoom(room);
+		expect(room.getQueue().map((song) => song.gainDb)).toEqual([
+			-6,
+			4,
+			undefined,
+		]);
+
+		vi.mocked(settingsService.get).mockResolvedValue("playlist");
+		await syncRoom(room);
+		const [first, second] = room.getQueue();
+		expect(first.gainDb).toBe(second.gainDb);
+		expect(first.gainDb).toBeLessThan(0);
+	});
 });
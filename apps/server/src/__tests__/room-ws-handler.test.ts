@@ -5,9 +5,29 @@ vi.mock("../room/room-event-handler", () => ({
 	syncRoom: vi.fn().mockResolvedValue(undefined),
 }));
 
+vi.mock("../auth/actor", () => ({
+	userActorFromToken: vi.fn(),
+	userActorFromSessionToken: vi.fn(),
+}));
+
+vi.mock("../services/playlist-service", () => ({
+	getById: vi.fn(),
+}));
+
+vi.mock("../services/device-service", () => ({
+	authenticateDeviceToken: vi.fn(),
+}));
+
+vi.mock("../services/collaborator-service", () => ({
+	getCollaboratorRole: vi.fn(),
+}));
+
+import * as authActor from "../auth/actor";
 import { syncRoom } from "../room/room-event-handler";
 import { RoomManager } from "../room/room-manager";
 import { handleRoomConnection } from "../room/room-ws-handler";
+import * as collaboratorService from "../services/collaborator-service";
+import * as playlistService from "../services/playlist-service";
 
 type SocketHandler = (...args: unknown[]) => void;
 
@@ -39,12 +59,25 @@ function createMockSocket(): {
 	};
 }
 
+/** Joins resolve access asynchronously; let queued messages settle. */
+function flushMessages(): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function sentMessages(ws: WebSocket): Record<string, unknown>[] {
+	return vi
+		.mocked(ws.send)
+		.mock.calls.map(([data]) => JSON.parse(String(data)));
+}
+
 describe("room ws handler", () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
+		vi.mocked(playlistService.getById).mockResolvedValue(null);
+		vi.mocked(collaboratorService.getCollaboratorRole).mockResolvedValue(null);
 	});
 
-	it("sets playlistId before syncing when auto-creating a room on join", () => {
+	it("sets playlistId before syncing when auto-creating a room on join", async () => {
 		const roomManager = new RoomManager();
 		const socket = createMockSocket();
 
@@ -62,6 +95,7 @@ describe("room ws handler", () => {
 				}),
 			),
 		);
+		await flushMessages();
 
 		expect(vi.mocked(syncRoom)).toHaveBeenCalled();
 		const firstSyncedRoom = vi.mocked(syncRoom).mock.calls[0]?.[0];
@@ -69,7 +103,7 @@ describe("room ws handler", () => {
 		expect(roomManager.getRoom("pl-123")?.playlistId).toBe("pl-123");
 	});
 
-	it("hydrates an existing room on join even without auto-create", () => {
+	it("hydrates an existing room on join even without auto-create", async () => {
 		const roomManager = new RoomManager();
 		roomManager.createRoom("pl-123", "Playlist One", "key-123");
 		const socket = createMockSocket();
@@ -87,13 +121,14 @@ describe("room ws handler", () => {
 				}),
 			),
 		);
+		await flushMessages();
 
 		expect(vi.mocked(syncRoom)).toHaveBeenCalledWith(
 			expect.objectContaining({ id: "pl-123" }),
 		);
 	});
 
-	it("rejects join requests with a mismatched protocol version", () => {
+	it("rejects join requests with a mismatched protocol version", async () => {
 		const roomManager = new RoomManager();
 		const socket = createMockSocket();
 
@@ -112,6 +147,7 @@ describe("room ws handler", () => {
 				}),
 			),
 		);
+		await flushMessages();
 
 		const sendPayload = vi.mocked(socket.ws.send).mock.calls[0]?.[0];
 		expect(JSON.parse(String(sendPayload))).toMatchObject({
@@ -125,4 +161,157 @@ describe("room ws handler", () => {
 		);
 		expect(roomManager.getRoom("pl-123")).toBeUndefined();
 	});
+	it("accepts protocol v2 clients and acknowledges in their version", async () => {
+		const roomManager = new RoomManager();
+		const socket = createMockSocket();
+
+		handleRoomConnection(socket.ws, roomManager);
+		socket.emit(
+			"message",
+			Buffer.from(
+				JSON.stringify({
+					type: "join",
+					playlistId: "pl-123",
+					deviceId: "device-1",
+					deviceName: "Old Tab",
+					role: "player",
+					playlistKey: "key-123",
+					protocolVersion: 2,
+				}),
+			),
+		);
+		await flushMessages();
+
+		expect(sentMessages(socket.ws)).toContainEqual(
+			expect.objectContaining({ type: "joinAck", protocolVersion: 2 }),
+		);
+		expect(socket.ws.close).not.toHaveBeenCalled();
+		expect(roomManager.getRoom("pl-123")?.getDevices()).toMatchObject([
+			{ id: "device-1", protocolVersion: 2 },
+		]);
+	});
+
+	it("refuses joins to owned playlists without a role", async () => {
+		vi.mocked(playlistService.getById).mockResolvedValue({
+			id: "pl-private",
+			ownerUserId: "owner-1",
+		} as never);
+		vi.mocked(authActor.userActorFromToken).mockResolvedValue({
+			kind: "user",
+			userId: "user-2",
+		});
+		const roomManager = new RoomManager();
+		const socket = createMockSocket();
+
+		handleRoomConnection(socket.ws, roomManager);
+		socket.emit(
+			"message",
+			Buffer.from(
+				JSON.stringify({
+					type: "join",
+					playlistId: "pl-private",
+					deviceId: "device-1",
+					deviceName: "Kitchen",
+					role: "player",
+					playlistKey: "key-private",
+					authToken: "token-2",
+				}),
+			),
+		);
+		await flushMessages();
+
+		expect(sentMessages(socket.ws)).toEqual([
+			expect.objectContaining({ type: "error", code: "FORBIDDEN" }),
+		]);
+		expect(roomManager.getRoom("pl-private")).toBeUndefined();
+		expect(
+			vi.mocked(collaboratorService.getCollaboratorRole),
+		).toHaveBeenCalledWith("pl-private", ["user-2"]);
+	});
+
+	it("keeps listeners to playback commands", async () => {
+		vi.mocked(playlistService.getById).mockResolvedValue({
+			id: "pl-shared",
+			ownerUserId: "owner-1",
+		} as never);
+		vi.mocked(authActor.userActorFromToken).mockResolvedValue({
+			kind: "user",
+			userId: "user-2",
+		});
+		vi.mocked(collaboratorService.getCollaboratorRole).mockResolvedValue(
+			"listener",
+		);
+		const roomManager = new RoomManager();
+		const room = roomManager.createRoom("pl-shared", "Shared", "key-shared");
+		const handleCommand = vi.spyOn(room, "handleCommand");
+		const socket = createMockSocket();
+
+		handleRoomConnection(socket.ws, roomManager);
+		for (const message of [
+			{
+				type: "join",
+				playlistId: "pl-shared",
+				deviceId: "device-1",
+				deviceName: "Phone",
+				role: "controller",
+				authToken: "token-2",
+			},
+			{ type: "command", action: "pause" },
+			{ type: "command", action: "skip" },
+		]) {
+			socket.emit("message", Buffer.from(JSON.stringify(message)));
+		}
+		await flushMessages();
+
+		expect(handleCommand).toHaveBeenCalledTimes(1);
+		expect(handleCommand).toHaveBeenCalledWith(
+			"device-1",
+			"pause",
+			undefined,
+			undefined,
+		);
+		expect(sentMessages(socket.ws).at(-1)).toMatchObject({
+			type: "error",
+			code: "FORBIDDEN",
+		});
+	});
+
+	it("caps read-only API keys at listener even on the owner's playlist", async () => {
+		vi.mocked(playlistService.getById).mockResolvedValue({
+			id: "pl-owned",
+			ownerUserId: "owner-1",
+		} as never);
+		vi.mocked(authActor.userActorFromToken).mockResolvedValue({
+			kind: "user",
+			userId: "owner-1",
+			scopes: ["read"],
+		});
+		const roomManager = new RoomManager();
+		const room = roomManager.createRoom("pl-owned", "Owned", "key-owned");
+		const handleCommand = vi.spyOn(room, "handleCommand");
+		const socket = createMockSocket();
+
+		handleRoomConnection(socket.ws, roomManager);
+		for (const message of [
+			{
+				type: "join",
+				playlistId: "pl-owned",
+				deviceId: "device-1",
+				deviceName: "Script",
+				role: "controller",
+				authToken: "infi_key_read",
+			},
+			{ type: "command", action: "skip" },
+			{ type: "command", action: "seek", payload: { time: 30 } },
+		]) {
+			socket.emit("message", Buffer.from(JSON.stringify(message)));
+		}
+		await flushMessages();
+
+		expect(handleCommand).not.toHaveBeenCalled();
+		expect(sentMessages(socket.ws).at(-1)).toMatchObject({
+			type: "error",
+			code: "FORBIDDEN",
+		});
+	});
 });
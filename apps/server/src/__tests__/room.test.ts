@@ -297,6 +297,48 @@ describe("Room", () => {
 			expect(room.playback.currentSongId).toBe("s-2");
 		});
 
+		it("reports a skip with position and the skipping device", () => {
+			const onSkip = vi.fn().mockResolvedValue(undefined);
+			room.setSkipCallback(onSkip);
+			const { ws } = createMockWs();
+			room.addDevice({ id: "d1", name: "Phone", role: "controller" }, ws);
+			room.updateQueue(
+				[
+					song("s-1", { audioUrl: "/a/1.mp3", orderIndex: 1 }),
+					song("s-2", { audioUrl: "/a/2.mp3", orderIndex: 2 }),
+				],
+				0,
+			);
+			room.handleSync("d2", "s-1", true, 8, 180);
+
+			room.handleCommand("d1", "skip");
+			room.handleCommand("d1", "skip"); // debounced with the first
+
+			expect(onSkip).toHaveBeenCalledTimes(1);
+			expect(onSkip).toHaveBeenCalledWith({
+				songId: "s-1",
+				positionSec: expect.closeTo(8, 0),
+				durationSec: 180,
+				deviceId: "d1",
+				deviceName: "Phone",
+			});
+		});
+
+		it("does not report a skip when a song ends naturally", () => {
+			const onSkip = vi.fn().mockResolvedValue(undefined);
+			room.setSkipCallback(onSkip);
+			room.updateQueue(
+				[
+					song("s-1", { audioUrl: "/a/1.mp3", orderIndex: 1 }),
+					song("s-2", { audioUrl: "/a/2.mp3", orderIndex: 2 }),
+				],
+				0,
+			);
+
+			room.handleSongEnded();
+			expect(onSkip).not.toHaveBeenCalled();
+		});
+
 		it("calls markPlayed callback for finished song", () => {
 			const markPlayed = vi.fn().mockResolvedValue(undefined);
 			room = new Room("room-1", "Test Room", "key-1", markPlayed);
@@ -351,6 +393,110 @@ describe("Room", () => {
 		});
 	});
 
+	// ─── Drift correction (protocol v3) ─────────────────────────────
+
+	describe("drift correction", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			vi.setSystemTime(1_000_000);
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		/** A playing room 10s into s-1 (which starts 500ms after it is queued). */
+		function playingRoom(outputLatencyMs?: number) {
+			const player = createMockWs();
+			room.addDevice({ id: "p1", name: "Speaker", role: "player" }, player.ws, {
+				protocolVersion: 3,
+				outputLatencyMs,
+			});
+			room.updateQueue(
+				[
+					song("s-1", {
+						audioUrl: "/a/1.mp3",
+						orderIndex: 1,
+						audioDuration: 180,
+					}),
+				],
+				0,
+			);
+			vi.advanceTimersByTime(10_500);
+			player.messages.length = 0;
+			return player.messages;
+		}
+
+		it("nudges the playback rate of a player that runs slightly ahead", () => {
+			const messages = playingRoom();
+			room.handlePosition("p1", "s-1", 10.2, Date.now());
+
+			expect(messages).toContainEqual({
+				type: "correction",
+				songId: "s-1",
+				driftMs: 200,
+				correction: { kind: "nudge", rate: 0.95, durationMs: 4000 },
+			});
+			expect(room.getDevices()[0]?.driftMs).toBe(200);
+
+			// The nudge needs time to land before the next one
+			messages.length = 0;
+			room.handlePosition("p1", "s-1", 10.15, Date.now());
+			expect(messages).toHaveLength(0);
+		});
+
+		it("allows for output latency and seeks players that are far off", () => {
+			const messages = playingRoom(150);
+			room.handlePosition("p1", "s-1", 10.15, Date.now());
+			expect(messages).toHaveLength(0);
+
+			room.handlePosition("p1", "s-1", 9, Date.now());
+			expect(messages).toContainEqual({
+				type: "correction",
+				songId: "s-1",
+				driftMs: -1150,
+				correction: { kind: "seek", position: 10, serverTime: Date.now() },
+			});
+		});
+
+		it("leaves paused rooms and players that cannot change rate alone", () => {
+			const slow = createMockWs();
+			room.addDevice({ id: "p2", name: "ffplay", role: "player" }, slow.ws, {
+				protocolVersion: 3,
+				canNudgeRate: false,
+			});
+			playingRoom();
+			slow.messages.length = 0;
+			room.handlePosition("p2", "s-1", 10.2, Date.now());
+			expect(slow.messages).toHaveLength(0);
+
+			room.handleCommand("c1", "pause");
+			vi.advanceTimersByTime(5_000);
+			room.handlePosition("p2", "s-1", 20, Date.now());
+			expect(slow.messages.some((m) => m.type === "correction")).toBe(false);
+		});
+
+		it("speaks each device's protocol version in room state", () => {
+			const legacy = createMockWs();
+			room.addDevice(
+				{ id: "old", name: "Old tab", role: "player" },
+				legacy.ws,
+				{
+					protocolVersion: 2,
+				},
+			);
+			const messages = playingRoom();
+			room.handleCommand("c1", "setVolume", { volume: 0.5 });
+
+			const legacyState = legacy.messages
+				.filter((m) => m.type === "state")
+				.at(-1);
+			const currentState = messages.filter((m) => m.type === "state").at(-1);
+			expect(legacyState?.protocolVersion).toBe(2);
+			expect(currentState?.protocolVersion).toBe(3);
+		});
+	});
+
 	// ─── Device targeting (individual mode) ─────────────────────────
 
 	describe("device targeting", () => {
@@ -394,6 +540,93 @@ describe("Room", () => {
 		});
 	});
 
+	// ─── Transitions ────────────────────────────────────────────────
+
+	describe("transitions", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			vi.setSystemTime(1_000_000);
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		function startCrossfadeRoom() {
+			const { ws, messages } = createMockWs();
+			room.addDevice({ id: "p1", name: "Speaker", role: "player" }, ws);
+			room.handleCommand("c1", "setTransition", {
+				mode: "crossfade",
+				seconds: 4,
+			});
+			room.updateQueue(
+				[
+					song("s-1", {
+						audioUrl: "/a/1.mp3",
+						orderIndex: 1,
+						audioDuration: 60,
+					}),
+					song("s-2", {
+						audioUrl: "/a/2.mp3",
+						orderIndex: 2,
+						audioDuration: 60,
+					}),
+				],
+				0,
+			);
+			return messages;
+		}
+
+		it("sends the next song early with a synchronized fade plan", () => {
+			const messages = startCrossfadeRoom();
+			const songStart = 1_000_000 + 500;
+
+			vi.advanceTimersByTime(54_000);
+			expect(room.playback.currentSongId).toBe("s-1");
+
+			vi.advanceTimersByTime(1_000);
+			const nextSongs = messages.filter((m) => m.type === "nextSong");
+			expect(nextSongs.at(-1)).toMatchObject({
+				songId: "s-2",
+				startAt: songStart + 56_000,
+				transition: {
+					mode: "crossfade",
+					fromSongId: "s-1",
+					startAt: songStart + 56_000,
+					durationMs: 4_000,
+				},
+			});
+			expect(room.playback.currentSongId).toBe("s-2");
+		});
+
+		it("ignores the outgoing song's end while the fade runs", () => {
+			startCrossfadeRoom();
+			vi.advanceTimersByTime(58_000);
+			expect(room.playback.currentSongId).toBe("s-2");
+
+			room.handlePlayerSongEnded();
+			expect(room.playback.currentSongId).toBe("s-2");
+		});
+
+		it("re-anchors the schedule from player sync and pauses", () => {
+			const messages = startCrossfadeRoom();
+			vi.advanceTimersByTime(10_000);
+			// Player is 5s behind the server's estimate
+			room.handleSync("p1", "s-1", true, 5, 60);
+			room.handleCommand("c1", "pause");
+
+			vi.advanceTimersByTime(120_000);
+			expect(messages.filter((m) => m.type === "nextSong")).toHaveLength(1);
+			expect(room.playback.currentSongId).toBe("s-1");
+		});
+
+		it("broadcasts the transition settings in room state", () => {
+			const messages = startCrossfadeRoom();
+			const state = messages.filter((m) => m.type === "state").at(-1);
+			expect(state?.transition).toEqual({ mode: "crossfade", seconds: 4 });
+		});
+	});
+
 	// ─── Role switching ─────────────────────────────────────────────
 
 	describe("setDeviceRole", () => {
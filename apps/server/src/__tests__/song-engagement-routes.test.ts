@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+vi.mock("../events/event-bus", () => ({
+	emit: vi.fn(),
+	on: vi.fn(),
+	removeAllListeners: vi.fn(),
+}));
+
+vi.mock("../auth/actor", () => ({
+	getRequestActor: vi.fn().mockResolvedValue({ kind: "anonymous" }),
+}));
+
+import { playlists, songs, users } from "../db/schema";
+import songRoutes from "../routes/songs/engagement";
+
+async function createSong(ownerUserId: string | null) {
+	const [playlist] = await getTestDb()
+		.insert(playlists)
+		.values({
+			name: "Night Drive",
+			prompt: "synthwave",
+			llmProvider: "ollama",
+			llmModel: "llama3",
+			ownerUserId,
+		})
+		.returning();
+	const [song] = await getTestDb()
+		.insert(songs)
+		.values({ playlistId: playlist.id, orderIndex: 1, status: "ready" })
+		.returning();
+	return song;
+}
+
+function requestSkip(songId: string, body: Record<string, unknown>) {
+	return songRoutes.request(`http://localhost/${songId}/skip`, {
+		method: "POST",
+		headers: { "content-type": "application/json" },
+		body: JSON.stringify(body),
+	});
+}
+
+beforeEach(() => setupTestDb());
+afterEach(() => teardownTestDb());
+
+describe("POST /api/songs/:id/skip", () => {
+	it("needs steer on the song's playlist", async () => {
+		const [owner] = await getTestDb()
+			.insert(users)
+			.values({ shooSubject: "owner" })
+			.returning();
+		const owned = await createSong(owner.id);
+		const open = await createSong(null);
+
+		expect((await requestSkip(owned.id, { positionSec: 5 })).status).toBe(403);
+		const allowed = await requestSkip(open.id, { positionSec: 5 });
+		expect(allowed.status).toBe(200);
+		expect(await allowed.json()).toMatchObject({ source: "web", early: true });
+	});
+
+	it("won't record a room skip from a player", async () => {
+		const song = await createSong(null);
+		const response = await requestSkip(song.id, {
+			positionSec: 5,
+			source: "room",
+		});
+		expect(response.status).toBe(400);
+	});
+});
@@ -284,7 +284,7 @@ describe("song-service", () => {
 				retryCount: 0,
 			});
 
-			await songService.markError(song.id, "LLM timeout");
+			expect(await songService.markError(song.id, "LLM timeout")).toBe(true);
 
 			const db = getTestDb();
 			const [updated] = await db
@@ -302,7 +302,7 @@ describe("song-service", () => {
 				retryCount: 3,
 			});
 
-			await songService.markError(song.id, "LLM timeout");
+			expect(await songService.markError(song.id, "LLM timeout")).toBe(false);
 
 			const db = getTestDb();
 			const [updated] = await db
@@ -311,6 +311,29 @@ describe("song-service", () => {
 				.where(eq(songs.id, song.id));
 			expect(updated.status).toBe("error");
 		});
+
+		it("skips retry_pending when retries are disallowed", async () => {
+			const pl = await createTestPlaylist();
+			const song = await createTestSong(pl.id, 1, {
+				status: "saving",
+				retryCount: 0,
+			});
+
+			await songService.markError(
+				song.id,
+				"Quality check failed: 80% silent (max 40%)",
+				"saving",
+				{ retry: false },
+			);
+
+			const db = getTestDb();
+			const [updated] = await db
+				.select()
+				.from(songs)
+				.where(eq(songs.id, song.id));
+			expect(updated.status).toBe("error");
+			expect(updated.errorMessage).toMatch(/^Quality check failed/);
+		});
 	});
 
 	// ─── retryErrored ──────────────────────────────────────────────
@@ -397,6 +420,29 @@ describe("song-service", () => {
 			expect(updated.aceAudioPath).toBe("/tmp/ace-output.mp3");
 		});
 
+		it("regenerates audio for quality rejections instead of re-saving", async () => {
+			const pl = await createTestPlaylist();
+			const song = await createTestSong(pl.id, 1, {
+				status: "retry_pending",
+				erroredAtStatus: "saving",
+				errorMessage: "Quality check failed: 12s of 180s requested",
+				aceTaskId: "completed-task",
+				aceAudioPath: "/tmp/ace-output.mp3",
+				retryCount: 0,
+			});
+
+			await songService.retryErrored(song.id);
+
+			const db = getTestDb();
+			const [updated] = await db
+				.select()
+				.from(songs)
+				.where(eq(songs.id, song.id));
+			expect(updated.status).toBe("metadata_ready");
+			expect(updated.aceTaskId).toBeNull();
+			expect(updated.aceAudioPath).toBeNull();
+		});
+
 		it("does nothing for non-retry_pending songs", async () => {
 			const pl = await createTestPlaylist();
 			const song = await createTestSong(pl.id, 1, { status: "pending" });
@@ -554,6 +600,59 @@ describe("song-service", () => {
 		});
 	});
 
+	// ─── recordSkip ────────────────────────────────────────────────
+
+	describe("recordSkip", () => {
+		it("stores the skip and counts early skips separately", async () => {
+			const pl = await createTestPlaylist();
+			const song = await createTestSong(pl.id, 1, {
+				status: "ready",
+				audioDuration: 180,
+			});
+
+			const early = await songService.recordSkip(song.id, {
+				positionSec: 12.5,
+				deviceId: "infi-1234",
+				deviceName: "Desk",
+				source: "daemon",
+			});
+			await songService.recordSkip(song.id, {
+				positionSec: 95,
+				source: "room",
+			});
+
+			expect(early).toMatchObject({
+				playlistId: pl.id,
+				positionSec: 12.5,
+				durationSec: 180,
+				deviceName: "Desk",
+				early: true,
+			});
+			const db = getTestDb();
+			const [updated] = await db
+				.select()
+				.from(songs)
+				.where(eq(songs.id, song.id));
+			expect(updated.skipCount).toBe(2);
+			expect(updated.earlySkipCount).toBe(1);
+
+			const skips = await songService.listSkips(song.id);
+			expect(skips).toHaveLength(2);
+			expect(emittedEvents.map((e) => e.event)).toContain(
+				"song.metadata_updated",
+			);
+		});
+
+		it("returns null for non-existent songs", async () => {
+			expect(
+				await songService.recordSkip("missing", {
+					positionSec: 3,
+					source: "web",
+				}),
+			).toBeNull();
+		});
+	});
+
 	// ─── completeMetadata ──────────────────────────────────────────
 
 	describe("completeMetadata", () => {
@@ -618,4 +717,293 @@ describe("song-service", () => {
 			expect(queue.transientCount).toBe(2); // generating_metadata, generating_audio
 		});
 	});
+
+	// ─── search ────────────────────────────────────────────────────
+
+	describe("search", () => {
+		const baseQuery = {
+			genres: [],
+			moods: [],
+			energies: [],
+			eras: [],
+			languages: [],
+			ratings: [],
+			playlists: [],
+			limit: 60,
+		};
+
+		it("matches free text against lyrics and tags via the FTS index", async () => {
+			const pl = await createTestPlaylist();
+			await createTestSong(pl.id, 1, {
+				title: "Neon Rain",
+				lyrics: "Midnight streets are glowing",
+				tags: JSON.stringify(["synthwave"]),
+				createdAt: 1,
+			});
+			await createTestSong(pl.id, 2, { title: "Sunny Fields", createdAt: 2 });
+
+			const byLyrics = await songService.search({ ...baseQuery, q: "midnig" });
+			expect(byLyrics.items.map((s) => s.title)).toEqual(["Neon Rain"]);
+
+			const byTag = await songService.search({ ...baseQuery, q: "synthwave" });
+			expect(byTag.total).toBe(1);
+		});
+
+		it("keeps the FTS index in sync with metadata updates and deletes", async () => {
+			const pl = await createTestPlaylist();
+			const song = await createTestSong(pl.id, 1, { title: "Old Name" });
+
+			await songService.updateMetadata(song.id, { title: "Brand New" });
+			expect((await songService.search({ ...baseQuery, q: "old" })).total).toBe(
+				0,
+			);
+			expect(
+				(await songService.search({ ...baseQuery, q: "brand" })).total,
+			).toBe(1);
+
+			await songService.deleteSong(song.id);
+			expect(
+				(await songService.search({ ...baseQuery, q: "brand" })).total,
+			).toBe(0);
+		});
+
+		it("computes facet counts with the other filters applied", async () => {
+			const pl = await createTestPlaylist();
+			await createTestSong(pl.id, 1, {
+				title: "A",
+				genre: "Jazz",
+				mood: "calm",
+				userRating: "up",
+			});
+			await createTestSong(pl.id, 2, {
+				title: "B",
+				genre: "Jazz",
+				mood: "dark",
+			});
+			await createTestSong(pl.id, 3, {
+				title: "C",
+				genre: "Rock",
+				mood: "calm",
+			});
+			await createTestSong(pl.id, 4, { genre: "Rock" }); // untitled, excluded
+
+			const result = await songService.search({
+				...baseQuery,
+				genres: ["Jazz"],
+			});
+
+			expect(result.total).toBe(2);
+			expect(result.facets.genres).toEqual([
+				{ value: "Jazz", count: 2 },
+				{ value: "Rock", count: 1 },
+			]);
+			expect(result.facets.moods).toEqual([
+				{ value: "calm", count: 1 },
+				{ value: "dark", count: 1 },
+			]);
+			expect(result.facets.ratings).toEqual([
+				{ value: "liked", count: 1 },
+				{ value: "unrated", count: 1 },
+			]);
+			expect(result.facets.playlists).toEqual([{ value: pl.id, count: 2 }]);
+		});
+
+		it("filters by derived rating buckets", async () => {
+			const pl = await createTestPlaylist();
+			await createTestSong(pl.id, 1, { title: "Liked", userRating: "up" });
+			await createTestSong(pl.id, 2, { title: "Plain" });
+
+			const result = await songService.search({
+				...baseQuery,
+				ratings: ["unrated"],
+			});
+			expect(result.items.map((s) => s.title)).toEqual(["Plain"]);
+		});
+
+		it("buckets unrated early-skipped songs as skipped", async () => {
+			const pl = await createTestPlaylist();
+			await createTestSong(pl.id, 1, {
+				title: "Liked anyway",
+				userRating: "up",
+				earlySkipCount: 1,
+			});
+			await createTestSong(pl.id, 2, { title: "Skipped", earlySkipCount: 2 });
+			await createTestSong(pl.id, 3, { title: "Late skip", skipCount: 1 });
+
+			const result = await songService.search({
+				...baseQuery,
+				ratings: ["skipped"],
+			});
+			expect(result.items.map((s) => s.title)).toEqual(["Skipped"]);
+		});
+
+		it("pages newest first with a cursor", async () => {
+			const pl = await createTestPlaylist();
+			for (let i = 1; i <= 5; i++) {
+				await createTestSong(pl.id, i, { title: `Song ${i}`, createdAt: i });
+			}
+
+			const first = await songService.search({ ...baseQuery, limit: 2 });
+			expect(first.items.map((s) => s.title)).toEqual(["Song 5", "Song 4"]);
+			expect(first.total).toBe(5);
+			expect(first.nextCursor).not.toBeNull();
+
+			const second = await songService.search({
+				...baseQuery,
+				limit: 2,
+				cursor: first.nextCursor ?? undefined,
+			});
+			expect(second.items.map((s) => s.title)).toEqual(["Song 3", "Song 2"]);
+
+			const last = await songService.search({
+				...baseQuery,
+				limit: 2,
+				cursor: second.nextCursor ?? undefined,
+			});
+			expect(last.items.map((s) => s.title)).toEqual(["Song 1"]);
+			expect(last.nextCursor).toBeNull();
+		});
+
+		it("rejects malformed cursors", async () => {
+			await expect(
+				songService.search({ ...baseQuery, cursor: "not-a-cursor" }),
+			).rejects.toBeInstanceOf(songService.InvalidSearchCursorError);
+		});
+	});
+
+	describe("variations", () => {
+		async function createFinishedParent(playlistId: string) {
+			return createTestSong(playlistId, 3, {
+				status: "played",
+				title: "Neon",
+				artistName: "Grid Runner",
+				genre: "Synthwave",
+				lyrics: "[Verse]\nneon lights",
+				caption: "dark synthwave, pulsing bass",
+				vocalStyle: "breathy female",
+				bpm: 96,
+				keyScale: "A minor",
+				timeSignature: "4/4",
+				audioDuration: 180,
+				tags: JSON.stringify(["night"]),
+				coverUrl: "/covers/neon.png",
+			});
+		}
+
+		it("creates a re-sung child that inherits the parent's song", async () => {
+			const playlist = await createTestPlaylist({ currentOrderIndex: 5 });
+			const parent = await createFinishedParent(playlist.id);
+
+			const child = await songService.createVariation(parent.id, {
+				mode: "resing",
+				vocalStyle: "gravelly baritone",
+			});
+
+			expect(child).toMatchObject({
+				playlistId: playlist.id,
+				orderIndex: 5.5,
+				status: "metadata_ready",
+				parentSongId: parent.id,
+				variationMode: "resing",
+				isInterrupt: true,
+				title: "Neon (Alt Vocal)",
+				lyrics: "[Verse]\nneon lights",
+				bpm: 96,
+				keyScale: "A minor",
+				audioDuration: 180,
+				vocalStyle: "gravelly baritone",
+				caption: "dark synthwave, pulsing bass, gravelly baritone vocals",
+				tags: ["night"],
+				cover: { pngUrl: "/covers/neon.png" },
+			});
+			expect(emittedEvents).toContainEqual({
+				event: "song.created",
+				data: {
+					songId: child?.id,
+					playlistId: playlist.id,
+					status: "metadata_ready",
+				},
+			});
+		});
+
+		it("queues repeated variations behind each other, before the next song", async () => {
+			const playlist = await createTestPlaylist({ currentOrderIndex: 3 });
+			const parent = await createFinishedParent(playlist.id);
+			await createTestSong(playlist.id, 4);
+
+			const first = await songService.createVariation(parent.id, {
+				mode: "arrangement",
+			});
+			const second = await songService.createVariation(parent.id, {
+				mode: "arrangement",
+				prompt: "acoustic",
+			});
+
+			expect(first?.orderIndex).toBe(3.5);
+			expect(second?.orderIndex).toBe(3.75);
+			expect(first?.caption).toBe(
+				"dark synthwave, pulsing bass, reimagined arrangement, new instrumentation and groove",
+			);
+			expect(second?.caption).toMatch(/groove, acoustic$/);
+		});
+
+		it("extends the duration and rejects shorter extensions", async () => {
+			const playlist = await createTestPlaylist();
+			const parent = await createFinishedParent(playlist.id);
+
+			const child = await songService.createVariation(parent.id, {
+				mode: "extend",
+			});
+			expect(child?.audioDuration).toBe(270);
+
+			await expect(
+				songService.createVariation(parent.id, {
+					mode: "extend",
+					audioDuration: 120,
+				}),
+			).rejects.toBeInstanceOf(songService.SongVariationError);
+		});
+
+		it("rejects unfinished parents and closed playlists", async () => {
+			const playlist = await createTestPlaylist();
+			const pending = await createTestSong(playlist.id, 1);
+			await expect(
+				songService.createVariation(pending.id, { mode: "arrangement" }),
+			).rejects.toBeInstanceOf(songService.SongVariationError);
+
+			const closed = await createTestPlaylist({ status: "closed" });
+			const parent = await createFinishedParent(closed.id);
+			await expect(
+				songService.createVariation(parent.id, { mode: "arrangement" }),
+			).rejects.toThrow(/closed/);
+
+			expect(
+				await songService.createVariation("missing", { mode: "arrangement" }),
+			).toBeNull();
+		});
+
+		it("returns the whole family from any member", async () => {
+			const playlist = await createTestPlaylist();
+			const root = await createFinishedParent(playlist.id);
+			const child = await createTestSong(playlist.id, 4, {
+				status: "ready",
+				parentSongId: root.id,
+				variationMode: "arrangement",
+			});
+			const grandchild = await createTestSong(playlist.id, 5, {
+				parentSongId: child.id,
+				variationMode: "extend",
+			});
+			await createTestSong(playlist.id, 6);
+
+			const family = await songService.getFamily(grandchild.id);
+
+			expect(family?.rootId).toBe(root.id);
+			expect(family?.members.map((m) => m.id)).toEqual([
+				root.id,
+				child.id,
+				grandchild.id,
+			]);
+		});
+	});
 });
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+vi.mock("../events/event-bus", () => ({
+	emit: vi.fn(),
+	on: vi.fn(),
+	removeAllListeners: vi.fn(),
+}));
+
+vi.mock("../auth/actor", () => ({
+	getRequestActor: vi.fn().mockResolvedValue({ kind: "anonymous" }),
+}));
+
+import { playlists, songs, users } from "../db/schema";
+import songRoutes from "../routes/songs/create";
+
+async function createPlaylist(ownerUserId: string | null) {
+	const [playlist] = await getTestDb()
+		.insert(playlists)
+		.values({
+			name: "Night Drive",
+			prompt: "synthwave",
+			llmProvider: "ollama",
+			llmModel: "llama3",
+			ownerUserId,
+		})
+		.returning();
+	return playlist;
+}
+
+async function createFinishedSong(playlistId: string) {
+	const [song] = await getTestDb()
+		.insert(songs)
+		.values({
+			playlistId,
+			orderIndex: 1,
+			status: "ready",
+			title: "Neon",
+			caption: "dark synthwave",
+			audioDuration: 180,
+		})
+		.returning();
+	return song;
+}
+
+function requestVariation(songId: string, body: Record<string, unknown>) {
+	return songRoutes.request(`http://localhost/${songId}/variations`, {
+		method: "POST",
+		headers: { "content-type": "application/json" },
+		body: JSON.stringify(body),
+	});
+}
+
+beforeEach(() => setupTestDb());
+afterEach(() => teardownTestDb());
+
+describe("POST /api/songs/:id/variations", () => {
+	it("needs steer on the destination playlist", async () => {
+		const [owner] = await getTestDb()
+			.insert(users)
+			.values({ shooSubject: "owner" })
+			.returning();
+		const open = await createPlaylist(null);
+		const owned = await createPlaylist(owner.id);
+		const parent = await createFinishedSong(open.id);
+
+		const denied = await requestVariation(parent.id, {
+			mode: "arrangement",
+			playlistId: owned.id,
+		});
+		expect(denied.status).toBe(403);
+
+		const allowed = await requestVariation(parent.id, { mode: "arrangement" });
+		expect(allowed.status).toBe(201);
+	});
+
+	it("hides songs from playlists the caller can't play", async () => {
+		const [owner] = await getTestDb()
+			.insert(users)
+			.values({ shooSubject: "owner" })
+			.returning();
+		const owned = await createPlaylist(owner.id);
+		const parent = await createFinishedSong(owned.id);
+
+		const response = await requestVariation(parent.id, { mode: "arrangement" });
+		expect(response.status).toBe(404);
+	});
+});
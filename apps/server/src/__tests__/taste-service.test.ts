@@ -0,0 +1,192 @@
+import {
+	deriveTasteProfile,
+	describeTasteProfile,
+	isEarlySkip,
+	isFullListen,
+	type TasteSignalSong,
+} from "@infinitune/shared/taste-profile";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+import { playlists, songs, users } from "../db/schema";
+import * as tasteService from "../services/taste-service";
+
+const NOW = Date.UTC(2026, 5, 1);
+
+function signalSong(overrides: Partial<TasteSignalSong>): TasteSignalSong {
+	return {
+		genre: null,
+		subGenre: null,
+		mood: null,
+		energy: null,
+		bpm: null,
+		vocalStyle: null,
+		themes: null,
+		userRating: null,
+		playDurationMs: null,
+		listenCount: null,
+		audioDuration: 180,
+		createdAt: NOW,
+		...overrides,
+	};
+}
+
+async function createPlaylist(ownerUserId: string | null) {
+	const [row] = await getTestDb()
+		.insert(playlists)
+		.values({
+			name: "Taste",
+			prompt: "anything",
+			llmProvider: "anthropic",
+			llmModel: "claude",
+			ownerUserId,
+		})
+		.returning();
+	return row;
+}
+
+async function createSong(
+	playlistId: string,
+	orderIndex: number,
+	values: Partial<typeof songs.$inferInsert>,
+) {
+	await getTestDb()
+		.insert(songs)
+		.values({ playlistId, orderIndex, status: "ready", ...values });
+}
+
+describe("taste signals", () => {
+	it("tells early skips from full listens", () => {
+		expect(
+			isEarlySkip(signalSong({ playDurationMs: 8000, listenCount: 1 })),
+		).toBe(true);
+		// Averaged per listen: two 15s plays are still early skips
+		expect(
+			isEarlySkip(signalSong({ playDurationMs: 30_000, listenCount: 2 })),
+		).toBe(true);
+		expect(
+			isFullListen(signalSong({ playDurationMs: 170_000, listenCount: 1 })),
+		).toBe(true);
+		// A recorded early skip counts even after a long listen
+		expect(
+			isEarlySkip(
+				signalSong({
+					playDurationMs: 170_000,
+					listenCount: 1,
+					earlySkipCount: 1,
+				}),
+			),
+		).toBe(true);
+		expect(
+			isEarlySkip(
+				signalSong({ playDurationMs: 5000, listenCount: 1, audioDuration: 30 }),
+			),
+		).toBe(false);
+	});
+
+	it("weights ratings, skips and listens into per-dimension preferences", () => {
+		const profile = deriveTasteProfile(
+			[
+				signalSong({ genre: "Synthwave", mood: "dreamy", userRating: "up" }),
+				signalSong({
+					genre: "synthwave",
+					mood: "dreamy",
+					playDurationMs: 175_000,
+					listenCount: 1,
+				}),
+				signalSong({ genre: "Metal", mood: "angry", userRating: "down" }),
+				signalSong({
+					genre: "Polka",
+					playDurationMs: 4000,
+					listenCount: 1,
+				}),
+				signalSong({ genre: "Jazz" }),
+			],
+			{ userId: null, now: NOW },
+		);
+
+		expect(profile).toMatchObject({
+			songCount: 4,
+			liked: 1,
+			disliked: 1,
+			earlySkips: 1,
+			fullListens: 1,
+		});
+		expect(profile.dimensions.genres).toEqual([
+			{ value: "synthwave", weight: 1, songs: 2 },
+			{ value: "polka", weight: -0.4, songs: 1 },
+			{ value: "metal", weight: -0.8, songs: 1 },
+		]);
+		expect(describeTasteProfile(profile)).toBe(
+			"Leans toward — genres: synthwave; moods: dreamy\n" +
+				"Steers away from — genres: metal, polka; moods: angry",
+		);
+	});
+
+	it("lets old signals fade against recent ones", () => {
+		const profile = deriveTasteProfile(
+			[
+				signalSong({
+					genre: "house",
+					userRating: "up",
+					createdAt: NOW - 60 * 24 * 60 * 60 * 1000,
+				}),
+				signalSong({ genre: "techno", userRating: "up" }),
+			],
+			{ userId: null, now: NOW },
+		);
+		expect(profile.dimensions.genres).toEqual([
+			{ value: "techno", weight: 1, songs: 1 },
+			{ value: "house", weight: 0.25, songs: 1 },
+		]);
+	});
+});
+
+describe("taste service", () => {
+	beforeEach(() => setupTestDb());
+	afterEach(() => teardownTestDb());
+
+	it("only reads playlists owned by the requested user", async () => {
+		const [user] = await getTestDb()
+			.insert(users)
+			.values({ shooSubject: "listener" })
+			.returning();
+		const owned = await createPlaylist(user.id);
+		const local = await createPlaylist(null);
+		await createSong(owned.id, 1, { genre: "ambient", userRating: "up" });
+		await createSong(owned.id, 2, { genre: "drill" });
+		await createSong(local.id, 1, { genre: "ska", userRating: "up" });
+
+		const profile = await tasteService.getTasteProfile(user.id);
+		expect(profile.songCount).toBe(1);
+		expect(profile.dimensions.genres.map((entry) => entry.value)).toEqual([
+			"ambient",
+		]);
+
+		const localProfile = await tasteService.getTasteProfileForPlaylist(
+			local.id,
+		);
+		expect(localProfile?.userId).toBeNull();
+		expect(localProfile?.dimensions.genres[0]?.value).toBe("ska");
+	});
+
+	it("has no prompt hint before any signals exist", async () => {
+		const playlist = await createPlaylist(null);
+		await createSong(playlist.id, 1, { genre: "ambient" });
+		expect(await tasteService.getTasteHint(null)).toBeUndefined();
+	});
+});
@@ -24,6 +24,38 @@ const SCHEMA_SQL = `
 		last_seen_at INTEGER
 	);
 
+	CREATE TABLE local_accounts (
+		id TEXT PRIMARY KEY,
+		created_at INTEGER NOT NULL,
+		user_id TEXT NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+		username TEXT NOT NULL UNIQUE,
+		password_hash TEXT NOT NULL,
+		password_updated_at INTEGER
+	);
+
+	CREATE TABLE auth_sessions (
+		id TEXT PRIMARY KEY,
+		created_at INTEGER NOT NULL,
+		user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+		token_hash TEXT NOT NULL UNIQUE,
+		expires_at INTEGER NOT NULL,
+		last_used_at INTEGER,
+		user_agent TEXT
+	);
+
+	CREATE TABLE api_keys (
+		id TEXT PRIMARY KEY,
+		created_at INTEGER NOT NULL,
+		user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+		name TEXT NOT NULL,
+		token_hash TEXT NOT NULL UNIQUE,
+		prefix TEXT NOT NULL,
+		scopes TEXT NOT NULL,
+		expires_at INTEGER,
+		last_used_at INTEGER,
+		revoked_at INTEGER
+	);
+
 	CREATE TABLE playlists (
 		id TEXT PRIMARY KEY,
 		created_at INTEGER NOT NULL,
@@ -65,7 +97,12 @@ const SCHEMA_SQL = `
 		ace_thinking INTEGER,
 		ace_auto_duration INTEGER,
 		description TEXT,
-		description_updated_at INTEGER
+		description_updated_at INTEGER,
+		imported_from_id TEXT,
+		quality_retry_budget INTEGER,
+		budget_songs_per_hour INTEGER,
+		budget_tokens_per_day INTEGER,
+		budget_gpu_minutes_per_day REAL
 	);
 
 	CREATE TABLE songs (
@@ -99,6 +136,7 @@ const SCHEMA_SQL = `
 		status TEXT NOT NULL DEFAULT 'pending',
 		ace_task_id TEXT,
 		ace_submitted_at INTEGER,
+		ace_endpoint TEXT,
 		audio_url TEXT,
 		storage_path TEXT,
 		ace_audio_path TEXT,
@@ -116,10 +154,22 @@ const SCHEMA_SQL = `
 		user_rating TEXT,
 		play_duration_ms INTEGER,
 		listen_count INTEGER DEFAULT 0,
+		skip_count INTEGER DEFAULT 0,
+		early_skip_count INTEGER DEFAULT 0,
 		metadata_processing_ms INTEGER,
 		cover_processing_ms INTEGER,
 		audio_processing_ms INTEGER,
-		persona_extract TEXT
+		persona_extract TEXT,
+		parent_song_id TEXT REFERENCES songs(id) ON DELETE SET NULL,
+		variation_mode TEXT,
+		loudness_lufs REAL,
+		true_peak_dbtp REAL,
+		replay_gain_db REAL,
+		waveform_peaks TEXT,
+		energy_curve TEXT,
+		measured_bpm REAL,
+		measured_key TEXT,
+		analysis_mismatch TEXT
 	);
 
 	CREATE TABLE settings (
@@ -151,6 +201,31 @@ const SCHEMA_SQL = `
 			is_active INTEGER NOT NULL DEFAULT 1
 		);
 
+		CREATE TABLE playlist_collaborators (
+			id TEXT PRIMARY KEY,
+			created_at INTEGER NOT NULL,
+			playlist_id TEXT NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+			user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+			role TEXT NOT NULL,
+			invited_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL
+		);
+
+		CREATE UNIQUE INDEX playlist_collaborators_by_playlist_user
+			ON playlist_collaborators(playlist_id, user_id);
+
+		CREATE TABLE playlist_invites (
+			id TEXT PRIMARY KEY,
+			created_at INTEGER NOT NULL,
+			playlist_id TEXT NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+			token_hash TEXT NOT NULL UNIQUE,
+			role TEXT NOT NULL,
+			created_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+			expires_at INTEGER,
+			max_uses INTEGER,
+			uses INTEGER NOT NULL DEFAULT 0,
+			revoked_at INTEGER
+		);
+
 		CREATE TABLE agent_channel_messages (
 			id TEXT PRIMARY KEY,
 			created_at INTEGER NOT NULL,
@@ -194,6 +269,172 @@ const SCHEMA_SQL = `
 			output_json TEXT,
 			error TEXT
 		);
+
+		CREATE TABLE quality_checks (
+			id TEXT PRIMARY KEY,
+			created_at INTEGER NOT NULL,
+			playlist_id TEXT NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+			song_id TEXT NOT NULL REFERENCES songs(id) ON DELETE CASCADE,
+			passed INTEGER NOT NULL,
+			retried INTEGER NOT NULL DEFAULT 0,
+			issues TEXT,
+			reason TEXT,
+			metrics TEXT
+		);
+
+		CREATE TABLE usage_events (
+			id TEXT PRIMARY KEY,
+			created_at INTEGER NOT NULL,
+			playlist_id TEXT REFERENCES playlists(id) ON DELETE CASCADE,
+			song_id TEXT REFERENCES songs(id) ON DELETE SET NULL,
+			kind TEXT NOT NULL,
+			provider TEXT NOT NULL,
+			model TEXT,
+			input_tokens INTEGER NOT NULL DEFAULT 0,
+			output_tokens INTEGER NOT NULL DEFAULT 0,
+			cost_usd REAL NOT NULL DEFAULT 0,
+			gpu_seconds REAL NOT NULL DEFAULT 0
+		);
+
+		CREATE TABLE song_skips (
+			id TEXT PRIMARY KEY,
+			created_at INTEGER NOT NULL,
+			song_id TEXT NOT NULL REFERENCES songs(id) ON DELETE CASCADE,
+			playlist_id TEXT NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+			position_sec REAL NOT NULL,
+			duration_sec REAL,
+			device_id TEXT,
+			device_name TEXT,
+			source TEXT NOT NULL,
+			early INTEGER NOT NULL DEFAULT 0
+		);
+
+		CREATE TABLE house_schedules (
+			id TEXT PRIMARY KEY,
+			created_at INTEGER NOT NULL,
+			owner_user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+			name TEXT NOT NULL,
+			playlist_id TEXT NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+			device_id TEXT REFERENCES devices(id) ON DELETE SET NULL,
+			start_cron TEXT NOT NULL,
+			stop_cron TEXT,
+			volume REAL,
+			fade_in_sec INTEGER NOT NULL DEFAULT 0,
+			enabled INTEGER NOT NULL DEFAULT 1,
+			last_started_at INTEGER,
+			last_stopped_at INTEGER,
+			last_error TEXT
+		);
+
+		CREATE TABLE house_schedule_runs (
+			id TEXT PRIMARY KEY,
+			schedule_id TEXT NOT NULL REFERENCES house_schedules(id) ON DELETE CASCADE,
+			action TEXT NOT NULL,
+			scheduled_for INTEGER NOT NULL,
+			executed_at INTEGER NOT NULL,
+			ok INTEGER NOT NULL DEFAULT 1,
+			error TEXT
+		);
+
+		CREATE UNIQUE INDEX house_schedule_runs_by_slot
+			ON house_schedule_runs(schedule_id, action, scheduled_for);
+
+		CREATE TABLE webhooks (
+			id TEXT PRIMARY KEY,
+			created_at INTEGER NOT NULL,
+			name TEXT NOT NULL,
+			url TEXT NOT NULL,
+			secret TEXT NOT NULL,
+			events TEXT NOT NULL,
+			playlist_id TEXT REFERENCES playlists(id) ON DELETE CASCADE,
+			enabled INTEGER NOT NULL DEFAULT 1,
+			last_delivery_at INTEGER,
+			last_delivery_status TEXT
+		);
+
+		CREATE TABLE webhook_deliveries (
+			id TEXT PRIMARY KEY,
+			created_at INTEGER NOT NULL,
+			webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+			event TEXT NOT NULL,
+			payload TEXT NOT NULL,
+			status TEXT NOT NULL DEFAULT 'pending',
+			attempts INTEGER NOT NULL DEFAULT 0,
+			next_attempt_at INTEGER,
+			last_attempt_at INTEGER,
+			response_status INTEGER,
+			error TEXT,
+			delivered_at INTEGER
+		);
+
+		CREATE TABLE audit_events (
+			id TEXT PRIMARY KEY,
+			created_at INTEGER NOT NULL,
+			actor_kind TEXT NOT NULL,
+			actor_user_id TEXT,
+			actor_name TEXT,
+			device_id TEXT,
+			device_name TEXT,
+			method TEXT NOT NULL,
+			route TEXT NOT NULL,
+			action TEXT NOT NULL,
+			playlist_id TEXT,
+			target_id TEXT,
+			before TEXT,
+			after TEXT
+		);
+
+		CREATE TABLE song_provenance (
+			song_id TEXT PRIMARY KEY REFERENCES songs(id) ON DELETE CASCADE,
+			created_at INTEGER NOT NULL,
+			updated_at INTEGER NOT NULL,
+			source_song_id TEXT REFERENCES songs(id) ON DELETE SET NULL,
+			prompt TEXT,
+			prompt_epoch INTEGER,
+			steer_direction TEXT,
+			prompt_contract TEXT,
+			llm_provider TEXT,
+			llm_model TEXT,
+			manager_slot TEXT,
+			taste_profile TEXT,
+			persona_provider TEXT,
+			persona_model TEXT,
+			ace_inputs TEXT,
+			ace_seed INTEGER,
+			cover_prompt TEXT,
+			cover_provider TEXT,
+			cover_model TEXT,
+			timings TEXT
+		);
+
+		CREATE VIRTUAL TABLE songs_fts USING fts5(
+			song_id UNINDEXED,
+			title,
+			artist_name,
+			genre,
+			sub_genre,
+			description,
+			lyrics,
+			tags,
+			themes,
+			tokenize = 'unicode61 remove_diacritics 2'
+		);
+
+		CREATE TRIGGER songs_fts_after_insert AFTER INSERT ON songs BEGIN
+			INSERT INTO songs_fts (song_id, title, artist_name, genre, sub_genre, description, lyrics, tags, themes)
+			VALUES (new.id, new.title, new.artist_name, new.genre, new.sub_genre, new.description, new.lyrics, new.tags, new.themes);
+		END;
+
+		CREATE TRIGGER songs_fts_after_delete AFTER DELETE ON songs BEGIN
+			DELETE FROM songs_fts WHERE song_id = old.id;
+		END;
+
+		CREATE TRIGGER songs_fts_after_update
+		AFTER UPDATE OF title, artist_name, genre, sub_genre, description, lyrics, tags, themes ON songs BEGIN
+			DELETE FROM songs_fts WHERE song_id = old.id;
+			INSERT INTO songs_fts (song_id, title, artist_name, genre, sub_genre, description, lyrics, tags, themes)
+			VALUES (new.id, new.title, new.artist_name, new.genre, new.sub_genre, new.description, new.lyrics, new.tags, new.themes);
+		END;
 	`;
 
 export function setupTestDb() {
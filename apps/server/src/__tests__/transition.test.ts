@@ -0,0 +1,38 @@
+import { planTransitionWindow } from "@infinitune/shared/transition";
+import { describe, expect, it } from "vitest";
+
+describe("planTransitionWindow", () => {
+	it("returns null for cuts and unknown durations", () => {
+		expect(planTransitionWindow({ mode: "cut", seconds: 4 }, 180)).toBeNull();
+		expect(
+			planTransitionWindow({ mode: "crossfade", seconds: 0 }, 180),
+		).toBeNull();
+		expect(
+			planTransitionWindow({ mode: "crossfade", seconds: 4 }, null),
+		).toBeNull();
+	});
+
+	it("overlaps the last seconds of the song", () => {
+		expect(
+			planTransitionWindow({ mode: "crossfade", seconds: 6 }, 180),
+		).toEqual({ offsetSec: 174, durationSec: 6 });
+		// Never more than half of a very short song
+		expect(planTransitionWindow({ mode: "crossfade", seconds: 8 }, 10)).toEqual(
+			{ offsetSec: 5, durationSec: 5 },
+		);
+	});
+
+	it("snaps beat transitions to whole bars", () => {
+		// 120 BPM → 2s bars; 4.5s rounds to 2 bars, starting on a bar line
+		expect(
+			planTransitionWindow({ mode: "beat", seconds: 4.5 }, 181, 120),
+		).toEqual({ offsetSec: 176, durationSec: 4 });
+	});
+
+	it("falls back to a plain crossfade without a BPM", () => {
+		expect(planTransitionWindow({ mode: "beat", seconds: 5 }, 180)).toEqual({
+			offsetSec: 175,
+			durationSec: 5,
+		});
+	});
+});
@@ -0,0 +1,179 @@
+import { findExceededBudgets } from "@infinitune/shared/usage";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+import { playlists, songs, usageEvents } from "../db/schema";
+import * as usageService from "../services/usage-service";
+
+async function createPlaylist(overrides?: Record<string, unknown>) {
+	const [row] = await getTestDb()
+		.insert(playlists)
+		.values({
+			name: "Budgeted",
+			prompt: "lofi beats",
+			llmProvider: "anthropic",
+			llmModel: "claude",
+			...overrides,
+		})
+		.returning();
+	return row;
+}
+
+async function createSong(playlistId: string, orderIndex: number) {
+	const [row] = await getTestDb()
+		.insert(songs)
+		.values({ playlistId, orderIndex, status: "pending" })
+		.returning();
+	return row;
+}
+
+beforeEach(() => setupTestDb());
+afterEach(() => teardownTestDb());
+
+describe("usage recording", () => {
+	it("attributes LLM usage to the ambient playlist and song", async () => {
+		const playlist = await createPlaylist();
+		const song = await createSong(playlist.id, 1);
+
+		await usageService.runWithUsageScope(
+			{ playlistId: playlist.id, songId: song.id },
+			() =>
+				usageService.recordLlmUsage({
+					provider: "anthropic",
+					model: "claude",
+					inputTokens: 1200,
+					outputTokens: 300,
+					costUsd: 0.012,
+				}),
+		);
+		// Outside any scope: unattributed
+		await usageService.recordLlmUsage({ provider: "anthropic" });
+
+		const rows = await getTestDb().select().from(usageEvents);
+		expect(rows).toHaveLength(2);
+		expect(rows.find((row) => row.playlistId === playlist.id)).toMatchObject({
+			songId: song.id,
+			kind: "llm",
+			inputTokens: 1200,
+			outputTokens: 300,
+		});
+		expect(rows.some((row) => row.playlistId === null)).toBe(true);
+	});
+
+	it("rolls usage up per playlist and checks the budget windows", async () => {
+		const playlist = await createPlaylist({
+			budgetSongsPerHour: 2,
+			budgetTokensPerDay: 10_000,
+			budgetGpuMinutesPerDay: 5,
+		});
+		await createSong(playlist.id, 1);
+		await usageService.recordLlmUsage({
+			provider: "openai-codex",
+			inputTokens: 4000,
+			outputTokens: 1000,
+		});
+		await usageService.runWithUsageScope({ playlistId: playlist.id }, () =>
+			usageService.recordLlmUsage({
+				provider: "openai-codex",
+				inputTokens: 4000,
+				outputTokens: 1000,
+			}),
+		);
+		await usageService.recordImageCall({
+			provider: "inference-sh",
+			playlistId: playlist.id,
+		});
+		await usageService.recordAudioRender({
+			gpuSeconds: 90,
+			playlistId: playlist.id,
+		});
+		// Outside the 24h window
+		await getTestDb()
+			.insert(usageEvents)
+			.values({
+				createdAt: Date.now() - 2 * 24 * 60 * 60 * 1000,
+				playlistId: playlist.id,
+				kind: "audio",
+				provider: "ace-step",
+				gpuSeconds: 600,
+			});
+
+		const usage = await usageService.getPlaylistUsage(playlist.id);
+		expect(usage?.total).toMatchObject({
+			llmCalls: 1,
+			inputTokens: 4000,
+			outputTokens: 1000,
+			imageCalls: 1,
+			audioRenders: 2,
+			gpuSeconds: 690,
+		});
+		expect(usage?.window).toEqual({
+			songsLastHour: 1,
+			tokensLastDay: 5000,
+			gpuSecondsLastDay: 90,
+		});
+		expect(usage?.daily.length).toBeGreaterThanOrEqual(1);
+		expect(usage?.exceeded).toEqual([]);
+
+		const allowance = await usageService.getSongAllowance(playlist);
+		expect(allowance.allowance).toBe(1);
+	});
+
+	it("reports no allowance once a budget is spent", async () => {
+		const playlist = await createPlaylist({ budgetTokensPerDay: 1000 });
+		await usageService.runWithUsageScope({ playlistId: playlist.id }, () =>
+			usageService.recordLlmUsage({
+				provider: "anthropic",
+				inputTokens: 900,
+				outputTokens: 200,
+			}),
+		);
+
+		expect(await usageService.getSongAllowance(playlist)).toEqual({
+			allowance: 0,
+			exceeded: ["tokensPerDay"],
+		});
+	});
+});
+
+describe("budget helpers", () => {
+	it("treats null budgets as unlimited", () => {
+		expect(
+			findExceededBudgets(
+				{ songsPerHour: null, tokensPerDay: null, gpuMinutesPerDay: null },
+				{ songsLastHour: 99, tokensLastDay: 1e9, gpuSecondsLastDay: 1e6 },
+			),
+		).toEqual([]);
+	});
+
+	it("compares GPU minutes against seconds of usage", () => {
+		expect(
+			findExceededBudgets(
+				{ songsPerHour: null, tokensPerDay: null, gpuMinutesPerDay: 2 },
+				{ songsLastHour: 0, tokensLastDay: 0, gpuSecondsLastDay: 120 },
+			),
+		).toEqual(["gpuMinutesPerDay"]);
+	});
+
+	it("prefers ACE's total time cost over summing stages", () => {
+		expect(
+			usageService.aceGpuSeconds({ diffusion: 30, vae: 5, total_time: 40 }),
+		).toBe(40);
+		expect(usageService.aceGpuSeconds({ diffusion: 30, vae: 5 })).toBe(35);
+		expect(usageService.aceGpuSeconds(undefined, 12_000)).toBe(12);
+	});
+});
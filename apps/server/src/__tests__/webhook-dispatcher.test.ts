@@ -0,0 +1,241 @@
+import { createHmac } from "node:crypto";
+import { WEBHOOK_SIGNATURE_HEADER } from "@infinitune/shared/webhooks";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getTestDb, setupTestDb, teardownTestDb } from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+}));
+
+vi.mock("../events/event-bus", () => ({
+	emit: vi.fn(),
+	on: vi.fn(),
+	removeAllListeners: vi.fn(),
+}));
+
+import { playlists } from "../db/schema";
+import {
+	deliver,
+	dispatchEvent,
+	retryDelayMs,
+	sendTestDelivery,
+	signWebhookPayload,
+	webhookMatches,
+} from "../events/webhook-dispatcher";
+import * as webhookService from "../services/webhook-service";
+
+const fetchMock = vi.fn();
+
+function respond(status: number) {
+	fetchMock.mockResolvedValueOnce(new Response("ok", { status }));
+}
+
+async function createPlaylist(name: string) {
+	const [playlist] = await getTestDb()
+		.insert(playlists)
+		.values({
+			name,
+			prompt: "ambient",
+			llmProvider: "ollama",
+			llmModel: "llama3",
+		})
+		.returning();
+	return playlist;
+}
+
+describe("webhook signing and matching", () => {
+	it("signs timestamp and body with HMAC-SHA256", () => {
+		const body = JSON.stringify({ hello: "world" });
+		const expected = createHmac("sha256", "whsec_test")
+			.update(`1700000000000.${body}`)
+			.digest("hex");
+		expect(signWebhookPayload("whsec_test", 1700000000000, body)).toBe(
+			`t=1700000000000,v1=${expected}`,
+		);
+	});
+
+	it("matches exact names, namespaces and wildcards", () => {
+		const hook = (events: string[]) => ({
+			events: JSON.stringify(events),
+			playlistId: null,
+		});
+		expect(webhookMatches(hook(["song.created"]), "song.created", {})).toBe(
+			true,
+		);
+		expect(webhookMatches(hook(["song.*"]), "song.deleted", {})).toBe(true);
+		expect(webhookMatches(hook(["song.*"]), "playlist.created", {})).toBe(
+			false,
+		);
+		expect(webhookMatches(hook(["*"]), "settings.changed", {})).toBe(true);
+	});
+
+	it("filters playlist-scoped events by playlist", () => {
+		const hook = { events: JSON.stringify(["*"]), playlistId: "p1" };
+		expect(webhookMatches(hook, "song.created", { playlistId: "p1" })).toBe(
+			true,
+		);
+		expect(webhookMatches(hook, "song.created", { playlistId: "p2" })).toBe(
+			false,
+		);
+		expect(webhookMatches(hook, "settings.changed", { key: "x" })).toBe(true);
+	});
+
+	it("backs off exponentially with a cap", () => {
+		expect(retryDelayMs(1)).toBe(15_000);
+		expect(retryDelayMs(2)).toBe(60_000);
+		expect(retryDelayMs(20)).toBe(60 * 60_000);
+	});
+});
+
+describe("webhook delivery", () => {
+	beforeEach(() => {
+		setupTestDb();
+		fetchMock.mockReset();
+		vi.stubGlobal("fetch", fetchMock);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		teardownTestDb();
+	});
+
+	it("delivers a signed payload to matching webhooks only", async () => {
+		const playlist = await createPlaylist("Focus");
+		const other = await createPlaylist("Party");
+		const scoped = await webhookService.create({
+			name: "Scoped",
+			url: "http://hooks.local/scoped",
+			events: ["song.*"],
+			playlistId: playlist.id,
+		});
+		await webhookService.create({
+			name: "Playlists only",
+			url: "http://hooks.local/playlists",
+			events: ["playlist.*"],
+		});
+		respond(200);
+
+		await dispatchEvent("song.created", {
+			songId: "s1",
+			playlistId: playlist.id,
+		});
+		await dispatchEvent("song.created", { songId: "s2", playlistId: other.id });
+		// Live deliveries are sent in the background
+		await vi.waitFor(async () => {
+			const [delivery] = await webhookService.listDeliveries(scoped.id);
+			expect(delivery?.status).toBe("delivered");
+		});
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		const [url, init] = fetchMock.mock.calls[0];
+		expect(url).toBe("http://hooks.local/scoped");
+		const body = init.body as string;
+		expect(JSON.parse(body)).toMatchObject({
+			event: "song.created",
+			data: { songId: "s1" },
+		});
+		const signature = init.headers[WEBHOOK_SIGNATURE_HEADER] as string;
+		const timestamp = Number(signature.match(/^t=(\d+)/)?.[1]);
+		expect(signature).toBe(signWebhookPayload(scoped.secret, timestamp, body));
+
+		const [delivery] = await webhookService.listDeliveries(scoped.id);
+		expect(delivery).toMatchObject({
+			status: "delivered",
+			attempts: 1,
+			responseStatus: 200,
+		});
+		expect((await webhookService.getById(scoped.id))?.lastDeliveryStatus).toBe(
+			"delivered",
+		);
+	});
+
+	it("schedules a retry on server errors", async () => {
+		const webhook = await webhookService.create({
+			name: "Flaky",
+			url: "http://hooks.local/flaky",
+			events: ["*"],
+		});
+		respond(503);
+
+		const before = Date.now();
+		const delivery = await sendTestDelivery(webhook);
+
+		expect(delivery).toMatchObject({
+			status: "pending",
+			attempts: 1,
+			responseStatus: 503,
+			error: "HTTP 503",
+		});
+		expect(delivery?.nextAttemptAt).toBeGreaterThanOrEqual(
+			before + retryDelayMs(1),
+		);
+	});
+
+	it("gives up immediately on client errors", async () => {
+		const webhook = await webhookService.create({
+			name: "Gone",
+			url: "http://hooks.local/gone",
+			events: ["*"],
+		});
+		respond(410);
+
+		const delivery = await sendTestDelivery(webhook);
+
+		expect(delivery).toMatchObject({ status: "failed", attempts: 1 });
+		expect(delivery?.nextAttemptAt).toBeNull();
+		expect((await webhookService.getById(webhook.id))?.lastDeliveryStatus).toBe(
+			"failed",
+		);
+	});
+
+	it("sends a delivery once when the poller holds a stale copy", async () => {
+		const webhook = await webhookService.create({
+			name: "Once",
+			url: "http://hooks.local/once",
+			events: ["*"],
+		});
+		respond(200);
+		const stale = await webhookService.createDelivery({
+			id: "delivery-1",
+			webhookId: webhook.id,
+			event: "settings.changed",
+			payload: "{}",
+		});
+
+		expect(await deliver(stale, webhook)).toBe("delivered");
+		expect(await deliver(stale, webhook)).toBeNull();
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(await webhookService.getDelivery("delivery-1")).toMatchObject({
+			status: "delivered",
+			attempts: 1,
+		});
+	});
+
+	it("keeps the secret out of the listing wire shape", async () => {
+		const row = await webhookService.create({
+			name: "Lights",
+			url: "http://hooks.local/lights",
+			events: ["*"],
+		});
+
+		const listed = webhookService.toWire(row);
+		expect(listed).not.toHaveProperty("secret");
+		expect(row.secret.startsWith(listed.secretPrefix)).toBe(true);
+		expect(webhookService.toCreatedWire(row).secret).toBe(row.secret);
+	});
+
+	it("skips disabled webhooks", async () => {
+		await webhookService.create({
+			name: "Off",
+			url: "http://hooks.local/off",
+			events: ["*"],
+			enabled: false,
+		});
+
+		await dispatchEvent("settings.changed", { key: "ollamaUrl" });
+
+		expect(fetchMock).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,117 @@
+import type { Webhook } from "@infinitune/shared/webhooks";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	getTestDb,
+	getTestSqlite,
+	setupTestDb,
+	teardownTestDb,
+} from "./test-db";
+
+vi.mock("../db/index", () => ({
+	get db() {
+		return getTestDb();
+	},
+	get sqlite() {
+		return getTestSqlite();
+	},
+}));
+
+vi.mock("../events/event-bus", () => ({
+	emit: vi.fn(),
+	on: vi.fn(),
+	removeAllListeners: vi.fn(),
+}));
+
+vi.mock("../auth/actor", () => ({
+	requireUserActor: vi.fn().mockResolvedValue(null),
+}));
+
+import { requireUserActor } from "../auth/actor";
+import { playlists, users } from "../db/schema";
+import webhookRoutes from "../routes/webhooks";
+import * as webhookService from "../services/webhook-service";
+
+async function createUser(subject: string) {
+	const [user] = await getTestDb()
+		.insert(users)
+		.values({ shooSubject: subject })
+		.returning();
+	return user;
+}
+
+async function createPlaylist(ownerUserId: string) {
+	const [playlist] = await getTestDb()
+		.insert(playlists)
+		.values({
+			name: "Night Drive",
+			prompt: "synthwave",
+			llmProvider: "ollama",
+			llmModel: "llama3",
+			ownerUserId,
+		})
+		.returning();
+	return playlist;
+}
+
+function signIn(userId: string) {
+	vi.mocked(requireUserActor).mockResolvedValue({ kind: "user", userId });
+}
+
+function createWebhook(playlistId?: string) {
+	return webhookRoutes.request("/", {
+		method: "POST",
+		headers: { "content-type": "application/json" },
+		body: JSON.stringify({
+			name: "Lights",
+			url: "http://hooks.local/lights",
+			events: ["*"],
+			playlistId,
+		}),
+	});
+}
+
+beforeEach(() => {
+	setupTestDb();
+	// Outside production, servers without an admin token treat everyone as admin
+	vi.stubEnv("NODE_ENV", "production");
+});
+
+afterEach(() => {
+	vi.mocked(requireUserActor).mockResolvedValue(null);
+	vi.unstubAllEnvs();
+	teardownTestDb();
+});
+
+describe("/api/webhooks", () => {
+	it("requires a signed-in user", async () => {
+		expect((await webhookRoutes.request("/")).status).toBe(401);
+		expect((await createWebhook()).status).toBe(401);
+	});
+
+	it("limits users to webhooks on playlists they manage", async () => {
+		const owner = await createUser("owner");
+		const other = await createUser("other");
+		const own = await createPlaylist(owner.id);
+		const foreign = await createPlaylist(other.id);
+		const global = await webhookService.create({
+			name: "Everything",
+			url: "http://hooks.local/all",
+			events: ["*"],
+		});
+		signIn(owner.id);
+
+		expect((await createWebhook()).status).toBe(403);
+		expect((await createWebhook(foreign.id)).status).toBe(403);
+		expect((await createWebhook(own.id)).status).toBe(201);
+
+		const listed = (await (
+			await webhookRoutes.request("/")
+		).json()) as Webhook[];
+		expect(listed.map((webhook) => webhook.playlistId)).toEqual([own.id]);
+
+		const test = await webhookRoutes.request(`/${global.id}/test`, {
+			method: "POST",
+		});
+		expect(test.status).toBe(404);
+	});
+});
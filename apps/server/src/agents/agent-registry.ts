@@ -18,6 +18,7 @@ export type AgentToolName =
 	| "search_playlist_songs"
 	| "get_recent_songs"
 	| "get_rated_songs"
+	| "get_taste_profile"
 	| "get_topic_history"
 	| "get_generation_constraints"
 	| "save_playlist_plan"
@@ -71,6 +72,7 @@ const READ_CONTEXT_TOOLS: AgentToolName[] = [
 	"search_playlist_songs",
 	"get_recent_songs",
 	"get_rated_songs",
+	"get_taste_profile",
 	"get_topic_history",
 	"get_generation_constraints",
 	"memory_search",
@@ -143,6 +143,17 @@ export async function postChannelMessage(
 		playlistId: message.playlistId,
 		messageId: message.id,
 	});
+	if (message.messageType === "question") {
+		emit("agent.question_asked", {
+			playlistId: message.playlistId,
+			messageId: message.id,
+			senderId: message.senderId,
+			content: message.content,
+			requiresAnswer:
+				(message.data as { requiresAnswer?: unknown } | null)
+					?.requiresAnswer === true,
+		});
+	}
 	appendChannelMessageLog(message).catch((err) =>
 		logger.warn(
 			{ err, playlistId: message.playlistId, messageId: message.id },
@@ -18,6 +18,7 @@ import { promptInfinituneAgent } from "../external/pi-runtime";
 import { logger } from "../logger";
 import * as playlistService from "../services/playlist-service";
 import * as songService from "../services/song-service";
+import { runWithUsageScope } from "../services/usage-service";
 import { playlistToWire } from "../wire";
 import { getAgentSessionKey } from "./agent-registry";
 import {
@@ -91,14 +92,21 @@ function toRecentSong(song: SongLike): RecentSong | null {
 	};
 }
 
+/** Explicit ratings win; an unrated song skipped early counts as a soft dislike. */
 function toManagerRating(song: SongLike): ManagerRatingSignal | null {
-	if (song.userRating !== "up" && song.userRating !== "down") return null;
+	const rating =
+		song.userRating === "up" || song.userRating === "down"
+			? song.userRating
+			: (song.earlySkipCount ?? 0) > 0
+				? "skipped"
+				: null;
+	if (!rating) return null;
 	return {
 		title: song.title || "Untitled",
 		genre: nonEmpty(song.genre),
 		mood: nonEmpty(song.mood),
 		personaExtract: nonEmpty(song.personaExtract),
-		rating: song.userRating,
+		rating,
 	};
 }
 
@@ -376,24 +384,26 @@ export async function refreshPlaylistPlanWithDirector(input: {
 				correlationId,
 			});
 		}
-		const result = await generatePlaylistManagerPlan({
-			prompt: playlist.prompt,
-			provider: normalizeLlmProvider(input.provider),
-			model: input.model,
-			lyricsLanguage: playlist.lyricsLanguage ?? undefined,
-			recentSongs,
-			recentDescriptions,
-			ratingSignals,
-			webResearch: sourceResearch.results.map(
-				(result, index) =>
-					`${index + 1}. ${result.title}: ${result.snippet} (${result.url})`,
-			),
-			steerHistory: playlist.steerHistory,
-			previousBrief: playlist.managerBrief,
-			currentEpoch: playlist.promptEpoch ?? 0,
-			planWindow,
-			signal: input.signal,
-		});
+		const result = await runWithUsageScope({ playlistId: playlist.id }, () =>
+			generatePlaylistManagerPlan({
+				prompt: playlist.prompt,
+				provider: normalizeLlmProvider(input.provider),
+				model: input.model,
+				lyricsLanguage: playlist.lyricsLanguage ?? undefined,
+				recentSongs,
+				recentDescriptions,
+				ratingSignals,
+				webResearch: sourceResearch.results.map(
+					(result, index) =>
+						`${index + 1}. ${result.title}: ${result.snippet} (${result.url})`,
+				),
+				steerHistory: playlist.steerHistory,
+				previousBrief: playlist.managerBrief,
+				currentEpoch: playlist.promptEpoch ?? 0,
+				planWindow,
+				signal: input.signal,
+			}),
+		);
 		const managerPlan = addStartOrder(
 			result.managerPlan,
 			input.startOrderIndex,
@@ -503,19 +513,21 @@ export async function wakePlaylistDirector(input: {
 		});
 		let text = "";
 		try {
-			text = await promptInfinituneAgent({
-				agentId: "playlist-director",
-				scopeId: input.playlistId,
-				prompt: [
-					`Playlist ID: ${input.playlistId}`,
-					`Trigger: ${input.trigger}`,
-					input.userMessage ? `Human message: ${input.userMessage}` : "",
-					"Read playlist context, memory, and channel if needed. Reply to the human or post a decision only if committing a steering change.",
-					`Recent channel JSON: ${JSON.stringify(recent.slice(-12))}`,
-				]
-					.filter(Boolean)
-					.join("\n\n"),
-			});
+			text = await runWithUsageScope({ playlistId: input.playlistId }, () =>
+				promptInfinituneAgent({
+					agentId: "playlist-director",
+					scopeId: input.playlistId,
+					prompt: [
+						`Playlist ID: ${input.playlistId}`,
+						`Trigger: ${input.trigger}`,
+						input.userMessage ? `Human message: ${input.userMessage}` : "",
+						"Read playlist context, memory, and channel if needed. Reply to the human or post a decision only if committing a steering change.",
+						`Recent channel JSON: ${JSON.stringify(recent.slice(-12))}`,
+					]
+						.filter(Boolean)
+						.join("\n\n"),
+				}),
+			);
 		} catch (err) {
 			logger.warn(
 				{ err, playlistId: input.playlistId },
@@ -6,6 +6,7 @@ import { and, desc, eq, like } from "drizzle-orm";
 import { db } from "../../db/index";
 import { playlists, songs } from "../../db/schema";
 import * as playlistService from "../../services/playlist-service";
+import * as tasteService from "../../services/taste-service";
 import { parseJsonField, playlistToWire, songToWire } from "../../wire";
 import {
 	type AgentId,
@@ -215,7 +216,7 @@ export function createPlaylistContextTools(agentId: AgentId): ToolDefinition[] {
 			name: "get_rated_songs",
 			label: "Get Rated Songs",
 			description:
-				"Return liked and disliked songs, including persona extracts when available.",
+				"Return liked, disliked and early-skipped songs, including persona extracts when available.",
 			promptSnippet: "Use rated songs as taste feedback.",
 			parameters: Type.Object({
 				playlistId: Type.String(),
@@ -233,12 +234,33 @@ export function createPlaylistContextTools(agentId: AgentId): ToolDefinition[] {
 				return jsonResult({
 					songs: rows
 						.filter(
-							(song) => song.userRating === "up" || song.userRating === "down",
+							(song) =>
+								song.userRating === "up" ||
+								song.userRating === "down" ||
+								(song.earlySkipCount ?? 0) > 0,
 						)
 						.map(songToWire),
 				});
 			},
 		},
+		{
+			name: "get_taste_profile",
+			label: "Get Taste Profile",
+			description:
+				"Return the listener's cross-playlist taste profile: weighted genres, moods, energy, BPM ranges, vocal styles and themes learned from ratings, early skips and full listens.",
+			promptSnippet:
+				"Use the taste profile as a soft prior; the playlist prompt and steering win.",
+			parameters: Type.Object({ playlistId: Type.String() }),
+			execute: async (_id, params) => {
+				assertAgentToolAllowed(agentId, "get_taste_profile");
+				const p = params as { playlistId: string };
+				const profile = await tasteService.getTasteProfileForPlaylist(
+					p.playlistId,
+				);
+				if (!profile) throw new Error(`Playlist not found: ${p.playlistId}`);
+				return jsonResult(profile);
+			},
+		},
 		{
 			name: "get_topic_history",
 			label: "Get Topic History",
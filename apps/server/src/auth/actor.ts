@@ -1,5 +1,11 @@
+import { type ApiKeyScope, SESSION_COOKIE_NAME } from "@infinitune/shared/auth";
 import type { Context } from "hono";
+import { parse as parseCookies } from "hono/utils/cookie";
+import type { User } from "../db/schema";
+import * as accountService from "../services/account-service";
+import * as apiKeyService from "../services/api-key-service";
 import * as userService from "../services/user-service";
+import { isAuthProviderEnabled } from "./providers";
 import { parseBearerToken, verifyShooIdToken } from "./shoo";
 
 export type AnonymousActor = {
@@ -12,26 +18,73 @@ export type UserActor = {
 	email?: string;
 	name?: string;
 	picture?: string;
+	/** Only set when the request authenticated with a personal API key. */
+	scopes?: ApiKeyScope[];
 };
 
 export type RequestActor = AnonymousActor | UserActor;
 
-async function resolveUserActor(c: Context): Promise<UserActor | null> {
-	const token = parseBearerToken(c.req.header("authorization"));
-	if (!token) return null;
-
-	const identity = await verifyShooIdToken(token);
-	const user = await userService.upsertFromShoo(identity);
-
+function userActorFromUser(user: User, scopes?: ApiKeyScope[]): UserActor {
 	return {
 		kind: "user",
 		userId: user.id,
 		email: user.email ?? undefined,
 		name: user.displayName ?? undefined,
 		picture: user.picture ?? undefined,
+		...(scopes ? { scopes } : {}),
 	};
 }
 
+/** The local session token from a raw `Cookie` header, if any. */
+export function readSessionCookie(
+	cookieHeader: string | null | undefined,
+): string | null {
+	if (!cookieHeader) return null;
+	return (
+		parseCookies(cookieHeader, SESSION_COOKIE_NAME)[SESSION_COOKIE_NAME] || null
+	);
+}
+
+async function resolveUserActor(c: Context): Promise<UserActor | null> {
+	const token = parseBearerToken(c.req.header("authorization"));
+	if (token) return await userActorFromToken(token);
+	const session = readSessionCookie(c.req.header("cookie"));
+	if (session) return await userActorFromSessionToken(session);
+	return null;
+}
+
+/** Verify a raw Shoo ID token, e.g. one sent outside an HTTP header. */
+export async function userActorFromIdToken(token: string): Promise<UserActor> {
+	const identity = await verifyShooIdToken(token);
+	const user = await userService.upsertFromShoo(identity);
+	return userActorFromUser(user);
+}
+
+/** Verify a bearer credential: a personal API key or a Shoo ID token. */
+export async function userActorFromToken(token: string): Promise<UserActor> {
+	if (apiKeyService.isApiKeyToken(token)) {
+		const result = await apiKeyService.authenticate(token);
+		if (!result) throw new Error("Invalid API key");
+		return userActorFromUser(result.user, result.key.scopes);
+	}
+	if (!isAuthProviderEnabled("shoo")) {
+		throw new Error("Shoo sign-in is disabled");
+	}
+	return await userActorFromIdToken(token);
+}
+
+/** Verify a local sign-in session from the session cookie. */
+export async function userActorFromSessionToken(
+	token: string,
+): Promise<UserActor> {
+	if (!isAuthProviderEnabled("local")) {
+		throw new Error("Local sign-in is disabled");
+	}
+	const user = await accountService.authenticateSession(token);
+	if (!user) throw new Error("Session expired");
+	return userActorFromUser(user);
+}
+
 export async function getRequestActor(c: Context): Promise<RequestActor> {
 	try {
 		const userActor = await resolveUserActor(c);
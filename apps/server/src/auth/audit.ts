@@ -0,0 +1,52 @@
+import type { Context } from "hono";
+import { logger } from "../logger";
+import type { AuditRecordInput } from "../services/audit-service";
+import * as auditService from "../services/audit-service";
+import type { RequestActor } from "./actor";
+
+/** Who made a request: a person, a device token, or both. */
+export interface AuditSource {
+	actor?: RequestActor | null;
+	device?: { id: string; name: string } | null;
+}
+
+type AuditDetails = Omit<
+	AuditRecordInput,
+	| "actorKind"
+	| "actorUserId"
+	| "actorName"
+	| "deviceId"
+	| "deviceName"
+	| "method"
+	| "route"
+>;
+
+/**
+ * Append an audit entry for the current request. Failures are logged and
+ * swallowed: the action already happened, and losing an entry is better
+ * than reporting it as failed.
+ */
+export async function recordAudit(
+	c: Context,
+	source: AuditSource,
+	details: AuditDetails,
+): Promise<void> {
+	const user = source.actor?.kind === "user" ? source.actor : null;
+	try {
+		await auditService.record({
+			actorKind: user ? "user" : source.device ? "device" : "anonymous",
+			actorUserId: user?.userId ?? null,
+			actorName: user?.name ?? user?.email ?? null,
+			deviceId: source.device?.id ?? null,
+			deviceName: source.device?.name ?? null,
+			method: c.req.method,
+			route: c.req.path,
+			...details,
+		});
+	} catch (err) {
+		logger.warn(
+			{ err, action: details.action },
+			"Failed to record audit entry",
+		);
+	}
+}
@@ -0,0 +1,59 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+// scrypt cost parameters; stored with each hash so they can be raised later
+// without invalidating existing passwords.
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+
+function deriveKey(
+	password: string,
+	salt: Buffer,
+	params: { N: number; r: number; p: number; keyLength: number },
+): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		scrypt(
+			password.normalize("NFKC"),
+			salt,
+			params.keyLength,
+			{ N: params.N, r: params.r, p: params.p, maxmem: 64 * 1024 * 1024 },
+			(err, key) => (err ? reject(err) : resolve(key)),
+		);
+	});
+}
+
+/** Hash as `scrypt$N$r$p$salt$key`, both base64url. */
+export async function hashPassword(password: string): Promise<string> {
+	const salt = randomBytes(16);
+	const key = await deriveKey(password, salt, {
+		N: SCRYPT_N,
+		r: SCRYPT_R,
+		p: SCRYPT_P,
+		keyLength: KEY_LENGTH,
+	});
+	return [
+		"scrypt",
+		SCRYPT_N,
+		SCRYPT_R,
+		SCRYPT_P,
+		salt.toString("base64url"),
+		key.toString("base64url"),
+	].join("$");
+}
+
+export async function verifyPassword(
+	password: string,
+	stored: string,
+): Promise<boolean> {
+	const [scheme, n, r, p, saltText, keyText] = stored.split("$");
+	if (scheme !== "scrypt" || !saltText || !keyText) return false;
+	const expected = Buffer.from(keyText, "base64url");
+	const actual = await deriveKey(password, Buffer.from(saltText, "base64url"), {
+		N: Number(n),
+		r: Number(r),
+		p: Number(p),
+		keyLength: expected.length,
+	});
+	return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
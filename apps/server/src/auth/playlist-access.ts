@@ -0,0 +1,81 @@
+import {
+	type PlaylistPermission,
+	type PlaylistRole,
+	roleAllows,
+	strongestRole,
+} from "@infinitune/shared/playlist-roles";
+import * as collaboratorService from "../services/collaborator-service";
+import type { RequestActor } from "./actor";
+
+/**
+ * Who a request speaks for. Control routes accept a signed-in user, a
+ * device token, or both; a device acts with its owner's roles, capped at
+ * editor so a speaker's token can steer but never manage.
+ */
+export interface PlaylistPrincipal {
+	userId?: string | null;
+	deviceOwnerUserId?: string | null;
+}
+
+type OwnedPlaylist = { id: string; ownerUserId?: string | null };
+
+export function principalFromActor(actor: RequestActor): PlaylistPrincipal {
+	return { userId: actor.kind === "user" ? actor.userId : null };
+}
+
+function principalUserIds(principal: PlaylistPrincipal): string[] {
+	return [principal.userId, principal.deviceOwnerUserId].filter(
+		(userId, index, all): userId is string =>
+			Boolean(userId) && all.indexOf(userId) === index,
+	);
+}
+
+function ownerRole(
+	playlist: OwnedPlaylist,
+	principal: PlaylistPrincipal,
+): PlaylistRole | null {
+	// Playlists without an owner predate accounts and stay open to everyone
+	if (!playlist.ownerUserId) return "owner";
+	if (principal.userId === playlist.ownerUserId) return "owner";
+	if (principal.deviceOwnerUserId === playlist.ownerUserId) return "editor";
+	return null;
+}
+
+/** The principal's role on the playlist, or null when it can't see it at all. */
+export async function resolvePlaylistRole(
+	playlist: OwnedPlaylist,
+	principal: PlaylistPrincipal,
+): Promise<PlaylistRole | null> {
+	return (
+		ownerRole(playlist, principal) ??
+		(await collaboratorService.getCollaboratorRole(
+			playlist.id,
+			principalUserIds(principal),
+		))
+	);
+}
+
+export async function checkPlaylistPermission(
+	playlist: OwnedPlaylist,
+	principal: PlaylistPrincipal,
+	permission: PlaylistPermission,
+): Promise<{ role: PlaylistRole | null; allowed: boolean }> {
+	const role = await resolvePlaylistRole(playlist, principal);
+	return { role, allowed: roleAllows(role, permission) };
+}
+
+/** Keep playlists the principal owns or has been invited to. */
+export async function filterAccessiblePlaylists<T extends OwnedPlaylist>(
+	principal: PlaylistPrincipal,
+	playlists: T[],
+	permission: PlaylistPermission = "play",
+): Promise<T[]> {
+	const userIds = principalUserIds(principal);
+	const shared = await collaboratorService.listCollaboratorRoles(userIds);
+	return playlists.filter((playlist) =>
+		roleAllows(
+			strongestRole([ownerRole(playlist, principal), shared.get(playlist.id)]),
+			permission,
+		),
+	);
+}
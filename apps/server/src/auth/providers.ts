@@ -0,0 +1,29 @@
+import { AUTH_PROVIDERS, type AuthProvider } from "@infinitune/shared/auth";
+
+function parseProviders(value: string | undefined): AuthProvider[] {
+	const requested = (value ?? "shoo")
+		.split(",")
+		.map((entry) => entry.trim().toLowerCase())
+		.filter((entry): entry is AuthProvider =>
+			(AUTH_PROVIDERS as readonly string[]).includes(entry),
+		);
+	return requested.length > 0 ? [...new Set(requested)] : ["shoo"];
+}
+
+/** Read per call so tests and restarts pick up env changes. */
+export function getEnabledAuthProviders(): AuthProvider[] {
+	return parseProviders(process.env.AUTH_PROVIDERS);
+}
+
+export function isAuthProviderEnabled(provider: AuthProvider): boolean {
+	return getEnabledAuthProviders().includes(provider);
+}
+
+/**
+ * Local sign-up is closed by default once the first account exists;
+ * `LOCAL_AUTH_SIGNUP=open` lets anyone create an account.
+ */
+export function isLocalSignupOpen(hasAccounts: boolean): boolean {
+	if (!isAuthProviderEnabled("local")) return false;
+	return !hasAccounts || process.env.LOCAL_AUTH_SIGNUP === "open";
+}
@@ -0,0 +1,44 @@
+import { type ApiKeyScope, scopeAllows } from "@infinitune/shared/auth";
+import type { MiddlewareHandler } from "hono";
+import * as apiKeyService from "../services/api-key-service";
+import { parseBearerToken } from "./shoo";
+
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// Mutations under these prefixes change server-wide state or credentials
+const ADMIN_PREFIXES = [
+	"/api/auth/",
+	"/api/settings",
+	"/api/webhooks",
+	"/api/worker",
+];
+
+/** The scope an API key needs for a request. */
+export function requiredApiKeyScope(method: string, path: string): ApiKeyScope {
+	// Listing keys is as sensitive as creating them, and the audit log
+	// exposes every caller's activity
+	if (path.startsWith("/api/auth/api-keys")) return "admin";
+	if (path.startsWith("/api/audit")) return "admin";
+	if (READ_METHODS.has(method.toUpperCase())) return "read";
+	if (ADMIN_PREFIXES.some((prefix) => path.startsWith(prefix))) return "admin";
+	if (path.startsWith("/api/v1/")) return "control";
+	return "generate";
+}
+
+/**
+ * Reject API-key requests outside the key's scopes before they reach a
+ * route. Other credentials pass through; routes still resolve the actor
+ * themselves through `requireUserActor`.
+ */
+export const apiKeyScopeGuard: MiddlewareHandler = async (c, next) => {
+	const token = parseBearerToken(c.req.header("authorization"));
+	if (!token || !apiKeyService.isApiKeyToken(token)) return next();
+
+	const result = await apiKeyService.authenticate(token);
+	if (!result) return c.json({ error: "Invalid API key" }, 401);
+	const scope = requiredApiKeyScope(c.req.method, c.req.path);
+	if (!scopeAllows(result.key.scopes, scope)) {
+		return c.json({ error: `API key lacks the "${scope}" scope` }, 403);
+	}
+	return next();
+};
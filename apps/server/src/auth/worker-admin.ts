@@ -0,0 +1,14 @@
+import type { Context } from "hono";
+
+const WORKER_ADMIN_TOKEN = process.env.INFINITUNE_WORKER_ADMIN_TOKEN?.trim();
+
+/**
+ * Whether the request carries the worker admin token. Without a configured
+ * token, development servers treat every caller as admin.
+ */
+export function isWorkerAdmin(c: Context): boolean {
+	if (!WORKER_ADMIN_TOKEN && process.env.NODE_ENV !== "production") return true;
+	const bearer = c.req.header("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+	const supplied = c.req.header("x-admin-token") ?? bearer;
+	return !!WORKER_ADMIN_TOKEN && supplied === WORKER_ADMIN_TOKEN;
+}
@@ -189,3 +189,12 @@ export async function saveCoverFromUrl(
 export function getCoversDir(): string {
 	return COVERS_DIR;
 }
+
+/** Map a `/covers/<file>` URL back to its file on disk, if it exists. */
+export function resolveCoverFile(
+	url: string | null | undefined,
+): string | null {
+	if (!url?.startsWith("/covers/")) return null;
+	const filePath = path.join(COVERS_DIR, path.basename(url));
+	return fs.existsSync(filePath) ? filePath : null;
+}
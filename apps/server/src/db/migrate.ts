@@ -40,6 +40,42 @@ export function ensureSchema() {
 
 		CREATE INDEX IF NOT EXISTS users_by_shoo_subject ON users(shoo_subject);
 
+		CREATE TABLE IF NOT EXISTS local_accounts (
+			id TEXT PRIMARY KEY,
+			created_at INTEGER NOT NULL,
+			user_id TEXT NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+			username TEXT NOT NULL UNIQUE,
+			password_hash TEXT NOT NULL,
+			password_updated_at INTEGER
+		);
+
+		CREATE TABLE IF NOT EXISTS auth_sessions (
+			id TEXT PRIMARY KEY,
+			created_at INTEGER NOT NULL,
+			user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+			token_hash TEXT NOT NULL UNIQUE,
+			expires_at INTEGER NOT NULL,
+			last_used_at INTEGER,
+			user_agent TEXT
+		);
+
+		CREATE INDEX IF NOT EXISTS auth_sessions_by_user ON auth_sessions(user_id);
+
+		CREATE TABLE IF NOT EXISTS api_keys (
+			id TEXT PRIMARY KEY,
+			created_at INTEGER NOT NULL,
+			user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+			name TEXT NOT NULL,
+			token_hash TEXT NOT NULL UNIQUE,
+			prefix TEXT NOT NULL,
+			scopes TEXT NOT NULL,
+			expires_at INTEGER,
+			last_used_at INTEGER,
+			revoked_at INTEGER
+		);
+
+		CREATE INDEX IF NOT EXISTS api_keys_by_user ON api_keys(user_id);
+
 		CREATE TABLE IF NOT EXISTS playlists (
 			id TEXT PRIMARY KEY,
 			created_at INTEGER NOT NULL,
@@ -183,6 +219,36 @@ export function ensureSchema() {
 			CREATE INDEX IF NOT EXISTS playlist_device_assignments_by_active
 				ON playlist_device_assignments(is_active);
 
+			CREATE TABLE IF NOT EXISTS playlist_collaborators (
+				id TEXT PRIMARY KEY,
+				created_at INTEGER NOT NULL,
+				playlist_id TEXT NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+				user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+				role TEXT NOT NULL,
+				invited_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL
+			);
+
+			CREATE UNIQUE INDEX IF NOT EXISTS playlist_collaborators_by_playlist_user
+				ON playlist_collaborators(playlist_id, user_id);
+			CREATE INDEX IF NOT EXISTS playlist_collaborators_by_user
+				ON playlist_collaborators(user_id);
+
+			CREATE TABLE IF NOT EXISTS playlist_invites (
+				id TEXT PRIMARY KEY,
+				created_at INTEGER NOT NULL,
+				playlist_id TEXT NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+				token_hash TEXT NOT NULL UNIQUE,
+				role TEXT NOT NULL,
+				created_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+				expires_at INTEGER,
+				max_uses INTEGER,
+				uses INTEGER NOT NULL DEFAULT 0,
+				revoked_at INTEGER
+			);
+
+			CREATE INDEX IF NOT EXISTS playlist_invites_by_playlist
+				ON playlist_invites(playlist_id);
+
 			CREATE TABLE IF NOT EXISTS agent_channel_messages (
 				id TEXT PRIMARY KEY,
 				created_at INTEGER NOT NULL,
@@ -245,6 +311,177 @@ export function ensureSchema() {
 				ON agent_runs(playlist_id, created_at);
 			CREATE INDEX IF NOT EXISTS agent_runs_by_agent
 				ON agent_runs(agent_id, created_at);
+
+			CREATE TABLE IF NOT EXISTS quality_checks (
+				id TEXT PRIMARY KEY,
+				created_at INTEGER NOT NULL,
+				playlist_id TEXT NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+				song_id TEXT NOT NULL REFERENCES songs(id) ON DELETE CASCADE,
+				passed INTEGER NOT NULL,
+				retried INTEGER NOT NULL DEFAULT 0,
+				issues TEXT,
+				reason TEXT,
+				metrics TEXT
+			);
+
+			CREATE INDEX IF NOT EXISTS quality_checks_by_playlist
+				ON quality_checks(playlist_id, created_at);
+			CREATE INDEX IF NOT EXISTS quality_checks_by_song
+				ON quality_checks(song_id);
+
+			CREATE TABLE IF NOT EXISTS usage_events (
+				id TEXT PRIMARY KEY,
+				created_at INTEGER NOT NULL,
+				playlist_id TEXT REFERENCES playlists(id) ON DELETE CASCADE,
+				song_id TEXT REFERENCES songs(id) ON DELETE SET NULL,
+				kind TEXT NOT NULL,
+				provider TEXT NOT NULL,
+				model TEXT,
+				input_tokens INTEGER NOT NULL DEFAULT 0,
+				output_tokens INTEGER NOT NULL DEFAULT 0,
+				cost_usd REAL NOT NULL DEFAULT 0,
+				gpu_seconds REAL NOT NULL DEFAULT 0
+			);
+
+			CREATE INDEX IF NOT EXISTS usage_events_by_playlist
+				ON usage_events(playlist_id, created_at);
+			CREATE INDEX IF NOT EXISTS usage_events_by_created
+				ON usage_events(created_at);
+
+			CREATE TABLE IF NOT EXISTS song_skips (
+				id TEXT PRIMARY KEY,
+				created_at INTEGER NOT NULL,
+				song_id TEXT NOT NULL REFERENCES songs(id) ON DELETE CASCADE,
+				playlist_id TEXT NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+				position_sec REAL NOT NULL,
+				duration_sec REAL,
+				device_id TEXT,
+				device_name TEXT,
+				source TEXT NOT NULL,
+				early INTEGER NOT NULL DEFAULT 0
+			);
+
+			CREATE INDEX IF NOT EXISTS song_skips_by_song
+				ON song_skips(song_id, created_at);
+			CREATE INDEX IF NOT EXISTS song_skips_by_playlist
+				ON song_skips(playlist_id, created_at);
+
+			CREATE TABLE IF NOT EXISTS house_schedules (
+				id TEXT PRIMARY KEY,
+				created_at INTEGER NOT NULL,
+				owner_user_id TEXT REFERENCES users(id) ON DELETE CASCADE,
+				name TEXT NOT NULL,
+				playlist_id TEXT NOT NULL REFERENCES playlists(id) ON DELETE CASCADE,
+				device_id TEXT REFERENCES devices(id) ON DELETE SET NULL,
+				start_cron TEXT NOT NULL,
+				stop_cron TEXT,
+				volume REAL,
+				fade_in_sec INTEGER NOT NULL DEFAULT 0,
+				enabled INTEGER NOT NULL DEFAULT 1,
+				last_started_at INTEGER,
+				last_stopped_at INTEGER,
+				last_error TEXT
+			);
+
+			CREATE INDEX IF NOT EXISTS house_schedules_by_owner
+				ON house_schedules(owner_user_id);
+			CREATE INDEX IF NOT EXISTS house_schedules_by_playlist
+				ON house_schedules(playlist_id);
+
+			CREATE TABLE IF NOT EXISTS house_schedule_runs (
+				id TEXT PRIMARY KEY,
+				schedule_id TEXT NOT NULL REFERENCES house_schedules(id) ON DELETE CASCADE,
+				action TEXT NOT NULL,
+				scheduled_for INTEGER NOT NULL,
+				executed_at INTEGER NOT NULL,
+				ok INTEGER NOT NULL DEFAULT 1,
+				error TEXT
+			);
+
+			CREATE UNIQUE INDEX IF NOT EXISTS house_schedule_runs_by_slot
+				ON house_schedule_runs(schedule_id, action, scheduled_for);
+
+			CREATE TABLE IF NOT EXISTS webhooks (
+				id TEXT PRIMARY KEY,
+				created_at INTEGER NOT NULL,
+				name TEXT NOT NULL,
+				url TEXT NOT NULL,
+				secret TEXT NOT NULL,
+				events TEXT NOT NULL,
+				playlist_id TEXT REFERENCES playlists(id) ON DELETE CASCADE,
+				enabled INTEGER NOT NULL DEFAULT 1,
+				last_delivery_at INTEGER,
+				last_delivery_status TEXT
+			);
+
+			CREATE TABLE IF NOT EXISTS webhook_deliveries (
+				id TEXT PRIMARY KEY,
+				created_at INTEGER NOT NULL,
+				webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+				event TEXT NOT NULL,
+				payload TEXT NOT NULL,
+				status TEXT NOT NULL DEFAULT 'pending',
+				attempts INTEGER NOT NULL DEFAULT 0,
+				next_attempt_at INTEGER,
+				last_attempt_at INTEGER,
+				response_status INTEGER,
+				error TEXT,
+				delivered_at INTEGER
+			);
+
+			CREATE INDEX IF NOT EXISTS webhooks_by_enabled
+				ON webhooks(enabled);
+			CREATE INDEX IF NOT EXISTS webhook_deliveries_by_webhook
+				ON webhook_deliveries(webhook_id, created_at);
+			CREATE INDEX IF NOT EXISTS webhook_deliveries_by_due
+				ON webhook_deliveries(status, next_attempt_at);
+
+			CREATE TABLE IF NOT EXISTS audit_events (
+				id TEXT PRIMARY KEY,
+				created_at INTEGER NOT NULL,
+				actor_kind TEXT NOT NULL,
+				actor_user_id TEXT,
+				actor_name TEXT,
+				device_id TEXT,
+				device_name TEXT,
+				method TEXT NOT NULL,
+				route TEXT NOT NULL,
+				action TEXT NOT NULL,
+				playlist_id TEXT,
+				target_id TEXT,
+				before TEXT,
+				after TEXT
+			);
+
+			CREATE INDEX IF NOT EXISTS audit_events_by_created
+				ON audit_events(created_at);
+			CREATE INDEX IF NOT EXISTS audit_events_by_playlist
+				ON audit_events(playlist_id, created_at);
+			CREATE INDEX IF NOT EXISTS audit_events_by_actor
+				ON audit_events(actor_user_id, created_at);
+
+			CREATE TABLE IF NOT EXISTS song_provenance (
+				song_id TEXT PRIMARY KEY REFERENCES songs(id) ON DELETE CASCADE,
+				created_at INTEGER NOT NULL,
+				updated_at INTEGER NOT NULL,
+				source_song_id TEXT REFERENCES songs(id) ON DELETE SET NULL,
+				prompt TEXT,
+				prompt_epoch INTEGER,
+				steer_direction TEXT,
+				prompt_contract TEXT,
+				llm_provider TEXT,
+				llm_model TEXT,
+				manager_slot TEXT,
+				taste_profile TEXT,
+				persona_provider TEXT,
+				persona_model TEXT,
+				ace_inputs TEXT,
+				ace_seed INTEGER,
+				cover_prompt TEXT,
+				cover_provider TEXT,
+				cover_model TEXT,
+				timings TEXT
+			);
 		`);
 
 	// Additive column migrations (idempotent — ignores "duplicate column" errors).
@@ -270,13 +507,91 @@ export function ensureSchema() {
 	addColumn("playlists", "ace_dcw_scaler REAL");
 	addColumn("playlists", "ace_dcw_high_scaler REAL");
 	addColumn("playlists", "ace_dcw_wavelet TEXT");
+	addColumn("playlists", "imported_from_id TEXT");
+	addColumn("playlists", "quality_retry_budget INTEGER");
+	addColumn("playlists", "budget_songs_per_hour INTEGER");
+	addColumn("playlists", "budget_tokens_per_day INTEGER");
+	addColumn("playlists", "budget_gpu_minutes_per_day REAL");
 	addColumn("songs", "cover_webp_url TEXT");
 	addColumn("songs", "cover_jxl_url TEXT");
+	addColumn(
+		"songs",
+		"parent_song_id TEXT REFERENCES songs(id) ON DELETE SET NULL",
+	);
+	addColumn("songs", "variation_mode TEXT");
+	addColumn("songs", "loudness_lufs REAL");
+	addColumn("songs", "true_peak_dbtp REAL");
+	addColumn("songs", "replay_gain_db REAL");
+	addColumn("songs", "waveform_peaks TEXT");
+	addColumn("songs", "energy_curve TEXT");
+	addColumn("songs", "measured_bpm REAL");
+	addColumn("songs", "measured_key TEXT");
+	addColumn("songs", "analysis_mismatch TEXT");
+	addColumn("songs", "ace_endpoint TEXT");
+	addColumn("songs", "skip_count INTEGER DEFAULT 0");
+	addColumn("songs", "early_skip_count INTEGER DEFAULT 0");
 
 	sqlite.exec(`
 		CREATE INDEX IF NOT EXISTS playlists_by_owner_user_id ON playlists(owner_user_id);
 		CREATE INDEX IF NOT EXISTS playlists_by_is_temporary ON playlists(is_temporary);
+		CREATE INDEX IF NOT EXISTS songs_by_created_at ON songs(created_at, id);
+		CREATE INDEX IF NOT EXISTS playlists_by_imported_from_id ON playlists(imported_from_id);
+		CREATE INDEX IF NOT EXISTS songs_by_parent_song_id ON songs(parent_song_id);
 	`);
 
+	ensureSongSearchIndex();
+
 	logger.info("Database schema ensured");
 }
+
+/**
+ * FTS5 index over the free-text song fields used by library search.
+ * Kept in sync by triggers; rebuilt from `songs` the first time it is created
+ * so existing libraries become searchable without a manual backfill.
+ */
+const SONG_SEARCH_INDEX_SQL = `
+	CREATE VIRTUAL TABLE IF NOT EXISTS songs_fts USING fts5(
+		song_id UNINDEXED,
+		title,
+		artist_name,
+		genre,
+		sub_genre,
+		description,
+		lyrics,
+		tags,
+		themes,
+		tokenize = 'unicode61 remove_diacritics 2'
+	);
+
+	CREATE TRIGGER IF NOT EXISTS songs_fts_after_insert AFTER INSERT ON songs BEGIN
+		INSERT INTO songs_fts (song_id, title, artist_name, genre, sub_genre, description, lyrics, tags, themes)
+		VALUES (new.id, new.title, new.artist_name, new.genre, new.sub_genre, new.description, new.lyrics, new.tags, new.themes);
+	END;
+
+	CREATE TRIGGER IF NOT EXISTS songs_fts_after_delete AFTER DELETE ON songs BEGIN
+		DELETE FROM songs_fts WHERE song_id = old.id;
+	END;
+
+	CREATE TRIGGER IF NOT EXISTS songs_fts_after_update
+	AFTER UPDATE OF title, artist_name, genre, sub_genre, description, lyrics, tags, themes ON songs BEGIN
+		DELETE FROM songs_fts WHERE song_id = old.id;
+		INSERT INTO songs_fts (song_id, title, artist_name, genre, sub_genre, description, lyrics, tags, themes)
+		VALUES (new.id, new.title, new.artist_name, new.genre, new.sub_genre, new.description, new.lyrics, new.tags, new.themes);
+	END;
+`;
+
+function ensureSongSearchIndex(): void {
+	const existing = sqlite
+		.prepare(
+			"SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'songs_fts'",
+		)
+		.get();
+	sqlite.exec(SONG_SEARCH_INDEX_SQL);
+	if (existing) return;
+
+	sqlite.exec(`
+		INSERT INTO songs_fts (song_id, title, artist_name, genre, sub_genre, description, lyrics, tags, themes)
+		SELECT id, title, artist_name, genre, sub_genre, description, lyrics, tags, themes FROM songs;
+	`);
+	logger.info("Song search index built");
+}
@@ -1,10 +1,12 @@
 import { createId } from "@paralleldrive/cuid2";
 import {
+	type AnySQLiteColumn,
 	index,
 	integer,
 	real,
 	sqliteTable,
 	text,
+	uniqueIndex,
 } from "drizzle-orm/sqlite-core";
 
 // ─── Users ──────────────────────────────────────────────────────────
@@ -27,6 +29,67 @@ export const users = sqliteTable(
 	(table) => [index("users_by_shoo_subject").on(table.shooSubject)],
 );
 
+// Built-in sign-in for deployments without Shoo. Local users still get a
+// `users` row (with a `local:` subject) so ownership works the same way.
+export const localAccounts = sqliteTable("local_accounts", {
+	id: text("id")
+		.primaryKey()
+		.$defaultFn(() => createId()),
+	createdAt: integer("created_at", { mode: "number" })
+		.notNull()
+		.$defaultFn(() => Date.now()),
+	userId: text("user_id")
+		.notNull()
+		.unique()
+		.references(() => users.id, { onDelete: "cascade" }),
+	username: text("username").notNull().unique(),
+	passwordHash: text("password_hash").notNull(),
+	passwordUpdatedAt: integer("password_updated_at", { mode: "number" }),
+});
+
+export const authSessions = sqliteTable(
+	"auth_sessions",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => createId()),
+		createdAt: integer("created_at", { mode: "number" })
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		userId: text("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		tokenHash: text("token_hash").notNull().unique(),
+		expiresAt: integer("expires_at", { mode: "number" }).notNull(),
+		lastUsedAt: integer("last_used_at", { mode: "number" }),
+		userAgent: text("user_agent"),
+	},
+	(table) => [index("auth_sessions_by_user").on(table.userId)],
+);
+
+export const apiKeys = sqliteTable(
+	"api_keys",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => createId()),
+		createdAt: integer("created_at", { mode: "number" })
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		userId: text("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		name: text("name").notNull(),
+		tokenHash: text("token_hash").notNull().unique(),
+		prefix: text("prefix").notNull(),
+		scopes: text("scopes").notNull(), // JSON ApiKeyScope[]
+		expiresAt: integer("expires_at", { mode: "number" }),
+		lastUsedAt: integer("last_used_at", { mode: "number" }),
+		revokedAt: integer("revoked_at", { mode: "number" }),
+	},
+	(table) => [index("api_keys_by_user").on(table.userId)],
+);
+
 // ─── Playlists ──────────────────────────────────────────────────────
 
 export const playlists = sqliteTable(
@@ -84,11 +147,18 @@ export const playlists = sqliteTable(
 		descriptionUpdatedAt: integer("description_updated_at", {
 			mode: "number",
 		}),
+		// Source playlist ID when restored from an export archive
+		importedFromId: text("imported_from_id"),
+		qualityRetryBudget: integer("quality_retry_budget"),
+		budgetSongsPerHour: integer("budget_songs_per_hour"),
+		budgetTokensPerDay: integer("budget_tokens_per_day"),
+		budgetGpuMinutesPerDay: real("budget_gpu_minutes_per_day"),
 	},
 	(table) => [
 		index("playlists_by_playlist_key").on(table.playlistKey),
 		index("playlists_by_owner_user_id").on(table.ownerUserId),
 		index("playlists_by_is_temporary").on(table.isTemporary),
+		index("playlists_by_imported_from_id").on(table.importedFromId),
 	],
 );
 
@@ -138,6 +208,7 @@ export const songs = sqliteTable(
 		status: text("status").notNull().default("pending"),
 		aceTaskId: text("ace_task_id"),
 		aceSubmittedAt: integer("ace_submitted_at", { mode: "number" }),
+		aceEndpoint: text("ace_endpoint"),
 		audioUrl: text("audio_url"),
 		storagePath: text("storage_path"),
 		aceAudioPath: text("ace_audio_path"),
@@ -161,18 +232,41 @@ export const songs = sqliteTable(
 		userRating: text("user_rating"),
 		playDurationMs: integer("play_duration_ms"),
 		listenCount: integer("listen_count").default(0),
+		skipCount: integer("skip_count").default(0),
+		earlySkipCount: integer("early_skip_count").default(0),
 
 		// Timing metrics
 		metadataProcessingMs: integer("metadata_processing_ms"),
 		coverProcessingMs: integer("cover_processing_ms"),
 		audioProcessingMs: integer("audio_processing_ms"),
 		personaExtract: text("persona_extract"),
+
+		// Lineage (variations)
+		parentSongId: text("parent_song_id").references(
+			(): AnySQLiteColumn => songs.id,
+			{ onDelete: "set null" },
+		),
+		variationMode: text("variation_mode"),
+
+		// Loudness (EBU R128, measured while saving)
+		loudnessLufs: real("loudness_lufs"),
+		truePeakDbtp: real("true_peak_dbtp"),
+		replayGainDb: real("replay_gain_db"),
+
+		// Audio analysis (measured while saving)
+		waveformPeaks: text("waveform_peaks"),
+		energyCurve: text("energy_curve"),
+		measuredBpm: real("measured_bpm"),
+		measuredKey: text("measured_key"),
+		analysisMismatch: text("analysis_mismatch"),
 	},
 	(table) => [
 		index("songs_by_playlist").on(table.playlistId),
 		index("songs_by_playlist_status").on(table.playlistId, table.status),
 		index("songs_by_playlist_order").on(table.playlistId, table.orderIndex),
 		index("songs_by_user_rating").on(table.userRating),
+		index("songs_by_created_at").on(table.createdAt, table.id),
+		index("songs_by_parent_song_id").on(table.parentSongId),
 	],
 );
 
@@ -251,6 +345,62 @@ export const playlistDeviceAssignments = sqliteTable(
 	],
 );
 
+// ─── Playlist collaborators ─────────────────────────────────────────
+
+export const playlistCollaborators = sqliteTable(
+	"playlist_collaborators",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => createId()),
+		createdAt: integer("created_at", { mode: "number" })
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		playlistId: text("playlist_id")
+			.notNull()
+			.references(() => playlists.id, { onDelete: "cascade" }),
+		userId: text("user_id")
+			.notNull()
+			.references(() => users.id, { onDelete: "cascade" }),
+		role: text("role").notNull(), // CollaboratorRole
+		invitedByUserId: text("invited_by_user_id").references(() => users.id, {
+			onDelete: "set null",
+		}),
+	},
+	(table) => [
+		uniqueIndex("playlist_collaborators_by_playlist_user").on(
+			table.playlistId,
+			table.userId,
+		),
+		index("playlist_collaborators_by_user").on(table.userId),
+	],
+);
+
+export const playlistInvites = sqliteTable(
+	"playlist_invites",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => createId()),
+		createdAt: integer("created_at", { mode: "number" })
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		playlistId: text("playlist_id")
+			.notNull()
+			.references(() => playlists.id, { onDelete: "cascade" }),
+		tokenHash: text("token_hash").notNull().unique(),
+		role: text("role").notNull(), // CollaboratorRole
+		createdByUserId: text("created_by_user_id").references(() => users.id, {
+			onDelete: "set null",
+		}),
+		expiresAt: integer("expires_at", { mode: "number" }),
+		maxUses: integer("max_uses", { mode: "number" }),
+		uses: integer("uses", { mode: "number" }).notNull().default(0),
+		revokedAt: integer("revoked_at", { mode: "number" }),
+	},
+	(table) => [index("playlist_invites_by_playlist").on(table.playlistId)],
+);
+
 // ─── Agent Channel ─────────────────────────────────────────────────────
 
 export const agentChannelMessages = sqliteTable(
@@ -346,9 +496,287 @@ export const agentRuns = sqliteTable(
 	],
 );
 
+// ─── Quality checks ─────────────────────────────────────────────────
+
+export const qualityChecks = sqliteTable(
+	"quality_checks",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => createId()),
+		createdAt: integer("created_at", { mode: "number" })
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		playlistId: text("playlist_id")
+			.notNull()
+			.references(() => playlists.id, { onDelete: "cascade" }),
+		songId: text("song_id")
+			.notNull()
+			.references(() => songs.id, { onDelete: "cascade" }),
+		passed: integer("passed", { mode: "boolean" }).notNull(),
+		// Whether a rejection was sent back for regeneration (spent budget)
+		retried: integer("retried", { mode: "boolean" }).notNull().default(false),
+		issues: text("issues"), // JSON array of QualityIssue
+		reason: text("reason"),
+		metrics: text("metrics"), // JSON QualityMetrics
+	},
+	(table) => [
+		index("quality_checks_by_playlist").on(table.playlistId, table.createdAt),
+		index("quality_checks_by_song").on(table.songId),
+	],
+);
+
+// ─── Usage events ───────────────────────────────────────────────────
+
+export const usageEvents = sqliteTable(
+	"usage_events",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => createId()),
+		createdAt: integer("created_at", { mode: "number" })
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		playlistId: text("playlist_id").references(() => playlists.id, {
+			onDelete: "cascade",
+		}),
+		songId: text("song_id").references(() => songs.id, {
+			onDelete: "set null",
+		}),
+		kind: text("kind").notNull(), // UsageKind
+		provider: text("provider").notNull(),
+		model: text("model"),
+		inputTokens: integer("input_tokens").notNull().default(0),
+		outputTokens: integer("output_tokens").notNull().default(0),
+		costUsd: real("cost_usd").notNull().default(0),
+		gpuSeconds: real("gpu_seconds").notNull().default(0),
+	},
+	(table) => [
+		index("usage_events_by_playlist").on(table.playlistId, table.createdAt),
+		index("usage_events_by_created").on(table.createdAt),
+	],
+);
+
+// ─── Song skips ─────────────────────────────────────────────────────
+
+export const songSkips = sqliteTable(
+	"song_skips",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => createId()),
+		createdAt: integer("created_at", { mode: "number" })
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		songId: text("song_id")
+			.notNull()
+			.references(() => songs.id, { onDelete: "cascade" }),
+		playlistId: text("playlist_id")
+			.notNull()
+			.references(() => playlists.id, { onDelete: "cascade" }),
+		positionSec: real("position_sec").notNull(),
+		durationSec: real("duration_sec"),
+		deviceId: text("device_id"),
+		deviceName: text("device_name"),
+		source: text("source").notNull(), // SkipSource
+		early: integer("early", { mode: "boolean" }).notNull().default(false),
+	},
+	(table) => [
+		index("song_skips_by_song").on(table.songId, table.createdAt),
+		index("song_skips_by_playlist").on(table.playlistId, table.createdAt),
+	],
+);
+
+// ─── House schedules ────────────────────────────────────────────────
+
+export const houseSchedules = sqliteTable(
+	"house_schedules",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => createId()),
+		createdAt: integer("created_at", { mode: "number" })
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		ownerUserId: text("owner_user_id").references(() => users.id, {
+			onDelete: "cascade",
+		}),
+		name: text("name").notNull(),
+		playlistId: text("playlist_id")
+			.notNull()
+			.references(() => playlists.id, { onDelete: "cascade" }),
+		// Null plays on whichever devices are already in the playlist's room
+		deviceId: text("device_id").references(() => devices.id, {
+			onDelete: "set null",
+		}),
+		startCron: text("start_cron").notNull(),
+		stopCron: text("stop_cron"),
+		volume: real("volume"),
+		fadeInSec: integer("fade_in_sec", { mode: "number" }).notNull().default(0),
+		enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+		lastStartedAt: integer("last_started_at", { mode: "number" }),
+		lastStoppedAt: integer("last_stopped_at", { mode: "number" }),
+		lastError: text("last_error"),
+	},
+	(table) => [
+		index("house_schedules_by_owner").on(table.ownerUserId),
+		index("house_schedules_by_playlist").on(table.playlistId),
+	],
+);
+
+// One row per fired slot; the unique index keeps a restart from replaying it
+export const houseScheduleRuns = sqliteTable(
+	"house_schedule_runs",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => createId()),
+		scheduleId: text("schedule_id")
+			.notNull()
+			.references(() => houseSchedules.id, { onDelete: "cascade" }),
+		action: text("action", { enum: ["start", "stop"] }).notNull(),
+		scheduledFor: integer("scheduled_for", { mode: "number" }).notNull(),
+		executedAt: integer("executed_at", { mode: "number" })
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		ok: integer("ok", { mode: "boolean" }).notNull().default(true),
+		error: text("error"),
+	},
+	(table) => [
+		uniqueIndex("house_schedule_runs_by_slot").on(
+			table.scheduleId,
+			table.action,
+			table.scheduledFor,
+		),
+	],
+);
+
+// ─── Webhooks ───────────────────────────────────────────────────────
+
+export const webhooks = sqliteTable(
+	"webhooks",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => createId()),
+		createdAt: integer("created_at", { mode: "number" })
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		name: text("name").notNull(),
+		url: text("url").notNull(),
+		secret: text("secret").notNull(),
+		events: text("events").notNull(), // JSON array of event patterns
+		// Only forward events for this playlist (events without one still pass)
+		playlistId: text("playlist_id").references(() => playlists.id, {
+			onDelete: "cascade",
+		}),
+		enabled: integer("enabled", { mode: "boolean" }).notNull().default(true),
+		lastDeliveryAt: integer("last_delivery_at", { mode: "number" }),
+		lastDeliveryStatus: text("last_delivery_status"),
+	},
+	(table) => [index("webhooks_by_enabled").on(table.enabled)],
+);
+
+export const webhookDeliveries = sqliteTable(
+	"webhook_deliveries",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => createId()),
+		createdAt: integer("created_at", { mode: "number" })
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		webhookId: text("webhook_id")
+			.notNull()
+			.references(() => webhooks.id, { onDelete: "cascade" }),
+		event: text("event").notNull(),
+		payload: text("payload").notNull(), // exact JSON body sent
+		status: text("status").notNull().default("pending"),
+		attempts: integer("attempts", { mode: "number" }).notNull().default(0),
+		nextAttemptAt: integer("next_attempt_at", { mode: "number" }),
+		lastAttemptAt: integer("last_attempt_at", { mode: "number" }),
+		responseStatus: integer("response_status", { mode: "number" }),
+		error: text("error"),
+		deliveredAt: integer("delivered_at", { mode: "number" }),
+	},
+	(table) => [
+		index("webhook_deliveries_by_webhook").on(table.webhookId, table.createdAt),
+		index("webhook_deliveries_by_due").on(table.status, table.nextAttemptAt),
+	],
+);
+
+// ─── Audit log ──────────────────────────────────────────────────────
+
+// Append-only; rows are only ever removed by the retention sweep. Ids are
+// kept as plain text so entries outlive the playlists and users they name.
+export const auditEvents = sqliteTable(
+	"audit_events",
+	{
+		id: text("id")
+			.primaryKey()
+			.$defaultFn(() => createId()),
+		createdAt: integer("created_at", { mode: "number" })
+			.notNull()
+			.$defaultFn(() => Date.now()),
+		actorKind: text("actor_kind").notNull(), // AuditActorKind
+		actorUserId: text("actor_user_id"),
+		actorName: text("actor_name"),
+		deviceId: text("device_id"),
+		deviceName: text("device_name"),
+		method: text("method").notNull(),
+		route: text("route").notNull(),
+		action: text("action").notNull(), // AuditAction
+		playlistId: text("playlist_id"),
+		targetId: text("target_id"),
+		before: text("before"), // JSON
+		after: text("after"), // JSON
+	},
+	(table) => [
+		index("audit_events_by_created").on(table.createdAt),
+		index("audit_events_by_playlist").on(table.playlistId, table.createdAt),
+		index("audit_events_by_actor").on(table.actorUserId, table.createdAt),
+	],
+);
+
+// ─── Song provenance ────────────────────────────────────────────────
+
+export const songProvenance = sqliteTable("song_provenance", {
+	songId: text("song_id")
+		.primaryKey()
+		.references(() => songs.id, { onDelete: "cascade" }),
+	createdAt: integer("created_at", { mode: "number" })
+		.notNull()
+		.$defaultFn(() => Date.now()),
+	updatedAt: integer("updated_at", { mode: "number" })
+		.notNull()
+		.$defaultFn(() => Date.now()),
+	sourceSongId: text("source_song_id").references(() => songs.id, {
+		onDelete: "set null",
+	}),
+	prompt: text("prompt"),
+	promptEpoch: integer("prompt_epoch"),
+	steerDirection: text("steer_direction"),
+	promptContract: text("prompt_contract"), // JSON SongPromptContractSummary
+	llmProvider: text("llm_provider"),
+	llmModel: text("llm_model"),
+	managerSlot: text("manager_slot"), // JSON PlaylistManagerPlanSlot
+	tasteProfile: text("taste_profile"),
+	personaProvider: text("persona_provider"),
+	personaModel: text("persona_model"),
+	aceInputs: text("ace_inputs"), // JSON AceRenderInputs
+	aceSeed: integer("ace_seed"),
+	coverPrompt: text("cover_prompt"),
+	coverProvider: text("cover_provider"),
+	coverModel: text("cover_model"),
+	timings: text("timings"), // JSON SongProvenanceTimings
+});
+
 // ─── Type exports ───────────────────────────────────────────────────
 
 export type User = typeof users.$inferSelect;
+export type LocalAccount = typeof localAccounts.$inferSelect;
+export type AuthSession = typeof authSessions.$inferSelect;
+export type ApiKeyRow = typeof apiKeys.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type Playlist = typeof playlists.$inferSelect;
 export type NewPlaylist = typeof playlists.$inferInsert;
@@ -361,9 +789,25 @@ export type PlaylistDeviceAssignment =
 	typeof playlistDeviceAssignments.$inferSelect;
 export type NewPlaylistDeviceAssignment =
 	typeof playlistDeviceAssignments.$inferInsert;
+export type PlaylistCollaboratorRow = typeof playlistCollaborators.$inferSelect;
+export type PlaylistInviteRow = typeof playlistInvites.$inferSelect;
 export type AgentChannelMessage = typeof agentChannelMessages.$inferSelect;
 export type NewAgentChannelMessage = typeof agentChannelMessages.$inferInsert;
 export type AgentMemoryEntry = typeof agentMemoryEntries.$inferSelect;
 export type NewAgentMemoryEntry = typeof agentMemoryEntries.$inferInsert;
+export type QualityCheck = typeof qualityChecks.$inferSelect;
+export type NewQualityCheck = typeof qualityChecks.$inferInsert;
+export type UsageEvent = typeof usageEvents.$inferSelect;
+export type NewUsageEvent = typeof usageEvents.$inferInsert;
+export type SongSkipRow = typeof songSkips.$inferSelect;
 export type AgentRun = typeof agentRuns.$inferSelect;
 export type NewAgentRun = typeof agentRuns.$inferInsert;
+export type HouseSchedule = typeof houseSchedules.$inferSelect;
+export type NewHouseSchedule = typeof houseSchedules.$inferInsert;
+export type HouseScheduleRun = typeof houseScheduleRuns.$inferSelect;
+export type Webhook = typeof webhooks.$inferSelect;
+export type NewWebhook = typeof webhooks.$inferInsert;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type NewAuditEvent = typeof auditEvents.$inferInsert;
+export type SongProvenanceRow = typeof songProvenance.$inferSelect;
@@ -22,9 +22,19 @@ export type EventMap = {
 	"playlist.updated": { playlistId: string };
 	"playlist.heartbeat": { playlistId: string };
 	"playlist.deleted": { playlistId: string };
+	"playlist.collaborators_updated": { playlistId: string };
 	"agent.chat_message": { playlistId: string; messageId: string };
+	"agent.question_asked": {
+		playlistId: string;
+		messageId: string;
+		senderId: string;
+		content: string;
+		requiresAnswer: boolean;
+	};
 	"agent.memory_updated": { playlistId?: string | null; memoryId: string };
 	"settings.changed": { key: string };
+	"house.schedule_updated": { scheduleId: string };
+	"webhook.updated": { webhookId: string };
 };
 
 type Handler<T> = (data: T) => void | Promise<void>;
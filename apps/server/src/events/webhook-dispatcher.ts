@@ -0,0 +1,243 @@
+import { createHmac } from "node:crypto";
+import {
+	matchesWebhookPattern,
+	WEBHOOK_DELIVERY_HEADER,
+	WEBHOOK_EVENT_HEADER,
+	WEBHOOK_EVENTS,
+	WEBHOOK_SIGNATURE_HEADER,
+	WEBHOOK_TEST_EVENT,
+	type WebhookDeliveryStatus,
+	type WebhookPayload,
+} from "@infinitune/shared/webhooks";
+import { createId } from "@paralleldrive/cuid2";
+import type { Webhook, WebhookDelivery } from "../db/schema";
+import { logger } from "../logger";
+import * as webhookService from "../services/webhook-service";
+import { parseJsonField } from "../wire";
+import { type EventMap, on } from "./event-bus";
+
+const POLL_INTERVAL_MS = 10_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 15_000;
+const RETRY_MAX_MS = 60 * 60_000;
+const DUE_BATCH_SIZE = 25;
+const DELIVERY_RETENTION_MS = 14 * 24 * 60 * 60_000;
+// How long a claimed attempt keeps others off before it counts as lost
+const CLAIM_LEASE_MS = REQUEST_TIMEOUT_MS + 30_000;
+
+/**
+ * Stripe-style signature: `t=<unix ms>,v1=<hex hmac-sha256 of "t.body">`.
+ * Receivers recompute it with the webhook secret and compare.
+ */
+export function signWebhookPayload(
+	secret: string,
+	timestamp: number,
+	body: string,
+): string {
+	const digest = createHmac("sha256", secret)
+		.update(`${timestamp}.${body}`)
+		.digest("hex");
+	return `t=${timestamp},v1=${digest}`;
+}
+
+/** Delay before attempt `attempts + 1`, after `attempts` failures. */
+export function retryDelayMs(attempts: number): number {
+	return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 4 ** Math.max(0, attempts - 1));
+}
+
+/** Whether a webhook subscribes to this event (and playlist, if scoped). */
+export function webhookMatches(
+	webhook: Pick<Webhook, "events" | "playlistId">,
+	event: string,
+	data: Record<string, unknown>,
+): boolean {
+	const patterns = parseJsonField<string[]>(webhook.events) ?? [];
+	if (!patterns.some((pattern) => matchesWebhookPattern(pattern, event))) {
+		return false;
+	}
+	if (webhook.playlistId && typeof data.playlistId === "string") {
+		return data.playlistId === webhook.playlistId;
+	}
+	return true;
+}
+
+function isRetryableStatus(status: number): boolean {
+	return status === 408 || status === 429 || status >= 500;
+}
+
+async function attemptDelivery(
+	webhook: Webhook,
+	delivery: WebhookDelivery,
+): Promise<WebhookDeliveryStatus> {
+	const timestamp = Date.now();
+	let responseStatus: number | null = null;
+	let error: string | null = null;
+	let retryable = true;
+
+	try {
+		const response = await fetch(webhook.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"User-Agent": "Infinitune-Webhooks/1",
+				[WEBHOOK_EVENT_HEADER]: delivery.event,
+				[WEBHOOK_DELIVERY_HEADER]: delivery.id,
+				[WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+					webhook.secret,
+					timestamp,
+					delivery.payload,
+				),
+			},
+			body: delivery.payload,
+			signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+		});
+		responseStatus = response.status;
+		// Drain the body so the connection can be reused
+		await response.arrayBuffer().catch(() => undefined);
+		if (!response.ok) {
+			error = `HTTP ${response.status}`;
+			retryable = isRetryableStatus(response.status);
+		}
+	} catch (err) {
+		error = err instanceof Error ? err.message : String(err);
+	}
+
+	const attempts = delivery.attempts + 1;
+	const status: WebhookDeliveryStatus =
+		error === null
+			? "delivered"
+			: retryable && attempts < MAX_ATTEMPTS
+				? "pending"
+				: "failed";
+	await webhookService.recordAttempt(delivery, {
+		status,
+		responseStatus,
+		error,
+		nextAttemptAt:
+			status === "pending" ? Date.now() + retryDelayMs(attempts) : null,
+	});
+	if (error) {
+		logger.warn(
+			{
+				webhookId: webhook.id,
+				deliveryId: delivery.id,
+				event: delivery.event,
+				attempts,
+				responseStatus,
+				error,
+			},
+			status === "failed"
+				? "Webhook delivery failed"
+				: "Webhook delivery will retry",
+		);
+	}
+	return status;
+}
+
+/** Send one delivery unless someone else has claimed or finished it. */
+export async function deliver(
+	delivery: WebhookDelivery,
+	webhookOverride?: Webhook,
+): Promise<WebhookDeliveryStatus | null> {
+	const webhook =
+		webhookOverride ?? (await webhookService.getById(delivery.webhookId));
+	if (!webhook) return null;
+	const claimed = await webhookService.claimDelivery(
+		delivery,
+		Date.now() + CLAIM_LEASE_MS,
+	);
+	if (!claimed) return null;
+	return await attemptDelivery(webhook, claimed);
+}
+
+async function createDelivery(
+	webhook: Webhook,
+	event: string,
+	data: Record<string, unknown>,
+): Promise<WebhookDelivery> {
+	const id = createId();
+	const payload: WebhookPayload = { id, event, createdAt: Date.now(), data };
+	return webhookService.createDelivery({
+		id,
+		webhookId: webhook.id,
+		event,
+		payload: JSON.stringify(payload),
+	});
+}
+
+/** Record a delivery for every matching webhook and send them right away. */
+export async function dispatchEvent(
+	event: string,
+	data: Record<string, unknown>,
+): Promise<void> {
+	const subscribers = (await webhookService.listEnabled()).filter((webhook) =>
+		webhookMatches(webhook, event, data),
+	);
+	for (const webhook of subscribers) {
+		const delivery = await createDelivery(webhook, event, data);
+		deliver(delivery, webhook).catch((err) => {
+			logger.error(
+				{ err, deliveryId: delivery.id },
+				"Webhook delivery crashed",
+			);
+		});
+	}
+}
+
+/** Send a one-off `webhook.test` event and wait for the first attempt. */
+export async function sendTestDelivery(
+	webhook: Webhook,
+): Promise<WebhookDelivery | null> {
+	const delivery = await createDelivery(webhook, WEBHOOK_TEST_EVENT, {
+		webhookId: webhook.id,
+		name: webhook.name,
+	});
+	await deliver(delivery, webhook);
+	return webhookService.getDelivery(delivery.id);
+}
+
+async function deliverDue(): Promise<void> {
+	const due = await webhookService.listDueDeliveries(
+		Date.now(),
+		DUE_BATCH_SIZE,
+	);
+	for (const delivery of due) {
+		await deliver(delivery);
+	}
+}
+
+/**
+ * Subscribe webhooks to the event bus and start the retry loop. Pending
+ * deliveries are stored, so retries carry on across restarts.
+ * Returns a function that stops the loop.
+ */
+export function startWebhookDispatcher(): () => void {
+	const events: (keyof EventMap)[] = [...WEBHOOK_EVENTS];
+	const unsubscribers = events.map((event) =>
+		on(event, (data) => dispatchEvent(event, data as Record<string, unknown>)),
+	);
+
+	let polling = false;
+	const poll = async () => {
+		if (polling) return;
+		polling = true;
+		try {
+			await deliverDue();
+			await webhookService.pruneDeliveries(Date.now() - DELIVERY_RETENTION_MS);
+		} catch (err) {
+			logger.error({ err }, "Webhook retry loop failed");
+		} finally {
+			polling = false;
+		}
+	};
+	void poll();
+	const timer = setInterval(poll, POLL_INTERVAL_MS);
+	timer.unref?.();
+	logger.info("Webhook dispatcher started");
+
+	return () => {
+		clearInterval(timer);
+		for (const unsubscribe of unsubscribers) unsubscribe();
+	};
+}
@@ -43,6 +43,8 @@ function broadcast(routingKey: string, data: unknown) {
  *   songs.{playlistId}  — any song change for a playlist
  *   playlists            — any playlist change
  *   settings             — any settings change
+ *   house-schedules      — any house schedule change
+ *   webhooks             — webhook config or delivery change
  */
 function eventToRoutingKey(
 	event: string,
@@ -57,6 +59,12 @@ function eventToRoutingKey(
 	if (event.startsWith("settings.")) {
 		return "settings";
 	}
+	if (event.startsWith("house.schedule")) {
+		return "house-schedules";
+	}
+	if (event.startsWith("webhook.")) {
+		return "webhooks";
+	}
 	if (event === "agent.chat_message") {
 		return `agent-chat.${data.playlistId}`;
 	}
@@ -87,6 +95,8 @@ export function startWsBridge(): void {
 		"agent.chat_message",
 		"agent.memory_updated",
 		"settings.changed",
+		"house.schedule_updated",
+		"webhook.updated",
 	];
 
 	for (const event of events) {
@@ -0,0 +1,94 @@
+import { getServiceUrls } from "./service-urls";
+
+/** Square covers at SD 1.5/SDXL-friendly sizes; the UI crops them to a disc. */
+const COVER_SIZE = 768;
+const DEFAULT_STEPS = 24;
+const NEGATIVE_PROMPT =
+	"text, letters, watermark, logo, signature, frame, border, mockup, blurry, lowres";
+
+export interface A1111Model {
+	title: string;
+	model_name: string;
+}
+
+async function a1111Url(): Promise<string> {
+	const urls = await getServiceUrls();
+	return urls.a1111Url.replace(/\/+$/, "");
+}
+
+async function readError(response: Response): Promise<string> {
+	const text = await response.text().catch(() => "");
+	return `Stable Diffusion WebUI returned ${response.status}${text ? `: ${text.slice(0, 200)}` : ""}`;
+}
+
+/** Checkpoints the WebUI has on disk (`--api` must be enabled). */
+export async function listA1111Models(
+	signal: AbortSignal = AbortSignal.timeout(10_000),
+): Promise<A1111Model[]> {
+	const response = await fetch(`${await a1111Url()}/sdapi/v1/sd-models`, {
+		signal,
+	});
+	if (!response.ok) throw new Error(await readError(response));
+	const data = (await response.json()) as unknown;
+	if (!Array.isArray(data)) return [];
+	return data.flatMap((entry) => {
+		const { title, model_name } = (entry ?? {}) as Record<string, unknown>;
+		return typeof title === "string"
+			? [
+					{
+						title,
+						model_name: typeof model_name === "string" ? model_name : title,
+					},
+				]
+			: [];
+	});
+}
+
+export async function testA1111Provider(): Promise<string> {
+	const models = await listA1111Models(AbortSignal.timeout(5000));
+	return `Connected to Stable Diffusion WebUI — ${models.length} checkpoint(s)`;
+}
+
+/**
+ * `txt2img` against an Automatic1111 or Forge server. A model is passed as
+ * a per-request checkpoint override so the WebUI's loaded model is left
+ * alone for other clients.
+ */
+export async function callA1111Txt2Img(options: {
+	prompt: string;
+	model?: string;
+	signal?: AbortSignal;
+}): Promise<{ base64: string; format: string }> {
+	const model = options.model?.trim();
+	const response = await fetch(`${await a1111Url()}/sdapi/v1/txt2img`, {
+		method: "POST",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({
+			prompt: options.prompt,
+			negative_prompt: NEGATIVE_PROMPT,
+			steps: DEFAULT_STEPS,
+			width: COVER_SIZE,
+			height: COVER_SIZE,
+			cfg_scale: 6,
+			seed: -1,
+			batch_size: 1,
+			n_iter: 1,
+			send_images: true,
+			save_images: false,
+			...(model ? { override_settings: { sd_model_checkpoint: model } } : {}),
+		}),
+		signal: options.signal,
+	});
+	if (!response.ok) throw new Error(await readError(response));
+
+	const data = (await response.json()) as { images?: unknown[] };
+	const image = data.images?.[0];
+	if (typeof image !== "string" || !image) {
+		throw new Error("Stable Diffusion WebUI returned no image");
+	}
+	// Some builds prefix a data URL
+	return {
+		base64: image.replace(/^data:image\/\w+;base64,/, ""),
+		format: "png",
+	};
+}
@@ -1,4 +1,7 @@
-import { normalizeAceModel } from "@infinitune/shared/ace-settings";
+import {
+	getAceModelKey,
+	normalizeAceModel,
+} from "@infinitune/shared/ace-settings";
 import { logger } from "../logger";
 import { getServiceUrls } from "./service-urls";
 
@@ -11,6 +14,98 @@ async function assertOk(response: Response, label: string): Promise<void> {
 	}
 }
 
+export interface AceModelInventoryResponse {
+	data?: {
+		models?: {
+			name?: string;
+			is_default?: boolean;
+			is_loaded?: boolean;
+			supported_task_types?: string[];
+		}[];
+		default_model?: string;
+	};
+}
+
+export interface AceHealthResponse {
+	data?: { loaded_model?: string };
+}
+
+export interface AceModelsResponse {
+	data?: { id?: string; name?: string }[];
+	models?: { id?: string; name?: string }[];
+	default_model?: string;
+}
+
+export async function parseAceJson<T>(
+	response: Response | null,
+	source: string,
+): Promise<T | null> {
+	if (response?.ok !== true) return null;
+	try {
+		return (await response.json()) as T;
+	} catch (error) {
+		logger.warn(
+			{ err: error, source },
+			"Failed to parse ACE-Step model response",
+		);
+		return null;
+	}
+}
+
+/** Explicit endpoint, or the primary `aceStepUrl` setting. */
+async function resolveAceUrl(aceUrl?: string): Promise<string> {
+	return aceUrl ?? (await getServiceUrls()).aceStepUrl;
+}
+
+export interface AceProbeResult {
+	loadedModel: string | null;
+	/** Model keys (see `getAceModelKey`); null when the endpoint didn't list any */
+	models: string[] | null;
+}
+
+/**
+ * Health-check an endpoint and collect the models it serves. Throws when
+ * `/health` doesn't answer; the model APIs are optional.
+ */
+export async function probeAceEndpoint(
+	aceUrl: string,
+	timeoutMs = 5000,
+): Promise<AceProbeResult> {
+	const [healthResponse, inventoryResponse, modelsResponse] = await Promise.all(
+		[
+			fetch(`${aceUrl}/health`, { signal: AbortSignal.timeout(timeoutMs) }),
+			fetch(`${aceUrl}/v1/model_inventory`, {
+				signal: AbortSignal.timeout(timeoutMs),
+			}).catch(() => null),
+			fetch(`${aceUrl}/v1/models`, {
+				signal: AbortSignal.timeout(timeoutMs),
+			}).catch(() => null),
+		],
+	);
+	await assertOk(healthResponse, "ACE-Step health");
+
+	const [health, inventory, modelsData] = await Promise.all([
+		parseAceJson<AceHealthResponse>(healthResponse, "health"),
+		parseAceJson<AceModelInventoryResponse>(inventoryResponse, "inventory"),
+		parseAceJson<AceModelsResponse>(modelsResponse, "models"),
+	]);
+
+	const loadedModel = health?.data?.loaded_model || null;
+	const names = [
+		...(inventory?.data?.models ?? []).map((model) => model.name),
+		...(modelsData?.data ?? modelsData?.models ?? []).map(
+			(model) => model.id || model.name,
+		),
+		loadedModel,
+	].filter((name): name is string => Boolean(name));
+	const models = [...new Set(names.map(getAceModelKey))].filter(Boolean);
+
+	return {
+		loadedModel,
+		models: inventory || modelsData ? models : null,
+	};
+}
+
 export interface AceSubmitResult {
 	taskId: string;
 }
@@ -94,6 +189,10 @@ export async function submitToAce(options: {
 	aceDcwWavelet?: string;
 	aceThinking?: boolean;
 	aceAutoDuration?: boolean;
+	/** Fixed seed for a reproducible render; ACE picks one when omitted */
+	seed?: number;
+	/** Endpoint to submit to; defaults to the primary `aceStepUrl` */
+	aceUrl?: string;
 	signal?: AbortSignal;
 }): Promise<AceSubmitResult> {
 	const {
@@ -117,11 +216,11 @@ export async function submitToAce(options: {
 		aceDcwWavelet,
 		aceThinking,
 		aceAutoDuration,
+		seed,
 		signal,
 	} = options;
 
-	const urls = await getServiceUrls();
-	const aceUrl = urls.aceStepUrl;
+	const aceUrl = await resolveAceUrl(options.aceUrl);
 
 	const fullPrompt = buildAcePrompt({ caption, lyrics, vocalStyle });
 
@@ -164,6 +263,10 @@ export async function submitToAce(options: {
 		payload.dcw_high_scaler = aceDcwHighScaler;
 	}
 	if (aceDcwWavelet !== undefined) payload.dcw_wavelet = aceDcwWavelet;
+	if (seed !== undefined) {
+		payload.use_random_seed = false;
+		payload.seed = seed;
+	}
 
 	const response = await fetch(`${aceUrl}/release_task`, {
 		method: "POST",
@@ -189,9 +292,9 @@ export async function submitToAce(options: {
 export async function batchPollAce(
 	taskIds: string[],
 	signal?: AbortSignal,
+	endpointUrl?: string,
 ): Promise<Map<string, AcePollResult>> {
-	const urls = await getServiceUrls();
-	const aceUrl = urls.aceStepUrl;
+	const aceUrl = await resolveAceUrl(endpointUrl);
 
 	const response = await fetch(`${aceUrl}/query_result`, {
 		method: "POST",
@@ -271,9 +374,9 @@ export async function batchPollAce(
 export async function pollAce(
 	taskId: string,
 	signal?: AbortSignal,
+	endpointUrl?: string,
 ): Promise<AcePollResult> {
-	const urls = await getServiceUrls();
-	const aceUrl = urls.aceStepUrl;
+	const aceUrl = await resolveAceUrl(endpointUrl);
 
 	const response = await fetch(`${aceUrl}/query_result`, {
 		method: "POST",
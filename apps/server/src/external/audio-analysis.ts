@@ -0,0 +1,460 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { logger } from "../logger";
+
+const execFileAsync = promisify(execFile);
+
+/** Analysis runs on a mono downmix at this rate — plenty for peaks, tempo and key. */
+const ANALYSIS_SAMPLE_RATE = 11025;
+const WAVEFORM_POINTS = 200;
+const ENERGY_POINTS = 64;
+
+/** Windows quieter than -50 dBFS RMS count as silence. */
+const SILENCE_WINDOW_SEC = 0.05;
+const SILENCE_FLOOR = 10 ** (-50 / 20);
+/** Samples this close to full scale count as clipped. */
+const CLIP_LEVEL = 0.99;
+
+const ONSET_FRAME = 512;
+const ONSET_HOP = 128;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+
+const CHROMA_FRAME = 4096;
+const MAX_CHROMA_FRAMES = 400;
+const CHROMA_MIN_HZ = 65;
+const CHROMA_MAX_HZ = 2000;
+
+const BPM_TOLERANCE = 0.08;
+
+const PITCH_CLASSES = [
+	"C",
+	"C#",
+	"D",
+	"D#",
+	"E",
+	"F",
+	"F#",
+	"G",
+	"G#",
+	"A",
+	"A#",
+	"B",
+] as const;
+
+const FLAT_ALIASES: Record<string, string> = {
+	Db: "C#",
+	Eb: "D#",
+	Gb: "F#",
+	Ab: "G#",
+	Bb: "A#",
+	Cb: "B",
+	Fb: "E",
+	"E#": "F",
+	"B#": "C",
+};
+
+// Krumhansl-Kessler key profiles, tonic first.
+const MAJOR_PROFILE = [
+	6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88,
+];
+const MINOR_PROFILE = [
+	6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17,
+];
+
+export interface AudioAnalysis {
+	/** Peak amplitude per slice, scaled so the loudest slice is 1. */
+	waveformPeaks: number[];
+	/** RMS per slice, scaled so the loudest slice is 1. */
+	energyCurve: number[];
+	measuredBpm: number | null;
+	/** e.g. "A minor" — same shape as the LLM's `keyScale`. */
+	measuredKey: string | null;
+	/** Share of 50ms windows below the silence floor (0-1). */
+	silenceRatio: number;
+	/** Share of samples at or near full scale (0-1). */
+	clippingRatio: number;
+	durationSec: number;
+}
+
+function round3(value: number): number {
+	return Math.round(value * 1000) / 1000;
+}
+
+function scaleToMax(values: number[]): number[] {
+	const max = Math.max(0, ...values);
+	if (max === 0) return values.map(() => 0);
+	return values.map((value) => round3(value / max));
+}
+
+export function computeWaveformPeaks(
+	samples: Float32Array,
+	points = WAVEFORM_POINTS,
+): number[] {
+	if (samples.length === 0) return [];
+	const slice = samples.length / points;
+	const peaks: number[] = [];
+	for (let i = 0; i < points; i++) {
+		const start = Math.floor(i * slice);
+		const end = Math.max(start + 1, Math.floor((i + 1) * slice));
+		let peak = 0;
+		for (let j = start; j < end && j < samples.length; j++) {
+			const value = Math.abs(samples[j]);
+			if (value > peak) peak = value;
+		}
+		peaks.push(peak);
+	}
+	return scaleToMax(peaks);
+}
+
+export function computeEnergyCurve(
+	samples: Float32Array,
+	points = ENERGY_POINTS,
+): number[] {
+	if (samples.length === 0) return [];
+	const slice = samples.length / points;
+	const energy: number[] = [];
+	for (let i = 0; i < points; i++) {
+		const start = Math.floor(i * slice);
+		const end = Math.max(start + 1, Math.floor((i + 1) * slice));
+		let sum = 0;
+		let count = 0;
+		for (let j = start; j < end && j < samples.length; j++) {
+			sum += samples[j] * samples[j];
+			count++;
+		}
+		energy.push(count > 0 ? Math.sqrt(sum / count) : 0);
+	}
+	return scaleToMax(energy);
+}
+
+export function computeSilenceRatio(
+	samples: Float32Array,
+	sampleRate: number,
+): number {
+	const window = Math.max(1, Math.round(sampleRate * SILENCE_WINDOW_SEC));
+	let windows = 0;
+	let silent = 0;
+	for (let start = 0; start < samples.length; start += window) {
+		const end = Math.min(samples.length, start + window);
+		let sum = 0;
+		for (let j = start; j < end; j++) sum += samples[j] * samples[j];
+		if (Math.sqrt(sum / (end - start)) < SILENCE_FLOOR) silent++;
+		windows++;
+	}
+	return windows > 0 ? Math.round((silent / windows) * 10000) / 10000 : 0;
+}
+
+export function computeClippingRatio(samples: Float32Array): number {
+	if (samples.length === 0) return 0;
+	let clipped = 0;
+	for (const sample of samples) {
+		if (Math.abs(sample) >= CLIP_LEVEL) clipped++;
+	}
+	return Math.round((clipped / samples.length) * 100000) / 100000;
+}
+
+/**
+ * Tempo from the autocorrelation of an onset envelope (rectified rise in
+ * log frame energy). Lags are weighted gently towards 120 BPM so a clean
+ * beat doesn't resolve to half or double time.
+ */
+export function estimateBpm(
+	samples: Float32Array,
+	sampleRate: number,
+): number | null {
+	const frameCount = Math.floor((samples.length - ONSET_FRAME) / ONSET_HOP);
+	if (frameCount < 8) return null;
+
+	const logEnergy = new Float64Array(frameCount);
+	for (let f = 0; f < frameCount; f++) {
+		let sum = 0;
+		const offset = f * ONSET_HOP;
+		for (let i = 0; i < ONSET_FRAME; i++) {
+			sum += samples[offset + i] * samples[offset + i];
+		}
+		logEnergy[f] = Math.log1p(1000 * sum);
+	}
+	const onset = new Float64Array(frameCount);
+	let mean = 0;
+	for (let f = 1; f < frameCount; f++) {
+		onset[f] = Math.max(0, logEnergy[f] - logEnergy[f - 1]);
+		mean += onset[f];
+	}
+	mean /= frameCount;
+	for (let f = 0; f < frameCount; f++) onset[f] -= mean;
+
+	const framesPerSecond = sampleRate / ONSET_HOP;
+	const minLag = Math.floor((60 * framesPerSecond) / MAX_BPM);
+	const maxLag = Math.min(
+		frameCount - 1,
+		Math.ceil((60 * framesPerSecond) / MIN_BPM),
+	);
+	if (maxLag <= minLag + 2) return null;
+
+	const scores = new Float64Array(maxLag + 2);
+	for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+		let sum = 0;
+		for (let f = lag; f < frameCount; f++) sum += onset[f] * onset[f - lag];
+		scores[lag] = sum;
+	}
+
+	let bestLag = -1;
+	let bestScore = 0;
+	for (let lag = minLag; lag <= maxLag; lag++) {
+		const bpm = (60 * framesPerSecond) / lag;
+		const weight = Math.exp(-0.5 * Math.log2(bpm / 120) ** 2);
+		const score = scores[lag] * weight;
+		if (score > bestScore) {
+			bestScore = score;
+			bestLag = lag;
+		}
+	}
+	if (bestLag < 0) return null;
+
+	// Parabolic interpolation between neighbouring lags for sub-frame precision
+	const a = scores[bestLag - 1];
+	const b = scores[bestLag];
+	const c = scores[bestLag + 1];
+	const denom = a - 2 * b + c;
+	const shift = denom !== 0 ? (0.5 * (a - c)) / denom : 0;
+	const lag = bestLag + Math.max(-0.5, Math.min(0.5, shift));
+	return Math.round((600 * framesPerSecond) / lag) / 10;
+}
+
+function fft(re: Float64Array, im: Float64Array): void {
+	const n = re.length;
+	for (let i = 1, j = 0; i < n; i++) {
+		let bit = n >> 1;
+		for (; j & bit; bit >>= 1) j ^= bit;
+		j ^= bit;
+		if (i < j) {
+			[re[i], re[j]] = [re[j], re[i]];
+			[im[i], im[j]] = [im[j], im[i]];
+		}
+	}
+	for (let size = 2; size <= n; size <<= 1) {
+		const angle = (-2 * Math.PI) / size;
+		const wRe = Math.cos(angle);
+		const wIm = Math.sin(angle);
+		for (let start = 0; start < n; start += size) {
+			let curRe = 1;
+			let curIm = 0;
+			for (let k = 0; k < size / 2; k++) {
+				const evenRe = re[start + k];
+				const evenIm = im[start + k];
+				const oddIndex = start + k + size / 2;
+				const oddRe = re[oddIndex] * curRe - im[oddIndex] * curIm;
+				const oddIm = re[oddIndex] * curIm + im[oddIndex] * curRe;
+				re[start + k] = evenRe + oddRe;
+				im[start + k] = evenIm + oddIm;
+				re[oddIndex] = evenRe - oddRe;
+				im[oddIndex] = evenIm - oddIm;
+				const nextRe = curRe * wRe - curIm * wIm;
+				curIm = curRe * wIm + curIm * wRe;
+				curRe = nextRe;
+			}
+		}
+	}
+}
+
+function pearson(a: number[], b: number[]): number {
+	const meanA = a.reduce((sum, v) => sum + v, 0) / a.length;
+	const meanB = b.reduce((sum, v) => sum + v, 0) / b.length;
+	let num = 0;
+	let denA = 0;
+	let denB = 0;
+	for (let i = 0; i < a.length; i++) {
+		num += (a[i] - meanA) * (b[i] - meanB);
+		denA += (a[i] - meanA) ** 2;
+		denB += (b[i] - meanB) ** 2;
+	}
+	return denA > 0 && denB > 0 ? num / Math.sqrt(denA * denB) : 0;
+}
+
+/** Key via a pitch-class histogram matched against the Krumhansl profiles. */
+export function estimateKey(
+	samples: Float32Array,
+	sampleRate: number,
+): string | null {
+	const available = Math.floor((samples.length - CHROMA_FRAME) / CHROMA_FRAME);
+	if (available < 1) return null;
+	const frames = Math.min(available, MAX_CHROMA_FRAMES);
+	const stride = (samples.length - CHROMA_FRAME) / frames;
+
+	const window = new Float64Array(CHROMA_FRAME);
+	for (let i = 0; i < CHROMA_FRAME; i++) {
+		window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (CHROMA_FRAME - 1));
+	}
+	const binPitchClass = new Int8Array(CHROMA_FRAME / 2).fill(-1);
+	for (let bin = 1; bin < CHROMA_FRAME / 2; bin++) {
+		const hz = (bin * sampleRate) / CHROMA_FRAME;
+		if (hz < CHROMA_MIN_HZ || hz > CHROMA_MAX_HZ) continue;
+		const midi = Math.round(69 + 12 * Math.log2(hz / 440));
+		binPitchClass[bin] = ((midi % 12) + 12) % 12;
+	}
+
+	const chroma = new Array<number>(12).fill(0);
+	const re = new Float64Array(CHROMA_FRAME);
+	const im = new Float64Array(CHROMA_FRAME);
+	for (let f = 0; f < frames; f++) {
+		const offset = Math.floor(f * stride);
+		for (let i = 0; i < CHROMA_FRAME; i++) {
+			re[i] = samples[offset + i] * window[i];
+			im[i] = 0;
+		}
+		fft(re, im);
+		for (let bin = 1; bin < CHROMA_FRAME / 2; bin++) {
+			const pc = binPitchClass[bin];
+			if (pc >= 0) chroma[pc] += Math.hypot(re[bin], im[bin]);
+		}
+	}
+	if (chroma.every((value) => value === 0)) return null;
+
+	let best: { key: string; score: number } | null = null;
+	for (let tonic = 0; tonic < 12; tonic++) {
+		const rotated = chroma.map((_, i) => chroma[(i + tonic) % 12]);
+		for (const [mode, profile] of [
+			["major", MAJOR_PROFILE],
+			["minor", MINOR_PROFILE],
+		] as const) {
+			const score = pearson(rotated, profile);
+			if (!best || score > best.score) {
+				best = { key: `${PITCH_CLASSES[tonic]} ${mode}`, score };
+			}
+		}
+	}
+	return best?.key ?? null;
+}
+
+export function analyzePcm(
+	samples: Float32Array,
+	sampleRate: number,
+): AudioAnalysis {
+	return {
+		waveformPeaks: computeWaveformPeaks(samples),
+		energyCurve: computeEnergyCurve(samples),
+		measuredBpm: estimateBpm(samples, sampleRate),
+		measuredKey: estimateKey(samples, sampleRate),
+		silenceRatio: computeSilenceRatio(samples, sampleRate),
+		clippingRatio: computeClippingRatio(samples),
+		durationSec: Math.round((samples.length / sampleRate) * 100) / 100,
+	};
+}
+
+function parseKey(
+	value: string | null | undefined,
+): { pitchClass: number; minor: boolean } | null {
+	const match = value
+		?.trim()
+		.match(/^([A-Ga-g])([#b]?)\s*(major|minor|maj|min|m)?/i);
+	if (!match) return null;
+	const raw = `${match[1].toUpperCase()}${match[2]}`;
+	const name = FLAT_ALIASES[raw] ?? raw;
+	const pitchClass = PITCH_CLASSES.indexOf(
+		name as (typeof PITCH_CLASSES)[number],
+	);
+	if (pitchClass < 0) return null;
+	const mode = match[3]?.toLowerCase();
+	return {
+		pitchClass,
+		minor: mode === "minor" || mode === "min" || mode === "m",
+	};
+}
+
+/**
+ * Compare what the LLM asked for with what ACE produced. Tempo is allowed
+ * to land on half or double time; a key counts as matching when it is the
+ * same or its relative major/minor. Returns a short description of the
+ * divergence, or null when the song is close enough.
+ */
+export function describeAnalysisMismatch(
+	requested: { bpm?: number | null; keyScale?: string | null },
+	measured: Pick<AudioAnalysis, "measuredBpm" | "measuredKey">,
+): string | null {
+	const problems: string[] = [];
+
+	const target = requested.bpm;
+	const bpm = measured.measuredBpm;
+	if (target && bpm) {
+		const closest = Math.min(
+			...[1, 0.5, 2].map((factor) => Math.abs(bpm * factor - target) / target),
+		);
+		if (closest > BPM_TOLERANCE) {
+			problems.push(
+				`measured ${Math.round(bpm)} BPM vs requested ${Math.round(target)}`,
+			);
+		}
+	}
+
+	const want = parseKey(requested.keyScale);
+	const got = parseKey(measured.measuredKey);
+	if (want && got) {
+		const relative = (key: { pitchClass: number; minor: boolean }) =>
+			key.minor ? (key.pitchClass + 3) % 12 : key.pitchClass;
+		if (relative(want) !== relative(got)) {
+			problems.push(
+				`measured ${measured.measuredKey} vs requested ${requested.keyScale}`,
+			);
+		}
+	}
+
+	return problems.length > 0 ? problems.join("; ") : null;
+}
+
+async function decodeMono(audioFilePath: string): Promise<Float32Array> {
+	const { stdout } = await execFileAsync(
+		"ffmpeg",
+		[
+			"-v",
+			"error",
+			"-i",
+			audioFilePath,
+			"-ac",
+			"1",
+			"-ar",
+			String(ANALYSIS_SAMPLE_RATE),
+			"-f",
+			"f32le",
+			"-",
+		],
+		{ encoding: "buffer", maxBuffer: 256 * 1024 * 1024 },
+	);
+	// Copy into an aligned buffer — Node may hand back a pooled, offset slice
+	const aligned = new ArrayBuffer(stdout.length - (stdout.length % 4));
+	new Uint8Array(aligned).set(stdout.subarray(0, aligned.byteLength));
+	return new Float32Array(aligned);
+}
+
+/**
+ * Decodes the song with ffmpeg and derives waveform peaks, an energy curve,
+ * tempo, key and the quality-gate metrics. Non-fatal: returns null if ffmpeg is missing or fails.
+ */
+export async function analyzeAudio(
+	audioFilePath: string,
+): Promise<AudioAnalysis | null> {
+	try {
+		const samples = await decodeMono(audioFilePath);
+		if (samples.length === 0) return null;
+		const analysis = analyzePcm(samples, ANALYSIS_SAMPLE_RATE);
+		logger.info(
+			{
+				file: audioFilePath,
+				measuredBpm: analysis.measuredBpm,
+				measuredKey: analysis.measuredKey,
+				silenceRatio: analysis.silenceRatio,
+				clippingRatio: analysis.clippingRatio,
+			},
+			"Analyzed audio",
+		);
+		return analysis;
+	} catch (error: unknown) {
+		const msg = error instanceof Error ? error.message : String(error);
+		if (msg.includes("ENOENT")) {
+			logger.warn("ffmpeg not found, skipping audio analysis");
+		} else {
+			logger.warn({ error: msg }, "Audio analysis failed");
+		}
+		return null;
+	}
+}
@@ -2,6 +2,11 @@ import { execFile } from "node:child_process";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { promisify } from "node:util";
+import {
+	computeReplayGain,
+	LOUDNESS_TARGET_LUFS,
+	TRUE_PEAK_CEILING_DBTP,
+} from "@infinitune/shared/loudness";
 import { logger } from "../logger";
 
 const execFileAsync = promisify(execFile);
@@ -128,3 +133,108 @@ export async function trimTrailingSilence(
 		return noTrim;
 	}
 }
+
+export interface LoudnessResult {
+	loudnessLufs: number;
+	truePeakDbtp: number;
+	replayGainDb: number;
+}
+
+interface LoudnormStats {
+	input_i: string;
+	input_tp: string;
+	input_lra: string;
+	input_thresh: string;
+	output_i: string;
+	output_tp: string;
+	normalization_type: string;
+	target_offset: string;
+}
+
+/** Pull the JSON block loudnorm prints at the end of its stderr output. */
+export function parseLoudnormStats(stderr: string): LoudnormStats | null {
+	const start = stderr.lastIndexOf("{");
+	const end = stderr.lastIndexOf("}");
+	if (start === -1 || end < start) return null;
+	try {
+		const stats = JSON.parse(stderr.slice(start, end + 1)) as LoudnormStats;
+		const inputI = Number.parseFloat(stats.input_i);
+		const inputTp = Number.parseFloat(stats.input_tp);
+		if (!Number.isFinite(inputI) || !Number.isFinite(inputTp)) return null;
+		return stats;
+	} catch {
+		return null;
+	}
+}
+
+async function runLoudnorm(
+	audioFilePath: string,
+	filter: string,
+): Promise<LoudnormStats | null> {
+	const { stderr } = await execFileAsync(
+		"ffmpeg",
+		["-hide_banner", "-i", audioFilePath, "-af", filter, "-f", "null", "-"],
+		{ maxBuffer: 16 * 1024 * 1024 },
+	);
+	return parseLoudnormStats(stderr);
+}
+
+/**
+ * Measures EBU R128 loudness with ffmpeg's loudnorm filter.
+ * Pass 1: measure integrated loudness, true peak and LRA.
+ * Pass 2: replay the measurement in linear mode to confirm the gain can be
+ * applied without limiting; if loudnorm would fall back to dynamic mode the
+ * gain is capped at the true-peak ceiling instead.
+ * The file itself is left untouched — players apply the stored gain.
+ * Non-fatal: returns null if ffmpeg is missing or the output can't be parsed.
+ */
+export async function measureLoudness(
+	audioFilePath: string,
+): Promise<LoudnessResult | null> {
+	const target = `I=${LOUDNESS_TARGET_LUFS}:TP=${TRUE_PEAK_CEILING_DBTP}:LRA=11`;
+	try {
+		const measured = await runLoudnorm(
+			audioFilePath,
+			`loudnorm=${target}:print_format=json`,
+		);
+		if (!measured) return null;
+
+		const loudnessLufs = Number.parseFloat(measured.input_i);
+		const truePeakDbtp = Number.parseFloat(measured.input_tp);
+		let replayGainDb = computeReplayGain(loudnessLufs, truePeakDbtp);
+
+		const applied = await runLoudnorm(
+			audioFilePath,
+			[
+				`loudnorm=${target}`,
+				`measured_I=${measured.input_i}`,
+				`measured_TP=${measured.input_tp}`,
+				`measured_LRA=${measured.input_lra}`,
+				`measured_thresh=${measured.input_thresh}`,
+				`offset=${measured.target_offset}`,
+				"linear=true:print_format=json",
+			].join(":"),
+		);
+		const outputI = Number.parseFloat(applied?.output_i ?? "");
+		if (applied?.normalization_type === "linear" && Number.isFinite(outputI)) {
+			replayGainDb = Math.min(
+				replayGainDb,
+				Math.round((outputI - loudnessLufs) * 100) / 100,
+			);
+		}
+
+		logger.info(
+			{ file: audioFilePath, loudnessLufs, truePeakDbtp, replayGainDb },
+			"Measured loudness",
+		);
+		return { loudnessLufs, truePeakDbtp, replayGainDb };
+	} catch (error: unknown) {
+		const msg = error instanceof Error ? error.message : String(error);
+		if (msg.includes("ENOENT")) {
+			logger.warn("ffmpeg not found, skipping loudness measurement");
+		} else {
+			logger.warn({ error: msg }, "Loudness measurement failed");
+		}
+		return null;
+	}
+}
@@ -0,0 +1,162 @@
+import {
+	IMAGE_PROVIDERS,
+	type ImageProviderCapabilities,
+	type ImageProviderId,
+	type ImageProviderInfo,
+	parseImageProvider,
+} from "@infinitune/shared/image-providers";
+import { callA1111Txt2Img, listA1111Models, testA1111Provider } from "./a1111";
+import {
+	callCodexImagegenCover,
+	testCodexImagegenProvider,
+} from "./codex-imagegen";
+import { callComfyuiCover, testComfyuiProvider } from "./comfyui";
+import {
+	callInferenceShImageGen,
+	getInferenceShImageModels,
+	testInferenceShImageProvider,
+} from "./inference-sh";
+import {
+	type PlaceholderCoverInput,
+	renderPlaceholderCover,
+} from "./placeholder-cover";
+
+export interface CoverResult {
+	imageBase64: string;
+	format: string;
+}
+
+export interface ImageModelOption {
+	name: string;
+	displayName?: string;
+	description?: string;
+}
+
+export interface ImageGenerateRequest {
+	/** Prompt already framed as disc artwork. */
+	prompt: string;
+	model?: string;
+	/** Song metadata, for providers that draw from it directly. */
+	song?: PlaceholderCoverInput;
+	signal?: AbortSignal;
+}
+
+export interface ImageProvider extends ImageProviderInfo {
+	/** Resolves with a status message, rejects when the backend is unusable. */
+	testConnection(): Promise<string>;
+	listModels(signal?: AbortSignal): Promise<ImageModelOption[]>;
+	generate(request: ImageGenerateRequest): Promise<CoverResult>;
+}
+
+const REMOTE: ImageProviderCapabilities = {
+	modelSelection: false,
+	requiresNetwork: true,
+	deterministic: false,
+};
+
+const noModels = async (): Promise<ImageModelOption[]> => [];
+
+const PROVIDERS: Record<ImageProviderId, ImageProvider> = {
+	comfyui: {
+		id: "comfyui",
+		label: "ComfyUI",
+		concurrency: 1,
+		capabilities: REMOTE,
+		testConnection: testComfyuiProvider,
+		listModels: noModels,
+		generate: async ({ prompt, signal }) => {
+			const result = await callComfyuiCover({ prompt, signal });
+			return { imageBase64: result.base64, format: result.format };
+		},
+	},
+	"inference-sh": {
+		id: "inference-sh",
+		label: "Inference.sh",
+		concurrency: 3,
+		capabilities: { ...REMOTE, modelSelection: true },
+		testConnection: async () => {
+			await testInferenceShImageProvider();
+			return "Inference.sh CLI ready";
+		},
+		listModels: async () =>
+			getInferenceShImageModels().map((model) => ({
+				name: model.id,
+				displayName: model.name,
+				description: `${model.priceLabel} — ${model.description}`,
+			})),
+		generate: async ({ prompt, model, signal }) => {
+			const result = await callInferenceShImageGen({ model, prompt, signal });
+			return { imageBase64: result.base64, format: result.format };
+		},
+	},
+	"codex-imagegen": {
+		id: "codex-imagegen",
+		label: "Codex imagegen",
+		concurrency: 1,
+		capabilities: REMOTE,
+		testConnection: async () =>
+			(await testCodexImagegenProvider()) || "Codex CLI ready",
+		listModels: noModels,
+		generate: async ({ prompt, signal }) => {
+			const result = await callCodexImagegenCover({ prompt, signal });
+			return { imageBase64: result.base64, format: result.format };
+		},
+	},
+	a1111: {
+		id: "a1111",
+		label: "Stable Diffusion WebUI",
+		concurrency: 1,
+		capabilities: { ...REMOTE, modelSelection: true },
+		testConnection: testA1111Provider,
+		listModels: async (signal) =>
+			(await listA1111Models(signal)).map((model) => ({
+				name: model.title,
+				displayName: model.model_name,
+			})),
+		generate: async ({ prompt, model, signal }) => {
+			const result = await callA1111Txt2Img({ prompt, model, signal });
+			return { imageBase64: result.base64, format: result.format };
+		},
+	},
+	placeholder: {
+		id: "placeholder",
+		label: "Placeholder vinyl",
+		concurrency: 4,
+		capabilities: {
+			modelSelection: false,
+			requiresNetwork: false,
+			deterministic: true,
+		},
+		testConnection: async () => "Offline placeholder covers ready",
+		listModels: noModels,
+		generate: async ({ prompt, song }) => ({
+			imageBase64: renderPlaceholderCover({
+				...song,
+				fallbackText: prompt,
+			}).toString("base64"),
+			format: "png",
+		}),
+	},
+};
+
+/** Look up a provider by id or legacy alias. */
+export function getImageProvider(id: string): ImageProvider {
+	const providerId = parseImageProvider(id);
+	if (!providerId) {
+		throw new Error(
+			`Unsupported image provider "${id}". Supported: ${IMAGE_PROVIDERS.join(", ")}`,
+		);
+	}
+	return PROVIDERS[providerId];
+}
+
+export function listImageProviders(): ImageProviderInfo[] {
+	return Object.values(PROVIDERS).map(
+		({ id, label, concurrency, capabilities }) => ({
+			id,
+			label,
+			concurrency,
+			capabilities,
+		}),
+	);
+}
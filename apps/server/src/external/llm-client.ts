@@ -1,6 +1,8 @@
 import {
 	type AgentReasoningLevel,
 	DEFAULT_AGENT_REASONING_LEVELS,
+	getAgentModelSettingKey,
+	getAgentProviderSettingKey,
 	getAgentReasoningSettingKey,
 	type InfinituneAgentId,
 	normalizeAgentReasoningLevel,
@@ -14,10 +16,17 @@ import type { LlmProvider } from "@infinitune/shared/types";
 import type { ZodType } from "zod";
 import * as settingsService from "../services/settings-service";
 import { CODEX_LLM_CONCURRENCY } from "./codex-config";
+import {
+	getOpenAiCompatibleConfig,
+	OPENAI_COMPATIBLE_LLM_CONCURRENCY,
+	openAiCompatibleCompleteObject,
+	openAiCompatibleCompleteText,
+	resolveDefaultOpenAiCompatibleModel,
+} from "./openai-compatible";
 import { piCompleteObject, piCompleteText } from "./pi-runtime";
 
 // ---------------------------------------------------------------------------
-// Per-provider semaphore for Pi-managed text providers.
+// Per-provider semaphore for text providers.
 // ---------------------------------------------------------------------------
 
 type Provider = LlmProvider;
@@ -25,6 +34,7 @@ type Provider = LlmProvider;
 const LIMITS: Record<Provider, number> = {
 	"openai-codex": CODEX_LLM_CONCURRENCY,
 	anthropic: 20,
+	"openai-compatible": OPENAI_COMPATIBLE_LLM_CONCURRENCY,
 };
 
 interface Waiter {
@@ -84,6 +94,7 @@ class ProviderSemaphore {
 const semaphores: Record<Provider, ProviderSemaphore> = {
 	"openai-codex": new ProviderSemaphore(LIMITS["openai-codex"]),
 	anthropic: new ProviderSemaphore(LIMITS.anthropic),
+	"openai-compatible": new ProviderSemaphore(LIMITS["openai-compatible"]),
 };
 
 // ---------------------------------------------------------------------------
@@ -101,9 +112,43 @@ async function resolveModelForProvider(
 		return DEFAULT_ANTHROPIC_TEXT_MODEL;
 	}
 
+	if (provider === "openai-compatible") {
+		return resolveDefaultOpenAiCompatibleModel(
+			await getOpenAiCompatibleConfig(),
+		);
+	}
+
 	return DEFAULT_OPENAI_CODEX_TEXT_MODEL;
 }
 
+/**
+ * Provider and model for a call: an agent's own override when one is set,
+ * otherwise what the caller resolved from the playlist and global settings.
+ */
+async function resolveProfile(options: {
+	provider: Provider;
+	model: string;
+	reasoningAgentId?: InfinituneAgentId;
+}): Promise<{ provider: Provider; model: string }> {
+	let provider = normalizeLlmProvider(options.provider);
+	let model = options.model;
+	if (options.reasoningAgentId) {
+		const [agentProvider, agentModel] = await Promise.all([
+			settingsService
+				.get(getAgentProviderSettingKey(options.reasoningAgentId))
+				.catch(() => null),
+			settingsService
+				.get(getAgentModelSettingKey(options.reasoningAgentId))
+				.catch(() => null),
+		]);
+		if (agentProvider) {
+			provider = normalizeLlmProvider(agentProvider, provider);
+			model = agentModel ?? "";
+		}
+	}
+	return { provider, model: await resolveModelForProvider(provider, model) };
+}
+
 async function resolveReasoningForAgent(
 	agentId?: InfinituneAgentId,
 ): Promise<AgentReasoningLevel | undefined> {
@@ -131,8 +176,7 @@ export async function callLlmText(options: {
 	signal?: AbortSignal;
 }): Promise<string> {
 	const { system, prompt, temperature = 0.7, signal } = options;
-	const provider = normalizeLlmProvider(options.provider);
-	const model = await resolveModelForProvider(provider, options.model);
+	const { provider, model } = await resolveProfile(options);
 	const reasoning = await resolveReasoningForAgent(options.reasoningAgentId);
 
 	if (!(provider in semaphores)) {
@@ -143,6 +187,16 @@ export async function callLlmText(options: {
 	const sem = semaphores[provider];
 	await sem.acquire(signal);
 	try {
+		if (provider === "openai-compatible") {
+			return await openAiCompatibleCompleteText({
+				config: await getOpenAiCompatibleConfig(),
+				model,
+				system,
+				prompt,
+				temperature,
+				signal,
+			});
+		}
 		return await piCompleteText({
 			provider,
 			model,
@@ -178,8 +232,7 @@ export async function callLlmObject<T>(options: {
 		seed,
 		signal,
 	} = options;
-	const provider = normalizeLlmProvider(options.provider);
-	const model = await resolveModelForProvider(provider, options.model);
+	const { provider, model } = await resolveProfile(options);
 	const reasoning = await resolveReasoningForAgent(options.reasoningAgentId);
 
 	if (!(provider in semaphores)) {
@@ -191,6 +244,18 @@ export async function callLlmObject<T>(options: {
 	await sem.acquire(signal);
 	try {
 		void seed;
+		if (provider === "openai-compatible") {
+			return await openAiCompatibleCompleteObject({
+				config: await getOpenAiCompatibleConfig(),
+				model,
+				system,
+				prompt,
+				schema,
+				schemaName,
+				temperature,
+				signal,
+			});
+		}
 		return await piCompleteObject({
 			provider,
 			model,
@@ -638,7 +638,8 @@ export interface ManagerRatingSignal {
 	genre?: string;
 	mood?: string;
 	personaExtract?: string;
-	rating: "up" | "down";
+	/** `skipped` is an unrated song skipped within its first seconds. */
+	rating: "up" | "down" | "skipped";
 }
 
 const PlaylistManagerSlotSchema = z.object({
@@ -668,7 +669,7 @@ Goal: build a rolling plan for the next N songs that balances coherence, variety
 
 Hard rules:
 - Preserve the playlist's core anchors unless steer history explicitly changes them.
-- Use ratings: reinforce up-rated traits, suppress down-rated traits.
+- Use ratings: reinforce up-rated traits, suppress down-rated traits. Treat early skips as a softer down-rating.
 - Keep caption guidance (genre stack/groove/arrangement/vocals/production texture) consistent with lyrical direction.
 - Avoid contradictory instructions across managerBrief, transitionPolicy, and slot directives.
 - Include 3-8 concrete avoidPatterns from weak or down-rated outcomes.
@@ -1203,7 +1204,12 @@ export async function generatePlaylistManagerPlan(options: {
 		}) ?? [];
 	const feedbackLines =
 		ratingSignals?.slice(0, 20).map((entry, index) => {
-			const sentiment = entry.rating === "up" ? "LIKED" : "DISLIKED";
+			const sentiment =
+				entry.rating === "up"
+					? "LIKED"
+					: entry.rating === "down"
+						? "DISLIKED"
+						: "SKIPPED EARLY";
 			const parts = [
 				`${index + 1}. ${sentiment}: "${sanitizePromptOptional(entry.title) || "Untitled"}"`,
 			];
@@ -1411,6 +1417,7 @@ function buildSongUserPrompt(options: {
 	profile: PromptProfile;
 	recentSongs?: RecentSong[];
 	recentDescriptions?: string[];
+	tasteProfile?: string;
 }): PromptBuildResult {
 	const safePrompt =
 		sanitizePromptOptional(options.prompt) || "Generate a song";
@@ -1460,6 +1467,10 @@ function buildSongUserPrompt(options: {
 						return `  ${index + 1}. ${safeDescription}`;
 					})
 			: [];
+	const safeTasteProfile =
+		options.distance !== "faithful"
+			? sanitizePromptOptional(options.tasteProfile)
+			: undefined;
 	const slot = options.managerSlot;
 	const v2Slot = slot && "preservedAnchors" in slot ? slot : undefined;
 	const formatList = (values?: string[]) =>
@@ -1512,6 +1523,12 @@ function buildSongUserPrompt(options: {
 						.join("\n")
 				: undefined,
 		},
+		{
+			name: "listener_taste",
+			content: safeTasteProfile
+				? `--- Listener taste (learned from ratings and skips across playlists; a soft preference, the prompt and director guidance win) ---\n${safeTasteProfile}`
+				: undefined,
+		},
 		{
 			name: "recent_songs",
 			content:
@@ -1529,6 +1546,55 @@ function buildSongUserPrompt(options: {
 	]);
 }
 
+/**
+ * The distance, profile, mode and sampling temperature a song metadata
+ * request resolves to. Recorded with each song's provenance.
+ */
+export function resolveSongPromptContract(options: {
+	prompt: string;
+	isInterrupt?: boolean;
+	promptDistance?: PromptDistance;
+	promptProfile?: PromptProfile;
+	promptMode?: PromptMode;
+}): {
+	distance: PromptDistance;
+	profile: PromptProfile;
+	mode: PromptMode;
+	temperature: number;
+} {
+	// Determine prompt distance: explicit > interrupt flag > default close
+	const distance: PromptDistance =
+		options.promptDistance ?? (options.isInterrupt ? "faithful" : "close");
+	const profile = resolveSongPromptProfile({
+		distance,
+		prompt: options.prompt,
+		requestedProfile: options.promptProfile,
+	});
+	const mode = options.promptMode ?? defaultSongPromptMode(distance, profile);
+
+	let temperature: number = 0.82;
+	switch (profile) {
+		case "strict":
+			temperature = 0.65;
+			break;
+		case "balanced":
+			temperature = 0.82;
+			break;
+		case "creative":
+			temperature = 0.95;
+			break;
+		case "compact":
+			temperature = 0.72;
+			break;
+	}
+	if (distance === "faithful") {
+		temperature = Math.min(temperature, 0.72);
+	} else if (distance === "album" && profile !== "strict") {
+		temperature = Math.max(temperature, 0.88);
+	}
+	return { distance, profile, mode, temperature };
+}
+
 export async function generateSongMetadata(options: {
 	prompt: string;
 	provider: LlmProvider;
@@ -1543,6 +1609,7 @@ export async function generateSongMetadata(options: {
 	audioDuration?: number;
 	recentSongs?: RecentSong[];
 	recentDescriptions?: string[];
+	tasteProfile?: string;
 	isInterrupt?: boolean;
 	promptDistance?: PromptDistance;
 	promptProfile?: PromptProfile;
@@ -1563,6 +1630,7 @@ export async function generateSongMetadata(options: {
 		audioDuration,
 		recentSongs,
 		recentDescriptions,
+		tasteProfile,
 		isInterrupt,
 		promptDistance,
 		promptProfile,
@@ -1573,36 +1641,13 @@ export async function generateSongMetadata(options: {
 	const normalizedLanguage = normalizeLyricsLanguage(lyricsLanguage);
 	const languageLabel = normalizedLanguage === "german" ? "German" : "English";
 
-	// Determine prompt distance: explicit > interrupt flag > default close
-	const distance: PromptDistance =
-		promptDistance ?? (isInterrupt ? "faithful" : "close");
-	const profile = resolveSongPromptProfile({
-		distance,
+	const { distance, profile, mode, temperature } = resolveSongPromptContract({
 		prompt,
-		requestedProfile: promptProfile,
+		isInterrupt,
+		promptDistance,
+		promptProfile,
+		promptMode,
 	});
-	const mode = promptMode ?? defaultSongPromptMode(distance, profile);
-
-	let temperature: number = 0.82;
-	switch (profile) {
-		case "strict":
-			temperature = 0.65;
-			break;
-		case "balanced":
-			temperature = 0.82;
-			break;
-		case "creative":
-			temperature = 0.95;
-			break;
-		case "compact":
-			temperature = 0.72;
-			break;
-	}
-	if (distance === "faithful") {
-		temperature = Math.min(temperature, 0.72);
-	} else if (distance === "album" && profile !== "strict") {
-		temperature = Math.max(temperature, 0.88);
-	}
 
 	const systemBuild = buildSongSystemPrompt({
 		distance,
@@ -1622,6 +1667,7 @@ export async function generateSongMetadata(options: {
 		profile,
 		recentSongs,
 		recentDescriptions,
+		tasteProfile,
 	});
 	logPromptBuild(
 		"song_metadata",
@@ -0,0 +1,239 @@
+import process from "node:process";
+import {
+	OPENAI_COMPATIBLE_BASE_URL_SETTING,
+	OPENAI_COMPATIBLE_MODELS_SETTING,
+	parseOpenAiCompatibleModels,
+} from "@infinitune/shared/text-llm-profile";
+import z, { type ZodType } from "zod";
+import { logger } from "../logger";
+import * as settingsService from "../services/settings-service";
+import { recordLlmUsage } from "../services/usage-service";
+import { DEFAULT_SERVICE_URLS } from "./service-urls";
+
+const DEFAULT_OPENAI_COMPATIBLE_LLM_CONCURRENCY = 2;
+
+/** Local servers usually run one or two generations at a time. */
+export const OPENAI_COMPATIBLE_LLM_CONCURRENCY = (() => {
+	const raw = process.env.OPENAI_COMPATIBLE_LLM_CONCURRENCY;
+	const parsed = raw ? Number.parseInt(raw, 10) : Number.NaN;
+	if (Number.isFinite(parsed) && parsed > 0) {
+		return parsed;
+	}
+	return DEFAULT_OPENAI_COMPATIBLE_LLM_CONCURRENCY;
+})();
+
+export interface OpenAiCompatibleConfig {
+	/** Base URL including the API prefix, e.g. `http://host:11434/v1` */
+	baseUrl: string;
+	apiKey: string | null;
+	models: string[];
+}
+
+/**
+ * Read the server settings. Without an explicit base URL the Ollama URL is
+ * used, since Ollama serves the OpenAI API under `/v1`. The API key comes
+ * from the environment because settings are readable without signing in.
+ */
+export async function getOpenAiCompatibleConfig(): Promise<OpenAiCompatibleConfig> {
+	const settings = await settingsService
+		.getAll()
+		.catch((): Record<string, string> => ({}));
+	const configured = settings[OPENAI_COMPATIBLE_BASE_URL_SETTING]?.trim();
+	const ollamaUrl = settings.ollamaUrl || DEFAULT_SERVICE_URLS.ollamaUrl;
+	return {
+		baseUrl: (configured || `${ollamaUrl.replace(/\/+$/, "")}/v1`).replace(
+			/\/+$/,
+			"",
+		),
+		apiKey: process.env.OPENAI_COMPATIBLE_API_KEY?.trim() || null,
+		models: parseOpenAiCompatibleModels(
+			settings[OPENAI_COMPATIBLE_MODELS_SETTING],
+		),
+	};
+}
+
+function headers(config: OpenAiCompatibleConfig): Record<string, string> {
+	return {
+		"Content-Type": "application/json",
+		...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+	};
+}
+
+async function readError(response: Response): Promise<string> {
+	const text = await response.text().catch(() => "");
+	return `OpenAI-compatible server returned HTTP ${response.status}: ${text.slice(0, 200)}`;
+}
+
+/** Model ids served at `/models`. */
+export async function listOpenAiCompatibleModels(
+	config: OpenAiCompatibleConfig,
+	signal: AbortSignal = AbortSignal.timeout(10_000),
+): Promise<string[]> {
+	const response = await fetch(`${config.baseUrl}/models`, {
+		headers: headers(config),
+		signal,
+	});
+	if (!response.ok) throw new Error(await readError(response));
+	const data = (await response.json()) as { data?: { id?: string }[] };
+	return (data.data ?? []).flatMap((model) => (model.id ? [model.id] : []));
+}
+
+/**
+ * Model for calls that don't name one: the first configured model, else
+ * the first one the server serves. Playlists saved under the old `ollama`
+ * provider often have no model configured here and still work against
+ * the Ollama URL this way.
+ */
+export async function resolveDefaultOpenAiCompatibleModel(
+	config: OpenAiCompatibleConfig,
+): Promise<string> {
+	const [configured] = config.models;
+	if (configured) return configured;
+	const [served] = await listOpenAiCompatibleModels(config).catch(
+		(error: unknown) => {
+			logger.warn(
+				{ err: error, baseUrl: config.baseUrl },
+				"Failed to list OpenAI-compatible models",
+			);
+			return [];
+		},
+	);
+	if (!served) {
+		throw new Error(
+			"No model configured for the OpenAI-compatible provider. Add one in Settings.",
+		);
+	}
+	return served;
+}
+
+interface ChatMessage {
+	content?: string | null;
+	tool_calls?: { function?: { name?: string; arguments?: string } }[];
+}
+
+type ChatResult =
+	| { ok: true; message?: ChatMessage }
+	| { ok: false; status: number; error: string };
+
+interface ChatRequest {
+	config: OpenAiCompatibleConfig;
+	model: string;
+	system: string;
+	prompt: string;
+	temperature?: number;
+	signal?: AbortSignal;
+}
+
+async function chatCompletion(
+	request: ChatRequest,
+	extra: Record<string, unknown> = {},
+): Promise<ChatResult> {
+	const response = await fetch(`${request.config.baseUrl}/chat/completions`, {
+		method: "POST",
+		headers: headers(request.config),
+		body: JSON.stringify({
+			model: request.model,
+			messages: [
+				{ role: "system", content: request.system },
+				{ role: "user", content: request.prompt },
+			],
+			temperature: request.temperature,
+			stream: false,
+			...extra,
+		}),
+		signal: request.signal,
+	});
+	if (!response.ok) {
+		return {
+			ok: false,
+			status: response.status,
+			error: await readError(response),
+		};
+	}
+	const data = (await response.json()) as {
+		choices?: { message?: ChatMessage }[];
+		usage?: { prompt_tokens?: number; completion_tokens?: number };
+	};
+	void recordLlmUsage({
+		provider: "openai-compatible",
+		model: request.model,
+		inputTokens: data.usage?.prompt_tokens,
+		outputTokens: data.usage?.completion_tokens,
+	});
+	return { ok: true, message: data.choices?.[0]?.message };
+}
+
+export async function openAiCompatibleCompleteText(
+	request: ChatRequest,
+): Promise<string> {
+	const result = await chatCompletion(request);
+	if (!result.ok) throw new Error(result.error);
+	return (result.message?.content ?? "").trim();
+}
+
+/** Strip a Markdown fence and surrounding prose from a JSON reply. */
+function parseJsonReply(text: string): unknown {
+	const trimmed = text.trim();
+	const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+	const candidate = fenced ? fenced[1].trim() : trimmed;
+	const start = candidate.indexOf("{");
+	const end = candidate.lastIndexOf("}");
+	return JSON.parse(
+		start >= 0 && end > start ? candidate.slice(start, end + 1) : candidate,
+	);
+}
+
+/**
+ * Structured output. Servers that support `response_format: json_schema`
+ * (vLLM, llama.cpp, recent Ollama) get the schema directly; when one
+ * rejects it, the schema is sent as a forced tool call instead.
+ */
+export async function openAiCompatibleCompleteObject<T>(
+	request: ChatRequest & { schema: ZodType<T>; schemaName?: string },
+): Promise<T> {
+	const name = (request.schemaName ?? "response").replace(
+		/[^a-zA-Z0-9_-]/g,
+		"_",
+	);
+	const jsonSchema = z.toJSONSchema(request.schema);
+
+	const structured = await chatCompletion(request, {
+		response_format: {
+			type: "json_schema",
+			json_schema: { name, schema: jsonSchema },
+		},
+	});
+	if (structured.ok) {
+		return request.schema.parse(
+			parseJsonReply(structured.message?.content ?? ""),
+		);
+	}
+	// Only a rejected request shape is worth retrying as a tool call
+	if (structured.status !== 400 && structured.status !== 422) {
+		throw new Error(structured.error);
+	}
+
+	logger.debug(
+		{ model: request.model, error: structured.error },
+		"json_schema response_format rejected; retrying as tool call",
+	);
+	const toolCall = await chatCompletion(request, {
+		tools: [
+			{
+				type: "function",
+				function: {
+					name,
+					description: "Return the response as structured arguments.",
+					parameters: jsonSchema,
+				},
+			},
+		],
+		tool_choice: { type: "function", function: { name } },
+	});
+	if (!toolCall.ok) throw new Error(toolCall.error);
+
+	const args = toolCall.message?.tool_calls?.[0]?.function?.arguments;
+	return request.schema.parse(
+		parseJsonReply(args ?? toolCall.message?.content ?? ""),
+	);
+}
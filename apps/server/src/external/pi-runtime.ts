@@ -3,10 +3,13 @@ import os from "node:os";
 import path from "node:path";
 import {
 	type AgentReasoningLevel,
+	getAgentModelSettingKey,
+	getAgentProviderSettingKey,
 	getAgentReasoningSettingKey,
 	normalizeAgentReasoningLevel,
 } from "@infinitune/shared/agent-reasoning";
 import { resolveTextLlmProfile } from "@infinitune/shared/text-llm-profile";
+import type { LlmProvider } from "@infinitune/shared/types";
 import {
 	type Api,
 	type Context,
@@ -34,6 +37,11 @@ import {
 } from "../agents/agent-registry";
 import { createAgentTools } from "../agents/tools";
 import * as settingsService from "../services/settings-service";
+import { recordLlmUsage } from "../services/usage-service";
+import {
+	getOpenAiCompatibleConfig,
+	type OpenAiCompatibleConfig,
+} from "./openai-compatible";
 
 const DEFAULT_PI_AGENT_DIR = path.join(os.homedir(), ".infinitune", "pi");
 const CODEX_CLI_AUTH_PATH = path.join(
@@ -167,10 +175,43 @@ export function buildAgentSystemPrompt(agentId: AgentId): string {
 }
 
 type PiModelProfile = {
-	provider: "openai-codex" | "anthropic";
+	provider: LlmProvider;
 	model: string;
 };
 
+/**
+ * Expose the configured OpenAI-compatible server to Pi so agent sessions
+ * can run on it. Context limits aren't discoverable, so conservative
+ * defaults are used.
+ */
+function registerOpenAiCompatibleProvider(
+	modelRegistry: ModelRegistry,
+	config: OpenAiCompatibleConfig,
+	extraModel?: string,
+): void {
+	const ids = [...new Set([...config.models, extraModel].filter(Boolean))];
+	if (ids.length === 0) return;
+	modelRegistry.registerProvider("openai-compatible", {
+		baseUrl: config.baseUrl,
+		apiKey: config.apiKey ?? "none",
+		api: "openai-completions",
+		models: (ids as string[]).map((id) => ({
+			id,
+			name: id,
+			reasoning: false,
+			input: ["text"],
+			cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+			contextWindow: 32_768,
+			maxTokens: 8_192,
+			compat: {
+				supportsStore: false,
+				supportsDeveloperRole: false,
+				supportsReasoningEffort: false,
+			},
+		})),
+	});
+}
+
 function resolveModel(
 	modelRegistry: ModelRegistry,
 	provider: string,
@@ -216,8 +257,16 @@ export function createPiSessionOptions(input: {
 	customTools?: ToolDefinition[];
 	thinkingLevel?: AgentReasoningLevel;
 	modelProfile?: PiModelProfile;
+	openAiCompatible?: OpenAiCompatibleConfig;
 }) {
 	const handles = createPiRuntimeHandles();
+	if (input.openAiCompatible) {
+		registerOpenAiCompatibleProvider(
+			handles.modelRegistry,
+			input.openAiCompatible,
+			input.modelProfile?.model,
+		);
+	}
 	const spec = getAgentSpec(input.agentId);
 	const sessionKey = getAgentSessionKey(input.agentId, input.scopeId);
 	const sessionDir = path.join(handles.agentDir, "sessions", sessionKey);
@@ -275,12 +324,29 @@ export async function createInfinituneAgentSession(input: {
 		getInfinituneAgentReasoningLevel(input.agentId),
 		settingsService.getAll().catch((): Record<string, string> => ({})),
 	]);
-	const modelProfile = resolveTextLlmProfile({
-		provider: settings.textProvider,
-		model: settings.textModel,
-	});
+	const agentProvider = settings[getAgentProviderSettingKey(input.agentId)];
+	const modelProfile = resolveTextLlmProfile(
+		agentProvider
+			? {
+					provider: agentProvider,
+					model: settings[getAgentModelSettingKey(input.agentId)],
+				}
+			: { provider: settings.textProvider, model: settings.textModel },
+	);
+	const openAiCompatible =
+		modelProfile.provider === "openai-compatible"
+			? await getOpenAiCompatibleConfig()
+			: undefined;
+	if (openAiCompatible && !modelProfile.model) {
+		modelProfile.model = openAiCompatible.models[0] ?? "";
+	}
 	return await createAgentSession(
-		createPiSessionOptions({ ...input, thinkingLevel, modelProfile }),
+		createPiSessionOptions({
+			...input,
+			thinkingLevel,
+			modelProfile,
+			openAiCompatible,
+		}),
 	);
 }
 
@@ -300,6 +366,10 @@ export async function promptInfinituneAgent(input: {
 		) {
 			text += event.assistantMessageEvent.delta;
 		}
+		// One usage row per model turn, tool-calling turns included
+		if (event.type === "message_end" && event.message.role === "assistant") {
+			recordMessageUsage(event.message);
+		}
 	});
 	try {
 		await session.bindExtensions({});
@@ -332,9 +402,20 @@ function abortSignalError(signal?: AbortSignal): Error {
 	return new Error("Pi agent prompt aborted");
 }
 
-function extractText(
-	message: Awaited<ReturnType<typeof completeSimple>>,
-): string {
+type PiAssistantMessage = Awaited<ReturnType<typeof completeSimple>>;
+
+function recordMessageUsage(message: PiAssistantMessage): void {
+	void recordLlmUsage({
+		provider: message.provider,
+		model: message.model,
+		inputTokens:
+			message.usage.input + message.usage.cacheRead + message.usage.cacheWrite,
+		outputTokens: message.usage.output,
+		costUsd: message.usage.cost.total,
+	});
+}
+
+function extractText(message: PiAssistantMessage): string {
 	return message.content
 		.flatMap((part) => (part.type === "text" ? [part.text] : []))
 		.join("")
@@ -377,6 +458,7 @@ export async function piCompleteText(input: {
 		reasoning: model.reasoning ? (input.reasoning ?? "medium") : undefined,
 		signal: input.signal,
 	});
+	recordMessageUsage(message);
 	if (message.stopReason === "error") {
 		throw new Error(message.errorMessage ?? "Pi text completion failed");
 	}
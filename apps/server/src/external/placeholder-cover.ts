@@ -0,0 +1,199 @@
+import { crc32, deflateSync } from "node:zlib";
+
+export interface PlaceholderCoverInput {
+	title?: string | null;
+	artistName?: string | null;
+	genre?: string | null;
+	mood?: string | null;
+	energy?: string | null;
+	/** Used when the song has no metadata yet. */
+	fallbackText?: string;
+}
+
+type Rgb = [number, number, number];
+
+const DEFAULT_SIZE = 512;
+
+// ─── PNG encoding ────────────────────────────────────────────────────
+
+function pngChunk(type: string, data: Buffer): Buffer {
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(data.length);
+	const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(body));
+	return Buffer.concat([length, body, crc]);
+}
+
+/** Encode 8-bit RGB rows as a PNG, no filtering. */
+function encodePng(size: number, rgb: Uint8Array): Buffer {
+	const header = Buffer.alloc(13);
+	header.writeUInt32BE(size, 0);
+	header.writeUInt32BE(size, 4);
+	header[8] = 8; // bit depth
+	header[9] = 2; // truecolor
+	const stride = size * 3;
+	const raw = Buffer.alloc((stride + 1) * size);
+	for (let y = 0; y < size; y++) {
+		raw[y * (stride + 1)] = 0;
+		raw.set(rgb.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+	}
+	return Buffer.concat([
+		Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+		pngChunk("IHDR", header),
+		pngChunk("IDAT", deflateSync(raw)),
+		pngChunk("IEND", Buffer.alloc(0)),
+	]);
+}
+
+// ─── Palette ─────────────────────────────────────────────────────────
+
+function hashText(text: string): number {
+	// FNV-1a
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+function createRandom(seed: number): () => number {
+	// mulberry32
+	let state = seed;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function hsl(h: number, s: number, l: number): Rgb {
+	const hue = ((h % 360) + 360) % 360;
+	const c = (1 - Math.abs(2 * l - 1)) * s;
+	const x = c * (1 - Math.abs(((hue / 60) % 2) - 1));
+	const m = l - c / 2;
+	const [r, g, b] =
+		hue < 60
+			? [c, x, 0]
+			: hue < 120
+				? [x, c, 0]
+				: hue < 180
+					? [0, c, x]
+					: hue < 240
+						? [0, x, c]
+						: hue < 300
+							? [x, 0, c]
+							: [c, 0, x];
+	return [(r + m) * 255, (g + m) * 255, (b + m) * 255];
+}
+
+function mix(a: Rgb, b: Rgb, t: number): Rgb {
+	const k = Math.min(1, Math.max(0, t));
+	return [
+		a[0] + (b[0] - a[0]) * k,
+		a[1] + (b[1] - a[1]) * k,
+		a[2] + (b[2] - a[2]) * k,
+	];
+}
+
+function shade(color: Rgb, amount: number): Rgb {
+	return [color[0] + amount, color[1] + amount, color[2] + amount];
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────
+
+/**
+ * Procedural vinyl record: the genre picks the label hue, the title and
+ * artist pick the label pattern, groove gaps and sheen angle, and a high
+ * energy song gets a brighter label. No network and no randomness, so a
+ * song always gets the same record.
+ */
+export function renderPlaceholderCover(
+	input: PlaceholderCoverInput,
+	size = DEFAULT_SIZE,
+): Buffer {
+	const identity = [input.title, input.artistName, input.genre, input.mood]
+		.map((part) => part?.trim().toLowerCase() ?? "")
+		.join("|");
+	const seedText = identity.replace(/\|/g, "") ? identity : input.fallbackText;
+	const random = createRandom(hashText(seedText ?? ""));
+
+	const genreHue = input.genre
+		? hashText(input.genre.trim().toLowerCase()) % 360
+		: random() * 360;
+	const moodShift = input.mood ? (hashText(input.mood) % 60) - 30 : 0;
+	const energetic = /high|extreme/i.test(input.energy ?? "");
+
+	const background = hsl(genreHue + 180 + moodShift, 0.35, 0.12);
+	const backgroundGlow = hsl(genreHue + 150 + moodShift, 0.5, 0.22);
+	const labelBase = hsl(genreHue, 0.7, energetic ? 0.58 : 0.48);
+	const labelAccent = hsl(genreHue + 40 + moodShift, 0.75, 0.7);
+	const vinyl: Rgb = [16, 16, 19];
+
+	const pattern = Math.floor(random() * 3);
+	const rays = 3 + Math.floor(random() * 5);
+	const sheenAngle = random() * Math.PI;
+	const trackGaps = Array.from(
+		{ length: 3 + Math.floor(random() * 4) },
+		() => 0.42 + random() * 0.5,
+	);
+	const glowX = 0.2 + random() * 0.6;
+	const glowY = 0.2 + random() * 0.6;
+
+	const rgb = new Uint8Array(size * size * 3);
+	const center = (size - 1) / 2;
+	const radius = size * 0.47;
+	const pixel = 1 / radius;
+
+	for (let y = 0; y < size; y++) {
+		for (let x = 0; x < size; x++) {
+			const dx = x - center;
+			const dy = y - center;
+			const r = Math.sqrt(dx * dx + dy * dy) / radius;
+			const theta = Math.atan2(dy, dx);
+
+			const glow = Math.hypot(x / size - glowX, y / size - glowY);
+			const outside = mix(backgroundGlow, background, glow * 1.6);
+
+			let color: Rgb;
+			if (r < 0.035) {
+				color = outside;
+			} else if (r < 0.34) {
+				let label = labelBase;
+				if (pattern === 1 && Math.sin(theta + sheenAngle) > 0) {
+					label = labelAccent;
+				} else if (pattern === 2 && Math.sin(theta * rays + sheenAngle) > 0.6) {
+					label = labelAccent;
+				}
+				if (r > 0.29 && r < 0.305) label = shade(labelAccent, 20);
+				if (r > 0.08 && r < 0.09) label = shade(label, -40);
+				color = label;
+			} else {
+				const groove = Math.sin(r * radius * 1.7) * 5;
+				const gap = trackGaps.some((g) => Math.abs(r - g) < 0.006) ? -8 : 0;
+				const sheen =
+					Math.max(0, Math.cos(2 * (theta - sheenAngle))) ** 12 * 55 +
+					Math.max(0, Math.cos(2 * (theta - sheenAngle) + 0.4)) ** 30 * 25;
+				color = shade(vinyl, groove + gap + sheen * r);
+			}
+
+			// Soften the disc edge against the background
+			if (r > 1 - pixel) {
+				color = mix(color, outside, (r - (1 - pixel)) / (2 * pixel));
+			}
+			if (r < 0.035 + pixel && r >= 0.035) {
+				color = mix(outside, color, (r - 0.035) / pixel);
+			}
+
+			const offset = (y * size + x) * 3;
+			rgb[offset] = Math.round(Math.min(255, Math.max(0, color[0])));
+			rgb[offset + 1] = Math.round(Math.min(255, Math.max(0, color[1])));
+			rgb[offset + 2] = Math.round(Math.min(255, Math.max(0, color[2])));
+		}
+	}
+
+	return encodePng(size, rgb);
+}
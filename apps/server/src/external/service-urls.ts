@@ -5,25 +5,28 @@ export interface ServiceUrls {
 	ollamaUrl: string;
 	aceStepUrl: string;
 	comfyuiUrl: string;
+	a1111Url: string;
 }
 
-const defaults: ServiceUrls = {
+export const DEFAULT_SERVICE_URLS: ServiceUrls = {
 	ollamaUrl: process.env.OLLAMA_URL || "http://192.168.10.120:11434",
 	aceStepUrl: process.env.ACE_STEP_URL || "http://192.168.10.120:8001",
 	comfyuiUrl: process.env.COMFYUI_URL || "http://192.168.10.120:8188",
+	a1111Url: process.env.A1111_URL || "http://127.0.0.1:7860",
 };
 
 export async function getServiceUrls(): Promise<ServiceUrls> {
 	try {
 		const settings = await settingsService.getAll();
 		return {
-			ollamaUrl: settings.ollamaUrl || defaults.ollamaUrl,
-			aceStepUrl: settings.aceStepUrl || defaults.aceStepUrl,
-			comfyuiUrl: settings.comfyuiUrl || defaults.comfyuiUrl,
+			ollamaUrl: settings.ollamaUrl || DEFAULT_SERVICE_URLS.ollamaUrl,
+			aceStepUrl: settings.aceStepUrl || DEFAULT_SERVICE_URLS.aceStepUrl,
+			comfyuiUrl: settings.comfyuiUrl || DEFAULT_SERVICE_URLS.comfyuiUrl,
+			a1111Url: settings.a1111Url || DEFAULT_SERVICE_URLS.a1111Url,
 		};
 	} catch (err) {
 		logger.warn({ err }, "Failed to load service URLs from DB, using defaults");
-		return defaults;
+		return DEFAULT_SERVICE_URLS;
 	}
 }
 
@@ -1,7 +1,12 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import type { SongCover } from "@infinitune/shared/types";
-import { trimTrailingSilence } from "./audio-processing";
+import { type AudioAnalysis, analyzeAudio } from "./audio-analysis";
+import {
+	type LoudnessResult,
+	measureLoudness,
+	trimTrailingSilence,
+} from "./audio-processing";
 import { getServiceUrls } from "./service-urls";
 
 function resolveLocalAudioPath(aceAudioPath: string): string | null {
@@ -25,6 +30,84 @@ function resolveLocalAudioPath(aceAudioPath: string): string | null {
 	}
 }
 
+/** Make a string safe to use as a single file or directory name. */
+export function sanitizePathSegment(s: string): string {
+	return s
+		.replace(/[<>:"/\\|?*]/g, "_")
+		.replace(/[\p{Cc}]/gu, "_")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+/**
+ * Resolve a song's stored audio.mp3 on the local filesystem.
+ * DB may have old dev paths like /mnt/truenas/MediaBiB/media/AI-Music/...
+ * Pod NFS mount: /music = MediaBiB root. ACE_NAS_PREFIX = old dev mount point.
+ */
+export function resolveStoredAudioFile(storagePath: string): string | null {
+	const audioFile = path.join(storagePath, "audio.mp3");
+	if (fs.existsSync(audioFile)) return audioFile;
+
+	// Remap old dev paths: replace ACE_NAS_PREFIX with NFS mount root
+	const nasPrefix = process.env.ACE_NAS_PREFIX;
+	const nfsMount = process.env.NFS_MOUNT_PATH || "/music";
+	if (nasPrefix && storagePath.startsWith(nasPrefix)) {
+		const remapped = path.join(
+			nfsMount + storagePath.slice(nasPrefix.length),
+			"audio.mp3",
+		);
+		if (fs.existsSync(remapped)) return remapped;
+	}
+	return null;
+}
+
+/**
+ * Create `<storage>/<genre>/<sub-genre>/<artist> - <title>` and point the
+ * `.by-id/<songId>` link at it. With `avoidExisting`, a numeric suffix is
+ * added instead of reusing a folder that already holds audio.
+ */
+export function createSongStorageDir(options: {
+	songId: string;
+	genre: string;
+	subGenre: string;
+	artistName: string;
+	title: string;
+	avoidExisting?: boolean;
+}): string {
+	const storagePath =
+		process.env.MUSIC_STORAGE_PATH || "/mnt/truenas/MediaBiB/media/AI-Music";
+
+	const genreDir = sanitizePathSegment(options.genre);
+	const subGenreDir = sanitizePathSegment(options.subGenre);
+	const songFolder = sanitizePathSegment(
+		`${options.artistName} - ${options.title}`,
+	);
+
+	let songDir = path.join(storagePath, genreDir, subGenreDir, songFolder);
+	if (options.avoidExisting) {
+		for (let n = 2; fs.existsSync(path.join(songDir, "audio.mp3")); n++) {
+			songDir = path.join(
+				storagePath,
+				genreDir,
+				subGenreDir,
+				`${songFolder} (${n})`,
+			);
+		}
+	}
+	fs.mkdirSync(songDir, { recursive: true });
+
+	const byIdDir = path.join(storagePath, ".by-id");
+	fs.mkdirSync(byIdDir, { recursive: true });
+	const idLink = path.join(byIdDir, options.songId);
+	try {
+		if (fs.existsSync(idLink)) fs.unlinkSync(idLink);
+		fs.symlinkSync(songDir, idLink);
+	} catch {
+		fs.writeFileSync(idLink, songDir);
+	}
+	return songDir;
+}
+
 export async function saveSongToNfs(options: {
 	songId: string;
 	title: string;
@@ -47,12 +130,16 @@ export async function saveSongToNfs(options: {
 	timeSignature: string;
 	audioDuration: number;
 	aceAudioPath: string;
+	/** Endpoint that rendered the audio; defaults to the primary `aceStepUrl` */
+	aceUrl?: string;
 	cover?: SongCover | null;
 	coverPngBase64?: string | null;
 }): Promise<{
 	storagePath: string;
 	audioFile: string;
 	effectiveDuration?: number;
+	loudness: LoudnessResult | null;
+	analysis: AudioAnalysis | null;
 }> {
 	const {
 		songId,
@@ -80,32 +167,13 @@ export async function saveSongToNfs(options: {
 		coverPngBase64,
 	} = options;
 
-	const storagePath =
-		process.env.MUSIC_STORAGE_PATH || "/mnt/truenas/MediaBiB/media/AI-Music";
-
-	const sanitize = (s: string) =>
-		s
-			.replace(/[<>:"/\\|?*]/g, "_")
-			.replace(/[\p{Cc}]/gu, "_")
-			.replace(/\s+/g, " ")
-			.trim();
-
-	const genreDir = sanitize(genre);
-	const subGenreDir = sanitize(subGenre);
-	const songFolder = sanitize(`${artistName} - ${title}`);
-
-	const songDir = path.join(storagePath, genreDir, subGenreDir, songFolder);
-	fs.mkdirSync(songDir, { recursive: true });
-
-	const byIdDir = path.join(storagePath, ".by-id");
-	fs.mkdirSync(byIdDir, { recursive: true });
-	const idLink = path.join(byIdDir, songId);
-	try {
-		if (fs.existsSync(idLink)) fs.unlinkSync(idLink);
-		fs.symlinkSync(songDir, idLink);
-	} catch {
-		fs.writeFileSync(idLink, songDir);
-	}
+	const songDir = createSongStorageDir({
+		songId,
+		genre,
+		subGenre,
+		artistName,
+		title,
+	});
 
 	// Try to copy from local NAS mount first (ACE writes to same NAS share)
 	const localAudioPath = resolveLocalAudioPath(aceAudioPath);
@@ -115,8 +183,7 @@ export async function saveSongToNfs(options: {
 		fs.copyFileSync(localAudioPath, audioFile);
 	} else {
 		// Fall back to HTTP download from ACE if local file isn't found
-		const urls = await getServiceUrls();
-		const aceUrl = urls.aceStepUrl;
+		const aceUrl = options.aceUrl ?? (await getServiceUrls()).aceStepUrl;
 		const audioUrl = `${aceUrl}${aceAudioPath}`;
 		const audioResponse = await fetch(audioUrl);
 		if (!audioResponse.ok) {
@@ -128,6 +195,9 @@ export async function saveSongToNfs(options: {
 
 	// Trim trailing silence from audio
 	const trimResult = await trimTrailingSilence(audioFile);
+	// Measure after trimming so the silence doesn't drag the average down
+	const loudness = await measureLoudness(audioFile);
+	const analysis = await analyzeAudio(audioFile);
 
 	if (cover?.pngUrl && !cover.pngUrl.startsWith("data:")) {
 		const coverFilenames = [
@@ -187,5 +257,7 @@ export async function saveSongToNfs(options: {
 		effectiveDuration: trimResult.trimmed
 			? trimResult.trimmedDuration
 			: undefined,
+		loudness,
+		analysis,
 	};
 }
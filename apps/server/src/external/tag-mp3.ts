@@ -1,5 +1,8 @@
-import { execFileSync } from "node:child_process";
+import { execFile, execFileSync } from "node:child_process";
 import fs from "node:fs";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
 
 export function tagMp3(
 	audioPath: string,
@@ -69,3 +72,34 @@ export function tagMp3(
 		throw err;
 	}
 }
+
+/**
+ * Copy an already-tagged MP3 to `outputPath`, rewriting only the track number.
+ * All other tags and the attached cover are carried over untouched.
+ */
+export async function retagTrackNumber(
+	audioPath: string,
+	outputPath: string,
+	trackNumber: number,
+	trackTotal: number,
+): Promise<void> {
+	try {
+		await execFileAsync("ffmpeg", [
+			"-y",
+			"-i",
+			audioPath,
+			"-map",
+			"0",
+			"-c",
+			"copy",
+			"-id3v2_version",
+			"3",
+			"-metadata",
+			`track=${trackNumber}/${trackTotal}`,
+			outputPath,
+		]);
+	} catch (err) {
+		if (fs.existsSync(outputPath)) fs.unlinkSync(outputPath);
+		throw err;
+	}
+}
@@ -6,8 +6,12 @@ import { createNodeWebSocket } from "@hono/node-ws";
 import { type Context, Hono } from "hono";
 import { cors } from "hono/cors";
 import { WebSocketServer } from "ws";
+import { readSessionCookie } from "./auth/actor";
+import { apiKeyScopeGuard } from "./auth/scopes";
+import { isWorkerAdmin } from "./auth/worker-admin";
 import { sqlite } from "./db/index";
 import { ensureSchema } from "./db/migrate";
+import { startWebhookDispatcher } from "./events/webhook-dispatcher";
 import {
 	addClient,
 	getClientCount,
@@ -15,16 +19,22 @@ import {
 	startWsBridge,
 } from "./events/ws-bridge";
 import { logger, loggingConfig } from "./logger";
+import { startHouseScheduler } from "./room/house-scheduler";
 import { startRoomEventSync } from "./room/room-event-handler";
 import { RoomManager } from "./room/room-manager";
 import { handleRoomConnection } from "./room/room-ws-handler";
 import agentMemoryRoutes from "./routes/agent-memory";
+import auditRoutes from "./routes/audit";
+import authRoutes from "./routes/auth";
 import autoplayerRoutes from "./routes/autoplayer";
 import { createControlRoutes } from "./routes/control";
 import playlistsRoutes from "./routes/playlists";
 import { createRoomRoutes } from "./routes/rooms";
 import settingsRoutes from "./routes/settings";
 import songsRoutes from "./routes/songs/index";
+import usersRoutes from "./routes/users";
+import webhooksRoutes from "./routes/webhooks";
+import * as auditService from "./services/audit-service";
 import * as playlistService from "./services/playlist-service";
 import {
 	getQueues,
@@ -49,7 +59,7 @@ const REQUEST_LOG_SUMMARY_INTERVAL_MS = Number(
 const TEMP_PLAYLIST_CLEANUP_INTERVAL_MS = Number(
 	process.env.TEMP_PLAYLIST_CLEANUP_INTERVAL_MS ?? 15 * 60 * 1000,
 );
-const WORKER_ADMIN_TOKEN = process.env.INFINITUNE_WORKER_ADMIN_TOKEN?.trim();
+const AUDIT_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
 
 type NoisyRequestPattern = {
 	method?: string;
@@ -143,13 +153,6 @@ function flushNoisyRequestSummary(reason: "interval" | "shutdown"): void {
 	);
 }
 
-function isWorkerAdmin(c: Context): boolean {
-	if (!WORKER_ADMIN_TOKEN && process.env.NODE_ENV !== "production") return true;
-	const bearer = c.req.header("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
-	const supplied = c.req.header("x-admin-token") ?? bearer;
-	return !!WORKER_ADMIN_TOKEN && supplied === WORKER_ADMIN_TOKEN;
-}
-
 function workerAdminDenied(c: Context): Response | null {
 	if (isWorkerAdmin(c)) return null;
 	return c.json({ error: "Not found" }, 404);
@@ -228,6 +231,8 @@ app.use(
 			"x-device-token",
 			"x-admin-token",
 		],
+		// Local sign-in sessions travel as a cookie
+		credentials: true,
 	}),
 );
 
@@ -284,6 +289,9 @@ app.use("*", async (c, next) => {
 	}
 });
 
+// API keys are limited to their scopes on every API route
+app.use("/api/*", apiKeyScopeGuard);
+
 // ─── Health check ────────────────────────────────────────────────────
 app.get("/health", (c) => {
 	const includeWorkerDetails = isWorkerAdmin(c);
@@ -315,6 +323,7 @@ app.get("/api/worker/status", async (c) => {
 
 	return c.json({
 		queues,
+		aceEndpoints: worker.aceEndpoints,
 		songWorkers: worker.songWorkerCount,
 		actorGraph,
 		playlists: worker.trackedPlaylists.map((id) => ({
@@ -349,10 +358,14 @@ app.get("/api/worker/actors", (c) => {
 });
 
 // ─── API routes ──────────────────────────────────────────────────────
+app.route("/api/auth", authRoutes);
 app.route("/api/settings", settingsRoutes);
+app.route("/api/audit", auditRoutes);
 app.route("/api/playlists", playlistsRoutes);
 app.route("/api/agent-memory", agentMemoryRoutes);
 app.route("/api/songs", songsRoutes);
+app.route("/api/users", usersRoutes);
+app.route("/api/webhooks", webhooksRoutes);
 app.route("/api/v1", createControlRoutes(roomManager));
 // Legacy compatibility endpoints (`/rooms`, `/now-playing`) while clients migrate.
 app.route("/api/v1", createRoomRoutes(roomManager));
@@ -422,8 +435,12 @@ injectWebSocket(server);
 // The `ws` library handles upgrade for `/ws/playlist` while Hono handles `/ws`.
 const roomWss = new WebSocketServer({ noServer: true });
 
-roomWss.on("connection", (ws) => {
-	handleRoomConnection(ws, roomManager);
+roomWss.on("connection", (ws, request: import("node:http").IncomingMessage) => {
+	handleRoomConnection(
+		ws,
+		roomManager,
+		readSessionCookie(request.headers.cookie),
+	);
 });
 
 // Intercept HTTP upgrade requests: route /ws/playlist to `ws` library,
@@ -453,6 +470,12 @@ startWsBridge();
 // ─── Start room event sync ───────────────────────────────────────────
 startRoomEventSync(roomManager);
 
+// ─── Start house scheduler ───────────────────────────────────────────
+const stopHouseScheduler = startHouseScheduler(roomManager);
+
+// ─── Start webhook dispatcher ────────────────────────────────────────
+const stopWebhookDispatcher = startWebhookDispatcher();
+
 // ─── Start worker ────────────────────────────────────────────────────
 startWorker().catch((err) => {
 	logger.error({ err }, "Worker failed to start");
@@ -475,11 +498,27 @@ const tempPlaylistCleanupTimer =
 		: null;
 tempPlaylistCleanupTimer?.unref?.();
 
+// ─── Audit log retention ────────────────────────────────────────────
+const auditRetentionTimer = setInterval(async () => {
+	try {
+		const removed = await auditService.pruneExpired();
+		if (removed > 0) {
+			logger.info({ removed }, "Pruned expired audit entries");
+		}
+	} catch (err) {
+		logger.error({ err }, "Audit log pruning failed");
+	}
+}, AUDIT_PRUNE_INTERVAL_MS);
+auditRetentionTimer.unref?.();
+
 // ─── Graceful shutdown ───────────────────────────────────────────────
 async function shutdown() {
 	logger.info("Shutting down...");
 	if (noisyRequestSummaryTimer) clearInterval(noisyRequestSummaryTimer);
 	if (tempPlaylistCleanupTimer) clearInterval(tempPlaylistCleanupTimer);
+	clearInterval(auditRetentionTimer);
+	stopHouseScheduler();
+	stopWebhookDispatcher();
 	flushNoisyRequestSummary("shutdown");
 	stopWorkerDiagnostics();
 	try {
@@ -0,0 +1,256 @@
+import { nextCronTime, parseCron } from "@infinitune/shared/cron";
+import type { HouseSchedule } from "../db/schema";
+import { logger } from "../logger";
+import * as deviceService from "../services/device-service";
+import * as playlistService from "../services/playlist-service";
+import type { ScheduleAction } from "../services/schedule-service";
+import * as scheduleService from "../services/schedule-service";
+import { ensurePlaylistSession } from "./playlist-session";
+import type { RoomManager } from "./room-manager";
+
+const TICK_INTERVAL_MS = 15_000;
+/** Slots missed by up to this much (e.g. across a restart) still fire. */
+const CATCH_UP_WINDOW_MS = 5 * 60_000;
+const FADE_STEP_MS = 2_000;
+const DEFAULT_FADE_TARGET_VOLUME = 0.8;
+
+const activeFades = new Map<string, ReturnType<typeof setInterval>>();
+
+function actorId(schedule: HouseSchedule): string {
+	return `schedule:${schedule.id}`;
+}
+
+/**
+ * Latest slot of `expression` in `(max(now - window, notBefore), now]`,
+ * or null when nothing is due.
+ */
+export function findDueSlot(
+	expression: string | null,
+	now: number,
+	notBefore: number,
+): number | null {
+	if (!expression) return null;
+	const parsed = parseCron(expression);
+	if (!parsed) return null;
+
+	let due: number | null = null;
+	let cursor = new Date(Math.max(now - CATCH_UP_WINDOW_MS, notBefore) - 1);
+	for (;;) {
+		const next = nextCronTime(parsed, cursor);
+		if (!next || next.getTime() > now) return due;
+		due = next.getTime();
+		cursor = next;
+	}
+}
+
+function cancelFade(scheduleId: string) {
+	const timer = activeFades.get(scheduleId);
+	if (timer) clearInterval(timer);
+	activeFades.delete(scheduleId);
+}
+
+/** Ramp the room volume towards `target`, picking up from `startedAt`. */
+function startFade(
+	roomManager: RoomManager,
+	schedule: HouseSchedule,
+	target: number,
+	startedAt: number,
+) {
+	cancelFade(schedule.id);
+	const durationMs = schedule.fadeInSec * 1000;
+	const step = () => {
+		const room = roomManager.getRoomsByPlaylistId(schedule.playlistId)[0];
+		const progress = Math.min(1, (Date.now() - startedAt) / durationMs);
+		room?.handleCommand(actorId(schedule), "setVolume", {
+			volume: Math.round(target * progress * 100) / 100,
+		});
+		if (!room || progress >= 1) cancelFade(schedule.id);
+	};
+	step();
+	const timer = setInterval(step, FADE_STEP_MS);
+	timer.unref?.();
+	activeFades.set(schedule.id, timer);
+}
+
+async function startSchedule(
+	roomManager: RoomManager,
+	schedule: HouseSchedule,
+	fadeStartedAt = Date.now(),
+) {
+	const playlist = await playlistService.getById(schedule.playlistId);
+	if (!playlist) throw new Error("Playlist not found");
+	if (playlist.status === "closed") throw new Error("Playlist is closed");
+	if (playlist.status === "closing") {
+		await playlistService.updateStatus(playlist.id, "active");
+	}
+
+	if (schedule.deviceId) {
+		const device = await deviceService.getDeviceById(schedule.deviceId);
+		if (!device) throw new Error("Device not found");
+		await deviceService.assignDeviceToPlaylist(
+			playlist.id,
+			device.id,
+			schedule.ownerUserId,
+		);
+	}
+
+	const session = await ensurePlaylistSession(roomManager, playlist.id);
+	if (!session) throw new Error("Playlist not found");
+
+	const actor = actorId(schedule);
+	if (schedule.fadeInSec > 0) {
+		const target =
+			schedule.volume ??
+			(session.room.playback.volume || DEFAULT_FADE_TARGET_VOLUME);
+		session.room.handleCommand(actor, "setVolume", { volume: 0 });
+		session.room.handleCommand(actor, "play");
+		startFade(roomManager, schedule, target, fadeStartedAt);
+		return;
+	}
+
+	cancelFade(schedule.id);
+	if (schedule.volume !== null) {
+		session.room.handleCommand(actor, "setVolume", { volume: schedule.volume });
+	}
+	session.room.handleCommand(actor, "play");
+}
+
+async function stopSchedule(roomManager: RoomManager, schedule: HouseSchedule) {
+	cancelFade(schedule.id);
+	for (const room of roomManager.getRoomsByPlaylistId(schedule.playlistId)) {
+		room.handleCommand(actorId(schedule), "stop");
+	}
+	if (schedule.deviceId) {
+		await deviceService.unassignDeviceFromPlaylist(
+			schedule.playlistId,
+			schedule.deviceId,
+		);
+	}
+}
+
+/**
+ * Execute one start/stop slot. The slot is claimed first so the same fire
+ * time never runs twice. Returns the error message, or null on success.
+ */
+export async function runScheduleAction(
+	roomManager: RoomManager,
+	schedule: HouseSchedule,
+	action: ScheduleAction,
+	scheduledFor = Date.now(),
+): Promise<string | null> {
+	const claimed = await scheduleService.claimRun(
+		schedule.id,
+		action,
+		scheduledFor,
+	);
+	if (!claimed) return null;
+
+	let error: string | null = null;
+	try {
+		if (action === "start") await startSchedule(roomManager, schedule);
+		else await stopSchedule(roomManager, schedule);
+		logger.info(
+			{ scheduleId: schedule.id, playlistId: schedule.playlistId, action },
+			"House schedule fired",
+		);
+	} catch (err) {
+		error = err instanceof Error ? err.message : String(err);
+		logger.warn(
+			{ err, scheduleId: schedule.id, action },
+			"House schedule action failed",
+		);
+	}
+	await scheduleService.recordOutcome(schedule.id, action, scheduledFor, error);
+	return error;
+}
+
+/** Fire every enabled schedule whose start or stop slot is due. */
+export async function tickHouseSchedules(
+	roomManager: RoomManager,
+	now = Date.now(),
+): Promise<void> {
+	for (const schedule of await scheduleService.listEnabled()) {
+		const due = (["start", "stop"] as const)
+			.map((action) => ({
+				action,
+				slot: findDueSlot(
+					action === "start" ? schedule.startCron : schedule.stopCron,
+					now,
+					schedule.createdAt,
+				),
+			}))
+			.filter(
+				(entry): entry is { action: ScheduleAction; slot: number } =>
+					entry.slot !== null,
+			)
+			// When both are due (after downtime), the later slot wins
+			.sort((a, b) => a.slot - b.slot);
+		for (const { action, slot } of due) {
+			await runScheduleAction(roomManager, schedule, action, slot);
+		}
+	}
+}
+
+/**
+ * Rooms live in memory, so a restart drops any schedule that was mid-window.
+ * Bring those back, continuing an unfinished fade-in where it left off.
+ */
+async function resumeActiveSchedules(roomManager: RoomManager) {
+	const now = Date.now();
+	for (const schedule of await scheduleService.listEnabled()) {
+		const startedAt = schedule.lastStartedAt;
+		if (!startedAt) continue;
+		if (schedule.lastStoppedAt && schedule.lastStoppedAt >= startedAt) continue;
+		const stopCron = schedule.stopCron ? parseCron(schedule.stopCron) : null;
+		const stopAt = stopCron
+			? nextCronTime(stopCron, new Date(startedAt))?.getTime()
+			: null;
+		// The stop slot passed while we were down; the next tick handles it
+		if (stopAt && stopAt <= now) continue;
+
+		try {
+			await startSchedule(roomManager, schedule, startedAt);
+			logger.info(
+				{ scheduleId: schedule.id, playlistId: schedule.playlistId },
+				"Resumed house schedule after restart",
+			);
+		} catch (err) {
+			logger.warn(
+				{ err, scheduleId: schedule.id },
+				"Failed to resume house schedule",
+			);
+		}
+	}
+}
+
+/** Start the scheduler loop. Returns a function that stops it. */
+export function startHouseScheduler(roomManager: RoomManager): () => void {
+	let running = false;
+	const tick = async () => {
+		if (running) return;
+		running = true;
+		try {
+			await tickHouseSchedules(roomManager);
+		} catch (err) {
+			logger.error({ err }, "House scheduler tick failed");
+		} finally {
+			running = false;
+		}
+	};
+
+	resumeActiveSchedules(roomManager)
+		.catch((err) => {
+			logger.error({ err }, "Failed to resume house schedules");
+		})
+		.finally(() => {
+			void tick();
+		});
+	const timer = setInterval(tick, TICK_INTERVAL_MS);
+	timer.unref?.();
+	logger.info("House scheduler started");
+
+	return () => {
+		clearInterval(timer);
+		for (const scheduleId of [...activeFades.keys()]) cancelFade(scheduleId);
+	};
+}
@@ -0,0 +1,28 @@
+import type { Playlist } from "../db/schema";
+import * as playlistService from "../services/playlist-service";
+import { syncRoom } from "./room-event-handler";
+import type { RoomManager } from "./room-manager";
+
+/** Find or create the room backing a playlist and sync it from the DB. */
+export async function ensurePlaylistSession(
+	roomManager: RoomManager,
+	playlistId: string,
+	playlistOverride?: Playlist,
+) {
+	const playlist =
+		playlistOverride ?? (await playlistService.getById(playlistId));
+	if (!playlist) return null;
+
+	const existingRoom = roomManager.getRoomsByPlaylistId(playlist.id)[0];
+	const room =
+		existingRoom ??
+		roomManager.createRoom(
+			playlist.id,
+			playlist.name,
+			playlist.playlistKey ?? playlist.id,
+		);
+	room.playlistId = playlist.id;
+	await syncRoom(room);
+
+	return { room, playlist };
+}
@@ -1,10 +1,17 @@
+import {
+	computePlaylistGain,
+	LOUDNESS_NORMALIZATION_SETTING,
+	normalizeLoudnessMode,
+	resolveGainDb,
+} from "@infinitune/shared/loudness";
 import type { SongData } from "@infinitune/shared/protocol";
 import { on } from "../events/event-bus";
 import { logger } from "../logger";
 import * as playlistService from "../services/playlist-service";
+import * as settingsService from "../services/settings-service";
 import * as songService from "../services/song-service";
 import type { SongWire } from "../wire";
-import type { Room } from "./room";
+import type { Room, RoomSkip } from "./room";
 import type { RoomManager } from "./room-manager";
 
 const IDLE_ROOM_MANUAL_TOP_UP_COUNT = 5;
@@ -12,7 +19,7 @@ const IDLE_ROOM_MANUAL_TOP_UP_COUNT = 5;
 // ─── Wire → Protocol conversion ─────────────────────────────────────
 
 /** Convert a SongWire (DB wire format) to the lightweight SongData protocol type. */
-function toSongData(s: SongWire): SongData {
+function toSongData(s: SongWire, gainDb?: number): SongData {
 	return {
 		id: s.id,
 		title: s.title ?? undefined,
@@ -35,9 +42,25 @@ function toSongData(s: SongWire): SongData {
 		bpm: s.bpm ?? undefined,
 		keyScale: s.keyScale ?? undefined,
 		lyrics: s.lyrics ?? undefined,
+		gainDb,
 	};
 }
 
+/**
+ * Convert a playlist's songs for a room, resolving each song's loudness gain
+ * under the current normalization setting so every player applies the same.
+ */
+async function toRoomQueue(songs: SongWire[]): Promise<SongData[]> {
+	const mode = normalizeLoudnessMode(
+		await settingsService.get(LOUDNESS_NORMALIZATION_SETTING),
+	);
+	const playlistGainDb =
+		mode === "playlist" ? computePlaylistGain(songs) : null;
+	return songs.map((s) =>
+		toSongData(s, resolveGainDb(mode, s, playlistGainDb) ?? undefined),
+	);
+}
+
 // ─── Queue refresh ───────────────────────────────────────────────────
 
 /** Fetch songs + playlist epoch from DB and push to rooms. */
@@ -48,7 +71,7 @@ async function refreshRooms(playlistId: string, rooms: Room[]): Promise<void> {
 	const epoch = playlist?.promptEpoch ?? 0;
 
 	const songs = await songService.listByPlaylist(playlistId);
-	const songData = songs.map(toSongData);
+	const songData = await toRoomQueue(songs);
 
 	for (const room of rooms) {
 		room.updateQueue(songData, epoch);
@@ -105,7 +128,7 @@ export async function syncRoom(room: Room): Promise<void> {
 			room.playlistId = byKey.id;
 			const songs = await songService.listByPlaylist(byKey.id);
 			const updateResult = room.updateQueue(
-				songs.map(toSongData),
+				await toRoomQueue(songs),
 				byKey.promptEpoch ?? 0,
 			);
 			if (
@@ -127,7 +150,7 @@ export async function syncRoom(room: Room): Promise<void> {
 			const playlist = await playlistService.getById(room.playlistId);
 			const songs = await songService.listByPlaylist(room.playlistId);
 			const updateResult = room.updateQueue(
-				songs.map(toSongData),
+				await toRoomQueue(songs),
 				playlist?.promptEpoch ?? 0,
 			);
 			if (
@@ -174,6 +197,14 @@ async function reportPlaylistPosition(
 	}
 }
 
+async function recordRoomSkip(skip: RoomSkip): Promise<void> {
+	try {
+		await songService.recordSkip(skip.songId, { ...skip, source: "room" });
+	} catch (err) {
+		logger.error({ err, songId: skip.songId }, "Failed to record room skip");
+	}
+}
+
 // ─── Event handler registration ──────────────────────────────────────
 
 /**
@@ -184,6 +215,7 @@ export function startRoomEventSync(roomManager: RoomManager): void {
 	// Wire up the "mark played" callback so rooms can mark songs played
 	roomManager.setMarkPlayedCallback(markSongPlayed);
 	roomManager.setPositionCallback(reportPlaylistPosition);
+	roomManager.setSkipCallback(recordRoomSkip);
 
 	// Song events → refresh rooms that show the affected playlist
 	const handleSongEvent = async (data: { playlistId: string }) => {
@@ -207,6 +239,21 @@ export function startRoomEventSync(roomManager: RoomManager): void {
 		}
 	});
 
+	// Normalization mode changed → re-resolve gains for every room
+	on("settings.changed", async (data) => {
+		if (data.key !== LOUDNESS_NORMALIZATION_SETTING) return;
+		const playlistIds = new Set<string>();
+		for (const room of roomManager.getAllRooms()) {
+			if (room.playlistId) playlistIds.add(room.playlistId);
+		}
+		for (const playlistId of playlistIds) {
+			await refreshRooms(
+				playlistId,
+				roomManager.getRoomsByPlaylistId(playlistId),
+			);
+		}
+	});
+
 	// Playlist deleted → clean up rooms for that playlist
 	on("playlist.deleted", (data) => {
 		const rooms = roomManager.getRoomsByPlaylistId(data.playlistId);
@@ -1,7 +1,7 @@
 import type { DeviceRole, RoomInfo } from "@infinitune/shared/protocol";
 import type { WebSocket } from "ws";
 import { logger } from "../logger";
-import { Room } from "./room";
+import { type DeviceSyncInfo, Room, type RoomSkip } from "./room";
 
 export class RoomManager {
 	private rooms = new Map<string, Room>();
@@ -9,6 +9,7 @@ export class RoomManager {
 	private positionCallback:
 		| ((playlistId: string, orderIndex: number) => Promise<void>)
 		| null = null;
+	private skipCallback: ((skip: RoomSkip) => Promise<void>) | null = null;
 
 	setMarkPlayedCallback(cb: (songId: string) => Promise<void>): void {
 		this.markPlayedCallback = cb;
@@ -26,6 +27,13 @@ export class RoomManager {
 		}
 	}
 
+	setSkipCallback(cb: (skip: RoomSkip) => Promise<void>): void {
+		this.skipCallback = cb;
+		for (const room of this.rooms.values()) {
+			room.setSkipCallback(cb);
+		}
+	}
+
 	createRoom(id: string, name: string, playlistKey: string): Room {
 		const existingRoom = this.rooms.get(id);
 		if (existingRoom) {
@@ -43,6 +51,9 @@ export class RoomManager {
 		if (this.positionCallback) {
 			room.setPositionCallback(this.positionCallback);
 		}
+		if (this.skipCallback) {
+			room.setSkipCallback(this.skipCallback);
+		}
 		this.rooms.set(id, room);
 		logger.info({ roomId: id, name, playlistKey }, "Room created");
 		return room;
@@ -77,10 +88,11 @@ export class RoomManager {
 		deviceName: string,
 		role: DeviceRole,
 		ws: WebSocket,
+		sync?: DeviceSyncInfo,
 	): Room | null {
 		const room = this.rooms.get(roomId);
 		if (!room) return null;
-		room.addDevice({ id: deviceId, name: deviceName, role }, ws);
+		room.addDevice({ id: deviceId, name: deviceName, role }, ws, sync);
 		logger.info({ roomId, deviceId, deviceName, role }, "Device joined room");
 		return room;
 	}
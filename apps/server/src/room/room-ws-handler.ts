@@ -1,16 +1,34 @@
+import { apiKeyRoleCap } from "@infinitune/shared/auth";
+import {
+	capRole,
+	commandPermission,
+	type PlaylistRole,
+	roleAllows,
+	strongestRole,
+} from "@infinitune/shared/playlist-roles";
 import {
 	type ClientMessage,
 	ClientMessageSchema,
+	MIN_ROOM_PROTOCOL_VERSION,
 	ROOM_PROTOCOL_VERSION,
 } from "@infinitune/shared/protocol";
 import type { WebSocket } from "ws";
+import { userActorFromSessionToken, userActorFromToken } from "../auth/actor";
+import { resolvePlaylistRole } from "../auth/playlist-access";
 import { logger } from "../logger";
+import * as deviceService from "../services/device-service";
+import * as playlistService from "../services/playlist-service";
 import type { Room } from "./room";
 import { syncRoom } from "./room-event-handler";
 import type { RoomManager } from "./room-manager";
 
-// Track which room each WebSocket belongs to
-const wsRoomMap = new Map<WebSocket, { roomId: string; deviceId: string }>();
+type JoinMessage = Extract<ClientMessage, { type: "join" }>;
+
+// Track which room each WebSocket belongs to, and what it may do there
+const wsRoomMap = new Map<
+	WebSocket,
+	{ roomId: string; deviceId: string; role: PlaylistRole }
+>();
 
 function buildProtocolMismatchMessage(clientVersion: number): string {
 	return `Room connection requires a refresh. Client protocol v${clientVersion} is incompatible with server protocol v${ROOM_PROTOCOL_VERSION}. Refresh this page and reconnect.`;
@@ -20,19 +38,62 @@ function buildProtocolMismatchMessage(clientVersion: number): string {
 function getRoomContext(
 	ws: WebSocket,
 	roomManager: RoomManager,
-): { room: Room; deviceId: string } | null {
+): { room: Room; deviceId: string; role: PlaylistRole } | null {
 	const mapping = wsRoomMap.get(ws);
 	if (!mapping) return null;
 	const room = roomManager.getRoom(mapping.roomId);
 	if (!room) return null;
-	return { room, deviceId: mapping.deviceId };
+	return { room, deviceId: mapping.deviceId, role: mapping.role };
+}
+
+/**
+ * The joining client's role on the session's playlist. Rooms that aren't
+ * backed by a stored playlist, and playlists without an owner, stay open.
+ * The route scope guard never sees the socket, so an API key's scopes cap
+ * the role here.
+ */
+async function resolveJoinRole(
+	msg: JoinMessage,
+	sessionId: string,
+	roomManager: RoomManager,
+	sessionToken: string | null,
+): Promise<PlaylistRole | null> {
+	const playlistId =
+		roomManager.getRoom(sessionId)?.playlistId ?? msg.playlistId ?? sessionId;
+	const playlist = await playlistService.getById(playlistId);
+	if (!playlist?.ownerUserId) return "owner";
+
+	const [user, device] = await Promise.all([
+		msg.authToken
+			? userActorFromToken(msg.authToken).catch(() => null)
+			: sessionToken
+				? userActorFromSessionToken(sessionToken).catch(() => null)
+				: null,
+		msg.deviceToken
+			? deviceService.authenticateDeviceToken(msg.deviceToken)
+			: null,
+	]);
+	const [userRole, deviceRole] = await Promise.all([
+		user
+			? resolvePlaylistRole(playlist, { userId: user.userId }).then((role) =>
+					user.scopes ? capRole(role, apiKeyRoleCap(user.scopes)) : role,
+				)
+			: null,
+		device?.ownerUserId
+			? resolvePlaylistRole(playlist, {
+					deviceOwnerUserId: device.ownerUserId,
+				})
+			: null,
+	]);
+	return strongestRole([userRole, deviceRole]);
 }
 
-function handleClientMessage(
+async function handleClientMessage(
 	ws: WebSocket,
 	msg: ClientMessage,
 	roomManager: RoomManager,
-): void {
+	sessionToken: string | null,
+): Promise<void> {
 	switch (msg.type) {
 		case "join": {
 			const sessionId = msg.playlistId ?? msg.roomId;
@@ -46,9 +107,11 @@ function handleClientMessage(
 				break;
 			}
 
+			// Older clients keep working; they just don't get drift correction.
 			if (
 				msg.protocolVersion != null &&
-				msg.protocolVersion !== ROOM_PROTOCOL_VERSION
+				(msg.protocolVersion < MIN_ROOM_PROTOCOL_VERSION ||
+					msg.protocolVersion > ROOM_PROTOCOL_VERSION)
 			) {
 				ws.send(
 					JSON.stringify({
@@ -63,6 +126,23 @@ function handleClientMessage(
 				break;
 			}
 
+			const role = await resolveJoinRole(
+				msg,
+				sessionId,
+				roomManager,
+				sessionToken,
+			);
+			if (!role) {
+				ws.send(
+					JSON.stringify({
+						type: "error",
+						code: "FORBIDDEN",
+						message: `Not allowed to join "${sessionId}". Sign in or accept an invite to this playlist.`,
+					}),
+				);
+				break;
+			}
+
 			// Leave previous room if any
 			const prev = wsRoomMap.get(ws);
 			if (prev) {
@@ -80,17 +160,24 @@ function handleClientMessage(
 				}
 			}
 
+			const protocolVersion = msg.protocolVersion ?? MIN_ROOM_PROTOCOL_VERSION;
 			const room = roomManager.joinRoom(
 				sessionId,
 				msg.deviceId,
 				msg.deviceName,
 				msg.role,
 				ws,
+				{
+					protocolVersion,
+					outputLatencyMs: msg.outputLatencyMs,
+					canNudgeRate: msg.canNudgeRate,
+				},
 			);
 			if (room) {
 				wsRoomMap.set(ws, {
 					roomId: sessionId,
 					deviceId: msg.deviceId,
+					role,
 				});
 				ws.send(
 					JSON.stringify({
@@ -98,7 +185,8 @@ function handleClientMessage(
 						roomId: sessionId,
 						playlistId: sessionId,
 						deviceId: msg.deviceId,
-						protocolVersion: ROOM_PROTOCOL_VERSION,
+						// Answer in the client's version so v2 clients accept it.
+						protocolVersion,
 					}),
 				);
 				// Ensure queue/state is hydrated for both newly created and pre-existing rooms.
@@ -116,13 +204,23 @@ function handleClientMessage(
 		}
 		case "command": {
 			const ctx = getRoomContext(ws, roomManager);
-			if (ctx)
-				ctx.room.handleCommand(
-					ctx.deviceId,
-					msg.action,
-					msg.payload,
-					msg.targetDeviceId,
+			if (!ctx) break;
+			if (!roleAllows(ctx.role, commandPermission(msg.action))) {
+				ws.send(
+					JSON.stringify({
+						type: "error",
+						code: "FORBIDDEN",
+						message: `Listeners can't ${msg.action}; ask the owner for editor access.`,
+					}),
 				);
+				break;
+			}
+			ctx.room.handleCommand(
+				ctx.deviceId,
+				msg.action,
+				msg.payload,
+				msg.targetDeviceId,
+			);
 			break;
 		}
 		case "renameDevice": {
@@ -149,7 +247,23 @@ function handleClientMessage(
 		}
 		case "songEnded": {
 			const ctx = getRoomContext(ws, roomManager);
-			if (ctx) ctx.room.handleSongEnded();
+			if (ctx) ctx.room.handlePlayerSongEnded();
+			break;
+		}
+		case "position": {
+			const ctx = getRoomContext(ws, roomManager);
+			if (ctx)
+				ctx.room.handlePosition(
+					ctx.deviceId,
+					msg.songId,
+					msg.position,
+					msg.serverTime,
+				);
+			break;
+		}
+		case "setOutputLatency": {
+			const ctx = getRoomContext(ws, roomManager);
+			if (ctx) ctx.room.setOutputLatency(ctx.deviceId, msg.latencyMs);
 			break;
 		}
 		case "ping": {
@@ -167,7 +281,13 @@ function handleClientMessage(
 export function handleRoomConnection(
 	ws: WebSocket,
 	roomManager: RoomManager,
+	/** Local sign-in session from the upgrade request's cookie. */
+	sessionToken: string | null = null,
 ): void {
+	// Joins check access asynchronously; chaining keeps a client's messages
+	// in order so a sync sent right after join isn't handled before it.
+	let pending = Promise.resolve();
+
 	ws.on("message", (raw) => {
 		let data: unknown;
 		try {
@@ -188,7 +308,12 @@ export function handleRoomConnection(
 			return;
 		}
 
-		handleClientMessage(ws, parsed.data, roomManager);
+		const msg = parsed.data;
+		pending = pending
+			.then(() => handleClientMessage(ws, msg, roomManager, sessionToken))
+			.catch((err) => {
+				logger.error({ err, type: msg.type }, "Room message handling failed");
+			});
 	});
 
 	ws.on("close", () => {
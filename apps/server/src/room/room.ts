@@ -1,3 +1,8 @@
+import {
+	measureDriftMs,
+	POSITION_REPORT_INTERVAL_MS,
+	planDriftCorrection,
+} from "@infinitune/shared/drift";
 import { pickNextSong } from "@infinitune/shared/pick-next-song";
 import type {
 	CommandAction,
@@ -7,21 +12,59 @@ import type {
 	PlaybackState,
 	ServerMessage,
 	SongData,
+	TransitionPlan,
+	TransitionSettings,
 } from "@infinitune/shared/protocol";
-import { ROOM_PROTOCOL_VERSION } from "@infinitune/shared/protocol";
+import {
+	MIN_ROOM_PROTOCOL_VERSION,
+	ROOM_PROTOCOL_VERSION,
+	TransitionSettingsSchema,
+} from "@infinitune/shared/protocol";
+import {
+	DEFAULT_TRANSITION,
+	planTransitionWindow,
+} from "@infinitune/shared/transition";
 import type { WebSocket } from "ws";
 import { logger } from "../logger";
 
 const IDLE_RESUME_SONGS_FROM_END = 10;
+// How early players are told about a crossfade, so they can buffer the
+// incoming song before the synchronized fade start.
+const TRANSITION_LEAD_MS = 2000;
+// Position reports right after a seek, song change or crossfade describe a
+// player that is still buffering, so they aren't used to measure drift.
+const POSITION_SETTLE_MS = 1500;
+// Protocol version from which players report positions and take corrections.
+const DRIFT_PROTOCOL_VERSION = 3;
 
 type QueueUpdateResult = {
 	seededFromIdle: boolean;
 	seededSongOrderIndex?: number;
 };
 
+/** A skip command, with where the room was in the song when it came in. */
+export interface RoomSkip {
+	songId: string;
+	positionSec: number;
+	durationSec: number | null;
+	deviceId: string;
+	deviceName: string | null;
+}
+
+/** What a device told the room about its playback when joining. */
+export interface DeviceSyncInfo {
+	protocolVersion?: number;
+	outputLatencyMs?: number;
+	canNudgeRate?: boolean;
+}
+
 interface ConnectedDevice extends Device {
 	ws: WebSocket;
 	mode: DeviceMode;
+	protocolVersion: number;
+	canNudgeRate: boolean;
+	// No further corrections until the last one has had time to land.
+	correctionHoldUntil: number;
 }
 
 export class Room {
@@ -40,6 +83,8 @@ export class Room {
 		isMuted: false,
 	};
 
+	transition: TransitionSettings = { ...DEFAULT_TRANSITION };
+
 	private devices = new Map<string, ConnectedDevice>();
 	private songQueue: SongData[] = [];
 	private songEndedHandled = false;
@@ -49,10 +94,19 @@ export class Room {
 	private positionCallback:
 		| ((playlistId: string, orderIndex: number) => Promise<void>)
 		| null = null;
+	private skipCallback: ((skip: RoomSkip) => Promise<void>) | null = null;
 	private lastSeekAt = 0;
+	// Last play/pause/seek/new song; drift isn't measured until it settles.
+	private timelineMovedAt = 0;
 	// After play/pause/toggle, bypass sync throttle so the player's
 	// immediate sync gets broadcast to controllers right away.
 	private syncPriorityUntil = 0;
+	// Server time at which the current song's position 0 played (or will play).
+	private songStartedAt: number | null = null;
+	private transitionTimer: ReturnType<typeof setTimeout> | null = null;
+	// While a crossfade is pending/running, the outgoing song still reports
+	// sync and may fire `songEnded`; neither should move the room.
+	private transitionLockUntil = 0;
 
 	constructor(
 		id: string,
@@ -76,12 +130,30 @@ export class Room {
 		this.positionCallback = cb;
 	}
 
+	setSkipCallback(cb: (skip: RoomSkip) => Promise<void>): void {
+		this.skipCallback = cb;
+	}
+
 	// ─── Device Management ──────────────────────────────────────────
 
-	addDevice(device: Omit<Device, "mode">, ws: WebSocket): void {
-		this.devices.set(device.id, { ...device, ws, mode: "default" });
+	addDevice(
+		device: Pick<Device, "id" | "name" | "role">,
+		ws: WebSocket,
+		sync: DeviceSyncInfo = {},
+	): void {
+		const protocolVersion = sync.protocolVersion ?? MIN_ROOM_PROTOCOL_VERSION;
+		this.devices.set(device.id, {
+			...device,
+			ws,
+			mode: "default",
+			protocolVersion,
+			outputLatencyMs: sync.outputLatencyMs ?? 0,
+			driftMs: null,
+			canNudgeRate: sync.canNudgeRate ?? true,
+			correctionHoldUntil: 0,
+		});
 		// Send current state + queue to the new device
-		this.sendTo(device.id, this.buildStateMessage());
+		this.sendTo(device.id, this.buildStateMessage(protocolVersion));
 		if (this.songQueue.length > 0) {
 			this.sendTo(device.id, { type: "queue", songs: this.songQueue });
 		}
@@ -106,6 +178,15 @@ export class Room {
 		this.broadcastState();
 	}
 
+	/** A player's own output latency offset changed (v3). */
+	setOutputLatency(deviceId: string, latencyMs: number): void {
+		const device = this.devices.get(deviceId);
+		if (!device) return;
+		device.outputLatencyMs = latencyMs;
+		device.correctionHoldUntil = 0;
+		this.broadcastState();
+	}
+
 	renameDevice(targetDeviceId: string, name: string): void {
 		const device = this.devices.get(targetDeviceId);
 		if (!device) return;
@@ -122,7 +203,9 @@ export class Room {
 	}
 
 	getDevices(): Device[] {
-		return Array.from(this.devices.values()).map(({ ws: _, ...d }) => d);
+		return Array.from(this.devices.values()).map(
+			({ ws: _, canNudgeRate: _n, correctionHoldUntil: _h, ...d }) => d,
+		);
 	}
 
 	private setDeviceMode(deviceId: string, mode: DeviceMode): void {
@@ -186,7 +269,7 @@ export class Room {
 	// ─── Command Handling ───────────────────────────────────────────
 
 	handleCommand(
-		_deviceId: string,
+		deviceId: string,
 		action: CommandAction,
 		payload?: Record<string, unknown>,
 		targetDeviceId?: string,
@@ -281,6 +364,9 @@ export class Room {
 					this.playback.currentTime = 0;
 				} else this.playback.isPlaying = !this.playback.isPlaying;
 				this.syncPriorityUntil = Date.now() + 500;
+				this.timelineMovedAt = Date.now();
+				this.songStartedAt = Date.now() - this.playback.currentTime * 1000;
+				this.scheduleTransition();
 				if (action === "stop") {
 					this.broadcastExecute("pause");
 					this.broadcastExecute("seek", { time: 0 }, false);
@@ -290,13 +376,17 @@ export class Room {
 				break;
 			}
 			case "skip":
+				if (!this.songEndedHandled) this.reportSkip(deviceId);
 				this.handleSongEnded();
 				return; // handleSongEnded broadcasts state
 			case "seek": {
 				const time = (payload?.time as number) ?? 0;
 				this.playback.currentTime = time;
 				this.lastSeekAt = Date.now();
+				this.timelineMovedAt = Date.now();
 				this.syncPriorityUntil = Date.now() + 500;
+				this.songStartedAt = Date.now() - time * 1000;
+				this.scheduleTransition();
 				this.broadcastExecute("seek", { time }, false); // seek goes to all
 				break;
 			}
@@ -314,6 +404,13 @@ export class Room {
 				this.broadcastExecute("rate", payload, false); // rating goes to all
 				break;
 			}
+			case "setTransition": {
+				const parsed = TransitionSettingsSchema.safeParse(payload);
+				if (!parsed.success) return;
+				this.transition = parsed.data;
+				this.scheduleTransition();
+				break;
+			}
 			case "selectSong": {
 				const songId = payload?.songId as string;
 				if (!songId) return;
@@ -330,9 +427,9 @@ export class Room {
 	// ─── Sync from Player ───────────────────────────────────────────
 
 	handleSync(
-		_deviceId: string,
+		deviceId: string,
 		currentSongId: string | null,
-		_reportedIsPlaying: boolean,
+		reportedIsPlaying: boolean,
 		currentTime: number,
 		duration: number,
 	): void {
@@ -342,11 +439,25 @@ export class Room {
 			this.playback.currentTime = currentTime;
 		}
 		this.playback.duration = duration;
-		// _reportedIsPlaying is intentionally ignored — room commands (play/pause/toggle)
+		// reportedIsPlaying is intentionally not applied — room commands (play/pause/toggle)
 		// are authoritative. If the player's audio is blocked by autoplay policy,
 		// sync would report isPlaying=false and cause UI flicker.
 		if (currentSongId) this.playback.currentSongId = currentSongId;
 
+		// A playing player's position re-anchors the crossfade schedule.
+		// Players that report positions are corrected toward the schedule
+		// instead, so they must not move it.
+		if (
+			reportedIsPlaying &&
+			!this.reportsPositions(deviceId) &&
+			currentSongId === this.playback.currentSongId &&
+			Date.now() - this.lastSeekAt > 500 &&
+			Date.now() >= this.transitionLockUntil
+		) {
+			this.songStartedAt = Date.now() - currentTime * 1000;
+			this.scheduleTransition();
+		}
+
 		// After play/pause/toggle/seek, bypass throttle so the first sync
 		// from the player reaches controllers immediately.
 		if (Date.now() < this.syncPriorityUntil) {
@@ -357,8 +468,76 @@ export class Room {
 		}
 	}
 
+	// ─── Drift Correction ───────────────────────────────────────────
+
+	/**
+	 * A v3 player's actual position at `serverTime`. Compares it with the
+	 * room timeline (allowing for the device's output latency) and, when the
+	 * player has drifted, tells it to nudge its playback rate or seek.
+	 */
+	handlePosition(
+		deviceId: string,
+		songId: string,
+		positionSec: number,
+		serverTime: number,
+	): void {
+		const device = this.devices.get(deviceId);
+		if (!device || device.role !== "player") return;
+		if (
+			device.mode === "individual" ||
+			!this.playback.isPlaying ||
+			songId !== this.playback.currentSongId ||
+			this.songStartedAt === null
+		) {
+			device.driftMs = null;
+			return;
+		}
+		const now = Date.now();
+		if (
+			now - this.timelineMovedAt < POSITION_SETTLE_MS ||
+			now < this.transitionLockUntil ||
+			serverTime < this.songStartedAt + POSITION_SETTLE_MS
+		) {
+			return;
+		}
+
+		const driftMs = Math.round(
+			measureDriftMs(
+				positionSec,
+				(serverTime - this.songStartedAt) / 1000,
+				device.outputLatencyMs,
+			),
+		);
+		device.driftMs = driftMs;
+		if (now < device.correctionHoldUntil) return;
+
+		const correction = planDriftCorrection(
+			driftMs,
+			(now - this.songStartedAt) / 1000,
+			now,
+			device.canNudgeRate,
+		);
+		if (!correction) return;
+		device.correctionHoldUntil =
+			now +
+			(correction.kind === "nudge" ? correction.durationMs : 0) +
+			POSITION_REPORT_INTERVAL_MS;
+		this.sendTo(deviceId, { type: "correction", songId, driftMs, correction });
+	}
+
+	private reportsPositions(deviceId: string): boolean {
+		const device = this.devices.get(deviceId);
+		return (device?.protocolVersion ?? 0) >= DRIFT_PROTOCOL_VERSION;
+	}
+
 	// ─── Song Ended ─────────────────────────────────────────────────
 
+	/** `songEnded` reported by a player (ignored while a crossfade is in flight). */
+	handlePlayerSongEnded(): void {
+		if (Date.now() < this.transitionLockUntil) return;
+		this.handleSongEnded();
+	}
+
 	handleSongEnded(): void {
 		// Debounce: only first report triggers advancement
 		if (this.songEndedHandled) return;
@@ -381,6 +560,8 @@ export class Room {
 			this.advanceToSong(next);
 		} else {
 			// No more songs — stop playback
+			this.clearTransitionTimer();
+			this.songStartedAt = null;
 			this.playback.isPlaying = false;
 			this.playback.currentSongId = null;
 			this.playback.currentTime = 0;
@@ -407,6 +588,7 @@ export class Room {
 			clearTimeout(this.stateBroadcastTimer);
 			this.stateBroadcastTimer = null;
 		}
+		this.clearTransitionTimer();
 	}
 
 	/** Mark the currently playing song as "played" via the callback. */
@@ -419,6 +601,30 @@ export class Room {
 		}
 	}
 
+	/**
+	 * Report a skip of the current song. While playing, the position is
+	 * derived from the song's start time, which is fresher than the last sync.
+	 */
+	private reportSkip(deviceId: string): void {
+		const songId = this.playback.currentSongId;
+		if (!songId || !this.skipCallback) return;
+		const duration = this.playback.duration > 0 ? this.playback.duration : null;
+		let positionSec = this.playback.currentTime;
+		if (this.playback.isPlaying && this.songStartedAt !== null) {
+			positionSec = Math.max(0, (Date.now() - this.songStartedAt) / 1000);
+		}
+		if (duration !== null) positionSec = Math.min(positionSec, duration);
+		this.skipCallback({
+			songId,
+			positionSec,
+			durationSec: duration,
+			deviceId,
+			deviceName: this.devices.get(deviceId)?.name ?? null,
+		}).catch((err) => {
+			logger.error({ err, songId }, "Failed to record skip");
+		});
+	}
+
 	/** Tell a player device to load the current song (used on join and role switch). */
 	private sendCurrentSongTo(deviceId: string): void {
 		const currentSong = this.getCurrentSong();
@@ -427,6 +633,7 @@ export class Room {
 				type: "nextSong",
 				songId: currentSong.id,
 				audioUrl: currentSong.audioUrl,
+				gainDb: currentSong.gainDb,
 			});
 		}
 	}
@@ -448,7 +655,7 @@ export class Room {
 		return candidate ?? playable[0] ?? null;
 	}
 
-	private advanceToSong(song: SongData): void {
+	private advanceToSong(song: SongData, transition?: TransitionPlan): void {
 		const audioUrl = song.audioUrl;
 		if (!audioUrl) {
 			return;
@@ -461,7 +668,16 @@ export class Room {
 		this.syncPriorityUntil = Date.now() + 1000;
 		this.reportPlaylistPosition(song.orderIndex);
 
-		const startAt = Date.now() + 500; // 500ms buffer for network
+		const startAt = transition?.startAt ?? Date.now() + 500; // 500ms buffer for network
+		this.songStartedAt = startAt;
+		this.timelineMovedAt = Date.now();
+		for (const device of this.devices.values()) {
+			device.driftMs = null;
+			device.correctionHoldUntil = 0;
+		}
+		this.transitionLockUntil = transition
+			? transition.startAt + transition.durationMs + 1000
+			: 0;
 
 		// Tell all players to load and play
 		this.broadcastToPlayers({
@@ -469,10 +685,72 @@ export class Room {
 			songId: song.id,
 			audioUrl,
 			startAt,
+			transition,
+			gainDb: song.gainDb,
 		});
 
 		this.broadcastState();
 		this.sendPreloadHint();
+		this.scheduleTransition();
+	}
+
+	// ─── Transitions ────────────────────────────────────────────────
+
+	private clearTransitionTimer(): void {
+		if (this.transitionTimer) {
+			clearTimeout(this.transitionTimer);
+			this.transitionTimer = null;
+		}
+	}
+
+	/**
+	 * (Re)arm the timer that starts the crossfade into the next song. Called
+	 * whenever the current song's timeline may have moved: new song, play,
+	 * seek, sync or a settings change. Paused rooms never crossfade.
+	 */
+	private scheduleTransition(): void {
+		this.clearTransitionTimer();
+		const song = this.getCurrentSong();
+		if (!song || !this.playback.isPlaying || this.songStartedAt === null) {
+			return;
+		}
+		const window = planTransitionWindow(
+			this.transition,
+			this.playback.duration || song.audioDuration,
+			song.bpm,
+		);
+		if (!window) return;
+
+		const fadeStartAt = this.songStartedAt + window.offsetSec * 1000;
+		// Too late to warn players in time — let the song end with a cut.
+		if (fadeStartAt - Date.now() < TRANSITION_LEAD_MS / 2) return;
+
+		this.transitionTimer = setTimeout(
+			() => {
+				this.transitionTimer = null;
+				this.beginTransition(song.id, {
+					mode: this.transition.mode === "beat" ? "beat" : "crossfade",
+					fromSongId: song.id,
+					startAt: fadeStartAt,
+					durationMs: Math.round(window.durationSec * 1000),
+				});
+			},
+			Math.max(0, fadeStartAt - TRANSITION_LEAD_MS - Date.now()),
+		);
+	}
+
+	private beginTransition(fromSongId: string, plan: TransitionPlan): void {
+		if (this.playback.currentSongId !== fromSongId) return;
+		const next = pickNextSong(
+			this.songQueue,
+			fromSongId,
+			this.playlistEpoch,
+			this.getCurrentSong()?.orderIndex,
+		);
+		if (!next?.audioUrl) return;
+
+		this.markCurrentSongPlayed();
+		this.advanceToSong(next, plan);
 	}
 
 	private reportPlaylistPosition(orderIndex: number): void {
@@ -504,19 +782,32 @@ export class Room {
 		}
 	}
 
-	private buildStateMessage(): ServerMessage {
+	/** State as seen by a client on `protocolVersion` (v2 clients check it). */
+	private buildStateMessage(
+		protocolVersion: number = ROOM_PROTOCOL_VERSION,
+	): ServerMessage {
 		return {
 			type: "state",
 			playback: { ...this.playback },
 			currentSong: this.getCurrentSong(),
 			devices: this.getDevices(),
-			protocolVersion: ROOM_PROTOCOL_VERSION,
+			transition: { ...this.transition },
+			protocolVersion,
 		};
 	}
 
 	private broadcastState(): void {
 		this.lastStateBroadcast = Date.now();
-		this.broadcast(this.buildStateMessage());
+		const encoded = new Map<number, string>();
+		for (const device of this.devices.values()) {
+			if (device.ws.readyState !== 1) continue;
+			let data = encoded.get(device.protocolVersion);
+			if (!data) {
+				data = JSON.stringify(this.buildStateMessage(device.protocolVersion));
+				encoded.set(device.protocolVersion, data);
+			}
+			this.safeSend(device, data);
+		}
 	}
 
 	private throttledBroadcastState(): void {
@@ -1,3 +1,4 @@
+import type { PlaylistPermission } from "@infinitune/shared/playlist-roles";
 import { type Context, Hono } from "hono";
 import z from "zod";
 import {
@@ -14,8 +15,11 @@ import {
 	writeMemory,
 } from "../agents/memory-store";
 import { getRequestActor, type RequestActor } from "../auth/actor";
+import {
+	checkPlaylistPermission,
+	principalFromActor,
+} from "../auth/playlist-access";
 import * as playlistService from "../services/playlist-service";
-import { type PlaylistWire, playlistToWire } from "../wire";
 
 const app = new Hono();
 
@@ -73,21 +77,20 @@ function parseLimit(value: string | undefined): number | undefined {
 	return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
 }
 
-function canAccessPlaylist(
-	actor: RequestActor,
-	playlist: PlaylistWire,
-): boolean {
-	if (!playlist.ownerUserId) return true;
-	return actor.kind === "user" && playlist.ownerUserId === actor.userId;
-}
-
 async function canAccessPlaylistId(
 	actor: RequestActor,
 	playlistId: string | null | undefined,
+	permission: PlaylistPermission = "play",
 ): Promise<boolean> {
 	if (!playlistId) return false;
 	const playlist = await playlistService.getById(playlistId);
-	return playlist ? canAccessPlaylist(actor, playlistToWire(playlist)) : false;
+	if (!playlist) return false;
+	const access = await checkPlaylistPermission(
+		playlist,
+		principalFromActor(actor),
+		permission,
+	);
+	return access.allowed;
 }
 
 async function canReadMemoryEntry(
@@ -103,7 +106,7 @@ async function canWriteMemoryInput(
 	input: { scope?: MemoryScope; playlistId?: string | null },
 ): Promise<boolean> {
 	if (input.scope === "global") return actor.kind === "user";
-	return await canAccessPlaylistId(actor, input.playlistId);
+	return await canAccessPlaylistId(actor, input.playlistId, "steer");
 }
 
 async function getAuthorizedMemoryEntry(c: Context): Promise<
@@ -193,6 +196,9 @@ app.patch("/:id", async (c) => {
 app.delete("/:id", async (c) => {
 	const access = await getAuthorizedMemoryEntry(c);
 	if (access instanceof Response) return access;
+	if (!(await canWriteMemoryInput(access.actor, access.entry))) {
+		return c.json({ error: "Not authorized to write memory" }, 403);
+	}
 	const entry = await deleteMemory(access.entry.id);
 	if (!entry) return c.json({ error: "Memory entry not found" }, 404);
 	return c.json({ entry });
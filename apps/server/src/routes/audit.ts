@@ -0,0 +1,54 @@
+import { AUDIT_ACTIONS } from "@infinitune/shared/audit";
+import { Hono } from "hono";
+import z from "zod";
+import { requireUserActor } from "../auth/actor";
+import {
+	filterAccessiblePlaylists,
+	principalFromActor,
+} from "../auth/playlist-access";
+import { isWorkerAdmin } from "../auth/worker-admin";
+import * as auditService from "../services/audit-service";
+import * as playlistService from "../services/playlist-service";
+
+const app = new Hono();
+
+const AuditQuerySchema = z.object({
+	action: z.enum(AUDIT_ACTIONS).optional(),
+	playlistId: z.string().min(1).optional(),
+	actorUserId: z.string().min(1).optional(),
+	deviceId: z.string().min(1).optional(),
+	since: z.coerce.number().int().min(0).optional(),
+	cursor: z.string().min(1).optional(),
+	limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+// GET /api/audit — newest first; pass `nextCursor` back as `cursor` to page.
+// Admins see everything, signed-in users only playlists they manage.
+app.get("/", async (c) => {
+	const result = AuditQuerySchema.safeParse(c.req.query());
+	if (!result.success) {
+		return c.json({ error: result.error.message }, 400);
+	}
+	let filters: auditService.AuditFilters = result.data;
+	if (!isWorkerAdmin(c)) {
+		const actor = await requireUserActor(c);
+		if (!actor) return c.json({ error: "Unauthorized" }, 401);
+		const managed = await filterAccessiblePlaylists(
+			principalFromActor(actor),
+			await playlistService.listAll(),
+			"manage",
+		);
+		filters = {
+			...filters,
+			playlistIds: managed.map((playlist) => playlist.id),
+		};
+	}
+	try {
+		return c.json(await auditService.list(filters));
+	} catch (error) {
+		if (!(error instanceof auditService.InvalidAuditCursorError)) throw error;
+		return c.json({ error: error.message }, 400);
+	}
+});
+
+export default app;
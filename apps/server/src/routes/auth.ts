@@ -0,0 +1,146 @@
+import type { AuthProviderState } from "@infinitune/shared/auth";
+import { SESSION_COOKIE_NAME } from "@infinitune/shared/auth";
+import {
+	ChangePasswordSchema,
+	CreateApiKeySchema,
+	LocalLoginSchema,
+	RegisterLocalAccountSchema,
+} from "@infinitune/shared/validation/auth-schemas";
+import { type Context, Hono } from "hono";
+import { deleteCookie, setCookie } from "hono/cookie";
+import { readSessionCookie, requireUserActor } from "../auth/actor";
+import {
+	getEnabledAuthProviders,
+	isAuthProviderEnabled,
+	isLocalSignupOpen,
+} from "../auth/providers";
+import * as accountService from "../services/account-service";
+import * as apiKeyService from "../services/api-key-service";
+
+const app = new Hono();
+
+function setSessionCookie(c: Context, token: string, expiresAt: number) {
+	setCookie(c, SESSION_COOKIE_NAME, token, {
+		httpOnly: true,
+		sameSite: "Lax",
+		secure: process.env.NODE_ENV === "production",
+		path: "/",
+		expires: new Date(expiresAt),
+	});
+}
+
+async function startSession(c: Context, userId: string) {
+	const session = await accountService.createSession(
+		userId,
+		c.req.header("user-agent"),
+	);
+	setSessionCookie(c, session.token, session.expiresAt);
+}
+
+// GET /api/auth/providers — who is signed in lives at /api/v1/auth/session
+app.get("/providers", async (c) => {
+	const state: AuthProviderState = {
+		providers: getEnabledAuthProviders(),
+		signupOpen: isLocalSignupOpen(await accountService.hasLocalAccounts()),
+	};
+	return c.json(state);
+});
+
+// ─── Local accounts ──────────────────────────────────────────────────
+
+// POST /api/auth/register
+app.post("/register", async (c) => {
+	if (!isAuthProviderEnabled("local")) {
+		return c.json({ error: "Local sign-in is disabled" }, 404);
+	}
+	const body = await c.req.json();
+	const result = RegisterLocalAccountSchema.safeParse(body);
+	if (!result.success) {
+		return c.json({ error: result.error.message }, 400);
+	}
+	if (!isLocalSignupOpen(await accountService.hasLocalAccounts())) {
+		return c.json({ error: "Sign-up is closed" }, 403);
+	}
+	const user = await accountService.register(result.data);
+	if (!user) return c.json({ error: "Username is taken" }, 409);
+	await startSession(c, user.id);
+	return c.json({ id: user.id, username: result.data.username }, 201);
+});
+
+// POST /api/auth/login
+app.post("/login", async (c) => {
+	if (!isAuthProviderEnabled("local")) {
+		return c.json({ error: "Local sign-in is disabled" }, 404);
+	}
+	const body = await c.req.json();
+	const result = LocalLoginSchema.safeParse(body);
+	if (!result.success) {
+		return c.json({ error: "Invalid username or password" }, 401);
+	}
+	const user = await accountService.authenticate(
+		result.data.username,
+		result.data.password,
+	);
+	if (!user) return c.json({ error: "Invalid username or password" }, 401);
+	await startSession(c, user.id);
+	return c.json({ id: user.id, username: result.data.username });
+});
+
+// POST /api/auth/logout
+app.post("/logout", async (c) => {
+	const token = readSessionCookie(c.req.header("cookie"));
+	if (token) await accountService.revokeSession(token);
+	deleteCookie(c, SESSION_COOKIE_NAME, { path: "/" });
+	return c.json({ ok: true });
+});
+
+// POST /api/auth/password — also signs out every other session
+app.post("/password", async (c) => {
+	const actor = await requireUserActor(c);
+	if (!actor) return c.json({ error: "Unauthorized" }, 401);
+	const body = await c.req.json();
+	const result = ChangePasswordSchema.safeParse(body);
+	if (!result.success) {
+		return c.json({ error: result.error.message }, 400);
+	}
+	const changed = await accountService.changePassword(
+		actor.userId,
+		result.data.currentPassword,
+		result.data.newPassword,
+	);
+	if (!changed) return c.json({ error: "Current password is wrong" }, 400);
+	await startSession(c, actor.userId);
+	return c.json({ ok: true });
+});
+
+// ─── API keys ────────────────────────────────────────────────────────
+
+// GET /api/auth/api-keys
+app.get("/api-keys", async (c) => {
+	const actor = await requireUserActor(c);
+	if (!actor) return c.json({ error: "Unauthorized" }, 401);
+	return c.json(await apiKeyService.listByUser(actor.userId));
+});
+
+// POST /api/auth/api-keys — the token is only returned here
+app.post("/api-keys", async (c) => {
+	const actor = await requireUserActor(c);
+	if (!actor) return c.json({ error: "Unauthorized" }, 401);
+	const body = await c.req.json();
+	const result = CreateApiKeySchema.safeParse(body);
+	if (!result.success) {
+		return c.json({ error: result.error.message }, 400);
+	}
+	return c.json(await apiKeyService.create(actor.userId, result.data), 201);
+});
+
+// DELETE /api/auth/api-keys/:id
+app.delete("/api-keys/:id", async (c) => {
+	const actor = await requireUserActor(c);
+	if (!actor) return c.json({ error: "Unauthorized" }, 401);
+	const revoked = await apiKeyService.revoke(actor.userId, c.req.param("id"));
+	if (!revoked) return c.json({ error: "API key not found" }, 404);
+	return c.json({ ok: true });
+});
+
+export default app;
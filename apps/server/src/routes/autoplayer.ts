@@ -4,10 +4,20 @@ import {
 	ACE_KNOWN_MODELS,
 	ACE_QUALITY_DEFAULT_MODEL,
 	getAceModelKey,
+	resolveAceEndpoints,
 } from "@infinitune/shared/ace-settings";
+import { parseImageProvider } from "@infinitune/shared/image-providers";
 import { normalizeLlmProvider } from "@infinitune/shared/text-llm-profile";
 import type { LlmProvider } from "@infinitune/shared/types";
 import { Hono } from "hono";
+import {
+	type AceHealthResponse,
+	type AceModelInventoryResponse,
+	type AceModelsResponse,
+	type AceProbeResult,
+	parseAceJson,
+	probeAceEndpoint,
+} from "../external/ace";
 import { codexAppServerClient } from "../external/codex-app-server-client";
 import {
 	cancelCodexDeviceAuth,
@@ -15,11 +25,11 @@ import {
 	getCodexLoginStatus,
 	startCodexDeviceAuth,
 } from "../external/codex-auth";
-import { testCodexImagegenProvider } from "../external/codex-imagegen";
 import {
-	getInferenceShImageModels,
-	testInferenceShImageProvider,
-} from "../external/inference-sh";
+	getImageProvider,
+	listImageProviders,
+} from "../external/image-providers";
+import { getInferenceShImageModels } from "../external/inference-sh";
 import {
 	enhancePlaylistPrompt,
 	enhanceSessionParams,
@@ -35,8 +45,13 @@ import {
 	type SessionParams,
 	type SongMetadata,
 } from "../external/llm";
+import {
+	getOpenAiCompatibleConfig,
+	listOpenAiCompatibleModels,
+} from "../external/openai-compatible";
 import { getServiceUrls } from "../external/service-urls";
 import { logger } from "../logger";
+import * as settingsService from "../services/settings-service";
 
 interface OllamaModel {
 	name: string;
@@ -54,44 +69,6 @@ interface CodexModelResponse {
 
 type AutoplayerProvider = LlmProvider;
 
-interface AceModelInventoryResponse {
-	data?: {
-		models?: {
-			name?: string;
-			is_default?: boolean;
-			is_loaded?: boolean;
-			supported_task_types?: string[];
-		}[];
-		default_model?: string;
-	};
-}
-
-interface AceHealthResponse {
-	data?: { loaded_model?: string };
-}
-
-interface AceModelsResponse {
-	data?: { id?: string; name?: string }[];
-	models?: { id?: string; name?: string }[];
-	default_model?: string;
-}
-
-async function parseAceJson<T>(
-	response: Response | null,
-	source: string,
-): Promise<T | null> {
-	if (response?.ok !== true) return null;
-	try {
-		return (await response.json()) as T;
-	} catch (error) {
-		logger.warn(
-			{ err: error, source },
-			"Failed to parse ACE-Step model response",
-		);
-		return null;
-	}
-}
-
 interface SourceSong {
 	title: string;
 	artistName: string;
@@ -139,7 +116,8 @@ function parseProvider(value: unknown): AutoplayerProvider | undefined {
 		value === "ollama" ||
 		value === "openrouter" ||
 		value === "openai-codex" ||
-		value === "anthropic"
+		value === "anthropic" ||
+		value === "openai-compatible"
 	) {
 		return normalizeLlmProvider(value);
 	}
@@ -390,6 +368,39 @@ app.get("/ollama-models", async (c) => {
 	}
 });
 
+// ─── GET /openai-compatible-models ──────────────────────────────────
+app.get("/openai-compatible-models", async (c) => {
+	const config = await getOpenAiCompatibleConfig();
+	try {
+		const served = await listOpenAiCompatibleModels(config);
+		// Configured models first, in their configured order
+		const names = [...new Set([...config.models, ...served])];
+		return c.json({
+			models: names.map((name) => ({
+				name,
+				type: "text",
+				configured: config.models.includes(name),
+			})),
+		});
+	} catch (error: unknown) {
+		logger.warn({ err: error }, "Failed to fetch OpenAI-compatible models");
+		return c.json(
+			{
+				error:
+					error instanceof Error
+						? error.message
+						: "Failed to fetch OpenAI-compatible models",
+				models: config.models.map((name) => ({
+					name,
+					type: "text",
+					configured: true,
+				})),
+			},
+			502,
+		);
+	}
+});
+
 // ─── GET /ace-models ────────────────────────────────────────────────
 app.get("/ace-models", async (c) => {
 	const knownModels = ACE_KNOWN_MODELS.map((name) => ({
@@ -402,7 +413,13 @@ app.get("/ace-models", async (c) => {
 
 	try {
 		const urls = await getServiceUrls();
-		const [inventoryResponse, healthResponse, modelsResponse] =
+		// The primary answers in full below; the rest of the pool only adds
+		// the models it serves
+		const poolEndpoints = resolveAceEndpoints(
+			await settingsService.getAll(),
+			urls.aceStepUrl,
+		).slice(1);
+		const [inventoryResponse, healthResponse, modelsResponse, poolProbes] =
 			await Promise.all([
 				fetch(`${urls.aceStepUrl}/v1/model_inventory`, {
 					signal: AbortSignal.timeout(10000),
@@ -413,7 +430,15 @@ app.get("/ace-models", async (c) => {
 				fetch(`${urls.aceStepUrl}/v1/models`, {
 					signal: AbortSignal.timeout(10000),
 				}).catch(() => null),
+				Promise.all(
+					poolEndpoints.map((endpoint) =>
+						probeAceEndpoint(endpoint.url, 10000).catch(() => null),
+					),
+				),
 			]);
+		const poolModels = poolProbes.filter((probe): probe is AceProbeResult =>
+			Boolean(probe?.models),
+		);
 
 		const [inventory, health, modelsData] = await Promise.all([
 			parseAceJson<AceModelInventoryResponse>(inventoryResponse, "inventory"),
@@ -421,7 +446,7 @@ app.get("/ace-models", async (c) => {
 			parseAceJson<AceModelsResponse>(modelsResponse, "models"),
 		]);
 
-		if (!inventory && !modelsData) {
+		if (!inventory && !modelsData && poolModels.length === 0) {
 			return c.json({
 				error: inventoryResponse
 					? `ACE-Step returned ${inventoryResponse.status}`
@@ -480,6 +505,21 @@ app.get("/ace-models", async (c) => {
 			});
 		}
 
+		for (const probe of poolModels) {
+			for (const key of probe.models ?? []) {
+				if (!seen.has(key)) seen.set(key, { name: key });
+			}
+			if (probe.loadedModel) {
+				const key = getAceModelKey(probe.loadedModel);
+				const existing = seen.get(key);
+				seen.set(key, {
+					...existing,
+					name: existing?.name || probe.loadedModel,
+					is_loaded: true,
+				});
+			}
+		}
+
 		if (loadedModel) {
 			const loadedKey = getAceModelKey(loadedModel);
 			const existing = seen.get(loadedKey);
@@ -524,6 +564,42 @@ app.get("/inference-sh-image-models", (c) => {
 	return c.json({ models: getInferenceShImageModels() });
 });
 
+// ─── GET /image-providers ───────────────────────────────────────────
+app.get("/image-providers", (c) => {
+	return c.json({ providers: listImageProviders() });
+});
+
+// ─── GET /image-models?provider=a1111 ───────────────────────────────
+app.get("/image-models", async (c) => {
+	const provider = c.req.query("provider") ?? "";
+	if (!parseImageProvider(provider)) {
+		return c.json(
+			{ error: `Unknown image provider "${provider}"`, models: [] },
+			400,
+		);
+	}
+	try {
+		const models = await getImageProvider(provider).listModels(
+			AbortSignal.timeout(10_000),
+		);
+		return c.json({
+			models: models.map((model) => ({ ...model, type: "image" })),
+		});
+	} catch (error: unknown) {
+		logger.warn({ err: error, provider }, "Failed to list image models");
+		return c.json(
+			{
+				error:
+					error instanceof Error
+						? error.message
+						: "Failed to list image models",
+				models: [],
+			},
+			502,
+		);
+	}
+});
+
 // ─── Legacy OpenRouter model endpoint ───────────────────────────────
 app.get("/openrouter-models", (c) => {
 	try {
@@ -1217,21 +1293,23 @@ app.post("/test-connection", async (c) => {
 			});
 		}
 
-		if (provider === "inference-sh" || provider === "openrouter") {
-			void apiKey;
-			await testInferenceShImageProvider();
-			return c.json({
-				ok: true,
-				message: "Inference.sh CLI ready",
-			});
-		}
-
-		if (provider === "codex-imagegen") {
-			const message = await testCodexImagegenProvider();
-			return c.json({
-				ok: true,
-				message: message || "Codex CLI ready",
-			});
+		void apiKey;
+		if (parseImageProvider(provider)) {
+			const imageProvider = getImageProvider(provider);
+			try {
+				const message = await imageProvider.testConnection();
+				return c.json({ ok: true, message });
+			} catch (error: unknown) {
+				logger.warn(
+					{ provider: imageProvider.id, err: error },
+					"Connection test failed",
+				);
+				return c.json({
+					ok: false,
+					error:
+						error instanceof Error ? error.message : "Connection test failed",
+				});
+			}
 		}
 
 		if (provider === "openai-codex") {
@@ -1257,21 +1335,23 @@ app.post("/test-connection", async (c) => {
 			});
 		}
 
-		if (provider === "comfyui") {
-			const response = await fetch(`${urls.comfyuiUrl}/system_stats`, {
-				signal: AbortSignal.timeout(5000),
-			});
-			if (!response.ok) {
-				logger.warn(
-					{ provider: "comfyui", status: response.status },
-					"Connection test failed",
-				);
+		if (provider === "openai-compatible") {
+			const config = await getOpenAiCompatibleConfig();
+			const served = await listOpenAiCompatibleModels(
+				config,
+				AbortSignal.timeout(5000),
+			);
+			const missing = config.models.filter((model) => !served.includes(model));
+			if (missing.length > 0) {
 				return c.json({
 					ok: false,
-					error: `ComfyUI returned ${response.status}`,
+					error: `Server doesn't list: ${missing.join(", ")}`,
 				});
 			}
-			return c.json({ ok: true, message: "Connected to ComfyUI" });
+			return c.json({
+				ok: true,
+				message: `Connected — ${served.length} model(s) at ${config.baseUrl}`,
+			});
 		}
 
 		if (provider === "ace-step") {
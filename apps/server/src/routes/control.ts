@@ -1,10 +1,17 @@
+import {
+	commandPermission,
+	type PlaylistPermission,
+} from "@infinitune/shared/playlist-roles";
 import {
 	AuthSessionSchema,
+	CreateHouseScheduleRequestSchema,
 	DeviceRecordSchema,
 	DeviceRegisterRequestSchema,
 	DeviceRegisterResponseSchema,
 	HouseCommandRequestSchema,
 	HouseCommandResponseSchema,
+	HouseScheduleSchema,
+	HouseSchedulesResponseSchema,
 	HouseSessionsResponseSchema,
 	IssueDeviceTokenRequestSchema,
 	IssueDeviceTokenResponseSchema,
@@ -12,15 +19,22 @@ import {
 	PlaylistDeviceAssignmentSchema,
 	PlaylistDeviceAssignmentsResponseSchema,
 	PlaylistSessionInfoSchema,
+	RunHouseScheduleRequestSchema,
+	UpdateHouseScheduleRequestSchema,
 } from "@infinitune/shared/protocol";
-import { Hono } from "hono";
+import { type Context, Hono } from "hono";
 import z from "zod";
 import { getRequestActor, requireUserActor } from "../auth/actor";
-import type { Playlist } from "../db/schema";
-import { syncRoom } from "../room/room-event-handler";
+import { recordAudit } from "../auth/audit";
+import { checkPlaylistPermission } from "../auth/playlist-access";
+import { runScheduleAction } from "../room/house-scheduler";
+import { ensurePlaylistSession } from "../room/playlist-session";
+import type { Room } from "../room/room";
 import type { RoomManager } from "../room/room-manager";
+import * as accountService from "../services/account-service";
 import * as deviceService from "../services/device-service";
 import * as playlistService from "../services/playlist-service";
+import * as scheduleService from "../services/schedule-service";
 
 const UpdateDeviceSchema = z.object({
 	name: z.string().min(1).max(120).optional(),
@@ -37,40 +51,64 @@ function canAccessOwnedResource(
 	return false;
 }
 
-async function ensurePlaylistSession(
-	roomManager: RoomManager,
-	playlistId: string,
-	playlistOverride?: Playlist,
-) {
-	const playlist =
-		playlistOverride ?? (await playlistService.getById(playlistId));
-	if (!playlist) return null;
-
-	const existingRoom = roomManager.getRoomsByPlaylistId(playlist.id)[0];
-	const room =
-		existingRoom ??
-		roomManager.createRoom(
-			playlist.id,
-			playlist.name,
-			playlist.playlistKey ?? playlist.id,
-		);
-	room.playlistId = playlist.id;
-	await syncRoom(room);
-
-	return { room, playlist };
+function playbackSnapshot(room: Room) {
+	const { currentSongId, isPlaying, volume, isMuted } = room.playback;
+	return { currentSongId, isPlaying, volume, isMuted };
+}
+
+async function getHouseActors(c: Context) {
+	const userActor = await requireUserActor(c);
+	const deviceToken = c.req.header("x-device-token");
+	const deviceActor = deviceToken
+		? await deviceService.authenticateDeviceToken(deviceToken)
+		: null;
+	return { userActor, deviceActor };
+}
+
+/** Schedules may only point at playlists and devices the caller could control. */
+async function validateScheduleTargets(
+	playlistId: string | undefined,
+	deviceId: string | null | undefined,
+	userId: string | undefined,
+	deviceOwnerUserId: string | null | undefined,
+): Promise<{ error: string; status: 403 | 404 } | null> {
+	if (playlistId !== undefined) {
+		const playlist = await playlistService.getById(playlistId);
+		if (!playlist) return { error: "Playlist not found", status: 404 };
+		const access = await checkPlaylistPermission(
+			playlist,
+			{ userId, deviceOwnerUserId },
+			"play",
+		);
+		if (!access.allowed) return { error: "Forbidden", status: 403 };
+	}
+	if (deviceId) {
+		const device = await deviceService.getDeviceById(deviceId);
+		if (!device) return { error: "Device not found", status: 404 };
+		if (
+			!canAccessOwnedResource(device.ownerUserId, userId, deviceOwnerUserId)
+		) {
+			return { error: "Forbidden", status: 403 };
+		}
+	}
+	return null;
 }
 
 async function ensurePlaylistPermission(
 	roomManager: RoomManager,
 	playlistId: string,
 	userId: string,
+	permission: PlaylistPermission = "play",
 ) {
 	const session = await ensurePlaylistSession(roomManager, playlistId);
 	if (!session) return { error: "not_found" as const };
 
-	if (session.playlist.ownerUserId && session.playlist.ownerUserId !== userId) {
-		return { error: "forbidden" as const };
-	}
+	const access = await checkPlaylistPermission(
+		session.playlist,
+		{ userId },
+		permission,
+	);
+	if (!access.allowed) return { error: "forbidden" as const };
 
 	return { session };
 }
@@ -88,6 +126,9 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 						email: actor.email ?? null,
 						name: actor.name ?? null,
 						picture: actor.picture ?? null,
+						username:
+							(await accountService.getByUserId(actor.userId))?.username ??
+							null,
 					}
 				: {
 						authenticated: false,
@@ -109,13 +150,12 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 		const deviceActor = deviceToken
 			? await deviceService.authenticateDeviceToken(deviceToken)
 			: null;
-		if (
-			!canAccessOwnedResource(
-				playlist.ownerUserId,
-				actor?.userId,
-				deviceActor?.ownerUserId,
-			)
-		) {
+		const access = await checkPlaylistPermission(
+			playlist,
+			{ userId: actor?.userId, deviceOwnerUserId: deviceActor?.ownerUserId },
+			"play",
+		);
+		if (!access.allowed) {
 			return c.json({ error: "Forbidden" }, 403);
 		}
 		const session = await ensurePlaylistSession(
@@ -134,6 +174,7 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 				currentSong: session.room.getCurrentSong(),
 				devices: session.room.getDevices(),
 				queue: session.room.getQueue(),
+				viewerRole: access.role ?? undefined,
 			}),
 		);
 	});
@@ -164,22 +205,40 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 		if (!session) {
 			return c.json({ error: "Playlist not found" }, 404);
 		}
-		if (
-			!canAccessOwnedResource(
-				session.playlist.ownerUserId,
-				userActor?.userId,
-				deviceActor?.ownerUserId,
-			)
-		) {
+		const access = await checkPlaylistPermission(
+			session.playlist,
+			{
+				userId: userActor?.userId,
+				deviceOwnerUserId: deviceActor?.ownerUserId,
+			},
+			commandPermission(parsed.data.action),
+		);
+		if (!access.allowed) {
 			return c.json({ error: "Forbidden" }, 403);
 		}
 
+		const before = playbackSnapshot(session.room);
 		session.room.handleCommand(
 			userActor?.userId ?? deviceActor?.id ?? "api",
 			parsed.data.action,
 			parsed.data.payload,
 			parsed.data.targetDeviceId,
 		);
+		await recordAudit(
+			c,
+			{ actor: userActor, device: deviceActor },
+			{
+				action: "playlist.command",
+				playlistId: session.playlist.id,
+				targetId: parsed.data.targetDeviceId ?? null,
+				before,
+				after: {
+					command: parsed.data.action,
+					payload: parsed.data.payload ?? null,
+					playback: playbackSnapshot(session.room),
+				},
+			},
+		);
 
 		return c.json({ ok: true });
 	});
@@ -204,6 +263,11 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 		}
 
 		const actorId = userActor?.userId ?? deviceActor?.id ?? "api";
+		const principal = {
+			userId: userActor?.userId,
+			deviceOwnerUserId: deviceActor?.ownerUserId,
+		};
+		const permission = commandPermission(parsed.data.action);
 		const candidatePlaylistIds = (
 			parsed.data.playlistIds && parsed.data.playlistIds.length > 0
 				? parsed.data.playlistIds
@@ -226,13 +290,12 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 				skippedPlaylistIds.push(playlistId);
 				continue;
 			}
-			if (
-				!canAccessOwnedResource(
-					session.playlist.ownerUserId,
-					userActor?.userId,
-					deviceActor?.ownerUserId,
-				)
-			) {
+			const access = await checkPlaylistPermission(
+				session.playlist,
+				principal,
+				permission,
+			);
+			if (!access.allowed) {
 				skippedPlaylistIds.push(playlistId);
 				continue;
 			}
@@ -246,6 +309,22 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 			affectedPlaylistIds.push(session.playlist.id);
 			affectedRoomIds.push(session.room.id);
 		}
+		await recordAudit(
+			c,
+			{ actor: userActor, device: deviceActor },
+			{
+				action: "house.command",
+				playlistId:
+					affectedPlaylistIds.length === 1 ? affectedPlaylistIds[0] : null,
+				targetId: parsed.data.targetDeviceId ?? null,
+				after: {
+					command: parsed.data.action,
+					payload: parsed.data.payload ?? null,
+					affectedPlaylistIds,
+					skippedPlaylistIds,
+				},
+			},
+		);
 
 		return c.json(
 			HouseCommandResponseSchema.parse({
@@ -283,15 +362,15 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 		for (const playlistId of candidatePlaylistIds) {
 			const session = await ensurePlaylistSession(roomManager, playlistId);
 			if (!session) continue;
-			if (
-				!canAccessOwnedResource(
-					session.playlist.ownerUserId,
-					userActor?.userId,
-					deviceActor?.ownerUserId,
-				)
-			) {
-				continue;
-			}
+			const access = await checkPlaylistPermission(
+				session.playlist,
+				{
+					userId: userActor?.userId,
+					deviceOwnerUserId: deviceActor?.ownerUserId,
+				},
+				"play",
+			);
+			if (!access.allowed) continue;
 
 			sessions.push({
 				roomId: session.room.id,
@@ -302,6 +381,7 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 				currentSong: session.room.getCurrentSong(),
 				devices: session.room.getDevices(),
 				queue: session.room.getQueue(),
+				viewerRole: access.role ?? undefined,
 			});
 		}
 
@@ -312,6 +392,207 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 		);
 	});
 
+	app.get("/house/schedules", async (c) => {
+		const { userActor, deviceActor } = await getHouseActors(c);
+		if (!userActor && !deviceActor) {
+			return c.json(
+				{ error: "Unauthorized: requires Shoo user token or x-device-token" },
+				401,
+			);
+		}
+
+		const schedules = (await scheduleService.listAll()).filter((schedule) =>
+			canAccessOwnedResource(
+				schedule.ownerUserId,
+				userActor?.userId,
+				deviceActor?.ownerUserId,
+			),
+		);
+		return c.json(
+			HouseSchedulesResponseSchema.parse({
+				schedules: await scheduleService.toWire(schedules),
+			}),
+		);
+	});
+
+	app.post("/house/schedules", async (c) => {
+		const body = await c.req.json().catch(() => ({}));
+		const parsed = CreateHouseScheduleRequestSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: parsed.error.message }, 400);
+		}
+
+		const { userActor, deviceActor } = await getHouseActors(c);
+		if (!userActor && !deviceActor) {
+			return c.json(
+				{ error: "Unauthorized: requires Shoo user token or x-device-token" },
+				401,
+			);
+		}
+
+		const invalid = await validateScheduleTargets(
+			parsed.data.playlistId,
+			parsed.data.deviceId,
+			userActor?.userId,
+			deviceActor?.ownerUserId,
+		);
+		if (invalid) return c.json({ error: invalid.error }, invalid.status);
+
+		const playlist = await playlistService.getById(parsed.data.playlistId);
+		const created = await scheduleService.create(
+			userActor?.userId ?? deviceActor?.ownerUserId ?? null,
+			{
+				...parsed.data,
+				name: parsed.data.name ?? playlist?.name ?? "Schedule",
+			},
+		);
+		await recordAudit(
+			c,
+			{ actor: userActor, device: deviceActor },
+			{
+				action: "house.schedule_created",
+				playlistId: created.playlistId,
+				targetId: created.id,
+				after: created,
+			},
+		);
+		const [schedule] = await scheduleService.toWire([created]);
+		return c.json(HouseScheduleSchema.parse(schedule), 201);
+	});
+
+	app.patch("/house/schedules/:scheduleId", async (c) => {
+		const body = await c.req.json().catch(() => ({}));
+		const parsed = UpdateHouseScheduleRequestSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: parsed.error.message }, 400);
+		}
+
+		const { userActor, deviceActor } = await getHouseActors(c);
+		if (!userActor && !deviceActor) {
+			return c.json(
+				{ error: "Unauthorized: requires Shoo user token or x-device-token" },
+				401,
+			);
+		}
+
+		const existing = await scheduleService.getById(c.req.param("scheduleId"));
+		if (!existing) return c.json({ error: "Schedule not found" }, 404);
+		if (
+			!canAccessOwnedResource(
+				existing.ownerUserId,
+				userActor?.userId,
+				deviceActor?.ownerUserId,
+			)
+		) {
+			return c.json({ error: "Forbidden" }, 403);
+		}
+
+		const invalid = await validateScheduleTargets(
+			parsed.data.playlistId,
+			parsed.data.deviceId,
+			userActor?.userId,
+			deviceActor?.ownerUserId,
+		);
+		if (invalid) return c.json({ error: invalid.error }, invalid.status);
+
+		const updated = await scheduleService.update(existing.id, parsed.data);
+		if (!updated) return c.json({ error: "Schedule not found" }, 404);
+		await recordAudit(
+			c,
+			{ actor: userActor, device: deviceActor },
+			{
+				action: "house.schedule_updated",
+				playlistId: updated.playlistId,
+				targetId: updated.id,
+				before: existing,
+				after: updated,
+			},
+		);
+		const [schedule] = await scheduleService.toWire([updated]);
+		return c.json(HouseScheduleSchema.parse(schedule));
+	});
+
+	app.delete("/house/schedules/:scheduleId", async (c) => {
+		const { userActor, deviceActor } = await getHouseActors(c);
+		if (!userActor && !deviceActor) {
+			return c.json(
+				{ error: "Unauthorized: requires Shoo user token or x-device-token" },
+				401,
+			);
+		}
+
+		const existing = await scheduleService.getById(c.req.param("scheduleId"));
+		if (!existing) return c.json({ error: "Schedule not found" }, 404);
+		if (
+			!canAccessOwnedResource(
+				existing.ownerUserId,
+				userActor?.userId,
+				deviceActor?.ownerUserId,
+			)
+		) {
+			return c.json({ error: "Forbidden" }, 403);
+		}
+
+		await scheduleService.remove(existing.id);
+		await recordAudit(
+			c,
+			{ actor: userActor, device: deviceActor },
+			{
+				action: "house.schedule_deleted",
+				playlistId: existing.playlistId,
+				targetId: existing.id,
+				before: existing,
+			},
+		);
+		return c.json({ ok: true });
+	});
+
+	app.post("/house/schedules/:scheduleId/run", async (c) => {
+		const body = await c.req.json().catch(() => ({}));
+		const parsed = RunHouseScheduleRequestSchema.safeParse(body);
+		if (!parsed.success) {
+			return c.json({ error: parsed.error.message }, 400);
+		}
+
+		const { userActor, deviceActor } = await getHouseActors(c);
+		if (!userActor && !deviceActor) {
+			return c.json(
+				{ error: "Unauthorized: requires Shoo user token or x-device-token" },
+				401,
+			);
+		}
+
+		const existing = await scheduleService.getById(c.req.param("scheduleId"));
+		if (!existing) return c.json({ error: "Schedule not found" }, 404);
+		if (
+			!canAccessOwnedResource(
+				existing.ownerUserId,
+				userActor?.userId,
+				deviceActor?.ownerUserId,
+			)
+		) {
+			return c.json({ error: "Forbidden" }, 403);
+		}
+
+		const error = await runScheduleAction(
+			roomManager,
+			existing,
+			parsed.data.action,
+		);
+		if (error) return c.json({ error }, 409);
+		await recordAudit(
+			c,
+			{ actor: userActor, device: deviceActor },
+			{
+				action: "house.schedule_run",
+				playlistId: existing.playlistId,
+				targetId: existing.id,
+				after: { action: parsed.data.action },
+			},
+		);
+		return c.json({ ok: true });
+	});
+
 	app.get("/devices", async (c) => {
 		const actor = await requireUserActor(c);
 		if (!actor) return c.json({ error: "Unauthorized" }, 401);
@@ -351,6 +632,15 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 			actor.userId,
 			parsed.data.name,
 		);
+		await recordAudit(
+			c,
+			{ actor },
+			{
+				action: "device.token_issued",
+				targetId: issued.device.id,
+				after: { name: issued.device.name },
+			},
+		);
 		return c.json(
 			IssueDeviceTokenResponseSchema.parse({
 				device: issued.device,
@@ -380,6 +670,16 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 			name: parsed.data.name,
 		});
 		if (!updated) return c.json({ error: "Device not found" }, 404);
+		await recordAudit(
+			c,
+			{ actor },
+			{
+				action: "device.renamed",
+				targetId: existing.id,
+				before: { name: existing.name },
+				after: { name: updated.name },
+			},
+		);
 		return c.json(DeviceRecordSchema.parse(updated));
 	});
 
@@ -395,6 +695,16 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 
 		const updated = await deviceService.revokeDeviceToken(existing.id);
 		if (!updated) return c.json({ error: "Device not found" }, 404);
+		await recordAudit(
+			c,
+			{ actor },
+			{
+				action: "device.token_revoked",
+				targetId: existing.id,
+				before: { status: existing.status },
+				after: { status: updated.status },
+			},
+		);
 		return c.json(DeviceRecordSchema.parse(updated));
 	});
 
@@ -492,11 +802,25 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 			return c.json({ error: "Forbidden" }, 403);
 		}
 
+		const previous = await deviceService.getActiveAssignmentByDeviceId(
+			device.id,
+		);
 		const assignment = await deviceService.assignDeviceToPlaylist(
 			permission.session.playlist.id,
 			device.id,
 			actor.userId,
 		);
+		await recordAudit(
+			c,
+			{ actor },
+			{
+				action: "device.assigned",
+				playlistId: assignment.playlistId,
+				targetId: device.id,
+				before: { playlistId: previous?.playlistId ?? null },
+				after: { playlistId: assignment.playlistId },
+			},
+		);
 		return c.json(
 			PlaylistDeviceAssignmentSchema.parse({
 				playlistId: assignment.playlistId,
@@ -530,7 +854,18 @@ export function createControlRoutes(roomManager: RoomManager): Hono {
 
 		await deviceService.unassignDeviceFromPlaylist(
 			permission.session.playlist.id,
-			c.req.param("deviceId"),
+			device.id,
+		);
+		await recordAudit(
+			c,
+			{ actor },
+			{
+				action: "device.unassigned",
+				playlistId: permission.session.playlist.id,
+				targetId: device.id,
+				before: { playlistId: permission.session.playlist.id },
+				after: { playlistId: null },
+			},
 		);
 		return c.json({ ok: true });
 	});
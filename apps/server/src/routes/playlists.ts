@@ -1,11 +1,21 @@
 import {
+	type PlaylistPermission,
+	type PlaylistRole,
+	roleAllows,
+} from "@infinitune/shared/playlist-roles";
+import {
+	CreatePlaylistInviteSchema,
 	CreatePlaylistSchema,
+	RequestSongSchema,
+	SetCollaboratorRoleSchema,
 	UpdatePlaylistParamsSchema,
 	UpdatePlaylistPositionSchema,
 	UpdatePlaylistPromptSchema,
 	UpdatePlaylistStatusSchema,
 } from "@infinitune/shared/validation/playlist-schemas";
 import { type Context, Hono } from "hono";
+import { bodyLimit } from "hono/body-limit";
+import { stream } from "hono/streaming";
 import z from "zod";
 import { readChannelMessages } from "../agents/channel-store";
 import {
@@ -16,57 +26,127 @@ import {
 	MAX_HUMAN_CHAT_CONTENT_CHARS,
 	postHumanChat,
 } from "../agents/playlist-director-service";
-import { getRequestActor, type RequestActor } from "../auth/actor";
+import {
+	getRequestActor,
+	type RequestActor,
+	requireUserActor,
+} from "../auth/actor";
+import { recordAudit } from "../auth/audit";
+import {
+	filterAccessiblePlaylists,
+	type PlaylistPrincipal,
+	principalFromActor,
+	resolvePlaylistRole,
+} from "../auth/playlist-access";
 import { logger } from "../logger";
+import * as collaboratorService from "../services/collaborator-service";
+import * as deviceService from "../services/device-service";
+import {
+	exportArchiveName,
+	listExportTracks,
+	writePlaylistZip,
+} from "../services/export-service";
+import {
+	DuplicatePlaylistImportError,
+	importPlaylistArchive,
+	MAX_IMPORT_ARCHIVE_BYTES,
+	PlaylistArchiveError,
+} from "../services/import-service";
 import * as playlistService from "../services/playlist-service";
+import * as qualityService from "../services/quality-service";
+import * as songService from "../services/song-service";
+import * as usageService from "../services/usage-service";
 import { type PlaylistWire, playlistToWire } from "../wire";
 
 const app = new Hono();
 const ANONYMOUS_PLAYLIST_TTL_MS = 24 * 60 * 60 * 1000;
 
-function canAccessPlaylist(
-	actor: RequestActor,
-	playlist: PlaylistWire,
-): boolean {
-	if (!playlist.ownerUserId) return true;
-	return actor.kind === "user" && playlist.ownerUserId === actor.userId;
+/** Param keys that spend the owner's money; changing them needs `manage`. */
+const BUDGET_PARAM_KEYS = [
+	"budgetSongsPerHour",
+	"budgetTokensPerDay",
+	"budgetGpuMinutesPerDay",
+] as const;
+
+type RequestDevice = Awaited<
+	ReturnType<typeof deviceService.authenticateDeviceToken>
+>;
+
+/** The device behind `x-device-token`, if the header carries a valid one. */
+async function getRequestDevice(c: Context): Promise<RequestDevice> {
+	const deviceToken = c.req.header("x-device-token");
+	return deviceToken
+		? await deviceService.authenticateDeviceToken(deviceToken)
+		: null;
 }
 
-function filterAccessiblePlaylists<T extends PlaylistWire>(
+/** A device token lets the CLI act with its owner's roles, up to editor. */
+function requestPrincipal(
 	actor: RequestActor,
-	playlists: T[],
-): T[] {
-	return playlists.filter((playlist) => canAccessPlaylist(actor, playlist));
+	device: RequestDevice,
+): PlaylistPrincipal {
+	return {
+		...principalFromActor(actor),
+		deviceOwnerUserId: device?.ownerUserId,
+	};
+}
+
+async function listAccessiblePlaylists(
+	c: Context,
+	playlists: PlaylistWire[],
+): Promise<PlaylistWire[]> {
+	const actor = await getRequestActor(c);
+	const device = await getRequestDevice(c);
+	return await filterAccessiblePlaylists(
+		requestPrincipal(actor, device),
+		playlists,
+	);
 }
 
+/**
+ * Load `:id` for a caller holding `permission`. Playlists the caller has no
+ * role on are reported as missing; a role that's too weak is a 403.
+ */
 async function loadAccessiblePlaylist(
 	c: Context,
-): Promise<{ playlist: PlaylistWire } | Response> {
+	permission: PlaylistPermission = "play",
+): Promise<
+	| {
+			playlist: PlaylistWire;
+			actor: RequestActor;
+			device: RequestDevice;
+			role: PlaylistRole;
+	  }
+	| Response
+> {
 	const actor = await getRequestActor(c);
+	const device = await getRequestDevice(c);
 	const playlist = await playlistService.getById(c.req.param("id"));
 	if (!playlist) return c.json(null, 404);
 	const wire = playlistToWire(playlist);
-	if (!canAccessPlaylist(actor, wire)) {
+	const role = await resolvePlaylistRole(wire, requestPrincipal(actor, device));
+	if (!role) {
 		return c.json({ error: "Playlist not found" }, 404);
 	}
-	return { playlist: wire };
+	if (!roleAllows(role, permission)) {
+		return c.json({ error: "Forbidden" }, 403);
+	}
+	return { playlist: wire, actor, device, role };
 }
 
 // ─── Queries ────────────────────────────────────────────────────────
 
 // GET /api/playlists
 app.get("/", async (c) => {
-	const actor = await getRequestActor(c);
 	return c.json(
-		filterAccessiblePlaylists(actor, await playlistService.listAll()),
+		await listAccessiblePlaylists(c, await playlistService.listAll()),
 	);
 });
 
 // GET /api/playlists/current
 app.get("/current", async (c) => {
-	const actor = await getRequestActor(c);
 	const current =
-		filterAccessiblePlaylists(actor, await playlistService.listActive())
+		(await listAccessiblePlaylists(c, await playlistService.listActive()))
 			.filter((playlist) => playlist.mode !== "oneshot")
 			.sort((a, b) => b.createdAt - a.createdAt)[0] ?? null;
 	return c.json(current);
@@ -74,25 +154,27 @@ app.get("/current", async (c) => {
 
 // GET /api/playlists/closed
 app.get("/closed", async (c) => {
-	const actor = await getRequestActor(c);
 	return c.json(
-		filterAccessiblePlaylists(actor, await playlistService.listClosed()),
+		await listAccessiblePlaylists(c, await playlistService.listClosed()),
 	);
 });
 
 // GET /api/playlists/worker — active + closing playlists
 app.get("/worker", async (c) => {
-	const actor = await getRequestActor(c);
 	return c.json(
-		filterAccessiblePlaylists(actor, await playlistService.listActive()),
+		await listAccessiblePlaylists(c, await playlistService.listActive()),
 	);
 });
 
 // GET /api/playlists/by-key/:key
 app.get("/by-key/:key", async (c) => {
 	const actor = await getRequestActor(c);
+	const device = await getRequestDevice(c);
 	const playlist = await playlistService.getByKey(c.req.param("key"));
-	if (!playlist || !canAccessPlaylist(actor, playlist))
+	if (
+		!playlist ||
+		!(await resolvePlaylistRole(playlist, requestPrincipal(actor, device)))
+	)
 		return c.json(null, 404);
 	return c.json(playlist);
 });
@@ -104,6 +186,56 @@ app.get("/:id", async (c) => {
 	return c.json(access.playlist);
 });
 
+// GET /api/playlists/:id/quality — quality-gate pass/reject counts and budget
+app.get("/:id/quality", async (c) => {
+	const access = await loadAccessiblePlaylist(c);
+	if (access instanceof Response) return access;
+	const stats = await qualityService.getPlaylistStats(access.playlist.id);
+	if (!stats) return c.json(null, 404);
+	return c.json(stats);
+});
+
+// GET /api/playlists/:id/usage — token, image and GPU usage against budgets
+app.get("/:id/usage", async (c) => {
+	const access = await loadAccessiblePlaylist(c);
+	if (access instanceof Response) return access;
+	const usage = await usageService.getPlaylistUsage(access.playlist.id);
+	if (!usage) return c.json(null, 404);
+	return c.json(usage);
+});
+
+// GET /api/playlists/:id/export — ZIP of finished songs + M3U8 + LRC
+app.get("/:id/export", async (c) => {
+	const access = await loadAccessiblePlaylist(c);
+	if (access instanceof Response) return access;
+	const { playlist } = access;
+
+	const tracks = await listExportTracks(playlist.id);
+	if (tracks.length === 0) {
+		return c.json({ error: "Playlist has no finished songs to export" }, 404);
+	}
+
+	const fileName = exportArchiveName(playlist.name);
+	c.header("Content-Type", "application/zip");
+	c.header(
+		"Content-Disposition",
+		`attachment; filename="${fileName.replace(/[^\x20-\x7e]|"/g, "_")}"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+	);
+	return stream(
+		c,
+		async (s) => {
+			await writePlaylistZip(playlist, tracks, (chunk) => s.write(chunk));
+		},
+		async (err, s) => {
+			logger.error(
+				{ err, playlistId: playlist.id },
+				"Playlist export failed mid-stream",
+			);
+			await s.close();
+		},
+	);
+});
+
 const ChatMessageSchema = z.object({
 	content: z.string().min(1).max(MAX_HUMAN_CHAT_CONTENT_CHARS),
 	threadId: z.string().nullable().optional(),
@@ -137,19 +269,31 @@ app.get("/:id/agent-chat/messages", async (c) => {
 
 // POST /api/playlists/:id/agent-chat/messages
 app.post("/:id/agent-chat/messages", async (c) => {
-	const access = await loadAccessiblePlaylist(c);
+	const access = await loadAccessiblePlaylist(c, "steer");
 	if (access instanceof Response) return access;
 	const body = await c.req.json();
 	const result = ChatMessageSchema.safeParse(body);
 	if (!result.success) return c.json({ error: result.error.message }, 400);
-	return c.json(
-		await postHumanChat({
-			playlistId: c.req.param("id"),
-			content: result.data.content,
-			threadId: result.data.threadId,
-			commitDirection: result.data.commitDirection,
-		}),
+	const response = await postHumanChat({
+		playlistId: c.req.param("id"),
+		content: result.data.content,
+		threadId: result.data.threadId,
+		commitDirection: result.data.commitDirection,
+	});
+	await recordAudit(
+		c,
+		{ actor: access.actor, device: access.device },
+		{
+			action: "playlist.steered",
+			playlistId: access.playlist.id,
+			targetId: result.data.threadId ?? null,
+			after: {
+				content: result.data.content,
+				commitDirection: result.data.commitDirection ?? null,
+			},
+		},
 	);
+	return c.json(response);
 });
 
 // GET /api/playlists/:id/agent-chat/state
@@ -161,7 +305,7 @@ app.get("/:id/agent-chat/state", async (c) => {
 
 // POST /api/playlists/:id/agent-chat/answer
 app.post("/:id/agent-chat/answer", async (c) => {
-	const access = await loadAccessiblePlaylist(c);
+	const access = await loadAccessiblePlaylist(c, "steer");
 	if (access instanceof Response) return access;
 	const body = await c.req.json();
 	const result = ChatAnswerSchema.safeParse(body);
@@ -180,6 +324,134 @@ app.post("/:id/agent-chat/answer", async (c) => {
 	}
 });
 
+// ─── Sharing ────────────────────────────────────────────────────────
+
+// GET /api/playlists/:id/collaborators — owner, collaborators and the caller's role
+app.get("/:id/collaborators", async (c) => {
+	const access = await loadAccessiblePlaylist(c);
+	if (access instanceof Response) return access;
+	return c.json({
+		viewerRole: access.role,
+		collaborators: await collaboratorService.listCollaborators(access.playlist),
+	});
+});
+
+// PATCH /api/playlists/:id/collaborators/:userId
+app.patch("/:id/collaborators/:userId", async (c) => {
+	const access = await loadAccessiblePlaylist(c, "manage");
+	if (access instanceof Response) return access;
+	const body = await c.req.json();
+	const result = SetCollaboratorRoleSchema.safeParse(body);
+	if (!result.success) {
+		return c.json({ error: result.error.message }, 400);
+	}
+	const updated = await collaboratorService.setCollaboratorRole(
+		access.playlist.id,
+		c.req.param("userId"),
+		result.data.role,
+	);
+	if (!updated) return c.json({ error: "Collaborator not found" }, 404);
+	return c.json({ ok: true });
+});
+
+// DELETE /api/playlists/:id/collaborators/:userId — owners remove, collaborators leave
+app.delete("/:id/collaborators/:userId", async (c) => {
+	const access = await loadAccessiblePlaylist(c);
+	if (access instanceof Response) return access;
+	const userId = c.req.param("userId");
+	const isSelf = access.actor.kind === "user" && access.actor.userId === userId;
+	if (!isSelf && !roleAllows(access.role, "manage")) {
+		return c.json({ error: "Forbidden" }, 403);
+	}
+	const removed = await collaboratorService.removeCollaborator(
+		access.playlist.id,
+		userId,
+	);
+	if (!removed) return c.json({ error: "Collaborator not found" }, 404);
+	return c.json({ ok: true });
+});
+
+// GET /api/playlists/:id/invites — invite links that can still be accepted
+app.get("/:id/invites", async (c) => {
+	const access = await loadAccessiblePlaylist(c, "manage");
+	if (access instanceof Response) return access;
+	return c.json(await collaboratorService.listInvites(access.playlist.id));
+});
+
+// POST /api/playlists/:id/invites — the raw token is only returned here
+app.post("/:id/invites", async (c) => {
+	const access = await loadAccessiblePlaylist(c, "manage");
+	if (access instanceof Response) return access;
+	if (!access.playlist.ownerUserId) {
+		return c.json({ error: "Only playlists with an owner can be shared" }, 400);
+	}
+	const body = await c.req.json().catch(() => ({}));
+	const result = CreatePlaylistInviteSchema.safeParse(body);
+	if (!result.success) {
+		return c.json({ error: result.error.message }, 400);
+	}
+	const invite = await collaboratorService.createInvite(
+		access.playlist.id,
+		access.actor.kind === "user" ? access.actor.userId : null,
+		result.data,
+	);
+	return c.json(invite, 201);
+});
+
+// DELETE /api/playlists/:id/invites/:inviteId
+app.delete("/:id/invites/:inviteId", async (c) => {
+	const access = await loadAccessiblePlaylist(c, "manage");
+	if (access instanceof Response) return access;
+	const revoked = await collaboratorService.revokeInvite(
+		access.playlist.id,
+		c.req.param("inviteId"),
+	);
+	if (!revoked) return c.json({ error: "Invite not found" }, 404);
+	return c.json({ ok: true });
+});
+
+// GET /api/playlists/invites/:token — what accepting the link would grant
+app.get("/invites/:token", async (c) => {
+	const invite = await collaboratorService.getUsableInvite(
+		c.req.param("token"),
+	);
+	const playlist = invite
+		? await playlistService.getById(invite.playlistId)
+		: null;
+	if (!invite || !playlist) {
+		return c.json({ error: "Invite not found or expired" }, 404);
+	}
+	return c.json({
+		playlistId: playlist.id,
+		playlistName: playlist.name,
+		role: invite.role,
+		expiresAt: invite.expiresAt,
+	});
+});
+
+// POST /api/playlists/invites/:token/accept
+app.post("/invites/:token/accept", async (c) => {
+	const actor = await requireUserActor(c);
+	if (!actor) {
+		return c.json({ error: "Sign in to accept a playlist invite" }, 401);
+	}
+	const invite = await collaboratorService.getUsableInvite(
+		c.req.param("token"),
+	);
+	const playlist = invite
+		? await playlistService.getById(invite.playlistId)
+		: null;
+	if (!invite || !playlist) {
+		return c.json({ error: "Invite not found or expired" }, 404);
+	}
+	const { role } = await collaboratorService.acceptInvite(
+		invite,
+		playlist,
+		actor.userId,
+	);
+	return c.json({ playlistId: playlist.id, role });
+});
+
 // ─── Mutations ──────────────────────────────────────────────────────
 
 // POST /api/playlists
@@ -198,8 +470,13 @@ app.post("/", async (c) => {
 		return c.json({ error: "ownerUserId requires authenticated user" }, 401);
 	}
 
-	if (actor.kind === "user") {
-		createPayload.ownerUserId = actor.userId;
+	// A device with an owner creates playlists on that owner's behalf.
+	const ownerUserId =
+		actor.kind === "user"
+			? actor.userId
+			: (await getRequestDevice(c))?.ownerUserId;
+	if (ownerUserId) {
+		createPayload.ownerUserId = ownerUserId;
 		if (createPayload.isTemporary === undefined) {
 			createPayload.isTemporary = false;
 		}
@@ -235,29 +512,115 @@ app.post("/", async (c) => {
 	return c.json(refreshed ? playlistToWire(refreshed) : playlist);
 });
 
+// Archives are buffered whole, so imports run one at a time
+let importInProgress = false;
+
+// POST /api/playlists/import — body is a ZIP produced by GET /:id/export
+app.post(
+	"/import",
+	bodyLimit({
+		maxSize: MAX_IMPORT_ARCHIVE_BYTES,
+		onError: (c) => c.json({ error: "Playlist archive is too large" }, 413),
+	}),
+	async (c) => {
+		if (importInProgress) {
+			return c.json({ error: "Another playlist import is in progress" }, 429);
+		}
+		importInProgress = true;
+		try {
+			const actor = await getRequestActor(c);
+			const archive = Buffer.from(await c.req.arrayBuffer());
+			if (archive.length === 0) {
+				return c.json(
+					{ error: "Request body must be a playlist archive" },
+					400,
+				);
+			}
+			// Owned like POST / — anonymous imports expire
+			const ownerUserId =
+				actor.kind === "user"
+					? actor.userId
+					: (await getRequestDevice(c))?.ownerUserId;
+			const result = await importPlaylistArchive(
+				archive,
+				ownerUserId
+					? { ownerUserId }
+					: { expiresAt: Date.now() + ANONYMOUS_PLAYLIST_TTL_MS },
+			);
+			return c.json(result, 201);
+		} catch (err) {
+			if (err instanceof PlaylistArchiveError) {
+				return c.json({ error: err.message }, 400);
+			}
+			if (err instanceof DuplicatePlaylistImportError) {
+				return c.json({ error: err.message }, 409);
+			}
+			throw err;
+		} finally {
+			importInProgress = false;
+		}
+	},
+);
+
 // PATCH /api/playlists/:id/params
 app.patch("/:id/params", async (c) => {
-	const access = await loadAccessiblePlaylist(c);
+	const access = await loadAccessiblePlaylist(c, "steer");
 	if (access instanceof Response) return access;
 	const body = await c.req.json();
 	const result = UpdatePlaylistParamsSchema.safeParse(body);
 	if (!result.success) {
 		return c.json({ error: result.error.message }, 400);
 	}
+	if (
+		BUDGET_PARAM_KEYS.some((key) => result.data[key] !== undefined) &&
+		!roleAllows(access.role, "manage")
+	) {
+		return c.json({ error: "Only the owner can change budgets" }, 403);
+	}
 	await playlistService.updateParams(c.req.param("id"), result.data);
+	const changedKeys = Object.keys(result.data) as Array<
+		keyof typeof result.data
+	>;
+	await recordAudit(
+		c,
+		{ actor: access.actor, device: access.device },
+		{
+			action: "playlist.params_changed",
+			playlistId: access.playlist.id,
+			before: Object.fromEntries(
+				changedKeys.map((key) => [key, access.playlist[key] ?? null]),
+			),
+			after: result.data,
+		},
+	);
 	return c.json({ ok: true });
 });
 
 // PATCH /api/playlists/:id/status
 app.patch("/:id/status", async (c) => {
-	const access = await loadAccessiblePlaylist(c);
+	const access = await loadAccessiblePlaylist(c, "steer");
 	if (access instanceof Response) return access;
 	const body = await c.req.json();
 	const result = UpdatePlaylistStatusSchema.safeParse(body);
 	if (!result.success) {
 		return c.json({ error: result.error.message }, 400);
 	}
+	// Editors and device tokens may wind a playlist down; other status
+	// changes stay with the owner
+	if (result.data.status === "active" && !roleAllows(access.role, "manage")) {
+		return c.json({ error: "Only the owner can reactivate a playlist" }, 403);
+	}
 	await playlistService.updateStatus(c.req.param("id"), result.data.status);
+	await recordAudit(
+		c,
+		{ actor: access.actor, device: access.device },
+		{
+			action: "playlist.status_changed",
+			playlistId: access.playlist.id,
+			before: { status: access.playlist.status },
+			after: { status: result.data.status },
+		},
+	);
 	return c.json({ ok: true });
 });
 
@@ -287,7 +650,7 @@ app.post("/:id/increment-generated", async (c) => {
 
 // POST /api/playlists/:id/reset-defaults
 app.post("/:id/reset-defaults", async (c) => {
-	const access = await loadAccessiblePlaylist(c);
+	const access = await loadAccessiblePlaylist(c, "steer");
 	if (access instanceof Response) return access;
 	await playlistService.resetDefaults(c.req.param("id"));
 	return c.json({ ok: true });
@@ -295,20 +658,63 @@ app.post("/:id/reset-defaults", async (c) => {
 
 // PATCH /api/playlists/:id/prompt — steering
 app.patch("/:id/prompt", async (c) => {
-	const access = await loadAccessiblePlaylist(c);
+	const access = await loadAccessiblePlaylist(c, "steer");
 	if (access instanceof Response) return access;
 	const body = await c.req.json();
 	const result = UpdatePlaylistPromptSchema.safeParse(body);
 	if (!result.success) {
 		return c.json({ error: result.error.message }, 400);
 	}
-	await playlistService.steer(c.req.param("id"), result.data.prompt);
-	return c.json({ ok: true });
+	const promptEpoch = await playlistService.steer(
+		c.req.param("id"),
+		result.data.prompt,
+	);
+	await recordAudit(
+		c,
+		{ actor: access.actor, device: access.device },
+		{
+			action: "playlist.prompt_changed",
+			playlistId: access.playlist.id,
+			before: { prompt: access.playlist.prompt },
+			after: { prompt: result.data.prompt },
+		},
+	);
+	return c.json({ ok: true, promptEpoch });
+});
+
+// POST /api/playlists/:id/requests — one-off song request (interrupt)
+app.post("/:id/requests", async (c) => {
+	const access = await loadAccessiblePlaylist(c, "steer");
+	if (access instanceof Response) return access;
+	const body = await c.req.json().catch(() => ({}));
+	const result = RequestSongSchema.safeParse(body);
+	if (!result.success) {
+		return c.json({ error: result.error.message }, 400);
+	}
+	if (access.playlist.status === "closed") {
+		return c.json({ error: "Playlist is closed" }, 409);
+	}
+	const song = await songService.requestSong(
+		access.playlist.id,
+		result.data.prompt,
+	);
+	if (!song) return c.json({ error: "Playlist not found" }, 404);
+	await recordAudit(
+		c,
+		{ actor: access.actor, device: access.device },
+		{
+			action: "playlist.song_requested",
+			playlistId: access.playlist.id,
+			targetId: song.id,
+			after: { prompt: result.data.prompt, promptEpoch: song.promptEpoch },
+		},
+	);
+	return c.json(song, 201);
 });
 
 // PATCH /api/playlists/:id/star — toggle starred status
 app.patch("/:id/star", async (c) => {
-	const access = await loadAccessiblePlaylist(c);
+	const access = await loadAccessiblePlaylist(c, "steer");
 	if (access instanceof Response) return access;
 	const result = await playlistService.toggleStar(c.req.param("id"));
 	if (!result) return c.json({ error: "Playlist not found" }, 404);
@@ -317,9 +723,22 @@ app.patch("/:id/star", async (c) => {
 
 // DELETE /api/playlists/:id
 app.delete("/:id", async (c) => {
-	const access = await loadAccessiblePlaylist(c);
+	const access = await loadAccessiblePlaylist(c, "manage");
 	if (access instanceof Response) return access;
 	await playlistService.deletePlaylist(c.req.param("id"));
+	await recordAudit(
+		c,
+		{ actor: access.actor, device: access.device },
+		{
+			action: "playlist.deleted",
+			playlistId: access.playlist.id,
+			before: {
+				name: access.playlist.name,
+				prompt: access.playlist.prompt,
+				status: access.playlist.status,
+			},
+		},
+	);
 	return c.json({ ok: true });
 });
 
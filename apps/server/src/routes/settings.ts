@@ -1,9 +1,19 @@
 import { SetSettingSchema } from "@infinitune/shared/validation/playlist-schemas";
 import { Hono } from "hono";
+import { getRequestActor } from "../auth/actor";
+import { recordAudit } from "../auth/audit";
 import * as settingsService from "../services/settings-service";
 
 const app = new Hono();
 
+const SECRET_SETTING_PATTERN = /key|token|secret|password/i;
+
+/** Keep credentials out of the audit log while still showing they changed. */
+function auditValue(key: string, value: string | null): string | null {
+	if (value === null || !SECRET_SETTING_PATTERN.test(key)) return value;
+	return value ? "••••••" : "";
+}
+
 // GET /api/settings
 app.get("/", async (c) => {
 	return c.json(await settingsService.getAll());
@@ -21,7 +31,22 @@ app.post("/", async (c) => {
 	if (!result.success) {
 		return c.json({ error: result.error.message }, 400);
 	}
-	await settingsService.set(result.data.key, result.data.value);
+	const { key, value } = result.data;
+	const before = await settingsService.get(key);
+	await settingsService.set(key, value);
+	const after = await settingsService.get(key);
+	if (before !== after) {
+		await recordAudit(
+			c,
+			{ actor: await getRequestActor(c) },
+			{
+				action: "settings.changed",
+				targetId: key,
+				before: auditValue(key, before),
+				after: auditValue(key, after),
+			},
+		);
+	}
 	return c.json({ ok: true });
 });
 
@@ -1,8 +1,15 @@
 import {
 	CompleteSongMetadataSchema,
 	CreatePendingSongSchema,
+	CreateSongVariationSchema,
 } from "@infinitune/shared/validation/song-schemas";
 import { Hono } from "hono";
+import { getRequestActor } from "../../auth/actor";
+import {
+	checkPlaylistPermission,
+	principalFromActor,
+} from "../../auth/playlist-access";
+import * as playlistService from "../../services/playlist-service";
 import * as songService from "../../services/song-service";
 
 const app = new Hono();
@@ -50,4 +57,44 @@ app.post("/create-metadata-ready", async (c) => {
 	);
 });
 
+// POST /api/songs/:id/variations — re-sing, re-arrange or extend a song
+app.post("/:id/variations", async (c) => {
+	const body = await c.req.json();
+	const result = CreateSongVariationSchema.safeParse(body);
+	if (!result.success) {
+		return c.json({ error: result.error.message }, 400);
+	}
+	const parent = await songService.getById(c.req.param("id"));
+	if (!parent) return c.json({ error: "Song not found" }, 404);
+	// The variation is queued on the destination, so that's where the
+	// caller needs to steer; a missing playlist is reported by the service
+	const principal = principalFromActor(await getRequestActor(c));
+	const source = await playlistService.getById(parent.playlistId);
+	if (
+		!source ||
+		!(await checkPlaylistPermission(source, principal, "play")).allowed
+	) {
+		return c.json({ error: "Song not found" }, 404);
+	}
+	const destination = result.data.playlistId
+		? await playlistService.getById(result.data.playlistId)
+		: source;
+	if (
+		destination &&
+		!(await checkPlaylistPermission(destination, principal, "steer")).allowed
+	) {
+		return c.json({ error: "Variations need an editor role" }, 403);
+	}
+	try {
+		const song = await songService.createVariation(parent.id, result.data);
+		if (!song) return c.json({ error: "Song not found" }, 404);
+		return c.json(song, 201);
+	} catch (err) {
+		if (err instanceof songService.SongVariationError) {
+			return c.json({ error: err.message }, 400);
+		}
+		throw err;
+	}
+});
+
 export default app;
@@ -1,9 +1,16 @@
 import {
 	PlayDurationSchema,
 	RateSongSchema,
+	RecordSkipSchema,
 } from "@infinitune/shared/validation/song-schemas";
 import { Hono } from "hono";
 import { scheduleMemoryCurator } from "../../agents/playlist-director-service";
+import { getRequestActor } from "../../auth/actor";
+import {
+	checkPlaylistPermission,
+	principalFromActor,
+} from "../../auth/playlist-access";
+import * as playlistService from "../../services/playlist-service";
 import * as songService from "../../services/song-service";
 
 const app = new Hono();
@@ -16,6 +23,17 @@ app.post("/:id/rating", async (c) => {
 		return c.json({ error: result.error.message }, 400);
 	}
 	const songId = c.req.param("id");
+	const song = await songService.getById(songId);
+	const playlist = song ? await playlistService.getById(song.playlistId) : null;
+	if (!song || !playlist) return c.json({ error: "Song not found" }, 404);
+	const access = await checkPlaylistPermission(
+		playlist,
+		principalFromActor(await getRequestActor(c)),
+		"steer",
+	);
+	if (!access.allowed) {
+		return c.json({ error: "Rating needs an editor role" }, 403);
+	}
 	await songService.rateSong(songId, result.data.rating);
 	queueMicrotask(() => {
 		scheduleMemoryCurator({ songId, trigger: "rating" }).catch(() => {});
@@ -40,4 +58,33 @@ app.post("/:id/play-duration", async (c) => {
 	return c.json({ ok: true });
 });
 
+// POST /api/songs/:id/skip — record a skip with its position and device
+app.post("/:id/skip", async (c) => {
+	const body = await c.req.json();
+	const result = RecordSkipSchema.safeParse(body);
+	if (!result.success) {
+		return c.json({ error: result.error.message }, 400);
+	}
+	const songId = c.req.param("id");
+	const song = await songService.getById(songId);
+	const playlist = song ? await playlistService.getById(song.playlistId) : null;
+	if (!song || !playlist) return c.json({ error: "Song not found" }, 404);
+	const access = await checkPlaylistPermission(
+		playlist,
+		principalFromActor(await getRequestActor(c)),
+		"steer",
+	);
+	if (!access.allowed) {
+		return c.json({ error: "Skipping needs an editor role" }, 403);
+	}
+	const skip = await songService.recordSkip(songId, result.data);
+	if (!skip) return c.json({ error: "Song not found" }, 404);
+	return c.json(skip);
+});
+
+// GET /api/songs/:id/skips — recent skips, newest first
+app.get("/:id/skips", async (c) => {
+	return c.json(await songService.listSkips(c.req.param("id")));
+});
+
 export default app;
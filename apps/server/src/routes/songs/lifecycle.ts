@@ -6,6 +6,8 @@ import {
 	UpdateSongStatusSchema,
 } from "@infinitune/shared/validation/song-schemas";
 import { Hono } from "hono";
+import { getRequestActor } from "../../auth/actor";
+import { recordAudit } from "../../auth/audit";
 import * as songService from "../../services/song-service";
 
 const app = new Hono();
@@ -93,7 +95,25 @@ app.post("/:id/retry", async (c) => {
 
 // DELETE /api/songs/:id
 app.delete("/:id", async (c) => {
+	const song = await songService.getById(c.req.param("id"));
 	await songService.deleteSong(c.req.param("id"));
+	if (song) {
+		await recordAudit(
+			c,
+			{ actor: await getRequestActor(c) },
+			{
+				action: "song.deleted",
+				playlistId: song.playlistId,
+				targetId: song.id,
+				before: {
+					title: song.title,
+					artistName: song.artistName,
+					status: song.status,
+					orderIndex: song.orderIndex,
+				},
+			},
+		);
+	}
 	return c.json({ ok: true });
 });
 
@@ -1,9 +1,17 @@
 import * as fs from "node:fs";
-import * as path from "node:path";
-import { BatchSongIdsSchema } from "@infinitune/shared/validation/song-schemas";
+import {
+	SONG_SEARCH_FACET_PARAMS,
+	SONG_SEARCH_FACETS,
+} from "@infinitune/shared/types";
+import {
+	BatchSongIdsSchema,
+	SongSearchQuerySchema,
+} from "@infinitune/shared/validation/song-schemas";
 import { Hono } from "hono";
 import { stream } from "hono/streaming";
+import { resolveStoredAudioFile } from "../../external/storage";
 import { logger } from "../../logger";
+import * as provenanceService from "../../services/provenance-service";
 import * as songService from "../../services/song-service";
 import { songToWire } from "../../wire";
 
@@ -14,6 +22,32 @@ app.get("/", async (c) => {
 	return c.json(await songService.listAll());
 });
 
+// GET /api/songs/search?q=&genre=&mood=&energy=&era=&language=&rating=&playlist=&cursor=&limit=
+// Facet params may be repeated; values within a facet are OR-ed, facets are AND-ed.
+app.get("/search", async (c) => {
+	const facets = Object.fromEntries(
+		SONG_SEARCH_FACETS.map((facet) => [
+			facet,
+			c.req.queries(SONG_SEARCH_FACET_PARAMS[facet]),
+		]),
+	);
+	const result = SongSearchQuerySchema.safeParse({
+		...facets,
+		q: c.req.query("q"),
+		cursor: c.req.query("cursor"),
+		limit: c.req.query("limit"),
+	});
+	if (!result.success) {
+		return c.json({ error: result.error.message }, 400);
+	}
+	try {
+		return c.json(await songService.search(result.data));
+	} catch (error) {
+		if (!(error instanceof songService.InvalidSearchCursorError)) throw error;
+		return c.json({ error: error.message }, 400);
+	}
+});
+
 // GET /api/songs/by-playlist/:playlistId
 app.get("/by-playlist/:playlistId", async (c) => {
 	return c.json(await songService.listByPlaylist(c.req.param("playlistId")));
@@ -59,24 +93,12 @@ app.get("/:id/audio", async (c) => {
 	const song = await songService.getById(c.req.param("id"));
 	if (!song?.storagePath) return c.json({ error: "Song not found" }, 404);
 
-	// Resolve the audio file on the local filesystem.
-	// DB may have old dev paths like /mnt/truenas/MediaBiB/media/AI-Music/...
-	// Pod NFS mount: /music = MediaBiB root. ACE_NAS_PREFIX = old dev mount point.
-	let songDir = song.storagePath;
-	let audioFile = path.join(songDir, "audio.mp3");
-
-	if (!fs.existsSync(audioFile)) {
-		// Remap old dev paths: replace ACE_NAS_PREFIX with NFS mount root
-		const nasPrefix = process.env.ACE_NAS_PREFIX;
-		const nfsMount = process.env.NFS_MOUNT_PATH || "/music";
-		if (nasPrefix && songDir.startsWith(nasPrefix)) {
-			songDir = nfsMount + songDir.slice(nasPrefix.length);
-			audioFile = path.join(songDir, "audio.mp3");
-		}
-	}
-
-	if (!fs.existsSync(audioFile)) {
-		logger.warn({ songId: song.id, audioFile }, "Audio file not found on NFS");
+	const audioFile = resolveStoredAudioFile(song.storagePath);
+	if (!audioFile) {
+		logger.warn(
+			{ songId: song.id, storagePath: song.storagePath },
+			"Audio file not found on NFS",
+		);
 		return c.json({ error: "Audio file not found" }, 404);
 	}
 
@@ -113,6 +135,20 @@ app.get("/:id/audio", async (c) => {
 	});
 });
 
+// GET /api/songs/:id/family — root original plus all variations
+app.get("/:id/family", async (c) => {
+	const family = await songService.getFamily(c.req.param("id"));
+	if (!family) return c.json({ error: "Song not found" }, 404);
+	return c.json(family);
+});
+
+// GET /api/songs/:id/provenance — the inputs the worker recorded for a song
+app.get("/:id/provenance", async (c) => {
+	const song = await songService.getById(c.req.param("id"));
+	if (!song) return c.json({ error: "Song not found" }, 404);
+	return c.json(await provenanceService.getBySongId(song.id));
+});
+
 // GET /api/songs/:id
 app.get("/:id", async (c) => {
 	const song = await songService.getById(c.req.param("id"));
@@ -0,0 +1,16 @@
+import { Hono } from "hono";
+import { getRequestActor } from "../auth/actor";
+import * as tasteService from "../services/taste-service";
+
+const app = new Hono();
+
+// GET /api/users/me/taste — preferences learned from ratings, skips and listens
+app.get("/me/taste", async (c) => {
+	const actor = await getRequestActor(c);
+	const profile = await tasteService.getTasteProfile(
+		actor.kind === "user" ? actor.userId : null,
+	);
+	return c.json(profile);
+});
+
+export default app;
@@ -0,0 +1,167 @@
+import {
+	CreateWebhookSchema,
+	UpdateWebhookSchema,
+} from "@infinitune/shared/validation/webhook-schemas";
+import { type Context, Hono } from "hono";
+import { requireUserActor } from "../auth/actor";
+import {
+	filterAccessiblePlaylists,
+	principalFromActor,
+} from "../auth/playlist-access";
+import { isWorkerAdmin } from "../auth/worker-admin";
+import type { Webhook } from "../db/schema";
+import { sendTestDelivery } from "../events/webhook-dispatcher";
+import * as playlistService from "../services/playlist-service";
+import * as webhookService from "../services/webhook-service";
+
+const app = new Hono();
+
+/** Admins reach every webhook; users only those on playlists they manage. */
+type WebhookAccess = { admin: true } | { admin: false; managed: Set<string> };
+
+async function resolveAccess(c: Context): Promise<WebhookAccess | null> {
+	if (isWorkerAdmin(c)) return { admin: true };
+	const actor = await requireUserActor(c);
+	if (!actor) return null;
+	const managed = await filterAccessiblePlaylists(
+		principalFromActor(actor),
+		await playlistService.listAll(),
+		"manage",
+	);
+	return { admin: false, managed: new Set(managed.map((p) => p.id)) };
+}
+
+// Webhooks without a playlist see every playlist's events, so they stay
+// with admins
+function canUse(access: WebhookAccess, playlistId: string | null): boolean {
+	if (access.admin) return true;
+	return playlistId !== null && access.managed.has(playlistId);
+}
+
+async function playlistExists(playlistId: string | null | undefined) {
+	if (!playlistId) return true;
+	return (await playlistService.getById(playlistId)) !== null;
+}
+
+async function loadWebhook(
+	access: WebhookAccess,
+	id: string,
+): Promise<Webhook | null> {
+	const webhook = await webhookService.getById(id);
+	return webhook && canUse(access, webhook.playlistId) ? webhook : null;
+}
+
+// GET /api/webhooks
+app.get("/", async (c) => {
+	const access = await resolveAccess(c);
+	if (!access) return c.json({ error: "Unauthorized" }, 401);
+	const rows = await webhookService.listAll();
+	return c.json(
+		rows
+			.filter((row) => canUse(access, row.playlistId))
+			.map(webhookService.toWire),
+	);
+});
+
+// POST /api/webhooks
+app.post("/", async (c) => {
+	const access = await resolveAccess(c);
+	if (!access) return c.json({ error: "Unauthorized" }, 401);
+	const body = await c.req.json();
+	const result = CreateWebhookSchema.safeParse(body);
+	if (!result.success) {
+		return c.json({ error: result.error.message }, 400);
+	}
+	if (!(await playlistExists(result.data.playlistId))) {
+		return c.json({ error: "Playlist not found" }, 404);
+	}
+	if (!canUse(access, result.data.playlistId ?? null)) {
+		return c.json({ error: "Webhooks need a playlist you manage" }, 403);
+	}
+	const row = await webhookService.create(result.data);
+	return c.json(webhookService.toCreatedWire(row), 201);
+});
+
+// PATCH /api/webhooks/:id
+app.patch("/:id", async (c) => {
+	const access = await resolveAccess(c);
+	if (!access) return c.json({ error: "Unauthorized" }, 401);
+	const body = await c.req.json();
+	const result = UpdateWebhookSchema.safeParse(body);
+	if (!result.success) {
+		return c.json({ error: result.error.message }, 400);
+	}
+	if (!(await loadWebhook(access, c.req.param("id")))) {
+		return c.json({ error: "Webhook not found" }, 404);
+	}
+	if (!(await playlistExists(result.data.playlistId))) {
+		return c.json({ error: "Playlist not found" }, 404);
+	}
+	if (
+		result.data.playlistId !== undefined &&
+		!canUse(access, result.data.playlistId)
+	) {
+		return c.json({ error: "Webhooks need a playlist you manage" }, 403);
+	}
+	const row = await webhookService.update(c.req.param("id"), result.data);
+	if (!row) return c.json({ error: "Webhook not found" }, 404);
+	// The secret only leaves the server when it is minted
+	return c.json(
+		result.data.rotateSecret
+			? webhookService.toCreatedWire(row)
+			: webhookService.toWire(row),
+	);
+});
+
+// DELETE /api/webhooks/:id
+app.delete("/:id", async (c) => {
+	const access = await resolveAccess(c);
+	if (!access) return c.json({ error: "Unauthorized" }, 401);
+	if (!(await loadWebhook(access, c.req.param("id")))) {
+		return c.json({ error: "Webhook not found" }, 404);
+	}
+	await webhookService.remove(c.req.param("id"));
+	return c.json({ ok: true });
+});
+
+// GET /api/webhooks/:id/deliveries
+app.get("/:id/deliveries", async (c) => {
+	const access = await resolveAccess(c);
+	if (!access) return c.json({ error: "Unauthorized" }, 401);
+	const webhook = await loadWebhook(access, c.req.param("id"));
+	if (!webhook) return c.json({ error: "Webhook not found" }, 404);
+	const limit = Math.min(
+		200,
+		Math.max(1, Number.parseInt(c.req.query("limit") ?? "50", 10) || 50),
+	);
+	const rows = await webhookService.listDeliveries(webhook.id, limit);
+	return c.json(rows.map(webhookService.deliveryToWire));
+});
+
+// POST /api/webhooks/:id/test
+app.post("/:id/test", async (c) => {
+	const access = await resolveAccess(c);
+	if (!access) return c.json({ error: "Unauthorized" }, 401);
+	const webhook = await loadWebhook(access, c.req.param("id"));
+	if (!webhook) return c.json({ error: "Webhook not found" }, 404);
+	const delivery = await sendTestDelivery(webhook);
+	if (!delivery) {
+		return c.json({ error: "Test delivery was not recorded" }, 500);
+	}
+	return c.json(webhookService.deliveryToWire(delivery));
+});
+
+// POST /api/webhooks/deliveries/:deliveryId/redeliver
+app.post("/deliveries/:deliveryId/redeliver", async (c) => {
+	const access = await resolveAccess(c);
+	if (!access) return c.json({ error: "Unauthorized" }, 401);
+	const existing = await webhookService.getDelivery(c.req.param("deliveryId"));
+	if (!existing || !(await loadWebhook(access, existing.webhookId))) {
+		return c.json({ error: "Delivery not found" }, 404);
+	}
+	const delivery = await webhookService.requeueDelivery(existing.id);
+	if (!delivery) return c.json({ error: "Delivery not found" }, 404);
+	return c.json(webhookService.deliveryToWire(delivery));
+});
+
+export default app;
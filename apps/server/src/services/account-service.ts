@@ -0,0 +1,175 @@
+import { createHash, randomBytes } from "node:crypto";
+import { LOCAL_SESSION_TTL_MS } from "@infinitune/shared/auth";
+import type { RegisterLocalAccountInput } from "@infinitune/shared/validation/auth-schemas";
+import { and, eq, gt, lte } from "drizzle-orm";
+import { hashPassword, verifyPassword } from "../auth/password";
+import { db } from "../db/index";
+import type { LocalAccount, User } from "../db/schema";
+import { authSessions, localAccounts, users } from "../db/schema";
+
+// Refresh a session's last-used time at most this often
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+
+function hashToken(token: string): string {
+	return createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+function createSessionToken(): string {
+	return `infi_ses_${randomBytes(32).toString("base64url")}`;
+}
+
+// ─── Local accounts ──────────────────────────────────────────────────
+
+export async function hasLocalAccounts(): Promise<boolean> {
+	const [row] = await db
+		.select({ id: localAccounts.id })
+		.from(localAccounts)
+		.limit(1);
+	return Boolean(row);
+}
+
+export async function getByUsername(
+	username: string,
+): Promise<LocalAccount | null> {
+	const [row] = await db
+		.select()
+		.from(localAccounts)
+		.where(eq(localAccounts.username, username))
+		.limit(1);
+	return row ?? null;
+}
+
+export async function getByUserId(
+	userId: string,
+): Promise<LocalAccount | null> {
+	const [row] = await db
+		.select()
+		.from(localAccounts)
+		.where(eq(localAccounts.userId, userId))
+		.limit(1);
+	return row ?? null;
+}
+
+/** Create a user and its local account; null when the username is taken. */
+export async function register(
+	input: RegisterLocalAccountInput,
+): Promise<User | null> {
+	if (await getByUsername(input.username)) return null;
+	const passwordHash = await hashPassword(input.password);
+	return db.transaction((tx) => {
+		const user = tx
+			.insert(users)
+			.values({
+				shooSubject: `local:${input.username}`,
+				displayName: input.displayName ?? input.username,
+				lastSeenAt: Date.now(),
+			})
+			.returning()
+			.get();
+		tx.insert(localAccounts)
+			.values({
+				userId: user.id,
+				username: input.username,
+				passwordHash,
+				passwordUpdatedAt: Date.now(),
+			})
+			.run();
+		return user;
+	});
+}
+
+/** The account's user when the password matches, otherwise null. */
+export async function authenticate(
+	username: string,
+	password: string,
+): Promise<User | null> {
+	const account = await getByUsername(username);
+	if (!account) {
+		// Spend the same time as a real check so usernames can't be probed
+		await hashPassword(password);
+		return null;
+	}
+	if (!(await verifyPassword(password, account.passwordHash))) return null;
+	const [user] = await db
+		.update(users)
+		.set({ lastSeenAt: Date.now() })
+		.where(eq(users.id, account.userId))
+		.returning();
+	return user ?? null;
+}
+
+export async function changePassword(
+	userId: string,
+	currentPassword: string,
+	newPassword: string,
+): Promise<boolean> {
+	const account = await getByUserId(userId);
+	if (!account) return false;
+	if (!(await verifyPassword(currentPassword, account.passwordHash))) {
+		return false;
+	}
+	await db
+		.update(localAccounts)
+		.set({
+			passwordHash: await hashPassword(newPassword),
+			passwordUpdatedAt: Date.now(),
+		})
+		.where(eq(localAccounts.id, account.id));
+	// Signing out everywhere else is the point of changing a password
+	await db.delete(authSessions).where(eq(authSessions.userId, userId));
+	return true;
+}
+
+// ─── Sessions ────────────────────────────────────────────────────────
+
+export async function createSession(
+	userId: string,
+	userAgent?: string | null,
+): Promise<{ token: string; expiresAt: number }> {
+	const token = createSessionToken();
+	const now = Date.now();
+	const expiresAt = now + LOCAL_SESSION_TTL_MS;
+	await db.insert(authSessions).values({
+		userId,
+		tokenHash: hashToken(token),
+		expiresAt,
+		lastUsedAt: now,
+		userAgent: userAgent?.slice(0, 200) ?? null,
+	});
+	// Opportunistic cleanup instead of a separate sweeper
+	await db.delete(authSessions).where(lte(authSessions.expiresAt, now));
+	return { token, expiresAt };
+}
+
+/** The session's user, or null once it has expired or been signed out. */
+export async function authenticateSession(token: string): Promise<User | null> {
+	const now = Date.now();
+	const [row] = await db
+		.select({ session: authSessions, user: users })
+		.from(authSessions)
+		.innerJoin(users, eq(users.id, authSessions.userId))
+		.where(
+			and(
+				eq(authSessions.tokenHash, hashToken(token)),
+				gt(authSessions.expiresAt, now),
+			),
+		)
+		.limit(1);
+	if (!row) return null;
+	if (
+		!row.session.lastUsedAt ||
+		now - row.session.lastUsedAt > SESSION_TOUCH_INTERVAL_MS
+	) {
+		await db
+			.update(authSessions)
+			.set({ lastUsedAt: now })
+			.where(eq(authSessions.id, row.session.id));
+	}
+	return row.user;
+}
+
+export async function revokeSession(token: string): Promise<void> {
+	await db
+		.delete(authSessions)
+		.where(eq(authSessions.tokenHash, hashToken(token)));
+}
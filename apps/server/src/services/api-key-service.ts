@@ -0,0 +1,110 @@
+import { createHash, randomBytes } from "node:crypto";
+import {
+	API_KEY_PREFIX,
+	type ApiKey,
+	type ApiKeyScope,
+	type CreatedApiKey,
+} from "@infinitune/shared/auth";
+import type { CreateApiKeyInput } from "@infinitune/shared/validation/auth-schemas";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { db } from "../db/index";
+import type { ApiKeyRow, User } from "../db/schema";
+import { apiKeys, users } from "../db/schema";
+import { parseJsonField } from "../wire";
+
+// Refresh a key's last-used time at most this often
+const KEY_TOUCH_INTERVAL_MS = 60 * 1000;
+
+function hashToken(token: string): string {
+	return createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+function createApiKeyToken(): string {
+	return `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+}
+
+export function isApiKeyToken(token: string): boolean {
+	return token.startsWith(API_KEY_PREFIX);
+}
+
+export function toWire(row: ApiKeyRow): ApiKey {
+	return {
+		id: row.id,
+		name: row.name,
+		prefix: row.prefix,
+		scopes: parseJsonField<ApiKeyScope[]>(row.scopes) ?? [],
+		createdAt: row.createdAt,
+		lastUsedAt: row.lastUsedAt,
+		expiresAt: row.expiresAt,
+	};
+}
+
+export async function create(
+	userId: string,
+	input: CreateApiKeyInput,
+): Promise<CreatedApiKey> {
+	const token = createApiKeyToken();
+	const [row] = await db
+		.insert(apiKeys)
+		.values({
+			userId,
+			name: input.name,
+			tokenHash: hashToken(token),
+			prefix: token.slice(0, API_KEY_PREFIX.length + 6),
+			scopes: JSON.stringify([...new Set(input.scopes)]),
+			expiresAt: input.expiresInDays
+				? Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000
+				: null,
+		})
+		.returning();
+	return { ...toWire(row), token };
+}
+
+/** Keys that haven't been revoked, newest first; expired keys stay listed. */
+export async function listByUser(userId: string): Promise<ApiKey[]> {
+	const rows = await db
+		.select()
+		.from(apiKeys)
+		.where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+		.orderBy(desc(apiKeys.createdAt));
+	return rows.map(toWire);
+}
+
+export async function revoke(userId: string, id: string): Promise<boolean> {
+	const rows = await db
+		.update(apiKeys)
+		.set({ revokedAt: Date.now() })
+		.where(
+			and(
+				eq(apiKeys.id, id),
+				eq(apiKeys.userId, userId),
+				isNull(apiKeys.revokedAt),
+			),
+		)
+		.returning({ id: apiKeys.id });
+	return rows.length > 0;
+}
+
+/** The key's owner and scopes, or null when it is unknown, revoked or expired. */
+export async function authenticate(
+	token: string,
+): Promise<{ user: User; key: ApiKey } | null> {
+	const [row] = await db
+		.select({ key: apiKeys, user: users })
+		.from(apiKeys)
+		.innerJoin(users, eq(users.id, apiKeys.userId))
+		.where(
+			and(eq(apiKeys.tokenHash, hashToken(token)), isNull(apiKeys.revokedAt)),
+		)
+		.limit(1);
+	if (!row) return null;
+	const now = Date.now();
+	if (row.key.expiresAt !== null && row.key.expiresAt <= now) return null;
+	if (!row.key.lastUsedAt || now - row.key.lastUsedAt > KEY_TOUCH_INTERVAL_MS) {
+		await db
+			.update(apiKeys)
+			.set({ lastUsedAt: now })
+			.where(eq(apiKeys.id, row.key.id));
+	}
+	return { user: row.user, key: toWire(row.key) };
+}
@@ -0,0 +1,187 @@
+import {
+	AUDIT_RETENTION_SETTING,
+	type AuditAction,
+	type AuditActorKind,
+	type AuditEntry,
+	type AuditEntryPage,
+	normalizeAuditRetentionDays,
+} from "@infinitune/shared/audit";
+import { and, desc, eq, gte, inArray, lt, or, type SQL } from "drizzle-orm";
+import { db } from "../db/index";
+import type { AuditEvent } from "../db/schema";
+import { auditEvents } from "../db/schema";
+import { parseJsonField } from "../wire";
+import * as settingsService from "./settings-service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AuditRecordInput {
+	actorKind: AuditActorKind;
+	actorUserId?: string | null;
+	actorName?: string | null;
+	deviceId?: string | null;
+	deviceName?: string | null;
+	method: string;
+	route: string;
+	action: AuditAction;
+	playlistId?: string | null;
+	targetId?: string | null;
+	before?: unknown;
+	after?: unknown;
+}
+
+export interface AuditFilters {
+	action?: AuditAction;
+	playlistId?: string;
+	actorUserId?: string;
+	deviceId?: string;
+	/** Only entries about these playlists; entries without one are left out. */
+	playlistIds?: string[];
+	since?: number;
+	/** `nextCursor` of the previous page. */
+	cursor?: string;
+	limit?: number;
+}
+
+export class InvalidAuditCursorError extends Error {
+	constructor() {
+		super("Invalid audit cursor");
+		this.name = "InvalidAuditCursorError";
+	}
+}
+
+// Entries can share a millisecond, so the id breaks ties between pages
+function encodeCursor(row: { createdAt: number; id: string }): string {
+	return Buffer.from(`${row.createdAt}:${row.id}`).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { createdAt: number; id: string } {
+	const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+	const separator = decoded.indexOf(":");
+	const createdAt = Number(decoded.slice(0, separator));
+	const id = decoded.slice(separator + 1);
+	if (separator <= 0 || !Number.isFinite(createdAt) || !id) {
+		throw new InvalidAuditCursorError();
+	}
+	return { createdAt, id };
+}
+
+function toJson(value: unknown): string | null {
+	return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+export function toWire(row: AuditEvent): AuditEntry {
+	return {
+		id: row.id,
+		createdAt: row.createdAt,
+		actorKind: row.actorKind as AuditActorKind,
+		actorUserId: row.actorUserId,
+		actorName: row.actorName,
+		deviceId: row.deviceId,
+		deviceName: row.deviceName,
+		method: row.method,
+		route: row.route,
+		action: row.action as AuditAction,
+		playlistId: row.playlistId,
+		targetId: row.targetId,
+		before: parseJsonField<unknown>(row.before) ?? null,
+		after: parseJsonField<unknown>(row.after) ?? null,
+	};
+}
+
+export async function record(input: AuditRecordInput): Promise<AuditEntry> {
+	const [row] = await db
+		.insert(auditEvents)
+		.values({
+			actorKind: input.actorKind,
+			actorUserId: input.actorUserId ?? null,
+			actorName: input.actorName ?? null,
+			deviceId: input.deviceId ?? null,
+			deviceName: input.deviceName ?? null,
+			method: input.method,
+			route: input.route,
+			action: input.action,
+			playlistId: input.playlistId ?? null,
+			targetId: input.targetId ?? null,
+			before: toJson(input.before),
+			after: toJson(input.after),
+		})
+		.returning();
+	return toWire(row);
+}
+
+/**
+ * Newest first, one page at a time. Throws InvalidAuditCursorError for
+ * malformed cursors.
+ */
+export async function list(
+	filters: AuditFilters = {},
+): Promise<AuditEntryPage> {
+	const limit = Math.min(500, Math.max(1, filters.limit ?? 100));
+	const conditions: SQL[] = [];
+	if (filters.action) conditions.push(eq(auditEvents.action, filters.action));
+	if (filters.playlistId) {
+		conditions.push(eq(auditEvents.playlistId, filters.playlistId));
+	}
+	if (filters.actorUserId) {
+		conditions.push(eq(auditEvents.actorUserId, filters.actorUserId));
+	}
+	if (filters.deviceId) {
+		conditions.push(eq(auditEvents.deviceId, filters.deviceId));
+	}
+	if (filters.playlistIds) {
+		if (filters.playlistIds.length === 0) {
+			return { entries: [], nextCursor: null };
+		}
+		conditions.push(inArray(auditEvents.playlistId, filters.playlistIds));
+	}
+	if (filters.since !== undefined) {
+		conditions.push(gte(auditEvents.createdAt, filters.since));
+	}
+	if (filters.cursor) {
+		const cursor = decodeCursor(filters.cursor);
+		conditions.push(
+			or(
+				lt(auditEvents.createdAt, cursor.createdAt),
+				and(
+					eq(auditEvents.createdAt, cursor.createdAt),
+					lt(auditEvents.id, cursor.id),
+				),
+			) as SQL,
+		);
+	}
+
+	const rows = await db
+		.select()
+		.from(auditEvents)
+		.where(conditions.length > 0 ? and(...conditions) : undefined)
+		.orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+		.limit(limit + 1);
+	const page = rows.slice(0, limit);
+	return {
+		entries: page.map(toWire),
+		nextCursor:
+			rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+	};
+}
+
+/** Delete entries older than the retention window; `0` days keeps everything. */
+export async function prune(
+	retentionDays: number,
+	now = Date.now(),
+): Promise<number> {
+	if (retentionDays <= 0) return 0;
+	const rows = await db
+		.delete(auditEvents)
+		.where(lt(auditEvents.createdAt, now - retentionDays * DAY_MS))
+		.returning({ id: auditEvents.id });
+	return rows.length;
+}
+
+/** Apply the retention period configured in settings. */
+export async function pruneExpired(now = Date.now()): Promise<number> {
+	const retentionDays = normalizeAuditRetentionDays(
+		await settingsService.get(AUDIT_RETENTION_SETTING),
+	);
+	return prune(retentionDays, now);
+}
@@ -0,0 +1,297 @@
+import { createHash, randomBytes } from "node:crypto";
+import {
+	type CollaboratorRole,
+	type CreatedPlaylistInvite,
+	PLAYLIST_INVITE_TTL_MS,
+	type PlaylistCollaborator,
+	type PlaylistInvite,
+	strongestRole,
+} from "@infinitune/shared/playlist-roles";
+import { and, asc, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import { db } from "../db/index";
+import type {
+	Playlist,
+	PlaylistCollaboratorRow,
+	PlaylistInviteRow,
+} from "../db/schema";
+import { playlistCollaborators, playlistInvites, users } from "../db/schema";
+import { emit } from "../events/event-bus";
+
+function hashToken(token: string): string {
+	return createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+function createInviteToken(): string {
+	return `infi_inv_${randomBytes(24).toString("base64url")}`;
+}
+
+function announce(playlistId: string) {
+	emit("playlist.collaborators_updated", { playlistId });
+}
+
+export function inviteToWire(row: PlaylistInviteRow): PlaylistInvite {
+	return {
+		id: row.id,
+		playlistId: row.playlistId,
+		role: row.role as CollaboratorRole,
+		createdByUserId: row.createdByUserId,
+		createdAt: row.createdAt,
+		expiresAt: row.expiresAt,
+		maxUses: row.maxUses,
+		uses: row.uses,
+		revokedAt: row.revokedAt,
+	};
+}
+
+function isInviteUsable(row: PlaylistInviteRow, now = Date.now()): boolean {
+	if (row.revokedAt !== null) return false;
+	if (row.expiresAt !== null && row.expiresAt <= now) return false;
+	if (row.maxUses !== null && row.uses >= row.maxUses) return false;
+	return true;
+}
+
+// ─── Roles ───────────────────────────────────────────────────────────
+
+/** Strongest collaborator role any of `userIds` holds on the playlist. */
+export async function getCollaboratorRole(
+	playlistId: string,
+	userIds: string[],
+): Promise<CollaboratorRole | null> {
+	if (userIds.length === 0) return null;
+	const rows = await db
+		.select({ role: playlistCollaborators.role })
+		.from(playlistCollaborators)
+		.where(
+			and(
+				eq(playlistCollaborators.playlistId, playlistId),
+				inArray(playlistCollaborators.userId, userIds),
+			),
+		);
+	return strongestRole(rows.map((row) => row.role as CollaboratorRole));
+}
+
+/** Every playlist shared with any of `userIds`, keyed by playlist id. */
+export async function listCollaboratorRoles(
+	userIds: string[],
+): Promise<Map<string, CollaboratorRole>> {
+	const roles = new Map<string, CollaboratorRole>();
+	if (userIds.length === 0) return roles;
+	const rows = await db
+		.select({
+			playlistId: playlistCollaborators.playlistId,
+			role: playlistCollaborators.role,
+		})
+		.from(playlistCollaborators)
+		.where(inArray(playlistCollaborators.userId, userIds));
+	for (const row of rows) {
+		const role = row.role as CollaboratorRole;
+		roles.set(
+			row.playlistId,
+			strongestRole([roles.get(row.playlistId), role]) ?? role,
+		);
+	}
+	return roles;
+}
+
+// ─── Collaborators ───────────────────────────────────────────────────
+
+/** The owner first, then collaborators in the order they joined. */
+export async function listCollaborators(
+	playlist: Pick<Playlist, "id" | "ownerUserId">,
+): Promise<PlaylistCollaborator[]> {
+	const result: PlaylistCollaborator[] = [];
+	if (playlist.ownerUserId) {
+		const [owner] = await db
+			.select()
+			.from(users)
+			.where(eq(users.id, playlist.ownerUserId))
+			.limit(1);
+		result.push({
+			playlistId: playlist.id,
+			userId: playlist.ownerUserId,
+			role: "owner",
+			name: owner?.displayName ?? null,
+			email: owner?.email ?? null,
+			picture: owner?.picture ?? null,
+			invitedByUserId: null,
+			createdAt: null,
+		});
+	}
+
+	const rows = await db
+		.select({ collaborator: playlistCollaborators, user: users })
+		.from(playlistCollaborators)
+		.innerJoin(users, eq(users.id, playlistCollaborators.userId))
+		.where(eq(playlistCollaborators.playlistId, playlist.id))
+		.orderBy(asc(playlistCollaborators.createdAt));
+	for (const { collaborator, user } of rows) {
+		result.push({
+			playlistId: collaborator.playlistId,
+			userId: collaborator.userId,
+			role: collaborator.role as CollaboratorRole,
+			name: user.displayName,
+			email: user.email,
+			picture: user.picture,
+			invitedByUserId: collaborator.invitedByUserId,
+			createdAt: collaborator.createdAt,
+		});
+	}
+	return result;
+}
+
+export async function setCollaboratorRole(
+	playlistId: string,
+	userId: string,
+	role: CollaboratorRole,
+): Promise<PlaylistCollaboratorRow | null> {
+	const [row] = await db
+		.update(playlistCollaborators)
+		.set({ role })
+		.where(
+			and(
+				eq(playlistCollaborators.playlistId, playlistId),
+				eq(playlistCollaborators.userId, userId),
+			),
+		)
+		.returning();
+	if (row) announce(playlistId);
+	return row ?? null;
+}
+
+export async function removeCollaborator(
+	playlistId: string,
+	userId: string,
+): Promise<boolean> {
+	const rows = await db
+		.delete(playlistCollaborators)
+		.where(
+			and(
+				eq(playlistCollaborators.playlistId, playlistId),
+				eq(playlistCollaborators.userId, userId),
+			),
+		)
+		.returning({ id: playlistCollaborators.id });
+	if (rows.length > 0) announce(playlistId);
+	return rows.length > 0;
+}
+
+// ─── Invites ─────────────────────────────────────────────────────────
+
+export async function createInvite(
+	playlistId: string,
+	createdByUserId: string | null,
+	input: {
+		role: CollaboratorRole;
+		expiresInHours?: number | null;
+		maxUses?: number | null;
+	},
+): Promise<CreatedPlaylistInvite> {
+	const token = createInviteToken();
+	const expiresAt =
+		input.expiresInHours === null
+			? null
+			: Date.now() +
+				(input.expiresInHours !== undefined
+					? input.expiresInHours * 60 * 60 * 1000
+					: PLAYLIST_INVITE_TTL_MS);
+	const [row] = await db
+		.insert(playlistInvites)
+		.values({
+			playlistId,
+			tokenHash: hashToken(token),
+			role: input.role,
+			createdByUserId,
+			expiresAt,
+			maxUses: input.maxUses ?? null,
+		})
+		.returning();
+	announce(playlistId);
+	return { ...inviteToWire(row), token };
+}
+
+/** Invites that can still be accepted, newest first. */
+export async function listInvites(
+	playlistId: string,
+): Promise<PlaylistInvite[]> {
+	const rows = await db
+		.select()
+		.from(playlistInvites)
+		.where(
+			and(
+				eq(playlistInvites.playlistId, playlistId),
+				isNull(playlistInvites.revokedAt),
+			),
+		)
+		.orderBy(desc(playlistInvites.createdAt));
+	const now = Date.now();
+	return rows.filter((row) => isInviteUsable(row, now)).map(inviteToWire);
+}
+
+export async function revokeInvite(
+	playlistId: string,
+	inviteId: string,
+): Promise<boolean> {
+	const rows = await db
+		.update(playlistInvites)
+		.set({ revokedAt: Date.now() })
+		.where(
+			and(
+				eq(playlistInvites.id, inviteId),
+				eq(playlistInvites.playlistId, playlistId),
+				isNull(playlistInvites.revokedAt),
+			),
+		)
+		.returning({ id: playlistInvites.id });
+	if (rows.length > 0) announce(playlistId);
+	return rows.length > 0;
+}
+
+/** Look up an invite by its raw token; null once revoked, expired or used up. */
+export async function getUsableInvite(
+	token: string,
+): Promise<PlaylistInviteRow | null> {
+	const [row] = await db
+		.select()
+		.from(playlistInvites)
+		.where(eq(playlistInvites.tokenHash, hashToken(token)))
+		.limit(1);
+	return row && isInviteUsable(row) ? row : null;
+}
+
+/**
+ * Add the user as a collaborator with the invite's role. Accepting never
+ * downgrades an existing collaborator, and the owner accepting their own
+ * link is a no-op that doesn't use it up.
+ */
+export async function acceptInvite(
+	invite: PlaylistInviteRow,
+	playlist: Pick<Playlist, "id" | "ownerUserId">,
+	userId: string,
+): Promise<{ role: PlaylistCollaborator["role"] }> {
+	if (playlist.ownerUserId === userId) return { role: "owner" };
+
+	const existing = await getCollaboratorRole(playlist.id, [userId]);
+	const invited = invite.role as CollaboratorRole;
+	const role = strongestRole([existing, invited]) ?? invited;
+
+	await db
+		.insert(playlistCollaborators)
+		.values({
+			playlistId: playlist.id,
+			userId,
+			role,
+			invitedByUserId: invite.createdByUserId,
+		})
+		.onConflictDoUpdate({
+			target: [playlistCollaborators.playlistId, playlistCollaborators.userId],
+			set: { role },
+		});
+	if (!existing) {
+		await db
+			.update(playlistInvites)
+			.set({ uses: sql`${playlistInvites.uses} + 1` })
+			.where(eq(playlistInvites.id, invite.id));
+	}
+	announce(playlist.id);
+	return { role };
+}
@@ -129,7 +129,7 @@ export async function revokeDeviceToken(
 export async function assignDeviceToPlaylist(
 	playlistId: string,
 	deviceId: string,
-	assignedByUserId: string,
+	assignedByUserId: string | null,
 ): Promise<PlaylistDeviceAssignment> {
 	// A device belongs to at most one active playlist assignment at a time.
 	await db
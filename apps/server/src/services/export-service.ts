@@ -0,0 +1,301 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+	PLAYLIST_ARCHIVE_FORMAT,
+	PLAYLIST_ARCHIVE_MANIFEST,
+	PLAYLIST_ARCHIVE_VERSION,
+	type PlaylistArchiveManifest,
+} from "@infinitune/shared/validation/playlist-archive";
+import { resolveCoverFile } from "../covers";
+import {
+	resolveStoredAudioFile,
+	sanitizePathSegment,
+} from "../external/storage";
+import { retagTrackNumber } from "../external/tag-mp3";
+import { logger } from "../logger";
+import { ZipWriter } from "../utils/zip";
+import type { PlaylistWire, SongWire } from "../wire";
+import * as songService from "./song-service";
+
+const EXPORTABLE_STATUSES = new Set(["ready", "played"]);
+
+export interface ExportTrack {
+	trackNumber: number;
+	/** File name without extension, e.g. `03 - Artist - Title`. */
+	baseName: string;
+	song: SongWire;
+	audioFile: string;
+	coverFile: string | null;
+}
+
+function formatLrcTimestamp(seconds: number): string {
+	const centis = Math.max(0, Math.round(seconds * 100));
+	const mm = Math.floor(centis / 6000);
+	const ss = Math.floor((centis % 6000) / 100);
+	const cc = centis % 100;
+	return `${String(mm).padStart(2, "0")}:${String(ss).padStart(2, "0")}.${String(cc).padStart(2, "0")}`;
+}
+
+function resolveTrackCover(song: SongWire): string | null {
+	const fromUrl = resolveCoverFile(song.cover?.pngUrl);
+	if (fromUrl) return fromUrl;
+	if (!song.storagePath) return null;
+	const fromStorage = path.join(song.storagePath, "cover.png");
+	return fs.existsSync(fromStorage) ? fromStorage : null;
+}
+
+/** File name for the archive itself, e.g. `Late Night Drive.zip`. */
+export function exportArchiveName(playlistName: string): string {
+	return `${sanitizePathSegment(playlistName) || "playlist"}.zip`;
+}
+
+/**
+ * Finished songs of a playlist in `orderIndex` order, numbered 1..N.
+ * Songs whose audio isn't on disk are skipped so numbering has no gaps.
+ */
+export async function listExportTracks(
+	playlistId: string,
+): Promise<ExportTrack[]> {
+	const songs = await songService.listByPlaylist(playlistId);
+	const playable = songs
+		.filter((song) => EXPORTABLE_STATUSES.has(song.status))
+		.map((song) => ({
+			song,
+			audioFile: song.storagePath
+				? resolveStoredAudioFile(song.storagePath)
+				: null,
+		}))
+		.filter(
+			(entry): entry is { song: SongWire; audioFile: string } =>
+				entry.audioFile !== null,
+		);
+
+	const width = Math.max(2, String(playable.length).length);
+	return playable.map(({ song, audioFile }, i) => {
+		const trackNumber = i + 1;
+		const label = sanitizePathSegment(
+			`${song.artistName ?? "Unknown Artist"} - ${song.title ?? "Untitled"}`,
+		);
+		return {
+			trackNumber,
+			baseName: `${String(trackNumber).padStart(width, "0")} - ${label}`,
+			song,
+			audioFile,
+			coverFile: resolveTrackCover(song),
+		};
+	});
+}
+
+export function buildM3u8(playlistName: string, tracks: ExportTrack[]): string {
+	const lines = ["#EXTM3U", `#PLAYLIST:${playlistName}`];
+	for (const track of tracks) {
+		const duration = Math.round(track.song.audioDuration ?? -1);
+		const artist = track.song.artistName ?? "Unknown Artist";
+		const title = track.song.title ?? "Untitled";
+		lines.push(`#EXTINF:${duration},${artist} - ${title}`);
+		lines.push(`${track.baseName}.mp3`);
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * LRC sidecar for a track. ACE doesn't return word alignment, so lines are
+ * spread evenly over the song's duration — close enough for scrolling lyrics.
+ * Section markers like `[Chorus]` are dropped.
+ */
+export function buildLrc(track: ExportTrack, album: string): string | null {
+	const lyricLines = (track.song.lyrics ?? "")
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line.length > 0 && !/^\[.*\]$/.test(line));
+	if (lyricLines.length === 0) return null;
+
+	const duration = track.song.audioDuration ?? 0;
+	const header = [
+		`[ti:${track.song.title ?? "Untitled"}]`,
+		`[ar:${track.song.artistName ?? "Unknown Artist"}]`,
+		`[al:${album}]`,
+	];
+	if (duration > 0) {
+		header.push(`[length:${formatLrcTimestamp(duration).slice(0, 5)}]`);
+	}
+	const step = duration > 0 ? duration / lyricLines.length : 0;
+	const body = lyricLines.map(
+		(line, i) => `[${formatLrcTimestamp(i * step)}]${line}`,
+	);
+	return `${[...header, ...body].join("\n")}\n`;
+}
+
+function trackCoverName(track: ExportTrack): string | null {
+	if (!track.coverFile) return null;
+	return `${track.baseName}${path.extname(track.coverFile) || ".png"}`;
+}
+
+/**
+ * Manifest that lets `import-service` rebuild the playlist elsewhere:
+ * generation settings, steering/director state and per-song metadata.
+ */
+export function buildArchiveManifest(
+	playlist: PlaylistWire,
+	tracks: ExportTrack[],
+): PlaylistArchiveManifest {
+	return {
+		format: PLAYLIST_ARCHIVE_FORMAT,
+		version: PLAYLIST_ARCHIVE_VERSION,
+		exportedAt: Date.now(),
+		source: { playlistId: playlist.id },
+		playlist: {
+			name: playlist.name,
+			prompt: playlist.prompt,
+			llmProvider: playlist.llmProvider,
+			llmModel: playlist.llmModel,
+			mode: playlist.mode === "oneshot" ? "oneshot" : "endless",
+			playlistKey: playlist.playlistKey,
+			lyricsLanguage: playlist.lyricsLanguage,
+			targetBpm: playlist.targetBpm,
+			targetKey: playlist.targetKey,
+			timeSignature: playlist.timeSignature,
+			audioDuration: playlist.audioDuration,
+			inferenceSteps: playlist.inferenceSteps,
+			lmTemperature: playlist.lmTemperature,
+			lmCfgScale: playlist.lmCfgScale,
+			inferMethod: playlist.inferMethod,
+			aceModel: playlist.aceModel,
+			aceDcwEnabled: playlist.aceDcwEnabled,
+			aceDcwMode: playlist.aceDcwMode,
+			aceDcwScaler: playlist.aceDcwScaler,
+			aceDcwHighScaler: playlist.aceDcwHighScaler,
+			aceDcwWavelet: playlist.aceDcwWavelet,
+			aceThinking: playlist.aceThinking,
+			aceAutoDuration: playlist.aceAutoDuration,
+			qualityRetryBudget: playlist.qualityRetryBudget,
+			budgetSongsPerHour: playlist.budgetSongsPerHour,
+			budgetTokensPerDay: playlist.budgetTokensPerDay,
+			budgetGpuMinutesPerDay: playlist.budgetGpuMinutesPerDay,
+			currentOrderIndex: playlist.currentOrderIndex,
+			promptEpoch: playlist.promptEpoch,
+			steerHistory: playlist.steerHistory ?? [],
+			managerBrief: playlist.managerBrief,
+			managerPlan: playlist.managerPlan,
+			managerEpoch: playlist.managerEpoch,
+			isStarred: playlist.isStarred,
+			description: playlist.description,
+		},
+		songs: tracks.map(({ song, ...track }) => ({
+			sourceId: song.id,
+			orderIndex: song.orderIndex,
+			status: song.status === "played" ? "played" : "ready",
+			title: song.title ?? "Untitled",
+			artistName: song.artistName ?? "Unknown Artist",
+			genre: song.genre ?? "Unknown",
+			subGenre: song.subGenre,
+			lyrics: song.lyrics,
+			caption: song.caption,
+			coverPrompt: song.coverPrompt,
+			bpm: song.bpm,
+			keyScale: song.keyScale,
+			timeSignature: song.timeSignature,
+			audioDuration: song.audioDuration,
+			vocalStyle: song.vocalStyle,
+			mood: song.mood,
+			energy: song.energy,
+			era: song.era,
+			instruments: song.instruments,
+			tags: song.tags,
+			themes: song.themes,
+			language: song.language,
+			description: song.description,
+			isInterrupt: song.isInterrupt,
+			interruptPrompt: song.interruptPrompt,
+			llmProvider: song.llmProvider,
+			llmModel: song.llmModel,
+			promptEpoch: song.promptEpoch,
+			userRating:
+				song.userRating === "up" || song.userRating === "down"
+					? song.userRating
+					: null,
+			playDurationMs: song.playDurationMs,
+			listenCount: song.listenCount,
+			skipCount: song.skipCount,
+			earlySkipCount: song.earlySkipCount,
+			personaExtract: song.personaExtract,
+			loudnessLufs: song.loudnessLufs,
+			truePeakDbtp: song.truePeakDbtp,
+			replayGainDb: song.replayGainDb,
+			waveformPeaks: song.waveformPeaks,
+			energyCurve: song.energyCurve,
+			measuredBpm: song.measuredBpm,
+			measuredKey: song.measuredKey,
+			analysisMismatch: song.analysisMismatch,
+			files: {
+				audio: `${track.baseName}.mp3`,
+				cover: trackCoverName({ song, ...track }),
+			},
+		})),
+	};
+}
+
+/**
+ * Stream a playlist export ZIP: renumbered MP3s, `.lrc` sidecars, per-track
+ * covers, an `.m3u8` in playlist order and the import manifest.
+ */
+export async function writePlaylistZip(
+	playlist: PlaylistWire,
+	tracks: ExportTrack[],
+	write: (chunk: Uint8Array) => Promise<unknown>,
+): Promise<void> {
+	const zip = new ZipWriter(write);
+	const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "infinitune-export-"));
+	try {
+		for (const track of tracks) {
+			const retaggedPath = path.join(tempDir, `${track.trackNumber}.mp3`);
+			let audioPath = track.audioFile;
+			try {
+				await retagTrackNumber(
+					track.audioFile,
+					retaggedPath,
+					track.trackNumber,
+					tracks.length,
+				);
+				audioPath = retaggedPath;
+			} catch (err) {
+				logger.warn(
+					{ err, playlistId: playlist.id, songId: track.song.id },
+					"Failed to renumber track for export, using original file",
+				);
+			}
+			await zip.addFile(`${track.baseName}.mp3`, fs.readFileSync(audioPath));
+			if (audioPath === retaggedPath) fs.unlinkSync(retaggedPath);
+
+			const lrc = buildLrc(track, playlist.name);
+			if (lrc) await zip.addFile(`${track.baseName}.lrc`, Buffer.from(lrc));
+
+			const coverName = trackCoverName(track);
+			if (track.coverFile && coverName) {
+				await zip.addFile(coverName, fs.readFileSync(track.coverFile));
+			}
+		}
+
+		const firstCover = tracks.find((track) => track.coverFile)?.coverFile;
+		if (firstCover) {
+			await zip.addFile(
+				`cover${path.extname(firstCover) || ".png"}`,
+				fs.readFileSync(firstCover),
+			);
+		}
+		await zip.addFile(
+			`${sanitizePathSegment(playlist.name) || "playlist"}.m3u8`,
+			Buffer.from(buildM3u8(playlist.name, tracks)),
+		);
+		await zip.addFile(
+			PLAYLIST_ARCHIVE_MANIFEST,
+			Buffer.from(
+				JSON.stringify(buildArchiveManifest(playlist, tracks), null, 2),
+			),
+		);
+		await zip.finish();
+	} finally {
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,318 @@
+import fs from "node:fs";
+import path from "node:path";
+import { normalizeAceModel } from "@infinitune/shared/ace-settings";
+import { normalizeLyricsLanguage } from "@infinitune/shared/lyrics-language";
+import { normalizeLlmProvider } from "@infinitune/shared/text-llm-profile";
+import type {
+	PlaylistImportFailure,
+	PlaylistImportResult,
+	SongCover,
+} from "@infinitune/shared/types";
+import {
+	PLAYLIST_ARCHIVE_MANIFEST,
+	type PlaylistArchiveManifest,
+	PlaylistArchiveManifestSchema,
+	type PlaylistArchiveSong,
+} from "@infinitune/shared/validation/playlist-archive";
+import { createId } from "@paralleldrive/cuid2";
+import { eq, or } from "drizzle-orm";
+import { saveCover } from "../covers";
+import { db } from "../db/index";
+import { playlists, songs } from "../db/schema";
+import { emit } from "../events/event-bus";
+import { createSongStorageDir } from "../external/storage";
+import { logger } from "../logger";
+import {
+	readZip,
+	type ZipEntries,
+	ZipFormatError,
+	ZipSizeError,
+} from "../utils/zip";
+
+/**
+ * Largest archive accepted, both as uploaded and once extracted. The upload
+ * is buffered whole, so this bounds what a single import holds in memory.
+ */
+export const MAX_IMPORT_ARCHIVE_BYTES = 256 * 1024 * 1024;
+
+/** The upload isn't a readable archive or its manifest fails validation. */
+export class PlaylistArchiveError extends Error {}
+
+/** The archive's source playlist already exists on this server. */
+export class DuplicatePlaylistImportError extends Error {}
+
+/** Extract one entry; the caller drops it before reading the next. */
+function readEntry(entries: ZipEntries, name: string): Buffer | null {
+	const read = entries.get(name);
+	return read ? read() : null;
+}
+
+function parseManifest(entries: ZipEntries): PlaylistArchiveManifest {
+	let raw: Buffer | null;
+	try {
+		raw = readEntry(entries, PLAYLIST_ARCHIVE_MANIFEST);
+	} catch (err) {
+		if (err instanceof ZipFormatError) {
+			throw new PlaylistArchiveError(err.message);
+		}
+		throw err;
+	}
+	if (!raw) {
+		throw new PlaylistArchiveError(
+			`Archive is missing ${PLAYLIST_ARCHIVE_MANIFEST}`,
+		);
+	}
+	let json: unknown;
+	try {
+		json = JSON.parse(raw.toString("utf8"));
+	} catch {
+		throw new PlaylistArchiveError(
+			`${PLAYLIST_ARCHIVE_MANIFEST} is not valid JSON`,
+		);
+	}
+	const result = PlaylistArchiveManifestSchema.safeParse(json);
+	if (!result.success) {
+		throw new PlaylistArchiveError(result.error.message);
+	}
+	return result.data;
+}
+
+async function assertNotImported(sourcePlaylistId: string): Promise<void> {
+	const [existing] = await db
+		.select({ id: playlists.id })
+		.from(playlists)
+		.where(
+			or(
+				eq(playlists.id, sourcePlaylistId),
+				eq(playlists.importedFromId, sourcePlaylistId),
+			),
+		)
+		.limit(1);
+	if (existing) {
+		throw new DuplicatePlaylistImportError(
+			`Playlist ${sourcePlaylistId} already exists here as ${existing.id}`,
+		);
+	}
+}
+
+async function resolvePlaylistKey(
+	key: string | null | undefined,
+): Promise<string | null> {
+	if (!key) return null;
+	const [taken] = await db
+		.select({ id: playlists.id })
+		.from(playlists)
+		.where(eq(playlists.playlistKey, key))
+		.limit(1);
+	return taken ? null : key;
+}
+
+async function importCover(
+	entries: ZipEntries,
+	fileName: string | null | undefined,
+): Promise<SongCover | null> {
+	if (!fileName) return null;
+	const data = readEntry(entries, fileName);
+	if (!data) return null;
+	const saved = await saveCover(data, path.extname(fileName) || "png");
+	return saved.cover;
+}
+
+async function importSong(
+	playlistId: string,
+	song: PlaylistArchiveSong,
+	entries: ZipEntries,
+): Promise<string> {
+	const audio = readEntry(entries, song.files.audio);
+	if (!audio) throw new Error(`Missing audio file ${song.files.audio}`);
+
+	const id = createId();
+	const songDir = createSongStorageDir({
+		songId: id,
+		genre: song.genre,
+		subGenre: song.subGenre ?? song.genre,
+		artistName: song.artistName,
+		title: song.title,
+		avoidExisting: true,
+	});
+	try {
+		fs.writeFileSync(path.join(songDir, "audio.mp3"), audio);
+		if (song.lyrics) {
+			fs.writeFileSync(path.join(songDir, "lyrics.txt"), song.lyrics);
+		}
+		const cover = await importCover(entries, song.files.cover);
+		const now = Date.now();
+
+		await db.insert(songs).values({
+			id,
+			playlistId,
+			orderIndex: song.orderIndex,
+			title: song.title,
+			artistName: song.artistName,
+			genre: song.genre,
+			subGenre: song.subGenre,
+			lyrics: song.lyrics,
+			caption: song.caption,
+			coverPrompt: song.coverPrompt,
+			coverUrl: cover?.pngUrl ?? null,
+			coverWebpUrl: cover?.webpUrl ?? null,
+			coverJxlUrl: cover?.jxlUrl ?? null,
+			bpm: song.bpm,
+			keyScale: song.keyScale,
+			timeSignature: song.timeSignature,
+			audioDuration: song.audioDuration,
+			vocalStyle: song.vocalStyle,
+			mood: song.mood,
+			energy: song.energy,
+			era: song.era,
+			instruments: song.instruments ? JSON.stringify(song.instruments) : null,
+			tags: song.tags ? JSON.stringify(song.tags) : null,
+			themes: song.themes ? JSON.stringify(song.themes) : null,
+			language: song.language,
+			description: song.description,
+			status: song.status,
+			audioUrl: `/api/songs/${id}/audio`,
+			storagePath: songDir,
+			generationStartedAt: now,
+			generationCompletedAt: now,
+			isInterrupt: song.isInterrupt,
+			interruptPrompt: song.interruptPrompt,
+			llmProvider: song.llmProvider,
+			llmModel: song.llmModel,
+			promptEpoch: song.promptEpoch,
+			userRating: song.userRating,
+			playDurationMs: song.playDurationMs,
+			listenCount: song.listenCount ?? 0,
+			skipCount: song.skipCount ?? 0,
+			earlySkipCount: song.earlySkipCount ?? 0,
+			personaExtract: song.personaExtract,
+			loudnessLufs: song.loudnessLufs,
+			truePeakDbtp: song.truePeakDbtp,
+			replayGainDb: song.replayGainDb,
+			waveformPeaks: song.waveformPeaks
+				? JSON.stringify(song.waveformPeaks)
+				: null,
+			energyCurve: song.energyCurve ? JSON.stringify(song.energyCurve) : null,
+			measuredBpm: song.measuredBpm,
+			measuredKey: song.measuredKey,
+			analysisMismatch: song.analysisMismatch,
+		});
+	} catch (err) {
+		fs.rmSync(songDir, { recursive: true, force: true });
+		throw err;
+	}
+	return id;
+}
+
+/**
+ * Recreate an exported playlist (see `export-service`) with fresh IDs.
+ * Songs are restored one by one; a bad song is reported in `failures`
+ * rather than aborting the whole import. With `expiresAt` the playlist is
+ * temporary, like one created anonymously.
+ */
+export async function importPlaylistArchive(
+	archive: Buffer,
+	options: { ownerUserId?: string; expiresAt?: number } = {},
+): Promise<PlaylistImportResult> {
+	let entries: ZipEntries;
+	try {
+		entries = readZip(archive, MAX_IMPORT_ARCHIVE_BYTES);
+	} catch (err) {
+		if (err instanceof ZipFormatError || err instanceof ZipSizeError) {
+			throw new PlaylistArchiveError(err.message);
+		}
+		throw err;
+	}
+	const manifest = parseManifest(entries);
+	await assertNotImported(manifest.source.playlistId);
+
+	const source = manifest.playlist;
+	const [playlist] = await db
+		.insert(playlists)
+		.values({
+			name: source.name,
+			prompt: source.prompt,
+			llmProvider: normalizeLlmProvider(source.llmProvider),
+			llmModel: source.llmModel,
+			mode: source.mode,
+			// Closed until someone opens it, so an import doesn't start generating
+			status: "closed",
+			songsGenerated: 0,
+			playlistKey: await resolvePlaylistKey(source.playlistKey),
+			lyricsLanguage: normalizeLyricsLanguage(
+				source.lyricsLanguage ?? undefined,
+			),
+			targetBpm: source.targetBpm,
+			targetKey: source.targetKey,
+			timeSignature: source.timeSignature,
+			audioDuration: source.audioDuration,
+			inferenceSteps: source.inferenceSteps,
+			lmTemperature: source.lmTemperature,
+			lmCfgScale: source.lmCfgScale,
+			inferMethod: source.inferMethod,
+			aceModel: source.aceModel ? normalizeAceModel(source.aceModel) : null,
+			aceDcwEnabled: source.aceDcwEnabled,
+			aceDcwMode: source.aceDcwMode,
+			aceDcwScaler: source.aceDcwScaler,
+			aceDcwHighScaler: source.aceDcwHighScaler,
+			aceDcwWavelet: source.aceDcwWavelet,
+			aceThinking: source.aceThinking,
+			aceAutoDuration: source.aceAutoDuration,
+			qualityRetryBudget: source.qualityRetryBudget,
+			budgetSongsPerHour: source.budgetSongsPerHour,
+			budgetTokensPerDay: source.budgetTokensPerDay,
+			budgetGpuMinutesPerDay: source.budgetGpuMinutesPerDay,
+			currentOrderIndex: source.currentOrderIndex,
+			promptEpoch: source.promptEpoch ?? 0,
+			steerHistory: JSON.stringify(source.steerHistory),
+			managerBrief: source.managerBrief,
+			managerPlan: source.managerPlan
+				? JSON.stringify(source.managerPlan)
+				: null,
+			managerEpoch: source.managerEpoch,
+			managerUpdatedAt: source.managerPlan ? Date.now() : null,
+			isStarred: source.isStarred ?? false,
+			ownerUserId: options.ownerUserId,
+			isTemporary: options.expiresAt !== undefined,
+			expiresAt: options.expiresAt ?? null,
+			description: source.description,
+			descriptionUpdatedAt: source.description ? Date.now() : null,
+			importedFromId: manifest.source.playlistId,
+		})
+		.returning();
+
+	const failures: PlaylistImportFailure[] = [];
+	const imported: Array<{ songId: string; status: string }> = [];
+	const ordered = [...manifest.songs].sort(
+		(a, b) => a.orderIndex - b.orderIndex,
+	);
+	for (const song of ordered) {
+		try {
+			const songId = await importSong(playlist.id, song, entries);
+			imported.push({ songId, status: song.status });
+		} catch (err) {
+			const error = err instanceof Error ? err.message : String(err);
+			logger.warn(
+				{ err, playlistId: playlist.id, sourceSongId: song.sourceId },
+				"Failed to import song from playlist archive",
+			);
+			failures.push({ sourceId: song.sourceId, title: song.title, error });
+		}
+	}
+
+	await db
+		.update(playlists)
+		.set({ songsGenerated: imported.length })
+		.where(eq(playlists.id, playlist.id));
+
+	emit("playlist.created", { playlistId: playlist.id });
+	for (const { songId, status } of imported) {
+		emit("song.created", { songId, playlistId: playlist.id, status });
+	}
+
+	return {
+		playlistId: playlist.id,
+		importedSongs: imported.length,
+		failures,
+	};
+}
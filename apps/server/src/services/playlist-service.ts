@@ -178,6 +178,10 @@ export async function updateParams(
 		"aceDcwWavelet",
 		"aceThinking",
 		"aceAutoDuration",
+		"qualityRetryBudget",
+		"budgetSongsPerHour",
+		"budgetTokensPerDay",
+		"budgetGpuMinutesPerDay",
 	];
 
 	const patch: Record<string, unknown> = {};
@@ -287,6 +291,7 @@ export async function resetDefaults(id: string) {
 			aceDcwWavelet: null,
 			aceThinking: null,
 			aceAutoDuration: null,
+			qualityRetryBudget: null,
 			managerBrief: null,
 			managerPlan: null,
 			managerEpoch: null,
@@ -297,9 +302,10 @@ export async function resetDefaults(id: string) {
 	emit("playlist.updated", { playlistId: id });
 }
 
+/** Returns the new prompt epoch, or undefined when the playlist is gone. */
 export async function steer(id: string, prompt: string) {
 	const [row] = await db.select().from(playlists).where(eq(playlists.id, id));
-	if (!row) return;
+	if (!row) return undefined;
 
 	const newEpoch = (row.promptEpoch ?? 0) + 1;
 	const history: Array<{ epoch: number; direction: string; at: number }> =
@@ -322,6 +328,7 @@ export async function steer(id: string, prompt: string) {
 		.where(eq(playlists.id, id));
 
 	emit("playlist.steered", { playlistId: id, newEpoch });
+	return newEpoch;
 }
 
 function formatDirectorDecisionData(data: unknown): string {
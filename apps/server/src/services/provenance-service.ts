@@ -0,0 +1,235 @@
+import type {
+	AceRenderInputs,
+	SongPromptContractSummary,
+	SongProvenance,
+	SongProvenanceTimings,
+} from "@infinitune/shared/provenance";
+import type { PlaylistManagerPlanSlot } from "@infinitune/shared/types";
+import { eq } from "drizzle-orm";
+import { db } from "../db/index";
+import type { SongProvenanceRow } from "../db/schema";
+import { songProvenance } from "../db/schema";
+import { parseJsonField } from "../wire";
+
+type ProvenancePatch = Partial<
+	Omit<typeof songProvenance.$inferInsert, "songId" | "createdAt" | "timings">
+>;
+
+export function toWire(row: SongProvenanceRow): SongProvenance {
+	return {
+		songId: row.songId,
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+		sourceSongId: row.sourceSongId,
+		prompt: row.prompt,
+		promptEpoch: row.promptEpoch,
+		steerDirection: row.steerDirection,
+		promptContract:
+			parseJsonField<SongPromptContractSummary>(row.promptContract) ?? null,
+		llmProvider: row.llmProvider,
+		llmModel: row.llmModel,
+		managerSlot:
+			parseJsonField<PlaylistManagerPlanSlot>(row.managerSlot) ?? null,
+		tasteProfile: row.tasteProfile,
+		personaProvider: row.personaProvider,
+		personaModel: row.personaModel,
+		aceInputs: parseJsonField<AceRenderInputs>(row.aceInputs) ?? null,
+		aceSeed: row.aceSeed,
+		coverPrompt: row.coverPrompt,
+		coverProvider: row.coverProvider,
+		coverModel: row.coverModel,
+		timings: parseJsonField<SongProvenanceTimings>(row.timings) ?? {},
+	};
+}
+
+async function getRow(songId: string): Promise<SongProvenanceRow | null> {
+	const [row] = await db
+		.select()
+		.from(songProvenance)
+		.where(eq(songProvenance.songId, songId));
+	return row ?? null;
+}
+
+/**
+ * Insert or patch a song's record. Stages arrive in any order (covers race
+ * audio), so timings are merged rather than replaced.
+ */
+async function upsert(
+	songId: string,
+	patch: ProvenancePatch,
+	timings?: SongProvenanceTimings,
+): Promise<void> {
+	const existing = timings ? await getRow(songId) : null;
+	const mergedTimings = timings
+		? JSON.stringify({
+				...(parseJsonField<SongProvenanceTimings>(existing?.timings ?? null) ??
+					{}),
+				...timings,
+			})
+		: undefined;
+	const now = Date.now();
+	await db
+		.insert(songProvenance)
+		.values({
+			songId,
+			createdAt: now,
+			updatedAt: now,
+			...patch,
+			...(mergedTimings ? { timings: mergedTimings } : {}),
+		})
+		.onConflictDoUpdate({
+			target: songProvenance.songId,
+			set: {
+				...patch,
+				...(mergedTimings ? { timings: mergedTimings } : {}),
+				updatedAt: now,
+			},
+		});
+}
+
+export async function getBySongId(
+	songId: string,
+): Promise<SongProvenance | null> {
+	const row = await getRow(songId);
+	return row ? toWire(row) : null;
+}
+
+/** The steering direction that opened `epoch`, from a playlist's history. */
+export function steerDirectionAt(
+	steerHistory: Array<{ epoch: number; direction: string }> | undefined,
+	epoch: number,
+): string | null {
+	if (!steerHistory?.length) return null;
+	const match = steerHistory.filter((entry) => entry.epoch === epoch).at(-1);
+	return match?.direction ?? null;
+}
+
+export async function recordMetadata(
+	songId: string,
+	input: {
+		prompt: string;
+		promptEpoch: number;
+		steerDirection: string | null;
+		promptContract: SongPromptContractSummary;
+		llmProvider: string;
+		llmModel: string;
+		managerSlot?: PlaylistManagerPlanSlot;
+		tasteProfile?: string;
+		processingMs: number;
+	},
+): Promise<void> {
+	await upsert(
+		songId,
+		{
+			prompt: input.prompt,
+			promptEpoch: input.promptEpoch,
+			steerDirection: input.steerDirection,
+			promptContract: JSON.stringify(input.promptContract),
+			llmProvider: input.llmProvider,
+			llmModel: input.llmModel,
+			managerSlot: input.managerSlot ? JSON.stringify(input.managerSlot) : null,
+			tasteProfile: input.tasteProfile ?? null,
+			// New metadata means any earlier render inputs no longer apply
+			aceInputs: null,
+			aceSeed: null,
+		},
+		{ metadataMs: input.processingMs, metadataCompletedAt: Date.now() },
+	);
+}
+
+export async function recordCover(
+	songId: string,
+	input: {
+		coverPrompt: string;
+		provider: string;
+		model?: string;
+		processingMs: number;
+	},
+): Promise<void> {
+	await upsert(
+		songId,
+		{
+			coverPrompt: input.coverPrompt,
+			coverProvider: input.provider,
+			coverModel: input.model ?? null,
+		},
+		{ coverMs: input.processingMs },
+	);
+}
+
+export async function recordAudioSubmission(
+	songId: string,
+	inputs: AceRenderInputs,
+	seed: number,
+): Promise<void> {
+	await upsert(
+		songId,
+		{ aceInputs: JSON.stringify(inputs), aceSeed: seed },
+		{ audioSubmittedAt: Date.now() },
+	);
+}
+
+export async function recordCompletion(
+	songId: string,
+	audioMs: number,
+): Promise<void> {
+	await upsert(songId, {}, { audioMs, completedAt: Date.now() });
+}
+
+export async function recordPersona(
+	songId: string,
+	input: { provider: string; model: string },
+): Promise<void> {
+	await upsert(songId, {
+		personaProvider: input.provider,
+		personaModel: input.model,
+	});
+}
+
+/**
+ * Render inputs a regenerated song must reuse verbatim. Songs the worker
+ * generated itself return null and get fresh inputs and a fresh seed.
+ */
+export async function getPinnedAceRender(
+	songId: string,
+): Promise<{ inputs: AceRenderInputs; seed: number } | null> {
+	const row = await getRow(songId);
+	if (!row?.sourceSongId || !row.aceInputs || row.aceSeed === null) {
+		return null;
+	}
+	const inputs = parseJsonField<AceRenderInputs>(row.aceInputs);
+	return inputs ? { inputs, seed: row.aceSeed } : null;
+}
+
+/** Whether a song has the render inputs needed to regenerate it. */
+export async function canRegenerate(songId: string): Promise<boolean> {
+	const row = await getRow(songId);
+	return !!row?.aceInputs && row.aceSeed !== null;
+}
+
+/** Seed a regenerated song's record with the source song's inputs. */
+export async function copyForRegeneration(
+	sourceSongId: string,
+	songId: string,
+): Promise<void> {
+	const source = await getRow(sourceSongId);
+	if (!source) return;
+	await upsert(songId, {
+		sourceSongId,
+		prompt: source.prompt,
+		promptEpoch: source.promptEpoch,
+		steerDirection: source.steerDirection,
+		promptContract: source.promptContract,
+		llmProvider: source.llmProvider,
+		llmModel: source.llmModel,
+		managerSlot: source.managerSlot,
+		tasteProfile: source.tasteProfile,
+		personaProvider: source.personaProvider,
+		personaModel: source.personaModel,
+		aceInputs: source.aceInputs,
+		aceSeed: source.aceSeed,
+		coverPrompt: source.coverPrompt,
+		coverProvider: source.coverProvider,
+		coverModel: source.coverModel,
+	});
+}
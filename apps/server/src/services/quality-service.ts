@@ -0,0 +1,129 @@
+import {
+	type PlaylistQualityStats,
+	QUALITY_ISSUES,
+	type QualityFinding,
+	type QualityIssue,
+	type QualityMetrics,
+	resolveQualityGateConfig,
+} from "@infinitune/shared/quality-gate";
+import { and, desc, eq, gte, sql } from "drizzle-orm";
+import { db } from "../db/index";
+import { playlists, qualityChecks } from "../db/schema";
+import { parseJsonField } from "../wire";
+import * as settingsService from "./settings-service";
+
+/** Retries older than this no longer count against the budget. */
+export const QUALITY_RETRY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Record a check; returns its id so a rejection can be marked as retried. */
+export async function recordCheck(input: {
+	songId: string;
+	playlistId: string;
+	findings: QualityFinding[];
+	metrics: QualityMetrics;
+	reason?: string | null;
+}): Promise<string> {
+	const [row] = await db
+		.insert(qualityChecks)
+		.values({
+			songId: input.songId,
+			playlistId: input.playlistId,
+			passed: input.findings.length === 0,
+			issues: JSON.stringify(input.findings.map((finding) => finding.issue)),
+			reason: input.reason ?? null,
+			metrics: JSON.stringify(input.metrics),
+		})
+		.returning({ id: qualityChecks.id });
+	return row.id;
+}
+
+/** Note that a rejection was actually sent back for regeneration. */
+export async function markRetried(checkId: string): Promise<void> {
+	await db
+		.update(qualityChecks)
+		.set({ retried: true })
+		.where(eq(qualityChecks.id, checkId));
+}
+
+/** Rejections sent back for regeneration within the retry window. */
+export async function countRetriesUsed(
+	playlistId: string,
+	now = Date.now(),
+): Promise<number> {
+	const [row] = await db
+		.select({ count: sql<number>`count(*)` })
+		.from(qualityChecks)
+		.where(
+			and(
+				eq(qualityChecks.playlistId, playlistId),
+				eq(qualityChecks.retried, true),
+				gte(qualityChecks.createdAt, now - QUALITY_RETRY_WINDOW_MS),
+			),
+		);
+	return row?.count ?? 0;
+}
+
+/** The playlist's own budget when set, otherwise the global setting. */
+export function resolveRetryBudget(
+	playlistBudget: number | null | undefined,
+	globalBudget: number,
+): number {
+	return typeof playlistBudget === "number" ? playlistBudget : globalBudget;
+}
+
+export async function getPlaylistStats(
+	playlistId: string,
+): Promise<PlaylistQualityStats | null> {
+	const [playlist] = await db
+		.select({ qualityRetryBudget: playlists.qualityRetryBudget })
+		.from(playlists)
+		.where(eq(playlists.id, playlistId));
+	if (!playlist) return null;
+
+	const rows = await db
+		.select()
+		.from(qualityChecks)
+		.where(eq(qualityChecks.playlistId, playlistId))
+		.orderBy(desc(qualityChecks.createdAt));
+
+	const windowStart = Date.now() - QUALITY_RETRY_WINDOW_MS;
+	const issueCounts = Object.fromEntries(
+		QUALITY_ISSUES.map((issue) => [issue, 0]),
+	) as Record<QualityIssue, number>;
+	let passed = 0;
+	let retriesUsed = 0;
+	let lastRejection: PlaylistQualityStats["lastRejection"] = null;
+	for (const row of rows) {
+		if (row.passed) {
+			passed++;
+			continue;
+		}
+		if (row.retried && row.createdAt >= windowStart) retriesUsed++;
+		const issues = parseJsonField<QualityIssue[]>(row.issues) ?? [];
+		for (const issue of issues) {
+			if (issue in issueCounts) issueCounts[issue]++;
+		}
+		// Rows are newest first
+		lastRejection ??= {
+			songId: row.songId,
+			issues,
+			reason: row.reason ?? "",
+			createdAt: row.createdAt,
+		};
+	}
+
+	const config = resolveQualityGateConfig(await settingsService.getAll());
+	return {
+		checked: rows.length,
+		passed,
+		rejected: rows.length - passed,
+		issueCounts,
+		retriesUsed,
+		retryBudget: resolveRetryBudget(
+			playlist.qualityRetryBudget,
+			config.retryBudget,
+		),
+		budgetOverridden: typeof playlist.qualityRetryBudget === "number",
+		lastRejection,
+	};
+}
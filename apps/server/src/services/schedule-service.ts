@@ -0,0 +1,209 @@
+import { nextCronTime, parseCron } from "@infinitune/shared/cron";
+import type {
+	CreateHouseScheduleRequest,
+	HouseSchedule as HouseScheduleWire,
+	UpdateHouseScheduleRequest,
+} from "@infinitune/shared/protocol";
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "../db/index";
+import type { HouseSchedule } from "../db/schema";
+import {
+	devices,
+	houseScheduleRuns,
+	houseSchedules,
+	playlists,
+} from "../db/schema";
+import { emit } from "../events/event-bus";
+
+export type ScheduleAction = "start" | "stop";
+
+function nextFireAt(expression: string | null, now: number): number | null {
+	if (!expression) return null;
+	const parsed = parseCron(expression);
+	if (!parsed) return null;
+	return nextCronTime(parsed, new Date(now))?.getTime() ?? null;
+}
+
+function announce(scheduleId: string) {
+	emit("house.schedule_updated", { scheduleId });
+}
+
+// ─── Queries ─────────────────────────────────────────────────────────
+
+export async function getById(id: string): Promise<HouseSchedule | null> {
+	const [row] = await db
+		.select()
+		.from(houseSchedules)
+		.where(eq(houseSchedules.id, id));
+	return row ?? null;
+}
+
+export async function listAll(): Promise<HouseSchedule[]> {
+	return db.select().from(houseSchedules).orderBy(houseSchedules.createdAt);
+}
+
+export async function listEnabled(): Promise<HouseSchedule[]> {
+	return db
+		.select()
+		.from(houseSchedules)
+		.where(eq(houseSchedules.enabled, true));
+}
+
+/** Attach playlist/device names and upcoming fire times for API responses. */
+export async function toWire(
+	rows: HouseSchedule[],
+	now = Date.now(),
+): Promise<HouseScheduleWire[]> {
+	const playlistIds = [...new Set(rows.map((row) => row.playlistId))];
+	const deviceIds = [
+		...new Set(
+			rows
+				.map((row) => row.deviceId)
+				.filter((id): id is string => typeof id === "string"),
+		),
+	];
+	const playlistNames = new Map(
+		playlistIds.length > 0
+			? (
+					await db
+						.select({ id: playlists.id, name: playlists.name })
+						.from(playlists)
+						.where(inArray(playlists.id, playlistIds))
+				).map((row) => [row.id, row.name])
+			: [],
+	);
+	const deviceNames = new Map(
+		deviceIds.length > 0
+			? (
+					await db
+						.select({ id: devices.id, name: devices.name })
+						.from(devices)
+						.where(inArray(devices.id, deviceIds))
+				).map((row) => [row.id, row.name])
+			: [],
+	);
+
+	return rows.map((row) => ({
+		id: row.id,
+		name: row.name,
+		playlistId: row.playlistId,
+		playlistName: playlistNames.get(row.playlistId) ?? null,
+		deviceId: row.deviceId,
+		deviceName: row.deviceId ? (deviceNames.get(row.deviceId) ?? null) : null,
+		startCron: row.startCron,
+		stopCron: row.stopCron,
+		volume: row.volume,
+		fadeInSec: row.fadeInSec,
+		enabled: row.enabled,
+		createdAt: row.createdAt,
+		lastStartedAt: row.lastStartedAt,
+		lastStoppedAt: row.lastStoppedAt,
+		lastError: row.lastError,
+		nextStartAt: row.enabled ? nextFireAt(row.startCron, now) : null,
+		nextStopAt: row.enabled ? nextFireAt(row.stopCron, now) : null,
+	}));
+}
+
+// ─── Mutations ───────────────────────────────────────────────────────
+
+export async function create(
+	ownerUserId: string | null,
+	data: CreateHouseScheduleRequest & { name: string },
+): Promise<HouseSchedule> {
+	const [row] = await db
+		.insert(houseSchedules)
+		.values({
+			ownerUserId,
+			name: data.name,
+			playlistId: data.playlistId,
+			deviceId: data.deviceId ?? null,
+			startCron: data.startCron,
+			stopCron: data.stopCron ?? null,
+			volume: data.volume ?? null,
+			fadeInSec: data.fadeInSec ?? 0,
+			enabled: data.enabled ?? true,
+		})
+		.returning();
+	announce(row.id);
+	return row;
+}
+
+export async function update(
+	id: string,
+	data: UpdateHouseScheduleRequest,
+): Promise<HouseSchedule | null> {
+	const patch: Partial<HouseSchedule> = {};
+	if (data.name !== undefined) patch.name = data.name;
+	if (data.playlistId !== undefined) patch.playlistId = data.playlistId;
+	if (data.deviceId !== undefined) patch.deviceId = data.deviceId;
+	if (data.startCron !== undefined) patch.startCron = data.startCron;
+	if (data.stopCron !== undefined) patch.stopCron = data.stopCron;
+	if (data.volume !== undefined) patch.volume = data.volume;
+	if (data.fadeInSec !== undefined) patch.fadeInSec = data.fadeInSec;
+	if (data.enabled !== undefined) patch.enabled = data.enabled;
+	if (Object.keys(patch).length === 0) return getById(id);
+
+	const [row] = await db
+		.update(houseSchedules)
+		.set(patch)
+		.where(eq(houseSchedules.id, id))
+		.returning();
+	if (row) announce(row.id);
+	return row ?? null;
+}
+
+export async function remove(id: string): Promise<void> {
+	await db.delete(houseSchedules).where(eq(houseSchedules.id, id));
+	announce(id);
+}
+
+// ─── Runs ────────────────────────────────────────────────────────────
+
+/**
+ * Reserve a fire slot. Returns false when the slot was already taken,
+ * e.g. by a run recorded before a restart.
+ */
+export async function claimRun(
+	scheduleId: string,
+	action: ScheduleAction,
+	scheduledFor: number,
+): Promise<boolean> {
+	const inserted = await db
+		.insert(houseScheduleRuns)
+		.values({ scheduleId, action, scheduledFor, executedAt: Date.now() })
+		.onConflictDoNothing()
+		.returning({ id: houseScheduleRuns.id });
+	return inserted.length > 0;
+}
+
+/** Store the outcome of a run on both the run row and its schedule. */
+export async function recordOutcome(
+	scheduleId: string,
+	action: ScheduleAction,
+	scheduledFor: number,
+	error: string | null,
+): Promise<void> {
+	await db
+		.update(houseScheduleRuns)
+		.set({ ok: error === null, error })
+		.where(
+			and(
+				eq(houseScheduleRuns.scheduleId, scheduleId),
+				eq(houseScheduleRuns.action, action),
+				eq(houseScheduleRuns.scheduledFor, scheduledFor),
+			),
+		);
+
+	const now = Date.now();
+	await db
+		.update(houseSchedules)
+		.set(
+			error
+				? { lastError: error }
+				: action === "start"
+					? { lastStartedAt: now, lastError: null }
+					: { lastStoppedAt: now, lastError: null },
+		)
+		.where(eq(houseSchedules.id, scheduleId));
+	announce(scheduleId);
+}
@@ -1,4 +1,8 @@
 import { normalizeAgentReasoningLevel } from "@infinitune/shared/agent-reasoning";
+import {
+	LOUDNESS_NORMALIZATION_SETTING,
+	normalizeLoudnessMode,
+} from "@infinitune/shared/loudness";
 import { normalizeLlmProvider } from "@infinitune/shared/text-llm-profile";
 import { eq } from "drizzle-orm";
 import { db } from "../db/index";
@@ -21,7 +25,9 @@ export async function set(key: string, value: string) {
 			? normalizeLlmProvider(value)
 			: key.startsWith("agentReasoning.")
 				? normalizeAgentReasoningLevel(value)
-				: value;
+				: key === LOUDNESS_NORMALIZATION_SETTING
+					? normalizeLoudnessMode(value)
+					: value;
 	await db
 		.insert(settings)
 		.values({ key, value: storedValue })
@@ -1,16 +1,44 @@
+import {
+	isEarlySkipPosition,
+	type SkipSource,
+	type SongSkip,
+} from "@infinitune/shared/engagement";
+import { isQualityFailure } from "@infinitune/shared/quality-gate";
 import {
 	ACTIVE_STATUSES,
+	SONG_SEARCH_FACETS,
 	type SongCover,
+	type SongSearchFacet,
+	type SongSearchFacetCount,
 	type SongStatus,
+	type SongVariationMode,
 } from "@infinitune/shared/types";
+import type {
+	CompleteSongMetadata,
+	CreateSongVariation,
+	SongSearchQuery,
+} from "@infinitune/shared/validation/song-schemas";
 import { validateSongTransition } from "@infinitune/shared/validation/song-status";
-import { and, desc, eq, inArray, isNotNull, sql } from "drizzle-orm";
+import {
+	and,
+	desc,
+	eq,
+	gt,
+	inArray,
+	isNotNull,
+	lt,
+	or,
+	type SQL,
+	sql,
+} from "drizzle-orm";
 import { db, sqlite } from "../db/index";
 import type { Song } from "../db/schema";
-import { playlists, songs } from "../db/schema";
+import { playlists, songSkips, songs } from "../db/schema";
 import { emit } from "../events/event-bus";
+import type { AudioAnalysis } from "../external/audio-analysis";
 import { songLogger } from "../logger";
 import { parseJsonField, songToWire } from "../wire";
+import * as provenanceService from "./provenance-service";
 
 // ─── Metadata field definitions ──────────────────────────────────────
 
@@ -36,6 +64,40 @@ const METADATA_SCALAR_FIELDS = [
 
 const METADATA_JSON_FIELDS = ["instruments", "tags", "themes"] as const;
 
+type SongInsert = typeof songs.$inferInsert;
+
+/** The metadata columns of a song row; list fields hold JSON text. */
+type SongMetadataColumns = Pick<
+	SongInsert,
+	| (typeof METADATA_SCALAR_FIELDS)[number]
+	| (typeof METADATA_JSON_FIELDS)[number]
+>;
+
+function jsonColumn(value: string[] | undefined): string | undefined {
+	return value && JSON.stringify(value);
+}
+
+/** Insert columns for validated song metadata. */
+function metadataColumns(
+	metadata: Partial<CompleteSongMetadata>,
+): Partial<SongMetadataColumns> {
+	const {
+		instruments,
+		tags,
+		themes,
+		llmProvider: _llmProvider,
+		llmModel: _llmModel,
+		metadataProcessingMs: _metadataProcessingMs,
+		...scalars
+	} = metadata;
+	return {
+		...scalars,
+		instruments: jsonColumn(instruments),
+		tags: jsonColumn(tags),
+		themes: jsonColumn(themes),
+	};
+}
+
 function buildMetadataPatch(
 	body: Record<string, unknown>,
 	extraScalarFields: readonly string[] = [],
@@ -112,6 +174,7 @@ export async function getNeedsPersona() {
 		.slice(0, 20)
 		.map((s) => ({
 			id: s.id,
+			playlistId: s.playlistId,
 			title: s.title ?? "Untitled",
 			artistName: s.artistName,
 			genre: s.genre,
@@ -127,6 +190,364 @@ export async function getNeedsPersona() {
 		}));
 }
 
+// ─── Library search ──────────────────────────────────────────────────
+
+export class InvalidSearchCursorError extends Error {
+	constructor() {
+		super("Invalid search cursor");
+		this.name = "InvalidSearchCursorError";
+	}
+}
+
+const RATING_FACET = sql<string>`case when ${songs.userRating} = 'up' then 'liked' when ${songs.userRating} = 'down' then 'disliked' when coalesce(${songs.earlySkipCount}, 0) > 0 then 'skipped' else 'unrated' end`;
+
+const FACET_COLUMNS: Record<SongSearchFacet, SQL<string>> = {
+	genres: sql`${songs.genre}`,
+	moods: sql`${songs.mood}`,
+	energies: sql`${songs.energy}`,
+	eras: sql`${songs.era}`,
+	languages: sql`${songs.language}`,
+	ratings: RATING_FACET,
+	playlists: sql`${songs.playlistId}`,
+};
+
+/** Turn free text into an FTS5 query: every word must match as a prefix. */
+function toFtsQuery(text: string): string | null {
+	const terms = text
+		.replace(/[^\p{L}\p{N}]+/gu, " ")
+		.split(" ")
+		.filter(Boolean);
+	if (terms.length === 0) return null;
+	return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+function encodeSearchCursor(row: { createdAt: number; id: string }): string {
+	return Buffer.from(`${row.createdAt}:${row.id}`).toString("base64url");
+}
+
+function decodeSearchCursor(cursor: string): { createdAt: number; id: string } {
+	const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+	const separator = decoded.indexOf(":");
+	const createdAt = Number(decoded.slice(0, separator));
+	const id = decoded.slice(separator + 1);
+	if (separator <= 0 || !Number.isFinite(createdAt) || !id) {
+		throw new InvalidSearchCursorError();
+	}
+	return { createdAt, id };
+}
+
+/** WHERE clauses for a search, optionally leaving one facet unfiltered for its counts. */
+function buildSearchConditions(
+	query: SongSearchQuery,
+	skipFacet?: SongSearchFacet,
+): SQL[] {
+	const conditions: SQL[] = [isNotNull(songs.title)];
+	const ftsQuery = query.q ? toFtsQuery(query.q) : null;
+	if (ftsQuery) {
+		conditions.push(
+			sql`${songs.id} in (select song_id from songs_fts where songs_fts match ${ftsQuery})`,
+		);
+	}
+	for (const facet of SONG_SEARCH_FACETS) {
+		const values = query[facet];
+		if (facet === skipFacet || values.length === 0) continue;
+		conditions.push(inArray(FACET_COLUMNS[facet], values));
+	}
+	return conditions;
+}
+
+async function countFacet(
+	query: SongSearchQuery,
+	facet: SongSearchFacet,
+): Promise<SongSearchFacetCount[]> {
+	const column = FACET_COLUMNS[facet];
+	const rows = await db
+		.select({ value: column, count: sql<number>`count(*)` })
+		.from(songs)
+		.where(and(...buildSearchConditions(query, facet)))
+		.groupBy(column);
+	return rows
+		.filter((row) => !!row.value)
+		.sort((a, b) => a.value.localeCompare(b.value));
+}
+
+/**
+ * Full-text + faceted library search, newest first, cursor-paginated.
+ * Throws InvalidSearchCursorError for malformed cursors.
+ */
+export async function search(query: SongSearchQuery) {
+	const conditions = buildSearchConditions(query);
+	const pageConditions = [...conditions];
+	if (query.cursor) {
+		const cursor = decodeSearchCursor(query.cursor);
+		pageConditions.push(
+			or(
+				lt(songs.createdAt, cursor.createdAt),
+				and(eq(songs.createdAt, cursor.createdAt), lt(songs.id, cursor.id)),
+			) as SQL,
+		);
+	}
+
+	const rows = await db
+		.select()
+		.from(songs)
+		.where(and(...pageConditions))
+		.orderBy(desc(songs.createdAt), desc(songs.id))
+		.limit(query.limit + 1);
+	const page = rows.slice(0, query.limit);
+
+	const [{ total }] = await db
+		.select({ total: sql<number>`count(*)` })
+		.from(songs)
+		.where(and(...conditions));
+
+	const facetEntries = await Promise.all(
+		SONG_SEARCH_FACETS.map(
+			async (facet) => [facet, await countFacet(query, facet)] as const,
+		),
+	);
+
+	return {
+		items: page.map(songToWire),
+		nextCursor:
+			rows.length > query.limit
+				? encodeSearchCursor(page[page.length - 1])
+				: null,
+		total,
+		facets: Object.fromEntries(facetEntries) as Record<
+			SongSearchFacet,
+			SongSearchFacetCount[]
+		>,
+	};
+}
+
+// ─── Variations ──────────────────────────────────────────────────────
+
+export class SongVariationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "SongVariationError";
+	}
+}
+
+const VARIATION_TITLE_SUFFIX: Record<SongVariationMode, string> = {
+	resing: "Alt Vocal",
+	arrangement: "Alt Arrangement",
+	extend: "Extended",
+	regenerate: "Rerender",
+};
+
+// Without it an arrangement with no prompt would just reroll the parent
+const ARRANGEMENT_DIRECTIVE =
+	"reimagined arrangement, new instrumentation and groove";
+
+const VARIATION_SOURCE_STATUSES = new Set(["ready", "played"]);
+const MAX_FAMILY_DEPTH = 32;
+
+function appendToCaption(caption: string | null, addition?: string): string {
+	const base = caption?.trim() ?? "";
+	if (!addition) return base;
+	return base ? `${base}, ${addition}` : addition;
+}
+
+/**
+ * Derive a child song's metadata from its parent. Lyrics, BPM, key, time
+ * signature and the rest of the sonic identity are inherited; only the
+ * dimension named by `mode` changes.
+ */
+export function buildVariationMetadata(
+	parent: Song,
+	input: CreateSongVariation,
+): SongMetadataColumns {
+	const parentDuration = parent.audioDuration ?? 240;
+	let vocalStyle = parent.vocalStyle;
+	let caption = appendToCaption(parent.caption, input.prompt);
+	let audioDuration = parentDuration;
+
+	switch (input.mode) {
+		case "resing":
+			vocalStyle = input.vocalStyle ?? parent.vocalStyle;
+			caption = appendToCaption(
+				parent.caption,
+				[vocalStyle && `${vocalStyle} vocals`, input.prompt]
+					.filter(Boolean)
+					.join(", "),
+			);
+			break;
+		case "arrangement":
+			caption = appendToCaption(
+				parent.caption,
+				[ARRANGEMENT_DIRECTIVE, input.prompt].filter(Boolean).join(", "),
+			);
+			break;
+		case "regenerate":
+			// Identical inputs: the recorded ACE inputs are replayed as-is
+			caption = parent.caption ?? "";
+			break;
+		case "extend":
+			audioDuration =
+				input.audioDuration ?? Math.min(600, Math.round(parentDuration * 1.5));
+			if (audioDuration <= parentDuration) {
+				throw new SongVariationError(
+					`Extended version must be longer than ${Math.round(parentDuration)}s`,
+				);
+			}
+			break;
+	}
+
+	const baseTitle = parent.title ?? "Untitled";
+	return {
+		title: `${baseTitle} (${VARIATION_TITLE_SUFFIX[input.mode]})`,
+		artistName: parent.artistName,
+		genre: parent.genre,
+		subGenre: parent.subGenre,
+		lyrics: parent.lyrics,
+		caption,
+		coverPrompt: parent.coverPrompt,
+		bpm: parent.bpm,
+		keyScale: parent.keyScale,
+		timeSignature: parent.timeSignature,
+		audioDuration,
+		vocalStyle,
+		mood: parent.mood,
+		energy: parent.energy,
+		era: parent.era,
+		language: parent.language,
+		description: parent.description,
+		instruments: parent.instruments,
+		tags: parent.tags,
+		themes: parent.themes,
+	};
+}
+
+/**
+ * Order index for a variation queued after `anchor`: behind any variations
+ * or requests already waiting there, ahead of the next regular song.
+ */
+async function nextVariationSlot(
+	playlistId: string,
+	anchor: number,
+): Promise<number> {
+	const after = await db
+		.select({ orderIndex: songs.orderIndex, isInterrupt: songs.isInterrupt })
+		.from(songs)
+		.where(and(eq(songs.playlistId, playlistId), gt(songs.orderIndex, anchor)))
+		.orderBy(songs.orderIndex);
+	let from = anchor;
+	for (const song of after) {
+		if (!song.isInterrupt) return (from + song.orderIndex) / 2;
+		from = song.orderIndex;
+	}
+	return from + 0.5;
+}
+
+/**
+ * Queue a variation of a finished song. The child goes straight to
+ * `metadata_ready` (reusing the parent's cover) and is flagged as an
+ * interrupt so the worker renders it ahead of the regular buffer.
+ */
+export async function createVariation(
+	parentId: string,
+	input: CreateSongVariation,
+) {
+	const parent = await getById(parentId);
+	if (!parent) return null;
+	if (!VARIATION_SOURCE_STATUSES.has(parent.status)) {
+		throw new SongVariationError("Only finished songs can be varied");
+	}
+
+	const playlistId = input.playlistId ?? parent.playlistId;
+	const [playlist] = await db
+		.select()
+		.from(playlists)
+		.where(eq(playlists.id, playlistId));
+	if (!playlist) throw new SongVariationError("Playlist not found");
+	if (playlist.status === "closed") {
+		throw new SongVariationError(
+			"Playlist is closed — pick an active playlist for the variation",
+		);
+	}
+
+	if (
+		input.mode === "regenerate" &&
+		!(await provenanceService.canRegenerate(parent.id))
+	) {
+		throw new SongVariationError(
+			"This song has no recorded inputs to regenerate from",
+		);
+	}
+
+	const metadata = buildVariationMetadata(parent, input);
+	const anchor = Math.max(
+		playlist.currentOrderIndex ?? 0,
+		parent.playlistId === playlistId ? parent.orderIndex : 0,
+	);
+	const orderIndex = await nextVariationSlot(playlistId, anchor);
+
+	const [row] = await db
+		.insert(songs)
+		.values({
+			playlistId,
+			orderIndex,
+			status: "metadata_ready",
+			isInterrupt: true,
+			interruptPrompt:
+				input.prompt ||
+				`${VARIATION_TITLE_SUFFIX[input.mode]} of "${parent.title}"`,
+			promptEpoch: playlist.promptEpoch ?? 0,
+			llmProvider: parent.llmProvider,
+			llmModel: parent.llmModel,
+			coverUrl: parent.coverUrl,
+			coverWebpUrl: parent.coverWebpUrl,
+			coverJxlUrl: parent.coverJxlUrl,
+			parentSongId: parent.id,
+			variationMode: input.mode,
+			generationStartedAt: Date.now(),
+			...metadata,
+		})
+		.returning();
+	if (input.mode === "regenerate") {
+		await provenanceService.copyForRegeneration(parent.id, row.id);
+	}
+
+	emit("song.created", {
+		songId: row.id,
+		playlistId,
+		status: "metadata_ready",
+	});
+
+	return songToWire(row);
+}
+
+/** The root original of a song plus every variation descending from it. */
+export async function getFamily(id: string) {
+	let root = await getById(id);
+	if (!root) return null;
+	for (let depth = 0; root.parentSongId && depth < MAX_FAMILY_DEPTH; depth++) {
+		const parent = await getById(root.parentSongId);
+		if (!parent) break;
+		root = parent;
+	}
+
+	const members: Song[] = [root];
+	let frontier = [root.id];
+	for (
+		let depth = 0;
+		frontier.length > 0 && depth < MAX_FAMILY_DEPTH;
+		depth++
+	) {
+		const children = await db
+			.select()
+			.from(songs)
+			.where(inArray(songs.parentSongId, frontier))
+			.orderBy(songs.createdAt);
+		members.push(...children);
+		frontier = children.map((child) => child.id);
+	}
+
+	return { rootId: root.id, members: members.map(songToWire) };
+}
+
 // ─── Mutations ───────────────────────────────────────────────────────
 
 export async function createPending(
@@ -160,23 +581,42 @@ export async function createPending(
 	return songToWire(row);
 }
 
+/**
+ * Queue a listener's one-off request as an interrupt right after the
+ * playlist's current position, in the current prompt epoch.
+ */
+export async function requestSong(playlistId: string, prompt: string) {
+	const [playlist] = await db
+		.select()
+		.from(playlists)
+		.where(eq(playlists.id, playlistId));
+	if (!playlist) return null;
+	return await createPending(
+		playlistId,
+		(playlist.currentOrderIndex ?? 0) + 0.5,
+		{
+			isInterrupt: true,
+			interruptPrompt: prompt,
+			promptEpoch: playlist.promptEpoch ?? 0,
+		},
+	);
+}
+
 export async function createWithMetadata(
 	playlistId: string,
 	orderIndex: number,
-	metadata: Record<string, unknown>,
+	metadata: Partial<CompleteSongMetadata> & { promptEpoch?: number },
 ) {
-	const patch = buildMetadataPatch(metadata);
-
 	const [row] = await db
 		.insert(songs)
 		.values({
 			playlistId,
 			orderIndex,
 			status: "metadata_ready",
-			promptEpoch: metadata.promptEpoch as number | undefined,
+			promptEpoch: metadata.promptEpoch,
 			generationStartedAt: Date.now(),
-			...patch,
-		} as typeof songs.$inferInsert)
+			...metadataColumns(metadata),
+		})
 		.returning();
 
 	emit("song.created", {
@@ -294,7 +734,11 @@ export async function updateStatus(
 	});
 }
 
-export async function updateAceTask(id: string, aceTaskId: string) {
+export async function updateAceTask(
+	id: string,
+	aceTaskId: string,
+	aceEndpoint: string | null = null,
+) {
 	const [current] = await db.select().from(songs).where(eq(songs.id, id));
 	if (!current) return;
 
@@ -303,6 +747,7 @@ export async function updateAceTask(id: string, aceTaskId: string) {
 		.set({
 			aceTaskId,
 			aceSubmittedAt: Date.now(),
+			aceEndpoint,
 			status: "generating_audio",
 		})
 		.where(eq(songs.id, id));
@@ -341,16 +786,23 @@ export async function markReady(
 	});
 }
 
+/**
+ * Park a failed song in `retry_pending`, or `error` once it has used its
+ * three retries. `retry: false` skips straight to `error` — used when the
+ * playlist's quality retry budget is spent. Resolves true when the song
+ * was queued for a retry.
+ */
 export async function markError(
 	id: string,
 	errorMessage: string,
 	erroredAtStatus?: string,
-) {
+	options: { retry?: boolean } = {},
+): Promise<boolean> {
 	const [song] = await db.select().from(songs).where(eq(songs.id, id));
-	if (!song) return;
+	if (!song) return false;
 
 	const retryCount = song.retryCount || 0;
-	const canRetry = retryCount < 3;
+	const canRetry = options.retry !== false && retryCount < 3;
 	const newStatus = canRetry ? "retry_pending" : "error";
 	const fromStatus = song.status;
 	const effectiveErroredAtStatus = erroredAtStatus || fromStatus;
@@ -381,20 +833,26 @@ export async function markError(
 		from: fromStatus,
 		to: newStatus,
 	});
+	return canRetry;
 }
 
 export async function retryErrored(id: string) {
 	const [song] = await db.select().from(songs).where(eq(songs.id, id));
 	if (!song || song.status !== "retry_pending") return;
 
+	// Rejected renders must be generated again, not re-saved or re-polled
 	const providerAudioFailure =
 		/^(audio generation failed|ace generation failed)/i.test(
 			song.errorMessage ?? "",
-		);
+		) || isQualityFailure(song.errorMessage);
 	let revertTo: SongStatus = "metadata_ready";
 	if (song.erroredAtStatus === "generating_metadata") {
 		revertTo = "pending";
-	} else if (song.erroredAtStatus === "saving" && song.aceAudioPath) {
+	} else if (
+		song.erroredAtStatus === "saving" &&
+		song.aceAudioPath &&
+		!providerAudioFailure
+	) {
 		revertTo = "saving";
 	} else if (
 		(song.erroredAtStatus === "generating_audio" ||
@@ -415,6 +873,7 @@ export async function retryErrored(id: string) {
 	if (revertTo === "metadata_ready") {
 		patch.aceTaskId = null;
 		patch.aceSubmittedAt = null;
+		patch.aceEndpoint = null;
 		patch.aceAudioPath = null;
 	}
 
@@ -465,6 +924,7 @@ export async function revertTransient(id: string) {
 				status: "metadata_ready",
 				aceTaskId: null,
 				aceSubmittedAt: null,
+				aceEndpoint: null,
 				generationStartedAt: Date.now(),
 			})
 			.where(eq(songs.id, id));
@@ -608,6 +1068,34 @@ export async function updateAudioDuration(id: string, audioDuration: number) {
 	await db.update(songs).set({ audioDuration }).where(eq(songs.id, id));
 }
 
+export async function updateLoudness(
+	id: string,
+	loudness: {
+		loudnessLufs: number;
+		truePeakDbtp: number;
+		replayGainDb: number;
+	},
+) {
+	await db.update(songs).set(loudness).where(eq(songs.id, id));
+}
+
+export async function updateAnalysis(
+	id: string,
+	analysis: AudioAnalysis,
+	analysisMismatch: string | null,
+) {
+	await db
+		.update(songs)
+		.set({
+			waveformPeaks: JSON.stringify(analysis.waveformPeaks),
+			energyCurve: JSON.stringify(analysis.energyCurve),
+			measuredBpm: analysis.measuredBpm,
+			measuredKey: analysis.measuredKey,
+			analysisMismatch,
+		})
+		.where(eq(songs.id, id));
+}
+
 export async function updateCoverProcessingMs(
 	id: string,
 	coverProcessingMs: number,
@@ -635,6 +1123,70 @@ export async function addPlayDuration(id: string, durationMs: number) {
 		.where(eq(songs.id, id));
 }
 
+/**
+ * Record a skip and bump the song's skip counters. Returns the stored skip,
+ * or null when the song no longer exists.
+ */
+export async function recordSkip(
+	id: string,
+	input: {
+		positionSec: number;
+		durationSec?: number | null;
+		deviceId?: string | null;
+		deviceName?: string | null;
+		source: SkipSource;
+	},
+): Promise<SongSkip | null> {
+	const [song] = await db
+		.select({
+			playlistId: songs.playlistId,
+			audioDuration: songs.audioDuration,
+		})
+		.from(songs)
+		.where(eq(songs.id, id));
+	if (!song) return null;
+
+	const positionSec = Math.max(0, input.positionSec);
+	const durationSec = input.durationSec || song.audioDuration || null;
+	const early = isEarlySkipPosition(positionSec, durationSec);
+	const [row] = await db
+		.insert(songSkips)
+		.values({
+			songId: id,
+			playlistId: song.playlistId,
+			positionSec,
+			durationSec,
+			deviceId: input.deviceId ?? null,
+			deviceName: input.deviceName ?? null,
+			source: input.source,
+			early,
+		})
+		.returning();
+	await db
+		.update(songs)
+		.set({
+			skipCount: sql`coalesce(${songs.skipCount}, 0) + 1`,
+			...(early
+				? { earlySkipCount: sql`coalesce(${songs.earlySkipCount}, 0) + 1` }
+				: {}),
+		})
+		.where(eq(songs.id, id));
+
+	emit("song.metadata_updated", { songId: id, playlistId: song.playlistId });
+	return { ...row, source: row.source as SkipSource };
+}
+
+/** Newest first. */
+export async function listSkips(id: string, limit = 20): Promise<SongSkip[]> {
+	const rows = await db
+		.select()
+		.from(songSkips)
+		.where(eq(songSkips.songId, id))
+		.orderBy(desc(songSkips.createdAt))
+		.limit(limit);
+	return rows.map((row) => ({ ...row, source: row.source as SkipSource }));
+}
+
 export async function reorderSong(id: string, newOrderIndex: number) {
 	await db
 		.update(songs)
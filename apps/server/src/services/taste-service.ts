@@ -0,0 +1,84 @@
+import {
+	deriveTasteProfile,
+	describeTasteProfile,
+	type TasteProfile,
+} from "@infinitune/shared/taste-profile";
+import { and, desc, eq, gt, isNotNull, isNull, or } from "drizzle-orm";
+import { db } from "../db/index";
+import { playlists, songs } from "../db/schema";
+import { parseJsonField } from "../wire";
+
+/** Newest signal-bearing songs considered per profile. */
+const MAX_PROFILE_SONGS = 2000;
+
+/**
+ * Taste across every playlist the user owns. A null user gets the local
+ * profile built from unowned playlists, which is what signed-out and
+ * single-user installs create.
+ */
+export async function getTasteProfile(
+	userId: string | null,
+): Promise<TasteProfile> {
+	const rows = await db
+		.select({
+			genre: songs.genre,
+			subGenre: songs.subGenre,
+			mood: songs.mood,
+			energy: songs.energy,
+			bpm: songs.bpm,
+			vocalStyle: songs.vocalStyle,
+			themes: songs.themes,
+			userRating: songs.userRating,
+			playDurationMs: songs.playDurationMs,
+			listenCount: songs.listenCount,
+			audioDuration: songs.audioDuration,
+			earlySkipCount: songs.earlySkipCount,
+			createdAt: songs.createdAt,
+		})
+		.from(songs)
+		.innerJoin(playlists, eq(songs.playlistId, playlists.id))
+		.where(
+			and(
+				userId
+					? eq(playlists.ownerUserId, userId)
+					: isNull(playlists.ownerUserId),
+				or(
+					isNotNull(songs.userRating),
+					gt(songs.listenCount, 0),
+					gt(songs.playDurationMs, 0),
+					gt(songs.earlySkipCount, 0),
+				),
+			),
+		)
+		.orderBy(desc(songs.createdAt))
+		.limit(MAX_PROFILE_SONGS);
+
+	return deriveTasteProfile(
+		rows.map((row) => ({
+			...row,
+			themes: parseJsonField<string[]>(row.themes) ?? null,
+		})),
+		{ userId },
+	);
+}
+
+/** The profile of whoever owns the playlist. */
+export async function getTasteProfileForPlaylist(
+	playlistId: string,
+): Promise<TasteProfile | null> {
+	const [playlist] = await db
+		.select({ ownerUserId: playlists.ownerUserId })
+		.from(playlists)
+		.where(eq(playlists.id, playlistId));
+	if (!playlist) return null;
+	return await getTasteProfile(playlist.ownerUserId);
+}
+
+/** Prompt-ready summary, or undefined when there is nothing to say yet. */
+export async function getTasteHint(
+	userId: string | null,
+): Promise<string | undefined> {
+	const profile = await getTasteProfile(userId);
+	if (profile.songCount === 0) return undefined;
+	return describeTasteProfile(profile) || undefined;
+}
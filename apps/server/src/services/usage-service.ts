@@ -0,0 +1,272 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+	type BudgetWindowUsage,
+	type DailyUsage,
+	emptyUsageTotals,
+	findExceededBudgets,
+	type PlaylistBudget,
+	type PlaylistUsageStats,
+	remainingSongAllowance,
+	type UsageKind,
+	type UsageTotals,
+} from "@infinitune/shared/usage";
+import { and, desc, eq, gte, sql } from "drizzle-orm";
+import { db } from "../db/index";
+import { playlists, songs, usageEvents } from "../db/schema";
+import { logger } from "../logger";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const DAILY_HISTORY_DAYS = 14;
+
+// ─── Attribution scope ──────────────────────────────────────────────
+
+interface UsageScope {
+	playlistId: string;
+	songId?: string | null;
+}
+
+const scopeStorage = new AsyncLocalStorage<UsageScope>();
+
+/**
+ * Attribute every provider call made inside `fn` to a playlist (and song).
+ * LLM clients record usage deep in the call stack, so the scope is carried
+ * through async context rather than threaded through every signature.
+ */
+export function runWithUsageScope<T>(scope: UsageScope, fn: () => T): T {
+	return scopeStorage.run(scope, fn);
+}
+
+export function getUsageScope(): UsageScope | undefined {
+	return scopeStorage.getStore();
+}
+
+// ─── Recording ──────────────────────────────────────────────────────
+
+interface UsageInput {
+	kind: UsageKind;
+	provider: string;
+	model?: string | null;
+	inputTokens?: number;
+	outputTokens?: number;
+	costUsd?: number;
+	gpuSeconds?: number;
+	/** Overrides the ambient scope. */
+	playlistId?: string | null;
+	songId?: string | null;
+}
+
+function finite(value: number | undefined): number {
+	return typeof value === "number" && Number.isFinite(value) && value > 0
+		? value
+		: 0;
+}
+
+async function insertUsage(input: UsageInput): Promise<void> {
+	const scope = getUsageScope();
+	await db.insert(usageEvents).values({
+		playlistId: input.playlistId ?? scope?.playlistId ?? null,
+		songId: input.songId ?? scope?.songId ?? null,
+		kind: input.kind,
+		provider: input.provider,
+		model: input.model || null,
+		inputTokens: Math.round(finite(input.inputTokens)),
+		outputTokens: Math.round(finite(input.outputTokens)),
+		costUsd: finite(input.costUsd),
+		gpuSeconds: finite(input.gpuSeconds),
+	});
+}
+
+/** Never rejects: accounting must not fail a generation. */
+function recordUsage(input: UsageInput): Promise<void> {
+	return insertUsage(input).catch((err) => {
+		logger.warn(
+			{ err, kind: input.kind, provider: input.provider },
+			"Failed to record usage",
+		);
+	});
+}
+
+export function recordLlmUsage(input: {
+	provider: string;
+	model?: string | null;
+	inputTokens?: number;
+	outputTokens?: number;
+	costUsd?: number;
+}): Promise<void> {
+	return recordUsage({ kind: "llm", ...input });
+}
+
+export function recordImageCall(input: {
+	provider: string;
+	model?: string | null;
+	songId?: string | null;
+	playlistId?: string | null;
+}): Promise<void> {
+	return recordUsage({ kind: "image", ...input });
+}
+
+export function recordAudioRender(input: {
+	gpuSeconds: number;
+	model?: string | null;
+	songId?: string | null;
+	playlistId?: string | null;
+}): Promise<void> {
+	return recordUsage({ kind: "audio", provider: "ace-step", ...input });
+}
+
+/**
+ * GPU time for one ACE render. ACE reports per-stage `time_costs`; a total
+ * key wins when present, otherwise the stages are summed. Falls back to
+ * wall-clock processing time when the server reports nothing.
+ */
+export function aceGpuSeconds(
+	timeCosts: Record<string, number> | undefined,
+	fallbackMs?: number,
+): number {
+	const entries = Object.entries(timeCosts ?? {}).filter(
+		([, value]) => Number.isFinite(value) && value > 0,
+	);
+	const totals = entries.filter(([key]) => /total/i.test(key));
+	if (totals.length > 0) {
+		return Math.max(...totals.map(([, value]) => value));
+	}
+	if (entries.length > 0) {
+		return entries.reduce((sum, [, value]) => sum + value, 0);
+	}
+	return fallbackMs ? fallbackMs / 1000 : 0;
+}
+
+// ─── Rollups ────────────────────────────────────────────────────────
+
+const totalsColumns = {
+	llmCalls: sql<number>`coalesce(sum(case when ${usageEvents.kind} = 'llm' then 1 else 0 end), 0)`,
+	inputTokens: sql<number>`coalesce(sum(${usageEvents.inputTokens}), 0)`,
+	outputTokens: sql<number>`coalesce(sum(${usageEvents.outputTokens}), 0)`,
+	imageCalls: sql<number>`coalesce(sum(case when ${usageEvents.kind} = 'image' then 1 else 0 end), 0)`,
+	audioRenders: sql<number>`coalesce(sum(case when ${usageEvents.kind} = 'audio' then 1 else 0 end), 0)`,
+	gpuSeconds: sql<number>`coalesce(sum(${usageEvents.gpuSeconds}), 0)`,
+	costUsd: sql<number>`coalesce(sum(${usageEvents.costUsd}), 0)`,
+};
+
+function toTotals(row: Partial<UsageTotals> | undefined): UsageTotals {
+	const totals = emptyUsageTotals();
+	if (!row) return totals;
+	for (const key of Object.keys(totals) as (keyof UsageTotals)[]) {
+		totals[key] = Number(row[key] ?? 0);
+	}
+	return totals;
+}
+
+export function toPlaylistBudget(playlist: {
+	budgetSongsPerHour: number | null;
+	budgetTokensPerDay: number | null;
+	budgetGpuMinutesPerDay: number | null;
+}): PlaylistBudget {
+	return {
+		songsPerHour: playlist.budgetSongsPerHour,
+		tokensPerDay: playlist.budgetTokensPerDay,
+		gpuMinutesPerDay: playlist.budgetGpuMinutesPerDay,
+	};
+}
+
+export async function getWindowUsage(
+	playlistId: string,
+	now = Date.now(),
+): Promise<BudgetWindowUsage> {
+	const [[songRow], [usageRow]] = await Promise.all([
+		db
+			.select({ count: sql<number>`count(*)` })
+			.from(songs)
+			.where(
+				and(
+					eq(songs.playlistId, playlistId),
+					gte(songs.createdAt, now - HOUR_MS),
+				),
+			),
+		db
+			.select({
+				tokens: sql<number>`coalesce(sum(${usageEvents.inputTokens} + ${usageEvents.outputTokens}), 0)`,
+				gpuSeconds: sql<number>`coalesce(sum(${usageEvents.gpuSeconds}), 0)`,
+			})
+			.from(usageEvents)
+			.where(
+				and(
+					eq(usageEvents.playlistId, playlistId),
+					gte(usageEvents.createdAt, now - DAY_MS),
+				),
+			),
+	]);
+	return {
+		songsLastHour: Number(songRow?.count ?? 0),
+		tokensLastDay: Number(usageRow?.tokens ?? 0),
+		gpuSecondsLastDay: Number(usageRow?.gpuSeconds ?? 0),
+	};
+}
+
+/**
+ * How many songs the playlist may add right now: zero once any budget is
+ * spent, otherwise whatever is left of the hourly song budget.
+ */
+export async function getSongAllowance(
+	playlist: Parameters<typeof toPlaylistBudget>[0] & { id: string },
+): Promise<{ allowance: number; exceeded: PlaylistUsageStats["exceeded"] }> {
+	const budget = toPlaylistBudget(playlist);
+	if (
+		budget.songsPerHour === null &&
+		budget.tokensPerDay === null &&
+		budget.gpuMinutesPerDay === null
+	) {
+		return { allowance: Number.POSITIVE_INFINITY, exceeded: [] };
+	}
+	const window = await getWindowUsage(playlist.id);
+	return {
+		allowance: remainingSongAllowance(budget, window),
+		exceeded: findExceededBudgets(budget, window),
+	};
+}
+
+export async function getPlaylistUsage(
+	playlistId: string,
+): Promise<PlaylistUsageStats | null> {
+	const [playlist] = await db
+		.select({
+			budgetSongsPerHour: playlists.budgetSongsPerHour,
+			budgetTokensPerDay: playlists.budgetTokensPerDay,
+			budgetGpuMinutesPerDay: playlists.budgetGpuMinutesPerDay,
+		})
+		.from(playlists)
+		.where(eq(playlists.id, playlistId));
+	if (!playlist) return null;
+
+	const day = sql<string>`strftime('%Y-%m-%d', ${usageEvents.createdAt} / 1000, 'unixepoch', 'localtime')`;
+	const [[totalRow], dailyRows, window] = await Promise.all([
+		db
+			.select(totalsColumns)
+			.from(usageEvents)
+			.where(eq(usageEvents.playlistId, playlistId)),
+		db
+			.select({ day, ...totalsColumns })
+			.from(usageEvents)
+			.where(
+				and(
+					eq(usageEvents.playlistId, playlistId),
+					gte(usageEvents.createdAt, Date.now() - DAILY_HISTORY_DAYS * DAY_MS),
+				),
+			)
+			.groupBy(day)
+			.orderBy(desc(day)),
+		getWindowUsage(playlistId),
+	]);
+
+	const budget = toPlaylistBudget(playlist);
+	return {
+		total: toTotals(totalRow),
+		window,
+		daily: dailyRows.map(
+			(row): DailyUsage => ({ day: row.day, ...toTotals(row) }),
+		),
+		budget,
+		exceeded: findExceededBudgets(budget, window),
+	};
+}
@@ -0,0 +1,282 @@
+import { randomBytes } from "node:crypto";
+import type {
+	CreateWebhookInput,
+	UpdateWebhookInput,
+} from "@infinitune/shared/validation/webhook-schemas";
+import type {
+	CreatedWebhook,
+	WebhookDeliveryStatus,
+	WebhookDelivery as WebhookDeliveryWire,
+	Webhook as WebhookWire,
+} from "@infinitune/shared/webhooks";
+import { and, desc, eq, inArray, isNull, lt, lte, or } from "drizzle-orm";
+import { db } from "../db/index";
+import type { Webhook, WebhookDelivery } from "../db/schema";
+import { webhookDeliveries, webhooks } from "../db/schema";
+import { emit } from "../events/event-bus";
+import { parseJsonField } from "../wire";
+
+const SECRET_PREFIX = "whsec_";
+
+function createWebhookSecret(): string {
+	return `${SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+function announce(webhookId: string) {
+	emit("webhook.updated", { webhookId });
+}
+
+export function toWire(row: Webhook): WebhookWire {
+	return {
+		id: row.id,
+		name: row.name,
+		url: row.url,
+		secretPrefix: row.secret.slice(0, SECRET_PREFIX.length + 4),
+		events: parseJsonField<string[]>(row.events) ?? [],
+		playlistId: row.playlistId,
+		enabled: row.enabled,
+		createdAt: row.createdAt,
+		lastDeliveryAt: row.lastDeliveryAt,
+		lastDeliveryStatus:
+			(row.lastDeliveryStatus as WebhookDeliveryStatus | null) ?? null,
+	};
+}
+
+/** Wire shape with the full secret, for the responses that mint one. */
+export function toCreatedWire(row: Webhook): CreatedWebhook {
+	return { ...toWire(row), secret: row.secret };
+}
+
+export function deliveryToWire(row: WebhookDelivery): WebhookDeliveryWire {
+	return {
+		id: row.id,
+		webhookId: row.webhookId,
+		event: row.event,
+		status: row.status as WebhookDeliveryStatus,
+		attempts: row.attempts,
+		nextAttemptAt: row.nextAttemptAt,
+		lastAttemptAt: row.lastAttemptAt,
+		responseStatus: row.responseStatus,
+		error: row.error,
+		createdAt: row.createdAt,
+		deliveredAt: row.deliveredAt,
+	};
+}
+
+// ─── Webhooks ────────────────────────────────────────────────────────
+
+export async function getById(id: string): Promise<Webhook | null> {
+	const [row] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+	return row ?? null;
+}
+
+export async function listAll(): Promise<Webhook[]> {
+	return db.select().from(webhooks).orderBy(webhooks.createdAt);
+}
+
+export async function listEnabled(): Promise<Webhook[]> {
+	return db.select().from(webhooks).where(eq(webhooks.enabled, true));
+}
+
+export async function create(input: CreateWebhookInput): Promise<Webhook> {
+	const [row] = await db
+		.insert(webhooks)
+		.values({
+			name: input.name,
+			url: input.url,
+			secret: createWebhookSecret(),
+			events: JSON.stringify(input.events),
+			playlistId: input.playlistId ?? null,
+			enabled: input.enabled ?? true,
+		})
+		.returning();
+	announce(row.id);
+	return row;
+}
+
+export async function update(
+	id: string,
+	input: UpdateWebhookInput,
+): Promise<Webhook | null> {
+	const patch: Partial<Webhook> = {};
+	if (input.name !== undefined) patch.name = input.name;
+	if (input.url !== undefined) patch.url = input.url;
+	if (input.events !== undefined) patch.events = JSON.stringify(input.events);
+	if (input.playlistId !== undefined) patch.playlistId = input.playlistId;
+	if (input.enabled !== undefined) patch.enabled = input.enabled;
+	if (input.rotateSecret) patch.secret = createWebhookSecret();
+	if (Object.keys(patch).length === 0) return getById(id);
+
+	const [row] = await db
+		.update(webhooks)
+		.set(patch)
+		.where(eq(webhooks.id, id))
+		.returning();
+	if (row) announce(row.id);
+	return row ?? null;
+}
+
+export async function remove(id: string): Promise<void> {
+	await db.delete(webhooks).where(eq(webhooks.id, id));
+	announce(id);
+}
+
+// ─── Deliveries ──────────────────────────────────────────────────────
+
+export async function createDelivery(input: {
+	id: string;
+	webhookId: string;
+	event: string;
+	payload: string;
+}): Promise<WebhookDelivery> {
+	const now = Date.now();
+	const [row] = await db
+		.insert(webhookDeliveries)
+		.values({
+			id: input.id,
+			createdAt: now,
+			webhookId: input.webhookId,
+			event: input.event,
+			payload: input.payload,
+			status: "pending",
+			nextAttemptAt: now,
+		})
+		.returning();
+	return row;
+}
+
+export async function getDelivery(id: string): Promise<WebhookDelivery | null> {
+	const [row] = await db
+		.select()
+		.from(webhookDeliveries)
+		.where(eq(webhookDeliveries.id, id));
+	return row ?? null;
+}
+
+export async function listDeliveries(
+	webhookId: string,
+	limit = 50,
+): Promise<WebhookDelivery[]> {
+	return db
+		.select()
+		.from(webhookDeliveries)
+		.where(eq(webhookDeliveries.webhookId, webhookId))
+		.orderBy(desc(webhookDeliveries.createdAt))
+		.limit(limit);
+}
+
+/** Pending deliveries whose next attempt is due, oldest first. */
+export async function listDueDeliveries(
+	now: number,
+	limit: number,
+): Promise<WebhookDelivery[]> {
+	return db
+		.select()
+		.from(webhookDeliveries)
+		.where(
+			and(
+				eq(webhookDeliveries.status, "pending"),
+				or(
+					isNull(webhookDeliveries.nextAttemptAt),
+					lte(webhookDeliveries.nextAttemptAt, now),
+				),
+			),
+		)
+		.orderBy(webhookDeliveries.nextAttemptAt)
+		.limit(limit);
+}
+
+/**
+ * Take a pending delivery for one attempt by pushing its next attempt out
+ * to `leaseUntil`. Only succeeds while the row is exactly as `delivery` saw
+ * it, so the retry poller and the live path never send the same attempt
+ * twice; a crashed attempt is picked up again once the lease runs out.
+ */
+export async function claimDelivery(
+	delivery: WebhookDelivery,
+	leaseUntil: number,
+): Promise<WebhookDelivery | null> {
+	const [row] = await db
+		.update(webhookDeliveries)
+		.set({ nextAttemptAt: leaseUntil })
+		.where(
+			and(
+				eq(webhookDeliveries.id, delivery.id),
+				eq(webhookDeliveries.status, "pending"),
+				eq(webhookDeliveries.attempts, delivery.attempts),
+				delivery.nextAttemptAt === null
+					? isNull(webhookDeliveries.nextAttemptAt)
+					: eq(webhookDeliveries.nextAttemptAt, delivery.nextAttemptAt),
+			),
+		)
+		.returning();
+	return row ?? null;
+}
+
+/** Store the result of one attempt and mirror it onto the webhook. */
+export async function recordAttempt(
+	delivery: WebhookDelivery,
+	result: {
+		status: WebhookDeliveryStatus;
+		responseStatus: number | null;
+		error: string | null;
+		nextAttemptAt: number | null;
+	},
+): Promise<void> {
+	const now = Date.now();
+	await db
+		.update(webhookDeliveries)
+		.set({
+			status: result.status,
+			attempts: delivery.attempts + 1,
+			lastAttemptAt: now,
+			nextAttemptAt: result.nextAttemptAt,
+			responseStatus: result.responseStatus,
+			error: result.error,
+			deliveredAt: result.status === "delivered" ? now : null,
+		})
+		.where(eq(webhookDeliveries.id, delivery.id));
+
+	// The webhook shows how its latest attempt went, retries included
+	await db
+		.update(webhooks)
+		.set({
+			lastDeliveryAt: now,
+			lastDeliveryStatus:
+				result.status === "delivered" ? "delivered" : "failed",
+		})
+		.where(eq(webhooks.id, delivery.webhookId));
+	announce(delivery.webhookId);
+}
+
+/** Queue a finished delivery to be sent again. */
+export async function requeueDelivery(
+	id: string,
+): Promise<WebhookDelivery | null> {
+	const [row] = await db
+		.update(webhookDeliveries)
+		.set({
+			status: "pending",
+			attempts: 0,
+			nextAttemptAt: Date.now(),
+			error: null,
+		})
+		.where(eq(webhookDeliveries.id, id))
+		.returning();
+	if (row) announce(row.webhookId);
+	return row ?? null;
+}
+
+/** Drop finished deliveries older than `before`. */
+export async function pruneDeliveries(before: number): Promise<number> {
+	const removed = await db
+		.delete(webhookDeliveries)
+		.where(
+			and(
+				inArray(webhookDeliveries.status, ["delivered", "failed"]),
+				lt(webhookDeliveries.createdAt, before),
+			),
+		)
+		.returning({ id: webhookDeliveries.id });
+	return removed.length;
+}
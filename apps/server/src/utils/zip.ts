@@ -0,0 +1,231 @@
+import { crc32, inflateRawSync } from "node:zlib";
+
+const LOCAL_FILE_HEADER_SIG = 0x04034b50;
+const CENTRAL_DIRECTORY_SIG = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIG = 0x06054b50;
+const ZIP_VERSION = 20;
+const UTF8_NAME_FLAG = 0x0800;
+const MAX_ZIP32_VALUE = 0xffffffff;
+const MAX_ZIP32_ENTRIES = 0xffff;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+interface CentralEntry {
+	name: Buffer;
+	crc: number;
+	size: number;
+	time: number;
+	date: number;
+	offset: number;
+}
+
+export class ZipSizeError extends Error {}
+
+export class ZipFormatError extends Error {}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+	const year = Math.max(1980, value.getFullYear());
+	return {
+		time:
+			(value.getHours() << 11) |
+			(value.getMinutes() << 5) |
+			Math.floor(value.getSeconds() / 2),
+		date:
+			((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+	};
+}
+
+/**
+ * Minimal streaming ZIP writer. Entries are stored uncompressed (audio and
+ * images don't shrink anyway) and written to `write` as soon as they're added,
+ * so only one file is held in memory at a time.
+ */
+export class ZipWriter {
+	private readonly entries: CentralEntry[] = [];
+	private offset = 0;
+
+	constructor(
+		private readonly write: (chunk: Uint8Array) => Promise<unknown>,
+	) {}
+
+	async addFile(
+		name: string,
+		data: Buffer,
+		modifiedAt: Date = new Date(),
+	): Promise<void> {
+		const nameBuf = Buffer.from(name, "utf8");
+		const crc = crc32(data);
+		const { time, date } = toDosDateTime(modifiedAt);
+
+		if (
+			this.entries.length >= MAX_ZIP32_ENTRIES ||
+			this.offset + 30 + nameBuf.length + data.length > MAX_ZIP32_VALUE
+		) {
+			throw new ZipSizeError("Archive exceeds ZIP32 limits");
+		}
+
+		const header = Buffer.alloc(30);
+		header.writeUInt32LE(LOCAL_FILE_HEADER_SIG, 0);
+		header.writeUInt16LE(ZIP_VERSION, 4);
+		header.writeUInt16LE(UTF8_NAME_FLAG, 6);
+		header.writeUInt16LE(METHOD_STORED, 8);
+		header.writeUInt16LE(time, 10);
+		header.writeUInt16LE(date, 12);
+		header.writeUInt32LE(crc, 14);
+		header.writeUInt32LE(data.length, 18);
+		header.writeUInt32LE(data.length, 22);
+		header.writeUInt16LE(nameBuf.length, 26);
+		header.writeUInt16LE(0, 28);
+
+		this.entries.push({
+			name: nameBuf,
+			crc,
+			size: data.length,
+			time,
+			date,
+			offset: this.offset,
+		});
+		await this.write(header);
+		await this.write(nameBuf);
+		await this.write(data);
+		this.offset += header.length + nameBuf.length + data.length;
+	}
+
+	async finish(): Promise<void> {
+		const centralStart = this.offset;
+		let centralSize = 0;
+		for (const entry of this.entries) {
+			const record = Buffer.alloc(46);
+			record.writeUInt32LE(CENTRAL_DIRECTORY_SIG, 0);
+			record.writeUInt16LE(ZIP_VERSION, 4);
+			record.writeUInt16LE(ZIP_VERSION, 6);
+			record.writeUInt16LE(UTF8_NAME_FLAG, 8);
+			record.writeUInt16LE(METHOD_STORED, 10);
+			record.writeUInt16LE(entry.time, 12);
+			record.writeUInt16LE(entry.date, 14);
+			record.writeUInt32LE(entry.crc, 16);
+			record.writeUInt32LE(entry.size, 20);
+			record.writeUInt32LE(entry.size, 24);
+			record.writeUInt16LE(entry.name.length, 28);
+			record.writeUInt32LE(entry.offset, 42);
+			await this.write(record);
+			await this.write(entry.name);
+			centralSize += record.length + entry.name.length;
+		}
+		if (centralStart + centralSize > MAX_ZIP32_VALUE) {
+			throw new ZipSizeError("Archive exceeds ZIP32 limits");
+		}
+
+		const end = Buffer.alloc(22);
+		end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIG, 0);
+		end.writeUInt16LE(this.entries.length, 8);
+		end.writeUInt16LE(this.entries.length, 10);
+		end.writeUInt32LE(centralSize, 12);
+		end.writeUInt32LE(centralStart, 16);
+		await this.write(end);
+	}
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+	const earliest = Math.max(0, data.length - 22 - 0xffff);
+	for (let i = data.length - 22; i >= earliest; i--) {
+		if (data.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY_SIG) return i;
+	}
+	throw new ZipFormatError("Not a ZIP archive (no end of central directory)");
+}
+
+function inflateEntry(raw: Buffer, size: number, name: string): Buffer {
+	try {
+		// Never inflate past the declared size, so a tiny bomb can't balloon
+		return inflateRawSync(raw, { maxOutputLength: Math.max(1, size) });
+	} catch {
+		throw new ZipFormatError(`Corrupt or oversized deflate data for ${name}`);
+	}
+}
+
+/** An archive's file entries, each inflated and CRC-checked when called. */
+export type ZipEntries = Map<string, () => Buffer>;
+
+function extractEntry(
+	raw: Buffer,
+	method: number,
+	size: number,
+	crc: number,
+	name: string,
+): Buffer {
+	let content: Buffer;
+	if (method === METHOD_STORED) {
+		content = raw;
+	} else if (method === METHOD_DEFLATE) {
+		content = inflateEntry(raw, size, name);
+	} else {
+		throw new ZipFormatError(
+			`Unsupported compression method ${method} for ${name}`,
+		);
+	}
+	if (content.length !== size) {
+		throw new ZipFormatError(`Size mismatch for ${name}`);
+	}
+	if (crc32(content) !== crc) {
+		throw new ZipFormatError(`CRC mismatch for ${name}`);
+	}
+	return content;
+}
+
+/**
+ * Index the file entries of an in-memory ZIP. Handles stored and deflated
+ * entries (what we write, and what common zip tools produce); directory
+ * entries are skipped. Nothing is inflated up front: each entry is
+ * extracted and CRC-checked when read, so callers that handle one entry at
+ * a time only hold one in memory. Archives whose entries declare more than
+ * `maxTotalBytes` uncompressed are refused with a `ZipSizeError`.
+ */
+export function readZip(
+	data: Buffer,
+	maxTotalBytes = Number.POSITIVE_INFINITY,
+): ZipEntries {
+	const eocd = findEndOfCentralDirectory(data);
+	const count = data.readUInt16LE(eocd + 10);
+	let cursor = data.readUInt32LE(eocd + 16);
+	const entries: ZipEntries = new Map();
+	let totalBytes = 0;
+
+	for (let i = 0; i < count; i++) {
+		if (
+			cursor + 46 > data.length ||
+			data.readUInt32LE(cursor) !== CENTRAL_DIRECTORY_SIG
+		) {
+			throw new ZipFormatError("Corrupt ZIP central directory");
+		}
+		const method = data.readUInt16LE(cursor + 10);
+		const crc = data.readUInt32LE(cursor + 16);
+		const compressedSize = data.readUInt32LE(cursor + 20);
+		const size = data.readUInt32LE(cursor + 24);
+		const nameLength = data.readUInt16LE(cursor + 28);
+		const extraLength = data.readUInt16LE(cursor + 30);
+		const commentLength = data.readUInt16LE(cursor + 32);
+		const localOffset = data.readUInt32LE(cursor + 42);
+		const name = data.toString("utf8", cursor + 46, cursor + 46 + nameLength);
+		cursor += 46 + nameLength + extraLength + commentLength;
+
+		if (name.endsWith("/")) continue;
+		totalBytes += size;
+		if (totalBytes > maxTotalBytes) {
+			throw new ZipSizeError("Archive is too large once extracted");
+		}
+		if (
+			localOffset + 30 > data.length ||
+			data.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER_SIG
+		) {
+			throw new ZipFormatError(`Corrupt ZIP entry: ${name}`);
+		}
+		const dataStart =
+			localOffset +
+			30 +
+			data.readUInt16LE(localOffset + 26) +
+			data.readUInt16LE(localOffset + 28);
+		const raw = data.subarray(dataStart, dataStart + compressedSize);
+		entries.set(name, () => extractEntry(raw, method, size, crc, name));
+	}
+	return entries;
+}
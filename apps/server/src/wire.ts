@@ -38,6 +38,8 @@ export type SongWire = Omit<
 	| "instruments"
 	| "tags"
 	| "themes"
+	| "waveformPeaks"
+	| "energyCurve"
 	| "coverUrl"
 	| "coverWebpUrl"
 	| "coverJxlUrl"
@@ -45,6 +47,8 @@ export type SongWire = Omit<
 	instruments?: string[];
 	tags?: string[];
 	themes?: string[];
+	waveformPeaks?: number[];
+	energyCurve?: number[];
 	cover: SongCover | null;
 };
 
@@ -58,11 +62,13 @@ function songCoverToWire(song: Song): SongCover | null {
 }
 
 export function songToWire(s: Song): SongWire {
-	const { instruments, tags, themes } = s;
+	const { instruments, tags, themes, waveformPeaks, energyCurve } = s;
 	const wireRest = { ...s } as Partial<Song>;
 	delete wireRest.instruments;
 	delete wireRest.tags;
 	delete wireRest.themes;
+	delete wireRest.waveformPeaks;
+	delete wireRest.energyCurve;
 	delete wireRest.coverUrl;
 	delete wireRest.coverWebpUrl;
 	delete wireRest.coverJxlUrl;
@@ -72,6 +78,8 @@ export function songToWire(s: Song): SongWire {
 			| "instruments"
 			| "tags"
 			| "themes"
+			| "waveformPeaks"
+			| "energyCurve"
 			| "coverUrl"
 			| "coverWebpUrl"
 			| "coverJxlUrl"
@@ -80,6 +88,8 @@ export function songToWire(s: Song): SongWire {
 		instruments: parseJsonField(instruments),
 		tags: parseJsonField(tags),
 		themes: parseJsonField(themes),
+		waveformPeaks: parseJsonField(waveformPeaks),
+		energyCurve: parseJsonField(energyCurve),
 	};
 }
 
@@ -0,0 +1,226 @@
+import {
+	type AceEndpointConfig,
+	type AceEndpointStatus,
+	getAceModelKey,
+} from "@infinitune/shared/ace-settings";
+import { type AceProbeResult, probeAceEndpoint } from "../external/ace";
+import { logger } from "../logger";
+
+const PROBE_INTERVAL_MS = 30_000;
+const BACKOFF_BASE_MS = 10_000;
+const BACKOFF_MAX_MS = 5 * 60_000;
+
+interface EndpointState extends AceEndpointStatus {
+	/** Dropped from settings but still finishing in-flight tasks */
+	retired: boolean;
+}
+
+function createState(config: AceEndpointConfig): EndpointState {
+	return {
+		url: config.url,
+		name: config.name ?? config.url.replace(/^https?:\/\//, ""),
+		concurrency: config.concurrency,
+		active: 0,
+		healthy: true,
+		models: null,
+		loadedModel: null,
+		lastCheckedAt: null,
+		lastError: null,
+		consecutiveFailures: 0,
+		backoffUntil: null,
+		completed: 0,
+		failed: 0,
+		retired: false,
+	};
+}
+
+// ─── AceEndpointPool ─────────────────────────────────────────────────
+/**
+ * Tracks the ACE-Step endpoints the audio queue can submit to: their
+ * capacity, current load, health and the models they serve.
+ *
+ * Endpoints start out healthy so work flows before the first probe.
+ * Failed submissions and probes back an endpoint off exponentially; a
+ * failed probe also marks it unhealthy until a later probe succeeds.
+ */
+export class AceEndpointPool {
+	private endpoints = new Map<string, EndpointState>();
+	private lastProbeAt = 0;
+	private probing: Promise<void> | null = null;
+
+	constructor(
+		configs: AceEndpointConfig[] = [],
+		private readonly probeFn: (
+			url: string,
+		) => Promise<AceProbeResult> = probeAceEndpoint,
+	) {
+		this.configure(configs);
+	}
+
+	/** Apply a new endpoint list, keeping the state of endpoints that stay. */
+	configure(configs: AceEndpointConfig[]): void {
+		const urls = new Set(configs.map((config) => config.url));
+		for (const [url, state] of this.endpoints) {
+			if (urls.has(url)) continue;
+			if (state.active > 0) state.retired = true;
+			else this.endpoints.delete(url);
+		}
+		for (const config of configs) {
+			const existing = this.endpoints.get(config.url);
+			if (existing) {
+				existing.name = config.name ?? existing.name;
+				existing.concurrency = config.concurrency;
+				existing.retired = false;
+				continue;
+			}
+			this.endpoints.set(config.url, createState(config));
+		}
+	}
+
+	/** First configured endpoint; used for tasks submitted before pooling. */
+	get primaryUrl(): string | null {
+		for (const state of this.endpoints.values()) {
+			if (!state.retired) return state.url;
+		}
+		return null;
+	}
+
+	private isUsable(state: EndpointState, now: number): boolean {
+		return (
+			!state.retired &&
+			state.healthy &&
+			(state.backoffUntil === null || state.backoffUntil <= now)
+		);
+	}
+
+	/**
+	 * Least-loaded usable endpoint with a free slot for `aceModel`, or null
+	 * when every candidate is busy or down. When any endpoint lists the model,
+	 * only those qualify; otherwise the model is assumed to load on demand.
+	 */
+	pick(aceModel?: string, now = Date.now()): string | null {
+		const modelKey = aceModel ? getAceModelKey(aceModel) : "";
+		const all = [...this.endpoints.values()].filter((state) => !state.retired);
+		const advertised = modelKey
+			? all.filter((state) => state.models?.includes(modelKey))
+			: [];
+		const candidates = (advertised.length > 0 ? advertised : all).filter(
+			(state) => this.isUsable(state, now) && state.active < state.concurrency,
+		);
+
+		let best: EndpointState | null = null;
+		for (const state of candidates) {
+			if (
+				!best ||
+				state.active / state.concurrency < best.active / best.concurrency
+			) {
+				best = state;
+			}
+		}
+		return best?.url ?? null;
+	}
+
+	/** Occupy a slot. Unknown URLs (e.g. resumed legacy tasks) are tracked too. */
+	acquire(url: string): void {
+		let state = this.endpoints.get(url);
+		if (!state) {
+			state = { ...createState({ url, concurrency: 1 }), retired: true };
+			this.endpoints.set(url, state);
+		}
+		state.active++;
+	}
+
+	release(url: string, outcome: "completed" | "failed" | "cancelled"): void {
+		const state = this.endpoints.get(url);
+		if (!state) return;
+		state.active = Math.max(0, state.active - 1);
+		if (outcome === "completed") state.completed++;
+		if (outcome === "failed") state.failed++;
+		if (state.retired && state.active === 0) this.endpoints.delete(url);
+	}
+
+	recordSuccess(url: string): void {
+		const state = this.endpoints.get(url);
+		if (!state || state.consecutiveFailures === 0) return;
+		state.consecutiveFailures = 0;
+		state.backoffUntil = null;
+		state.lastError = null;
+	}
+
+	recordFailure(url: string, message: string, now = Date.now()): void {
+		const state = this.endpoints.get(url);
+		if (!state) return;
+		state.consecutiveFailures++;
+		state.lastError = message;
+		state.backoffUntil =
+			now +
+			Math.min(
+				BACKOFF_MAX_MS,
+				BACKOFF_BASE_MS * 2 ** (state.consecutiveFailures - 1),
+			);
+		logger.warn(
+			{
+				endpoint: url,
+				consecutiveFailures: state.consecutiveFailures,
+				backoffMs: state.backoffUntil - now,
+				error: message,
+			},
+			"ACE-Step endpoint backing off",
+		);
+	}
+
+	/** Probe every endpoint, refreshing health and model lists. */
+	probeAll(): Promise<void> {
+		if (this.probing) return this.probing;
+		this.lastProbeAt = Date.now();
+		const endpoints = [...this.endpoints.values()].filter(
+			(state) => !state.retired,
+		);
+		this.probing = Promise.all(
+			endpoints.map(async (state) => {
+				try {
+					const result = await this.probeFn(state.url);
+					const recovered = !state.healthy;
+					state.models = result.models;
+					state.loadedModel = result.loadedModel;
+					state.lastCheckedAt = Date.now();
+					state.healthy = true;
+					state.consecutiveFailures = 0;
+					state.backoffUntil = null;
+					state.lastError = null;
+					if (recovered) {
+						logger.info({ endpoint: state.url }, "ACE-Step endpoint recovered");
+					}
+				} catch (error: unknown) {
+					state.lastCheckedAt = Date.now();
+					state.healthy = false;
+					this.recordFailure(
+						state.url,
+						error instanceof Error ? error.message : String(error),
+					);
+				}
+			}),
+		)
+			.then(() => undefined)
+			.finally(() => {
+				this.probing = null;
+			});
+		return this.probing;
+	}
+
+	/** Probe when the last round is older than the probe interval. */
+	async probeIfDue(now = Date.now()): Promise<boolean> {
+		if (now - this.lastProbeAt < PROBE_INTERVAL_MS) return false;
+		await this.probeAll();
+		return true;
+	}
+
+	getStatus(): AceEndpointStatus[] {
+		return [...this.endpoints.values()].map(
+			({ retired: _retired, models, ...state }) => ({
+				...state,
+				models: models ? [...models] : null,
+			}),
+		);
+	}
+}
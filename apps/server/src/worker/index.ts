@@ -2,8 +2,12 @@ import {
 	ACE_DCW_DEFAULTS,
 	normalizeAceDcwScaler,
 	parseBooleanSetting,
+	resolveAceEndpoints,
 	resolveAceModelSetting,
 } from "@infinitune/shared/ace-settings";
+import { normalizeImageProvider } from "@infinitune/shared/image-providers";
+import { resolveQualityGateConfig } from "@infinitune/shared/quality-gate";
+import { TASTE_PROFILE_PROMPTS_SETTING } from "@infinitune/shared/taste-profile";
 import {
 	DEFAULT_TEXT_PROVIDER,
 	normalizeLlmProvider,
@@ -14,10 +18,13 @@ import type { EventMap } from "../events/event-bus";
 import { on } from "../events/event-bus";
 import { batchPollAce, pollAce } from "../external/ace";
 import type { RecentSong } from "../external/llm";
+import { DEFAULT_SERVICE_URLS } from "../external/service-urls";
 import { logger, playlistLogger, songLogger } from "../logger";
 import * as playlistService from "../services/playlist-service";
+import * as provenanceService from "../services/provenance-service";
 import * as settingsService from "../services/settings-service";
 import * as songService from "../services/song-service";
+import * as usageService from "../services/usage-service";
 import { type PlaylistWire, playlistToWire, type SongWire } from "../wire";
 import type { QueueStatus } from "./endpoint-queue";
 import { calculatePriority, PERSONA_PRIORITY } from "./priority";
@@ -326,12 +333,7 @@ async function getSettings(): Promise<SongWorkerSettings> {
 	return {
 		textProvider,
 		textModel,
-		imageProvider:
-			all.imageProvider === "ollama"
-				? "comfyui"
-				: all.imageProvider === "openrouter"
-					? "inference-sh"
-					: all.imageProvider || "comfyui",
+		imageProvider: normalizeImageProvider(all.imageProvider),
 		imageModel: all.imageModel ?? undefined,
 		aceModel: aceModel || undefined,
 		aceInferenceSteps: parseOptionalIntegerSetting(all.aceInferenceSteps),
@@ -348,8 +350,14 @@ async function getSettings(): Promise<SongWorkerSettings> {
 		aceDcwWavelet: all.aceDcwWavelet || ACE_DCW_DEFAULTS.wavelet,
 		aceThinking: parseBooleanSetting(all.aceThinking, false),
 		aceAutoDuration: parseBooleanSetting(all.aceAutoDuration, true),
+		aceEndpoints: resolveAceEndpoints(all, DEFAULT_SERVICE_URLS.aceStepUrl),
 		personaProvider,
 		personaModel,
+		qualityGate: resolveQualityGateConfig(all),
+		tasteProfilePrompts: parseBooleanSetting(
+			all[TASTE_PROFILE_PROMPTS_SETTING],
+			false,
+		),
 	};
 }
 
@@ -767,7 +775,7 @@ function getWorkerRuntime() {
 			startupSweep,
 			tickAudioPolls: async () => {
 				if (!queues) return;
-				await queues.audio.tickPolls();
+				await queues.tickAudio();
 			},
 			staleSongCleanup,
 			logWorkerDiagnostics: async (reason) => {
@@ -992,7 +1000,19 @@ async function checkBufferDeficit(playlistId: string): Promise<void> {
 			: workQueue.bufferDeficit > 0;
 
 		if (shouldCreateSong) {
-			const count = isOneshot ? 1 : workQueue.bufferDeficit;
+			let count = isOneshot ? 1 : workQueue.bufferDeficit;
+			// Oneshot playlists make a single song, so budgets only gate endless mode
+			if (!isOneshot) {
+				const { allowance, exceeded } =
+					await usageService.getSongAllowance(playlist);
+				if (allowance < count) {
+					playlistLogger(playlistId).debug(
+						{ deficit: workQueue.bufferDeficit, allowance, exceeded },
+						"Generation budget limits buffer refill",
+					);
+					count = Math.max(0, allowance);
+				}
+			}
 			for (let i = 0; i < count; i++) {
 				const orderIndex = Math.ceil(workQueue.maxOrderIndex) + 1 + i;
 				await songService.createPending(playlistId, orderIndex, {
@@ -1049,29 +1069,36 @@ async function runPersonaScan(
 				priority: PERSONA_PRIORITY,
 				endpoint: pProvider,
 				execute: async (signal) => {
-					return await providerRegistry.textCapability.generatePersona({
-						song: {
-							title: song.title,
-							artistName: song.artistName ?? "",
-							genre: song.genre ?? "",
-							subGenre: song.subGenre ?? "",
-							mood: song.mood ?? undefined,
-							energy: song.energy ?? undefined,
-							era: song.era ?? undefined,
-							vocalStyle: song.vocalStyle ?? undefined,
-							instruments: song.instruments ?? undefined,
-							themes: song.themes ?? undefined,
-							description: song.description ?? undefined,
-							lyrics: song.lyrics?.slice(0, 500) ?? undefined,
-						},
-						provider: pProvider,
-						model: pModel,
-						signal,
-					});
+					const scope = { playlistId: song.playlistId, songId: song.id };
+					return await usageService.runWithUsageScope(scope, () =>
+						providerRegistry.textCapability.generatePersona({
+							song: {
+								title: song.title,
+								artistName: song.artistName ?? "",
+								genre: song.genre ?? "",
+								subGenre: song.subGenre ?? "",
+								mood: song.mood ?? undefined,
+								energy: song.energy ?? undefined,
+								era: song.era ?? undefined,
+								vocalStyle: song.vocalStyle ?? undefined,
+								instruments: song.instruments ?? undefined,
+								themes: song.themes ?? undefined,
+								description: song.description ?? undefined,
+								lyrics: song.lyrics?.slice(0, 500) ?? undefined,
+							},
+							provider: pProvider,
+							model: pModel,
+							signal,
+						}),
+					);
 				},
 			})
 			.then(async ({ result, processingMs }) => {
 				await songService.updatePersonaExtract(song.id, result as string);
+				await provenanceService.recordPersona(song.id, {
+					provider: pProvider,
+					model: pModel,
+				});
 				songLogger(song.id).info(
 					{ title: song.title, processingMs },
 					"Persona extract complete",
@@ -1384,27 +1411,39 @@ async function reconcileAceState() {
 
 	logger.info({ count: songs.length }, "Reconciling songs in audio pipeline");
 
-	const taskIds = songs.flatMap((s) => (s.aceTaskId ? [s.aceTaskId] : []));
+	const withTask = songs.filter((s) => s.aceTaskId);
+	for (const song of songs) {
+		if (song.aceTaskId) continue;
+		await songService.revertTransient(song.id);
+		songLogger(song.id).info("Reverted — no ACE task ID");
+	}
+	if (withTask.length === 0) return;
+
+	// Tasks live on the endpoint they were submitted to; older rows predate
+	// the pool and ran on the primary.
+	const primaryUrl = (await getSettings()).aceEndpoints?.[0]?.url;
+	const byEndpoint = new Map<string, typeof withTask>();
+	for (const song of withTask) {
+		const endpoint = song.aceEndpoint || primaryUrl || "";
+		byEndpoint.set(endpoint, [...(byEndpoint.get(endpoint) ?? []), song]);
+	}
 
-	if (taskIds.length > 0) {
+	for (const [endpoint, group] of byEndpoint) {
+		const taskIds = group.flatMap((s) => (s.aceTaskId ? [s.aceTaskId] : []));
 		let aceStatus: Map<string, { status: string; audioPath?: string }>;
 		try {
-			aceStatus = await batchPollAce(taskIds);
+			aceStatus = await batchPollAce(taskIds, undefined, endpoint || undefined);
 		} catch (error: unknown) {
 			logger.warn(
-				{ err: error, count: songs.length, taskIdCount: taskIds.length },
+				{ err: error, endpoint, count: group.length },
 				"ACE unreachable during reconciliation; leaving audio pipeline state intact",
 			);
 			aceReachableDuringStartup = false;
-			return;
+			continue;
 		}
 
-		for (const song of songs) {
-			if (!song.aceTaskId) {
-				await songService.revertTransient(song.id);
-				songLogger(song.id).info("Reverted — no ACE task ID");
-				continue;
-			}
+		for (const song of group) {
+			if (!song.aceTaskId) continue;
 			const status = aceStatus.get(song.aceTaskId);
 			if (
 				!status ||
@@ -1413,26 +1452,21 @@ async function reconcileAceState() {
 			) {
 				await songService.revertTransient(song.id);
 				songLogger(song.id).info(
-					{ aceTaskId: song.aceTaskId },
+					{ aceTaskId: song.aceTaskId, endpoint },
 					"Reverted — ACE task is gone",
 				);
 			} else if (status.status === "succeeded" && status.audioPath) {
 				songLogger(song.id).info(
-					{ aceTaskId: song.aceTaskId },
+					{ aceTaskId: song.aceTaskId, endpoint },
 					"ACE task already done — SongWorker will save",
 				);
 			} else {
 				songLogger(song.id).info(
-					{ aceTaskId: song.aceTaskId },
+					{ aceTaskId: song.aceTaskId, endpoint },
 					"ACE task still running — will resume",
 				);
 			}
 		}
-	} else {
-		for (const song of songs) {
-			await songService.revertTransient(song.id);
-			songLogger(song.id).info("Reverted — no ACE task ID");
-		}
 	}
 }
 
@@ -1520,7 +1554,9 @@ export async function startWorker(): Promise<void> {
 	logger.info("Starting event-driven song generation worker...");
 
 	// Initialize endpoint queues
-	queues = new EndpointQueues((taskId, signal) => pollAce(taskId, signal));
+	queues = new EndpointQueues((taskId, signal, endpointUrl) =>
+		pollAce(taskId, signal, endpointUrl),
+	);
 
 	// Refresh queue concurrency from settings
 	try {
@@ -1573,6 +1609,7 @@ export function getWorkerStats() {
 		trackedPlaylists:
 			snapshot?.playlistActors ??
 			Array.from(new Set([...playlistActors.keys(), ...playlistEpochs.keys()])),
+		aceEndpoints: queues?.audio.getEndpointStatus() ?? [],
 		actorRuntime: {
 			playlists: Array.from(playlistActors.entries()).map(
 				([playlistId, actor]) => {
@@ -1,5 +1,17 @@
+import {
+	type AceEndpointConfig,
+	resolveAceEndpoints,
+} from "@infinitune/shared/ace-settings";
+import {
+	DEFAULT_IMAGE_PROVIDER,
+	normalizeImageProvider,
+} from "@infinitune/shared/image-providers";
 import type { AcePollResult } from "../external/ace";
 import { CODEX_LLM_CONCURRENCY } from "../external/codex-config";
+import { getImageProvider } from "../external/image-providers";
+import { OPENAI_COMPATIBLE_LLM_CONCURRENCY } from "../external/openai-compatible";
+import { DEFAULT_SERVICE_URLS } from "../external/service-urls";
+import { AceEndpointPool } from "./ace-endpoint-pool";
 import type {
 	EndpointType,
 	IEndpointQueue,
@@ -11,12 +23,7 @@ import { AudioQueue, RequestResponseQueue } from "./runtime/queue-actors";
 const LLM_CONCURRENCY: Record<string, number> = {
 	"openai-codex": CODEX_LLM_CONCURRENCY,
 	anthropic: 20,
-};
-
-const IMAGE_CONCURRENCY: Record<string, number> = {
-	comfyui: 1,
-	"inference-sh": 3,
-	"codex-imagegen": 1,
+	"openai-compatible": OPENAI_COMPATIBLE_LLM_CONCURRENCY,
 };
 
 // ─── Cover generation result ─────────────────────────────────────────
@@ -29,9 +36,14 @@ export class EndpointQueues {
 	readonly llm: RequestResponseQueue<unknown>;
 	readonly image: RequestResponseQueue<CoverResult>;
 	readonly audio: AudioQueue;
+	private readonly aceEndpoints: AceEndpointPool;
 
 	constructor(
-		pollFn: (taskId: string, signal: AbortSignal) => Promise<AcePollResult>,
+		pollFn: (
+			taskId: string,
+			signal: AbortSignal,
+			endpointUrl: string,
+		) => Promise<AcePollResult>,
 	) {
 		this.llm = new RequestResponseQueue<unknown>(
 			"llm",
@@ -39,9 +51,12 @@ export class EndpointQueues {
 		);
 		this.image = new RequestResponseQueue<CoverResult>(
 			"image",
-			IMAGE_CONCURRENCY.comfyui,
+			getImageProvider(DEFAULT_IMAGE_PROVIDER).concurrency,
+		);
+		this.aceEndpoints = new AceEndpointPool(
+			resolveAceEndpoints({}, DEFAULT_SERVICE_URLS.aceStepUrl),
 		);
-		this.audio = new AudioQueue(pollFn);
+		this.audio = new AudioQueue(pollFn, this.aceEndpoints);
 	}
 
 	get(type: EndpointType): IEndpointQueue<unknown> {
@@ -56,21 +71,34 @@ export class EndpointQueues {
 	}
 
 	/** Update concurrency based on current provider settings */
-	refreshAll(settings: { textProvider: string; imageProvider: string }): void {
+	refreshAll(settings: {
+		textProvider: string;
+		imageProvider: string;
+		aceEndpoints?: AceEndpointConfig[];
+	}): void {
 		const llmConcurrency =
 			LLM_CONCURRENCY[settings.textProvider] || LLM_CONCURRENCY["openai-codex"];
-		const imageProvider =
-			settings.imageProvider === "ollama"
-				? "comfyui"
-				: settings.imageProvider === "openrouter"
-					? "inference-sh"
-					: settings.imageProvider;
-		const imageConcurrency =
-			IMAGE_CONCURRENCY[imageProvider] || IMAGE_CONCURRENCY.comfyui;
+		const imageConcurrency = getImageProvider(
+			normalizeImageProvider(settings.imageProvider),
+		).concurrency;
 
 		this.llm.refreshConcurrency(llmConcurrency);
 		this.image.refreshConcurrency(imageConcurrency);
-		// Audio submit concurrency is always 1
+		if (settings.aceEndpoints) {
+			this.aceEndpoints.configure(settings.aceEndpoints);
+			this.audio.drain();
+		}
+	}
+
+	/** Poll running ACE tasks; re-probe endpoints when due and re-dispatch. */
+	async tickAudio(): Promise<void> {
+		void this.aceEndpoints
+			.probeIfDue()
+			.then((probed) => {
+				if (probed) this.audio.drain();
+			})
+			.catch(() => {});
+		await this.audio.tickPolls();
 	}
 
 	cancelAllForSong(songId: string): void {
@@ -140,6 +140,7 @@ async function generateMetadataWithProvider(
 		audioDuration: input.audioDuration,
 		recentSongs: normalizeRecentSongs(input.recentSongs),
 		recentDescriptions: input.recentDescriptions,
+		tasteProfile: input.tasteProfile,
 		isInterrupt: input.isInterrupt,
 		promptDistance: input.promptDistance,
 		promptProfile: input.promptProfile,
@@ -176,12 +177,11 @@ async function generatePersonaWithProvider(
 async function generateCoverWithProvider(
 	input: ProviderTaskPorts["generateCover"],
 ): Promise<unknown> {
-	const normalizedProvider =
-		input.provider === "ollama" ? "comfyui" : input.provider;
 	const result = await generateCover({
 		coverPrompt: input.coverPrompt,
-		provider: normalizedProvider,
+		provider: input.provider,
 		model: input.model,
+		song: input.song,
 		signal: input.signal,
 	});
 	if (!result) {
@@ -214,6 +214,8 @@ async function submitAudioWithProvider(
 		aceDcwWavelet: input.aceDcwWavelet,
 		aceThinking: input.aceThinking,
 		aceAutoDuration: input.aceAutoDuration,
+		seed: input.seed,
+		aceUrl: input.aceUrl,
 		signal: input.signal,
 	});
 }
@@ -225,7 +227,7 @@ async function pollAudioWithProvider(
 	audioPath?: string;
 	error?: string;
 }> {
-	return await pollAce(input.taskId, input.signal);
+	return await pollAce(input.taskId, input.signal, input.aceUrl);
 }
 
 async function batchPollAudioWithProvider(
@@ -240,7 +242,7 @@ async function batchPollAudioWithProvider(
 		}
 	>
 > {
-	const result = await batchPollAce(input.taskIds, input.signal);
+	const result = await batchPollAce(input.taskIds, input.signal, input.aceUrl);
 	return result;
 }
 
@@ -1,4 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
+import { AceEndpointPool } from "../ace-endpoint-pool";
 import { AudioQueue, RequestResponseQueue } from "./queue-actors";
 
 interface Deferred<T> {
@@ -222,5 +223,44 @@ describe("queue actors", () => {
 				result: { status: "succeeded", taskId: "task-b" },
 			});
 		});
+		it("spreads work across pooled endpoints and polls each where it runs", async () => {
+			const pool = new AceEndpointPool([
+				{ url: "http://ace-a", concurrency: 1 },
+				{ url: "http://ace-b", concurrency: 1 },
+			]);
+			const pollAudio = vi.fn(async () => ({ status: "running" as const }));
+			const execute = (taskId: string) =>
+				vi.fn(async () => ({
+					taskId,
+					status: "running" as const,
+					submitProcessingMs: 1,
+				}));
+			const executeA = execute("task-a");
+			const executeB = execute("task-b");
+			const executeC = execute("task-c");
+			const queue = new AudioQueue(pollAudio, pool);
+
+			for (const [songId, run] of [
+				["song-a", executeA],
+				["song-b", executeB],
+				["song-c", executeC],
+			] as const) {
+				void queue.enqueue({ songId, priority: 1, execute: run });
+			}
+
+			await Promise.resolve();
+			expect(executeA).toHaveBeenCalledWith(expect.anything(), "http://ace-a");
+			expect(executeB).toHaveBeenCalledWith(expect.anything(), "http://ace-b");
+			expect(executeC).not.toHaveBeenCalled();
+			expect(queue.getEndpointStatus().map((e) => e.active)).toEqual([1, 1]);
+
+			await Promise.resolve();
+			await queue.tickPolls();
+			expect(pollAudio).toHaveBeenCalledWith(
+				"task-b",
+				expect.anything(),
+				"http://ace-b",
+			);
+		});
 	});
 });
@@ -1,5 +1,7 @@
+import type { AceEndpointStatus } from "@infinitune/shared/ace-settings";
 import { createActor, fromCallback } from "xstate";
 import { logger } from "../../logger";
+import { AceEndpointPool } from "../ace-endpoint-pool";
 import {
 	computeCompletionStats,
 	type IEndpointQueue,
@@ -312,18 +314,43 @@ interface AudioTaskResult {
 	audioPath?: string;
 	error?: string;
 	submitProcessingMs?: number;
+	/** ACE per-stage timings in seconds, used for GPU accounting. */
+	timeCosts?: Record<string, number>;
 }
 
-interface AudioQueueItem extends QueueRequest<AudioTaskResult> {
+type AudioPollFn = (
+	taskId: string,
+	signal: AbortSignal,
+	endpointUrl: string,
+) => Promise<{
+	status: "running" | "succeeded" | "failed" | "not_found";
+	audioPath?: string;
+	error?: string;
+	timeCosts?: Record<string, number>;
+}>;
+
+/** Audio requests name the model they need; `execute` gets the chosen endpoint. */
+export interface AudioQueueRequest
+	extends Omit<QueueRequest<AudioTaskResult>, "execute"> {
+	aceModel?: string;
+	execute: (
+		signal: AbortSignal,
+		endpointUrl?: string,
+	) => Promise<AudioTaskResult>;
+}
+
+interface AudioQueueItem extends AudioQueueRequest {
 	resolve: (result: QueueResult<AudioTaskResult>) => void;
 	reject: (error: Error) => void;
 	enqueuedAt: number;
 	resumeTaskId?: string;
 	resumeSubmittedAt?: number;
+	resumeEndpointUrl?: string;
 }
 
 interface AudioActiveSlot {
 	songId: string;
+	endpointUrl: string;
 	taskId: string;
 	submittedAt: number;
 	startedAt: number;
@@ -336,6 +363,8 @@ interface AudioActiveSlot {
 }
 
 const NOT_FOUND_GRACE_MS = 2 * 60 * 1000;
+/** Endpoint label used when no pool is supplied (single anonymous endpoint) */
+const DEFAULT_AUDIO_ENDPOINT = "ace-step";
 
 interface AudioQueueEvent {
 	type:
@@ -351,53 +380,57 @@ interface AudioQueueEvent {
 	newPriority?: number;
 }
 
+/**
+ * Submit→poll→done pipeline for ACE-Step tasks. Each active slot holds one
+ * song on one endpoint from the pool, from submission until its audio is
+ * ready, failed or lost. New work goes to the least-loaded healthy endpoint
+ * with a free slot that serves the song's model.
+ */
 export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 	readonly type = "audio" as const;
 	private readonly actor;
 	private readonly state = {
 		pending: [] as AudioQueueItem[],
-		active: null as AudioActiveSlot | null,
+		active: new Map<string, AudioActiveSlot>(),
 		errorCount: 0,
 		lastErrorMessage: undefined as string | undefined,
 		completionHistory: [] as number[],
 		totalCompleted: 0,
 	};
-	private readonly pollFn: (
-		taskId: string,
-		signal: AbortSignal,
-	) => Promise<{
-		status: "running" | "succeeded" | "failed" | "not_found";
-		audioPath?: string;
-		error?: string;
-	}>;
+	private readonly pollFn: AudioPollFn;
+	private readonly pool: AceEndpointPool;
 
 	constructor(
-		pollFn: (
-			taskId: string,
-			signal: AbortSignal,
-		) => Promise<{
-			status: "running" | "succeeded" | "failed" | "not_found";
-			audioPath?: string;
-			error?: string;
-		}>,
+		pollFn: AudioPollFn,
+		pool = new AceEndpointPool([
+			{ url: DEFAULT_AUDIO_ENDPOINT, concurrency: 1 },
+		]),
 	) {
 		this.pollFn = pollFn;
+		this.pool = pool;
 
 		this.actor = createActor(
 			fromCallback<AudioQueueEvent>(({ receive }) => {
-				const clearSlot = () => {
-					this.state.active = null;
+				const clearSlot = (
+					slot: AudioActiveSlot,
+					outcome: "completed" | "failed" | "cancelled",
+				) => {
+					if (this.state.active.get(slot.songId) !== slot) return;
+					this.state.active.delete(slot.songId);
+					this.pool.release(slot.endpointUrl, outcome);
 					this.actor.send({ type: "drain" });
 				};
 
-				const startSlot = (item: AudioQueueItem): void => {
+				const startSlot = (item: AudioQueueItem, endpointUrl: string): void => {
 					const abortController = new AbortController();
 					const startedAt = Date.now();
 					const waitMs = startedAt - item.enqueuedAt;
+					this.pool.acquire(endpointUrl);
 
 					if (item.resumeTaskId) {
-						this.state.active = {
+						this.state.active.set(item.songId, {
 							songId: item.songId,
+							endpointUrl,
 							taskId: item.resumeTaskId,
 							submittedAt: item.resumeSubmittedAt || Date.now(),
 							startedAt,
@@ -407,13 +440,14 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 							resolve: item.resolve,
 							reject: item.reject,
 							abortController,
-						};
+						});
 
 						logger.debug(
 							{
 								queueType: this.type,
 								songId: item.songId,
 								taskId: item.resumeTaskId,
+								endpoint: endpointUrl,
 								priority: item.priority,
 								waitMs,
 								pendingAfterDequeue: this.state.pending.length,
@@ -424,8 +458,9 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 					}
 
 					const submittedAt = Date.now();
-					this.state.active = {
+					const slot: AudioActiveSlot = {
 						songId: item.songId,
+						endpointUrl,
 						taskId: "",
 						submittedAt,
 						startedAt,
@@ -436,50 +471,45 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 						reject: item.reject,
 						abortController,
 					};
+					this.state.active.set(item.songId, slot);
 
 					logger.debug(
 						{
 							queueType: this.type,
 							songId: item.songId,
+							endpoint: endpointUrl,
 							priority: item.priority,
 							waitMs,
 							pendingAfterDequeue: this.state.pending.length,
+							activeCount: this.state.active.size,
 						},
 						"Audio queue submission started",
 					);
 
 					item
-						.execute(abortController.signal)
+						.execute(abortController.signal, endpointUrl)
 						.then((result: AudioTaskResult) => {
 							if (abortController.signal.aborted) return;
-							if (
-								!this.state.active ||
-								this.state.active.songId !== item.songId
-							) {
-								return;
-							}
-							this.state.active.taskId = result.taskId;
-							this.state.active.submittedAt = Date.now();
-							this.state.active.submitProcessingMs = Date.now() - submittedAt;
+							if (this.state.active.get(item.songId) !== slot) return;
+							this.pool.recordSuccess(endpointUrl);
+							slot.taskId = result.taskId;
+							slot.submittedAt = Date.now();
+							slot.submitProcessingMs = Date.now() - submittedAt;
 							logger.debug(
 								{
 									queueType: this.type,
 									songId: item.songId,
 									taskId: result.taskId,
+									endpoint: endpointUrl,
 									priority: item.priority,
 									waitMs,
-									submitProcessingMs: this.state.active.submitProcessingMs,
+									submitProcessingMs: slot.submitProcessingMs,
 								},
 								"Audio queue submission complete, polling started",
 							);
 						})
 						.catch((error: unknown) => {
-							if (
-								!this.state.active ||
-								this.state.active.songId !== item.songId
-							) {
-								return;
-							}
+							if (this.state.active.get(item.songId) !== slot) return;
 
 							const message =
 								error instanceof Error ? error.message : String(error);
@@ -492,6 +522,7 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 									{
 										queueType: this.type,
 										songId: item.songId,
+										endpoint: endpointUrl,
 										priority: item.priority,
 										waitMs,
 										submitProcessingMs: processingMs,
@@ -499,48 +530,62 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 									"Audio queue submission cancelled",
 								);
 								item.reject(new Error("Cancelled"));
-							} else {
-								logger.warn(
-									{
-										queueType: this.type,
-										songId: item.songId,
-										priority: item.priority,
-										waitMs,
-										submitProcessingMs: processingMs,
-										err: error,
-									},
-									"Audio queue submission failed",
-								);
-								item.reject(
-									error instanceof Error ? error : new Error(String(error)),
-								);
+								clearSlot(slot, "cancelled");
+								return;
 							}
 
-							clearSlot();
+							logger.warn(
+								{
+									queueType: this.type,
+									songId: item.songId,
+									endpoint: endpointUrl,
+									priority: item.priority,
+									waitMs,
+									submitProcessingMs: processingMs,
+									err: error,
+								},
+								"Audio queue submission failed",
+							);
+							this.pool.recordFailure(endpointUrl, message);
+							item.reject(
+								error instanceof Error ? error : new Error(String(error)),
+							);
+							clearSlot(slot, "failed");
 						});
 				};
 
+				/** Start every pending item that has somewhere to run. */
 				const drain = () => {
-					if (this.state.active || this.state.pending.length === 0) return;
-					const item = this.state.pending.shift();
-					if (!item) return;
-					startSlot(item);
+					const waiting: AudioQueueItem[] = [];
+					for (const item of this.state.pending) {
+						// Resumed tasks are already running on their endpoint
+						const endpointUrl = item.resumeTaskId
+							? (item.resumeEndpointUrl ??
+								this.pool.primaryUrl ??
+								DEFAULT_AUDIO_ENDPOINT)
+							: this.pool.pick(item.aceModel);
+						if (endpointUrl) startSlot(item, endpointUrl);
+						else waiting.push(item);
+					}
+					this.state.pending = waiting;
 				};
 
-				const pollActive = async () => {
-					const slot = this.state.active;
-					if (!slot) return;
+				const pollSlot = async (slot: AudioActiveSlot) => {
 					if (slot.abortController.signal.aborted) {
-						clearSlot();
+						clearSlot(slot, "cancelled");
 						return;
 					}
+					// Still submitting; nothing to poll yet
+					if (!slot.taskId) return;
 
 					try {
 						const pollResult = await this.pollFn(
 							slot.taskId,
 							slot.abortController.signal,
+							slot.endpointUrl,
 						);
 						if (slot.abortController.signal.aborted) return;
+						this.pool.recordSuccess(slot.endpointUrl);
 
 						if (pollResult.status === "succeeded") {
 							logger.debug(
@@ -548,6 +593,7 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 									queueType: this.type,
 									songId: slot.songId,
 									taskId: slot.taskId,
+									endpoint: slot.endpointUrl,
 									priority: slot.priority,
 									waitMs: slot.waitMs,
 									submitProcessingMs: slot.submitProcessingMs,
@@ -565,10 +611,11 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 									status: "succeeded",
 									audioPath: pollResult.audioPath,
 									submitProcessingMs: slot.submitProcessingMs,
+									timeCosts: pollResult.timeCosts,
 								},
 								processingMs: completionMs,
 							});
-							clearSlot();
+							clearSlot(slot, "completed");
 						} else if (pollResult.status === "failed") {
 							const message = pollResult.error || "Audio generation failed";
 							this.state.errorCount += 1;
@@ -578,6 +625,7 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 									queueType: this.type,
 									songId: slot.songId,
 									taskId: slot.taskId,
+									endpoint: slot.endpointUrl,
 									priority: slot.priority,
 									waitMs: slot.waitMs,
 									submitProcessingMs: slot.submitProcessingMs,
@@ -596,7 +644,7 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 								},
 								processingMs: Date.now() - slot.submittedAt,
 							});
-							clearSlot();
+							clearSlot(slot, "failed");
 						} else if (pollResult.status === "not_found") {
 							const elapsed = Date.now() - slot.submittedAt;
 							if (elapsed >= NOT_FOUND_GRACE_MS) {
@@ -605,6 +653,7 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 										queueType: this.type,
 										songId: slot.songId,
 										taskId: slot.taskId,
+										endpoint: slot.endpointUrl,
 										priority: slot.priority,
 										waitMs: slot.waitMs,
 										submitProcessingMs: slot.submitProcessingMs,
@@ -621,13 +670,17 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 									},
 									processingMs: elapsed,
 								});
-								clearSlot();
+								clearSlot(slot, "failed");
 							}
 						}
 					} catch (error: unknown) {
 						if (slot.abortController.signal.aborted) return;
+						this.pool.recordFailure(
+							slot.endpointUrl,
+							error instanceof Error ? error.message : String(error),
+						);
 						logger.error(
-							{ err: error, taskId: slot.taskId },
+							{ err: error, taskId: slot.taskId, endpoint: slot.endpointUrl },
 							"Audio queue poll error",
 						);
 					}
@@ -644,7 +697,11 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 							}
 							break;
 						case "tickPolls":
-							void pollActive();
+							for (const slot of [...this.state.active.values()]) {
+								void pollSlot(slot);
+							}
+							// Endpoints may have come back or freed up since the last tick
+							drain();
 							break;
 						case "cancelSong":
 							if (!event.songId) return;
@@ -661,11 +718,11 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 									}
 								}
 
-								const active = this.state.active;
-								if (active && active.songId === event.songId) {
+								const active = this.state.active.get(event.songId);
+								if (active) {
 									active.abortController.abort();
 									active.reject(new Error("Cancelled"));
-									clearSlot();
+									clearSlot(active, "cancelled");
 								}
 							}
 							break;
@@ -695,9 +752,7 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 		this.actor.start();
 	}
 
-	enqueue(
-		request: QueueRequest<AudioTaskResult>,
-	): Promise<QueueResult<AudioTaskResult>> {
+	enqueue(request: AudioQueueRequest): Promise<QueueResult<AudioTaskResult>> {
 		return new Promise<QueueResult<AudioTaskResult>>((resolve, reject) => {
 			const item: AudioQueueItem = {
 				...request,
@@ -709,10 +764,15 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 		});
 	}
 
+	/**
+	 * Resume polling a task submitted before a restart. `endpointUrl` is where
+	 * it was submitted; tasks from before pooling fall back to the primary.
+	 */
 	resumePoll(
 		songId: string,
 		taskId: string,
 		submittedAt: number,
+		endpointUrl?: string | null,
 	): Promise<QueueResult<AudioTaskResult>> {
 		return new Promise<QueueResult<AudioTaskResult>>((resolve, reject) => {
 			const item: AudioQueueItem = {
@@ -724,6 +784,7 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 				},
 				resumeTaskId: taskId,
 				resumeSubmittedAt: submittedAt,
+				resumeEndpointUrl: endpointUrl ?? undefined,
 				resolve,
 				reject,
 				enqueuedAt: Date.now(),
@@ -737,40 +798,47 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 		return Promise.resolve();
 	}
 
+	/** Re-run dispatch, e.g. after endpoint health changed. */
+	drain(): void {
+		this.actor.send({ type: "drain" });
+	}
+
 	cancelSong(songId: string): void {
 		this.actor.send({ type: "cancelSong", songId });
 	}
 
 	getStatus(): QueueStatus {
+		const activeSlots = [...this.state.active.values()];
 		return {
 			type: this.type,
 			pending: this.state.pending.length,
-			active: this.state.active ? 1 : 0,
+			active: activeSlots.length,
 			errors: this.state.errorCount,
 			lastErrorMessage: this.state.lastErrorMessage,
 			completionStats: computeCompletionStats(
 				this.state.completionHistory,
 				this.state.totalCompleted,
 			),
-			activeItems: this.state.active
-				? [
-						{
-							songId: this.state.active.songId,
-							startedAt: this.state.active.startedAt,
-							endpoint: "ace-step",
-							priority: this.state.active.priority,
-						},
-					]
-				: [],
+			activeItems: activeSlots.map((slot) => ({
+				songId: slot.songId,
+				startedAt: slot.startedAt,
+				endpoint: slot.endpointUrl,
+				priority: slot.priority,
+			})),
 			pendingItems: this.state.pending.map((item) => ({
 				songId: item.songId,
 				priority: item.priority,
 				waitingSince: item.enqueuedAt,
-				endpoint: item.endpoint,
+				endpoint: item.resumeEndpointUrl ?? item.endpoint,
 			})),
 		};
 	}
 
+	/** Per-endpoint load and health. */
+	getEndpointStatus(): AceEndpointStatus[] {
+		return this.pool.getStatus();
+	}
+
 	updatePendingPriority(songId: string, newPriority: number): void {
 		this.actor.send({ type: "updatePendingPriority", songId, newPriority });
 	}
@@ -780,6 +848,6 @@ export class AudioQueue implements IEndpointQueue<AudioTaskResult> {
 	}
 
 	refreshConcurrency(_maxConcurrency?: number): void {
-		// Audio queue intentionally remains single-slot.
+		// Audio capacity comes from the per-endpoint concurrency in the pool.
 	}
 }
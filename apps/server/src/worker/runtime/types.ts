@@ -170,6 +170,8 @@ export interface ProviderTaskPorts {
 			energy?: string | null;
 		}>;
 		recentDescriptions?: string[];
+		/** Listener taste summary, only sent for new playlists. */
+		tasteProfile?: string;
 		isInterrupt?: boolean;
 		promptDistance?: "close" | "general" | "faithful" | "album";
 		promptProfile?: "strict" | "balanced" | "creative" | "compact";
@@ -199,6 +201,13 @@ export interface ProviderTaskPorts {
 		coverPrompt: string;
 		provider: string;
 		model?: string;
+		song?: {
+			title?: string | null;
+			artistName?: string | null;
+			genre?: string | null;
+			mood?: string | null;
+			energy?: string | null;
+		};
 		signal?: AbortSignal;
 	};
 	submitAudio: {
@@ -222,14 +231,18 @@ export interface ProviderTaskPorts {
 		aceDcwWavelet?: string;
 		aceThinking?: boolean;
 		aceAutoDuration?: boolean;
+		seed?: number;
+		aceUrl?: string;
 		signal?: AbortSignal;
 	};
 	pollAudio: {
 		taskId: string;
+		aceUrl?: string;
 		signal?: AbortSignal;
 	};
 	batchPollAudio: {
 		taskIds: string[];
+		aceUrl?: string;
 		signal?: AbortSignal;
 	};
 }
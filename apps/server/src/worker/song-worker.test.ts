@@ -1,3 +1,4 @@
+import { QUALITY_GATE_DEFAULTS } from "@infinitune/shared/quality-gate";
 import { describe, expect, it } from "vitest";
 import type { PlaylistWire, SongWire } from "../wire";
 import { buildAceSubmitInput, type SongWorkerSettings } from "./song-worker";
@@ -20,6 +21,8 @@ const baseSettings: SongWorkerSettings = {
 	aceAutoDuration: false,
 	personaProvider: "openai-codex",
 	personaModel: "gpt-5.1",
+	qualityGate: QUALITY_GATE_DEFAULTS,
+	tasteProfilePrompts: false,
 };
 
 function makeSong(): SongWire {
@@ -1,6 +1,19 @@
 import fs from "node:fs";
 import path from "node:path";
+import type { AceEndpointConfig } from "@infinitune/shared/ace-settings";
+import { normalizeImageProvider } from "@infinitune/shared/image-providers";
 import { toAceVocalLanguageCode } from "@infinitune/shared/lyrics-language";
+import {
+	ACE_SEED_MAX,
+	type AceRenderInputs,
+} from "@infinitune/shared/provenance";
+import {
+	evaluateQuality,
+	formatQualityFailure,
+	type QualityGateConfig,
+	type QualityMetrics,
+} from "@infinitune/shared/quality-gate";
+import { TASTE_PROFILE_NEW_PLAYLIST_SONGS } from "@infinitune/shared/taste-profile";
 import { resolveTextLlmProfile } from "@infinitune/shared/text-llm-profile";
 import type { LlmProvider } from "@infinitune/shared/types";
 import { assign, createActor, createMachine, fromPromise } from "xstate";
@@ -10,17 +23,31 @@ import {
 	scheduleMemoryCurator,
 } from "../agents/playlist-director-service";
 import { saveCover } from "../covers";
-import type { PromptDistance, RecentSong, SongMetadata } from "../external/llm";
+import {
+	type AudioAnalysis,
+	describeAnalysisMismatch,
+} from "../external/audio-analysis";
+import type { LoudnessResult } from "../external/audio-processing";
+import {
+	type PromptDistance,
+	type RecentSong,
+	resolveSongPromptContract,
+	type SongMetadata,
+} from "../external/llm";
 import { saveSongToNfs } from "../external/storage";
 import { tagMp3 } from "../external/tag-mp3";
 import { songLogger } from "../logger";
 import * as playlistService from "../services/playlist-service";
+import * as provenanceService from "../services/provenance-service";
+import * as qualityService from "../services/quality-service";
 import * as songService from "../services/song-service";
+import * as tasteService from "../services/taste-service";
+import * as usageService from "../services/usage-service";
 import { type PlaylistWire, playlistToWire, type SongWire } from "../wire";
 import { calculatePriority } from "./priority";
 import type { EndpointQueues } from "./queues";
 import { getWorkerInspectObserver } from "./runtime/inspection";
-import type { ProviderCapability, ProviderTaskPorts } from "./runtime/types";
+import type { ProviderCapability } from "./runtime/types";
 
 // ─── Types ───────────────────────────────────────────────────────────
 
@@ -47,8 +74,13 @@ export interface SongWorkerSettings {
 	aceDcwWavelet: string;
 	aceThinking: boolean;
 	aceAutoDuration: boolean;
+	/** ACE-Step endpoint pool, primary first */
+	aceEndpoints?: AceEndpointConfig[];
 	personaProvider: string;
 	personaModel: string;
+	qualityGate: QualityGateConfig;
+	/** Seed new playlists' song prompts with the listener's taste profile. */
+	tasteProfilePrompts: boolean;
 }
 
 export interface SongWorkerContext {
@@ -157,13 +189,11 @@ export function buildAceSubmitInput({
 	song,
 	playlist,
 	settings,
-	signal,
 }: {
 	song: SongWire;
 	playlist: PlaylistWire;
 	settings: SongWorkerSettings;
-	signal?: AbortSignal;
-}): ProviderTaskPorts["submitAudio"] {
+}): AceRenderInputs {
 	const playlistAceModel = playlist.aceModel;
 	return {
 		lyrics: song.lyrics || "",
@@ -186,10 +216,15 @@ export function buildAceSubmitInput({
 		aceDcwWavelet: playlist.aceDcwWavelet ?? settings.aceDcwWavelet,
 		aceThinking: playlist.aceThinking ?? settings.aceThinking,
 		aceAutoDuration: playlist.aceAutoDuration ?? settings.aceAutoDuration,
-		signal,
 	};
 }
 
+function randomAceSeed(): number {
+	return Math.floor(Math.random() * ACE_SEED_MAX);
+}
+
+class QualityGateRejection extends Error {}
+
 // ─── SongWorker ──────────────────────────────────────────────────────
 
 export class SongWorker {
@@ -222,6 +257,24 @@ export class SongWorker {
 		return latest ? playlistToWire(latest) : null;
 	}
 
+	/** Attribute LLM usage inside a queued task to this song. */
+	private withUsageScope<T>(
+		execute: (signal: AbortSignal) => Promise<T>,
+	): (signal: AbortSignal) => Promise<T> {
+		const scope = { playlistId: this.ctx.playlist.id, songId: this.songId };
+		return (signal) =>
+			usageService.runWithUsageScope(scope, () => execute(signal));
+	}
+
+	/** Provenance is best-effort: a failed write never fails the song. */
+	private async recordProvenance(write: () => Promise<void>): Promise<void> {
+		try {
+			await write();
+		} catch (err) {
+			songLogger(this.songId).warn({ err }, "Failed to record provenance");
+		}
+	}
+
 	private async refreshPlaylistManager(
 		currentEpoch: number,
 		provider: LlmProvider,
@@ -518,6 +571,10 @@ export class SongWorker {
 	}
 
 	private lastError: string | undefined;
+	/** Cleared when a quality rejection finds the playlist's budget spent. */
+	private retryAllowed = true;
+	/** The rejection that caused the current error, marked if it's retried. */
+	private rejectedCheckId: string | undefined;
 
 	private buildSongMachine() {
 		const initialState = this.getInitialMachineState();
@@ -712,7 +769,16 @@ export class SongWorker {
 	private async handleErrorOutcome(message: string): Promise<void> {
 		this.lastError = message;
 		try {
-			await songService.markError(this.songId, message);
+			const retried = await songService.markError(
+				this.songId,
+				message,
+				undefined,
+				{ retry: this.retryAllowed },
+			);
+			// Only rejections that really regenerate spend the budget
+			if (retried && this.rejectedCheckId) {
+				await qualityService.markRetried(this.rejectedCheckId);
+			}
 		} catch (markErr) {
 			songLogger(this.songId).error(
 				{ err: markErr },
@@ -721,6 +787,30 @@ export class SongWorker {
 		}
 	}
 
+	/**
+	 * Taste summary for the first songs of a new playlist, once it has
+	 * settled into its own history the playlist prompt and ratings take over.
+	 */
+	private async resolveTasteProfile(
+		settings: SongWorkerSettings,
+	): Promise<string | undefined> {
+		if (!settings.tasteProfilePrompts) return undefined;
+		if (this.ctx.playlist.songsGenerated >= TASTE_PROFILE_NEW_PLAYLIST_SONGS) {
+			return undefined;
+		}
+		try {
+			return await tasteService.getTasteHint(
+				this.ctx.playlist.ownerUserId ?? null,
+			);
+		} catch (error) {
+			songLogger(this.songId).warn(
+				{ err: error },
+				"Failed to load taste profile; generating without it",
+			);
+			return undefined;
+		}
+	}
+
 	// ─── Pipeline Steps ──────────────────────────────────────────────
 
 	private async generateMetadata(): Promise<void> {
@@ -765,6 +855,8 @@ export class SongWorker {
 		if (!isInterrupt && !isOneshot) {
 			promptDistance = Math.random() < 0.6 ? "close" : "general";
 		}
+		const tasteProfile = await this.resolveTasteProfile(settings);
+		let managerSlot: ReturnType<typeof pickManagerSlot>;
 
 		this.ensurePlaylistManagerRefresh(
 			currentEpoch,
@@ -777,7 +869,11 @@ export class SongWorker {
 				songId: this.songId,
 				priority: this.getPriority(),
 				endpoint: effectiveProvider,
-				execute: async (signal) => {
+				execute: this.withUsageScope(async (signal) => {
+					managerSlot = pickManagerSlot(
+						this.song.orderIndex,
+						this.ctx.playlist.managerPlan,
+					);
 					const genOptions = {
 						prompt,
 						provider: effectiveProvider,
@@ -786,10 +882,7 @@ export class SongWorker {
 						managerBrief: this.ctx.playlist.managerBrief ?? undefined,
 						managerTransitionPolicy:
 							this.ctx.playlist.managerPlan?.transitionPolicy,
-						managerSlot: pickManagerSlot(
-							this.song.orderIndex,
-							this.ctx.playlist.managerPlan,
-						),
+						managerSlot,
 						targetBpm: this.ctx.playlist.targetBpm ?? undefined,
 						targetKey: this.ctx.playlist.targetKey ?? undefined,
 						timeSignature: this.ctx.playlist.timeSignature ?? undefined,
@@ -817,6 +910,7 @@ export class SongWorker {
 						recentDescriptions: this.ctx.recentDescriptions,
 						isInterrupt: genOptions.isInterrupt,
 						promptDistance: genOptions.promptDistance,
+						tasteProfile,
 						signal: genOptions.signal,
 					})) as SongMetadata;
 
@@ -842,6 +936,7 @@ export class SongWorker {
 							recentDescriptions: this.ctx.recentDescriptions,
 							isInterrupt: genOptions.isInterrupt,
 							promptDistance: genOptions.promptDistance,
+							tasteProfile,
 							signal: genOptions.signal,
 						})) as SongMetadata;
 						if (isDuplicate(result, this.ctx.recentSongs)) {
@@ -853,7 +948,7 @@ export class SongWorker {
 					}
 
 					return result;
-				},
+				}),
 			});
 
 			const metadata = result as SongMetadata;
@@ -889,6 +984,30 @@ export class SongWorker {
 			// Update local song state
 			this.song = { ...this.song, ...metadata, status: "metadata_ready" };
 
+			const promptEpoch = this.song.promptEpoch ?? currentEpoch;
+			await this.recordProvenance(() =>
+				provenanceService.recordMetadata(this.songId, {
+					prompt,
+					promptEpoch,
+					steerDirection: isInterrupt
+						? null
+						: provenanceService.steerDirectionAt(
+								this.ctx.playlist.steerHistory,
+								promptEpoch,
+							),
+					promptContract: resolveSongPromptContract({
+						prompt,
+						isInterrupt,
+						promptDistance,
+					}),
+					llmProvider: effectiveProvider,
+					llmModel: effectiveModel,
+					managerSlot,
+					tasteProfile,
+					processingMs,
+				}),
+			);
+
 			songLogger(this.songId).info(
 				{ title: metadata.title, artist: metadata.artistName, processingMs },
 				"Metadata complete",
@@ -913,19 +1032,23 @@ export class SongWorker {
 
 		const songId = this.songId;
 		const coverPrompt = this.song.coverPrompt;
+		const coverSong = {
+			title: this.song.title,
+			artistName: this.song.artistName,
+			genre: this.song.genre,
+			mood: this.song.mood,
+			energy: this.song.energy,
+		};
 		const priority = this.getPriority();
+		let imageProvider = "";
+		let imageModel: string | undefined;
 
 		// Fire-and-forget — we don't await this
 		this.ctx
 			.getSettings()
 			.then((settings) => {
-				const imageProvider =
-					settings.imageProvider === "ollama"
-						? "comfyui"
-						: settings.imageProvider === "openrouter"
-							? "inference-sh"
-							: settings.imageProvider;
-				const imageModel = settings.imageModel;
+				imageProvider = normalizeImageProvider(settings.imageProvider);
+				imageModel = settings.imageModel;
 
 				return this.ctx.queues.image.enqueue({
 					songId,
@@ -936,12 +1059,19 @@ export class SongWorker {
 							coverPrompt,
 							provider: imageProvider,
 							model: imageModel,
+							song: coverSong,
 							signal,
 						})) as {
 							imageBase64: string;
 							format?: string;
 						};
 						if (!result) throw new Error("No cover generated");
+						void usageService.recordImageCall({
+							provider: imageProvider,
+							model: imageModel,
+							playlistId: this.ctx.playlist.id,
+							songId,
+						});
 						return {
 							imageBase64: result.imageBase64,
 							format: result.format ?? "png",
@@ -953,6 +1083,14 @@ export class SongWorker {
 				const coverResult = result as { imageBase64: string; format: string };
 				// Capture base64 for NFS save in saveAndFinalize()
 				this.coverBase64 = coverResult.imageBase64;
+				await this.recordProvenance(() =>
+					provenanceService.recordCover(songId, {
+						coverPrompt,
+						provider: imageProvider,
+						model: imageModel,
+						processingMs,
+					}),
+				);
 
 				// Save cover image to disk and update song
 				try {
@@ -1015,29 +1153,63 @@ export class SongWorker {
 		);
 
 		try {
+			// Regenerated songs replay their source's exact inputs and seed
+			const pinned = await provenanceService
+				.getPinnedAceRender(this.songId)
+				.catch(() => null);
+			// The pool routes by model, so resolve it before queueing
+			const { aceModel } =
+				pinned?.inputs ??
+				buildAceSubmitInput({
+					song: this.song,
+					playlist: this.ctx.playlist,
+					settings: await this.ctx.getSettings(),
+				});
 			const { result: audioResult, processingMs } =
 				await this.ctx.queues.audio.enqueue({
 					songId: this.songId,
 					priority: this.getPriority(),
 					endpoint: "ace-step",
-					execute: async (signal) => {
-						const settings = await this.ctx.getSettings();
-						const result = await this.ctx.capabilities.submitAudio(
+					aceModel,
+					execute: async (signal, endpointUrl) => {
+						const inputs =
+							pinned?.inputs ??
 							buildAceSubmitInput({
 								song: this.song,
 								playlist: this.ctx.playlist,
-								settings,
-								signal,
-							}),
-						);
+								settings: await this.ctx.getSettings(),
+							});
+						const seed = pinned?.seed ?? randomAceSeed();
+						const result = await this.ctx.capabilities.submitAudio({
+							...inputs,
+							seed,
+							aceUrl: endpointUrl,
+							signal,
+						});
 
 						if (signal.aborted) throw new Error("Cancelled");
+						await this.recordProvenance(() =>
+							provenanceService.recordAudioSubmission(
+								this.songId,
+								inputs,
+								seed,
+							),
+						);
 
-						// Update DB with taskId
-						await songService.updateAceTask(this.songId, result.taskId);
+						// Update DB with taskId and where it runs
+						await songService.updateAceTask(
+							this.songId,
+							result.taskId,
+							endpointUrl ?? null,
+						);
+						this.song = { ...this.song, aceEndpoint: endpointUrl ?? null };
 
 						songLogger(this.songId).info(
-							{ aceTaskId: result.taskId, title: this.song.title },
+							{
+								aceTaskId: result.taskId,
+								endpoint: endpointUrl,
+								title: this.song.title,
+							},
 							"ACE task submitted",
 						);
 
@@ -1080,6 +1252,7 @@ export class SongWorker {
 					this.songId,
 					this.song.aceTaskId,
 					this.song.aceSubmittedAt || Date.now(),
+					this.song.aceEndpoint,
 				);
 
 			if (this.aborted) return;
@@ -1105,10 +1278,23 @@ export class SongWorker {
 	private async handleAudioResult(
 		taskId: string,
 		status: string,
-		audioResult: { audioPath?: string; error?: string },
+		audioResult: {
+			audioPath?: string;
+			error?: string;
+			timeCosts?: Record<string, number>;
+		},
 		processingMs: number,
 	): Promise<void> {
 		if (status === "succeeded" && audioResult.audioPath) {
+			void usageService.recordAudioRender({
+				gpuSeconds: usageService.aceGpuSeconds(
+					audioResult.timeCosts,
+					processingMs,
+				),
+				model: this.ctx.playlist.aceModel,
+				playlistId: this.ctx.playlist.id,
+				songId: this.songId,
+			});
 			await this.saveAndFinalize(audioResult.audioPath, processingMs);
 		} else if (status === "failed") {
 			songLogger(this.songId).error(
@@ -1129,6 +1315,66 @@ export class SongWorker {
 		}
 	}
 
+	/**
+	 * Reject near-silent, clipped, truncated or too-quiet renders before they
+	 * reach `ready`. The saved files are discarded and the song goes back
+	 * through `retry_pending` to be generated again, for as long as the
+	 * playlist's quality retry budget lasts. Unanalyzed renders pass.
+	 */
+	private async runQualityGate(saveResult: {
+		storagePath: string;
+		loudness: LoudnessResult | null;
+		analysis: AudioAnalysis | null;
+	}): Promise<void> {
+		this.rejectedCheckId = undefined;
+		const settings = await this.ctx.getSettings();
+		const qualityGate = settings.qualityGate;
+		if (!qualityGate.enabled || !saveResult.analysis) return;
+
+		const autoDuration =
+			this.ctx.playlist.aceAutoDuration ?? settings.aceAutoDuration;
+		const metrics: QualityMetrics = {
+			silenceRatio: saveResult.analysis.silenceRatio,
+			clippingRatio: saveResult.analysis.clippingRatio,
+			durationSec: saveResult.analysis.durationSec,
+			// With auto duration ACE picks the length, so there's nothing to compare
+			requestedDurationSec: autoDuration ? null : this.song.audioDuration,
+			loudnessLufs: saveResult.loudness?.loudnessLufs ?? null,
+		};
+		const findings = evaluateQuality(metrics, qualityGate);
+		const playlistId = this.ctx.playlist.id;
+		if (findings.length === 0) {
+			await qualityService.recordCheck({
+				songId: this.songId,
+				playlistId,
+				findings,
+				metrics,
+			});
+			return;
+		}
+
+		const reason = formatQualityFailure(findings);
+		const budget = qualityService.resolveRetryBudget(
+			this.ctx.playlist.qualityRetryBudget,
+			qualityGate.retryBudget,
+		);
+		const retriesUsed = await qualityService.countRetriesUsed(playlistId);
+		this.retryAllowed = retriesUsed < budget;
+		this.rejectedCheckId = await qualityService.recordCheck({
+			songId: this.songId,
+			playlistId,
+			findings,
+			metrics,
+			reason,
+		});
+		fs.rmSync(saveResult.storagePath, { recursive: true, force: true });
+		songLogger(this.songId).warn(
+			{ reason, metrics, retriesUsed, budget, retry: this.retryAllowed },
+			"Render rejected by quality gate",
+		);
+		throw new QualityGateRejection(reason);
+	}
+
 	private async saveAndFinalize(
 		audioPath: string,
 		audioProcessingMs: number,
@@ -1199,9 +1445,11 @@ export class SongWorker {
 				timeSignature: this.song.timeSignature || "4/4",
 				audioDuration: this.song.audioDuration || 240,
 				aceAudioPath: audioPath,
+				aceUrl: this.song.aceEndpoint ?? undefined,
 				cover: this.song.cover ?? null,
 				coverPngBase64: coverBase64ForNfs,
 			});
+			await this.runQualityGate(saveResult);
 			await songService.updateStoragePath(
 				this.songId,
 				saveResult.storagePath,
@@ -1214,6 +1462,26 @@ export class SongWorker {
 					saveResult.effectiveDuration,
 				);
 			}
+			if (saveResult.loudness) {
+				await songService.updateLoudness(this.songId, saveResult.loudness);
+			}
+			if (saveResult.analysis) {
+				const mismatch = describeAnalysisMismatch(
+					{ bpm: this.song.bpm, keyScale: this.song.keyScale },
+					saveResult.analysis,
+				);
+				if (mismatch) {
+					songLogger(this.songId).warn(
+						{ mismatch },
+						"Generated audio diverges from the requested tempo/key",
+					);
+				}
+				await songService.updateAnalysis(
+					this.songId,
+					saveResult.analysis,
+					mismatch,
+				);
+			}
 
 			// Write ID3 tags to the MP3
 			try {
@@ -1245,7 +1513,9 @@ export class SongWorker {
 				audioProcessingMs,
 			};
 			this.lastError = e instanceof Error ? e.message : String(e);
-			songLogger(this.songId).error({ err: e }, "NFS save failed");
+			if (!(e instanceof QualityGateRejection)) {
+				songLogger(this.songId).error({ err: e }, "NFS save failed");
+			}
 			throw e;
 		}
 
@@ -1253,6 +1523,9 @@ export class SongWorker {
 
 		const audioUrl = `/api/songs/${this.songId}/audio`;
 		await songService.markReady(this.songId, audioUrl, audioProcessingMs);
+		await this.recordProvenance(() =>
+			provenanceService.recordCompletion(this.songId, audioProcessingMs),
+		);
 		await playlistService.incrementGenerated(this.ctx.playlist.id);
 		queueMicrotask(() => {
 			scheduleMemoryCurator({
@@ -2,6 +2,8 @@ import type {
 	Device,
 	PlaybackState,
 	SongData,
+	TransitionMode,
+	TransitionSettings,
 } from "@infinitune/shared/protocol";
 import {
 	Download,
@@ -257,6 +259,15 @@ function DeviceCard({
 								INDIVIDUAL
 							</span>
 						)}
+						{typeof device.driftMs === "number" && (
+							<span
+								className="text-[9px] font-bold text-white/30 tabular-nums flex-shrink-0"
+								title="Last measured drift from the room timeline"
+							>
+								{device.driftMs > 0 ? "+" : ""}
+								{Math.round(device.driftMs)}MS
+							</span>
+						)}
 					</div>
 				</div>
 				<div className="flex items-center gap-1 flex-shrink-0">
@@ -355,6 +366,64 @@ function DeviceCard({
 	);
 }
 
+const TRANSITION_MODES: { mode: TransitionMode; label: string }[] = [
+	{ mode: "cut", label: "CUT" },
+	{ mode: "crossfade", label: "FADE" },
+	{ mode: "beat", label: "BEAT" },
+];
+
+const TRANSITION_SECONDS = [2, 4, 8];
+
+function TransitionControls({
+	transition,
+	onSetTransition,
+}: {
+	transition: TransitionSettings;
+	onSetTransition: (settings: TransitionSettings) => void;
+}) {
+	const seconds = transition.seconds > 0 ? transition.seconds : 4;
+	return (
+		<div className="flex items-center gap-1 mt-2">
+			<span className="text-[10px] font-black uppercase text-white/40 w-16 flex-shrink-0">
+				TRANSITION
+			</span>
+			{TRANSITION_MODES.map(({ mode, label }) => (
+				<button
+					key={mode}
+					type="button"
+					onClick={() =>
+						onSetTransition({ mode, seconds: mode === "cut" ? 0 : seconds })
+					}
+					className={`h-6 px-2 border-2 text-[10px] font-black uppercase transition-colors ${
+						transition.mode === mode
+							? "border-red-500 bg-red-500/20 text-red-400"
+							: "border-white/20 bg-white/5 text-white/50 hover:border-white/40"
+					}`}
+				>
+					{label}
+				</button>
+			))}
+			{transition.mode !== "cut" &&
+				TRANSITION_SECONDS.map((value) => (
+					<button
+						key={value}
+						type="button"
+						onClick={() =>
+							onSetTransition({ mode: transition.mode, seconds: value })
+						}
+						className={`h-6 px-1.5 border-2 text-[10px] font-bold tabular-nums transition-colors ${
+							transition.seconds === value
+								? "border-white/60 text-white"
+								: "border-white/10 text-white/40 hover:border-white/30"
+						}`}
+					>
+						{value}S
+					</button>
+				))}
+		</div>
+	);
+}
+
 interface DeviceControlPanelProps {
 	devices: Device[];
 	playback: PlaybackState;
@@ -369,6 +438,8 @@ interface DeviceControlPanelProps {
 	onRenameDevice?: (deviceId: string, name: string) => void;
 	onResetDeviceToDefault?: (deviceId: string) => void;
 	onSeek?: (time: number) => void;
+	transition?: TransitionSettings;
+	onSetTransition?: (settings: TransitionSettings) => void;
 }
 
 export function DeviceControlPanel({
@@ -385,6 +456,8 @@ export function DeviceControlPanel({
 	onRenameDevice,
 	onResetDeviceToDefault,
 	onSeek,
+	transition,
+	onSetTransition,
 }: DeviceControlPanelProps) {
 	const playerDevices = devices.filter((d) => d.role === "player");
 	const [renamingDevice, setRenamingDevice] = useState<Device | null>(null);
@@ -589,6 +662,12 @@ export function DeviceControlPanel({
 							</span>
 						</div>
 					)}
+					{transition && onSetTransition && (
+						<TransitionControls
+							transition={transition}
+							onSetTransition={onSetTransition}
+						/>
+					)}
 					<ProgressBar
 						currentTime={playback.currentTime}
 						duration={playback.duration}
@@ -1,7 +1,11 @@
+import { roleAllows } from "@infinitune/shared/playlist-roles";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import VinylIcon from "@/components/ui/vinyl-icon";
-import { useUpdatePlaylistPrompt } from "@/integrations/api/hooks";
+import {
+	usePlaylistCollaborators,
+	useUpdatePlaylistPrompt,
+} from "@/integrations/api/hooks";
 import type { Playlist } from "@/types";
 
 interface GenerationControlsProps {
@@ -10,6 +14,9 @@ interface GenerationControlsProps {
 
 export function GenerationControls({ playlist }: GenerationControlsProps) {
 	const updatePrompt = useUpdatePlaylistPrompt();
+	const viewerRole = usePlaylistCollaborators(playlist.id)?.viewerRole;
+	// Assume editing is allowed until the role loads; the server enforces it
+	const canSteer = !viewerRole || roleAllows(viewerRole, "steer");
 
 	const [prompt, setPromptValue] = useState(playlist.prompt);
 
@@ -39,6 +46,7 @@ export function GenerationControls({ playlist }: GenerationControlsProps) {
 				<textarea
 					value={prompt}
 					onChange={(e) => setPromptValue(e.target.value)}
+					readOnly={!canSteer}
 					className="w-full min-h-[80px] rounded-none border-4 border-white/20 bg-gray-900 px-3 py-2 font-mono text-sm font-bold uppercase text-white placeholder:text-white/20 focus:border-red-500 focus:outline-none resize-none"
 				/>
 				<div className="flex items-center justify-between mt-2">
@@ -49,7 +57,9 @@ export function GenerationControls({ playlist }: GenerationControlsProps) {
 					<Button
 						className="h-8 rounded-none border-2 border-white/20 bg-red-500 font-mono text-xs font-black uppercase text-white hover:bg-white hover:text-black hover:border-white"
 						onClick={handleUpdatePrompt}
-						disabled={!prompt.trim() || prompt.trim() === playlist.prompt}
+						disabled={
+							!canSteer || !prompt.trim() || prompt.trim() === playlist.prompt
+						}
 					>
 						UPDATE
 					</Button>
@@ -11,6 +11,7 @@ import { formatTime } from "@/lib/format-time";
 import { playerStore, setVolume, toggleMute } from "@/lib/player-store";
 import type { Song } from "@/types";
 import { CoverArt } from "./CoverArt";
+import { Waveform } from "./Waveform";
 
 interface NowPlayingProps {
 	song: Song | null;
@@ -98,6 +99,12 @@ export function NowPlaying({
 
 	const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
 
+	const scrubTo = (bar: HTMLElement, clientX: number) => {
+		const rect = bar.getBoundingClientRect();
+		const pct = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+		onSeek(pct * duration);
+	};
+
 	const handleDownload = useCallback(async () => {
 		if (!song?.audioUrl || isDownloading) return;
 		setIsDownloading(true);
@@ -227,11 +234,15 @@ export function NowPlaying({
 							aria-valuenow={Math.round(progress)}
 							aria-valuemin={0}
 							aria-valuemax={100}
-							className="border-2 border-white/30 bg-black/40 cursor-pointer backdrop-blur-sm"
-							onClick={(e) => {
-								const rect = e.currentTarget.getBoundingClientRect();
-								const pct = (e.clientX - rect.left) / rect.width;
-								onSeek(pct * duration);
+							className="border-2 border-white/30 bg-black/40 cursor-pointer backdrop-blur-sm touch-none"
+							onPointerDown={(e) => {
+								e.currentTarget.setPointerCapture(e.pointerId);
+								scrubTo(e.currentTarget, e.clientX);
+							}}
+							onPointerMove={(e) => {
+								if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+									scrubTo(e.currentTarget, e.clientX);
+								}
 							}}
 							onKeyDown={(e) => {
 								if (e.key === "ArrowRight") {
@@ -243,10 +254,18 @@ export function NowPlaying({
 								}
 							}}
 						>
-							<div
-								className="h-3 bg-red-500 transition-all"
-								style={{ width: `${progress}%` }}
-							/>
+							{song.waveformPeaks?.length ? (
+								<Waveform
+									peaks={song.waveformPeaks}
+									progress={progress / 100}
+									className="h-10 px-0.5"
+								/>
+							) : (
+								<div
+									className="h-3 bg-red-500 transition-all"
+									style={{ width: `${progress}%` }}
+								/>
+							)}
 						</div>
 					</div>
 
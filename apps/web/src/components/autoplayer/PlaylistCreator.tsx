@@ -32,6 +32,7 @@ import {
 } from "@/integrations/api/client";
 import {
 	useAutoplayerCodexModels,
+	useAutoplayerOpenAiCompatibleModelsQuery,
 	useSettings,
 } from "@/integrations/api/hooks";
 
@@ -127,6 +128,9 @@ export function PlaylistCreator({
 	const [provider, setProvider] = useState<LlmProvider>(DEFAULT_TEXT_PROVIDER);
 	const [model, setModel] = useState("");
 	const codexModels = useAutoplayerCodexModels() ?? [];
+	const { data: localModels = [] } = useAutoplayerOpenAiCompatibleModelsQuery(
+		provider === "openai-compatible",
+	);
 	const [loading, setLoading] = useState(false);
 	const [enhancing, setEnhancing] = useState(false);
 	const [loadingState, setLoadingState] = useState("");
@@ -178,8 +182,16 @@ export function PlaylistCreator({
 		}
 		if (provider === "anthropic" && !model.trim()) {
 			setModel(DEFAULT_ANTHROPIC_TEXT_MODEL);
+			return;
 		}
-	}, [provider, model, codexTextModels]);
+		if (
+			provider === "openai-compatible" &&
+			!model.trim() &&
+			localModels.length > 0
+		) {
+			setModel(localModels[0].name);
+		}
+	}, [provider, model, codexTextModels, localModels]);
 
 	const handleEnhancePrompt = async () => {
 		if (!prompt.trim() || !model.trim() || enhancing) return;
@@ -467,6 +479,20 @@ export function PlaylistCreator({
 									>
 										ANTHROPIC
 									</button>
+									<button
+										type="button"
+										className={`flex-1 h-10 border-4 border-l-0 border-white/20 font-mono text-xs font-black uppercase transition-colors ${
+											provider === "openai-compatible"
+												? "bg-white text-black"
+												: "bg-transparent text-white hover:bg-white/10"
+										}`}
+										onClick={() => {
+											setProvider("openai-compatible");
+											setModel("");
+										}}
+									>
+										LOCAL
+									</button>
 								</div>
 							</div>
 
@@ -492,13 +518,33 @@ export function PlaylistCreator({
 											))}
 										</SelectContent>
 									</Select>
+								) : provider === "openai-compatible" &&
+									localModels.length > 0 ? (
+									<Select value={model} onValueChange={setModel}>
+										<SelectTrigger className="w-full h-10 rounded-none border-4 border-white/20 bg-gray-900 font-mono text-sm font-bold uppercase text-white">
+											<SelectValue placeholder="SELECT LOCAL MODEL" />
+										</SelectTrigger>
+										<SelectContent className="rounded-none border-4 border-white/20 bg-gray-900 font-mono">
+											{localModels.map((m) => (
+												<SelectItem
+													key={m.name}
+													value={m.name}
+													className="font-mono text-sm font-bold uppercase text-white"
+												>
+													{m.name.toUpperCase()}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
 								) : (
 									<Input
 										className="h-10 rounded-none border-4 border-white/20 bg-gray-900 font-mono text-sm font-bold uppercase text-white focus-visible:ring-0"
 										placeholder={
 											provider === "openai-codex"
 												? DEFAULT_OPENAI_CODEX_TEXT_MODEL.toUpperCase()
-												: DEFAULT_ANTHROPIC_TEXT_MODEL.toUpperCase()
+												: provider === "openai-compatible"
+													? "MODEL ID"
+													: DEFAULT_ANTHROPIC_TEXT_MODEL.toUpperCase()
 										}
 										value={model}
 										onChange={(e) => setModel(e.target.value)}
@@ -0,0 +1,185 @@
+import {
+	COLLABORATOR_ROLES,
+	type CollaboratorRole,
+	roleAllows,
+} from "@infinitune/shared/playlist-roles";
+import { Copy, Users, X } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	useCreatePlaylistInvite,
+	usePlaylistCollaborators,
+	usePlaylistInvites,
+	useRemoveCollaborator,
+	useRevokePlaylistInvite,
+	useSetCollaboratorRole,
+} from "@/integrations/api/hooks";
+import type { Playlist } from "@/types";
+
+interface PlaylistSharingProps {
+	playlist: Playlist;
+}
+
+function inviteUrl(token: string): string {
+	return `${window.location.origin}/house?invite=${encodeURIComponent(token)}`;
+}
+
+export function PlaylistSharing({ playlist }: PlaylistSharingProps) {
+	const sharing = usePlaylistCollaborators(playlist.id);
+	const canManage = roleAllows(sharing?.viewerRole, "manage");
+	const invites = usePlaylistInvites(playlist.id, canManage) ?? [];
+	const createInvite = useCreatePlaylistInvite();
+	const revokeInvite = useRevokePlaylistInvite();
+	const setRole = useSetCollaboratorRole();
+	const removeCollaborator = useRemoveCollaborator();
+	const [inviteRole, setInviteRole] = useState<CollaboratorRole>("listener");
+
+	if (!sharing) return null;
+
+	const copyInvite = async () => {
+		const invite = await createInvite({
+			id: playlist.id,
+			role: inviteRole,
+		}).catch(() => null);
+		if (!invite) return;
+		try {
+			await navigator.clipboard.writeText(inviteUrl(invite.token));
+			toast.success("Invite link copied");
+		} catch {
+			toast.message(inviteUrl(invite.token));
+		}
+	};
+
+	return (
+		<div className="px-6 pb-6">
+			<div className="mb-2 flex items-center justify-between text-xs font-bold uppercase tracking-widest text-white/60">
+				<span className="flex items-center gap-2">
+					<Users className="h-3 w-3" />
+					SHARING
+				</span>
+				<span className="text-white/30">YOU: {sharing.viewerRole}</span>
+			</div>
+
+			<div className="border-2 border-white/10">
+				{sharing.collaborators.map((collaborator) => (
+					<div
+						key={collaborator.userId}
+						className="flex items-center gap-2 border-b border-white/10 px-3 py-2 last:border-b-0"
+					>
+						<span className="flex-1 truncate font-mono text-xs font-bold uppercase text-white/80">
+							{collaborator.name ?? collaborator.email ?? collaborator.userId}
+						</span>
+						{canManage && collaborator.role !== "owner" ? (
+							<>
+								<Select
+									value={collaborator.role}
+									onValueChange={(role) =>
+										setRole({
+											id: playlist.id,
+											userId: collaborator.userId,
+											role: role as CollaboratorRole,
+										})
+									}
+								>
+									<SelectTrigger className="h-7 w-28 rounded-none border-white/20 bg-gray-900 font-mono text-[10px] font-bold uppercase">
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent className="rounded-none font-mono">
+										{COLLABORATOR_ROLES.map((role) => (
+											<SelectItem key={role} value={role}>
+												{role.toUpperCase()}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+								<Button
+									variant="ghost"
+									className="h-7 w-7 rounded-none p-0 text-white/40 hover:text-red-400"
+									aria-label={`Remove ${collaborator.name ?? "collaborator"}`}
+									onClick={() =>
+										removeCollaborator({
+											id: playlist.id,
+											userId: collaborator.userId,
+										})
+									}
+								>
+									<X className="h-3.5 w-3.5" />
+								</Button>
+							</>
+						) : (
+							<span className="font-mono text-[10px] font-bold uppercase text-white/40">
+								{collaborator.role}
+							</span>
+						)}
+					</div>
+				))}
+			</div>
+
+			{canManage && (
+				<>
+					<div className="mt-3 flex gap-0">
+						<Select
+							value={inviteRole}
+							onValueChange={(role) => setInviteRole(role as CollaboratorRole)}
+						>
+							<SelectTrigger className="h-10 w-32 rounded-none border-2 border-white/20 bg-gray-900 font-mono text-xs font-bold uppercase">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent className="rounded-none font-mono">
+								{COLLABORATOR_ROLES.map((role) => (
+									<SelectItem key={role} value={role}>
+										{role.toUpperCase()}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+						<Button
+							className="h-10 flex-1 rounded-none border-2 border-l-0 border-white/20 bg-white font-mono text-xs font-black uppercase text-black hover:bg-red-500 hover:text-white hover:border-red-500"
+							onClick={copyInvite}
+							disabled={!playlist.ownerUserId}
+						>
+							<Copy className="mr-1.5 h-3.5 w-3.5" />
+							COPY INVITE LINK
+						</Button>
+					</div>
+					{!playlist.ownerUserId && (
+						<div className="mt-2 text-[10px] font-bold uppercase text-white/30">
+							SIGN IN BEFORE CREATING A PLAYLIST TO SHARE IT
+						</div>
+					)}
+					{invites.map((invite) => (
+						<div
+							key={invite.id}
+							className="mt-2 flex items-center justify-between font-mono text-[10px] font-bold uppercase text-white/40"
+						>
+							<span>
+								{invite.role} LINK · {invite.uses}
+								{invite.maxUses ? `/${invite.maxUses}` : ""} USED
+								{invite.expiresAt
+									? ` · EXPIRES ${new Date(invite.expiresAt).toLocaleDateString()}`
+									: ""}
+							</span>
+							<button
+								type="button"
+								className="hover:text-red-400"
+								onClick={() =>
+									revokeInvite({ id: playlist.id, inviteId: invite.id })
+								}
+							>
+								REVOKE
+							</button>
+						</div>
+					))}
+				</>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,177 @@
+import type { SongProvenance } from "@infinitune/shared/provenance";
+import { History, Loader2 } from "lucide-react";
+import { useState } from "react";
+import {
+	useCreateSongVariation,
+	useSongProvenance,
+} from "@/integrations/api/hooks";
+import { formatElapsed } from "@/lib/format-time";
+import type { Song } from "@/types";
+
+function Row({ label, value }: { label: string; value: string | null }) {
+	if (!value) return null;
+	return (
+		<div className="flex gap-3 text-xs font-bold uppercase">
+			<span className="w-24 shrink-0 text-white/30">{label}</span>
+			<span className="min-w-0 break-words text-white/70">{value}</span>
+		</div>
+	);
+}
+
+function formatMs(ms: number | undefined): string | null {
+	return ms === undefined ? null : formatElapsed(ms);
+}
+
+function describeSlot(provenance: SongProvenance): string | null {
+	const slot = provenance.managerSlot;
+	if (!slot) return null;
+	const focus =
+		"sonicFocus" in slot ? slot.sonicFocus : (slot.topicHint ?? null);
+	return [`SLOT ${slot.slot}`, slot.energyTarget, focus]
+		.filter(Boolean)
+		.join(" · ");
+}
+
+function describeAce(provenance: SongProvenance): string | null {
+	const inputs = provenance.aceInputs;
+	if (!inputs) return null;
+	return [
+		inputs.aceModel,
+		inputs.inferenceSteps ? `${inputs.inferenceSteps} STEPS` : null,
+		inputs.inferMethod,
+		inputs.lmTemperature !== undefined ? `LM T${inputs.lmTemperature}` : null,
+		`${inputs.bpm} BPM`,
+		inputs.keyScale,
+		inputs.timeSignature,
+		`${inputs.audioDuration}S`,
+	]
+		.filter(Boolean)
+		.join(" · ");
+}
+
+interface SongProvenancePanelProps {
+	song: Song;
+}
+
+export function SongProvenancePanel({ song }: SongProvenancePanelProps) {
+	const provenance = useSongProvenance(song.id);
+	const createVariation = useCreateSongVariation();
+	const [submitting, setSubmitting] = useState(false);
+
+	if (!provenance) return null;
+
+	const contract = provenance.promptContract;
+	const canRegenerate =
+		(song.status === "ready" || song.status === "played") &&
+		!!provenance.aceInputs &&
+		provenance.aceSeed !== null;
+
+	const handleRegenerate = async () => {
+		setSubmitting(true);
+		try {
+			await createVariation({ id: song.id, mode: "regenerate" });
+		} catch {
+			// toast already shown by the mutation hook
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	return (
+		<div className="border-4 border-white/10 bg-black">
+			<div className="border-b-2 border-white/10 px-4 py-2">
+				<span className="text-xs font-black uppercase tracking-widest text-white/40">
+					<History className="h-3 w-3 inline mr-2" />
+					HOW THIS WAS MADE
+				</span>
+			</div>
+			<div className="p-4 space-y-1.5">
+				{provenance.sourceSongId && (
+					<p className="text-[10px] font-bold uppercase text-yellow-400/70">
+						RE-RENDERED FROM {provenance.sourceSongId.slice(0, 8)}
+					</p>
+				)}
+				<Row label="PROMPT" value={provenance.prompt} />
+				<Row
+					label="EPOCH"
+					value={
+						provenance.promptEpoch === null
+							? null
+							: [`EPOCH ${provenance.promptEpoch}`, provenance.steerDirection]
+									.filter(Boolean)
+									.join(" · ")
+					}
+				/>
+				<Row
+					label="CONTRACT"
+					value={
+						contract
+							? `${contract.distance} · ${contract.profile} · ${contract.mode} · T${contract.temperature}`
+							: null
+					}
+				/>
+				<Row
+					label="LLM"
+					value={
+						provenance.llmProvider
+							? `${provenance.llmProvider} / ${provenance.llmModel ?? "?"}`
+							: null
+					}
+				/>
+				<Row label="MANAGER" value={describeSlot(provenance)} />
+				<Row
+					label="PERSONA"
+					value={
+						provenance.personaProvider
+							? `${provenance.personaProvider} / ${provenance.personaModel ?? "?"}`
+							: null
+					}
+				/>
+				<Row label="TASTE" value={provenance.tasteProfile} />
+				<Row label="ACE-STEP" value={describeAce(provenance)} />
+				<Row
+					label="SEED"
+					value={
+						provenance.aceSeed === null ? null : String(provenance.aceSeed)
+					}
+				/>
+				<Row
+					label="COVER"
+					value={
+						provenance.coverProvider
+							? [provenance.coverProvider, provenance.coverModel]
+									.filter(Boolean)
+									.join(" / ")
+							: null
+					}
+				/>
+				<Row
+					label="TIMINGS"
+					value={
+						[
+							formatMs(provenance.timings.metadataMs) &&
+								`LLM ${formatMs(provenance.timings.metadataMs)}`,
+							formatMs(provenance.timings.coverMs) &&
+								`COVER ${formatMs(provenance.timings.coverMs)}`,
+							formatMs(provenance.timings.audioMs) &&
+								`AUDIO ${formatMs(provenance.timings.audioMs)}`,
+						]
+							.filter(Boolean)
+							.join(" · ") || null
+					}
+				/>
+				{canRegenerate && (
+					<button
+						type="button"
+						className="mt-2 flex w-full items-center justify-center gap-2 border-2 border-white/20 py-2 text-xs font-black uppercase text-white/70 hover:border-white hover:bg-white hover:text-black transition-colors disabled:opacity-40 disabled:pointer-events-none"
+						onClick={handleRegenerate}
+						disabled={submitting}
+					>
+						{submitting && <Loader2 className="h-3 w-3 animate-spin" />}
+						REGENERATE WITH IDENTICAL INPUTS
+					</button>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,202 @@
+import type { SongVariationMode } from "@infinitune/shared/types";
+import { GitBranch, Loader2 } from "lucide-react";
+import { useState } from "react";
+import {
+	useCreateSongVariation,
+	useSongFamily,
+} from "@/integrations/api/hooks";
+import { formatTime } from "@/lib/format-time";
+import { STATUS_LABELS } from "@/lib/song-status";
+import type { Song } from "@/types";
+
+const MODE_LABELS: Record<SongVariationMode, string> = {
+	resing: "RE-SING",
+	arrangement: "ARRANGEMENT",
+	extend: "EXTEND",
+	regenerate: "RERENDER",
+};
+
+const MODE_HINTS: Record<SongVariationMode, string> = {
+	resing: "SAME LYRICS AND KEY, NEW VOICE",
+	arrangement: "SAME SONG, DIFFERENT INSTRUMENTATION",
+	extend: "LONGER CUT OF THE SAME SONG",
+	regenerate: "SAME INPUTS AND SEED, RENDERED AGAIN",
+};
+
+// Regenerating is offered from the provenance panel, not the picker
+const PICKER_MODES: SongVariationMode[] = ["resing", "arrangement", "extend"];
+
+const INPUT_CLASS =
+	"w-full bg-white/5 border-2 border-white/15 px-3 py-2 text-xs font-mono font-bold uppercase placeholder:text-white/20 focus:outline-none focus:border-red-500 transition-colors";
+
+interface SongVariationsProps {
+	song: Song;
+}
+
+export function SongVariations({ song }: SongVariationsProps) {
+	const createVariation = useCreateSongVariation();
+	const family = useSongFamily(song.id);
+	const [mode, setMode] = useState<SongVariationMode>("resing");
+	const [vocalStyle, setVocalStyle] = useState("");
+	const [prompt, setPrompt] = useState("");
+	const [duration, setDuration] = useState("");
+	const [submitting, setSubmitting] = useState(false);
+
+	const canVary = song.status === "ready" || song.status === "played";
+	const parsedDuration = duration.trim() ? Number(duration) : undefined;
+	// The server only accepts extensions longer than the original
+	const parentDuration = song.audioDuration ?? 240;
+	const minDuration = Math.floor(parentDuration) + 1;
+	const canSubmit =
+		canVary &&
+		!submitting &&
+		(mode !== "resing" || vocalStyle.trim().length > 0) &&
+		(mode !== "extend" || minDuration <= 600) &&
+		(parsedDuration === undefined ||
+			(Number.isFinite(parsedDuration) &&
+				(mode !== "extend" || parsedDuration >= minDuration)));
+
+	const handleSubmit = async () => {
+		if (!canSubmit) return;
+		setSubmitting(true);
+		try {
+			await createVariation({
+				id: song.id,
+				mode,
+				vocalStyle: vocalStyle.trim() || undefined,
+				prompt: prompt.trim() || undefined,
+				audioDuration: mode === "extend" ? parsedDuration : undefined,
+			});
+			setPrompt("");
+			setVocalStyle("");
+			setDuration("");
+		} catch {
+			// toast already shown by the mutation hook
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	const members = family?.members ?? [];
+
+	return (
+		<div className="border-4 border-white/10 bg-black">
+			<div className="border-b-2 border-white/10 px-4 py-2">
+				<span className="text-xs font-black uppercase tracking-widest text-white/40">
+					<GitBranch className="h-3 w-3 inline mr-2" />
+					VARIATIONS
+				</span>
+			</div>
+			<div className="p-4 space-y-3">
+				{canVary ? (
+					<>
+						<div className="flex gap-2">
+							{PICKER_MODES.map((m) => (
+								<button
+									key={m}
+									type="button"
+									className={`flex-1 border-2 px-2 py-1.5 text-xs font-black uppercase transition-colors ${
+										mode === m
+											? "border-red-500 bg-red-500 text-black"
+											: "border-white/20 text-white/60 hover:border-white/40"
+									}`}
+									onClick={() => setMode(m)}
+								>
+									{MODE_LABELS[m]}
+								</button>
+							))}
+						</div>
+						<p className="text-[10px] font-bold uppercase text-white/30">
+							{MODE_HINTS[mode]}
+						</p>
+						{mode === "resing" && (
+							<input
+								type="text"
+								value={vocalStyle}
+								onChange={(e) => setVocalStyle(e.target.value)}
+								placeholder={song.vocalStyle || "GRAVELLY BARITONE..."}
+								className={INPUT_CLASS}
+							/>
+						)}
+						{mode === "extend" && (
+							<input
+								type="number"
+								min={minDuration}
+								max={600}
+								value={duration}
+								onChange={(e) => setDuration(e.target.value)}
+								placeholder={`SECONDS (${minDuration}-600, DEFAULT ${Math.min(
+									600,
+									Math.round(parentDuration * 1.5),
+								)})`}
+								className={INPUT_CLASS}
+							/>
+						)}
+						<input
+							type="text"
+							value={prompt}
+							onChange={(e) => setPrompt(e.target.value)}
+							onKeyDown={(e) => {
+								if (e.key === "Enter") handleSubmit();
+							}}
+							placeholder={
+								mode === "arrangement"
+									? "STRIPPED BACK, ACOUSTIC GUITAR..."
+									: "OPTIONAL DIRECTION..."
+							}
+							className={INPUT_CLASS}
+						/>
+						<button
+							type="button"
+							className="flex w-full items-center justify-center gap-2 border-2 border-red-500 bg-red-500/10 py-2 text-xs font-black uppercase text-red-400 hover:bg-red-500 hover:text-white transition-colors disabled:opacity-40 disabled:pointer-events-none"
+							onClick={handleSubmit}
+							disabled={!canSubmit}
+						>
+							{submitting && <Loader2 className="h-3 w-3 animate-spin" />}
+							CREATE VARIATION
+						</button>
+					</>
+				) : (
+					<p className="text-xs font-bold uppercase text-white/30">
+						VARIATIONS ARE AVAILABLE ONCE THE TRACK IS FINISHED
+					</p>
+				)}
+
+				{members.length > 1 && (
+					<div>
+						<p className="text-[10px] font-bold uppercase text-white/30 mb-1">
+							FAMILY
+						</p>
+						<div className="space-y-1">
+							{members.map((member) => (
+								<div
+									key={member.id}
+									className={`flex items-center gap-2 border px-2 py-1 text-xs font-bold uppercase ${
+										member.id === song.id
+											? "border-red-500/50 text-white"
+											: "border-white/10 text-white/50"
+									}`}
+								>
+									<span className="flex-1 truncate">
+										{member.title || "Generating..."}
+									</span>
+									<span className="text-[10px] text-white/30">
+										{member.variationMode
+											? MODE_LABELS[member.variationMode]
+											: "ORIGINAL"}
+									</span>
+									<span className="text-[10px] text-white/30">
+										{member.audioDuration
+											? formatTime(member.audioDuration)
+											: STATUS_LABELS[member.status] ||
+												member.status.toUpperCase()}
+									</span>
+								</div>
+							))}
+						</div>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
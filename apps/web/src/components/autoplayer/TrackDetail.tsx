@@ -1,4 +1,10 @@
-import { Loader2, Palette, ThumbsDown } from "lucide-react";
+import {
+	AlertTriangle,
+	AudioWaveform,
+	Loader2,
+	Palette,
+	ThumbsDown,
+} from "lucide-react";
 import { useState } from "react";
 import ClockIcon from "@/components/ui/clock-icon";
 import FileDescriptionIcon from "@/components/ui/file-description-icon";
@@ -7,12 +13,24 @@ import RefreshIcon from "@/components/ui/refresh-icon";
 import TrashIcon from "@/components/ui/trash-icon";
 import VinylIcon from "@/components/ui/vinyl-icon";
 import XIcon from "@/components/ui/x-icon";
-import { useDeleteSong, useRevertSong } from "@/integrations/api/hooks";
-import { formatElapsed, formatTime, isGenerating } from "@/lib/format-time";
+import {
+	useDeleteSong,
+	useRevertSong,
+	useSongSkips,
+} from "@/integrations/api/hooks";
+import {
+	formatElapsed,
+	formatTime,
+	formatTimeAgo,
+	isGenerating,
+} from "@/lib/format-time";
 import { STATUS_LABELS } from "@/lib/song-status";
 import type { Song } from "@/types";
 import { CoverArt } from "./CoverArt";
 import { LiveTimer } from "./LiveTimer";
+import { SongProvenancePanel } from "./SongProvenancePanel";
+import { SongVariations } from "./SongVariations";
+import { Waveform } from "./Waveform";
 
 interface TrackDetailProps {
 	song: Song;
@@ -35,6 +53,9 @@ export function TrackDetail({ song, onClose, onDeleted }: TrackDetailProps) {
 	const deleteSong = useDeleteSong();
 	const revertStatuses = useRevertSong();
 	const [confirmDelete, setConfirmDelete] = useState(false);
+	const skipCount = song.skipCount ?? 0;
+	const earlySkipCount = song.earlySkipCount ?? 0;
+	const skips = useSongSkips(skipCount > 0 ? song.id : null);
 
 	const generating = isGenerating(song.status);
 
@@ -127,6 +148,11 @@ export function TrackDetail({ song, onClose, onDeleted }: TrackDetailProps) {
 										INTERRUPT
 									</span>
 								)}
+								{song.parentSongId && (
+									<span className="border-2 border-red-500/60 px-2 py-1 text-xs font-black uppercase text-red-400">
+										VARIATION
+									</span>
+								)}
 							</div>
 
 							{/* Status */}
@@ -240,7 +266,40 @@ export function TrackDetail({ song, onClose, onDeleted }: TrackDetailProps) {
 										TOTAL: {formatElapsed(song.playDurationMs)}
 									</span>
 								)}
+								{skipCount > 0 && (
+									<span
+										className={`text-xs font-bold uppercase ${
+											earlySkipCount > 0 ? "text-orange-400" : "text-white/40"
+										}`}
+									>
+										{skipCount} {skipCount === 1 ? "SKIP" : "SKIPS"}
+										{earlySkipCount > 0 && ` (${earlySkipCount} EARLY)`}
+									</span>
+								)}
 							</div>
+							{skips && skips.length > 0 && (
+								<ul className="space-y-1">
+									{skips.slice(0, 5).map((skip) => (
+										<li
+											key={skip.id}
+											className="flex items-center gap-2 text-[10px] font-bold uppercase text-white/30"
+										>
+											<span
+												className={
+													skip.early ? "text-orange-400" : "text-white/50"
+												}
+											>
+												SKIPPED AT {formatTime(skip.positionSec)}
+											</span>
+											<span>
+												{skip.deviceName || skip.source}
+												{" · "}
+												{formatTimeAgo(skip.createdAt)}
+											</span>
+										</li>
+									))}
+								</ul>
+							)}
 						</div>
 					</div>
 
@@ -284,8 +343,83 @@ export function TrackDetail({ song, onClose, onDeleted }: TrackDetailProps) {
 								</p>
 							</div>
 						</div>
+						{song.loudnessLufs != null && (
+							<div className="grid grid-cols-3 divide-x-2 divide-white/10 border-t-2 border-white/10">
+								<div className="p-3 text-center">
+									<p className="text-[10px] font-bold uppercase text-white/30">
+										LOUDNESS
+									</p>
+									<p className="text-lg font-black">
+										{song.loudnessLufs.toFixed(1)} LUFS
+									</p>
+								</div>
+								<div className="p-3 text-center">
+									<p className="text-[10px] font-bold uppercase text-white/30">
+										TRUE PEAK
+									</p>
+									<p className="text-lg font-black">
+										{song.truePeakDbtp != null
+											? `${song.truePeakDbtp.toFixed(1)} DBTP`
+											: "--"}
+									</p>
+								</div>
+								<div className="p-3 text-center">
+									<p className="text-[10px] font-bold uppercase text-white/30">
+										GAIN
+									</p>
+									<p className="text-lg font-black">
+										{song.replayGainDb != null
+											? `${song.replayGainDb > 0 ? "+" : ""}${song.replayGainDb.toFixed(1)} DB`
+											: "--"}
+									</p>
+								</div>
+							</div>
+						)}
 					</div>
 
+					{/* Audio Analysis */}
+					{(song.waveformPeaks?.length || song.measuredBpm != null) && (
+						<div className="border-4 border-white/10 bg-black">
+							<div className="border-b-2 border-white/10 px-4 py-2">
+								<span className="text-xs font-black uppercase tracking-widest text-white/40">
+									<AudioWaveform className="h-3 w-3 inline mr-2" />
+									AUDIO ANALYSIS
+								</span>
+							</div>
+							<div className="p-4 space-y-3">
+								{song.waveformPeaks?.length ? (
+									<Waveform peaks={song.waveformPeaks} />
+								) : null}
+								{song.energyCurve?.length ? (
+									<div>
+										<p className="text-[10px] font-bold uppercase text-white/30 mb-1">
+											ENERGY
+										</p>
+										<Waveform
+											peaks={song.energyCurve}
+											className="h-6 items-end"
+										/>
+									</div>
+								) : null}
+								<div className="flex flex-wrap gap-4 text-xs font-bold uppercase text-white/60">
+									<span>
+										MEASURED BPM:{" "}
+										{song.measuredBpm != null
+											? Math.round(song.measuredBpm)
+											: "--"}
+									</span>
+									<span>MEASURED KEY: {song.measuredKey ?? "--"}</span>
+								</div>
+								{song.analysisMismatch && (
+									<p className="flex items-start gap-2 border-2 border-yellow-500/40 px-2 py-1 text-xs font-bold uppercase text-yellow-400">
+										<AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+										{song.analysisMismatch}
+									</p>
+								)}
+							</div>
+						</div>
+					)}
+
 					{/* Tags & Metadata */}
 					{(song.mood || song.energy || song.era || song.language) && (
 						<div className="border-4 border-white/10 bg-black">
@@ -413,6 +547,12 @@ export function TrackDetail({ song, onClose, onDeleted }: TrackDetailProps) {
 						</div>
 					)}
 
+					{/* Provenance */}
+					<SongProvenancePanel song={song} />
+
+					{/* Variations */}
+					<SongVariations song={song} />
+
 					{/* Lyrics */}
 					<div className="border-4 border-white/10 bg-black">
 						<div className="border-b-2 border-white/10 px-4 py-2">
@@ -0,0 +1,24 @@
+interface WaveformProps {
+	/** Normalized 0-1 peaks from the server's audio analysis. */
+	peaks: number[];
+	/** Fraction of the track already played (0-1). */
+	progress?: number;
+	className?: string;
+}
+
+export function Waveform({ peaks, progress = 0, className }: WaveformProps) {
+	return (
+		<div className={`flex items-center gap-px ${className ?? "h-12"}`}>
+			{peaks.map((peak, i) => (
+				<div
+					// biome-ignore lint/suspicious/noArrayIndexKey: peaks are a fixed-length series
+					key={i}
+					className={`flex-1 ${
+						i / peaks.length < progress ? "bg-red-500" : "bg-white/30"
+					}`}
+					style={{ height: `${Math.max(6, peak * 100)}%` }}
+				/>
+			))}
+		</div>
+	);
+}
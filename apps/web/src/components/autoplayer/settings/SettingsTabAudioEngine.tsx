@@ -2,6 +2,12 @@ import {
 	ACE_DCW_DEFAULTS,
 	ACE_DCW_MODES,
 } from "@infinitune/shared/ace-settings";
+import type { LoudnessNormalizationMode } from "@infinitune/shared/loudness";
+import {
+	QUALITY_GATE_DEFAULTS,
+	QUALITY_GATE_SETTINGS,
+	type QualityGateConfig,
+} from "@infinitune/shared/quality-gate";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -36,9 +42,56 @@ export interface AudioEngineTabProps {
 	setAceDcwHighScaler: (v: string) => void;
 	aceDcwWavelet: string;
 	setAceDcwWavelet: (v: string) => void;
+	loudnessNormalization: LoudnessNormalizationMode;
+	setLoudnessNormalization: (v: LoudnessNormalizationMode) => void;
+	qualityGate: QualityGateDraft;
+	setQualityGate: (v: QualityGateDraft) => void;
 	activePlaylist: boolean;
 }
 
+/** Quality-gate thresholds as edited in the form; ratios shown as percentages. */
+export interface QualityGateDraft {
+	enabled: boolean;
+	maxSilencePercent: string;
+	maxClippingPercent: string;
+	minDurationPercent: string;
+	minLoudnessLufs: string;
+	retryBudget: string;
+}
+
+export function toQualityGateDraft(
+	config: QualityGateConfig,
+): QualityGateDraft {
+	const percent = (ratio: number) => String(Math.round(ratio * 10000) / 100);
+	return {
+		enabled: config.enabled,
+		maxSilencePercent: percent(config.maxSilenceRatio),
+		maxClippingPercent: percent(config.maxClippingRatio),
+		minDurationPercent: percent(config.minDurationRatio),
+		minLoudnessLufs: String(config.minLoudnessLufs),
+		retryBudget: String(config.retryBudget),
+	};
+}
+
+/** Settings entries for a draft. Blank fields fall back to the defaults server-side. */
+export function qualityGateSettingEntries(
+	draft: QualityGateDraft,
+): Array<{ key: string; value: string }> {
+	const ratio = (percent: string) => {
+		const parsed = Number.parseFloat(percent);
+		return Number.isFinite(parsed) ? String(parsed / 100) : "";
+	};
+	const keys = QUALITY_GATE_SETTINGS;
+	return [
+		{ key: keys.enabled, value: String(draft.enabled) },
+		{ key: keys.maxSilenceRatio, value: ratio(draft.maxSilencePercent) },
+		{ key: keys.maxClippingRatio, value: ratio(draft.maxClippingPercent) },
+		{ key: keys.minDurationRatio, value: ratio(draft.minDurationPercent) },
+		{ key: keys.minLoudnessLufs, value: draft.minLoudnessLufs },
+		{ key: keys.retryBudget, value: draft.retryBudget },
+	];
+}
+
 const inputClass =
 	"h-10 rounded-none border-4 border-white/20 bg-gray-900 font-mono text-sm font-bold uppercase text-white focus-visible:ring-0";
 
@@ -52,7 +105,7 @@ function ToggleButtons<T>({
 	value,
 	onChange,
 }: {
-	options: [ToggleOption<T>, ToggleOption<T>];
+	options: ToggleOption<T>[];
 	value: T;
 	onChange: (v: T) => void;
 }): React.ReactElement {
@@ -102,8 +155,20 @@ export function SettingsTabAudioEngine({
 	setAceDcwHighScaler,
 	aceDcwWavelet,
 	setAceDcwWavelet,
+	loudnessNormalization,
+	setLoudnessNormalization,
+	qualityGate,
+	setQualityGate,
 	activePlaylist,
 }: AudioEngineTabProps) {
+	const decimalField =
+		(key: Exclude<keyof QualityGateDraft, "enabled">, signed = false) =>
+		(e: React.ChangeEvent<HTMLInputElement>) => {
+			const pattern = signed ? /^-?\d*\.?\d*$/ : /^\d*\.?\d*$/;
+			if (e.target.value === "" || pattern.test(e.target.value))
+				setQualityGate({ ...qualityGate, [key]: e.target.value });
+		};
+
 	return (
 		<div className="space-y-8">
 			<SettingsPanel
@@ -275,6 +340,97 @@ export function SettingsTabAudioEngine({
 				</div>
 			</SettingsPanel>
 
+			<SettingsPanel title="PLAYBACK">
+				<SettingsField
+					label="Loudness Normalization"
+					hint="EBU R128 — TRACK = EVERY SONG AT THE SAME LEVEL, PLAYLIST = ONE GAIN FOR THE WHOLE PLAYLIST"
+				>
+					<ToggleButtons
+						options={[
+							{ label: "OFF", value: "off" },
+							{ label: "TRACK", value: "track" },
+							{ label: "PLAYLIST", value: "playlist" },
+						]}
+						value={loudnessNormalization}
+						onChange={setLoudnessNormalization}
+					/>
+				</SettingsField>
+			</SettingsPanel>
+
+			<SettingsPanel title="QUALITY GATE">
+				<SettingsField
+					label="Render Check"
+					hint="REJECTS NEAR-SILENT, CLIPPED, TRUNCATED OR TOO-QUIET RENDERS AND REGENERATES THEM"
+				>
+					<ToggleButtons
+						options={[
+							{ label: "ON", value: true },
+							{ label: "OFF", value: false },
+						]}
+						value={qualityGate.enabled}
+						onChange={(enabled) => setQualityGate({ ...qualityGate, enabled })}
+					/>
+				</SettingsField>
+
+				<div className="grid grid-cols-2 gap-3">
+					<SettingsField label="Max Silence %">
+						<Input
+							className={inputClass}
+							placeholder="40"
+							value={qualityGate.maxSilencePercent}
+							onChange={decimalField("maxSilencePercent")}
+						/>
+					</SettingsField>
+
+					<SettingsField label="Max Clipping %">
+						<Input
+							className={inputClass}
+							placeholder="0.5"
+							value={qualityGate.maxClippingPercent}
+							onChange={decimalField("maxClippingPercent")}
+						/>
+					</SettingsField>
+				</div>
+
+				<div className="grid grid-cols-2 gap-3">
+					<SettingsField
+						label="Min Duration %"
+						hint="OF THE REQUESTED LENGTH — SKIPPED WITH AUTO DURATION"
+					>
+						<Input
+							className={inputClass}
+							placeholder="60"
+							value={qualityGate.minDurationPercent}
+							onChange={decimalField("minDurationPercent")}
+						/>
+					</SettingsField>
+
+					<SettingsField label="Loudness Floor (LUFS)">
+						<Input
+							className={inputClass}
+							placeholder="-35"
+							value={qualityGate.minLoudnessLufs}
+							onChange={decimalField("minLoudnessLufs", true)}
+						/>
+					</SettingsField>
+				</div>
+
+				<SettingsField
+					label="Retry Budget"
+					hint="REGENERATIONS PER PLAYLIST PER 24 H — PLAYLISTS CAN OVERRIDE THIS ON THE QUEUE PAGE"
+				>
+					<Input
+						className={inputClass}
+						placeholder="10"
+						value={qualityGate.retryBudget}
+						onChange={(e) => {
+							if (/^\d*$/.test(e.target.value))
+								setQualityGate({ ...qualityGate, retryBudget: e.target.value });
+						}}
+					/>
+				</SettingsField>
+			</SettingsPanel>
+
 			<Button
 				className="w-full h-10 rounded-none border-2 border-white/20 bg-transparent font-mono text-xs font-black uppercase text-white/60 hover:bg-white/10 hover:text-white"
 				onClick={() => {
@@ -289,6 +445,8 @@ export function SettingsTabAudioEngine({
 					setAceDcwScaler(String(ACE_DCW_DEFAULTS.scaler));
 					setAceDcwHighScaler(String(ACE_DCW_DEFAULTS.highScaler));
 					setAceDcwWavelet(ACE_DCW_DEFAULTS.wavelet);
+					setLoudnessNormalization("track");
+					setQualityGate(toQualityGateDraft(QUALITY_GATE_DEFAULTS));
 				}}
 			>
 				RESET TO DEFAULTS
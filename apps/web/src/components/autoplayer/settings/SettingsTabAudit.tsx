@@ -0,0 +1,342 @@
+import {
+	AUDIT_ACTIONS,
+	AUDIT_RETENTION_SETTING,
+	type AuditAction,
+	type AuditEntry,
+	normalizeAuditRetentionDays,
+} from "@infinitune/shared/audit";
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	type AuditLogFilters,
+	useAuditLog,
+	usePlaylistsAll,
+	useSetSetting,
+	useSetting,
+} from "@/integrations/api/hooks";
+import { SettingsField, SettingsPanel } from "./SettingsPanel";
+
+const inputClass =
+	"h-10 rounded-none border-4 border-white/20 bg-gray-900 font-mono text-sm text-white focus-visible:ring-0";
+const selectTriggerClass =
+	"w-full h-10 rounded-none border-4 border-white/20 bg-gray-900 font-mono text-sm font-bold uppercase text-white";
+const selectContentClass =
+	"rounded-none border-4 border-white/20 bg-gray-900 font-mono";
+const selectItemClass =
+	"font-mono text-sm font-bold uppercase text-white cursor-pointer";
+const actionClass =
+	"font-mono text-[10px] font-black uppercase tracking-wider text-white/40 hover:text-yellow-400 transition-colors disabled:opacity-40";
+
+const ANY = "__any__";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PERIODS = [
+	{ id: ANY, label: "ALL TIME", days: null },
+	{ id: "1", label: "LAST 24 HOURS", days: 1 },
+	{ id: "7", label: "LAST 7 DAYS", days: 7 },
+	{ id: "30", label: "LAST 30 DAYS", days: 30 },
+] as const;
+
+function formatValue(value: unknown): string {
+	if (value === null || value === undefined) return "—";
+	return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function actorLabel(entry: AuditEntry): string {
+	if (entry.actorKind === "user") {
+		return entry.actorName ?? entry.actorUserId ?? "USER";
+	}
+	if (entry.actorKind === "device") return entry.deviceName ?? "DEVICE";
+	return "ANONYMOUS";
+}
+
+function AuditRow({
+	entry,
+	playlistName,
+	onFilterActor,
+	onFilterDevice,
+}: {
+	entry: AuditEntry;
+	playlistName: string | null;
+	onFilterActor: (userId: string) => void;
+	onFilterDevice: (deviceId: string) => void;
+}) {
+	const [expanded, setExpanded] = useState(false);
+	const hasValues = entry.before !== null || entry.after !== null;
+
+	return (
+		<div className="border-b border-white/5 px-2 py-1.5 font-mono text-[10px] uppercase">
+			<div className="flex flex-wrap items-center gap-x-3 gap-y-1">
+				<span className="shrink-0 text-white/30">
+					{new Date(entry.createdAt).toLocaleString()}
+				</span>
+				<span className="shrink-0 font-black text-yellow-400">
+					{entry.action}
+				</span>
+				<button
+					type="button"
+					className="shrink-0 font-bold text-white/70 hover:text-white disabled:hover:text-white/70"
+					disabled={!entry.actorUserId}
+					onClick={() => entry.actorUserId && onFilterActor(entry.actorUserId)}
+				>
+					{actorLabel(entry)}
+				</button>
+				{entry.actorKind === "user" && entry.deviceId && (
+					<button
+						type="button"
+						className="shrink-0 text-white/40 hover:text-white"
+						onClick={() => entry.deviceId && onFilterDevice(entry.deviceId)}
+					>
+						VIA {entry.deviceName ?? "DEVICE"}
+					</button>
+				)}
+				{entry.actorKind === "device" && entry.deviceId && (
+					<button
+						type="button"
+						className={actionClass}
+						onClick={() => entry.deviceId && onFilterDevice(entry.deviceId)}
+					>
+						[FILTER]
+					</button>
+				)}
+				{playlistName && (
+					<span className="min-w-0 truncate text-white/50">{playlistName}</span>
+				)}
+				<span className="ml-auto hidden shrink-0 normal-case text-white/20 sm:inline">
+					{entry.method} {entry.route}
+				</span>
+				{hasValues && (
+					<button
+						type="button"
+						className={actionClass}
+						onClick={() => setExpanded((current) => !current)}
+					>
+						{expanded ? "[HIDE]" : "[DIFF]"}
+					</button>
+				)}
+			</div>
+			{expanded && (
+				<div className="mt-1 space-y-0.5 normal-case">
+					<p className="break-all text-red-400/80">
+						− {formatValue(entry.before)}
+					</p>
+					<p className="break-all text-green-400/80">
+						+ {formatValue(entry.after)}
+					</p>
+				</div>
+			)}
+		</div>
+	);
+}
+
+function RetentionPanel() {
+	const stored = useSetting(AUDIT_RETENTION_SETTING);
+	const setSetting = useSetSetting();
+	const [days, setDays] = useState("");
+
+	useEffect(() => {
+		if (stored !== undefined) {
+			setDays(String(normalizeAuditRetentionDays(stored)));
+		}
+	}, [stored]);
+
+	const current =
+		stored === undefined ? null : normalizeAuditRetentionDays(stored);
+	const parsed = Number.parseInt(days, 10);
+	const valid = Number.isFinite(parsed) && parsed >= 0;
+
+	return (
+		<SettingsPanel title="RETENTION">
+			<SettingsField
+				label="Keep entries for (days)"
+				hint="OLDER ENTRIES ARE PRUNED HOURLY · 0 KEEPS EVERYTHING"
+			>
+				<div className="flex gap-0">
+					<Input
+						className={inputClass}
+						type="number"
+						min={0}
+						value={days}
+						onChange={(e) => setDays(e.target.value)}
+					/>
+					<button
+						type="button"
+						className="h-10 shrink-0 border-4 border-l-0 border-white/20 bg-transparent px-4 font-mono text-xs font-black uppercase text-white transition-colors hover:bg-white hover:text-black disabled:opacity-40"
+						disabled={!valid || parsed === current}
+						onClick={() =>
+							setSetting({
+								key: AUDIT_RETENTION_SETTING,
+								value: String(parsed),
+							}).catch(() => {
+								// Toast already shown by the mutation
+							})
+						}
+					>
+						SAVE
+					</button>
+				</div>
+			</SettingsField>
+		</SettingsPanel>
+	);
+}
+
+export function SettingsTabAudit() {
+	const playlists = usePlaylistsAll();
+	const [action, setAction] = useState<string>(ANY);
+	const [playlistId, setPlaylistId] = useState<string>(ANY);
+	const [period, setPeriod] = useState<string>(ANY);
+	const [actorUserId, setActorUserId] = useState<string | null>(null);
+	const [deviceId, setDeviceId] = useState<string | null>(null);
+	// Fixed per period choice so the query key doesn't change every render
+	const [since, setSince] = useState<number | undefined>(undefined);
+
+	const filters: AuditLogFilters = {
+		action: action === ANY ? undefined : (action as AuditAction),
+		playlistId: playlistId === ANY ? undefined : playlistId,
+		actorUserId: actorUserId ?? undefined,
+		deviceId: deviceId ?? undefined,
+		since,
+	};
+	const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isPending } =
+		useAuditLog(filters);
+	const entries = data?.pages.flatMap((page) => page.entries) ?? [];
+
+	const playlistNames = new Map(
+		(playlists ?? []).map((playlist) => [playlist.id, playlist.name]),
+	);
+	const selectPeriod = (id: string) => {
+		const days = PERIODS.find((entry) => entry.id === id)?.days ?? null;
+		setPeriod(id);
+		setSince(days === null ? undefined : Date.now() - days * DAY_MS);
+	};
+
+	return (
+		<div className="space-y-8">
+			<SettingsPanel title="AUDIT LOG">
+				<div className="grid gap-2 sm:grid-cols-3">
+					<Select value={action} onValueChange={setAction}>
+						<SelectTrigger className={selectTriggerClass}>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent className={selectContentClass}>
+							<SelectItem value={ANY} className={selectItemClass}>
+								ALL ACTIONS
+							</SelectItem>
+							{AUDIT_ACTIONS.map((entry) => (
+								<SelectItem
+									key={entry}
+									value={entry}
+									className={selectItemClass}
+								>
+									{entry}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Select value={playlistId} onValueChange={setPlaylistId}>
+						<SelectTrigger className={selectTriggerClass}>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent className={selectContentClass}>
+							<SelectItem value={ANY} className={selectItemClass}>
+								ANY PLAYLIST
+							</SelectItem>
+							{(playlists ?? []).map((playlist) => (
+								<SelectItem
+									key={playlist.id}
+									value={playlist.id}
+									className={selectItemClass}
+								>
+									{playlist.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<Select value={period} onValueChange={selectPeriod}>
+						<SelectTrigger className={selectTriggerClass}>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent className={selectContentClass}>
+							{PERIODS.map((entry) => (
+								<SelectItem
+									key={entry.id}
+									value={entry.id}
+									className={selectItemClass}
+								>
+									{entry.label}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				{(actorUserId || deviceId) && (
+					<div className="flex flex-wrap gap-3 font-mono text-[10px] font-bold uppercase text-white/50">
+						{actorUserId && (
+							<button
+								type="button"
+								className={actionClass}
+								onClick={() => setActorUserId(null)}
+							>
+								[USER {actorUserId.slice(0, 8)} ×]
+							</button>
+						)}
+						{deviceId && (
+							<button
+								type="button"
+								className={actionClass}
+								onClick={() => setDeviceId(null)}
+							>
+								[DEVICE {deviceId.slice(0, 8)} ×]
+							</button>
+						)}
+					</div>
+				)}
+
+				{isPending ? (
+					<p className="text-xs font-bold uppercase text-white/30">
+						LOADING...
+					</p>
+				) : entries.length === 0 ? (
+					<p className="text-xs font-bold uppercase text-white/30">
+						NO MATCHING ENTRIES
+					</p>
+				) : (
+					<div className="max-h-[32rem] overflow-y-auto border-2 border-white/10">
+						{entries.map((entry) => (
+							<AuditRow
+								key={entry.id}
+								entry={entry}
+								playlistName={
+									entry.playlistId
+										? (playlistNames.get(entry.playlistId) ?? null)
+										: null
+								}
+								onFilterActor={setActorUserId}
+								onFilterDevice={setDeviceId}
+							/>
+						))}
+					</div>
+				)}
+				{hasNextPage && (
+					<button
+						type="button"
+						className="w-full h-10 border-4 border-white/20 bg-transparent font-mono text-xs font-black uppercase text-white transition-colors hover:bg-white hover:text-black disabled:opacity-40"
+						disabled={isFetchingNextPage}
+						onClick={() => fetchNextPage()}
+					>
+						{isFetchingNextPage ? "LOADING..." : "LOAD OLDER"}
+					</button>
+				)}
+			</SettingsPanel>
+
+			<RetentionPanel />
+		</div>
+	);
+}
@@ -13,6 +13,7 @@ import {
 	INFINITUNE_AGENT_IDS,
 	type InfinituneAgentId,
 } from "@infinitune/shared/agent-reasoning";
+import { TASTE_PROFILE_NEW_PLAYLIST_SONGS } from "@infinitune/shared/taste-profile";
 import {
 	DEFAULT_ANTHROPIC_TEXT_MODEL,
 	DEFAULT_OPENAI_CODEX_TEXT_MODEL,
@@ -39,6 +40,12 @@ export interface ModelOption {
 	inputModalities?: string[];
 }
 
+/** Per-agent text model; agents without one use the global text model. */
+export interface AgentModelOverride {
+	provider: string;
+	model: string;
+}
+
 export interface InferenceShImageModelOption {
 	id: string;
 	name: string;
@@ -72,14 +79,30 @@ export interface ModelsTabProps {
 	aceModels: ModelOption[];
 	inferenceShImageModels: InferenceShImageModelOption[];
 	inferenceShLoading: boolean;
+	a1111Models: ModelOption[];
+	a1111Loading: boolean;
 	codexModels: ModelOption[];
 	codexLoading: boolean;
+	openAiCompatibleModels: ModelOption[];
+	agentModels: Partial<Record<InfinituneAgentId, AgentModelOverride>>;
+	setAgentModel: (
+		agentId: InfinituneAgentId,
+		override: AgentModelOverride | null,
+	) => void;
+	tasteProfilePrompts: boolean;
+	setTasteProfilePrompts: (v: boolean) => void;
 	activePlaylist: boolean;
 }
 
 const inputClass =
 	"h-10 rounded-none border-4 border-white/20 bg-gray-900 font-mono text-sm font-bold uppercase text-white focus-visible:ring-0";
 
+const TEXT_PROVIDER_OPTIONS = [
+	{ value: "openai-codex", label: "OPENAI CODEX" },
+	{ value: "anthropic", label: "ANTHROPIC" },
+	{ value: "openai-compatible", label: "LOCAL / OPENAI API" },
+];
+
 function ProviderToggle({
 	options,
 	value,
@@ -120,11 +143,84 @@ function PriceStrip({ model }: { model: InferenceShImageModelOption }) {
 }
 
 function defaultTextModelForProvider(provider: string): string {
+	if (provider === "openai-compatible") return "";
 	return provider === "anthropic"
 		? DEFAULT_ANTHROPIC_TEXT_MODEL
 		: DEFAULT_OPENAI_CODEX_TEXT_MODEL;
 }
 
+/** Model picker for the OpenAI-compatible server; free text when it's offline. */
+/** Models listed by a configured server; free text when it lists none. */
+function ServerModelSelect({
+	models,
+	value,
+	onChange,
+	placeholder,
+	emptyHint = "SET THE SERVER ON THE NETWORK TAB TO LOAD ITS MODEL LIST",
+	loading = false,
+}: {
+	models: ModelOption[];
+	value: string;
+	onChange: (v: string) => void;
+	placeholder: string;
+	emptyHint?: string;
+	loading?: boolean;
+}) {
+	if (loading) {
+		return (
+			<div className="h-10 rounded-none border-4 border-white/20 bg-gray-900 flex items-center px-3">
+				<span className="font-mono text-xs font-bold uppercase text-white/40 animate-pulse">
+					LOADING MODELS...
+				</span>
+			</div>
+		);
+	}
+
+	if (models.length === 0) {
+		return (
+			<div>
+				<Input
+					className={inputClass}
+					placeholder={placeholder}
+					value={value}
+					onChange={(e) => onChange(e.target.value)}
+				/>
+				<p className="mt-1 text-[10px] font-bold uppercase text-white/30">
+					{emptyHint}
+				</p>
+			</div>
+		);
+	}
+
+	return (
+		<Select
+			value={value || "__first__"}
+			onValueChange={(next) => onChange(next === "__first__" ? "" : next)}
+		>
+			<SelectTrigger className="w-full h-10 rounded-none border-4 border-white/20 bg-gray-900 font-mono text-sm font-bold uppercase text-white">
+				<SelectValue placeholder={placeholder} />
+			</SelectTrigger>
+			<SelectContent className="rounded-none border-4 border-white/20 bg-gray-900 font-mono">
+				<SelectItem
+					value="__first__"
+					className="font-mono text-sm font-bold uppercase text-white cursor-pointer"
+				>
+					{placeholder}
+				</SelectItem>
+				{models.map((m) => (
+					<SelectItem
+						key={m.name}
+						value={m.name}
+						className="font-mono text-sm font-bold uppercase text-white cursor-pointer"
+					>
+						{(m.displayName || m.name).toUpperCase()}
+					</SelectItem>
+				))}
+			</SelectContent>
+		</Select>
+	);
+}
+
 function InferenceShModelSelect({
 	models,
 	value,
@@ -267,8 +363,15 @@ export function SettingsTabModels({
 	aceModels,
 	inferenceShImageModels,
 	inferenceShLoading,
+	a1111Models,
+	a1111Loading,
 	codexModels,
 	codexLoading,
+	openAiCompatibleModels,
+	agentModels,
+	setAgentModel,
+	tasteProfilePrompts,
+	setTasteProfilePrompts,
 	activePlaylist,
 }: ModelsTabProps) {
 	const aceModelOptions = useMemo(() => {
@@ -307,10 +410,7 @@ export function SettingsTabModels({
 			<SettingsPanel title="TEXT MODEL — LYRICS & METADATA">
 				<SettingsField label="Provider">
 					<ProviderToggle
-						options={[
-							{ value: "openai-codex", label: "OPENAI CODEX" },
-							{ value: "anthropic", label: "ANTHROPIC" },
-						]}
+						options={TEXT_PROVIDER_OPTIONS}
 						value={textProvider}
 						onChange={(nextProvider) => {
 							setTextProvider(nextProvider);
@@ -358,6 +458,13 @@ export function SettingsTabModels({
 								</p>
 							</div>
 						)
+					) : textProvider === "openai-compatible" ? (
+						<ServerModelSelect
+							models={openAiCompatibleModels}
+							value={textModel}
+							onChange={setTextModel}
+							placeholder="FIRST CONFIGURED MODEL"
+						/>
 					) : (
 						<Input
 							className={inputClass}
@@ -367,13 +474,28 @@ export function SettingsTabModels({
 						/>
 					)}
 				</SettingsField>
+
+				<SettingsField
+					label="Taste profile"
+					hint={`SEEDS THE FIRST ${TASTE_PROFILE_NEW_PLAYLIST_SONGS} SONGS OF NEW PLAYLISTS WITH WHAT YOUR RATINGS, SKIPS AND FULL LISTENS FAVOR`}
+				>
+					<ProviderToggle
+						options={[
+							{ value: "off", label: "OFF" },
+							{ value: "on", label: "ON" },
+						]}
+						value={tasteProfilePrompts ? "on" : "off"}
+						onChange={(v) => setTasteProfilePrompts(v === "on")}
+					/>
+				</SettingsField>
 			</SettingsPanel>
 
 			{/* PI AGENT REASONING */}
 			<SettingsPanel title="PI AGENT REASONING">
 				<p className="text-[10px] font-bold uppercase leading-relaxed text-white/35">
 					SET THINKING DEPTH BY ROLE. KEEP DIRECTORS AND CRITICS HIGHER; USE
-					LOWER LEVELS FOR LIGHTER CREATIVE NOTES.
+					LOWER LEVELS FOR LIGHTER CREATIVE NOTES. A ROLE WITH ITS OWN MODEL
+					USES IT INSTEAD OF THE PLAYLIST AND TEXT MODEL.
 				</p>
 				<div className="grid gap-2">
 					{INFINITUNE_AGENT_IDS.map((agentId) => {
@@ -381,6 +503,7 @@ export function SettingsTabModels({
 						const value =
 							agentReasoning[agentId] ??
 							DEFAULT_AGENT_REASONING_LEVELS[agentId];
+						const override = agentModels[agentId];
 						return (
 							<div
 								key={agentId}
@@ -404,6 +527,72 @@ export function SettingsTabModels({
 										setAgentReasoningLevel(agentId, next as AgentReasoningLevel)
 									}
 								/>
+								<div className="grid gap-2 lg:col-span-2 lg:grid-cols-[200px_minmax(0,1fr)]">
+									<Select
+										value={override?.provider ?? "__inherit__"}
+										onValueChange={(provider) =>
+											setAgentModel(
+												agentId,
+												provider === "__inherit__"
+													? null
+													: {
+															provider,
+															model: defaultTextModelForProvider(provider),
+														},
+											)
+										}
+									>
+										<SelectTrigger
+											aria-label={`${meta.label} model provider`}
+											className="w-full h-10 rounded-none border-4 border-white/20 bg-gray-900 font-mono text-xs font-bold uppercase text-white"
+										>
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent className="rounded-none border-4 border-white/20 bg-gray-900 font-mono">
+											<SelectItem
+												value="__inherit__"
+												className="font-mono text-xs font-bold uppercase text-white cursor-pointer"
+											>
+												TEXT MODEL
+											</SelectItem>
+											{TEXT_PROVIDER_OPTIONS.map((option) => (
+												<SelectItem
+													key={option.value}
+													value={option.value}
+													className="font-mono text-xs font-bold uppercase text-white cursor-pointer"
+												>
+													{option.label}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+									{override &&
+										(override.provider === "openai-compatible" ? (
+											<ServerModelSelect
+												models={openAiCompatibleModels}
+												value={override.model}
+												onChange={(model) =>
+													setAgentModel(agentId, { ...override, model })
+												}
+												placeholder="FIRST CONFIGURED MODEL"
+											/>
+										) : (
+											<Input
+												className={inputClass}
+												aria-label={`${meta.label} model`}
+												placeholder={defaultTextModelForProvider(
+													override.provider,
+												).toUpperCase()}
+												value={override.model}
+												onChange={(e) =>
+													setAgentModel(agentId, {
+														...override,
+														model: e.target.value,
+													})
+												}
+											/>
+										))}
+								</div>
 							</div>
 						);
 					})}
@@ -418,6 +607,8 @@ export function SettingsTabModels({
 							{ value: "comfyui", label: "COMFYUI" },
 							{ value: "inference-sh", label: "INFERENCE.SH" },
 							{ value: "codex-imagegen", label: "CODEX" },
+							{ value: "a1111", label: "SD WEBUI" },
+							{ value: "placeholder", label: "OFFLINE" },
 						]}
 						value={imageProvider}
 						onChange={setImageProvider}
@@ -434,6 +625,25 @@ export function SettingsTabModels({
 						USES CODEX CLI $IMAGEGEN WITH GPT-IMAGE-2 — COUNTS AGAINST CODEX
 						USAGE LIMITS, NOT OPENAI API BILLING
 					</p>
+				) : imageProvider === "a1111" ? (
+					<SettingsField
+						label="Checkpoint"
+						hint="AUTOMATIC1111 OR FORGE WITH --API; EMPTY KEEPS THE LOADED CHECKPOINT"
+					>
+						<ServerModelSelect
+							models={a1111Models}
+							value={imageModel}
+							onChange={setImageModel}
+							placeholder="LOADED CHECKPOINT"
+							loading={a1111Loading}
+							emptyHint="SET THE SD WEBUI URL ON THE NETWORK TAB TO LOAD ITS CHECKPOINTS"
+						/>
+					</SettingsField>
+				) : imageProvider === "placeholder" ? (
+					<p className="text-[10px] font-bold uppercase text-white/30">
+						PROCEDURAL VINYL DRAWN FROM SONG METADATA — NO NETWORK, SAME SONG
+						ALWAYS GETS THE SAME RECORD
+					</p>
 				) : (
 					<SettingsField label="Model">
 						<InferenceShModelSelect
@@ -560,10 +770,7 @@ export function SettingsTabModels({
 			<SettingsPanel title="PERSONA MODEL — SONG DNA EXTRACTION">
 				<SettingsField label="Provider">
 					<ProviderToggle
-						options={[
-							{ value: "openai-codex", label: "OPENAI CODEX" },
-							{ value: "anthropic", label: "ANTHROPIC" },
-						]}
+						options={TEXT_PROVIDER_OPTIONS}
 						value={personaProvider}
 						onChange={(nextProvider) => {
 							setPersonaProvider(nextProvider);
@@ -616,6 +823,13 @@ export function SettingsTabModels({
 								onChange={(e) => setPersonaModel(e.target.value)}
 							/>
 						)
+					) : personaProvider === "openai-compatible" ? (
+						<ServerModelSelect
+							models={openAiCompatibleModels}
+							value={personaModel}
+							onChange={setPersonaModel}
+							placeholder="USES TEXT MODEL IF EMPTY"
+						/>
 					) : (
 						<Input
 							className={inputClass}
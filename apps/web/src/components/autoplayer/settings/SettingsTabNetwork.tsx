@@ -1,3 +1,8 @@
+import {
+	ACE_MAX_ENDPOINT_CONCURRENCY,
+	type AceEndpointConfig,
+	normalizeAceConcurrency,
+} from "@infinitune/shared/ace-settings";
 import { useRef, useState } from "react";
 import { Input } from "@/components/ui/input";
 import { SettingsField, SettingsPanel } from "./SettingsPanel";
@@ -8,8 +13,20 @@ export interface NetworkTabProps {
 	setOllamaUrl: (v: string) => void;
 	aceStepUrl: string;
 	setAceStepUrl: (v: string) => void;
+	aceConcurrency: number;
+	setAceConcurrency: (v: number) => void;
+	aceEndpoints: AceEndpointConfig[];
+	setAceEndpoints: (v: AceEndpointConfig[]) => void;
+	openAiCompatibleBaseUrl: string;
+	setOpenAiCompatibleBaseUrl: (v: string) => void;
+	openAiCompatibleModels: string;
+	setOpenAiCompatibleModels: (v: string) => void;
+	openAiCompatibleTest: TestStatus;
 	comfyuiUrl: string;
 	setComfyuiUrl: (v: string) => void;
+	a1111Url: string;
+	setA1111Url: (v: string) => void;
+	a1111Test: TestStatus;
 	imageProvider: string;
 	ollamaTest: TestStatus;
 	aceTest: TestStatus;
@@ -41,8 +58,20 @@ export function SettingsTabNetwork({
 	setOllamaUrl,
 	aceStepUrl,
 	setAceStepUrl,
+	aceConcurrency,
+	setAceConcurrency,
+	aceEndpoints,
+	setAceEndpoints,
+	openAiCompatibleBaseUrl,
+	setOpenAiCompatibleBaseUrl,
+	openAiCompatibleModels,
+	setOpenAiCompatibleModels,
+	openAiCompatibleTest,
 	comfyuiUrl,
 	setComfyuiUrl,
+	a1111Url,
+	setA1111Url,
+	a1111Test,
 	imageProvider,
 	ollamaTest,
 	aceTest,
@@ -56,6 +85,16 @@ export function SettingsTabNetwork({
 	onCancelCodexAuth,
 	onTest,
 }: NetworkTabProps) {
+	const updateAceEndpoint = (
+		index: number,
+		patch: Partial<AceEndpointConfig>,
+	) => {
+		setAceEndpoints(
+			aceEndpoints.map((endpoint, i) =>
+				i === index ? { ...endpoint, ...patch } : endpoint,
+			),
+		);
+	};
 	const codexStatusText = codexAuthSession
 		? codexAuthSession.error ||
 			codexAuthSession.message ||
@@ -132,6 +171,22 @@ export function SettingsTabNetwork({
 					/>
 				</SettingsField>
 
+				<SettingsField
+					label="ACE-Step Concurrency"
+					hint="Songs the primary ACE-Step server renders at once"
+				>
+					<Input
+						className={inputClass}
+						type="number"
+						min={1}
+						max={ACE_MAX_ENDPOINT_CONCURRENCY}
+						value={aceConcurrency}
+						onChange={(e) =>
+							setAceConcurrency(normalizeAceConcurrency(e.target.value))
+						}
+					/>
+				</SettingsField>
+
 				<SettingsField
 					label="ComfyUI URL"
 					trailing={
@@ -151,6 +206,114 @@ export function SettingsTabNetwork({
 				</SettingsField>
 			</SettingsPanel>
 
+			<SettingsPanel
+				title="ADDITIONAL ACE-STEP SERVERS"
+				badge={
+					<button
+						type="button"
+						className="h-8 px-3 border-4 border-white/20 bg-transparent font-mono text-xs font-black uppercase text-white/80 hover:bg-white/10"
+						onClick={() =>
+							setAceEndpoints([...aceEndpoints, { url: "", concurrency: 1 }])
+						}
+					>
+						+ ADD
+					</button>
+				}
+			>
+				{aceEndpoints.length === 0 ? (
+					<p className="text-[10px] font-bold uppercase text-white/20">
+						Songs are spread across the primary server and any servers added
+						here, least busy first.
+					</p>
+				) : (
+					aceEndpoints.map((endpoint, index) => (
+						<div
+							// biome-ignore lint/suspicious/noArrayIndexKey: rows are edited in place and have no stable id
+							key={index}
+							className="grid grid-cols-[1fr_8rem_5rem_auto] gap-2"
+						>
+							<Input
+								className={inputClass}
+								aria-label="Server URL"
+								placeholder="http://192.168.10.121:8001"
+								value={endpoint.url}
+								onChange={(e) =>
+									updateAceEndpoint(index, { url: e.target.value })
+								}
+							/>
+							<Input
+								className={inputClass}
+								aria-label="Server name"
+								placeholder="NAME"
+								value={endpoint.name ?? ""}
+								onChange={(e) =>
+									updateAceEndpoint(index, {
+										name: e.target.value || undefined,
+									})
+								}
+							/>
+							<Input
+								className={inputClass}
+								aria-label="Concurrency"
+								type="number"
+								min={1}
+								max={ACE_MAX_ENDPOINT_CONCURRENCY}
+								value={endpoint.concurrency}
+								onChange={(e) =>
+									updateAceEndpoint(index, {
+										concurrency: normalizeAceConcurrency(e.target.value),
+									})
+								}
+							/>
+							<button
+								type="button"
+								className="h-10 px-3 border-4 border-white/20 bg-transparent font-mono text-xs font-black uppercase text-white/60 hover:bg-white/10"
+								onClick={() =>
+									setAceEndpoints(aceEndpoints.filter((_, i) => i !== index))
+								}
+							>
+								REMOVE
+							</button>
+						</div>
+					))
+				)}
+			</SettingsPanel>
+
+			<SettingsPanel
+				title="LOCAL / OPENAI-COMPATIBLE LLM"
+				badge={
+					<TestButton
+						provider="openai-compatible"
+						status={openAiCompatibleTest}
+						onTest={onTest}
+					/>
+				}
+			>
+				<SettingsField
+					label="Base URL"
+					hint="Ollama, llama.cpp, vLLM or any /v1 API. Empty uses the Ollama URL + /v1. Set OPENAI_COMPATIBLE_API_KEY on the server if it needs a key"
+				>
+					<Input
+						className={inputClass}
+						placeholder={`${ollamaUrl.replace(/\/+$/, "")}/v1`}
+						value={openAiCompatibleBaseUrl}
+						onChange={(e) => setOpenAiCompatibleBaseUrl(e.target.value)}
+					/>
+				</SettingsField>
+
+				<SettingsField
+					label="Models"
+					hint="Comma-separated. The first is used when no model is picked"
+				>
+					<Input
+						className={inputClass}
+						placeholder="qwen3:14b, llama3.1:8b"
+						value={openAiCompatibleModels}
+						onChange={(e) => setOpenAiCompatibleModels(e.target.value)}
+					/>
+				</SettingsField>
+			</SettingsPanel>
+
 			{imageProvider === "inference-sh" && (
 				<SettingsPanel
 					title="INFERENCE.SH COVER IMAGES"
@@ -170,6 +333,27 @@ export function SettingsTabNetwork({
 				</SettingsPanel>
 			)}
 
+			{imageProvider === "a1111" && (
+				<SettingsPanel
+					title="STABLE DIFFUSION WEBUI COVER IMAGES"
+					badge={
+						<TestButton provider="a1111" status={a1111Test} onTest={onTest} />
+					}
+				>
+					<SettingsField
+						label="WebUI URL"
+						hint="Automatic1111 or Forge started with --api"
+					>
+						<Input
+							className={inputClass}
+							placeholder="http://127.0.0.1:7860"
+							value={a1111Url}
+							onChange={(e) => setA1111Url(e.target.value)}
+						/>
+					</SettingsField>
+				</SettingsPanel>
+			)}
+
 			{imageProvider === "codex-imagegen" && (
 				<SettingsPanel
 					title="CODEX IMAGEGEN COVER IMAGES"
@@ -0,0 +1,423 @@
+import {
+	WEBHOOK_EVENTS,
+	type Webhook,
+	type WebhookDelivery,
+} from "@infinitune/shared/webhooks";
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	useCreateWebhook,
+	useDeleteWebhook,
+	usePlaylistsAll,
+	useRedeliverWebhook,
+	useRotateWebhookSecret,
+	useTestWebhook,
+	useUpdateWebhook,
+	useWebhookDeliveries,
+	useWebhooks,
+} from "@/integrations/api/hooks";
+import { SettingsField, SettingsPanel } from "./SettingsPanel";
+import type { TestStatus } from "./TestButton";
+
+const inputClass =
+	"h-10 rounded-none border-4 border-white/20 bg-gray-900 font-mono text-sm text-white focus-visible:ring-0";
+const actionClass =
+	"font-mono text-[10px] font-black uppercase tracking-wider text-white/40 hover:text-yellow-400 transition-colors disabled:opacity-40";
+
+const ALL_EVENTS = "*";
+const ANY_PLAYLIST = "__any__";
+
+function formatTime(timestamp: number | null): string {
+	return timestamp ? new Date(timestamp).toLocaleString() : "NEVER";
+}
+
+function deliveryStatusClass(status: WebhookDelivery["status"]): string {
+	if (status === "delivered") return "text-green-400";
+	if (status === "failed") return "text-red-400";
+	return "text-yellow-400";
+}
+
+function EventPicker({
+	value,
+	onChange,
+}: {
+	value: string[];
+	onChange: (events: string[]) => void;
+}) {
+	const allSelected = value.includes(ALL_EVENTS);
+	const toggle = (event: string) => {
+		if (event === ALL_EVENTS) {
+			onChange(allSelected ? [] : [ALL_EVENTS]);
+			return;
+		}
+		const rest = value.filter((entry) => entry !== ALL_EVENTS);
+		onChange(
+			rest.includes(event)
+				? rest.filter((entry) => entry !== event)
+				: [...rest, event],
+		);
+	};
+	return (
+		<div className="flex flex-wrap gap-1">
+			{[ALL_EVENTS, ...WEBHOOK_EVENTS].map((event) => {
+				const active =
+					event === ALL_EVENTS ? allSelected : value.includes(event);
+				return (
+					<button
+						key={event}
+						type="button"
+						aria-pressed={active}
+						className={`h-7 px-2 border-2 border-white/20 font-mono text-[10px] font-black uppercase transition-colors ${
+							active
+								? "bg-white text-black"
+								: "bg-transparent text-white/60 hover:bg-white/10"
+						}`}
+						onClick={() => toggle(event)}
+					>
+						{event === ALL_EVENTS ? "ALL EVENTS" : event}
+					</button>
+				);
+			})}
+		</div>
+	);
+}
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+	const deliveries = useWebhookDeliveries(webhookId);
+	const redeliver = useRedeliverWebhook();
+
+	if (!deliveries) {
+		return (
+			<p className="text-[10px] font-bold uppercase text-white/30">
+				LOADING DELIVERIES...
+			</p>
+		);
+	}
+	if (deliveries.length === 0) {
+		return (
+			<p className="text-[10px] font-bold uppercase text-white/30">
+				NO DELIVERIES YET
+			</p>
+		);
+	}
+	return (
+		<div className="max-h-64 overflow-y-auto border-2 border-white/10">
+			{deliveries.map((delivery) => (
+				<div
+					key={delivery.id}
+					className="flex items-center gap-3 border-b border-white/5 px-2 py-1.5 font-mono text-[10px] uppercase"
+				>
+					<span
+						className={`w-16 shrink-0 font-black ${deliveryStatusClass(delivery.status)}`}
+					>
+						{delivery.status}
+					</span>
+					<span className="min-w-0 flex-1 truncate text-white/70">
+						{delivery.event}
+					</span>
+					<span className="shrink-0 text-white/40">
+						{delivery.responseStatus ?? "—"} · {delivery.attempts}×
+					</span>
+					<span className="hidden shrink-0 text-white/30 sm:inline">
+						{formatTime(delivery.lastAttemptAt ?? delivery.createdAt)}
+					</span>
+					{delivery.status !== "pending" && (
+						<button
+							type="button"
+							className={actionClass}
+							onClick={() => redeliver({ deliveryId: delivery.id })}
+						>
+							[REDELIVER]
+						</button>
+					)}
+					{delivery.error && (
+						<span
+							className="max-w-40 shrink-0 truncate text-red-400/80"
+							title={delivery.error}
+						>
+							{delivery.error}
+						</span>
+					)}
+				</div>
+			))}
+		</div>
+	);
+}
+
+function NewSecret({ secret }: { secret: string }) {
+	return (
+		<div className="border-2 border-yellow-400/40 bg-yellow-400/10 p-2 font-mono text-[10px]">
+			<p className="font-black uppercase text-yellow-400">
+				NEW SECRET (SHOWN ONCE)
+			</p>
+			<code className="break-all text-white">{secret}</code>
+		</div>
+	);
+}
+
+function WebhookCard({
+	webhook,
+	playlistName,
+}: {
+	webhook: Webhook;
+	playlistName: string | null;
+}) {
+	const updateWebhook = useUpdateWebhook();
+	const rotateSecret = useRotateWebhookSecret();
+	const deleteWebhook = useDeleteWebhook();
+	const testWebhook = useTestWebhook();
+	const [testStatus, setTestStatus] = useState<TestStatus>({ state: "idle" });
+	const [newSecret, setNewSecret] = useState<string | null>(null);
+	const [showLog, setShowLog] = useState(false);
+
+	const runTest = async () => {
+		setTestStatus({ state: "testing" });
+		try {
+			const delivery = await testWebhook({ id: webhook.id });
+			setTestStatus(
+				delivery.status === "delivered"
+					? { state: "ok", message: `OK (${delivery.responseStatus})` }
+					: {
+							state: "error",
+							message: delivery.error ?? "DELIVERY FAILED",
+						},
+			);
+		} catch (err) {
+			setTestStatus({
+				state: "error",
+				message: err instanceof Error ? err.message : "TEST FAILED",
+			});
+		}
+	};
+
+	return (
+		<div className="border-4 border-white/20 bg-gray-900 p-3 space-y-2">
+			<div className="flex flex-wrap items-center gap-2">
+				<span className="font-mono text-sm font-black uppercase text-white">
+					{webhook.name}
+				</span>
+				<span
+					className={`font-mono text-[10px] font-black uppercase ${
+						webhook.enabled ? "text-green-400" : "text-white/30"
+					}`}
+				>
+					{webhook.enabled ? "ENABLED" : "DISABLED"}
+				</span>
+				{webhook.lastDeliveryStatus && (
+					<span
+						className={`font-mono text-[10px] font-bold uppercase ${deliveryStatusClass(webhook.lastDeliveryStatus)}`}
+					>
+						LAST: {webhook.lastDeliveryStatus} ·{" "}
+						{formatTime(webhook.lastDeliveryAt)}
+					</span>
+				)}
+			</div>
+			<p className="break-all font-mono text-xs text-white/70">{webhook.url}</p>
+			<p className="font-mono text-[10px] font-bold uppercase text-white/40">
+				{webhook.events.join(", ")}
+				{playlistName ? ` · ONLY ${playlistName}` : ""}
+			</p>
+			<div className="flex items-center gap-2 font-mono text-[10px] text-white/50">
+				<span className="font-black uppercase">SECRET</span>
+				<code className="min-w-0 truncate">{webhook.secretPrefix}…</code>
+				<button
+					type="button"
+					className={actionClass}
+					onClick={async () => {
+						const rotated = await rotateSecret({ id: webhook.id }).catch(
+							() => null,
+						);
+						if (rotated) setNewSecret(rotated.secret);
+					}}
+				>
+					[ROTATE]
+				</button>
+			</div>
+			{newSecret && <NewSecret secret={newSecret} />}
+			<div className="flex flex-wrap items-center gap-3 pt-1">
+				<button
+					type="button"
+					className={actionClass}
+					onClick={runTest}
+					disabled={testStatus.state === "testing"}
+				>
+					{testStatus.state === "testing" ? "[TESTING...]" : "[TEST]"}
+				</button>
+				<button
+					type="button"
+					className={actionClass}
+					onClick={() =>
+						updateWebhook({ id: webhook.id, enabled: !webhook.enabled })
+					}
+				>
+					{webhook.enabled ? "[DISABLE]" : "[ENABLE]"}
+				</button>
+				<button
+					type="button"
+					className={actionClass}
+					onClick={() => setShowLog((current) => !current)}
+				>
+					{showLog ? "[HIDE LOG]" : "[DELIVERY LOG]"}
+				</button>
+				<button
+					type="button"
+					className="font-mono text-[10px] font-black uppercase tracking-wider text-white/40 hover:text-red-500 transition-colors"
+					onClick={() => {
+						if (window.confirm(`Delete webhook "${webhook.name}"?`)) {
+							deleteWebhook({ id: webhook.id });
+						}
+					}}
+				>
+					[DELETE]
+				</button>
+				{testStatus.state === "ok" && (
+					<span className="text-[10px] font-bold uppercase text-green-400">
+						{testStatus.message}
+					</span>
+				)}
+				{testStatus.state === "error" && (
+					<span className="text-[10px] font-bold uppercase text-red-400">
+						{testStatus.message}
+					</span>
+				)}
+			</div>
+			{showLog && <DeliveryLog webhookId={webhook.id} />}
+		</div>
+	);
+}
+
+export function SettingsTabWebhooks() {
+	const webhooks = useWebhooks();
+	const playlists = usePlaylistsAll();
+	const createWebhook = useCreateWebhook();
+	const [name, setName] = useState("");
+	const [url, setUrl] = useState("");
+	const [events, setEvents] = useState<string[]>([ALL_EVENTS]);
+	const [playlistId, setPlaylistId] = useState(ANY_PLAYLIST);
+	const [creating, setCreating] = useState(false);
+	const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+
+	const playlistNames = new Map(
+		(playlists ?? []).map((playlist) => [playlist.id, playlist.name]),
+	);
+	const canCreate =
+		name.trim().length > 0 && url.trim().length > 0 && events.length > 0;
+
+	const create = async () => {
+		if (!canCreate) return;
+		setCreating(true);
+		try {
+			const created = await createWebhook({
+				name: name.trim(),
+				url: url.trim(),
+				events,
+				playlistId: playlistId === ANY_PLAYLIST ? null : playlistId,
+			});
+			setCreatedSecret(created.secret);
+			setName("");
+			setUrl("");
+			setEvents([ALL_EVENTS]);
+			setPlaylistId(ANY_PLAYLIST);
+		} catch {
+			// Toast already shown by the mutation
+		} finally {
+			setCreating(false);
+		}
+	};
+
+	return (
+		<div className="space-y-8">
+			<SettingsPanel title="NEW WEBHOOK">
+				<SettingsField label="Name">
+					<Input
+						className={inputClass}
+						placeholder="Home Assistant"
+						value={name}
+						onChange={(e) => setName(e.target.value)}
+					/>
+				</SettingsField>
+				<SettingsField
+					label="URL"
+					hint="POST JSON, SIGNED WITH HMAC-SHA256 IN X-INFINITUNE-SIGNATURE"
+				>
+					<Input
+						className={inputClass}
+						placeholder="http://homeassistant.local:8123/api/webhook/infinitune"
+						value={url}
+						onChange={(e) => setUrl(e.target.value)}
+					/>
+				</SettingsField>
+				<SettingsField label="Events">
+					<EventPicker value={events} onChange={setEvents} />
+				</SettingsField>
+				<SettingsField
+					label="Playlist"
+					hint="PLAYLIST-SCOPED EVENTS FROM OTHER PLAYLISTS ARE SKIPPED"
+				>
+					<Select value={playlistId} onValueChange={setPlaylistId}>
+						<SelectTrigger className="w-full h-10 rounded-none border-4 border-white/20 bg-gray-900 font-mono text-sm font-bold uppercase text-white">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent className="rounded-none border-4 border-white/20 bg-gray-900 font-mono">
+							<SelectItem
+								value={ANY_PLAYLIST}
+								className="font-mono text-sm font-bold uppercase text-white cursor-pointer"
+							>
+								ANY PLAYLIST
+							</SelectItem>
+							{(playlists ?? []).map((playlist) => (
+								<SelectItem
+									key={playlist.id}
+									value={playlist.id}
+									className="font-mono text-sm font-bold uppercase text-white cursor-pointer"
+								>
+									{playlist.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</SettingsField>
+				<button
+					type="button"
+					className="w-full h-10 border-4 border-white/20 bg-transparent font-mono text-xs font-black uppercase text-white transition-colors hover:bg-white hover:text-black disabled:opacity-40"
+					disabled={!canCreate || creating}
+					onClick={create}
+				>
+					{creating ? "ADDING..." : "ADD WEBHOOK"}
+				</button>
+				{createdSecret && <NewSecret secret={createdSecret} />}
+			</SettingsPanel>
+
+			<SettingsPanel title="WEBHOOKS">
+				{webhooks === undefined ? (
+					<p className="text-xs font-bold uppercase text-white/30">
+						LOADING...
+					</p>
+				) : webhooks.length === 0 ? (
+					<p className="text-xs font-bold uppercase text-white/30">
+						NO WEBHOOKS CONFIGURED
+					</p>
+				) : (
+					webhooks.map((webhook) => (
+						<WebhookCard
+							key={webhook.id}
+							webhook={webhook}
+							playlistName={
+								webhook.playlistId
+									? (playlistNames.get(webhook.playlistId) ?? null)
+									: null
+							}
+						/>
+					))
+				)}
+			</SettingsPanel>
+		</div>
+	);
+}
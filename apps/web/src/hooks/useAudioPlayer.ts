@@ -1,3 +1,4 @@
+import { gainToVolumeScale } from "@infinitune/shared/loudness";
 import { useStore } from "@tanstack/react-store";
 import { useCallback, useEffect, useRef } from "react";
 import { resolveApiMediaUrl } from "@/lib/endpoints";
@@ -8,7 +9,8 @@ import {
 	setPlaying,
 } from "@/lib/player-store";
 
-export function useAudioPlayer(onEnded?: () => void) {
+/** `gainDb` is the loudness gain for the loaded track (see `useAutoplayer`). */
+export function useAudioPlayer(onEnded?: () => void, gainDb?: number | null) {
 	const onEndedRef = useRef(onEnded);
 	const currentUrlRef = useRef<string | null>(null);
 	const { isPlaying, volume, isMuted } = useStore(playerStore);
@@ -34,8 +36,8 @@ export function useAudioPlayer(onEnded?: () => void) {
 	// Sync volume
 	useEffect(() => {
 		const audio = getGlobalAudio();
-		audio.volume = isMuted ? 0 : volume;
-	}, [volume, isMuted]);
+		audio.volume = isMuted ? 0 : volume * gainToVolumeScale(gainDb);
+	}, [volume, isMuted, gainDb]);
 
 	// Sync play/pause
 	useEffect(() => {
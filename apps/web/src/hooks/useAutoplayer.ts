@@ -1,9 +1,17 @@
+import {
+	computePlaylistGain,
+	LOUDNESS_NORMALIZATION_SETTING,
+	normalizeLoudnessMode,
+	resolveGainDb,
+} from "@infinitune/shared/loudness";
 import { useStore } from "@tanstack/react-store";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
 	useCreatePending,
 	usePlaylist,
+	useRecordSkip,
 	useSetRating,
+	useSetting,
 	useSongQueue,
 	useUpdateSongStatus,
 } from "@/integrations/api/hooks";
@@ -23,6 +31,8 @@ export function useAutoplayer(playlistId: string | null) {
 	const updateSongStatus = useUpdateSongStatus();
 	const createPending = useCreatePending();
 	const setRatingMut = useSetRating();
+	const recordSkip = useRecordSkip();
+	const normalizationSetting = useSetting(LOUDNESS_NORMALIZATION_SETTING);
 
 	// User interaction gate — prevents auto-play on page load
 	const userHasInteractedRef = useRef(false);
@@ -84,8 +94,19 @@ export function useAutoplayer(playlistId: string | null) {
 		}
 	}, [songs, playlist?.promptEpoch, updateSongStatus]);
 
-	const { loadAndPlay, seek, play, pause, toggle } =
-		useAudioPlayer(handleSongEnded);
+	const currentGainDb = useMemo(() => {
+		const song = songs?.find((s) => s.id === currentSongId);
+		if (!songs || !song) return null;
+		const mode = normalizeLoudnessMode(normalizationSetting);
+		const playlistGainDb =
+			mode === "playlist" ? computePlaylistGain(songs) : null;
+		return resolveGainDb(mode, song, playlistGainDb);
+	}, [songs, currentSongId, normalizationSetting]);
+
+	const { loadAndPlay, seek, play, pause, toggle } = useAudioPlayer(
+		handleSongEnded,
+		currentGainDb,
+	);
 	loadAndPlayRef.current = loadAndPlay;
 
 	// --- Composed hooks ---
@@ -144,6 +165,14 @@ export function useAutoplayer(playlistId: string | null) {
 		if (skippedSong && skippedSong.status === "ready") {
 			updateSongStatus({ id: skippedSong.id, status: "played" });
 		}
+		if (skippedSong) {
+			const { currentTime: position, duration } = playerStore.state;
+			recordSkip({
+				id: skippedSong.id,
+				positionSec: position,
+				durationSec: duration || skippedSong.audioDuration || undefined,
+			}).catch(() => {});
+		}
 		const nextSong = pickNextSong(
 			songs,
 			liveSongId,
@@ -155,7 +184,7 @@ export function useAutoplayer(playlistId: string | null) {
 			setCurrentSong(nextSong.id);
 			if (nextSong.audioUrl) loadAndPlay(nextSong.audioUrl);
 		}
-	}, [songs, playlist?.promptEpoch, updateSongStatus, loadAndPlay]);
+	}, [songs, playlist?.promptEpoch, updateSongStatus, recordSkip, loadAndPlay]);
 
 	const requestSong = useCallback(
 		async (interruptPrompt: string) => {
@@ -8,9 +8,12 @@ import {
 	type ServerMessage,
 	ServerMessageSchema,
 	type SongData,
+	type TransitionSettings,
 } from "@infinitune/shared/protocol";
+import { DEFAULT_TRANSITION } from "@infinitune/shared/transition";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
+import { getStoredShooIdToken } from "@/integrations/api/client";
 import { ROOM_WS_URL } from "@/lib/endpoints";
 
 const INITIAL_RECONNECT_DELAY = 1000;
@@ -21,6 +24,7 @@ export interface RoomConnection {
 	currentSong: SongData | null;
 	queue: SongData[];
 	devices: Device[];
+	transition: TransitionSettings;
 	connected: boolean;
 	sendCommand: (
 		action: CommandAction,
@@ -36,10 +40,27 @@ export interface RoomConnection {
 	sendSongEnded: () => void;
 	setRole: (role: DeviceRole) => void;
 	renameDevice: (targetDeviceId: string, name: string) => void;
+	/** Report where this player is in `songId`, at a server timestamp (v3). */
+	sendPosition: (songId: string, position: number, serverTime: number) => void;
+	/** This device's manual audio output latency, remembered in localStorage. */
+	outputLatencyMs: number;
+	setOutputLatency: (latencyMs: number) => void;
 	serverTimeOffset: number;
 	addMessageHandler: (handler: (msg: ServerMessage) => void) => () => void;
 }
 
+const OUTPUT_LATENCY_STORAGE_KEY = "infinitune-output-latency-ms";
+const MAX_OUTPUT_LATENCY_MS = 5000;
+
+// Latency belongs to the machine's audio output, so it outlives the tab.
+function readStoredOutputLatency(): number {
+	if (typeof window === "undefined") return 0;
+	const stored = Number(localStorage.getItem(OUTPUT_LATENCY_STORAGE_KEY));
+	return Number.isFinite(stored)
+		? Math.min(MAX_OUTPUT_LATENCY_MS, Math.max(0, stored))
+		: 0;
+}
+
 function buildProtocolMismatchMessage(serverVersion: number): string {
 	return `The room connection needs a refresh. This tab is using protocol v${ROOM_PROTOCOL_VERSION}, but the server is on v${serverVersion}. Refresh this page and reconnect.`;
 }
@@ -70,8 +91,13 @@ export function useRoomConnection(
 	const [currentSong, setCurrentSong] = useState<SongData | null>(null);
 	const [queue, setQueue] = useState<SongData[]>([]);
 	const [devices, setDevices] = useState<Device[]>([]);
+	const [transition, setTransition] =
+		useState<TransitionSettings>(DEFAULT_TRANSITION);
 	const [connected, setConnected] = useState(false);
 	const [serverTimeOffset, setServerTimeOffset] = useState(0);
+	const [outputLatencyMs, setOutputLatencyMs] = useState(
+		readStoredOutputLatency,
+	);
 
 	const wsRef = useRef<WebSocket | null>(null);
 	const reconnectDelay = useRef(INITIAL_RECONNECT_DELAY);
@@ -80,6 +106,7 @@ export function useRoomConnection(
 	const protocolErrorHandledRef = useRef(false);
 	const protocolErrorRef = useRef<string | null>(null);
 	const roleRef = useRef(role);
+	const outputLatencyRef = useRef(outputLatencyMs);
 	const roomIdRef = useRef(roomId);
 	const messageHandlersRef = useRef<((msg: ServerMessage) => void)[]>([]);
 
@@ -159,6 +186,7 @@ export function useRoomConnection(
 					setPlayback(msg.playback);
 					setCurrentSong(msg.currentSong);
 					setDevices(msg.devices);
+					if (msg.transition) setTransition(msg.transition);
 					break;
 				case "queue":
 					setQueue(msg.songs);
@@ -179,6 +207,8 @@ export function useRoomConnection(
 					console.error("[room-ws] Server error:", msg.message);
 					if (msg.code === "PROTOCOL_MISMATCH") {
 						handleProtocolMismatch(msg.message);
+					} else if (msg.code === "FORBIDDEN") {
+						toast.error(msg.message);
 					}
 					break;
 			}
@@ -220,6 +250,9 @@ export function useRoomConnection(
 				playlistKey: playlistKey || undefined,
 				roomName: roomName || undefined,
 				protocolVersion: ROOM_PROTOCOL_VERSION,
+				authToken: getStoredShooIdToken() ?? undefined,
+				outputLatencyMs: outputLatencyRef.current,
+				canNudgeRate: true,
 			});
 
 			// Start time sync pings
@@ -306,6 +339,26 @@ export function useRoomConnection(
 		[send],
 	);
 
+	const sendPosition = useCallback(
+		(songId: string, position: number, serverTime: number) => {
+			send({ type: "position", songId, position, serverTime });
+		},
+		[send],
+	);
+
+	const setOutputLatency = useCallback(
+		(latencyMs: number) => {
+			const clamped = Math.round(
+				Math.min(MAX_OUTPUT_LATENCY_MS, Math.max(0, latencyMs)),
+			);
+			localStorage.setItem(OUTPUT_LATENCY_STORAGE_KEY, String(clamped));
+			outputLatencyRef.current = clamped;
+			setOutputLatencyMs(clamped);
+			send({ type: "setOutputLatency", latencyMs: clamped });
+		},
+		[send],
+	);
+
 	const sendSongEnded = useCallback(() => {
 		send({ type: "songEnded" });
 	}, [send]);
@@ -335,12 +388,16 @@ export function useRoomConnection(
 		currentSong,
 		queue,
 		devices,
+		transition,
 		connected,
 		sendCommand,
 		sendSync,
 		sendSongEnded,
 		setRole: setRoleFn,
 		renameDevice: renameDeviceFn,
+		sendPosition,
+		outputLatencyMs,
+		setOutputLatency,
 		serverTimeOffset,
 		addMessageHandler,
 	};
@@ -1,3 +1,4 @@
+import type { TransitionSettings } from "@infinitune/shared/protocol";
 import { useCallback } from "react";
 import type { RoomConnection } from "./useRoomConnection";
 
@@ -34,6 +35,11 @@ export function useRoomController(connection: RoomConnection) {
 		[sendCommand],
 	);
 
+	const setTransition = useCallback(
+		(settings: TransitionSettings) => sendCommand("setTransition", settings),
+		[sendCommand],
+	);
+
 	const selectSong = useCallback(
 		(songId: string) => sendCommand("selectSong", { songId }),
 		[sendCommand],
@@ -80,6 +86,7 @@ export function useRoomController(connection: RoomConnection) {
 		toggleMute,
 		rate,
 		selectSong,
+		setTransition,
 		setDeviceVolume,
 		toggleDevicePlay,
 		pauseDevice,
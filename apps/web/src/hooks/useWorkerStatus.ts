@@ -1,3 +1,4 @@
+import type { AceEndpointStatus } from "@infinitune/shared/ace-settings";
 import { useQuery } from "@tanstack/react-query";
 import { api } from "@/integrations/api/client";
 
@@ -53,6 +54,8 @@ export interface WorkerStatus {
 		image: EndpointStatus;
 		audio: EndpointStatus;
 	};
+	/** ACE-Step servers behind the audio queue */
+	aceEndpoints?: AceEndpointStatus[];
 	songWorkers: number;
 	playlists: { id: string; name: string; activeSongWorkers: number }[];
 	uptime: number;
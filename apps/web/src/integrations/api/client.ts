@@ -116,7 +116,8 @@ async function fetchWithRetry(
 ): Promise<Response> {
 	for (let attempt = 0; attempt <= retries; attempt++) {
 		try {
-			return await fetch(url, init);
+			// Include cookies so local sign-in sessions reach the API origin
+			return await fetch(url, { credentials: "include", ...init });
 		} catch (error) {
 			// Only retry on transient network errors, not aborts/timeouts
 			if (!isNetworkError(error) || attempt === retries) {
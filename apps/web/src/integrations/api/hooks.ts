@@ -6,14 +6,33 @@
  * WebSocket events from the API server auto-invalidate relevant query keys.
  */
 
+import type { AuditAction, AuditEntryPage } from "@infinitune/shared/audit";
+import type {
+	ApiKey,
+	AuthProviderState,
+	CreatedApiKey,
+} from "@infinitune/shared/auth";
+import type { SongSkip } from "@infinitune/shared/engagement";
+import type {
+	CollaboratorRole,
+	CreatedPlaylistInvite,
+	PlaylistCollaborator,
+	PlaylistInvite,
+	PlaylistRole,
+} from "@infinitune/shared/playlist-roles";
 import {
 	type AuthSession,
 	AuthSessionSchema,
 	type CommandAction,
+	type CreateHouseScheduleRequest,
 	type DeviceRecord,
 	DeviceRecordSchema,
 	type HouseCommandResponse,
 	HouseCommandResponseSchema,
+	type HouseSchedule,
+	HouseScheduleSchema,
+	type HouseSchedulesResponse,
+	HouseSchedulesResponseSchema,
 	type HouseSessionsResponse,
 	HouseSessionsResponseSchema,
 	type IssueDeviceTokenResponse,
@@ -24,9 +43,37 @@ import {
 	PlaylistDeviceAssignmentsResponseSchema,
 	type PlaylistSessionInfo,
 	PlaylistSessionInfoSchema,
+	type UpdateHouseScheduleRequest,
 } from "@infinitune/shared/protocol";
-import type { Playlist, Song } from "@infinitune/shared/types";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import type { SongProvenance } from "@infinitune/shared/provenance";
+import type { PlaylistQualityStats } from "@infinitune/shared/quality-gate";
+import {
+	type Playlist,
+	SONG_SEARCH_FACET_PARAMS,
+	SONG_SEARCH_FACETS,
+	type Song,
+	type SongFamily,
+	type SongSearchFacet,
+	type SongSearchResponse,
+} from "@infinitune/shared/types";
+import type { PlaylistUsageStats } from "@infinitune/shared/usage";
+import type { CreateApiKeyInput } from "@infinitune/shared/validation/auth-schemas";
+import type { CreateSongVariation } from "@infinitune/shared/validation/song-schemas";
+import type {
+	CreateWebhookInput,
+	UpdateWebhookInput,
+} from "@infinitune/shared/validation/webhook-schemas";
+import type {
+	CreatedWebhook,
+	Webhook,
+	WebhookDelivery,
+} from "@infinitune/shared/webhooks";
+import {
+	keepPreviousData,
+	useInfiniteQuery,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
 import { useCallback } from "react";
 import { toast } from "sonner";
 import z from "zod";
@@ -388,6 +435,41 @@ export function useAutoplayerCodexModels(
 	return data;
 }
 
+export function useAutoplayerOpenAiCompatibleModelsQuery(enabled = true) {
+	return useQuery({
+		queryKey: ["autoplayer", "models", "openai-compatible", "all"],
+		queryFn: async () => {
+			try {
+				return extractAutoplayerModelOptions(
+					await api.get<unknown>("/api/autoplayer/openai-compatible-models"),
+				);
+			} catch {
+				// Server unreachable; the model can still be typed in
+				return [];
+			}
+		},
+		enabled,
+		retry: false,
+	});
+}
+
+export function useAutoplayerImageModelsQuery(
+	provider: string,
+	enabled = true,
+) {
+	return useQuery({
+		queryKey: ["autoplayer", "models", provider, "image"],
+		queryFn: async () =>
+			extractAutoplayerModelOptions(
+				await api.get<unknown>(
+					`/api/autoplayer/image-models?provider=${encodeURIComponent(provider)}`,
+				),
+			),
+		enabled,
+		retry: false,
+	});
+}
+
 export function useAutoplayerInferenceShImageModelsQuery(enabled = true) {
 	return useQuery({
 		queryKey: ["autoplayer", "models", "inference-sh", "image"],
@@ -423,7 +505,7 @@ export function useCodexTextModels(
 
 export const useSetSetting = createMutation<{ key: string; value: string }>(
 	(args) => api.post("/api/settings", args),
-	[["settings"]],
+	[["settings"], ["audit"]],
 );
 
 // ─── Control Plane ────────────────────────────────────────────────────
@@ -441,6 +523,54 @@ export function useControlAuthSession(): AuthSession | undefined {
 	return data;
 }
 
+// Signing in or out changes what every owner-scoped query returns
+const AUTH_INVALIDATE_KEYS = [["control"], ["devices"], ["playlists"]];
+
+export function useAuthProviders(): AuthProviderState | undefined {
+	const { data } = useQuery({
+		queryKey: ["control", "auth", "providers"],
+		queryFn: () => api.get<AuthProviderState>("/api/auth/providers"),
+	});
+	return data;
+}
+
+export const useLocalLogin = createMutation<{
+	username: string;
+	password: string;
+}>(async (args) => {
+	await api.post("/api/auth/login", args);
+}, AUTH_INVALIDATE_KEYS);
+
+export const useLocalRegister = createMutation<{
+	username: string;
+	password: string;
+}>(async (args) => {
+	await api.post("/api/auth/register", args);
+}, AUTH_INVALIDATE_KEYS);
+
+export const useLocalLogout = createMutation<void>(async () => {
+	await api.post("/api/auth/logout");
+}, AUTH_INVALIDATE_KEYS);
+
+export function useApiKeys(enabled = true): ApiKey[] | undefined {
+	const { data } = useQuery({
+		queryKey: ["control", "auth", "api-keys"],
+		queryFn: () => api.get<ApiKey[]>("/api/auth/api-keys"),
+		enabled,
+	});
+	return data;
+}
+
+export const useCreateApiKey = createMutation<CreateApiKeyInput, CreatedApiKey>(
+	(args) => api.post<CreatedApiKey>("/api/auth/api-keys", args),
+	[["control", "auth", "api-keys"]],
+);
+
+export const useRevokeApiKey = createMutation<{ id: string }>(
+	(args) => api.del(`/api/auth/api-keys/${args.id}`),
+	[["control", "auth", "api-keys"]],
+);
+
 export function usePlaylistSessionInfo(
 	playlistId: string | null,
 ): PlaylistSessionInfo | undefined {
@@ -617,6 +747,172 @@ export function useHouseSessions(
 	return data;
 }
 
+export function useHouseSchedules(
+	enabled = true,
+): HouseSchedulesResponse | undefined {
+	const { data } = useQuery({
+		queryKey: ["house", "schedules"],
+		queryFn: async () =>
+			HouseSchedulesResponseSchema.parse(
+				await api.get<unknown>("/api/v1/house/schedules"),
+			),
+		enabled,
+	});
+	return data;
+}
+
+export const useCreateHouseSchedule = createMutation<
+	CreateHouseScheduleRequest,
+	HouseSchedule
+>(
+	async (args) =>
+		HouseScheduleSchema.parse(
+			await api.post<unknown>("/api/v1/house/schedules", args),
+		),
+	[["house", "schedules"]],
+);
+
+export const useUpdateHouseSchedule = createMutation<
+	{ id: string } & UpdateHouseScheduleRequest,
+	HouseSchedule
+>(
+	async ({ id, ...patch }) =>
+		HouseScheduleSchema.parse(
+			await api.patch<unknown>(`/api/v1/house/schedules/${id}`, patch),
+		),
+	[["house", "schedules"]],
+);
+
+export const useDeleteHouseSchedule = createMutation<{ id: string }>(
+	async (args) => {
+		OkResponseSchema.parse(
+			await api.del<unknown>(`/api/v1/house/schedules/${args.id}`),
+		);
+	},
+	[["house", "schedules"]],
+);
+
+export const useRunHouseSchedule = createMutation<{
+	id: string;
+	action: "start" | "stop";
+}>(
+	async (args) => {
+		OkResponseSchema.parse(
+			await api.post<unknown>(`/api/v1/house/schedules/${args.id}/run`, {
+				action: args.action,
+			}),
+		);
+	},
+	[
+		["house", "schedules"],
+		["house", "sessions"],
+		["devices", "assignments"],
+	],
+);
+
+// ─── Webhooks ────────────────────────────────────────────────────────
+
+export function useWebhooks(): Webhook[] | undefined {
+	const { data } = useQuery({
+		queryKey: ["webhooks", "all"],
+		queryFn: () => api.get<Webhook[]>("/api/webhooks"),
+	});
+	return data;
+}
+
+export function useWebhookDeliveries(
+	webhookId: string | null,
+): WebhookDelivery[] | undefined {
+	const { data } = useQuery({
+		queryKey: ["webhooks", "deliveries", webhookId],
+		queryFn: () =>
+			api.get<WebhookDelivery[]>(`/api/webhooks/${webhookId}/deliveries`),
+		enabled: !!webhookId,
+	});
+	return data;
+}
+
+export const useCreateWebhook = createMutation<
+	CreateWebhookInput,
+	CreatedWebhook
+>((args) => api.post<CreatedWebhook>("/api/webhooks", args), [["webhooks"]]);
+
+export const useUpdateWebhook = createMutation<
+	{ id: string } & UpdateWebhookInput,
+	Webhook
+>(
+	({ id, ...patch }) => api.patch<Webhook>(`/api/webhooks/${id}`, patch),
+	[["webhooks"]],
+);
+
+export const useRotateWebhookSecret = createMutation<
+	{ id: string },
+	CreatedWebhook
+>(
+	(args) =>
+		api.patch<CreatedWebhook>(`/api/webhooks/${args.id}`, {
+			rotateSecret: true,
+		}),
+	[["webhooks"]],
+);
+
+export const useDeleteWebhook = createMutation<{ id: string }>(
+	async (args) => {
+		OkResponseSchema.parse(await api.del<unknown>(`/api/webhooks/${args.id}`));
+	},
+	[["webhooks"]],
+);
+
+export const useTestWebhook = createMutation<{ id: string }, WebhookDelivery>(
+	(args) => api.post<WebhookDelivery>(`/api/webhooks/${args.id}/test`),
+	[["webhooks"]],
+);
+
+export const useRedeliverWebhook = createMutation<
+	{ deliveryId: string },
+	WebhookDelivery
+>(
+	(args) =>
+		api.post<WebhookDelivery>(
+			`/api/webhooks/deliveries/${args.deliveryId}/redeliver`,
+		),
+	[["webhooks"]],
+);
+
+// ─── Audit Log ───────────────────────────────────────────────────────
+
+export type AuditLogFilters = {
+	action?: AuditAction;
+	playlistId?: string;
+	actorUserId?: string;
+	deviceId?: string;
+	since?: number;
+};
+
+const AUDIT_PAGE_SIZE = 50;
+
+function buildAuditPath(filters: AuditLogFilters, cursor?: string) {
+	const query = new URLSearchParams();
+	for (const [key, value] of Object.entries(filters)) {
+		if (value !== undefined && value !== "") query.set(key, String(value));
+	}
+	if (cursor) query.set("cursor", cursor);
+	query.set("limit", String(AUDIT_PAGE_SIZE));
+	return `/api/audit?${query.toString()}`;
+}
+
+/** Audit entries newest first; older pages load via `fetchNextPage`. */
+export function useAuditLog(filters: AuditLogFilters) {
+	return useInfiniteQuery({
+		queryKey: ["audit", filters],
+		queryFn: ({ pageParam }) =>
+			api.get<AuditEntryPage>(buildAuditPath(filters, pageParam)),
+		initialPageParam: undefined as string | undefined,
+		getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+		placeholderData: keepPreviousData,
+	});
+}
+
 // ─── Playlists ───────────────────────────────────────────────────────
 
 export function usePlaylistsAll(): Playlist[] | undefined {
@@ -636,6 +932,31 @@ export function usePlaylist(id: string | null): Playlist | null | undefined {
 	return id ? data : null;
 }
 
+export function usePlaylistQuality(
+	id: string | null,
+): PlaylistQualityStats | null | undefined {
+	const { data } = useQuery({
+		queryKey: ["playlists", "quality", id],
+		queryFn: () =>
+			api.get<PlaylistQualityStats | null>(`/api/playlists/${id}/quality`),
+		enabled: !!id,
+	});
+	return id ? data : null;
+}
+
+export function usePlaylistUsage(
+	id: string | null,
+): PlaylistUsageStats | null | undefined {
+	const { data } = useQuery({
+		queryKey: ["playlists", "usage", id],
+		queryFn: () =>
+			api.get<PlaylistUsageStats | null>(`/api/playlists/${id}/usage`),
+		enabled: !!id,
+		refetchInterval: 30_000,
+	});
+	return id ? data : null;
+}
+
 export function useCurrentPlaylist(): Playlist | null | undefined {
 	const { data } = useQuery({
 		queryKey: ["playlists", "current"],
@@ -751,6 +1072,112 @@ export const useResetPlaylistDefaults = createMutation<{ id: string }>(
 	[["playlists"]],
 );
 
+// ─── Sharing ─────────────────────────────────────────────────────────
+
+export interface PlaylistCollaborators {
+	viewerRole: PlaylistRole;
+	collaborators: PlaylistCollaborator[];
+}
+
+export interface PlaylistInvitePreview {
+	playlistId: string;
+	playlistName: string;
+	role: CollaboratorRole;
+	expiresAt: number | null;
+}
+
+export function usePlaylistCollaborators(
+	id: string | null,
+): PlaylistCollaborators | null | undefined {
+	const { data } = useQuery({
+		queryKey: ["playlists", "collaborators", id],
+		queryFn: () =>
+			api.get<PlaylistCollaborators>(`/api/playlists/${id}/collaborators`),
+		enabled: !!id,
+	});
+	return id ? data : null;
+}
+
+export function usePlaylistInvites(
+	id: string | null,
+	enabled = true,
+): PlaylistInvite[] | undefined {
+	const { data } = useQuery({
+		queryKey: ["playlists", "invites", id],
+		queryFn: () => api.get<PlaylistInvite[]>(`/api/playlists/${id}/invites`),
+		enabled: !!id && enabled,
+	});
+	return data;
+}
+
+export function usePlaylistInvitePreview(
+	token: string | null,
+): PlaylistInvitePreview | undefined {
+	const { data } = useQuery({
+		queryKey: ["playlists", "invite-preview", token],
+		queryFn: () =>
+			api.get<PlaylistInvitePreview>(
+				`/api/playlists/invites/${encodeURIComponent(token ?? "")}`,
+			),
+		enabled: !!token,
+		retry: false,
+	});
+	return data;
+}
+
+export const useCreatePlaylistInvite = createMutation<
+	{
+		id: string;
+		role: CollaboratorRole;
+		expiresInHours?: number | null;
+		maxUses?: number | null;
+	},
+	CreatedPlaylistInvite
+>(
+	({ id, ...input }) =>
+		api.post<CreatedPlaylistInvite>(`/api/playlists/${id}/invites`, input),
+	[["playlists"]],
+);
+
+export const useRevokePlaylistInvite = createMutation<{
+	id: string;
+	inviteId: string;
+}>(
+	(args) => api.del(`/api/playlists/${args.id}/invites/${args.inviteId}`),
+	[["playlists"]],
+);
+
+export const useSetCollaboratorRole = createMutation<{
+	id: string;
+	userId: string;
+	role: CollaboratorRole;
+}>(
+	(args) =>
+		api.patch(`/api/playlists/${args.id}/collaborators/${args.userId}`, {
+			role: args.role,
+		}),
+	[["playlists"]],
+);
+
+export const useRemoveCollaborator = createMutation<{
+	id: string;
+	userId: string;
+}>(
+	(args) => api.del(`/api/playlists/${args.id}/collaborators/${args.userId}`),
+	[["playlists"]],
+);
+
+export const useAcceptPlaylistInvite = createMutation<
+	{ token: string },
+	{ playlistId: string; role: PlaylistRole }
+>(
+	(args) =>
+		api.post<{ playlistId: string; role: PlaylistRole }>(
+			`/api/playlists/invites/${encodeURIComponent(args.token)}/accept`,
+		),
+	[["playlists"]],
+);
+
 export const useUpdatePlaylistPosition = createMutation<{
 	id: string;
 	currentOrderIndex: number;
@@ -995,6 +1422,44 @@ export function useSongsAll(): Song[] | undefined {
 	return data;
 }
 
+export type SongSearchParams = {
+	q?: string;
+} & Partial<Record<SongSearchFacet, string[]>>;
+
+const SONG_SEARCH_PAGE_SIZE = 60;
+
+function buildSongSearchPath(params: SongSearchParams, cursor?: string) {
+	const query = new URLSearchParams();
+	if (params.q) query.set("q", params.q);
+	for (const facet of SONG_SEARCH_FACETS) {
+		for (const value of params[facet] ?? []) {
+			query.append(SONG_SEARCH_FACET_PARAMS[facet], value);
+		}
+	}
+	if (cursor) query.set("cursor", cursor);
+	query.set("limit", String(SONG_SEARCH_PAGE_SIZE));
+	return `/api/songs/search?${query.toString()}`;
+}
+
+/**
+ * Server-side library search. Pages are fetched on demand via
+ * `fetchNextPage`; facet counts and totals come from the first page.
+ */
+export function useSongSearch(params: SongSearchParams) {
+	return useInfiniteQuery({
+		queryKey: ["songs", "search", params],
+		queryFn: async ({ pageParam }) => {
+			const page = await api.get<SongSearchResponse>(
+				buildSongSearchPath(params, pageParam),
+			);
+			return { ...page, items: normalizeSongList(page.items) ?? [] };
+		},
+		initialPageParam: undefined as string | undefined,
+		getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+		placeholderData: keepPreviousData,
+	});
+}
+
 export function useSongsBatch(ids: string[]): Song[] | undefined {
 	const key = ids.slice().sort().join(",");
 	const { data } = useQuery({
@@ -1007,6 +1472,31 @@ export function useSongsBatch(ids: string[]): Song[] | undefined {
 	return ids.length > 0 ? data : [];
 }
 
+/** Root original plus every variation derived from it. */
+export function useSongFamily(id: string | null): SongFamily | undefined {
+	const { data } = useQuery({
+		queryKey: ["songs", "family", id],
+		queryFn: async () => {
+			const family = await api.get<SongFamily>(`/api/songs/${id}/family`);
+			return { ...family, members: normalizeSongList(family.members) ?? [] };
+		},
+		enabled: !!id,
+	});
+	return id ? data : undefined;
+}
+
+export function useSongProvenance(
+	id: string | null,
+): SongProvenance | null | undefined {
+	const { data } = useQuery({
+		queryKey: ["songs", "provenance", id],
+		queryFn: () =>
+			api.get<SongProvenance | null>(`/api/songs/${id}/provenance`),
+		enabled: !!id,
+	});
+	return id ? data : undefined;
+}
+
 export const useUpdateSongStatus = createMutation<{
 	id: string;
 	status: string;
@@ -1057,6 +1547,17 @@ export const useCreateSong = createMutation<Record<string, unknown>, Song>(
 	{ silent: true },
 );
 
+export const useCreateSongVariation = createMutation<
+	{ id: string } & CreateSongVariation,
+	Song
+>(
+	({ id, ...input }) =>
+		api
+			.post<Song>(`/api/songs/${id}/variations`, input)
+			.then(normalizeSongMedia),
+	[["songs"]],
+);
+
 export const useSetRating = createMutation<{
 	id: string;
 	rating: "up" | "down";
@@ -1170,3 +1671,27 @@ export const useAddListen = createMutation<{ id: string }>(
 	undefined,
 	{ silent: true },
 );
+
+export const useRecordSkip = createMutation<{
+	id: string;
+	positionSec: number;
+	durationSec?: number;
+}>(
+	(args) =>
+		api.post(`/api/songs/${args.id}/skip`, {
+			positionSec: args.positionSec,
+			...(args.durationSec ? { durationSec: args.durationSec } : {}),
+			source: "web",
+		}),
+	undefined,
+	{ silent: true },
+);
+
+export function useSongSkips(id: string | null): SongSkip[] | undefined {
+	const { data } = useQuery({
+		queryKey: ["songs", "skips", id],
+		queryFn: () => api.get<SongSkip[]>(`/api/songs/${id}/skips`),
+		enabled: !!id,
+	});
+	return id ? data : undefined;
+}
@@ -68,9 +68,18 @@ function useWsInvalidation() {
 					queryClient.invalidateQueries({
 						queryKey: ["songs", "all"],
 					});
+					queryClient.invalidateQueries({
+						queryKey: ["songs", "search"],
+					});
+					queryClient.invalidateQueries({
+						queryKey: ["songs", "family"],
+					});
 					queryClient.invalidateQueries({
 						queryKey: ["worker", "status"],
 					});
+					queryClient.invalidateQueries({
+						queryKey: ["playlists", "quality", playlistId],
+					});
 				} else if (routingKey === "playlists") {
 					queryClient.invalidateQueries({
 						queryKey: ["playlists"],
@@ -95,6 +104,10 @@ function useWsInvalidation() {
 					});
 				} else if (routingKey === "agent-memory") {
 					queryClient.invalidateQueries({ queryKey: ["agent-memory"] });
+				} else if (routingKey === "house-schedules") {
+					queryClient.invalidateQueries({ queryKey: ["house", "schedules"] });
+				} else if (routingKey === "webhooks") {
+					queryClient.invalidateQueries({ queryKey: ["webhooks"] });
 				}
 			};
 
@@ -16,6 +16,7 @@ import { GenerationBanner } from "@/components/autoplayer/GenerationBanner";
 import { GenerationControls } from "@/components/autoplayer/GenerationControls";
 import { NowPlaying } from "@/components/autoplayer/NowPlaying";
 import { PlaylistCreator } from "@/components/autoplayer/PlaylistCreator";
+import { PlaylistSharing } from "@/components/autoplayer/PlaylistSharing";
 
 import { QueueGrid } from "@/components/autoplayer/QueueGrid";
 import { QuickRequest } from "@/components/autoplayer/QuickRequest";
@@ -1037,6 +1038,8 @@ function AutoplayerPage() {
 							onRenameDevice={roomController.renameDevice}
 							onResetDeviceToDefault={roomController.resetDeviceToDefault}
 							onSeek={roomController.seek}
+							transition={roomConnection.transition}
+							onSetTransition={roomController.setTransition}
 						/>
 					) : (
 						<NowPlaying
@@ -1067,6 +1070,7 @@ function AutoplayerPage() {
 				</div>
 				<div className="flex flex-col bg-gray-950 overflow-y-auto">
 					{playlist && <GenerationControls playlist={playlist} />}
+					{playlist?.ownerUserId && <PlaylistSharing playlist={playlist} />}
 					<QuickRequest
 						onRequest={requestSong}
 						disabled={!playlist || playlist.status !== "active"}
@@ -1,3 +1,8 @@
+import {
+	SONG_RATING_FILTERS,
+	type SongSearchFacet,
+	type SongSearchFacetCount,
+} from "@infinitune/shared/types";
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import { useStore } from "@tanstack/react-store";
 import { Pause, Play, Search, SlidersHorizontal } from "lucide-react";
@@ -9,7 +14,7 @@ import VinylIcon from "@/components/ui/vinyl-icon";
 import Volume2Icon from "@/components/ui/volume-2-icon";
 import VolumeXIcon from "@/components/ui/volume-x-icon";
 import XIcon from "@/components/ui/x-icon";
-import { usePlaylistsAll, useSongsAll } from "@/integrations/api/hooks";
+import { usePlaylistsAll, useSongSearch } from "@/integrations/api/hooks";
 import { formatTime } from "@/lib/format-time";
 import {
 	getGlobalAudio,
@@ -28,17 +33,7 @@ export const Route = createFileRoute("/autoplayer_/library")({
 
 // ─── Types ──────────────────────────────────────────────────────────
 
-type RatingFilter = "liked" | "disliked" | "unrated";
-
-interface Filters {
-	genres: string[];
-	moods: string[];
-	energies: string[];
-	eras: string[];
-	languages: string[];
-	ratings: RatingFilter[];
-	playlists: string[];
-}
+type Filters = Record<SongSearchFacet, string[]>;
 
 const EMPTY_FILTERS: Filters = {
 	genres: [],
@@ -52,68 +47,14 @@ const EMPTY_FILTERS: Filters = {
 
 // ─── Helpers ────────────────────────────────────────────────────────
 
-function unique(arr: (string | undefined | null)[]): string[] {
-	return [...new Set(arr.filter((v): v is string => !!v))].sort();
-}
-
-function matchesSearch(song: Song, term: string): boolean {
-	if (!term) return true;
-	const lower = term.toLowerCase();
-	const fields = [
-		song.title,
-		song.artistName,
-		song.genre,
-		song.subGenre,
-		song.description,
-		song.lyrics,
-	];
-	return fields.some((f) => f && String(f).toLowerCase().includes(lower));
-}
-
-function matchesFilters(
-	song: Song,
-	filters: Filters,
-	playlistMap: Map<string, string>,
-): boolean {
-	const genre = song.genre as string | undefined;
-	const mood = song.mood as string | undefined;
-	const energy = song.energy as string | undefined;
-	const era = song.era as string | undefined;
-	const language = song.language as string | undefined;
-	const userRating = song.userRating as string | undefined;
-	const playlistId = song.playlistId;
-
-	if (filters.genres.length > 0 && (!genre || !filters.genres.includes(genre)))
-		return false;
-	if (filters.moods.length > 0 && (!mood || !filters.moods.includes(mood)))
-		return false;
-	if (
-		filters.energies.length > 0 &&
-		(!energy || !filters.energies.includes(energy))
-	)
-		return false;
-	if (filters.eras.length > 0 && (!era || !filters.eras.includes(era)))
-		return false;
-	if (
-		filters.languages.length > 0 &&
-		(!language || !filters.languages.includes(language))
-	)
-		return false;
-	if (filters.ratings.length > 0) {
-		const rating: RatingFilter =
-			userRating === "up"
-				? "liked"
-				: userRating === "down"
-					? "disliked"
-					: "unrated";
-		if (!filters.ratings.includes(rating)) return false;
-	}
-	if (filters.playlists.length > 0) {
-		const pid = playlistId as string;
-		const playlistName = playlistMap.get(pid) || pid;
-		if (!filters.playlists.includes(playlistName)) return false;
-	}
-	return true;
+/** Facet values from the server, plus any selected value that dropped to zero. */
+function facetOptions(
+	counts: SongSearchFacetCount[] | undefined,
+	selected: string[],
+): { options: string[]; counts: Map<string, number> } {
+	const map = new Map((counts ?? []).map((c) => [c.value, c.count]));
+	const options = [...new Set([...map.keys(), ...selected])].sort();
+	return { options, counts: map };
 }
 
 // ─── Mini Player ────────────────────────────────────────────────────
@@ -259,12 +200,14 @@ function FilterSection({
 	selected,
 	onToggle,
 	counts,
+	formatLabel = (value) => value,
 }: {
 	title: string;
 	options: string[];
 	selected: string[];
 	onToggle: (value: string) => void;
 	counts: Map<string, number>;
+	formatLabel?: (value: string) => string;
 }) {
 	const [collapsed, setCollapsed] = useState(false);
 	if (options.length === 0) return null;
@@ -297,7 +240,7 @@ function FilterSection({
 								}`}
 								onClick={() => onToggle(opt)}
 							>
-								<span className="truncate">{opt}</span>
+								<span className="truncate">{formatLabel(opt)}</span>
 								<span className="ml-2 shrink-0 text-[10px]">{count}</span>
 							</button>
 						);
@@ -312,7 +255,6 @@ function FilterSection({
 
 function LibraryPage() {
 	const navigate = useNavigate();
-	const songs = useSongsAll();
 	const playlists = usePlaylistsAll();
 
 	const [search, setSearch] = useState("");
@@ -330,6 +272,15 @@ function LibraryPage() {
 		return () => clearTimeout(searchTimerRef.current);
 	}, [search]);
 
+	const songSearch = useSongSearch({ q: debouncedSearch, ...filters });
+	const firstPage = songSearch.data?.pages[0];
+	const total = firstPage?.total ?? 0;
+
+	const songs = useMemo(
+		() => songSearch.data?.pages.flatMap((page) => page.items),
+		[songSearch.data],
+	);
+
 	// Playlist ID → name map
 	const playlistMap = useMemo(() => {
 		const map = new Map<string, string>();
@@ -341,100 +292,40 @@ function LibraryPage() {
 		return map;
 	}, [playlists]);
 
-	// Extract unique filter options from all songs
-	const filterOptions = useMemo(() => {
-		if (!songs)
-			return {
-				genres: [],
-				moods: [],
-				energies: [],
-				eras: [],
-				languages: [],
-				playlists: [],
-			};
-		return {
-			genres: unique(songs.map((s) => s.genre)),
-			moods: unique(songs.map((s) => s.mood)),
-			energies: unique(songs.map((s) => s.energy)),
-			eras: unique(songs.map((s) => s.era)),
-			languages: unique(songs.map((s) => s.language)),
-			playlists: unique(
-				songs
-					.map(
-						(s) =>
-							playlistMap.get(s.playlistId as string) ||
-							(s.playlistId as string),
-					)
-					.filter(Boolean),
-			),
-		};
-	}, [songs, playlistMap]);
-
-	// Filter + search
-	const filtered = useMemo(() => {
-		if (!songs) return [];
-		return songs.filter(
-			(s) =>
-				matchesSearch(s, debouncedSearch) &&
-				matchesFilters(s, filters, playlistMap),
-		);
-	}, [songs, debouncedSearch, filters, playlistMap]);
-
-	// Counts per filter value (based on search + other filters, not this filter)
-	const filterCounts = useMemo(() => {
-		if (!songs)
-			return {
-				genres: new Map(),
-				moods: new Map(),
-				energies: new Map(),
-				eras: new Map(),
-				languages: new Map(),
-				ratings: new Map(),
-				playlists: new Map(),
-			};
-
-		function countFor(
-			key: keyof Filters,
-			valueExtractor: (s: Song) => string | undefined | null,
-		) {
-			const otherFilters = { ...filters, [key]: [] };
-			const base = (songs ?? []).filter(
-				(s) =>
-					matchesSearch(s, debouncedSearch) &&
-					matchesFilters(s, otherFilters, playlistMap),
-			);
-			const counts = new Map<string, number>();
-			for (const s of base) {
-				const val = valueExtractor(s);
-				if (val) counts.set(val, (counts.get(val) ?? 0) + 1);
-			}
-			return counts;
-		}
+	const playlistLabel = useCallback(
+		(id: string) => playlistMap.get(id) || id,
+		[playlistMap],
+	);
 
+	// Facet options + counts (computed server-side with the other filters applied)
+	const facets = useMemo(() => {
+		const facetCounts = firstPage?.facets;
+		const playlistsFacet = facetOptions(
+			facetCounts?.playlists,
+			filters.playlists,
+		);
 		return {
-			genres: countFor("genres", (s) => s.genre as string | undefined),
-			moods: countFor("moods", (s) => s.mood as string | undefined),
-			energies: countFor("energies", (s) => s.energy as string | undefined),
-			eras: countFor("eras", (s) => s.era as string | undefined),
-			languages: countFor("languages", (s) => s.language as string | undefined),
-			ratings: countFor("ratings", (s) =>
-				s.userRating === "up"
-					? "liked"
-					: s.userRating === "down"
-						? "disliked"
-						: "unrated",
-			),
-			playlists: countFor(
-				"playlists",
-				(s) =>
-					playlistMap.get(s.playlistId as string) || (s.playlistId as string),
-			),
+			genres: facetOptions(facetCounts?.genres, filters.genres),
+			moods: facetOptions(facetCounts?.moods, filters.moods),
+			energies: facetOptions(facetCounts?.energies, filters.energies),
+			eras: facetOptions(facetCounts?.eras, filters.eras),
+			languages: facetOptions(facetCounts?.languages, filters.languages),
+			ratings: {
+				options: [...SONG_RATING_FILTERS],
+				counts: facetOptions(facetCounts?.ratings, filters.ratings).counts,
+			},
+			playlists: {
+				...playlistsFacet,
+				options: [...playlistsFacet.options].sort((a, b) =>
+					playlistLabel(a).localeCompare(playlistLabel(b)),
+				),
+			},
 		};
-	}, [songs, debouncedSearch, filters, playlistMap]);
+	}, [firstPage, filters, playlistLabel]);
 
 	const toggleFilter = useCallback((key: keyof Filters, value: string) => {
 		setFilters((prev) => {
-			const arr = prev[key] as string[];
+			const arr = prev[key];
 			return {
 				...prev,
 				[key]: arr.includes(value)
@@ -508,52 +399,53 @@ function LibraryPage() {
 
 			<FilterSection
 				title="GENRE"
-				options={filterOptions.genres}
+				options={facets.genres.options}
 				selected={filters.genres}
 				onToggle={(v) => toggleFilter("genres", v)}
-				counts={filterCounts.genres}
+				counts={facets.genres.counts}
 			/>
 			<FilterSection
 				title="MOOD"
-				options={filterOptions.moods}
+				options={facets.moods.options}
 				selected={filters.moods}
 				onToggle={(v) => toggleFilter("moods", v)}
-				counts={filterCounts.moods}
+				counts={facets.moods.counts}
 			/>
 			<FilterSection
 				title="ENERGY"
-				options={filterOptions.energies}
+				options={facets.energies.options}
 				selected={filters.energies}
 				onToggle={(v) => toggleFilter("energies", v)}
-				counts={filterCounts.energies}
+				counts={facets.energies.counts}
 			/>
 			<FilterSection
 				title="ERA"
-				options={filterOptions.eras}
+				options={facets.eras.options}
 				selected={filters.eras}
 				onToggle={(v) => toggleFilter("eras", v)}
-				counts={filterCounts.eras}
+				counts={facets.eras.counts}
 			/>
 			<FilterSection
 				title="LANGUAGE"
-				options={filterOptions.languages}
+				options={facets.languages.options}
 				selected={filters.languages}
 				onToggle={(v) => toggleFilter("languages", v)}
-				counts={filterCounts.languages}
+				counts={facets.languages.counts}
 			/>
 			<FilterSection
 				title="RATING"
-				options={["liked", "disliked", "unrated"]}
+				options={facets.ratings.options}
 				selected={filters.ratings}
 				onToggle={(v) => toggleFilter("ratings", v)}
-				counts={filterCounts.ratings}
+				counts={facets.ratings.counts}
 			/>
 			<FilterSection
 				title="PLAYLIST"
-				options={filterOptions.playlists}
+				options={facets.playlists.options}
 				selected={filters.playlists}
 				onToggle={(v) => toggleFilter("playlists", v)}
-				counts={filterCounts.playlists}
+				counts={facets.playlists.counts}
+				formatLabel={playlistLabel}
 			/>
 
 			{hasActiveFilters && (
@@ -602,7 +494,7 @@ function LibraryPage() {
 							)}
 						</button>
 						<span className="text-xs uppercase tracking-widest text-white/30">
-							{filtered.length} / {songs.length} SONGS
+							{total} SONGS
 						</span>
 					</div>
 				</div>
@@ -652,86 +544,110 @@ function LibraryPage() {
 
 				{/* Song grid */}
 				<main className="flex-1 overflow-y-auto">
-					{filtered.length === 0 ? (
+					{songs.length === 0 ? (
 						<div className="flex flex-col items-center justify-center h-full min-h-[400px] text-center px-4">
 							<VinylIcon size={64} className="text-white/10 mb-4" />
 							<p className="text-lg font-black uppercase text-white/30">
-								{songs.length === 0 ? "NO SONGS YET" : "NO MATCHES"}
+								{hasActiveFilters ? "NO MATCHES" : "NO SONGS YET"}
 							</p>
 							<p className="text-xs uppercase tracking-wider text-white/15 mt-2">
-								{songs.length === 0
-									? "START A PLAYLIST TO GENERATE MUSIC"
-									: "TRY DIFFERENT FILTERS OR SEARCH TERMS"}
+								{hasActiveFilters
+									? "TRY DIFFERENT FILTERS OR SEARCH TERMS"
+									: "START A PLAYLIST TO GENERATE MUSIC"}
 							</p>
 						</div>
 					) : (
-						<div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
-							{filtered.map((song) => {
-								const isCurrent = song.id === currentSongId;
-								const isPlayable = !!song.audioUrl;
-								return (
-									<div
-										key={song.id}
-										className={`border-r-2 border-b-2 border-white/10 transition-colors ${
-											isCurrent ? "bg-red-950/40" : "bg-gray-950"
-										}`}
-									>
-										{/* Cover — click to play */}
-										{/* biome-ignore lint/a11y/useSemanticElements: div wraps cover art with overlay */}
-										<div
-											role="button"
-											tabIndex={0}
-											className={`relative ${isPlayable ? "cursor-pointer" : "opacity-50"}`}
-											onClick={() => isPlayable && handlePlaySong(song)}
-											onKeyDown={(e) => {
-												if (e.key === "Enter" || e.key === " ") {
-													e.preventDefault();
-													if (isPlayable) handlePlaySong(song);
-												}
-											}}
-										>
-											<CoverArt
-												title={song.title || "..."}
-												artistName={song.artistName || "..."}
-												cover={song.cover}
-												size="sm"
-											/>
-											{isCurrent && (
-												<div className="absolute bottom-0 left-0 right-0 bg-red-500 text-white text-center text-[10px] font-black py-1 uppercase">
-													NOW PLAYING
-												</div>
-											)}
-										</div>
-										{/* Info — click to open detail */}
-										{/* biome-ignore lint/a11y/useSemanticElements: div wraps song info with genre badge */}
+						<>
+							<div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+								{songs.map((song) => {
+									const isCurrent = song.id === currentSongId;
+									const isPlayable = !!song.audioUrl;
+									return (
 										<div
-											role="button"
-											tabIndex={0}
-											className="p-2 cursor-pointer hover:bg-gray-900 transition-colors"
-											onClick={() => setDetailSongId(song.id)}
-											onKeyDown={(e) => {
-												if (e.key === "Enter" || e.key === " ") {
-													e.preventDefault();
-													setDetailSongId(song.id);
-												}
-											}}
+											key={song.id}
+											className={`border-r-2 border-b-2 border-white/10 transition-colors ${
+												isCurrent ? "bg-red-950/40" : "bg-gray-950"
+											}`}
 										>
-											<p className="text-xs font-black uppercase truncate">
-												{song.title || "..."}
-											</p>
-											<p className="text-[10px] uppercase text-white/30 truncate">
-												{song.artistName || "..."}
-											</p>
-											{song.genre && (
-												<span className="inline-block mt-1 border border-white/15 px-1.5 py-0.5 text-[9px] font-black uppercase text-white/40 truncate max-w-full">
-													{song.genre}
-												</span>
-											)}
+											{/* Cover — click to play */}
+											{/* biome-ignore lint/a11y/useSemanticElements: div wraps cover art with overlay */}
+											<div
+												role="button"
+												tabIndex={0}
+												className={`relative ${isPlayable ? "cursor-pointer" : "opacity-50"}`}
+												onClick={() => isPlayable && handlePlaySong(song)}
+												onKeyDown={(e) => {
+													if (e.key === "Enter" || e.key === " ") {
+														e.preventDefault();
+														if (isPlayable) handlePlaySong(song);
+													}
+												}}
+											>
+												<CoverArt
+													title={song.title || "..."}
+													artistName={song.artistName || "..."}
+													cover={song.cover}
+													size="sm"
+												/>
+												{isCurrent && (
+													<div className="absolute bottom-0 left-0 right-0 bg-red-500 text-white text-center text-[10px] font-black py-1 uppercase">
+														NOW PLAYING
+													</div>
+												)}
+											</div>
+											{/* Info — click to open detail */}
+											{/* biome-ignore lint/a11y/useSemanticElements: div wraps song info with genre badge */}
+											<div
+												role="button"
+												tabIndex={0}
+												className="p-2 cursor-pointer hover:bg-gray-900 transition-colors"
+												onClick={() => setDetailSongId(song.id)}
+												onKeyDown={(e) => {
+													if (e.key === "Enter" || e.key === " ") {
+														e.preventDefault();
+														setDetailSongId(song.id);
+													}
+												}}
+											>
+												<p className="text-xs font-black uppercase truncate">
+													{song.title || "..."}
+												</p>
+												<p className="text-[10px] uppercase text-white/30 truncate">
+													{song.artistName || "..."}
+												</p>
+												{song.genre && (
+													<span className="inline-block mt-1 border border-white/15 px-1.5 py-0.5 text-[9px] font-black uppercase text-white/40 truncate max-w-full">
+														{song.genre}
+													</span>
+												)}
+												{song.parentSongId && (
+													<span className="inline-block mt-1 ml-1 border border-red-500/40 px-1.5 py-0.5 text-[9px] font-black uppercase text-red-400">
+														VARIATION
+													</span>
+												)}
+												{(song.earlySkipCount ?? 0) > 0 && (
+													<span className="inline-block mt-1 ml-1 border border-orange-400/40 px-1.5 py-0.5 text-[9px] font-black uppercase text-orange-400">
+														SKIPPED {song.earlySkipCount}x
+													</span>
+												)}
+											</div>
 										</div>
-									</div>
-								);
-							})}
-						</div>
+									);
+								})}
+							</div>
+							{songSearch.hasNextPage && (
+								<div className="p-4">
+									<button
+										type="button"
+										className="w-full border-2 border-white/20 px-3 py-2 text-xs font-black uppercase text-white/60 hover:bg-white hover:text-black transition-colors disabled:opacity-40"
+										disabled={songSearch.isFetchingNextPage}
+										onClick={() => songSearch.fetchNextPage()}
+									>
+										{songSearch.isFetchingNextPage ? "LOADING..." : "LOAD MORE"}
+									</button>
+								</div>
+							)}
+						</>
 					)}
 				</main>
 			</div>
@@ -742,7 +658,7 @@ function LibraryPage() {
 					<span>{"LIBRARY // ALL PLAYLISTS"}</span>
 					<span className="flex items-center gap-2">
 						<VinylIcon size={12} />
-						{filtered.length} SHOWN / {songs.length} TOTAL
+						{songs.length} SHOWN / {total} TOTAL
 					</span>
 				</div>
 			</footer>
@@ -48,6 +48,7 @@ import { useVolumeSync } from "@/hooks/useVolumeSync";
 import { api, getRequestErrorMessage } from "@/integrations/api/client";
 import {
 	useAutoplayerCodexModels,
+	useAutoplayerOpenAiCompatibleModelsQuery,
 	useCreatePlaylist,
 	usePlaylistByKey,
 	useSettings,
@@ -104,6 +105,9 @@ function OneshotPage() {
 	const [provider, setProvider] = useState<LlmProvider>(DEFAULT_TEXT_PROVIDER);
 	const [model, setModel] = useState(DEFAULT_OPENAI_CODEX_TEXT_MODEL);
 	const codexModels = useAutoplayerCodexModels() ?? [];
+	const { data: localModels = [] } = useAutoplayerOpenAiCompatibleModelsQuery(
+		provider === "openai-compatible",
+	);
 	const [enhancing, setEnhancing] = useState(false);
 	const [generating, setGenerating] = useState(false);
 	const [advancedOpen, setAdvancedOpen] = useState(false);
@@ -180,6 +184,8 @@ function OneshotPage() {
 			setModel(settings.textModel);
 		} else if (configuredProvider === "anthropic") {
 			setModel(DEFAULT_ANTHROPIC_TEXT_MODEL);
+		} else if (configuredProvider === "openai-compatible") {
+			setModel("");
 		} else {
 			setModel(DEFAULT_OPENAI_CODEX_TEXT_MODEL);
 		}
@@ -209,8 +215,16 @@ function OneshotPage() {
 		}
 		if (provider === "anthropic" && !model.trim()) {
 			setModel(DEFAULT_ANTHROPIC_TEXT_MODEL);
+			return;
 		}
-	}, [provider, model, codexTextModels]);
+		if (
+			provider === "openai-compatible" &&
+			!model.trim() &&
+			localModels.length > 0
+		) {
+			setModel(localModels[0].name);
+		}
+	}, [provider, model, codexTextModels, localModels]);
 
 	// ── Handlers ──
 	const handleEnhancePrompt = useCallback(async () => {
@@ -489,6 +503,20 @@ function OneshotPage() {
 										>
 											ANTHROPIC
 										</button>
+										<button
+											type="button"
+											className={`flex-1 h-10 border-4 border-l-0 border-white/20 font-mono text-xs font-black uppercase transition-colors ${
+												provider === "openai-compatible"
+													? "bg-yellow-500 text-black border-yellow-500"
+													: "bg-transparent text-white hover:bg-white/10"
+											}`}
+											onClick={() => {
+												setProvider("openai-compatible");
+												setModel("");
+											}}
+										>
+											LOCAL
+										</button>
 									</div>
 								</div>
 
@@ -514,13 +542,33 @@ function OneshotPage() {
 												))}
 											</SelectContent>
 										</Select>
+									) : provider === "openai-compatible" &&
+										localModels.length > 0 ? (
+										<Select value={model} onValueChange={setModel}>
+											<SelectTrigger className="w-full h-10 rounded-none border-4 border-white/20 bg-gray-900 font-mono text-sm font-bold uppercase text-white">
+												<SelectValue placeholder="SELECT LOCAL MODEL" />
+											</SelectTrigger>
+											<SelectContent className="rounded-none border-4 border-white/20 bg-gray-900 font-mono">
+												{localModels.map((m) => (
+													<SelectItem
+														key={m.name}
+														value={m.name}
+														className="font-mono text-sm font-bold uppercase text-white"
+													>
+														{m.name.toUpperCase()}
+													</SelectItem>
+												))}
+											</SelectContent>
+										</Select>
 									) : (
 										<Input
 											className="h-10 rounded-none border-4 border-white/20 bg-gray-900 font-mono text-sm font-bold uppercase text-white focus-visible:ring-0"
 											placeholder={
 												provider === "openai-codex"
 													? DEFAULT_OPENAI_CODEX_TEXT_MODEL.toUpperCase()
-													: DEFAULT_ANTHROPIC_TEXT_MODEL.toUpperCase()
+													: provider === "openai-compatible"
+														? "MODEL ID"
+														: DEFAULT_ANTHROPIC_TEXT_MODEL.toUpperCase()
 											}
 											value={model}
 											onChange={(e) => setModel(e.target.value)}
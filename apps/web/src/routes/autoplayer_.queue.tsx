@@ -1,9 +1,19 @@
+import {
+	type PlaylistQualityStats,
+	QUALITY_ISSUES,
+} from "@infinitune/shared/quality-gate";
+import {
+	type BudgetLimit,
+	PLAYLIST_BUDGET_FIELDS,
+	type PlaylistUsageStats,
+} from "@infinitune/shared/usage";
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
 import { ArrowLeft, ChevronDown, ChevronRight, Loader2 } from "lucide-react";
 import { useEffect, useMemo, useState } from "react";
 import { CoverImage } from "@/components/autoplayer/CoverImage";
 import { LiveTimer } from "@/components/autoplayer/LiveTimer";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
 import {
 	type CompletionStats,
 	type EndpointStatus,
@@ -12,7 +22,12 @@ import {
 	type WorkerInspect,
 	type WorkerStatus,
 } from "@/hooks/useWorkerStatus";
-import { useSongsBatch } from "@/integrations/api/hooks";
+import {
+	usePlaylistQuality,
+	usePlaylistUsage,
+	useSongsBatch,
+	useUpdatePlaylistParams,
+} from "@/integrations/api/hooks";
 import {
 	getCoverColors,
 	getCoverPattern,
@@ -867,6 +882,105 @@ function WorkerOverview({ status }: { status: WorkerStatus }) {
 	);
 }
 
+// ─── ACE-Step endpoint pool ─────────────────────────────────────────
+
+function AceEndpointsPanel({
+	endpoints,
+}: {
+	endpoints: NonNullable<WorkerStatus["aceEndpoints"]>;
+}) {
+	// A single endpoint is already covered by the AUDIO panel
+	if (endpoints.length < 2) return null;
+	const now = Date.now();
+
+	return (
+		<div className="border-2 border-white/15 bg-black/40 px-4 py-3">
+			<div className="text-[11px] text-white/30 font-bold uppercase tracking-widest mb-2">
+				ACE-STEP SERVERS
+			</div>
+			<div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-2">
+				{endpoints.map((endpoint) => {
+					const backedOff =
+						endpoint.backoffUntil !== null && endpoint.backoffUntil > now;
+					const state = !endpoint.healthy
+						? { label: "DOWN", dot: "bg-red-500", text: "text-red-400" }
+						: backedOff
+							? {
+									label: "BACKOFF",
+									dot: "bg-yellow-400",
+									text: "text-yellow-400",
+								}
+							: {
+									label: "HEALTHY",
+									dot: "bg-green-400",
+									text: "text-green-400",
+								};
+					const load = Math.min(1, endpoint.active / endpoint.concurrency);
+					return (
+						<div
+							key={endpoint.url}
+							className="border border-white/15 bg-white/[0.03] px-3 py-2 space-y-1.5"
+						>
+							<div className="flex items-center gap-2">
+								<span className={`h-2 w-2 rounded-full ${state.dot}`} />
+								<span className="text-sm font-black uppercase truncate">
+									{endpoint.name}
+								</span>
+								<span
+									className={`ml-auto text-[10px] font-black ${state.text}`}
+								>
+									{state.label}
+								</span>
+							</div>
+							<div className="text-[10px] text-white/30 truncate">
+								{endpoint.url}
+							</div>
+							<div className="flex items-center gap-2">
+								<div className="h-2 flex-1 bg-white/10">
+									<div
+										className="h-full bg-amber-500"
+										style={{ width: `${load * 100}%` }}
+									/>
+								</div>
+								<span className="text-xs font-bold tabular-nums text-white/60">
+									{endpoint.active}/{endpoint.concurrency}
+								</span>
+							</div>
+							<div className="flex justify-between text-[10px] font-bold uppercase text-white/30 tabular-nums">
+								<span>
+									{endpoint.completed} DONE / {endpoint.failed} FAILED
+								</span>
+								{endpoint.loadedModel && (
+									<span className="truncate max-w-40">
+										{endpoint.loadedModel}
+									</span>
+								)}
+							</div>
+							{endpoint.models && endpoint.models.length > 0 && (
+								<div className="flex flex-wrap gap-1">
+									{endpoint.models.map((model) => (
+										<span
+											key={model}
+											className="border border-white/10 px-1 text-[9px] font-bold uppercase text-white/40"
+										>
+											{model}
+										</span>
+									))}
+								</div>
+							)}
+							{endpoint.lastError && (
+								<div className="text-[10px] text-red-400/80 truncate">
+									{endpoint.lastError}
+								</div>
+							)}
+						</div>
+					);
+				})}
+			</div>
+		</div>
+	);
+}
+
 // ─── Active playlists bar ───────────────────────────────────────────
 
 function ActivePlaylistsBar({
@@ -902,6 +1016,283 @@ function ActivePlaylistsBar({
 	);
 }
 
+// ─── Quality gate panel ─────────────────────────────────────────────
+
+function QualityBudgetEditor({
+	playlistId,
+	stats,
+}: {
+	playlistId: string;
+	stats: PlaylistQualityStats;
+}) {
+	const updateParams = useUpdatePlaylistParams();
+	const [draft, setDraft] = useState(String(stats.retryBudget));
+
+	useEffect(() => {
+		setDraft(String(stats.retryBudget));
+	}, [stats.retryBudget]);
+
+	const save = (qualityRetryBudget: number | null) =>
+		updateParams({ id: playlistId, qualityRetryBudget });
+
+	return (
+		<div className="flex items-center gap-1">
+			<Input
+				aria-label="Quality retry budget"
+				className="h-7 w-16 rounded-none border-2 border-white/20 bg-gray-950 font-mono text-xs font-bold text-white focus-visible:ring-0"
+				type="number"
+				min="0"
+				step="1"
+				value={draft}
+				onChange={(event) => setDraft(event.target.value)}
+				onKeyDown={(event) => {
+					const parsed = Number.parseInt(draft, 10);
+					if (event.key === "Enter" && parsed >= 0) save(parsed);
+				}}
+			/>
+			{stats.budgetOverridden && (
+				<button
+					type="button"
+					className="px-2 text-[11px] font-black uppercase tracking-widest text-white/30 hover:text-white/60"
+					onClick={() => save(null)}
+				>
+					GLOBAL
+				</button>
+			)}
+		</div>
+	);
+}
+
+function PlaylistQualityRow({ id, name }: { id: string; name: string }) {
+	const stats = usePlaylistQuality(id);
+	if (!stats) return null;
+
+	const passRate =
+		stats.checked > 0 ? Math.round((stats.passed / stats.checked) * 100) : null;
+	const budgetSpent = stats.retriesUsed >= stats.retryBudget;
+
+	return (
+		<div className="border border-white/15 bg-white/[0.03] px-3 py-2 space-y-1.5">
+			<div className="flex items-center gap-3">
+				<span className="text-sm font-black uppercase truncate flex-1">
+					{name}
+				</span>
+				<span className="text-xs tabular-nums text-green-400">
+					{stats.passed} PASSED
+				</span>
+				<span className="text-xs tabular-nums text-red-400">
+					{stats.rejected} REJECTED
+				</span>
+				<span className="text-xs tabular-nums text-white/40">
+					{passRate != null ? `${passRate}%` : "—"}
+				</span>
+			</div>
+			<div className="flex flex-wrap items-center gap-2">
+				{QUALITY_ISSUES.map((issue) => (
+					<Badge
+						key={issue}
+						variant="outline"
+						className={`rounded-none text-[10px] font-bold uppercase ${
+							stats.issueCounts[issue] > 0
+								? "border-red-500/40 text-red-400"
+								: "border-white/10 text-white/20"
+						}`}
+					>
+						{issue} {stats.issueCounts[issue]}
+					</Badge>
+				))}
+				<span className="ml-auto flex items-center gap-2 text-[11px] uppercase tracking-widest">
+					<span className={budgetSpent ? "text-red-400" : "text-white/30"}>
+						RETRIES {stats.retriesUsed}/{stats.retryBudget}
+					</span>
+					<QualityBudgetEditor playlistId={id} stats={stats} />
+				</span>
+			</div>
+			{stats.lastRejection && (
+				<div className="text-[11px] text-white/30 truncate">
+					LAST: {stats.lastRejection.reason}
+				</div>
+			)}
+		</div>
+	);
+}
+
+function QualityGatePanel({
+	playlists,
+}: {
+	playlists: WorkerStatus["playlists"];
+}) {
+	if (playlists.length === 0) return null;
+
+	return (
+		<div className="border-2 border-white/15 bg-black/40 px-4 py-3">
+			<div className="text-[11px] text-white/30 font-bold uppercase tracking-widest mb-2">
+				QUALITY GATE
+			</div>
+			<div className="space-y-2">
+				{playlists.map((pl) => (
+					<PlaylistQualityRow key={pl.id} id={pl.id} name={pl.name} />
+				))}
+			</div>
+		</div>
+	);
+}
+
+// ─── Usage and budgets panel ────────────────────────────────────────
+
+const BUDGET_LABELS: Record<BudgetLimit, string> = {
+	songsPerHour: "SONGS/HR",
+	tokensPerDay: "TOKENS/DAY",
+	gpuMinutesPerDay: "GPU MIN/DAY",
+};
+
+function formatCount(value: number): string {
+	if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+	if (value >= 10_000) return `${Math.round(value / 1000)}K`;
+	return String(Math.round(value));
+}
+
+function budgetUsed(usage: PlaylistUsageStats, limit: BudgetLimit): number {
+	switch (limit) {
+		case "songsPerHour":
+			return usage.window.songsLastHour;
+		case "tokensPerDay":
+			return usage.window.tokensLastDay;
+		case "gpuMinutesPerDay":
+			return usage.window.gpuSecondsLastDay / 60;
+	}
+}
+
+function BudgetField({
+	playlistId,
+	limit,
+	usage,
+}: {
+	playlistId: string;
+	limit: BudgetLimit;
+	usage: PlaylistUsageStats;
+}) {
+	const updateParams = useUpdatePlaylistParams();
+	const budget = usage.budget[limit];
+	const [draft, setDraft] = useState(budget == null ? "" : String(budget));
+
+	useEffect(() => {
+		setDraft(budget == null ? "" : String(budget));
+	}, [budget]);
+
+	const used = budgetUsed(usage, limit);
+	const exceeded = usage.exceeded.includes(limit);
+
+	const save = () => {
+		const trimmed = draft.trim();
+		const parsed = Number(trimmed);
+		if (trimmed && (!Number.isFinite(parsed) || parsed < 0)) return;
+		const value = !trimmed
+			? null
+			: limit === "gpuMinutesPerDay"
+				? parsed
+				: Math.round(parsed);
+		updateParams({ id: playlistId, [PLAYLIST_BUDGET_FIELDS[limit]]: value });
+	};
+
+	return (
+		<div className="flex items-center gap-1.5 text-[11px] uppercase tracking-widest">
+			<span className={exceeded ? "text-red-400" : "text-white/30"}>
+				{BUDGET_LABELS[limit]} {formatCount(used)}/
+			</span>
+			<Input
+				aria-label={`${BUDGET_LABELS[limit]} budget`}
+				className="h-7 w-20 rounded-none border-2 border-white/20 bg-gray-950 font-mono text-xs font-bold text-white focus-visible:ring-0"
+				type="number"
+				min="0"
+				step={limit === "gpuMinutesPerDay" ? "0.5" : "1"}
+				placeholder="∞"
+				value={draft}
+				onChange={(event) => setDraft(event.target.value)}
+				onKeyDown={(event) => {
+					if (event.key === "Enter") save();
+				}}
+			/>
+		</div>
+	);
+}
+
+function PlaylistUsageRow({ id, name }: { id: string; name: string }) {
+	const usage = usePlaylistUsage(id);
+	if (!usage) return null;
+
+	const { total } = usage;
+	const recentDays = usage.daily.slice(0, 7);
+
+	return (
+		<div className="border border-white/15 bg-white/[0.03] px-3 py-2 space-y-1.5">
+			<div className="flex items-center gap-3">
+				<span className="text-sm font-black uppercase truncate flex-1">
+					{name}
+				</span>
+				{usage.exceeded.length > 0 && (
+					<Badge
+						variant="outline"
+						className="rounded-none border-red-500/40 text-[10px] font-bold uppercase text-red-400"
+					>
+						PAUSED BY BUDGET
+					</Badge>
+				)}
+				<span className="text-xs tabular-nums text-cyan-400">
+					{formatCount(total.inputTokens + total.outputTokens)} TOKENS
+				</span>
+				<span className="text-xs tabular-nums text-purple-400">
+					{total.imageCalls} IMAGES
+				</span>
+				<span className="text-xs tabular-nums text-amber-400">
+					{(total.gpuSeconds / 60).toFixed(1)} GPU MIN
+				</span>
+				<span className="text-xs tabular-nums text-white/40">
+					${total.costUsd.toFixed(2)}
+				</span>
+			</div>
+			<div className="flex flex-wrap items-center gap-4">
+				{(Object.keys(BUDGET_LABELS) as BudgetLimit[]).map((limit) => (
+					<BudgetField
+						key={limit}
+						playlistId={id}
+						limit={limit}
+						usage={usage}
+					/>
+				))}
+			</div>
+			{recentDays.length > 0 && (
+				<div className="flex flex-wrap gap-x-4 gap-y-1 text-[11px] tabular-nums text-white/30">
+					{recentDays.map((day) => (
+						<span key={day.day}>
+							{day.day.slice(5)} ·{" "}
+							{formatCount(day.inputTokens + day.outputTokens)} TOK ·{" "}
+							{day.imageCalls} IMG · {(day.gpuSeconds / 60).toFixed(1)} GPU MIN
+						</span>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+function UsagePanel({ playlists }: { playlists: WorkerStatus["playlists"] }) {
+	if (playlists.length === 0) return null;
+
+	return (
+		<div className="border-2 border-white/15 bg-black/40 px-4 py-3">
+			<div className="text-[11px] text-white/30 font-bold uppercase tracking-widest mb-2">
+				USAGE &amp; BUDGETS
+			</div>
+			<div className="space-y-2">
+				{playlists.map((pl) => (
+					<PlaylistUsageRow key={pl.id} id={pl.id} name={pl.name} />
+				))}
+			</div>
+		</div>
+	);
+}
+
 // ─── Throughput stats bar ───────────────────────────────────────────
 
 function ThroughputStatCell({
@@ -1374,7 +1765,13 @@ function QueuePage() {
 						{/* 3. Throughput stats bar */}
 						<ThroughputStatsBar status={status} />
 
-						{/* 4. Endpoint panels (hero content) */}
+						{/* 4. Quality gate stats per playlist */}
+						<QualityGatePanel playlists={status.playlists} />
+
+						{/* 5. Token, image and GPU usage against budgets */}
+						<UsagePanel playlists={status.playlists} />
+
+						{/* 6. Endpoint panels (hero content) */}
 						<div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
 							<EndpointPanel
 								label="LLM"
@@ -1402,10 +1799,13 @@ function QueuePage() {
 							/>
 						</div>
 
-						{/* 5. Queue monitoring (sparklines) */}
+						{/* 7. Per-server audio load */}
+						<AceEndpointsPanel endpoints={status.aceEndpoints ?? []} />
+
+						{/* 8. Queue monitoring (sparklines) */}
 						<QueueMonitoringPanel history={history} />
 
-						{/* 6. Developer Tools (collapsible) */}
+						{/* 9. Developer Tools (collapsible) */}
 						<DeveloperToolsSection
 							actorGraph={status.actorGraph}
 							songMap={songMap}
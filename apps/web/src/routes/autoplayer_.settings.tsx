@@ -1,45 +1,82 @@
 import {
+	ACE_CONCURRENCY_SETTING,
 	ACE_DCW_DEFAULTS,
+	ACE_ENDPOINTS_SETTING,
 	ACE_VAE_DEFAULT,
+	type AceEndpointConfig,
+	normalizeAceConcurrency,
 	normalizeAceDcwScaler,
 	normalizeAceModel,
 	normalizeAceVaeCheckpoint,
+	parseAceEndpoints,
 	parseBooleanSetting,
 	resolveAceModelSetting,
 } from "@infinitune/shared/ace-settings";
 import {
 	type AgentReasoningLevel,
 	DEFAULT_AGENT_REASONING_LEVELS,
+	getAgentModelSettingKey,
+	getAgentProviderSettingKey,
 	getAgentReasoningSettingKey,
 	INFINITUNE_AGENT_IDS,
 	type InfinituneAgentId,
 	normalizeAgentReasoningLevel,
 } from "@infinitune/shared/agent-reasoning";
+import { normalizeImageProvider } from "@infinitune/shared/image-providers";
 import { DEFAULT_INFERENCE_SH_IMAGE_MODEL as DEFAULT_IMAGE_MODEL } from "@infinitune/shared/inference-sh-image-models";
+import {
+	LOUDNESS_NORMALIZATION_SETTING,
+	type LoudnessNormalizationMode,
+	normalizeLoudnessMode,
+} from "@infinitune/shared/loudness";
+import {
+	QUALITY_GATE_DEFAULTS,
+	resolveQualityGateConfig,
+} from "@infinitune/shared/quality-gate";
+import { TASTE_PROFILE_PROMPTS_SETTING } from "@infinitune/shared/taste-profile";
 import {
 	DEFAULT_ANTHROPIC_TEXT_MODEL,
 	DEFAULT_OPENAI_CODEX_TEXT_MODEL,
 	DEFAULT_TEXT_PROVIDER,
 	normalizeLlmProvider,
+	OPENAI_COMPATIBLE_BASE_URL_SETTING,
+	OPENAI_COMPATIBLE_MODELS_SETTING,
 } from "@infinitune/shared/text-llm-profile";
 import type { LlmProvider } from "@infinitune/shared/types";
 import { createFileRoute, useNavigate } from "@tanstack/react-router";
-import { Cpu, Music, Plug, ScanSearch } from "lucide-react";
+import {
+	Cpu,
+	Music,
+	Plug,
+	ScanSearch,
+	ScrollText,
+	Webhook,
+} from "lucide-react";
 import { useCallback, useEffect, useState } from "react";
-import { SettingsTabAudioEngine } from "@/components/autoplayer/settings/SettingsTabAudioEngine";
+import {
+	type QualityGateDraft,
+	qualityGateSettingEntries,
+	SettingsTabAudioEngine,
+	toQualityGateDraft,
+} from "@/components/autoplayer/settings/SettingsTabAudioEngine";
+import { SettingsTabAudit } from "@/components/autoplayer/settings/SettingsTabAudit";
 import type {
+	AgentModelOverride,
 	InferenceShImageModelOption,
 	ModelOption,
 } from "@/components/autoplayer/settings/SettingsTabModels";
 import { SettingsTabModels } from "@/components/autoplayer/settings/SettingsTabModels";
 import { SettingsTabNetwork } from "@/components/autoplayer/settings/SettingsTabNetwork";
+import { SettingsTabWebhooks } from "@/components/autoplayer/settings/SettingsTabWebhooks";
 import type { TestStatus } from "@/components/autoplayer/settings/TestButton";
 import { Button } from "@/components/ui/button";
 import { usePlaylistHeartbeat } from "@/hooks/usePlaylistHeartbeat";
 import {
 	useAutoplayerAceModels,
 	useAutoplayerCodexModelsQuery,
+	useAutoplayerImageModelsQuery,
 	useAutoplayerInferenceShImageModelsQuery,
+	useAutoplayerOpenAiCompatibleModelsQuery,
 	usePlaylistByKey,
 	useSetSetting,
 	useSettings,
@@ -54,12 +91,14 @@ export const Route = createFileRoute("/autoplayer_/settings")({
 	validateSearch: validatePlaylistKeySearch,
 });
 
-type Tab = "network" | "models" | "audio";
+type Tab = "network" | "models" | "audio" | "webhooks" | "audit";
 
 const TABS: { id: Tab; label: string; icon: typeof Plug }[] = [
 	{ id: "network", label: "NETWORK", icon: Plug },
 	{ id: "models", label: "MODELS", icon: Cpu },
 	{ id: "audio", label: "AUDIO ENGINE", icon: Music },
+	{ id: "webhooks", label: "WEBHOOKS", icon: Webhook },
+	{ id: "audit", label: "AUDIT LOG", icon: ScrollText },
 ];
 
 interface CodexAuthSession {
@@ -119,11 +158,21 @@ function SettingsPage() {
 		ACE_DCW_DEFAULTS.wavelet,
 	);
 	const [aceVaeCheckpoint, setAceVaeCheckpoint] = useState(ACE_VAE_DEFAULT);
+	const [loudnessNormalization, setLoudnessNormalization] =
+		useState<LoudnessNormalizationMode>("track");
+	const [qualityGate, setQualityGate] = useState<QualityGateDraft>(() =>
+		toQualityGateDraft(QUALITY_GATE_DEFAULTS),
+	);
 
 	// Service URLs
 	const [ollamaUrl, setOllamaUrl] = useState("http://192.168.10.120:11434");
 	const [aceStepUrl, setAceStepUrl] = useState("http://192.168.10.120:8001");
 	const [comfyuiUrl, setComfyuiUrl] = useState("http://192.168.10.120:8188");
+	const [a1111Url, setA1111Url] = useState("http://127.0.0.1:7860");
+	const [aceConcurrency, setAceConcurrency] = useState(1);
+	const [aceEndpoints, setAceEndpoints] = useState<AceEndpointConfig[]>([]);
+	const [openAiCompatibleBaseUrl, setOpenAiCompatibleBaseUrl] = useState("");
+	const [openAiCompatibleModels, setOpenAiCompatibleModels] = useState("");
 
 	// Model settings
 	const [textProvider, setTextProvider] = useState<LlmProvider>(
@@ -140,6 +189,10 @@ function SettingsPage() {
 	const [agentReasoning, setAgentReasoning] = useState<
 		Record<InfinituneAgentId, AgentReasoningLevel>
 	>(DEFAULT_AGENT_REASONING_LEVELS);
+	const [agentModels, setAgentModels] = useState<
+		Partial<Record<InfinituneAgentId, AgentModelOverride>>
+	>({});
+	const [tasteProfilePrompts, setTasteProfilePrompts] = useState(false);
 
 	// Available models
 	const aceModels = useAutoplayerAceModels() ?? [];
@@ -151,12 +204,29 @@ function SettingsPage() {
 		: [];
 	const inferenceShLoading =
 		needsInferenceSh && inferenceShImageModelsQuery.isFetching;
+	const needsA1111 = imageProvider === "a1111";
+	const a1111ModelsQuery = useAutoplayerImageModelsQuery("a1111", needsA1111);
+	const a1111Models: ModelOption[] = needsA1111
+		? (a1111ModelsQuery.data ?? [])
+		: [];
+	const a1111Loading = needsA1111 && a1111ModelsQuery.isFetching;
 	const needsCodex =
 		textProvider === "openai-codex" || personaProvider === "openai-codex";
 	const codexModelsQuery = useAutoplayerCodexModelsQuery(needsCodex);
 	const { refetch: refetchCodexModels } = codexModelsQuery;
 	const codexModels: ModelOption[] = codexModelsQuery.data ?? [];
 	const codexLoading = needsCodex && codexModelsQuery.isFetching;
+	const needsOpenAiCompatible =
+		textProvider === "openai-compatible" ||
+		personaProvider === "openai-compatible" ||
+		Object.values(agentModels).some(
+			(override) => override?.provider === "openai-compatible",
+		);
+	const openAiCompatibleModelsQuery = useAutoplayerOpenAiCompatibleModelsQuery(
+		needsOpenAiCompatible,
+	);
+	const openAiCompatibleModelOptions: ModelOption[] =
+		openAiCompatibleModelsQuery.data ?? [];
 	const [codexAuthSession, setCodexAuthSession] =
 		useState<CodexAuthSession | null>(null);
 
@@ -169,8 +239,12 @@ function SettingsPage() {
 		state: "idle",
 	});
 	const [comfyuiTest, setComfyuiTest] = useState<TestStatus>({ state: "idle" });
+	const [a1111Test, setA1111Test] = useState<TestStatus>({ state: "idle" });
 	const [aceTest, setAceTest] = useState<TestStatus>({ state: "idle" });
 	const [codexTest, setCodexTest] = useState<TestStatus>({ state: "idle" });
+	const [openAiCompatibleTest, setOpenAiCompatibleTest] = useState<TestStatus>({
+		state: "idle",
+	});
 
 	const [saved, setSaved] = useState(false);
 	const [personaScanTriggered, setPersonaScanTriggered] = useState(false);
@@ -181,6 +255,15 @@ function SettingsPage() {
 		setOllamaUrl(settings.ollamaUrl || "http://192.168.10.120:11434");
 		setAceStepUrl(settings.aceStepUrl || "http://192.168.10.120:8001");
 		setComfyuiUrl(settings.comfyuiUrl || "http://192.168.10.120:8188");
+		setA1111Url(settings.a1111Url || "http://127.0.0.1:7860");
+		setAceConcurrency(
+			normalizeAceConcurrency(settings[ACE_CONCURRENCY_SETTING] ?? 1),
+		);
+		setAceEndpoints(parseAceEndpoints(settings[ACE_ENDPOINTS_SETTING]));
+		setOpenAiCompatibleBaseUrl(
+			settings[OPENAI_COMPATIBLE_BASE_URL_SETTING] || "",
+		);
+		setOpenAiCompatibleModels(settings[OPENAI_COMPATIBLE_MODELS_SETTING] || "");
 		const normalizedTextProvider = normalizeProviderSetting(
 			settings.textProvider,
 			DEFAULT_TEXT_PROVIDER,
@@ -191,15 +274,12 @@ function SettingsPage() {
 			configuredTextModel ||
 				(normalizedTextProvider === "anthropic"
 					? DEFAULT_ANTHROPIC_TEXT_MODEL
-					: DEFAULT_OPENAI_CODEX_TEXT_MODEL),
+					: normalizedTextProvider === "openai-compatible"
+						? ""
+						: DEFAULT_OPENAI_CODEX_TEXT_MODEL),
 		);
 		const imgProv = settings.imageProvider || "comfyui";
-		const normalizedImageProvider =
-			imgProv === "ollama"
-				? "comfyui"
-				: imgProv === "openrouter"
-					? "inference-sh"
-					: imgProv;
+		const normalizedImageProvider = normalizeImageProvider(imgProv);
 		setImageProvider(normalizedImageProvider);
 		setImageModel(
 			normalizedImageProvider === "inference-sh"
@@ -224,6 +304,13 @@ function SettingsPage() {
 			),
 		);
 		setPersonaModel(normalizeFallbackModel(settings.personaModel));
+		setTasteProfilePrompts(
+			parseBooleanSetting(settings[TASTE_PROFILE_PROMPTS_SETTING], false),
+		);
+		setLoudnessNormalization(
+			normalizeLoudnessMode(settings[LOUDNESS_NORMALIZATION_SETTING]),
+		);
+		setQualityGate(toQualityGateDraft(resolveQualityGateConfig(settings)));
 		setAgentReasoning(
 			Object.fromEntries(
 				INFINITUNE_AGENT_IDS.map((agentId) => [
@@ -235,6 +322,24 @@ function SettingsPage() {
 				]),
 			) as Record<InfinituneAgentId, AgentReasoningLevel>,
 		);
+		setAgentModels(
+			Object.fromEntries(
+				INFINITUNE_AGENT_IDS.flatMap((agentId) => {
+					const provider = settings[getAgentProviderSettingKey(agentId)];
+					return provider
+						? [
+								[
+									agentId,
+									{
+										provider: normalizeProviderSetting(provider),
+										model: settings[getAgentModelSettingKey(agentId)] || "",
+									},
+								],
+							]
+						: [];
+				}),
+			),
+		);
 		const globalAceDcwEnabled = parseBooleanSetting(
 			settings.aceDcwEnabled,
 			ACE_DCW_DEFAULTS.enabled,
@@ -456,9 +561,13 @@ function SettingsPage() {
 						? setCodexImagegenTest
 						: provider === "openai-codex"
 							? setCodexTest
-							: provider === "comfyui"
-								? setComfyuiTest
-								: setAceTest;
+							: provider === "openai-compatible"
+								? setOpenAiCompatibleTest
+								: provider === "comfyui"
+									? setComfyuiTest
+									: provider === "a1111"
+										? setA1111Test
+										: setAceTest;
 
 		setStatus({ state: "testing" });
 		try {
@@ -555,6 +664,17 @@ function SettingsPage() {
 			setSetting({ key: "ollamaUrl", value: ollamaUrl }),
 			setSetting({ key: "aceStepUrl", value: aceStepUrl }),
 			setSetting({ key: "comfyuiUrl", value: comfyuiUrl }),
+			setSetting({ key: "a1111Url", value: a1111Url }),
+			setSetting({
+				key: ACE_CONCURRENCY_SETTING,
+				value: String(aceConcurrency),
+			}),
+			setSetting({
+				key: ACE_ENDPOINTS_SETTING,
+				value: JSON.stringify(
+					aceEndpoints.filter((endpoint) => endpoint.url.trim()),
+				),
+			}),
 			setSetting({ key: "textProvider", value: textProvider }),
 			setSetting({ key: "textModel", value: textModel }),
 			setSetting({ key: "imageProvider", value: imageProvider }),
@@ -564,16 +684,45 @@ function SettingsPage() {
 				key: "personaModel",
 				value: normalizeFallbackModel(personaModel),
 			}),
+			setSetting({
+				key: TASTE_PROFILE_PROMPTS_SETTING,
+				value: String(tasteProfilePrompts),
+			}),
 			setSetting({
 				key: "aceVaeCheckpoint",
 				value: normalizedAceVaeCheckpoint,
 			}),
+			setSetting({
+				key: LOUDNESS_NORMALIZATION_SETTING,
+				value: loudnessNormalization,
+			}),
+			...qualityGateSettingEntries(qualityGate).map((entry) =>
+				setSetting(entry),
+			),
+			setSetting({
+				key: OPENAI_COMPATIBLE_BASE_URL_SETTING,
+				value: openAiCompatibleBaseUrl.trim(),
+			}),
+			setSetting({
+				key: OPENAI_COMPATIBLE_MODELS_SETTING,
+				value: openAiCompatibleModels,
+			}),
 			...INFINITUNE_AGENT_IDS.map((agentId) =>
 				setSetting({
 					key: getAgentReasoningSettingKey(agentId),
 					value: agentReasoning[agentId],
 				}),
 			),
+			...INFINITUNE_AGENT_IDS.flatMap((agentId) => [
+				setSetting({
+					key: getAgentProviderSettingKey(agentId),
+					value: agentModels[agentId]?.provider ?? "",
+				}),
+				setSetting({
+					key: getAgentModelSettingKey(agentId),
+					value: agentModels[agentId]?.model.trim() ?? "",
+				}),
+			]),
 		];
 
 		if (activePlaylist) {
@@ -748,8 +897,20 @@ function SettingsPage() {
 								setOllamaUrl={setOllamaUrl}
 								aceStepUrl={aceStepUrl}
 								setAceStepUrl={setAceStepUrl}
+								aceConcurrency={aceConcurrency}
+								setAceConcurrency={setAceConcurrency}
+								aceEndpoints={aceEndpoints}
+								setAceEndpoints={setAceEndpoints}
+								openAiCompatibleBaseUrl={openAiCompatibleBaseUrl}
+								setOpenAiCompatibleBaseUrl={setOpenAiCompatibleBaseUrl}
+								openAiCompatibleModels={openAiCompatibleModels}
+								setOpenAiCompatibleModels={setOpenAiCompatibleModels}
+								openAiCompatibleTest={openAiCompatibleTest}
 								comfyuiUrl={comfyuiUrl}
 								setComfyuiUrl={setComfyuiUrl}
+								a1111Url={a1111Url}
+								setA1111Url={setA1111Url}
+								a1111Test={a1111Test}
 								imageProvider={imageProvider}
 								ollamaTest={ollamaTest}
 								aceTest={aceTest}
@@ -781,7 +942,11 @@ function SettingsPage() {
 									if (v === "inference-sh" && !imageModel) {
 										setImageModel(DEFAULT_IMAGE_MODEL);
 									}
-									if (v === "codex-imagegen") {
+									if (
+										v === "codex-imagegen" ||
+										v === "a1111" ||
+										v === "placeholder"
+									) {
 										setImageModel("");
 									}
 								}}
@@ -807,8 +972,20 @@ function SettingsPage() {
 								aceModels={aceModels}
 								inferenceShImageModels={inferenceShImageModels}
 								inferenceShLoading={inferenceShLoading}
+								a1111Models={a1111Models}
+								a1111Loading={a1111Loading}
 								codexModels={codexModels}
 								codexLoading={codexLoading}
+								openAiCompatibleModels={openAiCompatibleModelOptions}
+								agentModels={agentModels}
+								setAgentModel={(agentId, override) =>
+									setAgentModels((current) => ({
+										...current,
+										[agentId]: override ?? undefined,
+									}))
+								}
+								tasteProfilePrompts={tasteProfilePrompts}
+								setTasteProfilePrompts={setTasteProfilePrompts}
 								activePlaylist={!!activePlaylist}
 							/>
 						)}
@@ -837,10 +1014,18 @@ function SettingsPage() {
 								setAceDcwHighScaler={setAceDcwHighScaler}
 								aceDcwWavelet={aceDcwWavelet}
 								setAceDcwWavelet={setAceDcwWavelet}
+								loudnessNormalization={loudnessNormalization}
+								setLoudnessNormalization={setLoudnessNormalization}
+								qualityGate={qualityGate}
+								setQualityGate={setQualityGate}
 								activePlaylist={!!activePlaylist}
 							/>
 						)}
 
+						{activeTab === "webhooks" && <SettingsTabWebhooks />}
+
+						{activeTab === "audit" && <SettingsTabAudit />}
+
 						{/* PERSONA SCAN — visible on models tab */}
 						{activeTab === "models" && (
 							<div className="mt-6">
@@ -880,23 +1065,25 @@ function SettingsPage() {
 							</div>
 						)}
 
-						{/* SAVE — always visible below content */}
-						<div className="mt-8">
-							<Button
-								className={`w-full h-12 rounded-none border-4 font-mono text-sm font-black uppercase transition-colors ${
-									saved
-										? "border-green-500/40 bg-green-500 text-white"
-										: "border-white/20 bg-red-500 text-white hover:bg-white hover:text-black"
-								}`}
-								onClick={save}
-							>
-								{saved
-									? "SAVED"
-									: activePlaylist
-										? "SAVE SETTINGS + PLAYLIST OVERRIDES"
-										: "SAVE SETTINGS"}
-							</Button>
-						</div>
+						{/* SAVE — below content; webhooks and audit save as they are edited */}
+						{activeTab !== "webhooks" && activeTab !== "audit" && (
+							<div className="mt-8">
+								<Button
+									className={`w-full h-12 rounded-none border-4 font-mono text-sm font-black uppercase transition-colors ${
+										saved
+											? "border-green-500/40 bg-green-500 text-white"
+											: "border-white/20 bg-red-500 text-white hover:bg-white hover:text-black"
+									}`}
+									onClick={save}
+								>
+									{saved
+										? "SAVED"
+										: activePlaylist
+											? "SAVE SETTINGS + PLAYLIST OVERRIDES"
+											: "SAVE SETTINGS"}
+								</Button>
+							</div>
+						)}
 					</div>
 				</div>
 			</div>
@@ -1,19 +1,26 @@
+import { API_KEY_SCOPES, type ApiKeyScope } from "@infinitune/shared/auth";
+import { cronFromTime } from "@infinitune/shared/cron";
+import type { DeviceRecord } from "@infinitune/shared/protocol";
 import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
 import {
 	ArrowLeft,
+	CalendarClock,
 	Check,
 	Copy,
 	House,
+	KeyRound,
 	Pause,
 	Play,
 	RefreshCw,
 	SkipForward,
 	Square,
+	Trash2,
 	Volume2,
 	VolumeX,
 	WandSparkles,
 } from "lucide-react";
 import { useEffect, useMemo, useState } from "react";
+import z from "zod";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -30,20 +37,40 @@ import {
 	setStoredShooIdToken,
 } from "@/integrations/api/client";
 import {
+	type Playlist,
+	useAcceptPlaylistInvite,
+	useApiKeys,
 	useAssignDeviceToPlaylist,
+	useAuthProviders,
 	useControlAuthSession,
+	useCreateApiKey,
+	useCreateHouseSchedule,
+	useDeleteHouseSchedule,
 	useDeviceAssignments,
+	useHouseSchedules,
 	useIssueDeviceToken,
+	useLocalLogin,
+	useLocalLogout,
+	useLocalRegister,
 	useOwnedDevices,
+	usePlaylistInvitePreview,
 	usePlaylistSessionInfo,
 	usePlaylistsAll,
+	useRevokeApiKey,
+	useRunHouseSchedule,
 	useSendHouseCommand,
 	useSendPlaylistCommand,
 	useUnassignDeviceFromPlaylist,
+	useUpdateHouseSchedule,
 } from "@/integrations/api/hooks";
 
+const houseSearchSchema = z.object({
+	invite: z.string().optional(),
+});
+
 export const Route = createFileRoute("/house")({
 	component: HousePage,
+	validateSearch: (search) => houseSearchSchema.parse(search),
 });
 
 function clampVolume(value: number): number {
@@ -63,8 +90,554 @@ function formatLastSeen(timestamp: number | null | undefined): string {
 	return `${Math.floor(deltaMs / 86_400_000)}d ago`;
 }
 
+function formatScheduleTime(timestamp: number | null): string {
+	if (!timestamp) return "-";
+	return new Date(timestamp).toLocaleString(undefined, {
+		weekday: "short",
+		hour: "2-digit",
+		minute: "2-digit",
+	});
+}
+
+/** Accepts either a bare invite token or a full `/house?invite=` link. */
+function parseInviteToken(input: string): string {
+	const trimmed = input.trim();
+	try {
+		return new URL(trimmed).searchParams.get("invite") ?? trimmed;
+	} catch {
+		return trimmed;
+	}
+}
+
+function PlaylistInvitePanel({
+	initialToken,
+	signedIn,
+	onAccepted,
+}: {
+	initialToken: string;
+	signedIn: boolean;
+	onAccepted: (playlistId: string) => void;
+}) {
+	const [inviteInput, setInviteInput] = useState(initialToken);
+	const token = parseInviteToken(inviteInput);
+	const preview = usePlaylistInvitePreview(token || null);
+	const acceptInvite = useAcceptPlaylistInvite();
+
+	return (
+		<div className="border border-white/15 bg-black/35 p-4 backdrop-blur-sm">
+			<div className="mb-3 flex items-center justify-between">
+				<h2 className="text-xs font-black uppercase tracking-[0.16em] text-pink-200">
+					Playlist Invite
+				</h2>
+				{preview && (
+					<Badge className="rounded-none border border-pink-300/50 bg-pink-500/10 text-[10px] uppercase tracking-[0.16em] text-pink-100">
+						{preview.role}
+					</Badge>
+				)}
+			</div>
+			<Input
+				value={inviteInput}
+				onChange={(event) => setInviteInput(event.target.value)}
+				placeholder="Invite link or token"
+				className="mb-2 rounded-none border-white/20 bg-black/45 font-mono text-xs"
+			/>
+			<p className="mb-3 text-xs text-white/60">
+				{!token
+					? "Paste an invite link to join someone else's playlist."
+					: preview
+						? `Join "${preview.playlistName}" as ${preview.role}.`
+						: "This invite is invalid, revoked or expired."}
+			</p>
+			<Button
+				onClick={async () => {
+					const accepted = await acceptInvite({ token }).catch(() => null);
+					if (accepted) onAccepted(accepted.playlistId);
+				}}
+				disabled={!preview || !signedIn}
+				className="rounded-none border border-pink-300/50 bg-pink-500/15 px-4 text-xs font-black uppercase tracking-[0.14em] text-pink-100 hover:bg-pink-500/30"
+			>
+				<Check className="mr-1 h-3.5 w-3.5" />
+				{signedIn ? "Accept Invite" : "Sign In To Accept"}
+			</Button>
+		</div>
+	);
+}
+
+function LocalSignInForm({
+	signupOpen,
+	signedInAs,
+}: {
+	signupOpen: boolean;
+	signedInAs: string | null;
+}) {
+	const login = useLocalLogin();
+	const register = useLocalRegister();
+	const logout = useLocalLogout();
+	const [username, setUsername] = useState("");
+	const [password, setPassword] = useState("");
+
+	if (signedInAs) {
+		return (
+			<div className="mt-3 flex items-center justify-between border-t border-white/10 pt-3 text-xs uppercase tracking-[0.12em] text-white/70">
+				<span>Signed in as {signedInAs}</span>
+				<Button
+					onClick={() => logout().catch(() => {})}
+					variant="outline"
+					className="h-8 rounded-none border-white/20 bg-white/5 px-3 text-[10px] font-black uppercase tracking-[0.14em] text-white/75"
+				>
+					Sign Out
+				</Button>
+			</div>
+		);
+	}
+
+	const credentials = { username: username.trim(), password };
+	const ready = Boolean(credentials.username && password);
+	return (
+		<form
+			className="mt-3 border-t border-white/10 pt-3"
+			onSubmit={(event) => {
+				event.preventDefault();
+				if (!ready) return;
+				login(credentials)
+					.then(() => setPassword(""))
+					.catch(() => {});
+			}}
+		>
+			<p className="mb-2 text-xs text-white/60">
+				Or sign in with a local account on this server.
+			</p>
+			<div className="flex flex-col gap-2 sm:flex-row">
+				<Input
+					value={username}
+					onChange={(event) => setUsername(event.target.value)}
+					placeholder="Username"
+					autoComplete="username"
+					className="rounded-none border-white/20 bg-black/45 font-mono text-xs"
+				/>
+				<Input
+					type="password"
+					value={password}
+					onChange={(event) => setPassword(event.target.value)}
+					placeholder="Password"
+					autoComplete="current-password"
+					className="rounded-none border-white/20 bg-black/45 font-mono text-xs"
+				/>
+				<Button
+					type="submit"
+					disabled={!ready}
+					className="rounded-none border border-emerald-400/50 bg-emerald-500/15 px-4 text-xs font-black uppercase tracking-[0.14em] text-emerald-200 hover:bg-emerald-500/30"
+				>
+					Sign In
+				</Button>
+				{signupOpen && (
+					<Button
+						type="button"
+						disabled={!ready}
+						onClick={() =>
+							register(credentials)
+								.then(() => setPassword(""))
+								.catch(() => {})
+						}
+						variant="outline"
+						className="rounded-none border-white/20 bg-white/5 px-4 text-xs font-black uppercase tracking-[0.14em] text-white/75"
+					>
+						Create Account
+					</Button>
+				)}
+			</div>
+		</form>
+	);
+}
+
+function HouseApiKeysPanel({ enabled }: { enabled: boolean }) {
+	const apiKeys = useApiKeys(enabled) ?? [];
+	const createApiKey = useCreateApiKey();
+	const revokeApiKey = useRevokeApiKey();
+	const [name, setName] = useState("");
+	const [scopes, setScopes] = useState<ApiKeyScope[]>(["read"]);
+	const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+	const toggleScope = (scope: ApiKeyScope) =>
+		setScopes((prev) =>
+			prev.includes(scope)
+				? prev.filter((entry) => entry !== scope)
+				: [...prev, scope],
+		);
+
+	return (
+		<div className="border border-white/15 bg-black/35 p-4 backdrop-blur-sm">
+			<div className="mb-3 flex items-center justify-between">
+				<h2 className="text-xs font-black uppercase tracking-[0.16em] text-sky-200">
+					API Keys
+				</h2>
+				<KeyRound className="h-4 w-4 text-sky-300" />
+			</div>
+			<p className="mb-3 text-xs text-white/60">
+				Personal keys for scripts. Send them as a bearer token; each key can
+				only do what its scopes allow.
+			</p>
+			<div className="mb-2 flex flex-wrap gap-2">
+				{API_KEY_SCOPES.map((scope) => (
+					<button
+						key={scope}
+						type="button"
+						onClick={() => toggleScope(scope)}
+						className={`border px-2 py-1 text-[10px] font-black uppercase tracking-[0.12em] ${
+							scopes.includes(scope)
+								? "border-sky-300/60 bg-sky-500/20 text-sky-100"
+								: "border-white/15 bg-black/30 text-white/45"
+						}`}
+					>
+						{scope}
+					</button>
+				))}
+			</div>
+			<div className="flex gap-2">
+				<Input
+					value={name}
+					onChange={(event) => setName(event.target.value)}
+					placeholder="Key name"
+					className="rounded-none border-white/20 bg-black/45 text-xs"
+				/>
+				<Button
+					onClick={async () => {
+						const created = await createApiKey({
+							name: name.trim(),
+							scopes,
+						}).catch(() => null);
+						if (!created) return;
+						setCreatedToken(created.token);
+						setName("");
+					}}
+					disabled={!enabled || !name.trim() || scopes.length === 0}
+					className="rounded-none border border-sky-300/50 bg-sky-500/15 px-3 text-xs font-black uppercase tracking-[0.14em] text-sky-100 hover:bg-sky-500/30"
+				>
+					Create
+				</Button>
+			</div>
+			{createdToken && (
+				<div className="mt-3 border border-sky-300/30 bg-sky-500/10 p-2 text-xs text-sky-100">
+					<div className="mb-1 uppercase tracking-[0.12em] text-sky-200">
+						New key (shown once)
+					</div>
+					<div className="break-all font-bold">{createdToken}</div>
+					<Button
+						onClick={async () => {
+							try {
+								await navigator.clipboard.writeText(createdToken);
+							} catch {
+								// Clipboard support is optional.
+							}
+						}}
+						variant="outline"
+						className="mt-2 h-7 rounded-none border-sky-200/40 bg-sky-500/20 text-[10px] font-black uppercase tracking-[0.12em] text-sky-50"
+					>
+						<Copy className="mr-1 h-3 w-3" />
+						Copy
+					</Button>
+				</div>
+			)}
+			<div className="mt-3 space-y-2">
+				{apiKeys.map((apiKey) => (
+					<div
+						key={apiKey.id}
+						className="flex items-center justify-between border border-white/12 bg-black/30 px-3 py-2"
+					>
+						<div>
+							<div className="text-xs font-black uppercase tracking-[0.12em] text-white/90">
+								{apiKey.name}
+							</div>
+							<div className="text-[10px] uppercase tracking-[0.12em] text-white/50">
+								{apiKey.prefix}… · {apiKey.scopes.join(", ")} · used{" "}
+								{formatLastSeen(apiKey.lastUsedAt)}
+							</div>
+						</div>
+						<Button
+							onClick={() => revokeApiKey({ id: apiKey.id }).catch(() => {})}
+							variant="outline"
+							className="h-7 rounded-none border-rose-300/40 bg-rose-500/10 px-2 text-[10px] font-black uppercase tracking-[0.12em] text-rose-100"
+						>
+							<Trash2 className="mr-1 h-3 w-3" />
+							Revoke
+						</Button>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
+
+function HouseSchedulesPanel({
+	playlists,
+	devices,
+	enabled,
+}: {
+	playlists: Playlist[];
+	devices: DeviceRecord[];
+	enabled: boolean;
+}) {
+	const schedules = useHouseSchedules(enabled)?.schedules ?? [];
+	const createSchedule = useCreateHouseSchedule();
+	const updateSchedule = useUpdateHouseSchedule();
+	const deleteSchedule = useDeleteHouseSchedule();
+	const runSchedule = useRunHouseSchedule();
+
+	const [name, setName] = useState("");
+	const [playlistId, setPlaylistId] = useState("");
+	const [deviceId, setDeviceId] = useState("");
+	const [startTime, setStartTime] = useState("07:00");
+	const [stopTime, setStopTime] = useState("09:00");
+	const [days, setDays] = useState("weekdays");
+	const [fadeMinutes, setFadeMinutes] = useState("5");
+	const [volume, setVolume] = useState("80");
+
+	const startCron = cronFromTime(startTime, days);
+	const stopCron = stopTime ? cronFromTime(stopTime, days) : null;
+	const fadeInSec = Math.round(Math.max(0, Number(fadeMinutes) || 0) * 60);
+	const volumePercent = Number(volume);
+	const canCreate =
+		enabled &&
+		Boolean(playlistId) &&
+		startCron !== null &&
+		(!stopTime || stopCron !== null);
+
+	return (
+		<div className="border border-white/15 bg-black/35 p-4 backdrop-blur-sm">
+			<div className="mb-3 flex items-center justify-between">
+				<h2 className="text-xs font-black uppercase tracking-[0.16em] text-sky-200">
+					Schedules
+				</h2>
+				<CalendarClock className="h-4 w-4 text-sky-300" />
+			</div>
+			<p className="mb-3 text-xs text-white/60">
+				Start a playlist on a device at a set time, fade the volume in, and stop
+				it again later. Times use the server clock.
+			</p>
+
+			<div className="grid gap-2 sm:grid-cols-2">
+				<Input
+					value={name}
+					onChange={(event) => setName(event.target.value)}
+					placeholder="Name (optional)"
+					className="rounded-none border-white/20 bg-black/45 text-xs sm:col-span-2"
+				/>
+				<Select
+					value={playlistId || "__none"}
+					onValueChange={(value) =>
+						setPlaylistId(value === "__none" ? "" : value)
+					}
+				>
+					<SelectTrigger className="h-9 rounded-none border-white/20 bg-black/45 text-xs font-bold uppercase tracking-[0.06em]">
+						<SelectValue placeholder="Playlist" />
+					</SelectTrigger>
+					<SelectContent className="rounded-none border-white/20 bg-[#101826] font-mono">
+						<SelectItem value="__none">Select playlist</SelectItem>
+						{playlists
+							.filter((playlist) => playlist.status !== "closed")
+							.map((playlist) => (
+								<SelectItem key={playlist.id} value={playlist.id}>
+									{playlist.name}
+								</SelectItem>
+							))}
+					</SelectContent>
+				</Select>
+				<Select
+					value={deviceId || "__none"}
+					onValueChange={(value) =>
+						setDeviceId(value === "__none" ? "" : value)
+					}
+				>
+					<SelectTrigger className="h-9 rounded-none border-white/20 bg-black/45 text-xs font-bold uppercase tracking-[0.06em]">
+						<SelectValue placeholder="Device" />
+					</SelectTrigger>
+					<SelectContent className="rounded-none border-white/20 bg-[#101826] font-mono">
+						<SelectItem value="__none">Devices already in room</SelectItem>
+						{devices.map((device) => (
+							<SelectItem key={device.id} value={device.id}>
+								{device.name}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+				<div className="flex gap-2">
+					<Input
+						type="time"
+						value={startTime}
+						onChange={(event) => setStartTime(event.target.value)}
+						aria-label="Start time"
+						className="rounded-none border-white/20 bg-black/45 text-xs"
+					/>
+					<Input
+						type="time"
+						value={stopTime}
+						onChange={(event) => setStopTime(event.target.value)}
+						aria-label="Stop time"
+						className="rounded-none border-white/20 bg-black/45 text-xs"
+					/>
+				</div>
+				<Select value={days} onValueChange={setDays}>
+					<SelectTrigger className="h-9 rounded-none border-white/20 bg-black/45 text-xs font-bold uppercase tracking-[0.06em]">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent className="rounded-none border-white/20 bg-[#101826] font-mono">
+						<SelectItem value="daily">Every Day</SelectItem>
+						<SelectItem value="weekdays">Weekdays</SelectItem>
+						<SelectItem value="weekends">Weekends</SelectItem>
+					</SelectContent>
+				</Select>
+				<div>
+					<p className="mb-1.5 block text-[10px] font-black uppercase tracking-[0.14em] text-white/55">
+						Fade min
+					</p>
+					<Input
+						type="number"
+						min={0}
+						value={fadeMinutes}
+						onChange={(event) => setFadeMinutes(event.target.value)}
+						className="rounded-none border-white/20 bg-black/45 text-xs"
+						aria-label="Fade-in minutes"
+					/>
+				</div>
+				<div>
+					<p className="mb-1.5 block text-[10px] font-black uppercase tracking-[0.14em] text-white/55">
+						Volume %
+					</p>
+					<Input
+						type="number"
+						min={0}
+						max={100}
+						value={volume}
+						onChange={(event) => setVolume(event.target.value)}
+						className="rounded-none border-white/20 bg-black/45 text-xs"
+						aria-label="Volume percent"
+					/>
+				</div>
+			</div>
+			<Button
+				onClick={async () => {
+					if (!startCron) return;
+					await createSchedule({
+						name: name.trim() || undefined,
+						playlistId,
+						deviceId: deviceId || null,
+						startCron,
+						stopCron,
+						fadeInSec,
+						volume:
+							volume.trim() && Number.isFinite(volumePercent)
+								? clampVolume(volumePercent / 100)
+								: null,
+					});
+					setName("");
+				}}
+				disabled={!canCreate}
+				className="mt-3 rounded-none border border-sky-300/50 bg-sky-500/15 px-3 text-xs font-black uppercase tracking-[0.14em] text-sky-100 hover:bg-sky-500/30"
+			>
+				Add Schedule
+			</Button>
+
+			<div className="mt-4 space-y-2">
+				{schedules.map((schedule) => (
+					<div
+						key={schedule.id}
+						className="border border-white/12 bg-black/30 p-3"
+					>
+						<div className="mb-1 flex items-center justify-between gap-2">
+							<div className="text-xs font-black uppercase tracking-[0.12em] text-white/90">
+								{schedule.name}
+							</div>
+							<Badge
+								className={`rounded-none border text-[10px] uppercase tracking-[0.1em] ${
+									schedule.enabled
+										? "border-sky-300/45 bg-sky-400/10 text-sky-100"
+										: "border-white/20 bg-white/5 text-white/55"
+								}`}
+							>
+								{schedule.enabled ? "enabled" : "paused"}
+							</Badge>
+						</div>
+						<div className="text-[10px] uppercase tracking-[0.12em] text-white/55">
+							{schedule.playlistName ?? schedule.playlistId}
+							{" → "}
+							{schedule.deviceName ?? "room devices"}
+						</div>
+						<div className="mt-1 font-mono text-[11px] text-white/70">
+							{schedule.startCron}
+							{schedule.stopCron ? ` … ${schedule.stopCron}` : ""}
+							{schedule.fadeInSec > 0
+								? ` · fade ${Math.round(schedule.fadeInSec / 60)}m`
+								: ""}
+							{schedule.volume !== null
+								? ` · ${Math.round(schedule.volume * 100)}%`
+								: ""}
+						</div>
+						<div className="mt-1 text-[10px] uppercase tracking-[0.12em] text-white/45">
+							next start {formatScheduleTime(schedule.nextStartAt)} · next stop{" "}
+							{formatScheduleTime(schedule.nextStopAt)}
+						</div>
+						{schedule.lastError && (
+							<div className="mt-1 text-[11px] text-rose-300">
+								{schedule.lastError}
+							</div>
+						)}
+						<div className="mt-2 flex flex-wrap gap-2">
+							<Button
+								onClick={() =>
+									updateSchedule({
+										id: schedule.id,
+										enabled: !schedule.enabled,
+									})
+								}
+								disabled={!enabled}
+								variant="outline"
+								className="h-7 rounded-none border-white/20 bg-white/5 px-2 text-[10px] font-black uppercase tracking-[0.12em] text-white/75"
+							>
+								{schedule.enabled ? "Pause" : "Enable"}
+							</Button>
+							<Button
+								onClick={() =>
+									runSchedule({ id: schedule.id, action: "start" })
+								}
+								disabled={!enabled}
+								className="h-7 rounded-none border border-emerald-300/50 bg-emerald-500/15 px-2 text-[10px] font-black uppercase tracking-[0.12em] text-emerald-100 hover:bg-emerald-500/30"
+							>
+								<Play className="mr-1 h-3 w-3" />
+								Run Now
+							</Button>
+							<Button
+								onClick={() => runSchedule({ id: schedule.id, action: "stop" })}
+								disabled={!enabled}
+								className="h-7 rounded-none border border-rose-300/50 bg-rose-500/15 px-2 text-[10px] font-black uppercase tracking-[0.12em] text-rose-100 hover:bg-rose-500/30"
+							>
+								<Square className="mr-1 h-3 w-3" />
+								Stop
+							</Button>
+							<Button
+								onClick={() => deleteSchedule({ id: schedule.id })}
+								disabled={!enabled}
+								variant="outline"
+								className="h-7 rounded-none border-white/20 bg-white/5 px-2 text-[10px] font-black uppercase tracking-[0.12em] text-white/75"
+							>
+								<Trash2 className="mr-1 h-3 w-3" />
+								Delete
+							</Button>
+						</div>
+					</div>
+				))}
+				{schedules.length === 0 && (
+					<div className="border border-dashed border-white/20 bg-black/25 px-3 py-6 text-center text-xs uppercase tracking-[0.14em] text-white/45">
+						No schedules yet
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
 function HousePage() {
 	const navigate = useNavigate();
+	const { invite } = Route.useSearch();
 	const [tokenInput, setTokenInput] = useState(
 		() => getStoredShooIdToken() ?? "",
 	);
@@ -84,6 +657,7 @@ function HousePage() {
 	>({});
 
 	const authSession = useControlAuthSession();
+	const authProviders = useAuthProviders();
 	const playlists = usePlaylistsAll() ?? [];
 	const canManageDevices = Boolean(
 		authSession?.authenticated || hasStoredToken,
@@ -172,6 +746,7 @@ function HousePage() {
 		!canManageDevices ||
 		!selectedPlaylistId ||
 		(commandTarget === "device" && !targetDeviceId);
+	const canSteerSelected = selectedSession?.viewerRole !== "listener";
 	const houseCommandsDisabled =
 		!canManageDevices || (houseScope === "selected" && !selectedPlaylistId);
 
@@ -218,14 +793,14 @@ function HousePage() {
 								</span>
 							</div>
 							<p className="mb-3 text-xs text-white/60">
-								Paste a Shoo ID token to unlock device management and
+								Paste a Shoo ID token or API key to unlock device management and
 								owner-scoped playlist controls.
 							</p>
 							<div className="flex flex-col gap-2 sm:flex-row">
 								<Input
 									value={tokenInput}
 									onChange={(event) => setTokenInput(event.target.value)}
-									placeholder="Shoo ID token"
+									placeholder="Shoo ID token or API key"
 									className="rounded-none border-white/20 bg-black/45 font-mono text-xs"
 								/>
 								<Button
@@ -251,8 +826,24 @@ function HousePage() {
 									Clear
 								</Button>
 							</div>
+							{authProviders?.providers.includes("local") && (
+								<LocalSignInForm
+									signupOpen={authProviders.signupOpen}
+									signedInAs={authSession?.username ?? null}
+								/>
+							)}
 						</div>
 
+						<PlaylistInvitePanel
+							key={invite ?? ""}
+							initialToken={invite ?? ""}
+							signedIn={canManageDevices}
+							onAccepted={(playlistId) => {
+								setSelectedPlaylistId(playlistId);
+								navigate({ to: "/house", search: {} });
+							}}
+						/>
+
 						<div className="border border-white/15 bg-black/35 p-4 backdrop-blur-sm">
 							<div className="mb-4 flex items-center justify-between">
 								<h2 className="text-xs font-black uppercase tracking-[0.16em] text-violet-200">
@@ -359,7 +950,12 @@ function HousePage() {
 								<h2 className="text-xs font-black uppercase tracking-[0.16em] text-orange-200">
 									Playlist Session Controls
 								</h2>
-								<div className="text-[11px] uppercase tracking-[0.14em] text-white/55">
+								<div className="flex items-center gap-2 text-[11px] uppercase tracking-[0.14em] text-white/55">
+									{selectedSession?.viewerRole && (
+										<Badge className="rounded-none border border-white/25 bg-white/5 text-[10px] uppercase tracking-[0.16em] text-white/70">
+											{selectedSession.viewerRole}
+										</Badge>
+									)}
 									{selectedSession?.devices.length ?? 0} connected devices
 								</div>
 							</div>
@@ -466,7 +1062,12 @@ function HousePage() {
 								</Button>
 								<Button
 									onClick={() => runCommand("skip")}
-									disabled={commandsDisabled}
+									disabled={commandsDisabled || !canSteerSelected}
+									title={
+										canSteerSelected
+											? undefined
+											: "Skipping needs an editor role"
+									}
 									className="rounded-none border border-cyan-300/50 bg-cyan-500/15 text-xs font-black uppercase tracking-[0.12em] text-cyan-100 hover:bg-cyan-500/30"
 								>
 									<SkipForward className="mr-1 h-3.5 w-3.5" />
@@ -581,6 +1182,8 @@ function HousePage() {
 							)}
 						</div>
 
+						<HouseApiKeysPanel enabled={canManageDevices} />
+
 						<div className="border border-white/15 bg-black/35 p-4 backdrop-blur-sm">
 							<div className="mb-3 flex items-center justify-between">
 								<h2 className="text-xs font-black uppercase tracking-[0.16em] text-fuchsia-200">
@@ -677,6 +1280,12 @@ function HousePage() {
 								)}
 							</div>
 						</div>
+
+						<HouseSchedulesPanel
+							playlists={sortedPlaylists}
+							devices={devices}
+							enabled={canManageDevices}
+						/>
 					</section>
 				</div>
 
@@ -16,6 +16,7 @@ type Provider = LlmProvider;
 const LIMITS: Record<Provider, number> = {
 	"openai-codex": 2,
 	anthropic: 2,
+	"openai-compatible": 2,
 };
 
 interface Waiter {
@@ -75,6 +76,7 @@ class ProviderSemaphore {
 const semaphores: Record<Provider, ProviderSemaphore> = {
 	"openai-codex": new ProviderSemaphore(LIMITS["openai-codex"]),
 	anthropic: new ProviderSemaphore(LIMITS.anthropic),
+	"openai-compatible": new ProviderSemaphore(LIMITS["openai-compatible"]),
 };
 
 // ---------------------------------------------------------------------------
@@ -92,6 +94,10 @@ async function resolveModelForProvider(
 	if (provider === "anthropic") {
 		return DEFAULT_ANTHROPIC_TEXT_MODEL;
 	}
+	if (provider === "openai-compatible") {
+		// The API server picks the first configured local model
+		return "";
+	}
 
 	const res = await fetch(`${API_URL}/api/autoplayer/codex-models`, {
 		signal,
@@ -228,7 +234,7 @@ export async function callLlmText(options: {
 
 		void temperature;
 		throw new Error(
-			"Anthropic text generation is handled by the API server Pi runtime.",
+			`${provider} text generation is handled by the API server.`,
 		);
 	} finally {
 		sem.release();
@@ -280,7 +286,7 @@ export async function callLlmObject<T>(options: {
 		void temperature;
 		void seed;
 		throw new Error(
-			"Anthropic object generation is handled by the API server Pi runtime.",
+			`${provider} object generation is handled by the API server.`,
 		);
 	} finally {
 		sem.release();
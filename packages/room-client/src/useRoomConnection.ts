@@ -1,12 +1,15 @@
-import type {
-	ClientMessage,
-	CommandAction,
-	Device,
-	DeviceRole,
-	PlaybackState,
-	ServerMessage,
-	SongData,
+import {
+	type ClientMessage,
+	type CommandAction,
+	type Device,
+	type DeviceRole,
+	type PlaybackState,
+	ROOM_PROTOCOL_VERSION,
+	type ServerMessage,
+	type SongData,
+	type TransitionSettings,
 } from "@infinitune/shared/protocol";
+import { DEFAULT_TRANSITION } from "@infinitune/shared/transition";
 import { useCallback, useEffect, useRef, useState } from "react";
 
 const INITIAL_RECONNECT_DELAY = 1000;
@@ -17,6 +20,7 @@ export interface RoomConnection {
 	currentSong: SongData | null;
 	queue: SongData[];
 	devices: Device[];
+	transition: TransitionSettings;
 	connected: boolean;
 	sendCommand: (
 		action: CommandAction,
@@ -32,10 +36,27 @@ export interface RoomConnection {
 	sendSongEnded: () => void;
 	setRole: (role: DeviceRole) => void;
 	renameDevice: (targetDeviceId: string, name: string) => void;
+	/** Report where this player is in `songId`, at a server timestamp (v3). */
+	sendPosition: (songId: string, position: number, serverTime: number) => void;
+	/** This device's manual audio output latency, remembered in localStorage. */
+	outputLatencyMs: number;
+	setOutputLatency: (latencyMs: number) => void;
 	serverTimeOffset: number;
 	addMessageHandler: (handler: (msg: ServerMessage) => void) => () => void;
 }
 
+const OUTPUT_LATENCY_STORAGE_KEY = "infinitune-output-latency-ms";
+const MAX_OUTPUT_LATENCY_MS = 5000;
+
+// Latency belongs to the machine's audio output, so it outlives the tab.
+function readStoredOutputLatency(): number {
+	if (typeof window === "undefined") return 0;
+	const stored = Number(localStorage.getItem(OUTPUT_LATENCY_STORAGE_KEY));
+	return Number.isFinite(stored)
+		? Math.min(MAX_OUTPUT_LATENCY_MS, Math.max(0, stored))
+		: 0;
+}
+
 function generateDeviceId(): string {
 	const stored = sessionStorage.getItem("infinitune-device-id");
 	if (stored) return stored;
@@ -63,14 +84,20 @@ export function useRoomConnection(
 	const [currentSong, setCurrentSong] = useState<SongData | null>(null);
 	const [queue, setQueue] = useState<SongData[]>([]);
 	const [devices, setDevices] = useState<Device[]>([]);
+	const [transition, setTransition] =
+		useState<TransitionSettings>(DEFAULT_TRANSITION);
 	const [connected, setConnected] = useState(false);
 	const [serverTimeOffset, setServerTimeOffset] = useState(0);
+	const [outputLatencyMs, setOutputLatencyMs] = useState(
+		readStoredOutputLatency,
+	);
 
 	const wsRef = useRef<WebSocket | null>(null);
 	const reconnectDelay = useRef(INITIAL_RECONNECT_DELAY);
 	const reconnectTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 	const deviceIdRef = useRef<string>("");
 	const roleRef = useRef(role);
+	const outputLatencyRef = useRef(outputLatencyMs);
 	const roomIdRef = useRef(roomId);
 	const messageHandlersRef = useRef<((msg: ServerMessage) => void)[]>([]);
 
@@ -105,6 +132,7 @@ export function useRoomConnection(
 				setPlayback(msg.playback);
 				setCurrentSong(msg.currentSong);
 				setDevices(msg.devices);
+				if (msg.transition) setTransition(msg.transition);
 				break;
 			case "queue":
 				setQueue(msg.songs);
@@ -158,6 +186,9 @@ export function useRoomConnection(
 				role: roleRef.current,
 				playlistKey: playlistKey || undefined,
 				roomName: roomName || undefined,
+				protocolVersion: ROOM_PROTOCOL_VERSION,
+				outputLatencyMs: outputLatencyRef.current,
+				canNudgeRate: true,
 			});
 
 			// Start time sync pings
@@ -241,6 +272,26 @@ export function useRoomConnection(
 		[send],
 	);
 
+	const sendPosition = useCallback(
+		(songId: string, position: number, serverTime: number) => {
+			send({ type: "position", songId, position, serverTime });
+		},
+		[send],
+	);
+
+	const setOutputLatency = useCallback(
+		(latencyMs: number) => {
+			const clamped = Math.round(
+				Math.min(MAX_OUTPUT_LATENCY_MS, Math.max(0, latencyMs)),
+			);
+			localStorage.setItem(OUTPUT_LATENCY_STORAGE_KEY, String(clamped));
+			outputLatencyRef.current = clamped;
+			setOutputLatencyMs(clamped);
+			send({ type: "setOutputLatency", latencyMs: clamped });
+		},
+		[send],
+	);
+
 	const sendSongEnded = useCallback(() => {
 		send({ type: "songEnded" });
 	}, [send]);
@@ -270,12 +321,16 @@ export function useRoomConnection(
 		currentSong,
 		queue,
 		devices,
+		transition,
 		connected,
 		sendCommand,
 		sendSync,
 		sendSongEnded,
 		setRole: setRoleFn,
 		renameDevice: renameDeviceFn,
+		sendPosition,
+		outputLatencyMs,
+		setOutputLatency,
 		serverTimeOffset,
 		addMessageHandler,
 	};
@@ -1,4 +1,12 @@
-import type { ServerMessage } from "@infinitune/shared/protocol";
+import {
+	POSITION_REPORT_INTERVAL_MS,
+	resolveSeekTarget,
+} from "@infinitune/shared/drift";
+import { gainToVolumeScale } from "@infinitune/shared/loudness";
+import type {
+	ServerMessage,
+	TransitionPlan,
+} from "@infinitune/shared/protocol";
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { RoomConnection } from "./useRoomConnection";
 
@@ -21,6 +29,32 @@ function tryPlay(audio: HTMLAudioElement): Promise<boolean> {
 	);
 }
 
+const FADE_STEP_MS = 50;
+
+/**
+ * Ramp an element's volume linearly. Returns a cancel function; `onDone`
+ * runs only if the ramp completes.
+ */
+function rampVolume(
+	audio: HTMLAudioElement,
+	from: number,
+	to: number,
+	durationMs: number,
+	onDone?: () => void,
+): () => void {
+	const startedAt = Date.now();
+	audio.volume = from;
+	const timer = setInterval(() => {
+		const progress = Math.min(1, (Date.now() - startedAt) / durationMs);
+		audio.volume = Math.max(0, Math.min(1, from + (to - from) * progress));
+		if (progress >= 1) {
+			clearInterval(timer);
+			onDone?.();
+		}
+	}, FADE_STEP_MS);
+	return () => clearInterval(timer);
+}
+
 /**
  * Player role hook: manages audio playback, reports sync, handles execute/nextSong/preload.
  * Pass null to disable (e.g. for controller-only mode).
@@ -29,6 +63,15 @@ function tryPlay(audio: HTMLAudioElement): Promise<boolean> {
  * - currentAudio: actively playing
  * - preloadAudio: buffering the next song for gapless transitions
  *
+ * During a crossfade (`nextSong` carrying a `transition` plan) the previous
+ * element is kept as the outgoing track and faded out while the new one
+ * fades in, both starting at the plan's server-synchronized `startAt`.
+ *
+ * Drift correction (protocol v3): the player reports its actual position
+ * every few seconds and the room answers with a `correction` — a short
+ * playback-rate nudge or a seek. Starts and seeks are shifted by the
+ * device's output latency so the speaker, not the element, is on time.
+ *
  * Autoplay unlock: browsers block audio.play() from non-gesture contexts (WebSocket handlers).
  * When play is blocked, we queue it as "pending" and retry on the first user click/touch.
  *
@@ -42,10 +85,21 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 	const preloadSongIdRef = useRef<string | null>(null);
 	const syncIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
 	const serverTimeOffsetRef = useRef(0);
+	const outputLatencyRef = useRef(0);
+	const positionIntervalRef = useRef<ReturnType<typeof setInterval> | null>(
+		null,
+	);
+	// The song this device is actually playing, which can lag the room's.
+	const playingSongIdRef = useRef<string | null>(null);
+	const rateResetTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+	const outgoingAudioRef = useRef<HTMLAudioElement | null>(null);
+	const fadeCancelsRef = useRef<Array<() => void>>([]);
 
 	// Track per-device volume override (set by targeted setVolume commands).
 	// When non-null, room-wide volume sync is skipped. Cleared by room-wide setVolume.
 	const volumeOverrideRef = useRef<number | null>(null);
+	// Loudness normalization multiplier for the current track (1 = untouched).
+	const gainScaleRef = useRef(1);
 
 	// Autoplay unlock: true once audio.play() has succeeded from a user gesture
 	const audioUnlockedRef = useRef(false);
@@ -65,15 +119,37 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 			serverTimeOffsetRef.current = connection.serverTimeOffset;
 		}
 	}, [connection?.serverTimeOffset, connection]);
+	useEffect(() => {
+		if (connection) {
+			outputLatencyRef.current = connection.outputLatencyMs;
+		}
+	}, [connection?.outputLatencyMs, connection]);
+
+	// The server resolves each song's gain; pick up changes to the current one
+	const currentGainDb = connection?.queue.find(
+		(song) => song.id === connection.playback.currentSongId,
+	)?.gainDb;
 
 	// Volume sync from room state — only applies when no per-device override is active
 	useEffect(() => {
 		if (!connection) return;
-		if (volumeOverrideRef.current !== null) return;
+		gainScaleRef.current = gainToVolumeScale(currentGainDb);
+		if (fadeCancelsRef.current.length > 0) return; // crossfade owns the volume
 		const audio = currentAudioRef.current;
 		if (!audio) return;
-		audio.volume = connection.playback.isMuted ? 0 : connection.playback.volume;
-	}, [connection, connection?.playback.volume, connection?.playback.isMuted]);
+		if (volumeOverrideRef.current !== null) {
+			audio.volume = volumeOverrideRef.current * gainScaleRef.current;
+			return;
+		}
+		audio.volume =
+			(connection.playback.isMuted ? 0 : connection.playback.volume) *
+			gainScaleRef.current;
+	}, [
+		connection,
+		connection?.playback.volume,
+		connection?.playback.isMuted,
+		currentGainDb,
+	]);
 
 	/**
 	 * Send an immediate sync pulse to the server so controllers see updated
@@ -92,6 +168,73 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 		}
 	}, []);
 
+	/** Drop any drift-correction nudge and play the current track at normal speed. */
+	const resetPlaybackRate = useCallback(() => {
+		if (rateResetTimerRef.current) {
+			clearTimeout(rateResetTimerRef.current);
+			rateResetTimerRef.current = null;
+		}
+		const audio = currentAudioRef.current;
+		if (audio) audio.playbackRate = 1;
+	}, []);
+
+	/** Volume the current track should settle at (device override or room, after gain). */
+	const targetVolume = useCallback(() => {
+		if (volumeOverrideRef.current !== null) {
+			return volumeOverrideRef.current * gainScaleRef.current;
+		}
+		const playback = connectionRef.current?.playback;
+		return (
+			(playback?.isMuted ? 0 : (playback?.volume ?? 0.8)) * gainScaleRef.current
+		);
+	}, []);
+
+	/** Cut a running crossfade short: silence the outgoing track, settle the new one. */
+	const finishCrossfade = useCallback(() => {
+		for (const cancel of fadeCancelsRef.current) cancel();
+		fadeCancelsRef.current = [];
+		const outgoing = outgoingAudioRef.current;
+		outgoingAudioRef.current = null;
+		if (outgoing) {
+			outgoing.pause();
+			outgoing.src = "";
+		}
+		const audio = currentAudioRef.current;
+		if (audio) audio.volume = targetVolume();
+	}, [targetVolume]);
+
+	/** Schedule the fade-out/fade-in pair at the plan's synchronized start. */
+	const startCrossfade = useCallback(
+		(incoming: HTMLAudioElement, plan: TransitionPlan) => {
+			const outgoing = outgoingAudioRef.current;
+			const localStart =
+				plan.startAt - serverTimeOffsetRef.current - outputLatencyRef.current;
+			const delay = Math.max(0, localStart - Date.now());
+			incoming.volume = 0;
+			const timer = setTimeout(() => {
+				const cancels = [
+					rampVolume(incoming, 0, targetVolume(), plan.durationMs, () => {
+						fadeCancelsRef.current = [];
+					}),
+				];
+				if (outgoing) {
+					cancels.push(
+						rampVolume(outgoing, outgoing.volume, 0, plan.durationMs, () => {
+							outgoing.pause();
+							outgoing.src = "";
+							if (outgoingAudioRef.current === outgoing) {
+								outgoingAudioRef.current = null;
+							}
+						}),
+					);
+				}
+				fadeCancelsRef.current = cancels;
+			}, delay);
+			fadeCancelsRef.current = [() => clearTimeout(timer)];
+		},
+		[targetVolume],
+	);
+
 	/**
 	 * Attempt to play the current audio element. If blocked by autoplay policy,
 	 * mark as pending so the user-gesture handler can retry.
@@ -113,7 +256,9 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 			if (startAt) {
 				// serverTimeOffset ≈ serverClock − localClock (positive = server ahead).
 				// Convert server timestamp to local: local = server − offset.
-				const localStart = startAt - serverTimeOffsetRef.current;
+				// Start early by the output latency so the sound is heard on time.
+				const localStart =
+					startAt - serverTimeOffsetRef.current - outputLatencyRef.current;
 				const delay = localStart - Date.now();
 				if (delay > 0) {
 					setTimeout(doPlay, delay);
@@ -166,6 +311,8 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 		const audio = currentAudioRef.current;
 
 		const handleEnded = () => {
+			// Only the current track ends the song — not a crossfade's outgoing one
+			if (currentAudioRef.current !== audio) return;
 			connectionRef.current?.sendSongEnded();
 		};
 
@@ -173,6 +320,7 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 
 		// Start sync reporting (every 1s)
 		syncIntervalRef.current = setInterval(() => {
+			const audio = currentAudioRef.current;
 			const conn = connectionRef.current;
 			if (audio && !audio.paused && audio.src && conn) {
 				conn.sendSync(
@@ -184,18 +332,38 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 			}
 		}, 1000);
 
+		positionIntervalRef.current = setInterval(() => {
+			const audio = currentAudioRef.current;
+			const songId = playingSongIdRef.current;
+			if (audio && !audio.paused && audio.src && songId) {
+				connectionRef.current?.sendPosition(
+					songId,
+					audio.currentTime,
+					Date.now() + serverTimeOffsetRef.current,
+				);
+			}
+		}, POSITION_REPORT_INTERVAL_MS);
+
 		return () => {
 			audio.removeEventListener("ended", handleEnded);
 			if (syncIntervalRef.current) {
 				clearInterval(syncIntervalRef.current);
 			}
-			audio.pause();
-			audio.src = "";
+			if (positionIntervalRef.current) {
+				clearInterval(positionIntervalRef.current);
+			}
+			resetPlaybackRate();
+			finishCrossfade();
+			const current = currentAudioRef.current;
+			if (current) {
+				current.pause();
+				current.src = "";
+			}
 			if (preloadAudioRef.current) {
 				preloadAudioRef.current.src = "";
 			}
 		};
-	}, [enabled]);
+	}, [enabled, finishCrossfade, resetPlaybackRate]);
 
 	// Handle server messages (execute, nextSong, preload) — only runs when enabled toggles
 	useEffect(() => {
@@ -206,7 +374,6 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 		const removeHandler = conn.addMessageHandler((msg: ServerMessage) => {
 			const audio = currentAudioRef.current;
 			if (!audio) return;
-			const liveConn = connectionRef.current;
 
 			switch (msg.type) {
 				case "execute": {
@@ -218,6 +385,8 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 							setTimeout(sendImmediateSync, 100);
 							break;
 						case "pause":
+							finishCrossfade();
+							resetPlaybackRate();
 							audio.pause();
 							sendImmediateSync();
 							break;
@@ -226,20 +395,22 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 								attemptPlay(audio);
 								setTimeout(sendImmediateSync, 100);
 							} else {
+								finishCrossfade();
 								audio.pause();
 								sendImmediateSync();
 							}
 							break;
 						case "seek": {
 							const time = (msg.payload?.time as number) ?? 0;
-							audio.currentTime = time;
+							resetPlaybackRate();
+							audio.currentTime = time + outputLatencyRef.current / 1000;
 							// currentTime updates synchronously, sync right away
 							sendImmediateSync();
 							break;
 						}
 						case "setVolume": {
 							const vol = (msg.payload?.volume as number) ?? 0.8;
-							audio.volume = vol;
+							audio.volume = vol * gainScaleRef.current;
 							// Room-wide setVolume clears per-device override;
 							// device-scoped setVolume sets the override.
 							if (scope === "room") {
@@ -257,9 +428,25 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 				}
 
 				case "nextSong": {
+					finishCrossfade();
+					gainScaleRef.current = gainToVolumeScale(msg.gainDb);
 					const preload = preloadAudioRef.current;
-					// Check if we already preloaded this song (readyState >= 2 = buffered enough to play)
-					if (
+					const crossfade =
+						msg.transition && !audio.paused && audio.src
+							? msg.transition
+							: null;
+					if (crossfade && preload) {
+						// Keep the current track playing as the outgoing side of the fade
+						if (preloadSongIdRef.current !== msg.songId || !preload.src) {
+							preload.src = msg.audioUrl;
+							preload.load();
+						}
+						outgoingAudioRef.current = audio;
+						currentAudioRef.current = preload;
+						preloadAudioRef.current = new Audio();
+						preloadSongIdRef.current = null;
+					} else if (
+						// Check if we already preloaded this song (readyState >= 2 = buffered enough to play)
 						preload &&
 						preloadSongIdRef.current === msg.songId &&
 						preload.src &&
@@ -283,18 +470,19 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 
 					const targetAudio = currentAudioRef.current;
 					if (!targetAudio) break;
+					playingSongIdRef.current = msg.songId;
+					resetPlaybackRate();
 
-					// Apply volume: use per-device override if set, otherwise room-wide
-					if (volumeOverrideRef.current !== null) {
-						targetAudio.volume = volumeOverrideRef.current;
+					// Apply volume: per-device override if set, otherwise room-wide
+					if (crossfade) {
+						startCrossfade(targetAudio, crossfade);
 					} else {
-						targetAudio.volume = liveConn?.playback.isMuted
-							? 0
-							: (liveConn?.playback.volume ?? 0.8);
+						targetAudio.volume = targetVolume();
 					}
 
 					// Re-register ended listener on swapped audio
 					const handleEnded = () => {
+						if (currentAudioRef.current !== targetAudio) return;
 						connectionRef.current?.sendSongEnded();
 					};
 					targetAudio.addEventListener("ended", handleEnded, {
@@ -306,6 +494,25 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 					break;
 				}
 
+				case "correction": {
+					if (msg.songId !== playingSongIdRef.current || audio.paused) break;
+					resetPlaybackRate();
+					if (msg.correction.kind === "nudge") {
+						audio.playbackRate = msg.correction.rate;
+						rateResetTimerRef.current = setTimeout(
+							resetPlaybackRate,
+							msg.correction.durationMs,
+						);
+					} else {
+						audio.currentTime = resolveSeekTarget(
+							msg.correction,
+							Date.now() + serverTimeOffsetRef.current,
+							outputLatencyRef.current,
+						);
+					}
+					break;
+				}
+
 				case "preload": {
 					const preload = preloadAudioRef.current;
 					if (!preload) break;
@@ -318,7 +525,15 @@ export function useRoomPlayer(connection: RoomConnection | null) {
 		});
 
 		return removeHandler;
-	}, [enabled, attemptPlay, sendImmediateSync]);
+	}, [
+		enabled,
+		attemptPlay,
+		sendImmediateSync,
+		finishCrossfade,
+		startCrossfade,
+		targetVolume,
+		resetPlaybackRate,
+	]);
 
 	const seek = useCallback((time: number) => {
 		const audio = currentAudioRef.current;
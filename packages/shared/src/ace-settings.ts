@@ -123,3 +123,101 @@ export function resolveAceQualityDefaultModel(
 	const serverDefault = models.find((model) => model.is_default)?.name;
 	return normalizeAceModel(serverDefault) || ACE_QUALITY_DEFAULT_MODEL;
 }
+
+// ─── Endpoint pool ───────────────────────────────────────────────────
+
+/** Concurrency of the primary `aceStepUrl` endpoint. */
+export const ACE_CONCURRENCY_SETTING = "aceStepConcurrency";
+/** JSON list of additional endpoints, see `AceEndpointConfig`. */
+export const ACE_ENDPOINTS_SETTING = "aceStepEndpoints";
+export const ACE_MAX_ENDPOINT_CONCURRENCY = 8;
+
+export interface AceEndpointConfig {
+	url: string;
+	name?: string;
+	concurrency: number;
+}
+
+/** Live state of one pooled endpoint, as reported by the worker. */
+export interface AceEndpointStatus {
+	url: string;
+	name: string;
+	concurrency: number;
+	active: number;
+	healthy: boolean;
+	/** Model keys the endpoint reported; null until the first probe succeeds. */
+	models: string[] | null;
+	loadedModel: string | null;
+	lastCheckedAt: number | null;
+	lastError: string | null;
+	consecutiveFailures: number;
+	backoffUntil: number | null;
+	completed: number;
+	failed: number;
+}
+
+export function normalizeAceEndpointUrl(url: string): string {
+	return url.trim().replace(/\/+$/, "");
+}
+
+export function normalizeAceConcurrency(value: unknown): number {
+	const parsed =
+		typeof value === "number" ? value : Number.parseInt(String(value), 10);
+	if (!Number.isFinite(parsed)) return 1;
+	return Math.min(
+		ACE_MAX_ENDPOINT_CONCURRENCY,
+		Math.max(1, Math.floor(parsed)),
+	);
+}
+
+/** Parse the `aceStepEndpoints` setting, dropping malformed entries. */
+export function parseAceEndpoints(
+	raw: string | null | undefined,
+): AceEndpointConfig[] {
+	if (!raw?.trim()) return [];
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(raw);
+	} catch {
+		return [];
+	}
+	if (!Array.isArray(parsed)) return [];
+
+	const endpoints: AceEndpointConfig[] = [];
+	for (const entry of parsed) {
+		if (!entry || typeof entry !== "object") continue;
+		const { url, name, concurrency } = entry as Record<string, unknown>;
+		if (typeof url !== "string" || !/^https?:\/\//i.test(url.trim())) continue;
+		endpoints.push({
+			url: normalizeAceEndpointUrl(url),
+			name: typeof name === "string" && name.trim() ? name.trim() : undefined,
+			concurrency: normalizeAceConcurrency(concurrency ?? 1),
+		});
+	}
+	return endpoints;
+}
+
+/**
+ * The full pool: the primary `aceStepUrl` first, then the additional
+ * endpoints. Duplicate URLs keep their first entry.
+ */
+export function resolveAceEndpoints(
+	settings: Record<string, string | null | undefined>,
+	fallbackUrl: string,
+): AceEndpointConfig[] {
+	const primary: AceEndpointConfig = {
+		url: normalizeAceEndpointUrl(settings.aceStepUrl || fallbackUrl),
+		name: "primary",
+		concurrency: normalizeAceConcurrency(
+			settings[ACE_CONCURRENCY_SETTING] ?? 1,
+		),
+	};
+	const seen = new Set([primary.url]);
+	const pool = [primary];
+	for (const endpoint of parseAceEndpoints(settings[ACE_ENDPOINTS_SETTING])) {
+		if (seen.has(endpoint.url)) continue;
+		seen.add(endpoint.url);
+		pool.push(endpoint);
+	}
+	return pool;
+}
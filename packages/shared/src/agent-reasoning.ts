@@ -84,6 +84,15 @@ export function getAgentReasoningSettingKey(
 	return `agentReasoning.${agentId}`;
 }
 
+/** Per-agent text provider override; empty means use the global text model. */
+export function getAgentProviderSettingKey(agentId: InfinituneAgentId): string {
+	return `agentProvider.${agentId}`;
+}
+
+export function getAgentModelSettingKey(agentId: InfinituneAgentId): string {
+	return `agentModel.${agentId}`;
+}
+
 export function isAgentReasoningLevel(
 	value: unknown,
 ): value is AgentReasoningLevel {
@@ -0,0 +1,67 @@
+/** Actions recorded in the audit log. */
+export const AUDIT_ACTIONS = [
+	"playlist.command",
+	"house.command",
+	"house.schedule_created",
+	"house.schedule_updated",
+	"house.schedule_deleted",
+	"house.schedule_run",
+	"device.token_issued",
+	"device.renamed",
+	"device.token_revoked",
+	"device.assigned",
+	"device.unassigned",
+	"settings.changed",
+	"playlist.prompt_changed",
+	"playlist.params_changed",
+	"playlist.status_changed",
+	"playlist.steered",
+	"playlist.song_requested",
+	"playlist.deleted",
+	"song.deleted",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ACTOR_KINDS = ["user", "device", "anonymous"] as const;
+
+export type AuditActorKind = (typeof AUDIT_ACTOR_KINDS)[number];
+
+/** Setting holding how many days of audit entries to keep; `0` keeps them forever. */
+export const AUDIT_RETENTION_SETTING = "auditRetentionDays";
+
+export const DEFAULT_AUDIT_RETENTION_DAYS = 90;
+
+export function normalizeAuditRetentionDays(
+	value: string | null | undefined,
+): number {
+	if (value == null || value.trim() === "") return DEFAULT_AUDIT_RETENTION_DAYS;
+	const days = Number.parseInt(value, 10);
+	return Number.isFinite(days) && days >= 0
+		? days
+		: DEFAULT_AUDIT_RETENTION_DAYS;
+}
+
+export interface AuditEntry {
+	id: string;
+	createdAt: number;
+	actorKind: AuditActorKind;
+	actorUserId: string | null;
+	/** Display name at the time of the action, kept if the user goes away. */
+	actorName: string | null;
+	deviceId: string | null;
+	deviceName: string | null;
+	method: string;
+	route: string;
+	action: AuditAction;
+	playlistId: string | null;
+	targetId: string | null;
+	before: unknown;
+	after: unknown;
+}
+
+export interface AuditEntryPage {
+	entries: AuditEntry[];
+	/** Pass as `cursor` to fetch the next, older page; null at the end. */
+	nextCursor: string | null;
+}
@@ -0,0 +1,66 @@
+import type { PlaylistRole } from "./playlist-roles";
+
+/** Sign-in providers the server can enable via `AUTH_PROVIDERS`. */
+export const AUTH_PROVIDERS = ["shoo", "local"] as const;
+
+export type AuthProvider = (typeof AUTH_PROVIDERS)[number];
+
+/**
+ * What a personal API key may do. `read` covers every GET, `control`
+ * drives playback and devices, `generate` creates and steers playlists
+ * and songs, and `admin` implies all of them plus settings and key
+ * management.
+ */
+export const API_KEY_SCOPES = ["read", "control", "generate", "admin"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_PREFIX = "infi_key_";
+
+/** Cookie holding a local sign-in session. */
+export const SESSION_COOKIE_NAME = "infinitune_session";
+
+export const LOCAL_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function scopeAllows(
+	scopes: readonly ApiKeyScope[],
+	required: ApiKeyScope,
+): boolean {
+	return scopes.includes("admin") || scopes.includes(required);
+}
+
+/**
+ * The strongest playlist role an API key may act with where the route
+ * scope guard doesn't run, e.g. on the room socket. Read-only keys only
+ * listen.
+ */
+export function apiKeyRoleCap(scopes: readonly ApiKeyScope[]): PlaylistRole {
+	if (scopes.includes("admin")) return "owner";
+	if (scopes.includes("control") || scopes.includes("generate")) {
+		return "editor";
+	}
+	return "listener";
+}
+
+export interface ApiKey {
+	id: string;
+	name: string;
+	/** First characters of the token, enough to recognise it in a list. */
+	prefix: string;
+	scopes: ApiKeyScope[];
+	createdAt: number;
+	lastUsedAt: number | null;
+	expiresAt: number | null;
+}
+
+/** Returned once on creation; the server only keeps the token's hash. */
+export interface CreatedApiKey extends ApiKey {
+	token: string;
+}
+
+/** `GET /api/auth/providers`: how people can sign in to this server. */
+export interface AuthProviderState {
+	providers: AuthProvider[];
+	/** Whether `POST /api/auth/register` currently accepts new local accounts. */
+	signupOpen: boolean;
+}
@@ -0,0 +1,192 @@
+/**
+ * Minimal five-field cron (`minute hour day-of-month month day-of-week`)
+ * for house schedules. Supports `*`, lists, ranges, steps and three-letter
+ * day/month names. Times are evaluated in the server's local timezone.
+ */
+
+export interface ParsedCron {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	/** Cron ORs day-of-month and day-of-week when both are restricted. */
+	domRestricted: boolean;
+	dowRestricted: boolean;
+}
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MONTH_NAMES = [
+	"jan",
+	"feb",
+	"mar",
+	"apr",
+	"may",
+	"jun",
+	"jul",
+	"aug",
+	"sep",
+	"oct",
+	"nov",
+	"dec",
+];
+
+/** Look no further than this for the next fire time. */
+const SEARCH_LIMIT_DAYS = 366 * 5;
+
+function parseValue(
+	raw: string,
+	min: number,
+	names?: string[],
+	nameOffset = 0,
+): number | null {
+	const named = names?.indexOf(raw.toLowerCase()) ?? -1;
+	if (named >= 0) return named + nameOffset;
+	if (!/^\d+$/.test(raw)) return null;
+	const value = Number.parseInt(raw, 10);
+	return value >= min ? value : null;
+}
+
+function parseField(
+	field: string,
+	min: number,
+	max: number,
+	names?: string[],
+	nameOffset = 0,
+): Set<number> | null {
+	const values = new Set<number>();
+	for (const part of field.split(",")) {
+		const [rangePart, stepPart, ...rest] = part.split("/");
+		if (rest.length > 0 || !rangePart) return null;
+		const step = stepPart === undefined ? 1 : Number(stepPart);
+		if (!Number.isInteger(step) || step < 1) return null;
+
+		let start: number | null;
+		let end: number | null;
+		if (rangePart === "*") {
+			start = min;
+			end = max;
+		} else if (rangePart.includes("-")) {
+			const [from, to] = rangePart.split("-");
+			start = parseValue(from, min, names, nameOffset);
+			end = parseValue(to, min, names, nameOffset);
+		} else {
+			start = parseValue(rangePart, min, names, nameOffset);
+			end = stepPart === undefined ? start : max;
+		}
+		if (start === null || end === null || start > end || end > max) {
+			return null;
+		}
+		for (let value = start; value <= end; value += step) values.add(value);
+	}
+	return values;
+}
+
+/** Parse a cron expression, or null when it isn't valid. */
+export function parseCron(expression: string): ParsedCron | null {
+	const fields = expression.trim().split(/\s+/);
+	if (fields.length !== 5) return null;
+	const [minute, hour, dom, month, dow] = fields;
+
+	const minutes = parseField(minute, 0, 59);
+	const hours = parseField(hour, 0, 23);
+	const daysOfMonth = parseField(dom, 1, 31);
+	const months = parseField(month, 1, 12, MONTH_NAMES, 1);
+	// 7 is accepted as a second spelling of Sunday
+	const rawDaysOfWeek = parseField(dow, 0, 7, DAY_NAMES);
+	if (!minutes || !hours || !daysOfMonth || !months || !rawDaysOfWeek) {
+		return null;
+	}
+	const daysOfWeek = new Set(
+		[...rawDaysOfWeek].map((day) => (day === 7 ? 0 : day)),
+	);
+
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		// Like Vixie cron, a field starting with "*" (e.g. "*/2") doesn't
+		// restrict, so it never turns the day match into an OR
+		domRestricted: !dom.startsWith("*"),
+		dowRestricted: !dow.startsWith("*"),
+	};
+}
+
+export function isValidCron(expression: string): boolean {
+	return parseCron(expression) !== null;
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+	if (!cron.months.has(date.getMonth() + 1)) return false;
+	const domMatch = cron.daysOfMonth.has(date.getDate());
+	const dowMatch = cron.daysOfWeek.has(date.getDay());
+	if (cron.domRestricted && cron.dowRestricted) return domMatch || dowMatch;
+	if (cron.domRestricted) return domMatch;
+	if (cron.dowRestricted) return dowMatch;
+	return true;
+}
+
+export function matchesCron(cron: ParsedCron, date: Date): boolean {
+	return (
+		matchesDay(cron, date) &&
+		cron.hours.has(date.getHours()) &&
+		cron.minutes.has(date.getMinutes())
+	);
+}
+
+/** First minute strictly after `after` that the expression fires on. */
+export function nextCronTime(cron: ParsedCron, after: Date): Date | null {
+	const candidate = new Date(after.getTime());
+	candidate.setSeconds(0, 0);
+	candidate.setMinutes(candidate.getMinutes() + 1);
+	const limit = after.getTime() + SEARCH_LIMIT_DAYS * 24 * 60 * 60 * 1000;
+
+	while (candidate.getTime() <= limit) {
+		if (!matchesDay(cron, candidate)) {
+			candidate.setDate(candidate.getDate() + 1);
+			candidate.setHours(0, 0, 0, 0);
+			continue;
+		}
+		if (!cron.hours.has(candidate.getHours())) {
+			candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+			continue;
+		}
+		if (!cron.minutes.has(candidate.getMinutes())) {
+			candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+			continue;
+		}
+		return candidate;
+	}
+	return null;
+}
+
+export const SCHEDULE_DAY_PRESETS = {
+	daily: "*",
+	weekdays: "1-5",
+	weekends: "0,6",
+} as const;
+
+/**
+ * Build a cron expression from a wall-clock time ("07:00") and a day spec:
+ * a preset (`daily`, `weekdays`, `weekends`) or a list like `mon,wed,fri`.
+ * Returns null when either part is malformed.
+ */
+export function cronFromTime(time: string, days = "daily"): string | null {
+	const match = time.trim().match(/^(\d{1,2}):(\d{2})$/);
+	if (!match) return null;
+	const hour = Number.parseInt(match[1], 10);
+	const minute = Number.parseInt(match[2], 10);
+	if (hour > 23 || minute > 59) return null;
+
+	const normalizedDays = days.trim().toLowerCase();
+	const dow =
+		normalizedDays in SCHEDULE_DAY_PRESETS
+			? SCHEDULE_DAY_PRESETS[
+					normalizedDays as keyof typeof SCHEDULE_DAY_PRESETS
+				]
+			: normalizedDays;
+	const expression = `${minute} ${hour} * * ${dow}`;
+	return isValidCron(expression) ? expression : null;
+}
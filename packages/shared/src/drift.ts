@@ -0,0 +1,74 @@
+import type { DriftCorrection } from "./protocol";
+
+/** How often v3 players report their actual playback position. */
+export const POSITION_REPORT_INTERVAL_MS = 2000;
+
+// Below this, players are in sync as far as anyone can hear.
+const DRIFT_TOLERANCE_MS = 40;
+// Past this, nudging would take too long; jump straight to the room's spot.
+const DRIFT_SEEK_THRESHOLD_MS = 500;
+const MAX_RATE_NUDGE = 0.05;
+// A nudge aims to close the gap over roughly this long.
+const NUDGE_TARGET_MS = 3000;
+
+/**
+ * Drift of a player against the room timeline, in ms; positive means the
+ * player is ahead. The output latency is subtracted from the reported
+ * position because that is how far behind the element the speaker is.
+ */
+export function measureDriftMs(
+	reportedPositionSec: number,
+	expectedPositionSec: number,
+	outputLatencyMs = 0,
+): number {
+	return (reportedPositionSec - expectedPositionSec) * 1000 - outputLatencyMs;
+}
+
+/**
+ * Decide how to correct a measured drift. Small drift is left alone, medium
+ * drift is nudged out with a playback rate within ±5% (when the player can
+ * change rate at all) and large drift is fixed with a seek to
+ * `expectedPositionSec`, the room position at `serverTime`.
+ */
+export function planDriftCorrection(
+	driftMs: number,
+	expectedPositionSec: number,
+	serverTime: number,
+	canNudgeRate = true,
+): DriftCorrection | null {
+	const magnitude = Math.abs(driftMs);
+	if (magnitude < DRIFT_TOLERANCE_MS) return null;
+	if (magnitude >= DRIFT_SEEK_THRESHOLD_MS) {
+		return {
+			kind: "seek",
+			position: Math.max(0, expectedPositionSec),
+			serverTime,
+		};
+	}
+	if (!canNudgeRate) return null;
+
+	const offset = Math.min(MAX_RATE_NUDGE, magnitude / NUDGE_TARGET_MS);
+	// Ahead → play slower; behind → play faster.
+	const rate = driftMs > 0 ? 1 - offset : 1 + offset;
+	return {
+		kind: "nudge",
+		rate: Number(rate.toFixed(4)),
+		durationMs: Math.round(magnitude / offset),
+	};
+}
+
+/**
+ * Where a player should seek to act on a `seek` correction: the room's
+ * position carried forward to now, plus the device's output latency so the
+ * speaker, not the element, lands on the room timeline.
+ */
+export function resolveSeekTarget(
+	correction: Extract<DriftCorrection, { kind: "seek" }>,
+	serverNow: number,
+	outputLatencyMs = 0,
+): number {
+	return (
+		correction.position +
+		(serverNow - correction.serverTime + outputLatencyMs) / 1000
+	);
+}
@@ -0,0 +1,31 @@
+export const SKIP_SOURCES = ["room", "daemon", "web"] as const;
+
+export type SkipSource = (typeof SKIP_SOURCES)[number];
+
+/** A skip inside this many seconds of a song's start is an early skip. */
+export const EARLY_SKIP_SECONDS = 20;
+
+/** One skip of one song, as recorded by whichever player skipped it. */
+export interface SongSkip {
+	id: string;
+	createdAt: number;
+	songId: string;
+	playlistId: string;
+	/** Playback position at the moment of the skip, in seconds. */
+	positionSec: number;
+	/** Song length as the player saw it, in seconds. */
+	durationSec: number | null;
+	deviceId: string | null;
+	deviceName: string | null;
+	source: SkipSource;
+	early: boolean;
+}
+
+export function isEarlySkipPosition(
+	positionSec: number,
+	durationSec?: number | null,
+): boolean {
+	// Very short songs can't be skipped "early" in any meaningful sense
+	if (durationSec && durationSec <= EARLY_SKIP_SECONDS * 2) return false;
+	return positionSec < EARLY_SKIP_SECONDS;
+}
@@ -0,0 +1,53 @@
+export const IMAGE_PROVIDERS = [
+	"comfyui",
+	"inference-sh",
+	"codex-imagegen",
+	"a1111",
+	"placeholder",
+] as const;
+
+export type ImageProviderId = (typeof IMAGE_PROVIDERS)[number];
+
+export const DEFAULT_IMAGE_PROVIDER: ImageProviderId = "comfyui";
+
+export interface ImageProviderCapabilities {
+	/** The provider has a model list to choose from. */
+	modelSelection: boolean;
+	/** The provider calls out to another service or CLI. */
+	requiresNetwork: boolean;
+	/** Same song metadata always yields the same image. */
+	deterministic: boolean;
+}
+
+/** Public description of a registered image provider. */
+export interface ImageProviderInfo {
+	id: ImageProviderId;
+	label: string;
+	concurrency: number;
+	capabilities: ImageProviderCapabilities;
+}
+
+export function isImageProviderId(value: string): value is ImageProviderId {
+	return (IMAGE_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve a provider id, including ids older installs stored: `ollama`
+ * (ComfyUI) and `openrouter` (now Inference.sh). Unknown ids give null.
+ */
+export function parseImageProvider(
+	value: string | null | undefined,
+): ImageProviderId | null {
+	const normalized = value?.trim().toLowerCase() ?? "";
+	if (normalized === "ollama") return "comfyui";
+	if (normalized === "openrouter") return "inference-sh";
+	if (normalized === "automatic1111" || normalized === "forge") return "a1111";
+	return isImageProviderId(normalized) ? normalized : null;
+}
+
+/** Like `parseImageProvider`, falling back to the default provider. */
+export function normalizeImageProvider(
+	value: string | null | undefined,
+): ImageProviderId {
+	return parseImageProvider(value) ?? DEFAULT_IMAGE_PROVIDER;
+}
@@ -0,0 +1,96 @@
+export const LOUDNESS_NORMALIZATION_MODES = [
+	"off",
+	"track",
+	"playlist",
+] as const;
+
+export type LoudnessNormalizationMode =
+	(typeof LOUDNESS_NORMALIZATION_MODES)[number];
+
+/** Settings key holding the player-side normalization mode. */
+export const LOUDNESS_NORMALIZATION_SETTING = "loudnessNormalization";
+
+/** Integrated loudness every track is levelled to (EBU R128, LUFS). */
+export const LOUDNESS_TARGET_LUFS = -16;
+
+/** Gain is never allowed to push a track's true peak above this (dBTP). */
+export const TRUE_PEAK_CEILING_DBTP = -1;
+
+export interface LoudnessInfo {
+	loudnessLufs?: number | null;
+	truePeakDbtp?: number | null;
+	replayGainDb?: number | null;
+}
+
+export function normalizeLoudnessMode(
+	value?: string | null,
+): LoudnessNormalizationMode {
+	const normalized = value?.trim().toLowerCase();
+	return (
+		LOUDNESS_NORMALIZATION_MODES.find((mode) => mode === normalized) ?? "track"
+	);
+}
+
+function roundDb(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+/**
+ * Gain (dB) that brings a measured track to `LOUDNESS_TARGET_LUFS`, capped
+ * so the true peak stays under `TRUE_PEAK_CEILING_DBTP`.
+ */
+export function computeReplayGain(
+	loudnessLufs: number,
+	truePeakDbtp: number,
+): number {
+	const toTarget = LOUDNESS_TARGET_LUFS - loudnessLufs;
+	const headroom = TRUE_PEAK_CEILING_DBTP - truePeakDbtp;
+	return roundDb(Math.min(toTarget, headroom));
+}
+
+/**
+ * One gain for a whole playlist, like album gain: the energy-averaged
+ * loudness of every measured song is levelled to the target, so quiet and
+ * loud songs keep their relative balance. Capped by the loudest peak.
+ * Returns null when nothing in the list has been measured.
+ */
+export function computePlaylistGain(songs: LoudnessInfo[]): number | null {
+	const measured = songs.filter(
+		(song): song is { loudnessLufs: number; truePeakDbtp: number } =>
+			typeof song.loudnessLufs === "number" &&
+			typeof song.truePeakDbtp === "number",
+	);
+	if (measured.length === 0) return null;
+
+	const meanEnergy =
+		measured.reduce((sum, song) => sum + 10 ** (song.loudnessLufs / 10), 0) /
+		measured.length;
+	const maxPeak = Math.max(...measured.map((song) => song.truePeakDbtp));
+	return computeReplayGain(10 * Math.log10(meanEnergy), maxPeak);
+}
+
+/**
+ * The gain a player should apply to `song`. `playlistGainDb` comes from
+ * `computePlaylistGain` over the song's playlist; songs that haven't been
+ * measured yet play untouched.
+ */
+export function resolveGainDb(
+	mode: LoudnessNormalizationMode,
+	song: LoudnessInfo,
+	playlistGainDb: number | null,
+): number | null {
+	if (mode === "off") return null;
+	if (typeof song.replayGainDb !== "number") return null;
+	if (mode === "playlist" && playlistGainDb !== null) return playlistGainDb;
+	return song.replayGainDb;
+}
+
+/**
+ * Linear volume multiplier for a gain. Browsers can't drive an audio
+ * element past full volume, so every player only ever attenuates — boosts
+ * are dropped to keep devices in a room at the same level.
+ */
+export function gainToVolumeScale(gainDb?: number | null): number {
+	if (typeof gainDb !== "number" || gainDb >= 0) return 1;
+	return 10 ** (gainDb / 20);
+}
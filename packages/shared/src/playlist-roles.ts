@@ -0,0 +1,102 @@
+import type { CommandAction } from "./protocol";
+
+/** Collaborator roles, weakest first. */
+export const PLAYLIST_ROLES = ["listener", "editor", "owner"] as const;
+
+export type PlaylistRole = (typeof PLAYLIST_ROLES)[number];
+
+/** Roles that can be granted to a collaborator; ownership never transfers. */
+export const COLLABORATOR_ROLES = ["listener", "editor"] as const;
+
+export type CollaboratorRole = (typeof COLLABORATOR_ROLES)[number];
+
+/**
+ * What each permission needs. Listeners can open and play a playlist,
+ * editors can also steer, rate and skip, only the owner manages it.
+ */
+export const PLAYLIST_PERMISSIONS = {
+	play: "listener",
+	steer: "editor",
+	manage: "owner",
+} as const satisfies Record<string, PlaylistRole>;
+
+export type PlaylistPermission = keyof typeof PLAYLIST_PERMISSIONS;
+
+/** Room commands a listener may send; everything else needs `steer`. */
+export const LISTENER_COMMANDS: readonly CommandAction[] = [
+	"play",
+	"pause",
+	"stop",
+	"toggle",
+	"setVolume",
+	"toggleMute",
+	"syncAll",
+];
+
+/** Invite links stop working after this long unless the owner picks another expiry. */
+export const PLAYLIST_INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function roleRank(role: PlaylistRole): number {
+	return PLAYLIST_ROLES.indexOf(role);
+}
+
+export function strongestRole<R extends PlaylistRole>(
+	roles: (R | null | undefined)[],
+): R | null {
+	let strongest: R | null = null;
+	for (const role of roles) {
+		if (!role) continue;
+		if (!strongest || roleRank(role) > roleRank(strongest)) strongest = role;
+	}
+	return strongest;
+}
+
+/** The weaker of `role` and `cap`; null stays null. */
+export function capRole(
+	role: PlaylistRole | null,
+	cap: PlaylistRole,
+): PlaylistRole | null {
+	if (!role) return null;
+	return roleRank(role) > roleRank(cap) ? cap : role;
+}
+
+export function roleAllows(
+	role: PlaylistRole | null | undefined,
+	permission: PlaylistPermission,
+): boolean {
+	if (!role) return false;
+	return roleRank(role) >= roleRank(PLAYLIST_PERMISSIONS[permission]);
+}
+
+export function commandPermission(action: CommandAction): PlaylistPermission {
+	return LISTENER_COMMANDS.includes(action) ? "play" : "steer";
+}
+
+export interface PlaylistCollaborator {
+	playlistId: string;
+	userId: string;
+	role: PlaylistRole;
+	name: string | null;
+	email: string | null;
+	picture: string | null;
+	invitedByUserId: string | null;
+	/** Null for the owner, who is listed but has no collaborator row. */
+	createdAt: number | null;
+}
+
+export interface PlaylistInvite {
+	id: string;
+	playlistId: string;
+	role: CollaboratorRole;
+	createdByUserId: string | null;
+	createdAt: number;
+	expiresAt: number | null;
+	maxUses: number | null;
+	uses: number;
+	revokedAt: number | null;
+}
+
+/** Returned once on creation; the server only keeps the token's hash. */
+export interface CreatedPlaylistInvite extends PlaylistInvite {
+	token: string;
+}
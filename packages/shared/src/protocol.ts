@@ -1,6 +1,10 @@
 import z from "zod";
+import { isValidCron } from "./cron";
+import { PLAYLIST_ROLES } from "./playlist-roles";
 
-export const ROOM_PROTOCOL_VERSION = 2 as const;
+export const ROOM_PROTOCOL_VERSION = 3 as const;
+/** Oldest client protocol the room server still speaks. */
+export const MIN_ROOM_PROTOCOL_VERSION = 2 as const;
 
 // ─── Shared Types ───────────────────────────────────────────────────
 
@@ -15,6 +19,11 @@ export const DeviceSchema = z.object({
 	name: z.string(),
 	role: DeviceRoleSchema,
 	mode: DeviceModeSchema.default("default"),
+	protocolVersion: z.number().int().positive().optional(),
+	/** Manual offset for the device's audio output (Bluetooth, HDMI…). */
+	outputLatencyMs: z.number().optional(),
+	/** Last measured playback drift against the room timeline (v3 players). */
+	driftMs: z.number().nullable().optional(),
 });
 export type Device = z.infer<typeof DeviceSchema>;
 
@@ -58,9 +67,54 @@ export const SongDataSchema = z.object({
 	bpm: z.number().optional(),
 	keyScale: z.string().optional(),
 	lyrics: z.string().optional(),
+	/** Loudness gain players should apply, resolved for the room's playlist. */
+	gainDb: z.number().optional(),
 });
 export type SongData = z.infer<typeof SongDataSchema>;
 
+/**
+ * How a room moves from one song to the next. `crossfade` overlaps the
+ * songs for `seconds`; `beat` rounds the overlap to whole bars of the
+ * outgoing song's BPM and starts it on a bar line.
+ */
+export const TransitionModeSchema = z.enum(["cut", "crossfade", "beat"]);
+export type TransitionMode = z.infer<typeof TransitionModeSchema>;
+
+export const TransitionSettingsSchema = z.object({
+	mode: TransitionModeSchema,
+	seconds: z.number().min(0).max(12),
+});
+export type TransitionSettings = z.infer<typeof TransitionSettingsSchema>;
+
+/** A scheduled overlap, sent with `nextSong` so all players fade together. */
+export const TransitionPlanSchema = z.object({
+	mode: TransitionModeSchema.exclude(["cut"]),
+	fromSongId: z.string(),
+	/** Server time (ms) at which the fade begins. */
+	startAt: z.number(),
+	durationMs: z.number().nonnegative(),
+});
+export type TransitionPlan = z.infer<typeof TransitionPlanSchema>;
+
+/**
+ * How a v3 player should get back onto the room timeline: hold a slightly
+ * different playback rate for a while, or jump to where the room is.
+ */
+export const DriftCorrectionSchema = z.discriminatedUnion("kind", [
+	z.object({
+		kind: z.literal("nudge"),
+		rate: z.number().positive(),
+		durationMs: z.number().nonnegative(),
+	}),
+	z.object({
+		kind: z.literal("seek"),
+		/** Song position (s) the room was at at `serverTime`. */
+		position: z.number().nonnegative(),
+		serverTime: z.number(),
+	}),
+]);
+export type DriftCorrection = z.infer<typeof DriftCorrectionSchema>;
+
 // ─── Client → Server Messages ───────────────────────────────────────
 
 export const CommandActionSchema = z.enum([
@@ -76,6 +130,7 @@ export const CommandActionSchema = z.enum([
 	"selectSong",
 	"resetToDefault",
 	"syncAll",
+	"setTransition",
 ]);
 export type CommandAction = z.infer<typeof CommandActionSchema>;
 
@@ -92,6 +147,15 @@ const JoinMessageSchema = z
 		playlistKey: z.string().optional(),
 		roomName: z.string().optional(),
 		protocolVersion: z.number().int().positive().optional(),
+		// Needed to join playlists that have an owner: a Shoo ID token or
+		// API key for people, a device token for daemons. Browsers signed in
+		// locally are recognised by their session cookie instead.
+		authToken: z.string().optional(),
+		deviceToken: z.string().optional(),
+		// v3: the player's stored output latency, and whether it can change
+		// playback rate (players that can't are only corrected by seeking).
+		outputLatencyMs: z.number().min(0).max(5000).optional(),
+		canNudgeRate: z.boolean().optional(),
 	})
 	.refine((value) => Boolean(value.roomId || value.playlistId), {
 		message: "join requires roomId or playlistId",
@@ -132,6 +196,20 @@ const PingMessageSchema = z.object({
 	clientTime: z.number(),
 });
 
+/** v3: where a player actually is, stamped with its estimate of server time. */
+const PositionMessageSchema = z.object({
+	type: z.literal("position"),
+	songId: z.string(),
+	position: z.number().nonnegative(),
+	serverTime: z.number(),
+});
+
+/** v3: a player updating its own output latency offset. */
+const SetOutputLatencyMessageSchema = z.object({
+	type: z.literal("setOutputLatency"),
+	latencyMs: z.number().min(0).max(5000),
+});
+
 export const ClientMessageSchema = z.union([
 	JoinMessageSchema,
 	CommandMessageSchema,
@@ -140,6 +218,8 @@ export const ClientMessageSchema = z.union([
 	SongEndedMessageSchema,
 	RenameDeviceMessageSchema,
 	PingMessageSchema,
+	PositionMessageSchema,
+	SetOutputLatencyMessageSchema,
 ]);
 export type ClientMessage = z.infer<typeof ClientMessageSchema>;
 
@@ -150,6 +230,7 @@ const StateMessageSchema = z.object({
 	playback: PlaybackStateSchema,
 	currentSong: SongDataSchema.nullable(),
 	devices: z.array(DeviceSchema),
+	transition: TransitionSettingsSchema.optional(),
 	protocolVersion: z.number().int().positive().optional(),
 });
 
@@ -178,6 +259,8 @@ const NextSongMessageSchema = z.object({
 	songId: z.string(),
 	audioUrl: z.string(),
 	startAt: z.number().optional(),
+	transition: TransitionPlanSchema.optional(),
+	gainDb: z.number().optional(),
 });
 
 const PreloadMessageSchema = z.object({
@@ -192,9 +275,16 @@ const PongMessageSchema = z.object({
 	serverTime: z.number(),
 });
 
+const CorrectionMessageSchema = z.object({
+	type: z.literal("correction"),
+	songId: z.string(),
+	driftMs: z.number(),
+	correction: DriftCorrectionSchema,
+});
+
 const ErrorMessageSchema = z.object({
 	type: z.literal("error"),
-	code: z.enum(["PROTOCOL_MISMATCH"]).optional(),
+	code: z.enum(["PROTOCOL_MISMATCH", "FORBIDDEN"]).optional(),
 	message: z.string(),
 });
 
@@ -206,6 +296,7 @@ export const ServerMessageSchema = z.union([
 	NextSongMessageSchema,
 	PreloadMessageSchema,
 	PongMessageSchema,
+	CorrectionMessageSchema,
 	ErrorMessageSchema,
 ]);
 export type ServerMessage = z.infer<typeof ServerMessageSchema>;
@@ -252,6 +343,8 @@ export const AuthSessionSchema = z.object({
 	email: z.string().nullable().optional(),
 	name: z.string().nullable().optional(),
 	picture: z.string().nullable().optional(),
+	// Set for local accounts; Shoo users have no username
+	username: z.string().nullable().optional(),
 });
 export type AuthSession = z.infer<typeof AuthSessionSchema>;
 
@@ -305,6 +398,8 @@ export const PlaylistSessionInfoSchema = z.object({
 	currentSong: SongDataSchema.nullable(),
 	devices: z.array(DeviceSchema),
 	queue: z.array(SongDataSchema),
+	/** The caller's role; listeners get play controls only. */
+	viewerRole: z.enum(PLAYLIST_ROLES).optional(),
 });
 export type PlaylistSessionInfo = z.infer<typeof PlaylistSessionInfoSchema>;
 
@@ -345,6 +440,73 @@ export const HouseSessionsResponseSchema = z.object({
 });
 export type HouseSessionsResponse = z.infer<typeof HouseSessionsResponseSchema>;
 
+const CronExpressionSchema = z
+	.string()
+	.trim()
+	.min(1)
+	.refine(isValidCron, { message: "Invalid cron expression" });
+
+export const HouseScheduleSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	playlistId: z.string(),
+	playlistName: z.string().nullable(),
+	deviceId: z.string().nullable(),
+	deviceName: z.string().nullable(),
+	startCron: z.string(),
+	stopCron: z.string().nullable(),
+	/** Target volume once started; null leaves the room's volume untouched. */
+	volume: z.number().min(0).max(1).nullable(),
+	fadeInSec: z.number().int().min(0),
+	enabled: z.boolean(),
+	createdAt: z.number(),
+	lastStartedAt: z.number().nullable(),
+	lastStoppedAt: z.number().nullable(),
+	lastError: z.string().nullable(),
+	nextStartAt: z.number().nullable(),
+	nextStopAt: z.number().nullable(),
+});
+export type HouseSchedule = z.infer<typeof HouseScheduleSchema>;
+
+export const CreateHouseScheduleRequestSchema = z.object({
+	name: z.string().trim().min(1).max(120).optional(),
+	playlistId: z.string(),
+	deviceId: z.string().nullable().optional(),
+	startCron: CronExpressionSchema,
+	stopCron: CronExpressionSchema.nullable().optional(),
+	volume: z.number().min(0).max(1).nullable().optional(),
+	fadeInSec: z
+		.number()
+		.int()
+		.min(0)
+		.max(60 * 60)
+		.optional(),
+	enabled: z.boolean().optional(),
+});
+export type CreateHouseScheduleRequest = z.infer<
+	typeof CreateHouseScheduleRequestSchema
+>;
+
+export const UpdateHouseScheduleRequestSchema =
+	CreateHouseScheduleRequestSchema.partial();
+export type UpdateHouseScheduleRequest = z.infer<
+	typeof UpdateHouseScheduleRequestSchema
+>;
+
+export const RunHouseScheduleRequestSchema = z.object({
+	action: z.enum(["start", "stop"]),
+});
+export type RunHouseScheduleRequest = z.infer<
+	typeof RunHouseScheduleRequestSchema
+>;
+
+export const HouseSchedulesResponseSchema = z.object({
+	schedules: z.array(HouseScheduleSchema),
+});
+export type HouseSchedulesResponse = z.infer<
+	typeof HouseSchedulesResponseSchema
+>;
+
 export const PlaylistDeviceAssignmentSchema = z.object({
 	playlistId: z.string(),
 	deviceId: z.string(),
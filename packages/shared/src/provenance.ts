@@ -0,0 +1,72 @@
+import type { PlaylistManagerPlanSlot } from "./types";
+
+/** How the metadata prompt was shaped: prompt distance, profile and mode. */
+export interface SongPromptContractSummary {
+	distance: "close" | "general" | "faithful" | "album";
+	profile: "strict" | "balanced" | "creative" | "compact";
+	mode: "full" | "minimal" | "none";
+	temperature: number;
+}
+
+/** Everything sent to ACE-Step for a render, except the endpoint. */
+export interface AceRenderInputs {
+	lyrics: string;
+	caption: string;
+	vocalStyle?: string;
+	bpm: number;
+	keyScale: string;
+	timeSignature: string;
+	audioDuration: number;
+	aceModel?: string;
+	inferenceSteps?: number;
+	vocalLanguage?: string;
+	lmTemperature?: number;
+	lmCfgScale?: number;
+	inferMethod?: string;
+	aceDcwEnabled?: boolean;
+	aceDcwMode?: string;
+	aceDcwScaler?: number;
+	aceDcwHighScaler?: number;
+	aceDcwWavelet?: string;
+	aceThinking?: boolean;
+	aceAutoDuration?: boolean;
+}
+
+export interface SongProvenanceTimings {
+	metadataMs?: number;
+	coverMs?: number;
+	audioMs?: number;
+	metadataCompletedAt?: number;
+	audioSubmittedAt?: number;
+	completedAt?: number;
+}
+
+/** The inputs that produced a song, recorded by the worker as it goes. */
+export interface SongProvenance {
+	songId: string;
+	createdAt: number;
+	updatedAt: number;
+	/** Set when this song re-rendered another song's recorded inputs. */
+	sourceSongId: string | null;
+	/** The prompt sent to the metadata LLM (playlist prompt or request). */
+	prompt: string | null;
+	promptEpoch: number | null;
+	/** The steering direction in effect at `promptEpoch`, if any. */
+	steerDirection: string | null;
+	promptContract: SongPromptContractSummary | null;
+	llmProvider: string | null;
+	llmModel: string | null;
+	managerSlot: PlaylistManagerPlanSlot | null;
+	tasteProfile: string | null;
+	personaProvider: string | null;
+	personaModel: string | null;
+	aceInputs: AceRenderInputs | null;
+	aceSeed: number | null;
+	coverPrompt: string | null;
+	coverProvider: string | null;
+	coverModel: string | null;
+	timings: SongProvenanceTimings;
+}
+
+/** ACE-Step seeds are 32-bit; stay in the positive signed range. */
+export const ACE_SEED_MAX = 2 ** 31 - 1;
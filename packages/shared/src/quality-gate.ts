@@ -0,0 +1,195 @@
+export const QUALITY_ISSUES = [
+	"silence",
+	"clipping",
+	"truncated",
+	"quiet",
+] as const;
+
+export type QualityIssue = (typeof QUALITY_ISSUES)[number];
+
+export interface QualityGateConfig {
+	enabled: boolean;
+	/** Largest share of the render allowed to sit below the silence floor. */
+	maxSilenceRatio: number;
+	/** Largest share of samples allowed at or near full scale. */
+	maxClippingRatio: number;
+	/** Shortest acceptable render, as a fraction of the requested duration. */
+	minDurationRatio: number;
+	/** Integrated loudness below which a render counts as too quiet (LUFS). */
+	minLoudnessLufs: number;
+	/** Quality regenerations a playlist may spend per 24 h before failures stick. */
+	retryBudget: number;
+}
+
+export const QUALITY_GATE_DEFAULTS: QualityGateConfig = {
+	enabled: true,
+	maxSilenceRatio: 0.4,
+	maxClippingRatio: 0.005,
+	minDurationRatio: 0.6,
+	minLoudnessLufs: -35,
+	retryBudget: 10,
+};
+
+/** Settings key for each configurable field of the gate. */
+export const QUALITY_GATE_SETTINGS = {
+	enabled: "qualityGateEnabled",
+	maxSilenceRatio: "qualityMaxSilenceRatio",
+	maxClippingRatio: "qualityMaxClippingRatio",
+	minDurationRatio: "qualityMinDurationRatio",
+	minLoudnessLufs: "qualityMinLoudnessLufs",
+	retryBudget: "qualityRetryBudget",
+} as const satisfies Record<keyof QualityGateConfig, string>;
+
+/** Every quality rejection's error message starts with this. */
+export const QUALITY_FAILURE_PREFIX = "Quality check failed";
+
+function parseNumber(value: string | null | undefined, fallback: number) {
+	if (value === undefined || value === null || value.trim() === "") {
+		return fallback;
+	}
+	const parsed = Number(value);
+	return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.min(max, Math.max(min, value));
+}
+
+/** Build the gate config from raw settings, falling back to the defaults. */
+export function resolveQualityGateConfig(
+	settings: Record<string, string | null | undefined>,
+): QualityGateConfig {
+	const keys = QUALITY_GATE_SETTINGS;
+	const defaults = QUALITY_GATE_DEFAULTS;
+	const enabled = settings[keys.enabled]?.trim().toLowerCase();
+	return {
+		enabled: enabled ? enabled !== "false" && enabled !== "0" : true,
+		maxSilenceRatio: clamp(
+			parseNumber(settings[keys.maxSilenceRatio], defaults.maxSilenceRatio),
+			0,
+			1,
+		),
+		maxClippingRatio: clamp(
+			parseNumber(settings[keys.maxClippingRatio], defaults.maxClippingRatio),
+			0,
+			1,
+		),
+		minDurationRatio: clamp(
+			parseNumber(settings[keys.minDurationRatio], defaults.minDurationRatio),
+			0,
+			1,
+		),
+		minLoudnessLufs: clamp(
+			parseNumber(settings[keys.minLoudnessLufs], defaults.minLoudnessLufs),
+			-70,
+			0,
+		),
+		retryBudget: Math.max(
+			0,
+			Math.round(parseNumber(settings[keys.retryBudget], defaults.retryBudget)),
+		),
+	};
+}
+
+/** What the gate looks at. Anything unmeasured is skipped, not failed. */
+export interface QualityMetrics {
+	silenceRatio?: number | null;
+	clippingRatio?: number | null;
+	durationSec?: number | null;
+	requestedDurationSec?: number | null;
+	loudnessLufs?: number | null;
+}
+
+export interface QualityFinding {
+	issue: QualityIssue;
+	detail: string;
+}
+
+function percent(ratio: number): string {
+	const value = ratio * 100;
+	return `${value < 1 ? value.toFixed(2) : Math.round(value)}%`;
+}
+
+/** Returns one finding per failed check; an empty list means the render passes. */
+export function evaluateQuality(
+	metrics: QualityMetrics,
+	config: QualityGateConfig,
+): QualityFinding[] {
+	const findings: QualityFinding[] = [];
+	const {
+		silenceRatio,
+		clippingRatio,
+		durationSec,
+		requestedDurationSec,
+		loudnessLufs,
+	} = metrics;
+
+	if (
+		typeof silenceRatio === "number" &&
+		silenceRatio > config.maxSilenceRatio
+	) {
+		findings.push({
+			issue: "silence",
+			detail: `${percent(silenceRatio)} silent (max ${percent(config.maxSilenceRatio)})`,
+		});
+	}
+	if (
+		typeof clippingRatio === "number" &&
+		clippingRatio > config.maxClippingRatio
+	) {
+		findings.push({
+			issue: "clipping",
+			detail: `${percent(clippingRatio)} clipped (max ${percent(config.maxClippingRatio)})`,
+		});
+	}
+	if (
+		typeof durationSec === "number" &&
+		typeof requestedDurationSec === "number" &&
+		requestedDurationSec > 0 &&
+		durationSec < requestedDurationSec * config.minDurationRatio
+	) {
+		findings.push({
+			issue: "truncated",
+			detail: `${Math.round(durationSec)}s of ${Math.round(requestedDurationSec)}s requested`,
+		});
+	}
+	if (
+		typeof loudnessLufs === "number" &&
+		loudnessLufs < config.minLoudnessLufs
+	) {
+		findings.push({
+			issue: "quiet",
+			detail: `${loudnessLufs.toFixed(1)} LUFS (floor ${config.minLoudnessLufs} LUFS)`,
+		});
+	}
+	return findings;
+}
+
+export function formatQualityFailure(findings: QualityFinding[]): string {
+	return `${QUALITY_FAILURE_PREFIX}: ${findings
+		.map((finding) => finding.detail)
+		.join("; ")}`;
+}
+
+export function isQualityFailure(message?: string | null): boolean {
+	return message?.startsWith(QUALITY_FAILURE_PREFIX) ?? false;
+}
+
+/** Per-playlist summary served to the queue page. */
+export interface PlaylistQualityStats {
+	checked: number;
+	passed: number;
+	rejected: number;
+	issueCounts: Record<QualityIssue, number>;
+	/** Regenerations spent in the last 24 h. */
+	retriesUsed: number;
+	retryBudget: number;
+	/** True when the budget comes from the playlist rather than the global setting. */
+	budgetOverridden: boolean;
+	lastRejection: {
+		songId: string;
+		issues: QualityIssue[];
+		reason: string;
+		createdAt: number;
+	} | null;
+}
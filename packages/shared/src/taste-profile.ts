@@ -0,0 +1,263 @@
+import { isEarlySkipPosition } from "./engagement";
+
+export const TASTE_DIMENSIONS = [
+	"genres",
+	"moods",
+	"energies",
+	"bpmRanges",
+	"vocalStyles",
+	"themes",
+] as const;
+
+export type TasteDimension = (typeof TASTE_DIMENSIONS)[number];
+
+/** Settings key: seed new playlists' song prompts with the taste profile. */
+export const TASTE_PROFILE_PROMPTS_SETTING = "tasteProfilePrompts";
+
+/** Playlists with fewer generated songs than this count as new. */
+export const TASTE_PROFILE_NEW_PLAYLIST_SONGS = 5;
+
+/** Share of a song that has to play for it to count as a full listen. */
+export const FULL_LISTEN_RATIO = 0.85;
+/** Signals lose half their weight over this many days, down to the floor. */
+export const TASTE_HALF_LIFE_DAYS = 30;
+const TASTE_DECAY_FLOOR = 0.25;
+
+export const TASTE_SIGNAL_WEIGHTS = {
+	up: 1,
+	down: -1,
+	earlySkip: -0.5,
+	/** Per full listen, up to `maxFullListens`. */
+	fullListen: 0.25,
+	maxFullListens: 4,
+} as const;
+
+/** Song fields the profile is derived from. */
+export interface TasteSignalSong {
+	genre: string | null;
+	subGenre: string | null;
+	mood: string | null;
+	energy: string | null;
+	bpm: number | null;
+	vocalStyle: string | null;
+	themes: string[] | null;
+	userRating: string | null;
+	playDurationMs: number | null;
+	listenCount: number | null;
+	/** Seconds. */
+	audioDuration: number | null;
+	/** Recorded skips inside the first `EARLY_SKIP_SECONDS`. */
+	earlySkipCount?: number | null;
+	createdAt: number;
+}
+
+export interface TasteWeight {
+	value: string;
+	/** -1 (avoid) … 1 (strongest preference), relative within the dimension. */
+	weight: number;
+	/** Songs that contributed to this value. */
+	songs: number;
+}
+
+export interface TasteProfile {
+	/** Null for the local profile built from unowned playlists. */
+	userId: string | null;
+	/** Songs with at least one signal. */
+	songCount: number;
+	liked: number;
+	disliked: number;
+	earlySkips: number;
+	fullListens: number;
+	updatedAt: number;
+	dimensions: Record<TasteDimension, TasteWeight[]>;
+}
+
+const MAX_VALUES_PER_DIMENSION = 12;
+const MIN_WEIGHT = 0.1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function normalizeValue(value: string | null | undefined): string | null {
+	const normalized = value?.trim().toLowerCase().replace(/\s+/g, " ");
+	return normalized ? normalized : null;
+}
+
+/** 20 BPM buckets, e.g. `100-119`. */
+export function bpmRange(bpm: number | null | undefined): string | null {
+	if (typeof bpm !== "number" || !Number.isFinite(bpm) || bpm <= 0) {
+		return null;
+	}
+	if (bpm < 80) return "<80";
+	if (bpm >= 160) return "160+";
+	const low = Math.floor(bpm / 20) * 20;
+	return `${low}-${low + 19}`;
+}
+
+function averagePlaySeconds(song: TasteSignalSong): number | null {
+	if (!song.playDurationMs || song.playDurationMs <= 0) return null;
+	const listens = Math.max(song.listenCount ?? 0, 1);
+	return song.playDurationMs / 1000 / listens;
+}
+
+/**
+ * Recorded early skips win; older songs without skip events fall back to
+ * an average play shorter than `EARLY_SKIP_SECONDS`.
+ */
+export function isEarlySkip(song: TasteSignalSong): boolean {
+	if ((song.earlySkipCount ?? 0) > 0) return true;
+	const played = averagePlaySeconds(song);
+	if (played === null) return false;
+	return isEarlySkipPosition(played, song.audioDuration);
+}
+
+export function isFullListen(song: TasteSignalSong): boolean {
+	const played = averagePlaySeconds(song);
+	if (played === null || !song.audioDuration) return false;
+	return played >= song.audioDuration * FULL_LISTEN_RATIO;
+}
+
+/** Net signal for one song before recency decay; 0 means no signal. */
+export function songSignalWeight(song: TasteSignalSong): number {
+	const weights = TASTE_SIGNAL_WEIGHTS;
+	let weight = 0;
+	if (song.userRating === "up") weight += weights.up;
+	if (song.userRating === "down") weight += weights.down;
+	if (isEarlySkip(song)) weight += weights.earlySkip;
+	else if (isFullListen(song)) {
+		weight +=
+			weights.fullListen *
+			Math.min(Math.max(song.listenCount ?? 1, 1), weights.maxFullListens);
+	}
+	return weight;
+}
+
+function recencyFactor(createdAt: number, now: number): number {
+	const ageDays = Math.max(0, now - createdAt) / DAY_MS;
+	return Math.max(TASTE_DECAY_FLOOR, 0.5 ** (ageDays / TASTE_HALF_LIFE_DAYS));
+}
+
+function songValues(song: TasteSignalSong): Record<TasteDimension, string[]> {
+	const list = (...values: (string | null | undefined)[]) =>
+		[...new Set(values.map(normalizeValue))].filter(
+			(value): value is string => value !== null,
+		);
+	return {
+		genres: list(song.genre, song.subGenre),
+		moods: list(song.mood),
+		energies: list(song.energy),
+		bpmRanges: list(bpmRange(song.bpm)),
+		vocalStyles: list(song.vocalStyle),
+		themes: list(...(song.themes ?? [])),
+	};
+}
+
+/**
+ * Fold rated and listened songs into weighted preferences. Each song adds
+ * its decayed signal to every value it carries; values are then scaled so
+ * the strongest one in each dimension sits at ±1.
+ */
+export function deriveTasteProfile(
+	songs: TasteSignalSong[],
+	options: { userId: string | null; now?: number },
+): TasteProfile {
+	const now = options.now ?? Date.now();
+	const scores = Object.fromEntries(
+		TASTE_DIMENSIONS.map((dimension) => [dimension, new Map()]),
+	) as Record<TasteDimension, Map<string, { score: number; songs: number }>>;
+
+	let songCount = 0;
+	let liked = 0;
+	let disliked = 0;
+	let earlySkips = 0;
+	let fullListens = 0;
+	for (const song of songs) {
+		const signal = songSignalWeight(song);
+		if (signal === 0) continue;
+		songCount++;
+		if (song.userRating === "up") liked++;
+		if (song.userRating === "down") disliked++;
+		if (isEarlySkip(song)) earlySkips++;
+		else if (isFullListen(song)) fullListens++;
+
+		const weighted = signal * recencyFactor(song.createdAt, now);
+		const values = songValues(song);
+		for (const dimension of TASTE_DIMENSIONS) {
+			for (const value of values[dimension]) {
+				const entry = scores[dimension].get(value) ?? { score: 0, songs: 0 };
+				entry.score += weighted;
+				entry.songs++;
+				scores[dimension].set(value, entry);
+			}
+		}
+	}
+
+	const dimensions = Object.fromEntries(
+		TASTE_DIMENSIONS.map((dimension) => {
+			const entries = [...scores[dimension].entries()];
+			const scale = Math.max(
+				...entries.map(([, entry]) => Math.abs(entry.score)),
+				Number.EPSILON,
+			);
+			const weights = entries
+				.map(([value, entry]) => ({
+					value,
+					weight: Math.round((entry.score / scale) * 100) / 100,
+					songs: entry.songs,
+				}))
+				.filter((entry) => Math.abs(entry.weight) >= MIN_WEIGHT)
+				.sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+				.slice(0, MAX_VALUES_PER_DIMENSION)
+				.sort((a, b) => b.weight - a.weight);
+			return [dimension, weights];
+		}),
+	) as Record<TasteDimension, TasteWeight[]>;
+
+	return {
+		userId: options.userId,
+		songCount,
+		liked,
+		disliked,
+		earlySkips,
+		fullListens,
+		updatedAt: now,
+		dimensions,
+	};
+}
+
+const DIMENSION_LABELS: Record<TasteDimension, string> = {
+	genres: "genres",
+	moods: "moods",
+	energies: "energy",
+	bpmRanges: "BPM",
+	vocalStyles: "vocals",
+	themes: "themes",
+};
+
+/** Compact "leans toward / steers away from" summary for LLM prompts. */
+export function describeTasteProfile(
+	profile: TasteProfile,
+	perDimension = 4,
+): string {
+	const likes: string[] = [];
+	const avoids: string[] = [];
+	for (const dimension of TASTE_DIMENSIONS) {
+		const weights = profile.dimensions[dimension];
+		const top = weights
+			.filter((entry) => entry.weight > 0)
+			.slice(0, perDimension)
+			.map((entry) => entry.value);
+		const bottom = weights
+			.filter((entry) => entry.weight < 0)
+			.reverse()
+			.slice(0, perDimension)
+			.map((entry) => entry.value);
+		const label = DIMENSION_LABELS[dimension];
+		if (top.length > 0) likes.push(`${label}: ${top.join(", ")}`);
+		if (bottom.length > 0) avoids.push(`${label}: ${bottom.join(", ")}`);
+	}
+	return [
+		likes.length > 0 ? `Leans toward — ${likes.join("; ")}` : "",
+		avoids.length > 0 ? `Steers away from — ${avoids.join("; ")}` : "",
+	]
+		.filter(Boolean)
+		.join("\n");
+}
@@ -6,15 +6,37 @@ export const DEFAULT_ANTHROPIC_TEXT_MODEL = "claude-sonnet-4-6";
 export const PROMPT_OPTIMIZATION_PROVIDER: LlmProvider = "openai-codex";
 export const PROMPT_OPTIMIZATION_MODEL = "gpt-5.2";
 
+// ─── OpenAI-compatible servers (Ollama, llama.cpp, vLLM, …) ──────────
+
+export const OPENAI_COMPATIBLE_BASE_URL_SETTING = "openaiCompatibleBaseUrl";
+/** Comma- or newline-separated model ids; the first is the default. */
+export const OPENAI_COMPATIBLE_MODELS_SETTING = "openaiCompatibleModels";
+
+export function parseOpenAiCompatibleModels(
+	raw: string | null | undefined,
+): string[] {
+	const models = (raw ?? "")
+		.split(/[,\n]/)
+		.map((model) => model.trim())
+		.filter(Boolean);
+	return [...new Set(models)];
+}
+
 export function normalizeLlmProvider(
 	value?: string | null,
 	fallback: LlmProvider = DEFAULT_TEXT_PROVIDER,
 ): LlmProvider {
 	if (!value) return fallback;
-	if (value === "openai-codex" || value === "anthropic") {
+	if (
+		value === "openai-codex" ||
+		value === "anthropic" ||
+		value === "openai-compatible"
+	) {
 		return value;
 	}
-	if (value === "ollama" || value === "openrouter") return "openai-codex";
+	// Ollama speaks the OpenAI API; OpenRouter was only ever used for images
+	if (value === "ollama") return "openai-compatible";
+	if (value === "openrouter") return "openai-codex";
 	return fallback;
 }
 
@@ -33,6 +55,11 @@ export function resolveTextLlmProfile(input?: {
 		return { provider, model: DEFAULT_OPENAI_CODEX_TEXT_MODEL };
 	}
 
+	// No built-in default; the server falls back to the first configured model
+	if (provider === "openai-compatible") {
+		return { provider, model: "" };
+	}
+
 	return {
 		provider,
 		model: DEFAULT_ANTHROPIC_TEXT_MODEL,
@@ -0,0 +1,41 @@
+import type { TransitionSettings } from "./protocol";
+
+export const DEFAULT_TRANSITION: TransitionSettings = {
+	mode: "cut",
+	seconds: 0,
+};
+
+const BEATS_PER_BAR = 4;
+
+/** Where in the outgoing song the overlap begins, and how long it lasts. */
+export interface TransitionWindow {
+	offsetSec: number;
+	durationSec: number;
+}
+
+/**
+ * Work out the fade window for the end of a song. Returns null for hard cuts
+ * or when the song's length is unknown. The overlap never takes more than
+ * half the song. In `beat` mode the window is snapped to whole bars; songs
+ * without a BPM fall back to a plain crossfade.
+ */
+export function planTransitionWindow(
+	settings: TransitionSettings,
+	durationSec: number | null | undefined,
+	bpm?: number | null,
+): TransitionWindow | null {
+	if (settings.mode === "cut" || settings.seconds <= 0) return null;
+	if (!durationSec || durationSec <= 0) return null;
+
+	const fade = Math.min(settings.seconds, durationSec / 2);
+	if (settings.mode === "beat" && bpm && bpm > 0) {
+		const barSec = (60 / bpm) * BEATS_PER_BAR;
+		const bars = Math.max(1, Math.round(fade / barSec));
+		const beatFade = bars * barSec;
+		const offset = Math.floor((durationSec - beatFade) / barSec) * barSec;
+		if (offset > 0 && beatFade <= durationSec / 2) {
+			return { offsetSec: offset, durationSec: beatFade };
+		}
+	}
+	return { offsetSec: durationSec - fade, durationSec: fade };
+}
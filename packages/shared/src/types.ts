@@ -44,7 +44,11 @@ export type PlaylistMode = (typeof PLAYLIST_MODES)[number];
 export const PLAYLIST_STATUSES = ["active", "closing", "closed"] as const;
 export type PlaylistStatus = (typeof PLAYLIST_STATUSES)[number];
 
-export const LLM_PROVIDERS = ["openai-codex", "anthropic"] as const;
+export const LLM_PROVIDERS = [
+	"openai-codex",
+	"anthropic",
+	"openai-compatible",
+] as const;
 export type LlmProvider = (typeof LLM_PROVIDERS)[number];
 
 export type { SongCover } from "./protocol";
@@ -152,6 +156,8 @@ export interface Song {
 	status: SongStatus;
 	aceTaskId: string | null;
 	aceSubmittedAt: number | null;
+	/** ACE-Step endpoint the task was submitted to */
+	aceEndpoint?: string | null;
 	audioUrl: string | null;
 	storagePath: string | null;
 	aceAudioPath: string | null;
@@ -169,10 +175,24 @@ export interface Song {
 	userRating: "up" | "down" | null;
 	playDurationMs: number | null;
 	listenCount: number | null;
+	skipCount?: number | null;
+	/** Skips inside the first `EARLY_SKIP_SECONDS`; these steer generation away. */
+	earlySkipCount?: number | null;
 	metadataProcessingMs: number | null;
 	coverProcessingMs: number | null;
 	audioProcessingMs: number | null;
 	personaExtract: string | null;
+	parentSongId?: string | null;
+	variationMode?: SongVariationMode | null;
+	loudnessLufs?: number | null;
+	truePeakDbtp?: number | null;
+	replayGainDb?: number | null;
+	waveformPeaks?: number[];
+	energyCurve?: number[];
+	measuredBpm?: number | null;
+	measuredKey?: string | null;
+	/** Set when the measured tempo or key is far from what was requested. */
+	analysisMismatch?: string | null;
 }
 
 export interface Playlist {
@@ -217,6 +237,13 @@ export interface Playlist {
 	aceAutoDuration: boolean | null;
 	description: string | null;
 	descriptionUpdatedAt: number | null;
+	importedFromId?: string | null;
+	/** Overrides the global quality-gate retry budget when set. */
+	qualityRetryBudget?: number | null;
+	/** Generation budgets; null or missing means unlimited. */
+	budgetSongsPerHour?: number | null;
+	budgetTokensPerDay?: number | null;
+	budgetGpuMinutesPerDay?: number | null;
 }
 
 export interface WorkQueue {
@@ -244,6 +271,88 @@ export interface WorkQueue {
 	staleSongs: Array<{ id: string; status: string; title: string | null }>;
 }
 
+export const SONG_SEARCH_FACETS = [
+	"genres",
+	"moods",
+	"energies",
+	"eras",
+	"languages",
+	"ratings",
+	"playlists",
+] as const;
+
+export type SongSearchFacet = (typeof SONG_SEARCH_FACETS)[number];
+
+/** Query-string parameter for each search facet; repeat it to select several values. */
+export const SONG_SEARCH_FACET_PARAMS: Record<SongSearchFacet, string> = {
+	genres: "genre",
+	moods: "mood",
+	energies: "energy",
+	eras: "era",
+	languages: "language",
+	ratings: "rating",
+	playlists: "playlist",
+};
+
+/** `skipped` covers unrated songs with at least one early skip. */
+export const SONG_RATING_FILTERS = [
+	"liked",
+	"disliked",
+	"skipped",
+	"unrated",
+] as const;
+export type SongRatingFilter = (typeof SONG_RATING_FILTERS)[number];
+
+export interface SongSearchFacetCount {
+	value: string;
+	count: number;
+}
+
+/**
+ * Library search page. Facet counts for each facet are computed with every
+ * other active filter applied, so selecting a value never hides its siblings.
+ * The `playlists` facet is keyed by playlist ID.
+ */
+export interface SongSearchResponse {
+	items: Song[];
+	nextCursor: string | null;
+	total: number;
+	facets: Record<SongSearchFacet, SongSearchFacetCount[]>;
+}
+
+/**
+ * How a variation differs from its parent: a new vocal performance,
+ * a different arrangement, a longer cut of the same song, or a re-render
+ * of its recorded inputs and seed.
+ */
+export const SONG_VARIATION_MODES = [
+	"resing",
+	"arrangement",
+	"extend",
+	"regenerate",
+] as const;
+export type SongVariationMode = (typeof SONG_VARIATION_MODES)[number];
+
+/** A song's lineage: the root original plus every variation beneath it. */
+export interface SongFamily {
+	rootId: string;
+	members: Song[];
+}
+
+/** One song that could not be restored from a playlist archive. */
+export interface PlaylistImportFailure {
+	sourceId: string;
+	title: string | null;
+	error: string;
+}
+
+/** Result of `POST /api/playlists/import`. */
+export interface PlaylistImportResult {
+	playlistId: string;
+	importedSongs: number;
+	failures: PlaylistImportFailure[];
+}
+
 export interface NeedsPersonaSong {
 	id: string;
 	title: string;
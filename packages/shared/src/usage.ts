@@ -0,0 +1,104 @@
+export const USAGE_KINDS = ["llm", "image", "audio"] as const;
+
+export type UsageKind = (typeof USAGE_KINDS)[number];
+
+/** Summed usage over some set of songs, playlists or days. */
+export interface UsageTotals {
+	llmCalls: number;
+	inputTokens: number;
+	outputTokens: number;
+	imageCalls: number;
+	audioRenders: number;
+	gpuSeconds: number;
+	/** Provider-reported cost; zero for subscription and local providers. */
+	costUsd: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+	/** Local calendar day, `YYYY-MM-DD`. */
+	day: string;
+}
+
+/** Optional per-playlist limits; null means unlimited. */
+export interface PlaylistBudget {
+	songsPerHour: number | null;
+	tokensPerDay: number | null;
+	gpuMinutesPerDay: number | null;
+}
+
+export type BudgetLimit = keyof PlaylistBudget;
+
+/** Playlist column for each budget, as accepted by the params update. */
+export const PLAYLIST_BUDGET_FIELDS = {
+	songsPerHour: "budgetSongsPerHour",
+	tokensPerDay: "budgetTokensPerDay",
+	gpuMinutesPerDay: "budgetGpuMinutesPerDay",
+} as const satisfies Record<BudgetLimit, string>;
+
+/** Usage inside the rolling windows the budgets are checked against. */
+export interface BudgetWindowUsage {
+	songsLastHour: number;
+	tokensLastDay: number;
+	gpuSecondsLastDay: number;
+}
+
+export interface PlaylistUsageStats {
+	total: UsageTotals;
+	window: BudgetWindowUsage;
+	daily: DailyUsage[];
+	budget: PlaylistBudget;
+	exceeded: BudgetLimit[];
+}
+
+export function emptyUsageTotals(): UsageTotals {
+	return {
+		llmCalls: 0,
+		inputTokens: 0,
+		outputTokens: 0,
+		imageCalls: 0,
+		audioRenders: 0,
+		gpuSeconds: 0,
+		costUsd: 0,
+	};
+}
+
+/** Budgets that the window usage has reached. */
+export function findExceededBudgets(
+	budget: PlaylistBudget,
+	usage: BudgetWindowUsage,
+): BudgetLimit[] {
+	const exceeded: BudgetLimit[] = [];
+	if (
+		budget.songsPerHour !== null &&
+		usage.songsLastHour >= budget.songsPerHour
+	) {
+		exceeded.push("songsPerHour");
+	}
+	if (
+		budget.tokensPerDay !== null &&
+		usage.tokensLastDay >= budget.tokensPerDay
+	) {
+		exceeded.push("tokensPerDay");
+	}
+	if (
+		budget.gpuMinutesPerDay !== null &&
+		usage.gpuSecondsLastDay >= budget.gpuMinutesPerDay * 60
+	) {
+		exceeded.push("gpuMinutesPerDay");
+	}
+	return exceeded;
+}
+
+/**
+ * How many new songs the budgets allow right now. Token and GPU budgets
+ * are all-or-nothing since a song's cost is only known afterwards.
+ */
+export function remainingSongAllowance(
+	budget: PlaylistBudget,
+	usage: BudgetWindowUsage,
+): number {
+	const exceeded = findExceededBudgets(budget, usage);
+	if (exceeded.length > 0) return 0;
+	if (budget.songsPerHour === null) return Number.POSITIVE_INFINITY;
+	return budget.songsPerHour - usage.songsLastHour;
+}
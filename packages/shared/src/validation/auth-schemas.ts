@@ -0,0 +1,43 @@
+import z from "zod";
+import { API_KEY_SCOPES } from "../auth";
+
+const UsernameSchema = z
+	.string()
+	.trim()
+	.toLowerCase()
+	.regex(
+		/^[a-z0-9][a-z0-9._-]{2,31}$/,
+		"Usernames are 3-32 letters, digits, dots, dashes or underscores",
+	);
+
+const PasswordSchema = z.string().min(8).max(200);
+
+/** Schema for creating a local account */
+export const RegisterLocalAccountSchema = z.object({
+	username: UsernameSchema,
+	password: PasswordSchema,
+	displayName: z.string().trim().min(1).max(120).optional(),
+});
+
+/** Schema for signing in with a local account */
+export const LocalLoginSchema = z.object({
+	username: UsernameSchema,
+	password: z.string().min(1).max(200),
+});
+
+export const ChangePasswordSchema = z.object({
+	currentPassword: z.string().min(1).max(200),
+	newPassword: PasswordSchema,
+});
+
+/** Schema for creating a personal API key */
+export const CreateApiKeySchema = z.object({
+	name: z.string().trim().min(1).max(120),
+	scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+	expiresInDays: z.number().int().min(1).max(3650).nullable().optional(),
+});
+
+export type RegisterLocalAccountInput = z.infer<
+	typeof RegisterLocalAccountSchema
+>;
+export type CreateApiKeyInput = z.infer<typeof CreateApiKeySchema>;
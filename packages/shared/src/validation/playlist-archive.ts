@@ -0,0 +1,123 @@
+import z from "zod";
+import { PLAYLIST_MODES } from "../types";
+import { PlaylistManagerPlanSchema } from "./manager-plan";
+
+export const PLAYLIST_ARCHIVE_FORMAT = "infinitune-playlist";
+export const PLAYLIST_ARCHIVE_VERSION = 1;
+/** Manifest file name at the root of an exported playlist ZIP. */
+export const PLAYLIST_ARCHIVE_MANIFEST = "infinitune.json";
+
+const nullableString = z.string().nullable().optional();
+const nullableNumber = z.number().nullable().optional();
+const nullableBoolean = z.boolean().nullable().optional();
+
+const SteerHistoryEntrySchema = z.object({
+	epoch: z.number(),
+	direction: z.string(),
+	at: z.number(),
+});
+
+/** Playlist settings carried in an archive (IDs and runtime state excluded). */
+export const PlaylistArchivePlaylistSchema = z.object({
+	name: z.string().min(1),
+	prompt: z.string().min(1),
+	llmProvider: z.string().min(1),
+	llmModel: z.string(),
+	mode: z.enum(PLAYLIST_MODES).optional().default("endless"),
+	playlistKey: nullableString,
+	lyricsLanguage: nullableString,
+	targetBpm: nullableNumber,
+	targetKey: nullableString,
+	timeSignature: nullableString,
+	audioDuration: nullableNumber,
+	inferenceSteps: nullableNumber,
+	lmTemperature: nullableNumber,
+	lmCfgScale: nullableNumber,
+	inferMethod: nullableString,
+	aceModel: nullableString,
+	aceDcwEnabled: nullableBoolean,
+	aceDcwMode: nullableString,
+	aceDcwScaler: nullableNumber,
+	aceDcwHighScaler: nullableNumber,
+	aceDcwWavelet: nullableString,
+	aceThinking: nullableBoolean,
+	aceAutoDuration: nullableBoolean,
+	qualityRetryBudget: nullableNumber,
+	budgetSongsPerHour: nullableNumber,
+	budgetTokensPerDay: nullableNumber,
+	budgetGpuMinutesPerDay: nullableNumber,
+	currentOrderIndex: nullableNumber,
+	promptEpoch: nullableNumber,
+	steerHistory: z.array(SteerHistoryEntrySchema).optional().default([]),
+	managerBrief: nullableString,
+	managerPlan: PlaylistManagerPlanSchema.nullable().optional(),
+	managerEpoch: nullableNumber,
+	isStarred: nullableBoolean,
+	description: nullableString,
+});
+
+/** One finished song in an archive, with paths to its files inside the ZIP. */
+export const PlaylistArchiveSongSchema = z.object({
+	sourceId: z.string().min(1),
+	orderIndex: z.number(),
+	status: z.enum(["ready", "played"]),
+	title: z.string().min(1),
+	artistName: z.string().min(1),
+	genre: z.string().min(1),
+	subGenre: nullableString,
+	lyrics: nullableString,
+	caption: nullableString,
+	coverPrompt: nullableString,
+	bpm: nullableNumber,
+	keyScale: nullableString,
+	timeSignature: nullableString,
+	audioDuration: nullableNumber,
+	vocalStyle: nullableString,
+	mood: nullableString,
+	energy: nullableString,
+	era: nullableString,
+	instruments: z.array(z.string()).nullable().optional(),
+	tags: z.array(z.string()).nullable().optional(),
+	themes: z.array(z.string()).nullable().optional(),
+	language: nullableString,
+	description: nullableString,
+	isInterrupt: nullableBoolean,
+	interruptPrompt: nullableString,
+	llmProvider: nullableString,
+	llmModel: nullableString,
+	promptEpoch: nullableNumber,
+	userRating: z.enum(["up", "down"]).nullable().optional(),
+	playDurationMs: nullableNumber,
+	listenCount: nullableNumber,
+	skipCount: nullableNumber,
+	earlySkipCount: nullableNumber,
+	personaExtract: nullableString,
+	loudnessLufs: nullableNumber,
+	truePeakDbtp: nullableNumber,
+	replayGainDb: nullableNumber,
+	waveformPeaks: z.array(z.number()).nullable().optional(),
+	energyCurve: z.array(z.number()).nullable().optional(),
+	measuredBpm: nullableNumber,
+	measuredKey: nullableString,
+	analysisMismatch: nullableString,
+	files: z.object({
+		audio: z.string().min(1),
+		cover: nullableString,
+	}),
+});
+
+export const PlaylistArchiveManifestSchema = z.object({
+	format: z.literal(PLAYLIST_ARCHIVE_FORMAT),
+	version: z.literal(PLAYLIST_ARCHIVE_VERSION),
+	exportedAt: z.number(),
+	source: z.object({
+		playlistId: z.string().min(1),
+	}),
+	playlist: PlaylistArchivePlaylistSchema,
+	songs: z.array(PlaylistArchiveSongSchema),
+});
+
+export type PlaylistArchiveManifest = z.infer<
+	typeof PlaylistArchiveManifestSchema
+>;
+export type PlaylistArchiveSong = z.infer<typeof PlaylistArchiveSongSchema>;
@@ -1,11 +1,13 @@
 import z from "zod";
 import { ACE_DCW_MODES, isValidAceModel } from "../ace-settings";
 import { SUPPORTED_LYRICS_LANGUAGES } from "../lyrics-language";
+import { COLLABORATOR_ROLES } from "../playlist-roles";
 import { PLAYLIST_MODES, PLAYLIST_STATUSES } from "../types";
 
 const UPDATE_LLM_PROVIDERS = [
 	"openai-codex",
 	"anthropic",
+	"openai-compatible",
 	"ollama",
 	"openrouter",
 ] as const;
@@ -58,6 +60,11 @@ export const UpdatePlaylistPromptSchema = z.object({
 	prompt: z.string().min(1),
 });
 
+/** Schema for a one-off song request (played as an interrupt) */
+export const RequestSongSchema = z.object({
+	prompt: z.string().trim().min(1).max(2000),
+});
+
 /** Schema for updating playlist position */
 export const UpdatePlaylistPositionSchema = z.object({
 	currentOrderIndex: z.number().min(0),
@@ -84,6 +91,28 @@ export const UpdatePlaylistParamsSchema = z.object({
 	aceDcwWavelet: AceDcwWaveletSchema.nullable().optional(),
 	aceThinking: z.boolean().nullable().optional(),
 	aceAutoDuration: z.boolean().nullable().optional(),
+	qualityRetryBudget: z.number().int().min(0).max(1000).nullable().optional(),
+	budgetSongsPerHour: z.number().int().min(0).max(1000).nullable().optional(),
+	budgetTokensPerDay: z.number().int().min(0).nullable().optional(),
+	budgetGpuMinutesPerDay: z.number().min(0).max(1440).nullable().optional(),
+});
+
+/** Schema for granting or changing a collaborator's role */
+export const SetCollaboratorRoleSchema = z.object({
+	role: z.enum(COLLABORATOR_ROLES),
+});
+
+/** Schema for creating a playlist invite link */
+export const CreatePlaylistInviteSchema = z.object({
+	role: z.enum(COLLABORATOR_ROLES).default("listener"),
+	/** Null keeps the link valid until revoked. */
+	expiresInHours: z
+		.number()
+		.min(1)
+		.max(24 * 365)
+		.nullable()
+		.optional(),
+	maxUses: z.number().int().min(1).max(1000).nullable().optional(),
 });
 
 /** Schema for setting a key-value setting */
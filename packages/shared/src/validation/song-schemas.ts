@@ -1,6 +1,11 @@
 import z from "zod";
+import { SKIP_SOURCES } from "../engagement";
 import { SongCoverSchema } from "../protocol";
-import { SONG_STATUSES } from "../types";
+import {
+	SONG_RATING_FILTERS,
+	SONG_STATUSES,
+	SONG_VARIATION_MODES,
+} from "../types";
 
 /** Schema for creating a pending song */
 export const CreatePendingSongSchema = z.object({
@@ -44,6 +49,8 @@ export const CompleteSongMetadataSchema = z.object({
 	metadataProcessingMs: z.number().optional(),
 });
 
+export type CompleteSongMetadata = z.infer<typeof CompleteSongMetadataSchema>;
+
 /** Schema for marking a song as ready */
 export const MarkSongReadySchema = z.object({
 	audioUrl: z.string().min(1),
@@ -82,6 +89,16 @@ export const PlayDurationSchema = z.object({
 	durationMs: z.number().positive(),
 });
 
+/** Schema for a skip reported by a player */
+export const RecordSkipSchema = z.object({
+	positionSec: z.number().min(0),
+	durationSec: z.number().positive().optional(),
+	deviceId: z.string().min(1).max(200).optional(),
+	deviceName: z.string().min(1).max(200).optional(),
+	// Room skips are recorded by the room itself, never reported by players
+	source: z.enum(SKIP_SOURCES).exclude(["room"]).default("web"),
+});
+
 /** Schema for song reorder */
 export const ReorderSongSchema = z.object({
 	newOrderIndex: z.number().positive(),
@@ -119,3 +136,38 @@ export const UpdateMetadataSchema = CompleteSongMetadataSchema.omit({
 export const BatchSongIdsSchema = z.object({
 	ids: z.array(z.string().min(1)).min(1),
 });
+
+const SearchFacetValuesSchema = z.array(z.string().min(1).max(200)).default([]);
+
+/** Schema for library search (query string, repeated params become arrays) */
+export const SongSearchQuerySchema = z.object({
+	q: z.string().trim().max(200).optional(),
+	genres: SearchFacetValuesSchema,
+	moods: SearchFacetValuesSchema,
+	energies: SearchFacetValuesSchema,
+	eras: SearchFacetValuesSchema,
+	languages: SearchFacetValuesSchema,
+	ratings: z.array(z.enum(SONG_RATING_FILTERS)).default([]),
+	playlists: SearchFacetValuesSchema,
+	cursor: z.string().min(1).optional(),
+	limit: z.coerce.number().int().min(1).max(200).default(60),
+});
+
+export type SongSearchQuery = z.infer<typeof SongSearchQuerySchema>;
+
+/** Schema for creating a variation of an existing song */
+export const CreateSongVariationSchema = z
+	.object({
+		mode: z.enum(SONG_VARIATION_MODES),
+		/** Target playlist; defaults to the parent's playlist. */
+		playlistId: z.string().min(1).optional(),
+		prompt: z.string().trim().max(500).optional(),
+		vocalStyle: z.string().trim().min(1).max(200).optional(),
+		audioDuration: z.number().min(10).max(600).optional(),
+	})
+	.refine((value) => value.mode !== "resing" || !!value.vocalStyle, {
+		message: "vocalStyle is required to re-sing a song",
+		path: ["vocalStyle"],
+	});
+
+export type CreateSongVariation = z.infer<typeof CreateSongVariationSchema>;
@@ -0,0 +1,30 @@
+import z from "zod";
+import { isValidWebhookPattern } from "../webhooks";
+
+const WebhookUrlSchema = z
+	.string()
+	.trim()
+	.url()
+	.refine((value) => /^https?:\/\//i.test(value), "URL must be http(s)");
+
+const WebhookEventPatternSchema = z
+	.string()
+	.trim()
+	.refine(isValidWebhookPattern, "Unknown webhook event");
+
+/** Schema for creating a webhook subscription */
+export const CreateWebhookSchema = z.object({
+	name: z.string().trim().min(1).max(120),
+	url: WebhookUrlSchema,
+	events: z.array(WebhookEventPatternSchema).min(1),
+	playlistId: z.string().nullable().optional(),
+	enabled: z.boolean().optional(),
+});
+
+/** Schema for updating a webhook subscription */
+export const UpdateWebhookSchema = CreateWebhookSchema.partial().extend({
+	rotateSecret: z.boolean().optional(),
+});
+
+export type CreateWebhookInput = z.infer<typeof CreateWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof UpdateWebhookSchema>;
@@ -0,0 +1,91 @@
+/** Server events a webhook can subscribe to. */
+export const WEBHOOK_EVENTS = [
+	"song.created",
+	"song.status_changed",
+	"song.deleted",
+	"song.metadata_updated",
+	"song.reordered",
+	"playlist.created",
+	"playlist.steered",
+	"playlist.status_changed",
+	"playlist.updated",
+	"playlist.deleted",
+	"agent.chat_message",
+	"agent.question_asked",
+	"agent.memory_updated",
+	"settings.changed",
+	"house.schedule_updated",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Sent by the "test" action only; never matched by subscriptions. */
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+export const WEBHOOK_DELIVERY_STATUSES = [
+	"pending",
+	"delivered",
+	"failed",
+] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-infinitune-signature";
+export const WEBHOOK_EVENT_HEADER = "x-infinitune-event";
+export const WEBHOOK_DELIVERY_HEADER = "x-infinitune-delivery";
+
+/**
+ * Whether an event matches a subscription pattern: an exact event name,
+ * a family wildcard like `song.*`, or `*` for everything.
+ */
+export function matchesWebhookPattern(pattern: string, event: string): boolean {
+	if (pattern === "*") return true;
+	if (pattern.endsWith(".*")) return event.startsWith(pattern.slice(0, -1));
+	return pattern === event;
+}
+
+export function isValidWebhookPattern(pattern: string): boolean {
+	if (pattern === "*") return true;
+	return WEBHOOK_EVENTS.some((event) => matchesWebhookPattern(pattern, event));
+}
+
+/** JSON body POSTed to subscribers. */
+export interface WebhookPayload {
+	id: string;
+	event: string;
+	createdAt: number;
+	data: Record<string, unknown>;
+}
+
+export interface Webhook {
+	id: string;
+	name: string;
+	url: string;
+	/** Start of the signing secret, enough to tell secrets apart. */
+	secretPrefix: string;
+	events: string[];
+	playlistId: string | null;
+	enabled: boolean;
+	createdAt: number;
+	lastDeliveryAt: number | null;
+	lastDeliveryStatus: WebhookDeliveryStatus | null;
+}
+
+/** Returned on creation and secret rotation only. */
+export interface CreatedWebhook extends Webhook {
+	secret: string;
+}
+
+export interface WebhookDelivery {
+	id: string;
+	webhookId: string;
+	event: string;
+	status: WebhookDeliveryStatus;
+	attempts: number;
+	nextAttemptAt: number | null;
+	lastAttemptAt: number | null;
+	responseStatus: number | null;
+	error: string | null;
+	createdAt: number;
+	deliveredAt: number | null;
+}